@@ -0,0 +1,108 @@
+/**
+ * Tests for the CBOR codec.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { decodeCbor, encodeCbor } from "./cbor.ts";
+
+function hex(text: string): Uint8Array {
+  return Uint8Array.from(
+    text.match(/../g) ?? [],
+    (byte) => parseInt(byte, 16),
+  );
+}
+
+Deno.test("encodeCbor matches the RFC 8949 examples", () => {
+  const examples: [unknown, string][] = [
+    [0, "00"],
+    [23, "17"],
+    [24, "1818"],
+    [100, "1864"],
+    [1000000, "1a000f4240"],
+    [-1, "20"],
+    [-1000, "3903e7"],
+    [1.1, "fb3ff199999999999a"],
+    [false, "f4"],
+    [null, "f6"],
+    [undefined, "f7"],
+    ["a", "6161"],
+    ["ü", "62c3bc"],
+    [new Uint8Array([1, 2, 3, 4]), "4401020304"],
+    [[1, [2, 3]], "8201820203"],
+    [{ a: 1, b: [2, 3] }, "a26161016162820203"],
+  ];
+
+  for (const [value, expected] of examples) {
+    assertEquals(encodeCbor(value), hex(expected), String(value));
+  }
+});
+
+Deno.test("encodeCbor writes every bigint as a bignum", () => {
+  assertEquals(encodeCbor(2n ** 64n), hex("c249010000000000000000"));
+  assertEquals(encodeCbor(-(2n ** 64n) - 1n), hex("c349010000000000000000"));
+  // Small ones too, so that they decode as bigints again
+  assertEquals(encodeCbor(7n), hex("c24107"));
+  assertEquals(encodeCbor(0n), hex("c240"));
+});
+
+Deno.test("decodeCbor reads every form of the RFC 8949 examples", () => {
+  assertEquals(decodeCbor(hex("1bffffffffffffffff")), 2n ** 64n - 1n);
+  assertEquals(decodeCbor(hex("3bffffffffffffffff")), -(2n ** 64n));
+  assertEquals(decodeCbor(hex("f93c00")), 1);
+  assertEquals(decodeCbor(hex("f9c400")), -4);
+  assertEquals(decodeCbor(hex("f90001")), 5.960464477539063e-8);
+  assertEquals(decodeCbor(hex("f97c00")), Infinity);
+  assertEquals(decodeCbor(hex("fa47c35000")), 100000);
+  assertEquals(decodeCbor(hex("5f42010243030405ff")), hex("0102030405"));
+  assertEquals(decodeCbor(hex("7f657374726561646d696e67ff")), "streaming");
+  assertEquals(decodeCbor(hex("9fff")), []);
+  assertEquals(decodeCbor(hex("9f018202039f0405ffff")), [1, [2, 3], [4, 5]]);
+  assertEquals(decodeCbor(hex("bf6346756ef563416d7421ff")), {
+    Fun: true,
+    Amt: -2,
+  });
+  // A tag other than a bignum gives the item it wraps
+  assertEquals(decodeCbor(hex("c11a514b67b0")), 1363896240);
+});
+
+Deno.test("decodeCbor reverses encodeCbor", () => {
+  const value = {
+    id: 1,
+    length: 2n ** 63n,
+    offset: -5n,
+    data: new Uint8Array([0xca, 0xfe]),
+    records: [{ name: "a", ratio: 0.5 }, { name: "b", ratio: -0 }],
+    missing: undefined,
+  };
+
+  assertEquals(decodeCbor(encodeCbor(value)), value);
+});
+
+Deno.test("decodeCbor refuses what does not decode to a value", () => {
+  const cases: [string, string][] = [
+    ["", "Need 1 bytes at offset 0, got 0"],
+    ["1a0001", "Need 4 bytes at offset 1, got 2"],
+    ["0000", "1 bytes follow the item"],
+    ["5a00010000", "runs past the end of the input"],
+    ["a10101", "The map key at offset 1 is not a text string"],
+    ["62c328", "is not valid UTF-8"],
+    ["c201", "does not hold a byte string"],
+    ["ff", "Unexpected break at offset 0"],
+    ["1f", "cannot have an indefinite length"],
+    ["1c", "Additional information 28"],
+    ["f0", "Simple value 16"],
+    ["5f6161ff", "must hold definite strings of the same type"],
+  ];
+
+  for (const [bytes, message] of cases) {
+    assertThrows(() => decodeCbor(hex(bytes)), Error, message);
+  }
+});
+
+Deno.test("encodeCbor refuses values it has no type for", () => {
+  assertThrows(
+    () => encodeCbor({ run: () => {} }),
+    Error,
+    "Cannot encode a function as CBOR",
+  );
+});
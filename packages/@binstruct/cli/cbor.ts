@@ -0,0 +1,349 @@
+/**
+ * CBOR (RFC 8949) for the values binstruct coders decode to.
+ *
+ * Byte slices are byte strings, and bigints are bignums (tags 2 and 3)
+ * whatever their size, so a bigint decodes as a bigint again and can be
+ * encoded by the 64-bit coder it came from. Integers too large for a number
+ * decode as bigints too. Other tags decode to the value they wrap.
+ *
+ * @module
+ */
+
+/**
+ * Encodes a value as CBOR.
+ *
+ * @param value The value: plain objects, arrays, strings, numbers, bigints,
+ * booleans, null, undefined and Uint8Arrays
+ * @returns The encoded item
+ * @throws {Error} If the value holds anything else
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { encodeCbor } from "./cbor.ts";
+ *
+ * assertEquals(
+ *   encodeCbor({ id: 1, data: new Uint8Array([0xca, 0xfe]) }),
+ *   new Uint8Array([
+ *     0xa2, 0x62, 0x69, 0x64, 0x01, // { "id": 1,
+ *     0x64, 0x64, 0x61, 0x74, 0x61, 0x42, 0xca, 0xfe, // "data": h'cafe' }
+ *   ]),
+ * );
+ * ```
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const out: number[] = [];
+  encodeItem(value, out);
+  return Uint8Array.from(out);
+}
+
+/**
+ * Decodes one CBOR item.
+ *
+ * @param bytes The encoded item, and nothing after it
+ * @returns The decoded value
+ * @throws {Error} If the bytes are not one well-formed item, or hold a map
+ * with keys that are not text
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decodeCbor } from "./cbor.ts";
+ *
+ * // A bignum: tag 2 over the bytes 01 00 00 00 00 00 00 00 00
+ * const bytes = new Uint8Array([0xc2, 0x49, 1, 0, 0, 0, 0, 0, 0, 0, 0]);
+ *
+ * assertEquals(decodeCbor(bytes), 2n ** 64n);
+ * ```
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const reader = { bytes, offset: 0 };
+  const value = decodeItem(reader);
+  if (reader.offset !== bytes.length) {
+    throw new Error(
+      `Invalid CBOR: ${
+        bytes.length - reader.offset
+      } bytes follow the item. Must be a single item.`,
+    );
+  }
+  return value;
+}
+
+function encodeHead(major: number, argument: number | bigint, out: number[]) {
+  const n = BigInt(argument);
+  const type = major << 5;
+  if (n < 24n) {
+    out.push(type | Number(n));
+  } else if (n < 0x100n) {
+    out.push(type | 24, Number(n));
+  } else if (n < 0x10000n) {
+    out.push(type | 25, ...bigEndian(n, 2));
+  } else if (n < 0x100000000n) {
+    out.push(type | 26, ...bigEndian(n, 4));
+  } else {
+    out.push(type | 27, ...bigEndian(n, 8));
+  }
+}
+
+function bigEndian(n: bigint, length: number): number[] {
+  return Array.from(
+    { length },
+    (_, i) => Number((n >> BigInt((length - 1 - i) * 8)) & 0xffn),
+  );
+}
+
+function encodeBytes(major: number, bytes: Uint8Array, out: number[]) {
+  encodeHead(major, bytes.length, out);
+  for (const byte of bytes) {
+    out.push(byte);
+  }
+}
+
+function encodeItem(value: unknown, out: number[]): void {
+  if (value === undefined) {
+    out.push(0xf7);
+  } else if (value === null) {
+    out.push(0xf6);
+  } else if (typeof value === "boolean") {
+    out.push(value ? 0xf5 : 0xf4);
+  } else if (typeof value === "number") {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      encodeHead(value < 0 ? 1 : 0, value < 0 ? -1 - value : value, out);
+    } else {
+      const float = new DataView(new ArrayBuffer(8));
+      float.setFloat64(0, value);
+      out.push(0xfb, ...new Uint8Array(float.buffer));
+    }
+  } else if (typeof value === "bigint") {
+    // Always a bignum, never a plain integer, so that it stays a bigint
+    let magnitude = value < 0n ? -1n - value : value;
+    const digits: number[] = [];
+    for (; magnitude > 0n; magnitude >>= 8n) {
+      digits.unshift(Number(magnitude & 0xffn));
+    }
+    out.push(value < 0n ? 0xc3 : 0xc2);
+    encodeBytes(2, Uint8Array.from(digits), out);
+  } else if (typeof value === "string") {
+    encodeBytes(3, new TextEncoder().encode(value), out);
+  } else if (value instanceof Uint8Array) {
+    encodeBytes(2, value, out);
+  } else if (Array.isArray(value)) {
+    encodeHead(4, value.length, out);
+    for (const item of value) {
+      encodeItem(item, out);
+    }
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value);
+    encodeHead(5, entries.length, out);
+    for (const [key, item] of entries) {
+      encodeItem(key, out);
+      encodeItem(item, out);
+    }
+  } else {
+    throw new Error(`Cannot encode a ${typeof value} as CBOR`);
+  }
+}
+
+interface Reader {
+  readonly bytes: Uint8Array;
+  offset: number;
+}
+
+function take(reader: Reader, length: number): Uint8Array {
+  const { bytes, offset } = reader;
+  if (offset + length > bytes.length) {
+    throw new Error(
+      `Invalid CBOR: Need ${length} bytes at offset ${offset}, got ${
+        bytes.length - offset
+      }.`,
+    );
+  }
+  reader.offset += length;
+  return bytes.subarray(offset, offset + length);
+}
+
+// The argument of a head, or undefined for the indefinite length
+function readArgument(reader: Reader, info: number): bigint | undefined {
+  if (info < 24) {
+    return BigInt(info);
+  }
+  if (info <= 27) {
+    const bytes = take(reader, 2 ** (info - 24));
+    return bytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+  }
+  if (info === 31) {
+    return undefined;
+  }
+  throw new Error(
+    `Invalid CBOR: Additional information ${info} at offset ${
+      reader.offset - 1
+    } is reserved.`,
+  );
+}
+
+function integer(n: bigint): number | bigint {
+  return n >= -BigInt(Number.MAX_SAFE_INTEGER) &&
+      n <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(n)
+    : n;
+}
+
+function length(n: bigint, reader: Reader): number {
+  // Anything longer than the input cannot be there
+  if (n > BigInt(reader.bytes.length - reader.offset)) {
+    throw new Error(
+      `Invalid CBOR: A length of ${n} at offset ${reader.offset} runs past the end of the input.`,
+    );
+  }
+  return Number(n);
+}
+
+// Reads items until the break byte of an indefinite-length item
+function untilBreak<T>(reader: Reader, read: () => T): T[] {
+  const items: T[] = [];
+  while (take(reader, 1)[0] !== 0xff) {
+    reader.offset--;
+    items.push(read());
+  }
+  return items;
+}
+
+function readString(reader: Reader, major: 2 | 3, info: number): Uint8Array {
+  const argument = readArgument(reader, info);
+  if (argument !== undefined) {
+    return take(reader, length(argument, reader));
+  }
+
+  const chunks = untilBreak(reader, () => {
+    const head = take(reader, 1)[0];
+    if (head >> 5 !== major || (head & 0x1f) === 31) {
+      throw new Error(
+        `Invalid CBOR: Indefinite-length strings must hold definite strings of the same type.`,
+      );
+    }
+    return readString(reader, major, head & 0x1f);
+  });
+  const joined = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+function decodeItem(reader: Reader): unknown {
+  const start = reader.offset;
+  const head = take(reader, 1)[0];
+  const major = head >> 5;
+  const info = head & 0x1f;
+
+  switch (major) {
+    case 0:
+    case 1: {
+      const argument = readArgument(reader, info);
+      if (argument === undefined) {
+        break;
+      }
+      return integer(major === 0 ? argument : -1n - argument);
+    }
+    case 2:
+      return readString(reader, 2, info).slice();
+    case 3:
+      try {
+        return utf8.decode(readString(reader, 3, info));
+      } catch (cause) {
+        throw new Error(
+          `Invalid CBOR: The text string at offset ${start} is not valid UTF-8.`,
+          { cause },
+        );
+      }
+    case 4: {
+      const argument = readArgument(reader, info);
+      return argument === undefined
+        ? untilBreak(reader, () => decodeItem(reader))
+        : Array.from(
+          { length: length(argument, reader) },
+          () => decodeItem(reader),
+        );
+    }
+    case 5: {
+      const readEntry = (): [string, unknown] => {
+        const keyOffset = reader.offset;
+        const key = decodeItem(reader);
+        if (typeof key !== "string") {
+          throw new Error(
+            `Invalid CBOR: The map key at offset ${keyOffset} is not a text string. Must be text to decode to an object.`,
+          );
+        }
+        return [key, decodeItem(reader)];
+      };
+      const argument = readArgument(reader, info);
+      return Object.fromEntries(
+        argument === undefined
+          ? untilBreak(reader, readEntry)
+          : Array.from({ length: length(argument, reader) }, readEntry),
+      );
+    }
+    case 6: {
+      const tag = readArgument(reader, info);
+      if (tag === 2n || tag === 3n) {
+        const content = decodeItem(reader);
+        if (!(content instanceof Uint8Array)) {
+          throw new Error(
+            `Invalid CBOR: The bignum at offset ${start} does not hold a byte string.`,
+          );
+        }
+        const n = content.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+        return tag === 2n ? n : -1n - n;
+      }
+      if (tag === undefined) {
+        break;
+      }
+      return decodeItem(reader);
+    }
+    case 7:
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+          return null;
+        case 23:
+          return undefined;
+        case 25:
+          return float16(take(reader, 2));
+        case 26:
+          return new DataView(take(reader, 4).slice().buffer).getFloat32(0);
+        case 27:
+          return new DataView(take(reader, 8).slice().buffer).getFloat64(0);
+      }
+      throw new Error(
+        info === 31
+          ? `Invalid CBOR: Unexpected break at offset ${start}.`
+          : `Invalid CBOR: Simple value ${info} at offset ${start} is not supported.`,
+      );
+  }
+
+  throw new Error(
+    `Invalid CBOR: Major type ${major} at offset ${start} cannot have an indefinite length.`,
+  );
+}
+
+function float16([high, low]: Uint8Array): number {
+  const sign = high & 0x80 ? -1 : 1;
+  const exponent = (high >> 2) & 0x1f;
+  const fraction = ((high & 0x03) << 8) | low;
+  if (exponent === 0) {
+    return sign * fraction * 2 ** -24;
+  }
+  if (exponent === 0x1f) {
+    return fraction === 0 ? sign * Infinity : NaN;
+  }
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
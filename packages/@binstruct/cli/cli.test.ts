@@ -20,6 +20,7 @@ import {
 import { fromFileUrl, toFileUrl } from "@std/path";
 import { stub } from "@std/testing/mock";
 import { FakeTime } from "@std/testing/time";
+import { arrayLP, struct, u16be, u8 } from "@hertzg/binstruct";
 import { explainFailure, parseCliArgs, planCli } from "./cli.ts";
 
 /**
@@ -364,9 +365,18 @@ Deno.test("parseCliArgs fills the three positionals in order", () => {
     help: false,
     version: false,
     docs: false,
+    color: false,
+    depth: undefined,
+    field: undefined,
+    many: false,
+    offset: undefined,
+    length: undefined,
+    skipErrors: false,
+    format: undefined,
     unknownFlags: [],
     blankSlots: [],
     extraArgs: [],
+    files: [],
   });
 });
 
@@ -408,9 +418,18 @@ Deno.test("parseCliArgs leaves absent positionals undefined", () => {
     help: false,
     version: false,
     docs: false,
+    color: false,
+    depth: undefined,
+    field: undefined,
+    many: false,
+    offset: undefined,
+    length: undefined,
+    skipErrors: false,
+    format: undefined,
     unknownFlags: [],
     blankSlots: [],
     extraArgs: [],
+    files: [],
   });
 
   assertEquals(parseCliArgs(["png"]).coder, undefined);
@@ -459,12 +478,12 @@ Deno.test("parseCliArgs ends the flags at --", () => {
 });
 
 Deno.test("parseCliArgs reports a flag it does not know", () => {
-  // The damage an accepted unknown flag does is the shift: `--format` swallowed
+  // The damage an accepted unknown flag does is the shift: `--output` swallowed
   // `png` as its value, the package slot got `decode`, and the CLI reported
   // confidently on jsr:@binstruct/decode.
-  const shifted = parseCliArgs(["--format", "png", "decode"]);
+  const shifted = parseCliArgs(["--output", "png", "decode"]);
 
-  assertEquals(shifted.unknownFlags, ["--format"]);
+  assertEquals(shifted.unknownFlags, ["--output"]);
   assertEquals(shifted.package, "decode");
 
   // A cluster reports the word as typed, once, rather than four inventions.
@@ -477,8 +496,8 @@ Deno.test("parseCliArgs reports a flag it does not know", () => {
     [],
   );
   assertEquals(parseCliArgs(["png", "pngFile", "decode"]).unknownFlags, []);
-  assertEquals(parseCliArgs(["--", "--format"]).unknownFlags, []);
-  assertEquals(parseCliArgs(["--", "--format"]).package, "--format");
+  assertEquals(parseCliArgs(["--", "--output"]).unknownFlags, []);
+  assertEquals(parseCliArgs(["--", "--output"]).package, "--output");
 });
 
 Deno.test("parseCliArgs reads the flags", () => {
@@ -688,8 +707,8 @@ Deno.test("level 2 asks for a command once the coder is known", async () => {
   assertEquals(plan.stream, "stderr");
   assertEquals(plan.code, 1);
   assertStringIncludes(plan.text, "NEXT  <command>");
-  assertStringIncludes(plan.text, "  decode  binary on stdin → JSON5");
-  assertStringIncludes(plan.text, "  encode  JSON5 on stdin");
+  assertStringIncludes(plan.text, "  decode   binary on stdin → JSON5");
+  assertStringIncludes(plan.text, "  encode   JSON5 on stdin");
   assertStringIncludes(plan.text, `TRY\n  binstruct ${PNG} pngFile decode`);
 });
 
@@ -869,6 +888,258 @@ Deno.test("an unknown command is answered with the command list", async () => {
   assertStringIncludes(plan.text, "NEXT  <command>");
 });
 
+Deno.test("parseCliArgs reads the hexdump flags", () => {
+  const options = parseCliArgs([
+    "png",
+    "pngFile",
+    "hexdump",
+    "--color",
+    "--depth",
+    "2",
+    "--field",
+    "chunks[0]",
+  ]);
+
+  assertEquals(options.command, "hexdump");
+  assertEquals(options.color, true);
+  assertEquals(options.depth, "2");
+  assertEquals(options.field, "chunks[0]");
+  assertEquals(options.unknownFlags, []);
+});
+
+Deno.test("hexdump is offered next to decode and encode", async () => {
+  const plan = printed(await planCli([PNG, "pngFile"]));
+
+  assertStringIncludes(plan.text, "  hexdump  binary on stdin → hex");
+  assertStringIncludes(
+    plan.text,
+    `binstruct ${PNG} pngFile hexdump < input.bin`,
+  );
+});
+
+Deno.test("a hexdump run carries its flags", async () => {
+  const plan = await planCli([
+    ARP,
+    "hexdump",
+    "--depth",
+    "1",
+    "--field",
+    "senderHardwareAddress",
+  ]);
+
+  assertEquals(plan.kind, "run");
+  if (plan.kind !== "run") return;
+
+  assertEquals(plan.coder, "arpData");
+  assertEquals(plan.command, "hexdump");
+  assertEquals(plan.hexdump, {
+    color: false,
+    depth: 1,
+    field: "senderHardwareAddress",
+  });
+
+  const decode = await planCli([ARP, "decode"]);
+  assertEquals(decode.kind === "run" && decode.hexdump, undefined);
+});
+
+Deno.test("hexdump flags are refused on the other commands", async () => {
+  // They would change nothing there, which is what an unknown flag is refused
+  // for too
+  const plan = printed(
+    await planCli([ARP, "decode", "--depth", "2", "--color"]),
+  );
+
+  assertEquals(plan.stream, "stderr");
+  assertEquals(plan.code, 1);
+  assertStringIncludes(
+    plan.text,
+    "--color, --depth only apply to hexdump, not to decode",
+  );
+  assertStringIncludes(plan.text, "NEXT  <command>");
+});
+
+Deno.test("a hexdump depth has to be a number of levels", async () => {
+  for (const depth of ["two", "-1", "1.5", ""]) {
+    const plan = printed(await planCli([ARP, "hexdump", `--depth=${depth}`]));
+
+    assertEquals(plan.code, 1);
+    assertStringIncludes(
+      plan.text,
+      `--depth takes a number of levels, not '${depth}'`,
+    );
+  }
+});
+
+Deno.test("a decode run carries its window and record flags", async () => {
+  const options = parseCliArgs([
+    ARP,
+    "decode",
+    "--many",
+    "--skip-errors",
+    "--offset",
+    "0x10",
+    "--length",
+    "56",
+  ]);
+
+  assertEquals(options.many, true);
+  assertEquals(options.skipErrors, true);
+  assertEquals(options.offset, "0x10");
+  assertEquals(options.length, "56");
+  assertEquals(options.unknownFlags, []);
+
+  const plan = await planCli([
+    ARP,
+    "decode",
+    "--many",
+    "--skip-errors",
+    "--offset",
+    "0x10",
+    "--length",
+    "56",
+  ]);
+
+  assertEquals(plan.kind, "run");
+  if (plan.kind !== "run") return;
+
+  assertEquals(plan.decode, {
+    many: true,
+    offset: 16,
+    length: 56,
+    skipErrors: true,
+  });
+
+  const hexdump = await planCli([ARP, "hexdump"]);
+  assertEquals(hexdump.kind === "run" && hexdump.decode, undefined);
+});
+
+Deno.test("decode flags are refused on the other commands", async () => {
+  const plan = printed(
+    await planCli([ARP, "hexdump", "--many", "--offset", "4"]),
+  );
+
+  assertEquals(plan.stream, "stderr");
+  assertEquals(plan.code, 1);
+  assertStringIncludes(
+    plan.text,
+    "--many, --offset only apply to decode, not to hexdump",
+  );
+});
+
+Deno.test("a decode window is a number of bytes", async () => {
+  for (const [flag, value] of [["offset", "-1"], ["length", "ten"]]) {
+    const plan = printed(await planCli([ARP, "decode", `--${flag}=${value}`]));
+
+    assertEquals(plan.code, 1);
+    assertStringIncludes(
+      plan.text,
+      `--${flag} takes a number of bytes, not '${value}'`,
+    );
+  }
+
+  const skipping = printed(await planCli([ARP, "decode", "--skip-errors"]));
+  assertStringIncludes(
+    skipping.text,
+    "--skip-errors steps over records that do not decode, so it needs --many",
+  );
+});
+
+Deno.test("a decode or encode run carries its format", async () => {
+  assertEquals(
+    parseCliArgs([ARP, "decode", "--format", "cbor"]).format,
+    "cbor",
+  );
+
+  for (const command of ["decode", "encode"]) {
+    const plan = await planCli([ARP, command, "--format", "jsonl"]);
+
+    assertEquals(plan.kind, "run");
+    assertEquals(plan.kind === "run" && plan.format, "jsonl");
+  }
+
+  // JSON5 is the default, so a plan without --format leaves it to the command.
+  const plain = await planCli([ARP, "decode"]);
+  assertEquals(plain.kind === "run" && plain.format, undefined);
+});
+
+Deno.test("--format is refused where nothing is written or read", async () => {
+  const plan = printed(await planCli([ARP, "hexdump", "--format", "yaml"]));
+
+  assertEquals(plan.stream, "stderr");
+  assertEquals(plan.code, 1);
+  assertStringIncludes(
+    plan.text,
+    "--format only applies to decode and encode, not to hexdump",
+  );
+});
+
+Deno.test("--format names one of the formats", async () => {
+  const plan = printed(await planCli([ARP, "decode", "--format", "xml"]));
+
+  assertEquals(plan.code, 1);
+  assertStringIncludes(
+    plan.text,
+    "--format takes one of json5, json, jsonl, yaml, cbor, msgpack, not 'xml'",
+  );
+});
+
+Deno.test("diff takes the words after it as its files", async () => {
+  const options = parseCliArgs([ARP, "diff", "golden.bin", "-"]);
+
+  assertEquals(options.command, "diff");
+  assertEquals(options.files, ["golden.bin", "-"]);
+  assertEquals(options.extraArgs, []);
+
+  const plan = await planCli([ARP, "diff", "golden.bin", "-"]);
+
+  assertEquals(plan.kind, "run");
+  if (plan.kind !== "run") return;
+
+  assertEquals(plan.command, "diff");
+  assertEquals(plan.files, ["golden.bin", "-"]);
+
+  const decode = await planCli([ARP, "decode"]);
+  assertEquals(decode.kind === "run" && decode.files, undefined);
+});
+
+Deno.test("diff is offered with two files", async () => {
+  const plan = printed(await planCli([PNG, "pngFile"]));
+
+  assertStringIncludes(
+    plan.text,
+    "  diff     two files → the fields that differ",
+  );
+  assertStringIncludes(
+    plan.text,
+    `binstruct ${PNG} pngFile diff expected.bin actual.bin`,
+  );
+});
+
+Deno.test("diff refuses anything but two usable files", async () => {
+  // deno-fmt-ignore
+  const cases: [string[], string][] = [
+    [[], "diff compares two files, <left> and <right>, and was given 0"],
+    [["a.bin"], "diff compares two files, <left> and <right>, and was given 1"],
+    [["a", "b", "c"], "diff compares two files, <left> and <right>, and was given 3"],
+    [["a.bin", ""], "a diff file is blank, and a blank word names nothing"],
+    [["-", "-"], "only one side of a diff can be read from stdin ('-')"],
+  ];
+
+  for (const [files, note] of cases) {
+    const plan = printed(await planCli([ARP, "diff", ...files]));
+
+    assertEquals(plan.stream, "stderr");
+    assertEquals(plan.code, 1);
+    assertStringIncludes(plan.text, note);
+  }
+
+  const flagged = printed(await planCli([ARP, "diff", "a", "b", "--color"]));
+  assertStringIncludes(
+    flagged.text,
+    "--color only apply to hexdump, not to diff",
+  );
+});
+
 Deno.test("--docs delegates the formatting to deno doc", async () => {
   const plan = printed(await planCli([ARP, "--docs"]));
 
@@ -890,6 +1161,27 @@ Deno.test("explainFailure falls back to the raw error", async () => {
   assertEquals(text, "Error: bad input");
 });
 
+Deno.test("explainFailure locates a decode failure instead of listing coders", async () => {
+  const coder = struct({ id: u8(), options: arrayLP(u16be(), u8()) });
+  let error: unknown;
+  try {
+    coder.decode(new Uint8Array([1, 2, 0, 7, 0]));
+  } catch (e) {
+    error = e;
+  }
+
+  const text = await explainFailure(ARP, "arpData", error);
+
+  assertEquals(
+    text,
+    [
+      "Error: Need 2 bytes, got 1",
+      "  while decoding options[1] (u16be)",
+      "  at byte offset 4 (0x4) of the input",
+    ].join("\n"),
+  );
+});
+
 Deno.test("explainFailure answers an unreadable package with the package list", async () => {
   const text = await explainFailure("./no-such-package.ts", "whatever", "boom");
 
@@ -1081,9 +1373,18 @@ Deno.test("parseCliArgs keeps a numeric-looking word as typed", () => {
     help: false,
     version: false,
     docs: false,
+    color: false,
+    depth: undefined,
+    field: undefined,
+    many: false,
+    offset: undefined,
+    length: undefined,
+    skipErrors: false,
+    format: undefined,
     unknownFlags: [],
     blankSlots: [],
     extraArgs: [],
+    files: [],
   });
 });
 
@@ -1985,11 +2286,11 @@ Deno.test("the header does not repeat itself when nothing was expanded", async (
 });
 
 Deno.test("an unknown flag is refused, and no package is guessed at", async () => {
-  const plan = printed(await planCli(["--format", "png", "decode"]));
+  const plan = printed(await planCli(["--output", "png", "decode"]));
 
   assertEquals(plan.stream, "stderr");
   assertEquals(plan.code, 1);
-  assertStringIncludes(plan.text, "unknown option: --format");
+  assertStringIncludes(plan.text, "unknown option: --output");
   assertStringIncludes(plan.text, "shifts which word is the package");
   // The word the flag pushed into the package slot is never resolved.
   assertEquals(plan.text.includes("jsr:@binstruct/decode"), false);
@@ -2000,29 +2301,29 @@ Deno.test("an unknown flag is refused, and no package is guessed at", async () =
 });
 
 Deno.test("--help does not excuse an unknown flag either", async () => {
-  const plan = printed(await planCli(["--format", "json", "png", "--help"]));
+  const plan = printed(await planCli(["--output", "json", "png", "--help"]));
 
   assertEquals(plan.stream, "stderr");
   assertEquals(plan.code, 1);
-  assertStringIncludes(plan.text, "unknown option: --format");
+  assertStringIncludes(plan.text, "unknown option: --output");
 });
 
 Deno.test("an unknown flag beats --version to the answer", async () => {
   // --version reads no positionals, but reporting a version for a command line
   // the parser did not understand says the invocation was fine. It was not.
-  const plan = printed(await planCli(["--version", "--format"]));
+  const plan = printed(await planCli(["--version", "--output"]));
 
   assertEquals(plan.stream, "stderr");
   assertEquals(plan.code, 1);
-  assertStringIncludes(plan.text, "unknown option: --format");
+  assertStringIncludes(plan.text, "unknown option: --output");
 });
 
 Deno.test("an unknown flag writes nothing to stdout", async () => {
-  const run = await runCli(["--format", "json", "png"], OFFLINE);
+  const run = await runCli(["--output", "json", "png"], OFFLINE);
 
   assertEquals(run.code, 1);
   assertEquals(run.stdout, "");
-  assertStringIncludes(run.stderr, "unknown option: --format");
+  assertStringIncludes(run.stderr, "unknown option: --output");
 });
 
 Deno.test("a package word that reads as flags never prints help on stdout", async () => {
@@ -6,7 +6,10 @@
  * Decodes and encodes binary data with any binstruct package, reading stdin and
  * writing stdout so it drops into a pipeline. Decoded structures leave as
  * **JSON5** — quoted-where-needed keys, `0x` byte literals and `// |ascii|`
- * comments — which is what `encode` reads back.
+ * comments — which is what `encode` reads back. `--format` trades it for JSON,
+ * JSON Lines, YAML, CBOR or MessagePack, in either direction. `hexdump` prints
+ * the input instead, each field's bytes beside its path and decoded value, and
+ * `diff` decodes two files and prints the paths at which they differ.
  *
  * The argument list is a prefix chain, and every prefix of it is a valid
  * invocation (ADR 0001):
@@ -58,12 +61,46 @@
  * binstruct -- -dash/mod.ts decode < input.bin > output.json5
  * ```
  *
+ * @example Decode back-to-back records, resynchronising after malformed ones
+ * ```bash
+ * binstruct tls-record tlsRecord decode --many --skip-errors < records.bin
+ * ```
+ *
+ * @example Decode a window of the input, from a hex offset
+ * ```bash
+ * binstruct png pngChunkUnknown decode --offset 0x8 --length 25 < input.png
+ * ```
+ *
+ * @example Decode records to JSON Lines, one per line, and encode them back
+ * ```bash
+ * binstruct tls-record tlsRecord decode --many --format jsonl < records.bin > records.jsonl
+ * binstruct tls-record tlsRecord encode --format jsonl < records.jsonl > records.bin
+ * ```
+ *
+ * @example See which bytes each field of the first chunk came from
+ * ```bash
+ * binstruct png pngFile hexdump --field 'chunks[0]' --color < input.png
+ * ```
+ *
+ * @example Check an encoder's output against a golden file, failing on change
+ * ```bash
+ * binstruct png pngFile diff golden.png output.png
+ * ```
+ *
  * @module
  */
 
 import { parseArgs } from "@std/cli";
-import { decodeCommand } from "./commands/decode.ts";
+import {
+  BinstructDecodeError,
+  BinstructEncodeError,
+  formatPath,
+} from "@hertzg/binstruct";
+import { decodeCommand, type DecodeOptions } from "./commands/decode.ts";
 import { encodeCommand } from "./commands/encode.ts";
+import { hexdumpCommand, type HexdumpOptions } from "./commands/hexdump.ts";
+import { type FormatName, FORMATS, isFormatName } from "./serialization.ts";
+import { diffCommand } from "./commands/diff.ts";
 import { UnverifiedArityError } from "./loader.ts";
 import {
   diagnoseEmptyDiscovery,
@@ -101,17 +138,45 @@ const VERSION_LINE = "@binstruct/cli v0.2.0";
 const COMMANDS = [
   { name: "decode", summary: "binary on stdin → JSON5 on stdout" },
   { name: "encode", summary: "JSON5 on stdin → binary on stdout" },
+  {
+    name: "hexdump",
+    summary: "binary on stdin → hex annotated with fields on stdout",
+  },
+  {
+    name: "diff",
+    summary: "two files → the fields that differ on stdout, exit 1 if any",
+  },
+] as const;
+
+/** The flags that shape a `hexdump`, and mean nothing to another command. */
+const HEXDUMP_FLAGS = ["--color", "--depth", "--field"] as const;
+
+/** The flags that choose what a `decode` reads, and mean nothing elsewhere. */
+const DECODE_FLAGS = [
+  "--many",
+  "--offset",
+  "--length",
+  "--skip-errors",
 ] as const;
 
 /** Recap of the calling convention, appended to every `--help` screen. */
 const USAGE_FOOTER: readonly string[] = [
   "USAGE",
   `  ${PROGRAM} [--] [<package> [<coder> [<command>]]] [options]`,
+  `  ${PROGRAM} [--] <package> [<coder>] diff <left> <right>`,
   "",
   "OPTIONS",
   "  -p, --package <package>  same as the first positional",
   "  -c, --coder <coder>      same as the second positional",
   "      --docs               print `deno doc` for the chosen coder",
+  "      --color              hexdump: colour the output",
+  "      --depth <n>          hexdump: one row per field at most n levels deep",
+  "      --field <path>       hexdump: only the rows under a path, e.g. chunks[0]",
+  "      --many               decode: records back to back, as an array",
+  "      --offset <n>         decode: start at byte n, decimal or 0x hex",
+  "      --length <n>         decode: read n bytes from the offset",
+  "      --skip-errors        decode --many: step over bytes that do not decode",
+  "      --format <name>      decode, encode: the payload format, json5 by default",
   "  -h, --help               print this guidance on stdout and exit 0",
   "  -v, --version            print the version",
   "      --                   ends the flags; every later word is a positional",
@@ -121,6 +186,11 @@ const USAGE_FOOTER: readonly string[] = [
   `  a local <package> names a module file, not a directory: ./${SAMPLE_PACKAGE}/mod.ts`,
   `  a <package> starting with '-' needs the separator: ${PROGRAM} -- -pkg/mod.ts`,
   "  the payload is JSON5, not JSON: quoted keys, 0x byte literals, comments",
+  `  --format also takes ${
+    FORMATS.filter((name) => name !== "json5").join(", ")
+  }`,
+  "  diff reads a side named '-' from stdin, and exits 1 when the sides differ",
+  "  decode notes skipped and trailing bytes on stderr",
   "  without --help, guidance goes to stderr and exits 1, so a half-typed",
   "  redirect stays empty",
   "",
@@ -158,6 +228,22 @@ export interface CliOptions {
   readonly version: boolean;
   /** Print `deno doc` output for the chosen coder instead of running it. */
   readonly docs: boolean;
+  /** Colour the hexdump. */
+  readonly color: boolean;
+  /** Hexdump depth as typed, validated by {@linkcode planCli}. */
+  readonly depth: string | undefined;
+  /** Hexdump field filter, a path like `chunks[0].data`. */
+  readonly field: string | undefined;
+  /** Decode records back to back until the input runs out. */
+  readonly many: boolean;
+  /** Decode start offset as typed, validated by {@linkcode planCli}. */
+  readonly offset: string | undefined;
+  /** Decode window length as typed, validated by {@linkcode planCli}. */
+  readonly length: string | undefined;
+  /** Step over records that do not decode, with `many`. */
+  readonly skipErrors: boolean;
+  /** Payload format as typed, validated by {@linkcode planCli}. */
+  readonly format: string | undefined;
   /**
    * Flags the parser was given and does not know, as typed.
    *
@@ -176,13 +262,20 @@ export interface CliOptions {
    */
   readonly blankSlots: readonly string[];
   /**
-   * Positionals beyond the third, as typed.
+   * Positionals beyond the third, as typed, for any command but `diff`.
    *
    * There are three slots and no fourth. A word past them was discarded in
    * silence, so `binstruct arp arpData decode input.bin` — a forgotten `<` —
    * sat reading a terminal with nothing to say it had ignored the file.
    */
   readonly extraArgs: readonly string[];
+  /**
+   * The files a `diff` compares: the positionals after the command, as typed.
+   *
+   * Always empty for the other commands, whose input is stdin. How many were
+   * given is checked by {@linkcode planCli}, which wants exactly two.
+   */
+  readonly files: readonly string[];
 }
 
 /**
@@ -222,6 +315,17 @@ export type CliPlan =
     readonly coder: string;
     /** What to do with the bytes. */
     readonly command: CommandName;
+    /** What a `hexdump` shows; absent for the other commands. */
+    readonly hexdump?: HexdumpOptions;
+    /** What a `decode` reads; absent for the other commands. */
+    readonly decode?: DecodeOptions;
+    /**
+     * What a `decode` writes or an `encode` reads; absent for the other
+     * commands, and when it is the default, JSON5.
+     */
+    readonly format?: FormatName;
+    /** The files a `diff` compares, left then right; absent for the others. */
+    readonly files?: readonly [string, string];
     /**
      * Whether discovery read the factory's parameter list.
      *
@@ -306,9 +410,9 @@ function firstLine(text: string): string | undefined {
  *
  * Positionals fill the package, coder and command slots in order, skipping any
  * slot a flag already filled — so `-p png -c pngFile decode` and
- * `png pngFile decode` mean the same thing. `decode` and `encode` are reserved
- * in the coder slot: a second word that names a command *is* the command, and
- * the coder is left to be inferred (ADR 0005).
+ * `png pngFile decode` mean the same thing. The command names are reserved in
+ * the coder slot: a second word that names a command *is* the command, and the
+ * coder is left to be inferred (ADR 0005).
  *
  * Every slot is text: positionals are read as strings, so `007` stays `007`
  * rather than becoming the number `7` on its way to the specifier resolver.
@@ -325,7 +429,9 @@ function firstLine(text: string): string | undefined {
  * Extra positionals used to be dropped where they stood, so
  * `binstruct arp arpData decode input.bin` — the `<` forgotten — waited on a
  * terminal for input that was sitting in the file it had just discarded. They
- * are collected in {@linkcode CliOptions.extraArgs} instead.
+ * are collected in {@linkcode CliOptions.extraArgs} instead. The exception is
+ * `diff`, which reads two inputs and cannot take both from stdin: the words
+ * after it are its files, in {@linkcode CliOptions.files}.
  *
  * **A word starting with `-` is a flag, and `--` is how you say it is not.**
  * Everything after the separator fills a slot whatever it starts with, so
@@ -335,9 +441,9 @@ function firstLine(text: string): string | undefined {
  * with the whole help screen **on stdout, at exit 0**, which is precisely the
  * redirect corruption ADR 0001 exists to prevent.
  *
- * **A flag that is not recognised is refused, never ignored.** Only the five
- * declared here exist; anything else consumes a word and shifts every
- * positional behind it, so `binstruct --format json png` would have answered
+ * **A flag that is not recognised is refused, never ignored.** Only the
+ * thirteen declared here exist; anything else consumes a word and shifts every
+ * positional behind it, so `binstruct --output json png` would have answered
  * confidently about `json`. They are collected rather than thrown, since
  * reporting them is {@linkcode planCli}'s job.
  *
@@ -356,9 +462,18 @@ function firstLine(text: string): string | undefined {
  *   help: false,
  *   version: false,
  *   docs: false,
+ *   color: false,
+ *   depth: undefined,
+ *   field: undefined,
+ *   many: false,
+ *   offset: undefined,
+ *   length: undefined,
+ *   skipErrors: false,
+ *   format: undefined,
  *   unknownFlags: [],
  *   blankSlots: [],
  *   extraArgs: [],
+ *   files: [],
  * });
  *
  * const flagged = parseCliArgs(["-p", "png", "-c", "pngFile", "decode"]);
@@ -391,12 +506,12 @@ function firstLine(text: string): string | undefined {
  * assertEquals(separated.command, "decode");
  * assertEquals(separated.help, false);
  *
- * assertEquals(parseCliArgs(["--format", "json", "png"]).unknownFlags, [
- *   "--format",
+ * assertEquals(parseCliArgs(["--output", "json", "png"]).unknownFlags, [
+ *   "--output",
  * ]);
  * ```
  *
- * @example A blank word keeps its slot, and a fourth word is kept as well
+ * @example A blank word keeps its slot, and a fourth word is kept, or is a `diff` file
  * ```ts
  * import { assertEquals } from "@std/assert";
  * import { parseCliArgs } from "./cli.ts";
@@ -411,14 +526,28 @@ function firstLine(text: string): string | undefined {
  *
  * assertEquals(extra.command, "decode");
  * assertEquals(extra.extraArgs, ["input.bin"]);
+ *
+ * const diff = parseCliArgs(["arp", "diff", "left.bin", "right.bin"]);
+ *
+ * assertEquals(diff.extraArgs, []);
+ * assertEquals(diff.files, ["left.bin", "right.bin"]);
  * ```
  */
 export function parseCliArgs(args: string[]): CliOptions {
   const unknownFlags: string[] = [];
 
   const parsed = parseArgs(args, {
-    string: ["_", "package", "coder"],
-    boolean: ["help", "version", "docs"],
+    string: [
+      "_",
+      "package",
+      "coder",
+      "depth",
+      "field",
+      "offset",
+      "length",
+      "format",
+    ],
+    boolean: ["help", "version", "docs", "color", "many", "skip-errors"],
     alias: { package: "p", coder: "c", help: "h", version: "v" },
     unknown: (arg: string, key?: string) => {
       // Called for positionals too, with no key; those are not flags. A short
@@ -446,11 +575,20 @@ export function parseCliArgs(args: string[]): CliOptions {
     help: parsed.help,
     version: parsed.version,
     docs: parsed.docs,
+    color: parsed.color,
+    depth: parsed.depth,
+    field: parsed.field,
+    many: parsed.many,
+    offset: parsed.offset,
+    length: parsed.length,
+    skipErrors: parsed["skip-errors"],
+    format: parsed.format,
     unknownFlags,
     blankSlots: [packageInput, coder, command].flatMap((value, slot) =>
       value !== undefined && !spoken(value) ? [SLOT_WORDS[slot]] : []
     ),
-    extraArgs: positionals,
+    extraArgs: command === "diff" ? [] : positionals,
+    files: command === "diff" ? positionals : [],
   };
 }
 
@@ -545,7 +683,7 @@ async function unusableArgumentGuide(
  *
  * An unrecognised flag is not a harmless extra word. `parseArgs` accepted it,
  * consumed whatever followed it as its value, and handed back a positional list
- * one word short — so `binstruct --format json png` reported on `json`, with
+ * one word short — so `binstruct --output json png` reported on `json`, with
  * `png` never having been the package.
  *
  * @param flags The unrecognised flags, as typed
@@ -812,7 +950,7 @@ function commandGuide(
     notes,
     next: {
       word: "<command>",
-      meaning: "which direction to run the coder in",
+      meaning: "what to do with the bytes",
     },
     options: {
       heading: "COMMANDS",
@@ -821,6 +959,8 @@ function commandGuide(
     try: [
       `${PROGRAM} ${words} decode < input.bin > output.json5`,
       `${PROGRAM} ${words} encode < output.json5 > input.bin`,
+      `${PROGRAM} ${words} hexdump < input.bin`,
+      `${PROGRAM} ${words} diff expected.bin actual.bin`,
     ],
   };
 }
@@ -1683,13 +1823,13 @@ function withoutSharedPreamble(first: string, second: string): string {
  * import { assertEquals, assertStringIncludes } from "@std/assert";
  * import { planCli } from "./cli.ts";
  *
- * const plan = await planCli(["--format", "json", "png"]);
+ * const plan = await planCli(["--output", "json", "png"]);
  *
  * assertEquals(plan.kind, "print");
  * if (plan.kind === "print") {
  *   assertEquals(plan.stream, "stderr");
  *   assertEquals(plan.code, 1);
- *   assertStringIncludes(plan.text, "unknown option: --format");
+ *   assertStringIncludes(plan.text, "unknown option: --output");
  *   assertEquals(plan.text.includes("jsr:@binstruct/png"), false);
  * }
  * ```
@@ -1757,6 +1897,19 @@ export async function planCli(args: string[]): Promise<CliPlan> {
   }
 
   if (!options.help && command !== undefined && isCommandName(command)) {
+    const refused = commandRefusal(options, command);
+    if (refused !== undefined) {
+      return present({
+        ...commandGuide(
+          resolved,
+          described,
+          choice.inferred ? undefined : choice.name,
+          [refused],
+        ),
+        diagnostic: true,
+      }, options.help);
+    }
+
     return {
       kind: "run",
       specifier: resolved.specifier,
@@ -1764,6 +1917,37 @@ export async function planCli(args: string[]): Promise<CliPlan> {
       command,
       arityVerified: choice.arityVerified,
       notices,
+      ...(command === "hexdump"
+        ? {
+          hexdump: {
+            color: options.color,
+            depth: options.depth === undefined
+              ? undefined
+              : Number(options.depth),
+            field: options.field,
+          },
+        }
+        : {}),
+      ...(command === "decode"
+        ? {
+          decode: {
+            many: options.many,
+            offset: options.offset === undefined
+              ? undefined
+              : Number(options.offset),
+            length: options.length === undefined
+              ? undefined
+              : Number(options.length),
+            skipErrors: options.skipErrors,
+          },
+        }
+        : {}),
+      ...(options.format !== undefined && isFormatName(options.format)
+        ? { format: options.format }
+        : {}),
+      ...(command === "diff"
+        ? { files: [options.files[0], options.files[1]] as const }
+        : {}),
     };
   }
 
@@ -1790,6 +1974,127 @@ export async function planCli(args: string[]): Promise<CliPlan> {
   );
 }
 
+/**
+ * Says why the flags or files on a command line cannot be used as typed.
+ *
+ * The hexdump flags shape a hexdump and nothing else, so on `decode` or
+ * `encode` they would be dropped in silence — and a flag that changes nothing
+ * is the one {@linkcode parseCliArgs} refuses to ignore. A depth has to be a
+ * whole number of levels; `--depth two` or `--depth -1` would otherwise become
+ * no limit. The decode flags are refused on the other commands for the same
+ * reason. An offset or a length is a whole number of bytes, written in decimal
+ * or in hex as the hexdump prints offsets, and `--skip-errors` resynchronises
+ * between records, so it needs `--many` to have records to resynchronise
+ * between. `--format` is what a `decode` writes and an `encode` reads, so a
+ * `hexdump` or a `diff` refuses it, and a name that is not a format is refused
+ * rather than falling back to JSON5.
+ *
+ * A `diff` compares exactly two files. Stdin can stand in for one of them, but
+ * not both: the second read of a pipe comes back empty, and a diff against
+ * nothing would report every field as removed.
+ *
+ * @param options The parsed command line
+ * @param command The command about to run
+ * @returns The note to show, or `undefined` when the command line is fine
+ */
+function commandRefusal(
+  options: CliOptions,
+  command: CommandName,
+): string | undefined {
+  if (command !== "hexdump") {
+    const given = HEXDUMP_FLAGS.filter((flag) =>
+      flag === "--color"
+        ? options.color
+        : options[flag === "--depth" ? "depth" : "field"] !== undefined
+    );
+    if (given.length > 0) {
+      return `${given.join(", ")} only apply to hexdump, not to ${command}`;
+    }
+  } else if (options.depth !== undefined && !/^\d+$/.test(options.depth)) {
+    return `--depth takes a number of levels, not '${options.depth}'`;
+  }
+
+  if (command !== "decode") {
+    const given = DECODE_FLAGS.filter((flag) =>
+      flag === "--many"
+        ? options.many
+        : flag === "--skip-errors"
+        ? options.skipErrors
+        : options[flag === "--offset" ? "offset" : "length"] !== undefined
+    );
+    if (given.length > 0) {
+      return `${given.join(", ")} only apply to decode, not to ${command}`;
+    }
+  } else {
+    for (const flag of ["offset", "length"] as const) {
+      const value = options[flag];
+      if (value !== undefined && !/^(\d+|0x[\da-f]+)$/i.test(value)) {
+        return `--${flag} takes a number of bytes, not '${value}'`;
+      }
+    }
+    if (options.skipErrors && !options.many) {
+      return "--skip-errors steps over records that do not decode, so it needs --many";
+    }
+  }
+
+  if (options.format !== undefined) {
+    if (command !== "decode" && command !== "encode") {
+      return `--format only applies to decode and encode, not to ${command}`;
+    }
+    if (!isFormatName(options.format)) {
+      return `--format takes one of ${
+        FORMATS.join(", ")
+      }, not '${options.format}'`;
+    }
+  }
+
+  if (command === "diff") {
+    const { files } = options;
+    if (files.length !== 2) {
+      return `diff compares two files, <left> and <right>, and was given ${files.length}`;
+    }
+    if (files.some((file) => !spoken(file))) {
+      return "a diff file is blank, and a blank word names nothing";
+    }
+    if (files[0] === "-" && files[1] === "-") {
+      return "only one side of a diff can be read from stdin ('-')";
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describes a decode or encode failure by where it happened in the data.
+ *
+ * The coder loaded and ran, so neither the package nor the coder name is at
+ * fault and there is nothing to list; what helps is the field that failed, the
+ * byte it starts at and the coder that gave up, followed by the reason that
+ * coder gave.
+ *
+ * @param error The located failure
+ * @returns The text to write to stderr, without a trailing newline
+ */
+function locatedFailure(
+  error: BinstructDecodeError | BinstructEncodeError,
+): string {
+  const cause = error.cause instanceof Error
+    ? error.cause.message
+    : String(error.cause);
+  const [verb, buffer] = error instanceof BinstructDecodeError
+    ? ["decoding", "input"]
+    : ["encoding", "output"];
+
+  return [
+    `Error: ${cause}`,
+    `  while ${verb} ${formatPath(error.path)} (${
+      error.coderKind.description ?? "unknown coder"
+    })`,
+    `  at byte offset ${error.offset} (0x${
+      error.offset.toString(16)
+    }) of the ${buffer}`,
+  ].join("\n");
+}
+
 /**
  * Explains a failure that only surfaced once the package was imported.
  *
@@ -1804,7 +2109,9 @@ export async function planCli(args: string[]): Promise<CliPlan> {
  * An {@linkcode UnverifiedArityError} is answered without running the listing.
  * It is raised only on the trusted path, where discovery has already failed
  * once, and asking again buys nothing but a second wait — up to another thirty
- * seconds of it when the first attempt timed out.
+ * seconds of it when the first attempt timed out. Neither is a
+ * `BinstructDecodeError` or `BinstructEncodeError` listed: the coder ran, and
+ * the answer is the field it failed on.
  *
  * The guides it renders carry no header: the caller announced the specifier
  * before the run started, and repeating it makes every failure open with the
@@ -1841,6 +2148,12 @@ export async function explainFailure(
   if (error instanceof UnverifiedArityError) {
     return renderGuide(unverifiedArityGuide(resolved, error));
   }
+  if (
+    error instanceof BinstructDecodeError ||
+    error instanceof BinstructEncodeError
+  ) {
+    return locatedFailure(error);
+  }
 
   const discovery = await discoverCoders(resolved.specifier);
   if (!discovery.ok) {
@@ -1876,7 +2189,8 @@ export async function explainFailure(
  * the resolved specifier and any inferred coder on stderr, then either writes
  * the planned text to its stream and exits with its code, or runs the command.
  * A run that throws is explained through {@linkcode explainFailure} and exits
- * 1.
+ * 1, and so does a `diff` that found differences — which is what lets a CI job
+ * use it as a golden-file check.
  *
  * @param args Command line arguments (defaults to `Deno.args`)
  *
@@ -1909,10 +2223,29 @@ export async function main(args: string[] = Deno.args): Promise<void> {
   const loading = { arityVerified: plan.arityVerified };
 
   try {
-    if (plan.command === "decode") {
-      await decodeCommand(plan.specifier, plan.coder, "jsonc", loading);
+    if (plan.files !== undefined) {
+      // Only a diff carries files; differences fail the run like an error does
+      const differ = await diffCommand(
+        plan.specifier,
+        plan.coder,
+        plan.files,
+        loading,
+      );
+      if (differ) {
+        Deno.exit(1);
+      }
+    } else if (plan.command === "decode") {
+      await decodeCommand(
+        plan.specifier,
+        plan.coder,
+        plan.format,
+        loading,
+        plan.decode,
+      );
+    } else if (plan.command === "hexdump") {
+      await hexdumpCommand(plan.specifier, plan.coder, plan.hexdump, loading);
     } else {
-      await encodeCommand(plan.specifier, plan.coder, "jsonc", loading);
+      await encodeCommand(plan.specifier, plan.coder, plan.format, loading);
     }
   } catch (error) {
     console.error(await explainFailure(plan.specifier, plan.coder, error));
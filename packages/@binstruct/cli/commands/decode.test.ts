@@ -2,8 +2,16 @@
  * Tests for the decode command implementation.
  */
 
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  BinstructDecodeError,
+  magic,
+  struct,
+  u16be,
+  u8,
+} from "@hertzg/binstruct";
 import { loadCoder } from "../loader.ts";
+import { decodeRecords } from "./decode.ts";
 
 Deno.test("loadCoder with valid JSR package", async () => {
   // Mock the import to return a valid coder
@@ -28,3 +36,90 @@ Deno.test("loadCoder with valid JSR package", async () => {
     (globalThis as Record<string, unknown>).import = originalImport;
   }
 });
+
+// A record opening with a tag byte, so bytes that are not a record fail fast
+const record = struct({
+  tag: magic(new Uint8Array([0xaa])),
+  length: u8(),
+  value: u16be(),
+});
+
+Deno.test("decodeRecords decodes one value from a window", () => {
+  const input = new Uint8Array([0, 0, 0xaa, 2, 0x01, 0x02, 0xff]);
+
+  assertEquals(decodeRecords(record, input, { offset: 2, length: 4 }), {
+    values: [{ tag: undefined, length: 2, value: 0x0102 }],
+    notes: [],
+  });
+  assertEquals(decodeRecords(record, input, { offset: 2 }).notes, [
+    "trailing: 1 byte at offset 6 (0x6) was not decoded",
+  ]);
+});
+
+Deno.test("decodeRecords refuses a window past the input", () => {
+  const input = new Uint8Array(4);
+
+  assertThrows(
+    () => decodeRecords(record, input, { offset: 5 }),
+    Error,
+    "--offset 5 is past the end of the 4-byte input",
+  );
+  assertThrows(
+    () => decodeRecords(record, input, { offset: 2, length: 3 }),
+    Error,
+    "--length 3 from offset 2 runs past the end of the 4-byte input",
+  );
+});
+
+Deno.test("decodeRecords decodes records until the input runs out", () => {
+  const input = new Uint8Array([0xaa, 2, 0, 1, 0xaa, 2, 0, 2, 0xaa, 2]);
+  const { values, notes } = decodeRecords(record, input, { many: true });
+
+  assertEquals(values.map(({ value }) => value), [1, 2]);
+  assertEquals(notes, [
+    "trailing: 2 bytes at offset 8 (0x8) were not decoded",
+  ]);
+  assertEquals(decodeRecords(record, new Uint8Array(), { many: true }), {
+    values: [],
+    notes: [],
+  });
+});
+
+Deno.test("decodeRecords fails on a malformed record at its offset", () => {
+  const input = new Uint8Array([0xaa, 2, 0, 1, 0xbb, 2, 0, 2]);
+  const error = assertThrows(
+    () => decodeRecords(record, input, { many: true }),
+    BinstructDecodeError,
+  );
+
+  assertEquals(error.path, ["tag"]);
+  assertEquals(error.offset, 4);
+});
+
+Deno.test("decodeRecords resynchronises with skipErrors", () => {
+  const input = new Uint8Array([
+    ...[0xaa, 2, 0, 1],
+    ...[0x00, 0xbb],
+    ...[0xaa, 2, 0, 2],
+    ...[0xaa, 2],
+  ]);
+  const { values, notes } = decodeRecords(record, input, {
+    many: true,
+    skipErrors: true,
+  });
+
+  assertEquals(values.length, 2);
+  assertEquals(notes.length, 2);
+  assertEquals(
+    notes[0].startsWith(
+      "skipped: 2 bytes at offset 4 (0x4) did not decode: Failed to decode tag at byte offset 4",
+    ),
+    true,
+  );
+  assertEquals(
+    notes[1].startsWith(
+      "trailing: 2 bytes at offset 10 (0xa) were not decoded: Failed to decode value at byte offset 12",
+    ),
+    true,
+  );
+});
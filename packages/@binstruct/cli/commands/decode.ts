@@ -3,30 +3,171 @@
  *
  * This module handles the decode command which reads binary data from stdin,
  * decodes it using a specified coder from a package, and outputs the result
- * as JSON5 to stdout.
+ * as JSON5, or another format, to stdout. It can decode a window of the input
+ * instead of all of it, and a sequence of back-to-back records instead of one
+ * value.
  *
  * @module
  */
 
+import { BinstructDecodeError, type Coder } from "@hertzg/binstruct";
 import { loadCoder, type LoadCoderOptions } from "../loader.ts";
-import { readStdin, writeStdoutFormatted } from "../io.ts";
+import { readStdin, writeStdoutFormatted, writeStdoutRecords } from "../io.ts";
+
+/**
+ * Which bytes a decode reads, and how many values it expects to find there.
+ */
+export interface DecodeOptions {
+  /**
+   * Decode records back to back until the input runs out, and output them as
+   * an array, instead of decoding one value.
+   */
+  readonly many?: boolean;
+  /** Where in the input to start decoding. 0 when absent. */
+  readonly offset?: number;
+  /** How many bytes from `offset` to decode. The rest of the input when absent. */
+  readonly length?: number;
+  /**
+   * With `many`, step over bytes that do not decode one at a time until a
+   * record does, instead of failing.
+   */
+  readonly skipErrors?: boolean;
+}
+
+/**
+ * The values a decode found, and what it has to say about the bytes it did
+ * not use.
+ */
+export interface DecodedRecords<T> {
+  /** The decoded values: one, or every record found with `many`. */
+  readonly values: readonly T[];
+  /** Lines for stderr: bytes skipped, and bytes left after the last value. */
+  readonly notes: readonly string[];
+}
+
+/**
+ * Decodes one value, or a sequence of records, from a window of the input.
+ *
+ * A single value is decoded from the start of the window, and any bytes left
+ * after it are noted. With `many`, records are decoded back to back until the
+ * window runs out. A record cut short by the end of the window is what
+ * captures usually end with, so its bytes are noted as trailing rather than
+ * failing the decode; a record that is malformed fails it, unless
+ * `skipErrors` steps over it. Failures report offsets in the whole input.
+ *
+ * @param coder The coder to decode with
+ * @param input The whole input
+ * @param options The window, and whether to decode records
+ * @returns The values decoded, and notes on the bytes that were not
+ *
+ * @example Records back to back, with a partial one at the end
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { struct, u8 } from "@hertzg/binstruct";
+ * import { decodeRecords } from "./decode.ts";
+ *
+ * const record = struct({ type: u8(), value: u8() });
+ * const input = new Uint8Array([1, 10, 2, 20, 3]);
+ *
+ * assertEquals(decodeRecords(record, input, { many: true }), {
+ *   values: [{ type: 1, value: 10 }, { type: 2, value: 20 }],
+ *   notes: ["trailing: 1 byte at offset 4 (0x4) was not decoded"],
+ * });
+ * ```
+ */
+export function decodeRecords<T>(
+  coder: Coder<T>,
+  input: Uint8Array,
+  options: DecodeOptions = {},
+): DecodedRecords<T> {
+  const { many = false, offset = 0, length, skipErrors = false } = options;
+  const end = length === undefined ? input.length : offset + length;
+  if (offset > input.length) {
+    throw new Error(
+      `--offset ${offset} is past the end of the ${input.length}-byte input`,
+    );
+  }
+  if (end > input.length) {
+    throw new Error(
+      `--length ${length} from offset ${offset} runs past the end of the ${input.length}-byte input`,
+    );
+  }
+
+  const window = input.subarray(0, end);
+  const values: T[] = [];
+  const notes: string[] = [];
+
+  if (!many) {
+    const [value, bytesRead] = decodeAt(coder, window, offset);
+    values.push(value);
+    if (offset + bytesRead < end) {
+      notes.push(trailing(offset + bytesRead, end));
+    }
+    return { values, notes };
+  }
+
+  let cursor = offset;
+  // The first byte of a run that did not decode, and why
+  let failed: { start: number; error: unknown } | undefined;
+  while (cursor < end) {
+    let decoded: [T, number];
+    try {
+      decoded = decodeAt(coder, window, cursor);
+    } catch (error) {
+      if (!skipErrors) {
+        if (truncated(error)) {
+          break;
+        }
+        throw error;
+      }
+      failed ??= { start: cursor, error };
+      cursor++;
+      continue;
+    }
+
+    const [value, bytesRead] = decoded;
+    if (bytesRead === 0) {
+      throw new Error(
+        `A record at offset ${cursor} decoded from 0 bytes, so --many would decode it forever`,
+      );
+    }
+    if (failed !== undefined) {
+      notes.push(skipped(failed.start, cursor, failed.error));
+      failed = undefined;
+    }
+    values.push(value);
+    cursor += bytesRead;
+  }
+
+  // Bytes that never resynchronised are left over rather than skipped
+  const rest = failed?.start ?? cursor;
+  if (rest < end) {
+    notes.push(trailing(rest, end, failed?.error));
+  }
+  return { values, notes };
+}
 
 /**
  * Executes the decode command.
  *
  * Reads binary data from stdin, loads the specified coder from the given package,
- * decodes the data, and outputs the result as JSON5 to stdout.
+ * decodes the data, and outputs the result to stdout in the given format, JSON5
+ * by default. Records decoded with `many` are output as an array, or as one
+ * line each in JSON Lines. Notes on bytes that were skipped or left over go to
+ * stderr.
  *
  * @param packageSpec Package specifier (JSR URL, local path, or npm package)
  * @param coderName Name of the coder to use from the package
- * @param format Output format: "jsonc" (default)
+ * @param format Output format, one of the `FORMATS` of `../serialization.ts`: "json5" (default)
  * @param options What the caller already knows about the factory, forwarded to {@linkcode loadCoder}
+ * @param decoding The window to decode and whether to decode records, see {@linkcode decodeRecords}
  */
 export async function decodeCommand(
   packageSpec: string,
   coderName: string,
-  format: string = "jsonc",
+  format: string = "json5",
   options: LoadCoderOptions = {},
+  decoding: DecodeOptions = {},
 ): Promise<void> {
   // Load the package and get the coder
   const coder = await loadCoder(packageSpec, coderName, options);
@@ -35,8 +176,74 @@ export async function decodeCommand(
   const binaryData = await readStdin();
 
   // Decode the data
-  const decoded = coder.decode(binaryData);
+  const { values, notes } = decodeRecords(coder, binaryData, decoding);
+  for (const note of notes) {
+    console.error(note);
+  }
+
+  // Output in the requested format to stdout
+  if (decoding.many) {
+    await writeStdoutRecords(values, format);
+  } else {
+    await writeStdoutFormatted(values[0], format);
+  }
+}
+
+/**
+ * Decodes one value at an offset of the input, reporting a located failure
+ * at its offset in the whole input rather than in the record.
+ */
+function decodeAt<T>(
+  coder: Coder<T>,
+  input: Uint8Array,
+  offset: number,
+): [T, number] {
+  try {
+    return coder.decode(input.subarray(offset));
+  } catch (error) {
+    if (offset !== 0 && error instanceof BinstructDecodeError) {
+      throw new BinstructDecodeError(
+        {
+          path: error.path,
+          offset: offset + error.offset,
+          coderKind: error.coderKind,
+        },
+        error.cause,
+      );
+    }
+    throw error;
+  }
+}
+
+/** Whether a decode failed for want of bytes (ADR 0012 of binstruct). */
+function truncated(error: unknown): boolean {
+  return error instanceof RangeError ||
+    (error instanceof BinstructDecodeError &&
+      error.cause instanceof RangeError);
+}
+
+/** Describes bytes `start` to `end`, as `2 bytes at offset 16 (0x10)`. */
+function bytesAt(start: number, end: number): string {
+  const count = end - start;
+  return `${count} byte${count === 1 ? "" : "s"} at offset ${start} (0x${
+    start.toString(16)
+  })`;
+}
+
+/** The message of a decode error, for the warnings below. */
+function reason(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The warning for bytes `--skip-errors` stepped over. */
+function skipped(start: number, end: number, error: unknown): string {
+  return `skipped: ${bytesAt(start, end)} did not decode: ${reason(error)}`;
+}
 
-  // Output as JSON5 to stdout
-  await writeStdoutFormatted(decoded[0], format);
+/** The warning for input left after the last value, and why it failed. */
+function trailing(start: number, end: number, error?: unknown): string {
+  const count = end - start;
+  return `trailing: ${bytesAt(start, end)} ${
+    count === 1 ? "was" : "were"
+  } not decoded${error === undefined ? "" : `: ${reason(error)}`}`;
 }
@@ -0,0 +1,96 @@
+/**
+ * Tests for the diff command implementation.
+ */
+
+import { assertEquals } from "@std/assert";
+import { diffValues, renderDiff, renderTrailing } from "./diff.ts";
+
+function diff(left: unknown, right: unknown): string[] {
+  return renderDiff(diffValues(left, right)).split("\n");
+}
+
+Deno.test("diff - equal values have no changes", () => {
+  const value = {
+    id: 1n,
+    name: "eth0",
+    mac: new Uint8Array([0, 1, 2, 3, 4, 5]),
+    ports: [80, 443],
+    nan: NaN,
+  };
+
+  assertEquals(
+    diffValues(value, structuredClone(value)),
+    [],
+  );
+  assertEquals(renderDiff([]), "");
+});
+
+Deno.test("diff - one line per changed, removed and added leaf", () => {
+  // deno-fmt-ignore
+  assertEquals(diff(
+    { ttl: 64, name: "a", gone: { x: 1, y: [] }, ports: [80, 443] },
+    { ttl: 63, name: "b", ports: [80], extra: true },
+  ), [
+    "~ ttl = 64 (0x40) → 63 (0x3f)",
+    '~ name = "a" → "b"',
+    "- gone.x = 1 (0x1)",
+    "- gone.y = [0 items]",
+    "- ports[1] = 443 (0x1bb)",
+    "+ extra = true",
+  ]);
+});
+
+Deno.test("diff - a type change is a single change", () => {
+  assertEquals(diff({ body: { kind: 1 } }, { body: [1] }), [
+    "~ body = {…} → [1 items]",
+  ]);
+  assertEquals(diff(1, 2n), ["~ value = 1 (0x1) → 2 (0x2)"]);
+});
+
+Deno.test("diff - changed bytes show the rows that differ", () => {
+  const left = new Uint8Array(40).map((_, index) => index);
+  const right = left.slice(0, 36);
+  right[17] = 0xff;
+
+  // deno-fmt-ignore
+  assertEquals(diff({ data: left }, { data: right }), [
+    "~ data = <40 bytes> → <36 bytes>",
+    "    00000010  - 10 11 12 13 14 15 16 17 18 19 1a 1b 1c 1d 1e 1f",
+    "              + 10 ff 12 13 14 15 16 17 18 19 1a 1b 1c 1d 1e 1f",
+    "                   ^^",
+    "    00000020  - 20 21 22 23 24 25 26 27",
+    "              + 20 21 22 23",
+    "                            ^^ ^^ ^^ ^^",
+  ]);
+});
+
+Deno.test("diff - byte rows are capped, and one-sided bytes are listed", () => {
+  const lines = diff(new Uint8Array(256), new Uint8Array(256).fill(1));
+
+  assertEquals(lines.length, 1 + 8 * 3 + 1);
+  assertEquals(lines.at(-1), "    … 8 more rows differ");
+
+  // deno-fmt-ignore
+  assertEquals(diff([], [new Uint8Array([0xca, 0xfe])]), [
+    "+ [0] = <2 bytes>",
+    "    00000000  + ca fe",
+  ]);
+});
+
+Deno.test("diff - trailing bytes are compared", () => {
+  const bytes = (...values: number[]) => new Uint8Array(values);
+
+  assertEquals(renderTrailing(bytes(1, 2), bytes(1, 2)), "");
+  // deno-fmt-ignore
+  assertEquals(renderTrailing(bytes(1, 2), bytes(1, 3)).split("\n"), [
+    "~ (trailing) = <2 bytes> → <2 bytes>",
+    "    00000000  - 01 02",
+    "              + 01 03",
+    "                   ^^",
+  ]);
+  // deno-fmt-ignore
+  assertEquals(renderTrailing(bytes(0xff), bytes()).split("\n"), [
+    "- (trailing) = <1 bytes>",
+    "    00000000  - ff",
+  ]);
+});
@@ -0,0 +1,403 @@
+/**
+ * Diff command implementation for the Binary Structure CLI.
+ *
+ * This module handles the diff command which decodes two files with the same
+ * coder and prints the paths at which the decoded values differ, with the
+ * differing rows of bytes under any `Uint8Array` field that changed, and any
+ * difference in the bytes left over after each value.
+ *
+ * @module
+ */
+
+import { formatPath, type PathSegment } from "@hertzg/binstruct";
+import { loadCoder, type LoadCoderOptions } from "../loader.ts";
+import { readStdin, writeStdout } from "../io.ts";
+import { showValue } from "./hexdump.ts";
+
+/**
+ * One difference between two decoded values, at a leaf of either tree.
+ *
+ * A field or element present on one side only is reported leaf by leaf, so
+ * every line of a diff names a value and not a whole subtree.
+ */
+export type ValueChange =
+  | {
+    /** Discriminant: only the left value has this path. */
+    readonly kind: "removed";
+    /** Where the value sits in the left tree. */
+    readonly path: readonly PathSegment[];
+    /** The left value. */
+    readonly left: unknown;
+  }
+  | {
+    /** Discriminant: only the right value has this path. */
+    readonly kind: "added";
+    /** Where the value sits in the right tree. */
+    readonly path: readonly PathSegment[];
+    /** The right value. */
+    readonly right: unknown;
+  }
+  | {
+    /** Discriminant: both values have this path and it holds different values. */
+    readonly kind: "changed";
+    /** Where the values sit in both trees. */
+    readonly path: readonly PathSegment[];
+    /** The left value. */
+    readonly left: unknown;
+    /** The right value. */
+    readonly right: unknown;
+  };
+
+/** Bytes per row of byte context, as in a hexdump. */
+const ROW_BYTES = 16;
+
+/** Differing rows shown under one field before the rest are counted instead. */
+const MAX_BYTE_ROWS = 8;
+
+/**
+ * Reports whether a value has fields to descend into.
+ *
+ * @param value The value
+ * @returns Whether it is an object that is neither an array nor bytes
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" &&
+    !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+/**
+ * Compares two byte arrays by content.
+ *
+ * @param left The left bytes
+ * @param right The right bytes
+ * @returns Whether they hold the same bytes
+ */
+function sameBytes(left: Uint8Array, right: Uint8Array): boolean {
+  return left.length === right.length &&
+    left.every((byte, index) => byte === right[index]);
+}
+
+/**
+ * Lists the leaves of a value, for a subtree present on one side only.
+ *
+ * @param value The value
+ * @param path Where the value sits
+ * @returns Each leaf with its path; an empty container is a leaf of its own
+ */
+function leaves(
+  value: unknown,
+  path: readonly PathSegment[],
+): [readonly PathSegment[], unknown][] {
+  const entries: [PathSegment, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : isRecord(value)
+    ? Object.entries(value)
+    : [];
+  return entries.length === 0
+    ? [[path, value]]
+    : entries.flatMap(([key, item]) => leaves(item, [...path, key]));
+}
+
+/**
+ * Compares two decoded values and lists where they differ.
+ *
+ * Objects are compared field by field, in the left value's field order and
+ * then any fields only the right one has. Arrays are compared element by
+ * element by index, so an element inserted near the start shows up as every
+ * later element changing. Bytes are compared by content and reported whole,
+ * and a value whose type differs between the sides is one change.
+ *
+ * @param left The value decoded from the first input
+ * @param right The value decoded from the second input
+ * @param path Where the two values sit, prefixed to every reported path
+ * @returns The differences, in tree order; empty when the values are equal
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { diffValues } from "./diff.ts";
+ *
+ * assertEquals(
+ *   diffValues({ ttl: 64, ports: [80] }, { ttl: 63, ports: [80, 443] }),
+ *   [
+ *     { kind: "changed", path: ["ttl"], left: 64, right: 63 },
+ *     { kind: "added", path: ["ports", 1], right: 443 },
+ *   ],
+ * );
+ * ```
+ */
+export function diffValues(
+  left: unknown,
+  right: unknown,
+  path: readonly PathSegment[] = [],
+): ValueChange[] {
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    return sameBytes(left, right)
+      ? []
+      : [{ kind: "changed", path, left, right }];
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return Array.from(
+      { length: Math.max(left.length, right.length) },
+      (_, index) => {
+        const at = [...path, index];
+        return index >= right.length
+          ? removed(left[index], at)
+          : index >= left.length
+          ? added(right[index], at)
+          : diffValues(left[index], right[index], at);
+      },
+    ).flat();
+  }
+
+  if (isRecord(left) && isRecord(right)) {
+    const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])];
+    return keys.flatMap((key) => {
+      const at = [...path, key];
+      return !(key in right)
+        ? removed(left[key], at)
+        : !(key in left)
+        ? added(right[key], at)
+        : diffValues(left[key], right[key], at);
+    });
+  }
+
+  return left === right || Object.is(left, right)
+    ? []
+    : [{ kind: "changed", path, left, right }];
+}
+
+/**
+ * Reports every leaf of a value missing from the right side.
+ *
+ * @param value The left value
+ * @param path Where it sits
+ * @returns One change per leaf
+ */
+function removed(value: unknown, path: readonly PathSegment[]): ValueChange[] {
+  return leaves(value, path).map(([at, left]) => ({
+    kind: "removed",
+    path: at,
+    left,
+  }));
+}
+
+/**
+ * Reports every leaf of a value missing from the left side.
+ *
+ * @param value The right value
+ * @param path Where it sits
+ * @returns One change per leaf
+ */
+function added(value: unknown, path: readonly PathSegment[]): ValueChange[] {
+  return leaves(value, path).map(([at, right]) => ({
+    kind: "added",
+    path: at,
+    right,
+  }));
+}
+
+/**
+ * Renders the rows of two byte arrays that differ, sixteen bytes at a time.
+ *
+ * Each differing row shows the left bytes after a `-` and the right bytes
+ * after a `+`, at their offset within the field, with a line of carets under
+ * the bytes that changed when both sides have some. A side missing entirely,
+ * for a field that was added or removed, contributes no lines.
+ *
+ * @param left The left bytes, if any
+ * @param right The right bytes, if any
+ * @returns The lines, indented under the change they belong to
+ */
+function byteRows(
+  left: Uint8Array | undefined,
+  right: Uint8Array | undefined,
+): string[] {
+  const hex = (bytes: Uint8Array) =>
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(" ");
+  const length = Math.max(left?.length ?? 0, right?.length ?? 0);
+
+  const lines: string[] = [];
+  let differing = 0;
+  for (let start = 0; start < length; start += ROW_BYTES) {
+    const before = left?.subarray(start, start + ROW_BYTES);
+    const after = right?.subarray(start, start + ROW_BYTES);
+    if (
+      before !== undefined && after !== undefined && sameBytes(before, after)
+    ) {
+      continue;
+    }
+    if (++differing > MAX_BYTE_ROWS) continue;
+
+    const offset = start.toString(16).padStart(8, "0");
+    const shown = ([["-", before], ["+", after]] as const).flatMap((
+      [sign, bytes],
+    ) =>
+      bytes === undefined || bytes.length === 0 ? [] : [`${sign} ${hex(bytes)}`]
+    );
+    shown.forEach((side, index) => {
+      lines.push(`    ${index === 0 ? offset : " ".repeat(8)}  ${side}`);
+    });
+
+    if (shown.length === 2 && before !== undefined && after !== undefined) {
+      const carets = Array.from(
+        { length: Math.max(before.length, after.length) },
+        (_, index) => before[index] === after[index] ? "  " : "^^",
+      ).join(" ");
+      lines.push(`${" ".repeat(16)}${carets}`.trimEnd());
+    }
+  }
+
+  if (differing > MAX_BYTE_ROWS) {
+    const more = differing - MAX_BYTE_ROWS;
+    lines.push(`    … ${more} more row${more === 1 ? "" : "s"} differ`);
+  }
+  return lines;
+}
+
+/**
+ * Renders a list of changes as a path-based diff.
+ *
+ * A changed value is a `~` line with both values, a value present only on the
+ * left is a `-` line and one present only on the right a `+` line. Under any
+ * line that involves bytes, the rows of bytes that differ follow.
+ *
+ * @param changes The result of {@linkcode diffValues}
+ * @returns The diff, without a trailing newline; empty when there are no changes
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { diffValues, renderDiff } from "./diff.ts";
+ *
+ * const changes = diffValues(
+ *   { type: "IHDR", data: new Uint8Array([0, 0, 0, 1, 8, 6]) },
+ *   { type: "IHDR", data: new Uint8Array([0, 0, 0, 1, 8, 2]) },
+ * );
+ *
+ * assertEquals(renderDiff(changes).split("\n"), [
+ *   "~ data = <6 bytes> → <6 bytes>",
+ *   "    00000000  - 00 00 00 01 08 06",
+ *   "              + 00 00 00 01 08 02",
+ *   "                               ^^",
+ * ]);
+ * ```
+ */
+export function renderDiff(changes: readonly ValueChange[]): string {
+  const show = (value: unknown) => showValue(value) ?? "undefined";
+  const bytes = (value: unknown) =>
+    value instanceof Uint8Array ? value : undefined;
+
+  return changes.flatMap((change) => {
+    const path = formatPath(change.path);
+    switch (change.kind) {
+      case "removed":
+        return [
+          `- ${path} = ${show(change.left)}`,
+          ...byteRows(bytes(change.left), undefined),
+        ];
+      case "added":
+        return [
+          `+ ${path} = ${show(change.right)}`,
+          ...byteRows(undefined, bytes(change.right)),
+        ];
+      case "changed":
+        return [
+          `~ ${path} = ${show(change.left)} → ${show(change.right)}`,
+          ...(change.left instanceof Uint8Array &&
+              change.right instanceof Uint8Array
+            ? byteRows(change.left, change.right)
+            : []),
+        ];
+    }
+  }).join("\n");
+}
+
+/**
+ * Renders the bytes left over after the two decoded values, when they differ.
+ *
+ * The bytes are shown as a `(trailing)` line in the style of a change: `~`
+ * when both sides have some, `-` or `+` when only one does. The rows of bytes
+ * that differ follow, at their offset within the leftovers.
+ *
+ * @param left The bytes after the value decoded from the first input
+ * @param right The bytes after the value decoded from the second input
+ * @returns The lines, without a trailing newline; empty when they are the same
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { renderTrailing } from "./diff.ts";
+ *
+ * assertEquals(
+ *   renderTrailing(new Uint8Array(0), new Uint8Array([0x0a])).split("\n"),
+ *   ["+ (trailing) = <1 bytes>", "    00000000  + 0a"],
+ * );
+ * ```
+ */
+export function renderTrailing(left: Uint8Array, right: Uint8Array): string {
+  if (sameBytes(left, right)) {
+    return "";
+  }
+  const line = left.length === 0
+    ? `+ (trailing) = ${showValue(right)}`
+    : right.length === 0
+    ? `- (trailing) = ${showValue(left)}`
+    : `~ (trailing) = ${showValue(left)} → ${showValue(right)}`;
+  return [line, ...byteRows(left, right)].join("\n");
+}
+
+/**
+ * Executes the diff command.
+ *
+ * Loads the specified coder from the given package, decodes both files with
+ * it, and writes the differences to stdout. A file named `-` is read from
+ * stdin. Bytes left over after each value are compared too, so that files
+ * differing only past the end of the value still differ. Identical files
+ * write nothing.
+ *
+ * A decode failure names the file it happened in on stderr before it is
+ * rethrown, since the error itself only knows the field and the offset.
+ *
+ * @param packageSpec Package specifier (JSR URL, local path, or npm package)
+ * @param coderName Name of the coder to use from the package
+ * @param files The two files to compare, left then right
+ * @param loading What the caller already knows about the factory, forwarded to {@linkcode loadCoder}
+ * @returns Whether the decoded values, or the bytes after them, differ
+ */
+export async function diffCommand(
+  packageSpec: string,
+  coderName: string,
+  files: readonly [string, string],
+  loading: LoadCoderOptions = {},
+): Promise<boolean> {
+  // Load the package and get the coder
+  const coder = await loadCoder(packageSpec, coderName, loading);
+
+  // Read and decode each side in turn, keeping the bytes after each value
+  const values: unknown[] = [];
+  const rests: Uint8Array[] = [];
+  for (const file of files) {
+    const binaryData = file === "-"
+      ? await readStdin()
+      : await Deno.readFile(file);
+    try {
+      const [value, bytesRead] = coder.decode(binaryData);
+      values.push(value);
+      rests.push(binaryData.subarray(bytesRead));
+    } catch (error) {
+      console.error(`in ${file === "-" ? "stdin" : file}:`);
+      throw error;
+    }
+  }
+
+  const diff = [
+    renderDiff(diffValues(values[0], values[1])),
+    renderTrailing(rests[0], rests[1]),
+  ].filter((lines) => lines !== "").join("\n");
+  if (diff !== "") {
+    await writeStdout(new TextEncoder().encode(`${diff}\n`));
+  }
+  return diff !== "";
+}
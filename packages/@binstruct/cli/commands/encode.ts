@@ -1,9 +1,9 @@
 /**
  * Encode command implementation for the Binary Structure CLI.
  *
- * This module handles the encode command which reads JSON data from stdin,
- * encodes it using a specified coder from a package, and outputs the result
- * as binary data to stdout.
+ * This module handles the encode command which reads JSON5, or another format,
+ * from stdin, encodes it using a specified coder from a package, and outputs
+ * the result as binary data to stdout.
  *
  * @module
  */
@@ -14,29 +14,34 @@ import { readStdinFormatted, writeStdout } from "../io.ts";
 /**
  * Executes the encode command.
  *
- * Reads JSON data from stdin, loads the specified coder from the given package,
- * encodes the data, and outputs the result as binary data to stdout.
+ * Reads data from stdin in the given format, loads the specified coder from the
+ * given package, encodes the data, and outputs the result as binary data to
+ * stdout. JSON Lines holds a value per line, and each is encoded in turn, back
+ * to back, so it reverses `decode --many --format jsonl`.
  *
  * @param packageSpec Package specifier (JSR URL, local path, or npm package)
  * @param coderName Name of the coder to use from the package
- * @param format Input format: "jsonc" (default)
+ * @param format Input format, one of the `FORMATS` of `../serialization.ts`: "json5" (default)
  * @param options What the caller already knows about the factory, forwarded to {@linkcode loadCoder}
  */
 export async function encodeCommand(
   packageSpec: string,
   coderName: string,
-  format: string = "jsonc",
+  format: string = "json5",
   options: LoadCoderOptions = {},
 ): Promise<void> {
   // Load the package and get the coder
   const coder = await loadCoder(packageSpec, coderName, options);
 
-  // Read JSON data from stdin
-  const data = await readStdinFormatted(format);
+  // Read the values from stdin
+  const values = await readStdinFormatted(format);
 
-  // Encode the data
+  // Encode the values, back to back
   const buffer = new Uint8Array(1024 * 1024); // 1MB buffer
-  const bytesWritten = coder.encode(data, buffer);
+  let bytesWritten = 0;
+  for (const value of values) {
+    bytesWritten += coder.encode(value, buffer.subarray(bytesWritten));
+  }
 
   // Output binary data to stdout
   await writeStdout(buffer.subarray(0, bytesWritten));
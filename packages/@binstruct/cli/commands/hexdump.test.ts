@@ -0,0 +1,107 @@
+/**
+ * Tests for the hexdump command implementation.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  arrayLP,
+  at,
+  bitStruct,
+  bytes,
+  struct,
+  traceDecode,
+  u16be,
+  u64be,
+  u8,
+} from "@hertzg/binstruct";
+import { renderHexdump } from "./hexdump.ts";
+
+const packet = struct({
+  flags: bitStruct({ urgent: 1, kind: 3, channel: 4 }),
+  ports: arrayLP(u16be(), u8()),
+  payload: bytes(),
+});
+
+const input = new Uint8Array([
+  0b1_010_0011,
+  2,
+  0,
+  80,
+  1,
+  187,
+  ...new TextEncoder().encode("GET / HTTP/1.1\r\n\r\n"),
+]);
+
+function dump(options: Parameters<typeof renderHexdump>[2] = {}): string[] {
+  return renderHexdump(input, traceDecode(packet, input), options).split("\n");
+}
+
+Deno.test("hexdump - one row per field, in byte order", () => {
+  // deno-fmt-ignore
+  assertEquals(dump(), [
+    "00000000  a3                                               .                 flags.urgent (bit 0) = 1 (0x1)",
+    "00000000  a3                                               .                 flags.kind (bits 1-3) = 2 (0x2)",
+    "00000000  a3                                               .                 flags.channel (bits 4-7) = 3 (0x3)",
+    "00000001  02                                               .                 (ports)",
+    "00000002  00 50                                            .P                ports[0] = 80 (0x50)",
+    "00000004  01 bb                                            ..                ports[1] = 443 (0x1bb)",
+    "00000006  47 45 54 20 2f 20 48 54 54 50 2f 31 2e 31 0d 0a  GET / HTTP/1.1..  payload = <18 bytes>",
+    "00000016  0d 0a                                            ..",
+  ]);
+});
+
+Deno.test("hexdump - depth collapses deeper fields into one row", () => {
+  // deno-fmt-ignore
+  assertEquals(dump({ depth: 1 }).slice(0, 2), [
+    "00000000  a3                                               .                 flags = {…}",
+    "00000001  02 00 50 01 bb                                   ..P..             ports = [2 items]",
+  ]);
+  assertEquals(dump({ depth: 0 })[0].endsWith("value = {…}"), true);
+});
+
+Deno.test("hexdump - field keeps the rows under a path", () => {
+  // deno-fmt-ignore
+  assertEquals(dump({ field: "ports" }), [
+    "00000001  02                                               .                 (ports)",
+    "00000002  00 50                                            .P                ports[0] = 80 (0x50)",
+    "00000004  01 bb                                            ..                ports[1] = 443 (0x1bb)",
+  ]);
+  assertEquals(dump({ field: "ports[1]" }).length, 1);
+  // A row collapsed above the field still shows it
+  assertEquals(dump({ field: "ports[1]", depth: 1 }).length, 1);
+  assertEquals(dump({ field: "port" }), [""]);
+});
+
+Deno.test("hexdump - color wraps each column in ANSI escapes", () => {
+  const [first] = dump({ color: true });
+
+  assertEquals(first.startsWith("\x1b[2m00000000\x1b[0m  \x1b[36ma3 "), true);
+  assertEquals(
+    first.endsWith("\x1b[1mflags.urgent (bit 0) = 1 (0x1)\x1b[0m"),
+    true,
+  );
+});
+
+Deno.test("hexdump - trailing input and wide values", () => {
+  const coder = struct({ id: u64be() });
+  const bytes = new Uint8Array([0, 0, 0, 0, 0, 0, 1, 0, 0xff]);
+
+  // deno-fmt-ignore
+  assertEquals(renderHexdump(bytes, traceDecode(coder, bytes)).split("\n"), [
+    "00000000  00 00 00 00 00 00 01 00                          ........          id = 256 (0x100)",
+    "00000008  ff                                               .                 (trailing)",
+  ]);
+});
+
+Deno.test("hexdump - at fields show the bytes they read", () => {
+  const coder = struct({ a: u8(), b: at(4, u16be()), c: u8() });
+  const bytes = new Uint8Array([1, 2, 0, 0, 0xab, 0xcd]);
+
+  // deno-fmt-ignore
+  assertEquals(renderHexdump(bytes, traceDecode(coder, bytes)).split("\n"), [
+    "00000000  01                                               .                 a = 1 (0x1)",
+    "00000001  02                                               .                 c = 2 (0x2)",
+    "00000002  00 00                                            ..                (value)",
+    "00000004  ab cd                                            ..                b = 43981 (0xabcd)",
+  ]);
+});
@@ -0,0 +1,303 @@
+/**
+ * Hexdump command implementation for the Binary Structure CLI.
+ *
+ * This module handles the hexdump command which reads binary data from stdin,
+ * decodes it with a traced decode, and prints the bytes of every field next
+ * to the field's path and decoded value, one span per row.
+ *
+ * @module
+ */
+
+import {
+  formatPath,
+  type PathSegment,
+  type Span,
+  type TracedDecode,
+  traceDecode,
+} from "@hertzg/binstruct";
+import { loadCoder, type LoadCoderOptions } from "../loader.ts";
+import { readStdin, writeStdout } from "../io.ts";
+
+/**
+ * What the hexdump shows and how.
+ */
+export interface HexdumpOptions {
+  /** Colour the output with ANSI escapes. */
+  readonly color?: boolean;
+  /**
+   * Deepest path length to break down; a span at this depth is one row even
+   * when it has fields of its own. Unlimited when absent.
+   */
+  readonly depth?: number;
+  /**
+   * Only show rows at or under this path, written the way errors print it,
+   * e.g. `chunks[0].data`.
+   */
+  readonly field?: string;
+}
+
+/** Bytes per row; a longer span continues on the rows below its first. */
+const ROW_BYTES = 16;
+
+/** Rotated through the fields so that neighbouring ones stand apart. */
+const PALETTE = [36, 33, 35, 32, 34] as const;
+
+/** A run of bytes and what to print beside them. */
+interface Row {
+  readonly offset: number;
+  readonly length: number;
+  /** The formatted path the bytes belong to, matched by the field filter. */
+  readonly path: string;
+  readonly label: string;
+  /** Bytes no field claimed, printed dimmed with the label in parentheses. */
+  readonly unclaimed: boolean;
+}
+
+/**
+ * Reports whether one path lies at or under another, by formatted path.
+ *
+ * @param path The formatted path to test
+ * @param prefix The formatted path it should be under
+ * @returns Whether `path` is `prefix` or one of its fields or elements
+ */
+function within(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}.`) ||
+    path.startsWith(`${prefix}[`);
+}
+
+/**
+ * Looks up the value a span decoded to, by its path into the root value.
+ *
+ * @param root The decoded root value
+ * @param path The span's path
+ * @returns The value, or `undefined` when the path leads nowhere, such as into
+ * a refined value whose shape differs from the fields it was decoded from
+ */
+function valueAt(root: unknown, path: readonly PathSegment[]): unknown {
+  let value = root;
+  for (const segment of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<PathSegment, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Renders a decoded value on one line, numbers in decimal and hex and
+ * containers by their size.
+ *
+ * @param value The value
+ * @returns A short rendering, or `undefined` for a field with no value
+ */
+export function showValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === "number" || typeof value === "bigint") {
+    return (typeof value === "bigint" || Number.isInteger(value)) && value >= 0
+      ? `${value} (0x${value.toString(16)})`
+      : String(value);
+  }
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  if (Array.isArray(value)) return `[${value.length} items]`;
+  if (value !== null && typeof value === "object") return "{…}";
+  return String(value);
+}
+
+/**
+ * Labels a span with its path, bit range and decoded value.
+ *
+ * @param span The span
+ * @param root The decoded root value
+ * @returns The label
+ */
+function spanLabel(span: Span, root: unknown): string {
+  const bits = span.bitLength === undefined || span.bitOffset === undefined
+    ? ""
+    : span.bitLength === 1
+    ? ` (bit ${span.bitOffset})`
+    : ` (bits ${span.bitOffset}-${span.bitOffset + span.bitLength - 1})`;
+  const value = showValue(valueAt(root, span.path));
+  return `${formatPath(span.path)}${bits}${
+    value === undefined ? "" : ` = ${value}`
+  }`;
+}
+
+/**
+ * Flattens a span tree into rows in byte order, stopping at `depth`.
+ *
+ * Bytes inside a span that none of its children claimed — padding a custom
+ * container skipped, say — become rows of their own, labelled with the span's
+ * path, so that every byte of the decoded value appears exactly once.
+ *
+ * @param span The span to flatten
+ * @param root The decoded root value
+ * @param depth The deepest path length to break down
+ * @param rows Where to append the rows
+ */
+function collectRows(
+  span: Span,
+  root: unknown,
+  depth: number,
+  rows: Row[],
+): void {
+  if (span.children.length === 0 || span.path.length >= depth) {
+    rows.push({
+      offset: span.offset,
+      length: span.length,
+      path: formatPath(span.path),
+      label: spanLabel(span, root),
+      unclaimed: false,
+    });
+    return;
+  }
+
+  const unclaimed = (offset: number, end: number) =>
+    rows.push({
+      offset,
+      length: end - offset,
+      path: formatPath(span.path),
+      label: `(${formatPath(span.path)})`,
+      unclaimed: true,
+    });
+
+  let cursor = span.offset;
+  const children = [...span.children].sort((a, b) => a.offset - b.offset);
+  for (const child of children) {
+    if (child.offset > cursor) unclaimed(cursor, child.offset);
+    collectRows(child, root, depth, rows);
+    cursor = Math.max(cursor, child.offset + child.length);
+  }
+
+  const end = span.offset + span.length;
+  if (end > cursor) unclaimed(cursor, end);
+}
+
+/**
+ * Renders a traced decode as an annotated hexdump.
+ *
+ * Every row shows an offset, up to sixteen bytes in hex and as ASCII, and the
+ * path and decoded value of the field those bytes belong to. A field longer
+ * than a row continues on the rows below, unlabelled. Bit fields sharing a
+ * byte each get a row naming their bits. Input left over after the decode is
+ * shown last, as `(trailing)`.
+ *
+ * @param input The bytes that were decoded
+ * @param traced The result of {@linkcode traceDecode} over `input`
+ * @param options Depth, field filter and colour
+ * @returns The hexdump, without a trailing newline
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { stringFL, struct, traceDecode, u16be } from "@hertzg/binstruct";
+ * import { renderHexdump } from "./hexdump.ts";
+ *
+ * const coder = struct({ port: u16be(), name: stringFL(3) });
+ * const input = new Uint8Array([0, 80, 0x77, 0x77, 0x77]);
+ *
+ * assertEquals(
+ *   renderHexdump(input, traceDecode(coder, input)).split("\n"),
+ *   [
+ *     "00000000  00 50                                            .P                port = 80 (0x50)",
+ *     '00000002  77 77 77                                         www               name = "www"',
+ *   ],
+ * );
+ * ```
+ */
+export function renderHexdump(
+  input: Uint8Array,
+  traced: TracedDecode<unknown>,
+  options: HexdumpOptions = {},
+): string {
+  const { color = false, depth = Infinity, field } = options;
+
+  const rows: Row[] = [];
+  collectRows(traced.span, traced.value, depth, rows);
+  if (traced.bytesRead < input.length && field === undefined) {
+    rows.push({
+      offset: traced.bytesRead,
+      length: input.length - traced.bytesRead,
+      path: "",
+      label: "(trailing)",
+      unclaimed: true,
+    });
+  }
+
+  // A row collapsed by `depth` above the field still holds its bytes
+  const shown = field === undefined
+    ? rows
+    : rows.filter((row) =>
+      within(row.path, field) || (!row.unclaimed && within(field, row.path))
+    );
+
+  const paint = (code: number, text: string) =>
+    color ? `\x1b[${code}m${text}\x1b[0m` : text;
+
+  const lines: string[] = [];
+  shown.forEach((row, index) => {
+    const tint = row.unclaimed ? 2 : PALETTE[index % PALETTE.length];
+    const bytes = input.subarray(row.offset, row.offset + row.length);
+
+    for (let start = 0; start < Math.max(bytes.length, 1); start += ROW_BYTES) {
+      const chunk = bytes.subarray(start, start + ROW_BYTES);
+      const hex = Array.from(
+        chunk,
+        (byte) => byte.toString(16).padStart(2, "0"),
+      ).join(" ");
+      const ascii = Array.from(
+        chunk,
+        (byte) => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".",
+      ).join("");
+      const offset = (row.offset + start).toString(16).padStart(8, "0");
+      const label = start === 0 ? row.label : "";
+
+      lines.push(
+        [
+          paint(2, offset),
+          paint(tint, hex.padEnd(ROW_BYTES * 3 - 1)),
+          paint(tint, ascii.padEnd(ROW_BYTES)),
+          label === "" ? "" : paint(row.unclaimed ? 2 : 1, label),
+        ].join("  ").trimEnd(),
+      );
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Executes the hexdump command.
+ *
+ * Reads binary data from stdin, loads the specified coder from the given
+ * package, decodes the data with tracing, and writes the annotated hexdump to
+ * stdout. A field filter that matches nothing is an error rather than an
+ * empty dump.
+ *
+ * @param packageSpec Package specifier (JSR URL, local path, or npm package)
+ * @param coderName Name of the coder to use from the package
+ * @param options Depth, field filter and colour, see {@linkcode renderHexdump}
+ * @param loading What the caller already knows about the factory, forwarded to {@linkcode loadCoder}
+ */
+export async function hexdumpCommand(
+  packageSpec: string,
+  coderName: string,
+  options: HexdumpOptions = {},
+  loading: LoadCoderOptions = {},
+): Promise<void> {
+  // Load the package and get the coder
+  const coder = await loadCoder(packageSpec, coderName, loading);
+
+  // Read binary data from stdin
+  const binaryData = await readStdin();
+
+  // Decode, recording the bytes behind every field
+  const traced = traceDecode(coder, binaryData);
+  const text = renderHexdump(binaryData, traced, options);
+
+  // An empty dump would look like a success; a misspelled path is not one
+  if (text === "" && options.field !== undefined) {
+    throw new Error(`No field of the decoded value is at '${options.field}'`);
+  }
+
+  await writeStdout(new TextEncoder().encode(`${text}\n`));
+}
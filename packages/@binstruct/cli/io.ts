@@ -3,14 +3,23 @@
  *
  * This module provides shared utilities for reading from stdin and writing to stdout,
  * used by both encode and decode commands. It includes support for serializing and
- * deserializing non-native types like Uint8Array and BigInt, and accepts JSON5
- * (JSON with comments and trailing commas) on input.
+ * deserializing non-native types like Uint8Array and BigInt in each of the
+ * formats of `./serialization.ts`, and accepts JSON5 (JSON with comments and
+ * trailing commas) on input by default.
  *
  * @module
  */
 
 import { writeAll } from "@std/io/write-all";
-import { deserializeFromJson, serializeToJson } from "./serialization.ts";
+import {
+  deserializeFromJson,
+  deserializeValues,
+  FORMATS,
+  isFormatName,
+  serializeToJson,
+  serializeValue,
+  serializeValues,
+} from "./serialization.ts";
 
 /**
  * Reads binary data from stdin.
@@ -72,30 +81,27 @@ export async function readStdinJson(): Promise<unknown> {
 /**
  * Reads formatted data from stdin and parses it with support for non-native types.
  *
- * Currently the only supported format is `"jsonc"`, which parses JSON5
- * (JSON with comments and trailing commas) and reconstructs Uint8Array and
- * BigInt values.
+ * Reconstructs Uint8Array and BigInt values, from the types a format has for
+ * them or from their JSON-serialized representations. JSON5 accepts comments
+ * and trailing commas.
  *
- * @param format The format to parse: "jsonc" (default)
- * @returns Parsed data with non-native types reconstructed
+ * @param format The format to parse, one of the `FORMATS` of `./serialization.ts`: "json5" (default)
+ * @returns The parsed values: one, or one per line of JSON Lines
  */
 export async function readStdinFormatted(
-  format: string = "jsonc",
-): Promise<unknown> {
+  format: string = "json5",
+): Promise<unknown[]> {
+  if (!isFormatName(format)) {
+    throw new Error(unsupportedFormat(format));
+  }
+
   const binaryData = await readStdin();
-  const textString = new TextDecoder().decode(binaryData);
 
   try {
-    if (format === "jsonc") {
-      return deserializeFromJson(textString);
-    } else {
-      throw new Error(
-        `Unsupported format: ${format}. Only 'jsonc' is supported.`,
-      );
-    }
+    return await deserializeValues(binaryData, format);
   } catch (error) {
     throw new Error(
-      `Failed to parse JSONC from stdin: ${
+      `Failed to parse ${format} from stdin: ${
         error instanceof Error ? error.message : String(error)
       }`,
     );
@@ -135,27 +141,43 @@ export async function writeStdoutJson(data: unknown): Promise<void> {
 /**
  * Writes formatted data to stdout with support for non-native types.
  *
- * Currently the only supported format is `"jsonc"`, which produces JSON5
- * with hex-formatted byte arrays. Uint8Array and BigInt values are
- * converted to a form that can be round-tripped back via {@link readStdinFormatted}.
+ * The default, `"json5"`, produces JSON5 with hex-formatted byte arrays.
+ * Uint8Array and BigInt values are written natively where the format has a
+ * type for them, and otherwise converted to a form that can be round-tripped
+ * back via {@link readStdinFormatted}.
  *
  * @param data Data to serialize and write
- * @param format The format to use: "jsonc" (default)
+ * @param format The format to use, one of the `FORMATS` of `./serialization.ts`: "json5" (default)
  */
 export async function writeStdoutFormatted(
   data: unknown,
-  format: string = "jsonc",
+  format: string = "json5",
 ): Promise<void> {
-  let serializedString: string;
+  if (!isFormatName(format)) {
+    throw new Error(unsupportedFormat(format));
+  }
+  await writeStdout(await serializeValue(data, format));
+}
 
-  if (format === "jsonc") {
-    serializedString = serializeToJson(data);
-  } else {
-    throw new Error(
-      `Unsupported format: ${format}. Only 'jsonc' is supported.`,
-    );
+/**
+ * Writes a sequence of records to stdout in a format.
+ *
+ * JSON Lines gets one line per record, which {@linkcode readStdinFormatted}
+ * reads back as the same records; every other format gets one array.
+ *
+ * @param records The records to serialize and write
+ * @param format The format to use, one of the `FORMATS` of `./serialization.ts`: "json5" (default)
+ */
+export async function writeStdoutRecords(
+  records: readonly unknown[],
+  format: string = "json5",
+): Promise<void> {
+  if (!isFormatName(format)) {
+    throw new Error(unsupportedFormat(format));
   }
+  await writeStdout(await serializeValues(records, format));
+}
 
-  const binaryData = new TextEncoder().encode(serializedString);
-  await writeStdout(binaryData);
+function unsupportedFormat(format: string): string {
+  return `Unsupported format: ${format}. Must be one of ${FORMATS.join(", ")}.`;
 }
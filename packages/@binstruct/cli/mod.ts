@@ -3,7 +3,9 @@
  *
  * A command-line interface for decoding and encoding binary data with any
  * binstruct package. Binary arrives on stdin and JSON5 leaves on stdout, or
- * the other way round, so the tool drops into a shell pipeline.
+ * the other way round, so the tool drops into a shell pipeline. `hexdump`
+ * annotates the input bytes with the fields they decode to instead, and `diff`
+ * decodes two files and lists the fields that differ, exiting 1 if any do.
  *
  * The argument list is a prefix chain, and every prefix of it is a valid
  * invocation:
@@ -40,6 +42,16 @@
  * deno run -A @binstruct/cli arp decode < arp.bin > arp.json5
  * ```
  *
+ * @example Show which bytes each field came from, two levels deep
+ * ```bash
+ * deno run -A @binstruct/cli png pngFile hexdump --depth 2 < input.png
+ * ```
+ *
+ * @example Fail a CI job when an encoder's output drifts from a golden file
+ * ```bash
+ * deno run -A @binstruct/cli png pngFile diff golden.png output.png
+ * ```
+ *
  * @example A local module works the same way, relative to the working directory
  * ```bash
  * deno run -A @binstruct/cli ./my-package/mod.ts myStruct decode < input.bin > output.json5
@@ -0,0 +1,101 @@
+/**
+ * Tests for the MessagePack codec.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { decodeMsgpack, encodeMsgpack } from "./msgpack.ts";
+
+function hex(text: string): Uint8Array {
+  return Uint8Array.from(
+    text.match(/../g) ?? [],
+    (byte) => parseInt(byte, 16),
+  );
+}
+
+Deno.test("encodeMsgpack uses the smallest form of each type", () => {
+  const examples: [unknown, string][] = [
+    [0, "00"],
+    [127, "7f"],
+    [128, "cc80"],
+    [256, "cd0100"],
+    [65536, "ce00010000"],
+    [-1, "ff"],
+    [-32, "e0"],
+    [-33, "d0df"],
+    [-129, "d1ff7f"],
+    [-32769, "d2ffff7fff"],
+    [1.5, "cb3ff8000000000000"],
+    [-0, "cb8000000000000000"],
+    [null, "c0"],
+    [true, "c3"],
+    ["a", "a161"],
+    ["x".repeat(32), "d920" + "78".repeat(32)],
+    [new Uint8Array([1, 2]), "c4020102"],
+    [[1, [2, 3]], "9201920203"],
+    [{ a: 1 }, "81a16101"],
+  ];
+
+  for (const [value, expected] of examples) {
+    assertEquals(encodeMsgpack(value), hex(expected), String(value));
+  }
+});
+
+Deno.test("encodeMsgpack keeps 64-bit integers for bigints", () => {
+  // A whole number beyond 32 bits is a float, so it decodes as a number
+  assertEquals(encodeMsgpack(2 ** 32), hex("cb41f0000000000000"));
+  assertEquals(encodeMsgpack(7n), hex("cf0000000000000007"));
+  assertEquals(encodeMsgpack(-7n), hex("d3fffffffffffffff9"));
+  assertEquals(encodeMsgpack(2n ** 64n - 1n), hex("cfffffffffffffffff"));
+  // Beyond 64 bits, the JSON form
+  assertEquals(decodeMsgpack(encodeMsgpack(2n ** 64n)), 2n ** 64n);
+});
+
+Deno.test("encodeMsgpack leaves out undefined entries", () => {
+  assertEquals(encodeMsgpack({ a: undefined, b: 1 }), hex("81a16201"));
+  assertEquals(encodeMsgpack([undefined]), hex("91c0"));
+});
+
+Deno.test("decodeMsgpack reverses encodeMsgpack", () => {
+  const value = {
+    id: 1,
+    length: 2n ** 63n,
+    offset: -5n,
+    data: new Uint8Array(300).fill(0xab),
+    records: Array.from({ length: 20 }, (_, i) => ({ index: i, ratio: i / 3 })),
+    name: "ü".repeat(200),
+  };
+
+  assertEquals(decodeMsgpack(encodeMsgpack(value)), value);
+});
+
+Deno.test("decodeMsgpack reads the forms it does not write", () => {
+  assertEquals(decodeMsgpack(hex("ca3fc00000")), 1.5);
+  assertEquals(decodeMsgpack(hex("da000161")), "a");
+  assertEquals(decodeMsgpack(hex("dc000101")), [1]);
+  assertEquals(decodeMsgpack(hex("de0001a16101")), { a: 1 });
+});
+
+Deno.test("decodeMsgpack refuses what does not decode to a value", () => {
+  const cases: [string, string][] = [
+    ["", "Need 1 bytes at offset 0, got 0"],
+    ["cd01", "Need 2 bytes at offset 1, got 1"],
+    ["0000", "1 bytes follow the object"],
+    ["c40501", "runs past the end of the input"],
+    ["810101", "The map key at offset 1 is not a string"],
+    ["a2c328", "is not valid UTF-8"],
+    ["c1", "Byte 0xc1 at offset 0 is never used"],
+    ["d40100", "Extension type 0xd4 at offset 0 is not supported"],
+  ];
+
+  for (const [bytes, message] of cases) {
+    assertThrows(() => decodeMsgpack(hex(bytes)), Error, message);
+  }
+});
+
+Deno.test("encodeMsgpack refuses values it has no type for", () => {
+  assertThrows(
+    () => encodeMsgpack(Symbol("x")),
+    Error,
+    "Cannot encode a symbol as MessagePack",
+  );
+});
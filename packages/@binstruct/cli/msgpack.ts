@@ -0,0 +1,356 @@
+/**
+ * MessagePack for the values binstruct coders decode to.
+ *
+ * Byte slices are `bin`, and bigints are always 64-bit integers, so a bigint
+ * decodes as a bigint again and can be encoded by the 64-bit coder it came
+ * from. Numbers are never 64-bit integers: whole numbers beyond 32 bits are
+ * float 64, which holds them exactly. A bigint beyond 64 bits has no
+ * MessagePack type, and is written as `{ $bigint: "…" }` the way JSON writes
+ * every bigint.
+ *
+ * @module
+ */
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * Object entries holding `undefined` are left out, as JSON leaves them out,
+ * and `undefined` in an array is nil.
+ *
+ * @param value The value: plain objects, arrays, strings, numbers, bigints,
+ * booleans, null, undefined and Uint8Arrays
+ * @returns The encoded object
+ * @throws {Error} If the value holds anything else
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { encodeMsgpack } from "./msgpack.ts";
+ *
+ * assertEquals(
+ *   encodeMsgpack({ id: 1, data: new Uint8Array([0xca, 0xfe]) }),
+ *   new Uint8Array([
+ *     0x82, 0xa2, 0x69, 0x64, 0x01, // { "id": 1,
+ *     0xa4, 0x64, 0x61, 0x74, 0x61, 0xc4, 0x02, 0xca, 0xfe, // "data": bin }
+ *   ]),
+ * );
+ * ```
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const out: number[] = [];
+  encodeObject(value, out);
+  return Uint8Array.from(out);
+}
+
+/**
+ * Decodes one MessagePack object.
+ *
+ * @param bytes The encoded object, and nothing after it
+ * @returns The decoded value
+ * @throws {Error} If the bytes are not one well-formed object, hold a map with
+ * keys that are not strings, or hold an extension type
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decodeMsgpack } from "./msgpack.ts";
+ *
+ * // uint 64 and bin 8
+ * const bytes = new Uint8Array([
+ *   0x92,
+ *   0xcf, 0, 0, 0, 0, 0, 0, 0, 7,
+ *   0xc4, 0x01, 0xff,
+ * ]);
+ *
+ * assertEquals(decodeMsgpack(bytes), [7n, new Uint8Array([0xff])]);
+ * ```
+ */
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const reader = { bytes, offset: 0 };
+  const value = decodeObject(reader);
+  if (reader.offset !== bytes.length) {
+    throw new Error(
+      `Invalid MessagePack: ${
+        bytes.length - reader.offset
+      } bytes follow the object. Must be a single object.`,
+    );
+  }
+  return value;
+}
+
+function pushUint(n: number | bigint, length: number, out: number[]) {
+  const big = BigInt.asUintN(length * 8, BigInt(n));
+  for (let i = length - 1; i >= 0; i--) {
+    out.push(Number((big >> BigInt(i * 8)) & 0xffn));
+  }
+}
+
+// A header for a string, bin, array or map: the fix form when there is one,
+// then the 8-, 16- and 32-bit forms
+function pushLength(
+  length: number,
+  fix: { type: number; max: number } | undefined,
+  types: readonly (number | undefined)[],
+  out: number[],
+) {
+  if (fix !== undefined && length <= fix.max) {
+    out.push(fix.type | length);
+    return;
+  }
+  const [type8, type16, type32] = types;
+  if (type8 !== undefined && length < 0x100) {
+    out.push(type8, length);
+  } else if (length < 0x10000) {
+    out.push(type16!);
+    pushUint(length, 2, out);
+  } else if (length < 0x100000000) {
+    out.push(type32!);
+    pushUint(length, 4, out);
+  } else {
+    throw new Error(`Cannot encode ${length} items as MessagePack`);
+  }
+}
+
+function pushBytes(bytes: Uint8Array, out: number[]) {
+  for (const byte of bytes) {
+    out.push(byte);
+  }
+}
+
+function encodeObject(value: unknown, out: number[]): void {
+  if (value === undefined || value === null) {
+    out.push(0xc0);
+  } else if (typeof value === "boolean") {
+    out.push(value ? 0xc3 : 0xc2);
+  } else if (typeof value === "number") {
+    encodeNumber(value, out);
+  } else if (typeof value === "bigint") {
+    if (value >= 0n && value < 2n ** 64n) {
+      out.push(0xcf);
+      pushUint(value, 8, out);
+    } else if (value < 0n && value >= -(2n ** 63n)) {
+      out.push(0xd3);
+      pushUint(value, 8, out);
+    } else {
+      encodeObject({ $bigint: value.toString() }, out);
+    }
+  } else if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    pushLength(bytes.length, { type: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb], out);
+    pushBytes(bytes, out);
+  } else if (value instanceof Uint8Array) {
+    pushLength(value.length, undefined, [0xc4, 0xc5, 0xc6], out);
+    pushBytes(value, out);
+  } else if (Array.isArray(value)) {
+    pushLength(
+      value.length,
+      { type: 0x90, max: 15 },
+      [undefined, 0xdc, 0xdd],
+      out,
+    );
+    for (const item of value) {
+      encodeObject(item, out);
+    }
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value).filter(([, item]) =>
+      item !== undefined
+    );
+    pushLength(
+      entries.length,
+      { type: 0x80, max: 15 },
+      [undefined, 0xde, 0xdf],
+      out,
+    );
+    for (const [key, item] of entries) {
+      encodeObject(key, out);
+      encodeObject(item, out);
+    }
+  } else {
+    throw new Error(`Cannot encode a ${typeof value} as MessagePack`);
+  }
+}
+
+function encodeNumber(value: number, out: number[]) {
+  // Whole numbers beyond 32 bits are floats too, so that 64-bit integers
+  // stay for bigints
+  if (
+    !Number.isInteger(value) || Object.is(value, -0) ||
+    value < -0x80000000 || value >= 0x100000000
+  ) {
+    out.push(0xcb);
+    const float = new DataView(new ArrayBuffer(8));
+    float.setFloat64(0, value);
+    pushBytes(new Uint8Array(float.buffer), out);
+  } else if (value >= 0 && value < 0x80) {
+    out.push(value);
+  } else if (value >= -32 && value < 0) {
+    out.push(value & 0xff);
+  } else if (value >= 0 && value < 0x100000000) {
+    const length = value < 0x100 ? 1 : value < 0x10000 ? 2 : 4;
+    out.push({ 1: 0xcc, 2: 0xcd, 4: 0xce }[length]);
+    pushUint(value, length, out);
+  } else {
+    const length = value >= -0x80 ? 1 : value >= -0x8000 ? 2 : 4;
+    out.push({ 1: 0xd0, 2: 0xd1, 4: 0xd2 }[length]);
+    pushUint(value, length, out);
+  }
+}
+
+interface Reader {
+  readonly bytes: Uint8Array;
+  offset: number;
+}
+
+function take(reader: Reader, length: number): Uint8Array {
+  const { bytes, offset } = reader;
+  if (offset + length > bytes.length) {
+    throw new Error(
+      `Invalid MessagePack: Need ${length} bytes at offset ${offset}, got ${
+        bytes.length - offset
+      }.`,
+    );
+  }
+  reader.offset += length;
+  return bytes.subarray(offset, offset + length);
+}
+
+function view(reader: Reader, length: number): DataView {
+  const bytes = take(reader, length);
+  return new DataView(bytes.buffer, bytes.byteOffset, length);
+}
+
+function readLength(reader: Reader, length: 1 | 2 | 4): number {
+  const data = view(reader, length);
+  const count = length === 1
+    ? data.getUint8(0)
+    : length === 2
+    ? data.getUint16(0)
+    : data.getUint32(0);
+  // Every item takes at least a byte, so a longer count cannot be there
+  if (count > reader.bytes.length - reader.offset) {
+    throw new Error(
+      `Invalid MessagePack: A length of ${count} at offset ${reader.offset} runs past the end of the input.`,
+    );
+  }
+  return count;
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+function readString(reader: Reader, length: number): string {
+  const start = reader.offset;
+  try {
+    return utf8.decode(take(reader, length));
+  } catch (cause) {
+    throw new Error(
+      `Invalid MessagePack: The string at offset ${start} is not valid UTF-8.`,
+      { cause },
+    );
+  }
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  return Array.from({ length }, () => decodeObject(reader));
+}
+
+function readMap(reader: Reader, length: number): unknown {
+  const entries = Array.from({ length }, (): [string, unknown] => {
+    const keyOffset = reader.offset;
+    const key = decodeObject(reader);
+    if (typeof key !== "string") {
+      throw new Error(
+        `Invalid MessagePack: The map key at offset ${keyOffset} is not a string. Must be a string to decode to an object.`,
+      );
+    }
+    return [key, decodeObject(reader)];
+  });
+
+  // The form bigints beyond 64 bits are written in
+  if (
+    entries.length === 1 && entries[0][0] === "$bigint" &&
+    typeof entries[0][1] === "string"
+  ) {
+    return BigInt(entries[0][1]);
+  }
+  return Object.fromEntries(entries);
+}
+
+function decodeObject(reader: Reader): unknown {
+  const start = reader.offset;
+  const type = take(reader, 1)[0];
+
+  if (type < 0x80) {
+    return type;
+  }
+  if (type >= 0xe0) {
+    return type - 0x100;
+  }
+  if (type <= 0x8f) {
+    return readMap(reader, type & 0x0f);
+  }
+  if (type <= 0x9f) {
+    return readArray(reader, type & 0x0f);
+  }
+  if (type <= 0xbf) {
+    return readString(reader, type & 0x1f);
+  }
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return take(reader, readLength(reader, 1)).slice();
+    case 0xc5:
+      return take(reader, readLength(reader, 2)).slice();
+    case 0xc6:
+      return take(reader, readLength(reader, 4)).slice();
+    case 0xca:
+      return view(reader, 4).getFloat32(0);
+    case 0xcb:
+      return view(reader, 8).getFloat64(0);
+    case 0xcc:
+      return view(reader, 1).getUint8(0);
+    case 0xcd:
+      return view(reader, 2).getUint16(0);
+    case 0xce:
+      return view(reader, 4).getUint32(0);
+    case 0xcf:
+      return view(reader, 8).getBigUint64(0);
+    case 0xd0:
+      return view(reader, 1).getInt8(0);
+    case 0xd1:
+      return view(reader, 2).getInt16(0);
+    case 0xd2:
+      return view(reader, 4).getInt32(0);
+    case 0xd3:
+      return view(reader, 8).getBigInt64(0);
+    case 0xd9:
+      return readString(reader, readLength(reader, 1));
+    case 0xda:
+      return readString(reader, readLength(reader, 2));
+    case 0xdb:
+      return readString(reader, readLength(reader, 4));
+    case 0xdc:
+      return readArray(reader, readLength(reader, 2));
+    case 0xdd:
+      return readArray(reader, readLength(reader, 4));
+    case 0xde:
+      return readMap(reader, readLength(reader, 2));
+    case 0xdf:
+      return readMap(reader, readLength(reader, 4));
+    case 0xc1:
+      throw new Error(
+        `Invalid MessagePack: Byte 0xc1 at offset ${start} is never used.`,
+      );
+  }
+
+  throw new Error(
+    `Invalid MessagePack: Extension type 0x${
+      type.toString(16)
+    } at offset ${start} is not supported.`,
+  );
+}
@@ -2,8 +2,15 @@
  * Tests for the serialization utilities.
  */
 
-import { assertEquals } from "@std/assert";
-import { deserializeFromJson, serializeToJson } from "./serialization.ts";
+import { assertEquals, assertMatch } from "@std/assert";
+import {
+  deserializeFromJson,
+  deserializeValues,
+  FORMATS,
+  serializeToJson,
+  serializeValue,
+  serializeValues,
+} from "./serialization.ts";
 import JSON5 from "json5";
 
 Deno.test("serializeToJson with Uint8Array", () => {
@@ -141,3 +148,79 @@ Deno.test("roundtrip serialization with mixed types", () => {
   assertEquals(typeof nested.innerBigInt, "bigint");
   assertEquals(nested.innerBigInt, original.nested.innerBigInt);
 });
+
+Deno.test("serializeValue writes JSON with $bytes and $bigint objects", async () => {
+  const data = { bytes: new Uint8Array([1, 2]), big: 7n, missing: undefined };
+
+  assertEquals(
+    new TextDecoder().decode(await serializeValue(data, "json")),
+    '{\n  "bytes": {\n    "$bytes": [\n      1,\n      2\n    ]\n  },\n  "big": {\n    "$bigint": "7"\n  }\n}\n',
+  );
+});
+
+Deno.test("serializeValues writes a line per record in JSON Lines", async () => {
+  const records = [{ id: 1n }, { id: 2n }];
+  const lines = await serializeValues(records, "jsonl");
+
+  assertEquals(
+    new TextDecoder().decode(lines),
+    '{"id":{"$bigint":"1"}}\n{"id":{"$bigint":"2"}}\n',
+  );
+  assertEquals(await deserializeValues(lines, "jsonl"), records);
+});
+
+Deno.test("serializeValues writes one array in the other formats", async () => {
+  const records = [{ id: 1 }, { id: 2 }];
+
+  for (const format of ["json5", "json", "yaml", "cbor", "msgpack"] as const) {
+    const bytes = await serializeValues(records, format);
+    assertEquals(await deserializeValues(bytes, format), [records], format);
+  }
+});
+
+Deno.test("binary formats keep bytes and bigints native", async () => {
+  const data = { bytes: new Uint8Array([0xca, 0xfe]), big: 2n ** 64n - 1n };
+
+  for (const format of ["cbor", "msgpack"] as const) {
+    const [value] = await deserializeValues(
+      await serializeValue(data, format),
+      format,
+    );
+    assertEquals(value, data, format);
+  }
+
+  // A byte string, not a $bytes object
+  const cbor = await serializeValue(data.bytes, "cbor");
+  assertEquals(cbor, new Uint8Array([0x42, 0xca, 0xfe]));
+});
+
+Deno.test("every format reads back what it writes", async () => {
+  const data = {
+    bytes: new Uint8Array([255, 0, 10]),
+    big: -12345678901234567890n,
+    list: [1, "two", null, true],
+  };
+
+  for (const format of FORMATS) {
+    const bytes = await serializeValue(data, format);
+    assertEquals(await deserializeValues(bytes, format), [data], format);
+  }
+});
+
+Deno.test("yaml writes bytes as !!binary and reads back bytes and bigints", async () => {
+  const data = { bytes: new Uint8Array([0xca, 0xfe]), big: 2n ** 64n - 1n };
+
+  const yaml = await serializeValue(data, "yaml");
+  // The short and the verbatim form name the same tag
+  assertMatch(
+    new TextDecoder().decode(yaml),
+    /^bytes: (!!binary|!<tag:yaml\.org,2002:binary>) yv4=$/m,
+  );
+
+  const [value] = await deserializeValues(yaml, "yaml");
+  const { bytes, big } = value as Record<string, unknown>;
+  assertEquals(bytes instanceof Uint8Array, true);
+  assertEquals(bytes, data.bytes);
+  assertEquals(typeof big, "bigint");
+  assertEquals(big, data.big);
+});
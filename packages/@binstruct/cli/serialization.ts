@@ -4,15 +4,188 @@
  * This module provides utilities for serializing and deserializing non-native
  * types like Uint8Array and BigInt that are commonly used in binary structures.
  * Data decoded from binary is serialized to JSON5 (JSON with comments and
- * trailing commas) and reconstructed when encoding back to binary.
+ * trailing commas) by default, or to one of the other {@linkcode FORMATS}, and
+ * reconstructed when encoding back to binary.
  *
  * Uses `json5` for parsing with custom logic for handling non-native types
- * during serialization.
+ * during serialization. JSON and JSON Lines write them as `$bytes` and
+ * `$bigint` objects the way JSON5 does; YAML, CBOR and MessagePack have native
+ * types for some of them.
  *
  * @module
  */
 
 import JSON5 from "json5";
+import { decodeCbor, encodeCbor } from "./cbor.ts";
+import { decodeMsgpack, encodeMsgpack } from "./msgpack.ts";
+
+/**
+ * The formats decoded values can be written in and read back from.
+ *
+ * - `json5`: JSON5 with hex byte arrays and ASCII comments, the default
+ * - `json`: plain JSON, indented
+ * - `jsonl`: JSON Lines, one compact value per line
+ * - `yaml`: YAML, with byte arrays as `!!binary`
+ * - `cbor`: CBOR, with byte strings and bignums
+ * - `msgpack`: MessagePack, with `bin` and 64-bit integers
+ */
+export const FORMATS = [
+  "json5",
+  "json",
+  "jsonl",
+  "yaml",
+  "cbor",
+  "msgpack",
+] as const;
+
+/** A format in {@linkcode FORMATS}. */
+export type FormatName = (typeof FORMATS)[number];
+
+/**
+ * Whether a string names one of the {@linkcode FORMATS}.
+ *
+ * @param name The name to check, as typed
+ * @returns Whether it is a format
+ */
+export function isFormatName(name: string): name is FormatName {
+  return (FORMATS as readonly string[]).includes(name);
+}
+
+/**
+ * Serializes one value in a format.
+ *
+ * Uint8Array and BigInt values are written natively where the format has a
+ * type for them — CBOR byte strings and bignums, MessagePack `bin` and 64-bit
+ * integers, YAML `!!binary` — and as `$bytes` and `$bigint` objects
+ * otherwise, so that {@linkcode deserializeValues} reconstructs them.
+ *
+ * @param value The value to serialize
+ * @param format The format to write
+ * @returns The serialized bytes
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { serializeValue } from "./serialization.ts";
+ *
+ * const json = await serializeValue({ id: 7n }, "jsonl");
+ *
+ * assertEquals(
+ *   new TextDecoder().decode(json),
+ *   '{"id":{"$bigint":"7"}}\n',
+ * );
+ * ```
+ */
+export async function serializeValue(
+  value: unknown,
+  format: FormatName,
+): Promise<Uint8Array> {
+  switch (format) {
+    case "json5":
+      return new TextEncoder().encode(serializeToJson(value));
+    case "json":
+      return new TextEncoder().encode(
+        JSON.stringify(convertForSerialization(value), null, 2) + "\n",
+      );
+    case "jsonl":
+      return new TextEncoder().encode(
+        JSON.stringify(convertForSerialization(value)) + "\n",
+      );
+    case "yaml": {
+      // Loaded on demand, so that the other formats work without it
+      const { stringify } = await import("@std/yaml");
+      return new TextEncoder().encode(stringify(convertForYaml(value)));
+    }
+    case "cbor":
+      return encodeCbor(value);
+    case "msgpack":
+      return encodeMsgpack(value);
+  }
+}
+
+/**
+ * Serializes a sequence of values in a format.
+ *
+ * JSON Lines writes one line per value, so that a stream of records can be
+ * processed line by line. Every other format writes the values as one array.
+ *
+ * @param values The values to serialize
+ * @param format The format to write
+ * @returns The serialized bytes
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { serializeValues } from "./serialization.ts";
+ *
+ * const lines = await serializeValues([{ id: 1 }, { id: 2 }], "jsonl");
+ *
+ * assertEquals(new TextDecoder().decode(lines), '{"id":1}\n{"id":2}\n');
+ * ```
+ */
+export async function serializeValues(
+  values: readonly unknown[],
+  format: FormatName,
+): Promise<Uint8Array> {
+  if (format !== "jsonl") {
+    return await serializeValue(values, format);
+  }
+  return new TextEncoder().encode(
+    values.map((value) => JSON.stringify(convertForSerialization(value)))
+      .map((line) => `${line}\n`).join(""),
+  );
+}
+
+/**
+ * Deserializes the values in bytes written in a format.
+ *
+ * JSON Lines holds a value per line, and blank lines are skipped; every other
+ * format holds exactly one value. Uint8Array and BigInt values are
+ * reconstructed from their native types and from `$bytes` and `$bigint`
+ * objects alike.
+ *
+ * @param bytes The serialized bytes
+ * @param format The format they are in
+ * @returns The values, one for every format but JSON Lines
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { deserializeValues } from "./serialization.ts";
+ *
+ * const lines = new TextEncoder().encode(
+ *   '{"data":{"$bytes":[1,2]}}\n\n{"data":{"$bytes":[3]}}\n',
+ * );
+ *
+ * assertEquals(await deserializeValues(lines, "jsonl"), [
+ *   { data: new Uint8Array([1, 2]) },
+ *   { data: new Uint8Array([3]) },
+ * ]);
+ * ```
+ */
+export async function deserializeValues(
+  bytes: Uint8Array,
+  format: FormatName,
+): Promise<unknown[]> {
+  switch (format) {
+    case "json5":
+      return [deserializeFromJson(new TextDecoder().decode(bytes))];
+    case "json":
+      return [applyReviver(JSON.parse(new TextDecoder().decode(bytes)))];
+    case "jsonl":
+      return new TextDecoder().decode(bytes).split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => applyReviver(JSON.parse(line)));
+    case "yaml": {
+      const { parse } = await import("@std/yaml");
+      return [applyReviver(parse(new TextDecoder().decode(bytes)))];
+    }
+    case "cbor":
+      return [applyReviver(decodeCbor(bytes))];
+    case "msgpack":
+      return [applyReviver(decodeMsgpack(bytes))];
+  }
+}
 
 /**
  * Serializes a value to JSON with support for non-native types.
@@ -84,6 +257,11 @@ export function deserializeFromJson(json: string): unknown {
  * @returns Value with non-native types reconstructed
  */
 function applyReviver(value: unknown): unknown {
+  // Already reconstructed, by a format with a type for bytes
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+
   if (value && typeof value === "object" && !Array.isArray(value)) {
     const obj = value as Record<string, unknown>;
 
@@ -147,6 +325,46 @@ function convertForSerialization(value: unknown): unknown {
   return value;
 }
 
+/**
+ * Converts values for YAML, which has `!!binary` for Uint8Array but nothing
+ * for BigInt or undefined.
+ *
+ * Object entries holding `undefined` are dropped and `undefined` in an array
+ * becomes null, as `JSON.stringify` does.
+ *
+ * @param value The value to convert
+ * @returns Value YAML can represent
+ */
+function convertForYaml(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+
+  if (typeof value === "bigint") {
+    return {
+      $bigint: value.toString(),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      item === undefined ? null : convertForYaml(item)
+    );
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value)) {
+      if (val !== undefined) {
+        result[key] = convertForYaml(val);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
 /**
  * Formats JSON with special handling for byte arrays to display them as blocks of 32 items per line.
  *
@@ -0,0 +1,253 @@
+/**
+ * Conversion between pcapng captures and the classic pcap shape.
+ *
+ * The classic format has one link type, one snap length and one timestamp
+ * resolution for the whole file, and nothing but packets after its header.
+ * Converting from pcapng keeps the packets and drops everything else: names,
+ * statistics, custom blocks and every option. Converting to pcapng loses
+ * nothing.
+ */
+
+import {
+  PCAP_DEFAULT_ENDIANNESS,
+  PCAP_MAGIC_MICROS,
+  PCAP_MAGIC_NANOS,
+  type PcapGlobalHeader,
+} from "./header.ts";
+import type { PcapFile, PcapRecord } from "./record.ts";
+import {
+  PCAPNG_OPTION,
+  type PcapngBlock,
+  type PcapngFile,
+  type PcapngInterfaceDescriptionBlock,
+  pcapngTimestampResolution,
+} from "./pcapng.ts";
+
+/** The snap length libpcap uses when an interface has no limit. */
+const MAX_SNAPLEN = 262144;
+
+/** Timestamp units per second of an interface. */
+function unitsPerSecond(idb: PcapngInterfaceDescriptionBlock): bigint {
+  const { base, exponent } = pcapngTimestampResolution(idb);
+  return BigInt(base) ** BigInt(exponent);
+}
+
+/**
+ * Converts a pcapng capture to the classic pcap shape.
+ *
+ * Every Enhanced and Simple Packet Block becomes a record, in file order and
+ * across all sections. Simple Packet Blocks have no timestamp and get 0. The
+ * header takes the interfaces' link type, which must be the same for all of
+ * them, and the largest of their snap lengths. Timestamps keep nanoseconds,
+ * with {@link PCAP_MAGIC_NANOS}, when an interface that has packets counts in
+ * units finer than a microsecond, and microseconds otherwise; finer units are
+ * truncated.
+ *
+ * @param file The decoded pcapng capture.
+ * @returns The capture as a classic {@link PcapFile}, ready for
+ *   {@link pcapFile} to encode.
+ * @throws {Error} If the capture has no interface, its interfaces have
+ *   different link types, or a packet refers to an interface its section does
+ *   not describe.
+ *
+ * @example Convert a pcapng capture and write it as classic pcap
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import {
+ *   LINKTYPE,
+ *   PCAP_MAGIC_MICROS,
+ *   pcapFile,
+ *   pcapngToPcap,
+ * } from "@binstruct/pcap";
+ *
+ * const classic = pcapngToPcap({
+ *   blocks: [
+ *     {
+ *       type: "SHB",
+ *       endianness: "le",
+ *       versionMajor: 1,
+ *       versionMinor: 0,
+ *       sectionLength: -1n,
+ *       options: [],
+ *     },
+ *     { type: "IDB", linkType: LINKTYPE.ETHERNET, snapLen: 65535, options: [] },
+ *     {
+ *       type: "EPB",
+ *       interfaceId: 0,
+ *       timestamp: 1_700_000_000_250_000n,
+ *       originalLen: 2,
+ *       data: new Uint8Array([0x12, 0x34]),
+ *       options: [],
+ *     },
+ *   ],
+ * });
+ *
+ * assertEquals(classic.header.magic, PCAP_MAGIC_MICROS);
+ * assertEquals(classic.records, [{
+ *   tsSec: 1_700_000_000,
+ *   tsUsec: 250_000,
+ *   inclLen: 2,
+ *   origLen: 2,
+ *   data: new Uint8Array([0x12, 0x34]),
+ * }]);
+ *
+ * const buffer = new Uint8Array(64);
+ * assertEquals(pcapFile().encode(classic, buffer), 24 + 16 + 2);
+ * ```
+ */
+export function pcapngToPcap(
+  file: PcapngFile,
+): PcapFile<PcapGlobalHeader, PcapRecord> {
+  const interfaces: PcapngInterfaceDescriptionBlock[] = [];
+  const packets: {
+    block: Extract<PcapngBlock, { type: "EPB" | "SPB" }>;
+    idb: PcapngInterfaceDescriptionBlock;
+  }[] = [];
+
+  let section: PcapngInterfaceDescriptionBlock[] = [];
+  for (const block of file.blocks) {
+    if (block.type === "SHB") {
+      section = [];
+    } else if (block.type === "IDB") {
+      section.push(block);
+      interfaces.push(block);
+    } else if (block.type === "EPB" || block.type === "SPB") {
+      const interfaceId = block.type === "EPB" ? block.interfaceId : 0;
+      const idb = section[interfaceId];
+      if (idb === undefined) {
+        throw new Error(
+          `Invalid pcapng packet: interface ${interfaceId} of ${section.length}. Must refer to an Interface Description Block of its section.`,
+        );
+      }
+      packets.push({ block, idb });
+    }
+  }
+
+  if (interfaces.length === 0) {
+    throw new Error(
+      "Invalid pcapng capture: no Interface Description Block. Must describe an interface to give the pcap header a link type.",
+    );
+  }
+  const linkTypes = new Set(interfaces.map(({ linkType }) => linkType));
+  if (linkTypes.size > 1) {
+    throw new Error(
+      `Invalid pcapng capture for pcap: link types ${
+        [...linkTypes].join(", ")
+      }. Must use one link type, since pcap has a single one per file.`,
+    );
+  }
+
+  const nanos = packets.some(({ idb }) => unitsPerSecond(idb) > 1_000_000n);
+  const fraction = nanos ? 1_000_000_000n : 1_000_000n;
+  const snapLen = Math.max(
+    ...interfaces.map(({ snapLen }) => snapLen === 0 ? MAX_SNAPLEN : snapLen),
+  );
+
+  return {
+    header: {
+      magic: nanos ? PCAP_MAGIC_NANOS : PCAP_MAGIC_MICROS,
+      versionMajor: 2,
+      versionMinor: 4,
+      thisZone: 0,
+      sigFigs: 0,
+      snapLen,
+      network: interfaces[0].linkType,
+    },
+    records: packets.map(({ block, idb }) => {
+      const timestamp = block.type === "EPB" ? block.timestamp : 0n;
+      const units = unitsPerSecond(idb);
+      return {
+        tsSec: Number(timestamp / units),
+        tsUsec: Number(timestamp % units * fraction / units),
+        inclLen: block.data.length,
+        origLen: block.originalLen,
+        data: block.data,
+      };
+    }),
+  };
+}
+
+/**
+ * Converts a classic pcap capture to pcapng.
+ *
+ * The result is one section in {@link PCAP_DEFAULT_ENDIANNESS} with an
+ * unknown length, one interface with the header's link type and snap length,
+ * and an Enhanced Packet Block per record. A nanosecond capture sets the
+ * interface's `if_tsresol` to 9; a microsecond one leaves it out, as that is
+ * the default.
+ *
+ * @param file The decoded classic capture.
+ * @returns The capture as a {@link PcapngFile}, ready for {@link pcapngFile}
+ *   to encode.
+ *
+ * @example Convert a classic capture and read the timestamps back
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import {
+ *   LINKTYPE,
+ *   PCAP_MAGIC_NANOS,
+ *   pcapngToPcap,
+ *   pcapToPcapng,
+ * } from "@binstruct/pcap";
+ *
+ * const classic = {
+ *   header: {
+ *     magic: PCAP_MAGIC_NANOS,
+ *     versionMajor: 2,
+ *     versionMinor: 4,
+ *     thisZone: 0,
+ *     sigFigs: 0,
+ *     snapLen: 65535,
+ *     network: LINKTYPE.RAW,
+ *   },
+ *   records: [{
+ *     tsSec: 1_700_000_000,
+ *     tsUsec: 123_456_789,
+ *     inclLen: 1,
+ *     origLen: 1,
+ *     data: new Uint8Array([0x45]),
+ *   }],
+ * };
+ *
+ * const next = pcapToPcapng(classic);
+ * const packet = next.blocks[2];
+ *
+ * assertEquals(packet.type === "EPB" && packet.timestamp, 1_700_000_000_123_456_789n);
+ * assertEquals(pcapngToPcap(next), classic);
+ * ```
+ */
+export function pcapToPcapng(
+  file: PcapFile<PcapGlobalHeader, PcapRecord>,
+): PcapngFile {
+  const nanos = file.header.magic === PCAP_MAGIC_NANOS;
+  const fraction = nanos ? 1_000_000_000n : 1_000_000n;
+
+  return {
+    blocks: [
+      {
+        type: "SHB",
+        endianness: PCAP_DEFAULT_ENDIANNESS,
+        versionMajor: 1,
+        versionMinor: 0,
+        sectionLength: -1n,
+        options: [],
+      },
+      {
+        type: "IDB",
+        linkType: file.header.network,
+        snapLen: file.header.snapLen,
+        options: nanos
+          ? [{ code: PCAPNG_OPTION.IF_TSRESOL, value: new Uint8Array([9]) }]
+          : [],
+      },
+      ...file.records.map((record): PcapngBlock => ({
+        type: "EPB",
+        interfaceId: 0,
+        timestamp: BigInt(record.tsSec) * fraction + BigInt(record.tsUsec),
+        originalLen: record.origLen,
+        data: record.data,
+        options: [],
+      })),
+    ],
+  };
+}
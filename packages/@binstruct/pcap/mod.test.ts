@@ -10,11 +10,23 @@ import {
   pcapFileLe,
   pcapFileWith,
   pcapGlobalHeader,
+  PCAPNG_OPTION,
+  pcapngBlock,
+  pcapngFile,
+  pcapngTimestampResolution,
+  pcapngToPcap,
   pcapRecord,
+  pcapToPcapng,
+} from "./mod.ts";
+import type {
+  PcapGlobalHeader,
+  PcapngBlock,
+  PcapngFile,
+  PcapngSectionHeaderBlock,
+  PcapRecord,
 } from "./mod.ts";
-import type { PcapGlobalHeader, PcapRecord } from "./mod.ts";
 import { refine } from "@hertzg/binstruct/refine";
-import { createContext } from "@hertzg/binstruct";
+import { createContext, decodeView } from "@hertzg/binstruct";
 
 const GLOBAL_HEADER_SIZE = 24;
 const RECORD_HEADER_SIZE = 16;
@@ -467,6 +479,21 @@ Deno.test("pcapFile: zero-argument coder reads the dns.cap fixture", async () =>
   assertEquals(auto.records.length, 38);
 });
 
+Deno.test("pcapFile: a view of the dns.cap fixture reads what decode reads", async () => {
+  const fixture = await Deno.readFile(
+    new URL("./_fixtures/dns.cap", import.meta.url),
+  );
+
+  const view = decodeView(pcapFile(), fixture);
+  const [file] = pcapFile().decode(fixture);
+
+  assertEquals(view.records[37].tsSec, file.records[37].tsSec);
+  assertEquals(view.records[37].data, file.records[37].data);
+  assertEquals(view.records[37].data.buffer, fixture.buffer);
+  assertEquals(view.records.length, 38);
+  assertEquals(view, file);
+});
+
 Deno.test("coder factories report an arity of zero", () => {
   // Zero-argument tooling gates on Function.length, and a `?` parameter counts
   // as 1 there even though `deno doc` calls it optional. See ADR 0002.
@@ -475,6 +502,8 @@ Deno.test("coder factories report an arity of zero", () => {
   assertEquals(pcapFile.length, 0);
   assertEquals(pcapFileLe.length, 0);
   assertEquals(pcapFileBe.length, 0);
+  assertEquals(pcapngBlock.length, 0);
+  assertEquals(pcapngFile.length, 0);
 });
 
 Deno.test('pcapFileLe: encodes what pcapFile("le") encodes', () => {
@@ -575,3 +604,346 @@ Deno.test("pcapFile: zero-argument coder is usable as a struct field", () => {
   assertEquals(read, GLOBAL_HEADER_SIZE);
   assertEquals(decoded, value);
 });
+
+function hex(text: string): Uint8Array {
+  return Uint8Array.from(
+    text.replace(/\s+/g, "").match(/../g) ?? [],
+    (byte) => parseInt(byte, 16),
+  );
+}
+
+function sampleSection(
+  endianness: PcapngSectionHeaderBlock["endianness"],
+): PcapngSectionHeaderBlock {
+  return {
+    type: "SHB",
+    endianness,
+    versionMajor: 1,
+    versionMinor: 0,
+    sectionLength: -1n,
+    options: [],
+  };
+}
+
+function roundTripPcapng(value: PcapngFile): [PcapngFile, Uint8Array] {
+  const coder = pcapngFile();
+  const buffer = new Uint8Array(coder.measure?.(value) ?? 0);
+  const written = coder.encode(value, buffer);
+  const [decoded, read] = coder.decode(buffer);
+
+  assertEquals(written, buffer.length);
+  assertEquals(read, buffer.length);
+  return [decoded, buffer];
+}
+
+// A little-endian section with a nanosecond interface and one packet, as
+// dumpcap lays it out
+const PCAPNG_LE = hex(`
+  0a0d0d0a 1c000000 4d3c2b1a 0100 0000 ffffffffffffffff 1c000000
+  01000000 20000000 0100 0000 ffff0000 0900 0100 09000000 00000000 20000000
+  06000000 30000000 00000000 fe9c9717 15cd853d 03000000 3c000000 aabbcc00
+    0100 0200 6869 0000 00000000 30000000
+`);
+
+Deno.test("pcapngFile: decodes blocks, options and lengths from the wire", () => {
+  const [decoded, read] = pcapngFile().decode(PCAPNG_LE);
+
+  assertEquals(read, PCAPNG_LE.length);
+  assertEquals(decoded.blocks, [
+    sampleSection("le"),
+    {
+      type: "IDB",
+      linkType: LINKTYPE.ETHERNET,
+      snapLen: 65535,
+      options: [{ code: PCAPNG_OPTION.IF_TSRESOL, value: new Uint8Array([9]) }],
+    },
+    {
+      type: "EPB",
+      interfaceId: 0,
+      timestamp: 1_700_000_000_123_456_789n,
+      originalLen: 60,
+      data: new Uint8Array([0xaa, 0xbb, 0xcc]),
+      options: [{
+        code: PCAPNG_OPTION.COMMENT,
+        value: new TextEncoder().encode("hi"),
+      }],
+    },
+  ]);
+});
+
+Deno.test("pcapngFile: encodes a decoded capture back to the same bytes", () => {
+  const [decoded] = pcapngFile().decode(PCAPNG_LE);
+  const [, encoded] = roundTripPcapng(decoded);
+
+  assertEquals(encoded, PCAPNG_LE);
+});
+
+Deno.test("pcapngFile: each section keeps its own byte order", () => {
+  const packet: PcapngBlock = {
+    type: "EPB",
+    interfaceId: 0,
+    timestamp: 0x0102030405060708n,
+    originalLen: 1,
+    data: new Uint8Array([0xff]),
+    options: [],
+  };
+  const idb: PcapngBlock = {
+    type: "IDB",
+    linkType: LINKTYPE.RAW,
+    snapLen: 0,
+    options: [],
+  };
+  const value: PcapngFile = {
+    blocks: [
+      sampleSection("le"),
+      idb,
+      packet,
+      sampleSection("be"),
+      idb,
+      packet,
+    ],
+  };
+
+  const [decoded, encoded] = roundTripPcapng(value);
+
+  assertEquals(decoded, value);
+  // The second section starts after 28 + 20 + 36 bytes
+  assertEquals(encoded.subarray(8, 12), hex("4d3c2b1a"));
+  assertEquals(encoded.subarray(84 + 8, 84 + 12), hex("1a2b3c4d"));
+  // Timestamps are two 32-bit halves, high first, in the section's order
+  assertEquals(
+    encoded.subarray(84 + 28 + 20 + 12, 84 + 28 + 20 + 20),
+    hex("01020304 05060708"),
+  );
+  assertEquals(
+    encoded.subarray(28 + 20 + 12, 28 + 20 + 20),
+    hex("04030201 08070605"),
+  );
+});
+
+Deno.test("pcapngFile: simple packets are cut to the first interface's snap length", () => {
+  const spb = hex("03000000 18000000 0a000000 01020304 05060708 18000000");
+  const file = new Uint8Array([
+    ...PCAPNG_LE.subarray(0, 28),
+    ...hex("01000000 14000000 0100 0000 06000000 14000000"),
+    ...spb,
+  ]);
+
+  const [decoded] = pcapngFile().decode(file);
+  const [alone] = pcapngBlock("le").decode(spb);
+
+  assertEquals(decoded.blocks[2], {
+    type: "SPB",
+    originalLen: 10,
+    data: new Uint8Array([1, 2, 3, 4, 5, 6]),
+  });
+  // On its own the block can only be cut to itself
+  assertEquals(alone, {
+    type: "SPB",
+    originalLen: 10,
+    data: new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]),
+  });
+});
+
+Deno.test("pcapngFile: name resolution, statistics, custom and unknown blocks round-trip", () => {
+  const value: PcapngFile = {
+    blocks: [
+      sampleSection("be"),
+      {
+        type: "NRB",
+        records: [
+          {
+            type: 1,
+            address: new Uint8Array([192, 0, 2, 1]),
+            names: ["example.com", "www.example.com"],
+          },
+          {
+            type: 2,
+            address: new Uint8Array(16).fill(0x20, 0, 2),
+            names: ["example.net"],
+          },
+          { type: 3, value: new Uint8Array([2, 0, 0, 0, 0, 1, 0x61, 0]) },
+        ],
+        options: [],
+      },
+      {
+        type: "ISB",
+        interfaceId: 0,
+        timestamp: 1_700_000_000_000_000n,
+        options: [{
+          code: PCAPNG_OPTION.ISB_IFRECV,
+          value: new Uint8Array([0, 0, 0, 0, 0, 0, 0, 42]),
+        }],
+      },
+      {
+        type: "CB",
+        copy: true,
+        pen: 32473,
+        data: new Uint8Array([1, 2, 3, 4]),
+      },
+      { type: "CB", copy: false, pen: 32473, data: new Uint8Array(0) },
+      {
+        type: "unknown",
+        blockType: 0x80000001,
+        body: new Uint8Array([9, 9, 9, 9]),
+      },
+    ],
+  };
+
+  const [decoded] = roundTripPcapng(value);
+
+  assertEquals(decoded, value);
+});
+
+Deno.test("pcapngBlock: section headers use their own byte order", () => {
+  const buffer = new Uint8Array(28);
+  pcapngBlock("le").encode(sampleSection("be"), buffer);
+
+  assertEquals(buffer.subarray(4, 12), hex("0000001c 1a2b3c4d"));
+  assertEquals(pcapngBlock("le").decode(buffer), [sampleSection("be"), 28]);
+});
+
+Deno.test("pcapngBlock: refuses malformed framing", () => {
+  const shb = PCAPNG_LE.subarray(0, 28);
+
+  const badMagic = shb.slice();
+  badMagic.set(hex("00000000"), 8);
+  assertThrows(
+    () => pcapngBlock().decode(badMagic),
+    Error,
+    "Invalid pcapng byte-order magic: 0x00000000",
+  );
+
+  const badTrailer = shb.slice();
+  badTrailer.set(hex("20000000"), 24);
+  assertThrows(
+    () => pcapngBlock().decode(badTrailer),
+    Error,
+    "Must repeat the length at its start",
+  );
+
+  const badLength = shb.slice();
+  badLength.set(hex("1d000000"), 4);
+  assertThrows(
+    () => pcapngBlock().decode(badLength),
+    Error,
+    "Invalid pcapng block length: 29",
+  );
+
+  assertThrows(
+    () => pcapngFile().decode(shb.subarray(0, 20)),
+    RangeError,
+    "Need 28 bytes, got 20",
+  );
+});
+
+Deno.test("pcapngBlock: refuses a packet longer than its block", () => {
+  const epb = hex(
+    "06000000 20000000 00000000 00000000 00000000 ff000000 ff000000 20000000",
+  );
+
+  assertThrows(
+    () => pcapngBlock().decode(epb),
+    Error,
+    "Invalid Enhanced Packet Block",
+  );
+});
+
+Deno.test("pcapngTimestampResolution: reads decimal and binary resolutions", () => {
+  const idb = (options: { code: number; value: Uint8Array }[]) => ({
+    type: "IDB" as const,
+    linkType: LINKTYPE.ETHERNET,
+    snapLen: 0,
+    options,
+  });
+  const tsresol = (byte: number) =>
+    idb([{ code: PCAPNG_OPTION.IF_TSRESOL, value: new Uint8Array([byte]) }]);
+
+  assertEquals(pcapngTimestampResolution(idb([])), { base: 10, exponent: 6 });
+  assertEquals(pcapngTimestampResolution(tsresol(3)), {
+    base: 10,
+    exponent: 3,
+  });
+  assertEquals(pcapngTimestampResolution(tsresol(0x8a)), {
+    base: 2,
+    exponent: 10,
+  });
+});
+
+Deno.test("pcapToPcapng: the dns.cap fixture survives a trip through pcapng", async () => {
+  const fixture = await Deno.readFile(
+    new URL("./_fixtures/dns.cap", import.meta.url),
+  );
+  const [classic] = pcapFile().decode(fixture);
+
+  const [next] = roundTripPcapng(pcapToPcapng(classic));
+
+  assertEquals(next.blocks.length, 2 + 38);
+  assertEquals(pcapngToPcap(next), classic);
+
+  const buffer = new Uint8Array(fixture.length);
+  pcapFile().encode(pcapngToPcap(next), buffer);
+  assertEquals(buffer, fixture);
+});
+
+Deno.test("pcapngToPcap: converts each interface's resolution", () => {
+  const [decoded] = pcapngFile().decode(PCAPNG_LE);
+  const millis = {
+    type: "IDB" as const,
+    linkType: LINKTYPE.ETHERNET,
+    snapLen: 0,
+    options: [{ code: PCAPNG_OPTION.IF_TSRESOL, value: new Uint8Array([3]) }],
+  };
+  const value: PcapngFile = {
+    blocks: [
+      ...decoded.blocks,
+      sampleSection("be"),
+      millis,
+      { type: "SPB", originalLen: 1, data: new Uint8Array([1]) },
+      {
+        type: "EPB",
+        interfaceId: 0,
+        timestamp: 1_700_000_000_500n,
+        originalLen: 1,
+        data: new Uint8Array([2]),
+        options: [],
+      },
+    ],
+  };
+
+  const classic = pcapngToPcap(value);
+
+  assertEquals(classic.header.magic, PCAP_MAGIC_NANOS);
+  // 0 means no limit, which pcap spells as the largest snap length
+  assertEquals(classic.header.snapLen, 262144);
+  assertEquals(
+    classic.records.map(({ tsSec, tsUsec }) => [tsSec, tsUsec]),
+    [[1_700_000_000, 123_456_789], [0, 0], [1_700_000_000, 500_000_000]],
+  );
+});
+
+Deno.test("pcapngToPcap: refuses what classic pcap cannot hold", () => {
+  const [decoded] = pcapngFile().decode(PCAPNG_LE);
+
+  assertThrows(
+    () =>
+      pcapngToPcap({
+        blocks: [
+          ...decoded.blocks,
+          { type: "IDB", linkType: LINKTYPE.RAW, snapLen: 0, options: [] },
+        ],
+      }),
+    Error,
+    "link types 1, 101",
+  );
+  assertThrows(
+    () => pcapngToPcap({ blocks: [sampleSection("le")] }),
+    Error,
+    "no Interface Description Block",
+  );
+  assertThrows(
+    () => pcapngToPcap({ blocks: [sampleSection("le"), decoded.blocks[2]] }),
+    Error,
+    "interface 0 of 0",
+  );
+});
@@ -1,14 +1,15 @@
 /**
- * Coders for the classic libpcap (.pcap) capture file format.
+ * Coders for the libpcap (.pcap) and pcapng capture file formats.
  *
  * This package decodes and encodes the original libpcap layout — a 24-byte
  * global header followed by a stream of 16-byte record headers each carrying a
- * captured packet payload. The newer pcapng format is intentionally **not**
- * supported.
+ * captured packet payload — and the block-based pcapng layout that Wireshark,
+ * tshark and dumpcap write today (see {@link pcapngFile}).
  *
  * The link-layer payload is preserved as raw bytes. Decoding it (Ethernet, raw
- * IP, Linux SLL, …) is left to the caller, so this package has no protocol
- * dependencies and stays focused on the file envelope.
+ * IP, Linux SLL, …) is left to the caller, so this entry point has no protocol
+ * dependencies and stays focused on the file envelope. The streams in
+ * `@binstruct/pcap/stream` can decode it through `@binstruct/inet` on request.
  *
  * ## Endianness
  *
@@ -36,6 +37,30 @@
  * ({@link PCAP_MAGIC_NANOS}). The on-disk layout is identical; only the
  * interpretation of `tsUsec` differs.
  *
+ * ## pcapng
+ *
+ * {@link pcapngFile} decodes a pcapng capture into its blocks: section
+ * headers, interface descriptions, enhanced and simple packets, name
+ * resolution, interface statistics and custom blocks, each with its option
+ * TLVs. Blocks of other types are kept as raw bytes. Each section is read in
+ * the byte order its header declares, and packet timestamps count in the
+ * units of their interface's `if_tsresol`, which
+ * {@link pcapngTimestampResolution} reads.
+ *
+ * {@link pcapngToPcap} and {@link pcapToPcapng} convert between the two
+ * formats, for tools that only read one of them.
+ *
+ * ## Large captures
+ *
+ * `decodeView` from `@hertzg/binstruct/view` decodes a classic capture
+ * lazily: the header and each record are read when first accessed, and
+ * reading record `n` only walks the record headers before it. Payloads are
+ * subarrays of the capture buffer either way.
+ *
+ * When the capture does not fit in memory at all, `createPcapDecodeStream`
+ * and `createPcapEncodeStream` from `@binstruct/pcap/stream` read and write
+ * it one record at a time from a `ReadableStream`.
+ *
  * @example Round-trip a complete little-endian capture file
  * ```ts
  * import { assertEquals } from "@std/assert";
@@ -277,6 +302,7 @@ import {
   createContext,
   kCoderKind,
   refSetValue,
+  viewChild,
 } from "@hertzg/binstruct";
 import {
   detectPcapMagic,
@@ -308,6 +334,33 @@ export { pcapFileWith, pcapRecord } from "./record.ts";
 export type { PcapFile, PcapRecord } from "./record.ts";
 export { LINKTYPE } from "./linktypes.ts";
 export type { LinkType } from "./linktypes.ts";
+export {
+  PCAPNG_BLOCK_TYPE,
+  PCAPNG_BYTE_ORDER_MAGIC,
+  PCAPNG_NAME_RECORD,
+  PCAPNG_OPTION,
+  pcapngBlock,
+  pcapngFile,
+  pcapngTimestampResolution,
+} from "./pcapng.ts";
+export type {
+  PcapngBlock,
+  PcapngCustomBlock,
+  PcapngEnhancedPacketBlock,
+  PcapngFile,
+  PcapngInterfaceDescriptionBlock,
+  PcapngInterfaceStatisticsBlock,
+  PcapngNameRecord,
+  PcapngNameRecordAddress,
+  PcapngNameRecordRaw,
+  PcapngNameResolutionBlock,
+  PcapngOption,
+  PcapngSectionHeaderBlock,
+  PcapngSimplePacketBlock,
+  PcapngTimestampResolution,
+  PcapngUnknownBlock,
+} from "./pcapng.ts";
+export { pcapngToPcap, pcapToPcapng } from "./convert.ts";
 
 /** Decoded shape produced by the standard {@link pcapFile} coder. */
 type PcapFileValue = PcapFile<PcapGlobalHeader, PcapRecord>;
@@ -336,7 +389,8 @@ const kKindPcapFileAuto = Symbol("pcapFileAuto");
  *   byte order that magic implies. Little- and big-endian captures therefore
  *   both round-trip through the same coder, with no configuration. A buffer
  *   whose first four bytes are not a recognised pcap magic is decoded as
- *   {@link PCAP_DEFAULT_ENDIANNESS}.
+ *   {@link PCAP_DEFAULT_ENDIANNESS}. Decoding with `decodeView` sniffs the
+ *   magic the same way.
  * - On **encode** there is no file to inspect, so the coder writes
  *   {@link PCAP_DEFAULT_ENDIANNESS}. Note that the `magic` field is a logical
  *   value: writing {@link PCAP_MAGIC_MICROS} produces the correct on-disk byte
@@ -492,6 +546,25 @@ export function pcapFile(
       refSetValue(ctx, self, decoded);
       return [decoded, bytesRead];
     },
+    view: (encoded, context) => {
+      const order = detectPcapMagic(encoded)?.endianness ??
+        PCAP_DEFAULT_ENDIANNESS;
+      const view = viewChild(
+        context,
+        byOrder[order],
+        encoded,
+        encoded,
+        undefined,
+      );
+      refSetValue(context, self, view.value);
+      return view;
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const bytes = byOrder[PCAP_DEFAULT_ENDIANNESS].measure?.(decoded, ctx);
+      refSetValue(ctx, self, decoded);
+      return bytes;
+    },
   };
 }
 
@@ -0,0 +1,1000 @@
+/**
+ * Coders for the pcapng (PCAP Next Generation) capture file format.
+ *
+ * A pcapng file is a sequence of blocks. Every block starts with its type and
+ * total length and ends with the length again, so a reader can step over
+ * blocks it does not understand. A Section Header Block opens each section
+ * and declares the byte order of every block up to the next one, so a single
+ * file may mix little- and big-endian sections. Most blocks end in a list of
+ * option TLVs, padded to 32 bits like every other variable-length field.
+ *
+ * Packet payloads are kept as raw bytes, as in the classic format. Packet and
+ * statistics timestamps are 64-bit counts in the resolution of the interface
+ * they belong to, `if_tsresol`, which {@link pcapngTimestampResolution} reads.
+ *
+ * @see {@link https://www.ietf.org/archive/id/draft-ietf-opsawg-pcapng-02.html | pcapng specification}
+ */
+
+import {
+  type Coder,
+  createContext,
+  kCoderKind,
+  refSetValue,
+} from "@hertzg/binstruct";
+import { PCAP_DEFAULT_ENDIANNESS, type PcapEndianness } from "./header.ts";
+
+/**
+ * Block type values of the blocks this module decodes.
+ *
+ * @example Block types are the first 32 bits of every block
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { PCAPNG_BLOCK_TYPE } from "@binstruct/pcap";
+ *
+ * assertEquals(PCAPNG_BLOCK_TYPE.SECTION_HEADER, 0x0a0d0d0a);
+ * assertEquals(PCAPNG_BLOCK_TYPE.ENHANCED_PACKET, 6);
+ * ```
+ */
+export const PCAPNG_BLOCK_TYPE = {
+  /** Section Header Block: opens a section and sets its byte order. */
+  SECTION_HEADER: 0x0a0d0d0a,
+  /** Interface Description Block: one capture interface of the section. */
+  INTERFACE_DESCRIPTION: 0x00000001,
+  /** Simple Packet Block: a packet on the first interface, no timestamp. */
+  SIMPLE_PACKET: 0x00000003,
+  /** Name Resolution Block: addresses and the names they resolve to. */
+  NAME_RESOLUTION: 0x00000004,
+  /** Interface Statistics Block: counters for one interface. */
+  INTERFACE_STATISTICS: 0x00000005,
+  /** Enhanced Packet Block: a packet with its interface and timestamp. */
+  ENHANCED_PACKET: 0x00000006,
+  /** Custom Block that rewriters may copy into a new file. */
+  CUSTOM: 0x00000bad,
+  /** Custom Block that rewriters must not copy. */
+  CUSTOM_NO_COPY: 0x40000bad,
+} as const;
+
+/**
+ * Logical value of the Section Header Block's byte-order magic.
+ *
+ * Like {@link PCAP_MAGIC_MICROS}, the value is the same for both byte orders;
+ * it reads as `0x4d3c2b1a` when the section is decoded in the wrong one.
+ */
+export const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+
+/**
+ * Common option codes.
+ *
+ * Option codes are scoped to the block type that carries them, so the same
+ * number means different things in different blocks; the prefix names the
+ * block. The option list itself stays raw — {@link PcapngOption} — and these
+ * constants are a convenience for finding an option in it.
+ *
+ * @example Find an interface's name
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { PCAPNG_OPTION, type PcapngOption } from "@binstruct/pcap";
+ *
+ * const options: PcapngOption[] = [
+ *   { code: PCAPNG_OPTION.IF_NAME, value: new TextEncoder().encode("eth0") },
+ * ];
+ * const name = options.find((option) => option.code === PCAPNG_OPTION.IF_NAME);
+ *
+ * assertEquals(new TextDecoder().decode(name?.value), "eth0");
+ * ```
+ */
+export const PCAPNG_OPTION = {
+  /** Ends an option list. Written by the coders, never decoded into one. */
+  END_OF_OPT: 0,
+  /** Any block: a UTF-8 comment. */
+  COMMENT: 1,
+  /** Any block: custom UTF-8 option, copied by rewriters. */
+  CUSTOM_UTF8: 2988,
+  /** Any block: custom binary option, copied by rewriters. */
+  CUSTOM_BINARY: 2989,
+  /** Any block: custom UTF-8 option, not copied by rewriters. */
+  CUSTOM_UTF8_NO_COPY: 19372,
+  /** Any block: custom binary option, not copied by rewriters. */
+  CUSTOM_BINARY_NO_COPY: 19373,
+  /** Section Header Block: the hardware the capture was made on. */
+  SHB_HARDWARE: 2,
+  /** Section Header Block: the operating system the capture was made on. */
+  SHB_OS: 3,
+  /** Section Header Block: the application that made the capture. */
+  SHB_USERAPPL: 4,
+  /** Interface Description Block: the interface's name, e.g. `eth0`. */
+  IF_NAME: 2,
+  /** Interface Description Block: a description of the interface. */
+  IF_DESCRIPTION: 3,
+  /** Interface Description Block: the timestamp resolution, one byte. */
+  IF_TSRESOL: 9,
+  /** Interface Description Block: the capture filter. */
+  IF_FILTER: 11,
+  /** Interface Description Block: the operating system of the capture host. */
+  IF_OS: 12,
+  /** Interface Description Block: the length of the frame check sequence. */
+  IF_FCSLEN: 13,
+  /** Enhanced Packet Block: direction, reception type and error flags. */
+  EPB_FLAGS: 2,
+  /** Enhanced Packet Block: a hash of the packet. */
+  EPB_HASH: 3,
+  /** Enhanced Packet Block: packets dropped since the previous packet. */
+  EPB_DROPCOUNT: 4,
+  /** Interface Statistics Block: when the capture started. */
+  ISB_STARTTIME: 2,
+  /** Interface Statistics Block: when the capture ended. */
+  ISB_ENDTIME: 3,
+  /** Interface Statistics Block: packets received by the interface. */
+  ISB_IFRECV: 4,
+  /** Interface Statistics Block: packets dropped by the interface. */
+  ISB_IFDROP: 5,
+} as const;
+
+/**
+ * Record types of a Name Resolution Block.
+ *
+ * IPv4 and IPv6 records are decoded into an address and its names; other
+ * types keep their value as raw bytes.
+ */
+export const PCAPNG_NAME_RECORD = {
+  /** An IPv4 address and the names it resolves to. */
+  IPV4: 1,
+  /** An IPv6 address and the names it resolves to. */
+  IPV6: 2,
+  /** A 6-byte MAC address and its name. */
+  EUI48: 3,
+  /** An 8-byte EUI-64 address and its name. */
+  EUI64: 4,
+} as const;
+
+/**
+ * One option TLV of a block.
+ *
+ * `value` holds exactly `length` bytes; the padding to 32 bits is dropped on
+ * decode and written as zeros on encode.
+ */
+export interface PcapngOption {
+  /** Option code, scoped to the block type (see {@link PCAPNG_OPTION}). */
+  code: number;
+  /** Option value, without padding. */
+  value: Uint8Array;
+}
+
+/**
+ * Section Header Block: opens a section.
+ *
+ * `endianness` is read from the byte-order magic and applies to every block
+ * of the section. Encoding writes the section in it.
+ */
+export interface PcapngSectionHeaderBlock {
+  /** Discriminant. */
+  type: "SHB";
+  /** Byte order of this block and every block up to the next section. */
+  endianness: PcapEndianness;
+  /** Major version of the format (currently 1). */
+  versionMajor: number;
+  /** Minor version of the format (currently 0). */
+  versionMinor: number;
+  /** Length of the section in bytes after this block, or -1 when unknown. */
+  sectionLength: bigint;
+  /** Options: hardware, OS, application and comments. */
+  options: PcapngOption[];
+}
+
+/**
+ * Interface Description Block: describes a capture interface.
+ *
+ * The interfaces of a section are numbered from 0 in the order their blocks
+ * appear, and packets refer to them by that number.
+ */
+export interface PcapngInterfaceDescriptionBlock {
+  /** Discriminant. */
+  type: "IDB";
+  /** Link-layer type of the interface's packets (see {@link LINKTYPE}). */
+  linkType: number;
+  /** Maximum captured length per packet, in bytes; 0 for no limit. */
+  snapLen: number;
+  /** Options: name, description, `if_tsresol` and more. */
+  options: PcapngOption[];
+}
+
+/**
+ * Enhanced Packet Block: a captured packet.
+ *
+ * The captured length is the length of `data`.
+ */
+export interface PcapngEnhancedPacketBlock {
+  /** Discriminant. */
+  type: "EPB";
+  /** Index of the section's interface the packet was captured on. */
+  interfaceId: number;
+  /**
+   * Time of capture since the Unix epoch, in units of the interface's
+   * resolution (see {@link pcapngTimestampResolution}).
+   */
+  timestamp: bigint;
+  /** Original packet length on the wire (may exceed `data.length`). */
+  originalLen: number;
+  /** Captured packet payload. */
+  data: Uint8Array;
+  /** Options: flags, hash, drop count and comments. */
+  options: PcapngOption[];
+}
+
+/**
+ * Simple Packet Block: a packet captured on the section's first interface,
+ * with no timestamp or options.
+ *
+ * The block does not store the captured length. It is the original length,
+ * cut to the interface's snap length and to the block.
+ */
+export interface PcapngSimplePacketBlock {
+  /** Discriminant. */
+  type: "SPB";
+  /** Original packet length on the wire (may exceed `data.length`). */
+  originalLen: number;
+  /** Captured packet payload. */
+  data: Uint8Array;
+}
+
+/**
+ * An IPv4 or IPv6 record of a Name Resolution Block.
+ */
+export interface PcapngNameRecordAddress {
+  /** {@link PCAPNG_NAME_RECORD.IPV4} or {@link PCAPNG_NAME_RECORD.IPV6}. */
+  type: 1 | 2;
+  /** The address: 4 bytes for IPv4, 16 for IPv6. */
+  address: Uint8Array;
+  /** The names it resolves to, at least one. */
+  names: string[];
+}
+
+/**
+ * A record of a Name Resolution Block kept as raw bytes.
+ */
+export interface PcapngNameRecordRaw {
+  /** Record type (see {@link PCAPNG_NAME_RECORD}). */
+  type: number;
+  /** Record value, without padding. */
+  value: Uint8Array;
+}
+
+/** A record of a Name Resolution Block. */
+export type PcapngNameRecord = PcapngNameRecordAddress | PcapngNameRecordRaw;
+
+/**
+ * Name Resolution Block: addresses seen in the capture and their names.
+ */
+export interface PcapngNameResolutionBlock {
+  /** Discriminant. */
+  type: "NRB";
+  /** The records, without the end-of-records marker. */
+  records: PcapngNameRecord[];
+  /** Options: DNS server name and addresses, and comments. */
+  options: PcapngOption[];
+}
+
+/**
+ * Interface Statistics Block: counters for one interface.
+ */
+export interface PcapngInterfaceStatisticsBlock {
+  /** Discriminant. */
+  type: "ISB";
+  /** Index of the section's interface the statistics are for. */
+  interfaceId: number;
+  /** When the statistics were taken, in units of the interface's resolution. */
+  timestamp: bigint;
+  /** Options: start and end time, packets received and dropped. */
+  options: PcapngOption[];
+}
+
+/**
+ * Custom Block: data defined by the organisation that owns `pen`.
+ *
+ * Custom blocks may carry options after their data, but where the data ends
+ * is only known to their owner, so `data` holds the rest of the block.
+ */
+export interface PcapngCustomBlock {
+  /** Discriminant. */
+  type: "CB";
+  /** Whether rewriters may copy the block: {@link PCAPNG_BLOCK_TYPE.CUSTOM}. */
+  copy: boolean;
+  /** IANA Private Enterprise Number of the block's owner. */
+  pen: number;
+  /** The rest of the block. */
+  data: Uint8Array;
+}
+
+/**
+ * A block of a type this module does not decode, kept as raw bytes.
+ */
+export interface PcapngUnknownBlock {
+  /** Discriminant. */
+  type: "unknown";
+  /** The block type value. */
+  blockType: number;
+  /** The block body, between the total length and its trailing copy. */
+  body: Uint8Array;
+}
+
+/** Any pcapng block. */
+export type PcapngBlock =
+  | PcapngSectionHeaderBlock
+  | PcapngInterfaceDescriptionBlock
+  | PcapngEnhancedPacketBlock
+  | PcapngSimplePacketBlock
+  | PcapngNameResolutionBlock
+  | PcapngInterfaceStatisticsBlock
+  | PcapngCustomBlock
+  | PcapngUnknownBlock;
+
+/**
+ * Decoded representation of a complete pcapng capture file.
+ */
+export interface PcapngFile {
+  /** Every block in file order, starting with a section header. */
+  blocks: PcapngBlock[];
+}
+
+/**
+ * Timestamp resolution of an interface: one unit is `base ** -exponent`
+ * seconds.
+ */
+export interface PcapngTimestampResolution {
+  /** 10 for decimal resolutions, 2 for binary ones. */
+  base: 2 | 10;
+  /** The negated power of `base`: 6 for microseconds, 9 for nanoseconds. */
+  exponent: number;
+}
+
+/** The smallest block: type, total length and trailing length. */
+const BLOCK_OVERHEAD = 12;
+
+/** Distinguishes the pcapng coders from a plain struct coder. */
+const kKindPcapngBlock = Symbol("pcapngBlock");
+const kKindPcapngFile = Symbol("pcapngFile");
+
+/**
+ * Reads the timestamp resolution of an interface from its `if_tsresol`
+ * option.
+ *
+ * The option is one byte: with the high bit clear the rest is a power of 10,
+ * with it set a power of 2. An interface without the option counts in
+ * microseconds.
+ *
+ * @param idb The interface's description block.
+ * @returns The resolution of the interface's timestamps.
+ *
+ * @example Nanosecond and default resolutions
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import {
+ *   LINKTYPE,
+ *   PCAPNG_OPTION,
+ *   pcapngTimestampResolution,
+ * } from "@binstruct/pcap";
+ *
+ * const nanos = {
+ *   type: "IDB" as const,
+ *   linkType: LINKTYPE.ETHERNET,
+ *   snapLen: 0,
+ *   options: [{ code: PCAPNG_OPTION.IF_TSRESOL, value: new Uint8Array([9]) }],
+ * };
+ *
+ * assertEquals(pcapngTimestampResolution(nanos), { base: 10, exponent: 9 });
+ * assertEquals(
+ *   pcapngTimestampResolution({ ...nanos, options: [] }),
+ *   { base: 10, exponent: 6 },
+ * );
+ * ```
+ */
+export function pcapngTimestampResolution(
+  idb: PcapngInterfaceDescriptionBlock,
+): PcapngTimestampResolution {
+  const option = idb.options.find(({ code }) =>
+    code === PCAPNG_OPTION.IF_TSRESOL
+  );
+  if (option === undefined || option.value.length < 1) {
+    return { base: 10, exponent: 6 };
+  }
+  const byte = option.value[0];
+  return byte & 0x80
+    ? { base: 2, exponent: byte & 0x7f }
+    : { base: 10, exponent: byte };
+}
+
+/**
+ * Creates a coder for a single pcapng block.
+ *
+ * A block does not say which byte order it is in — only its section header
+ * does — so the coder is fixed to one, except for section headers, which are
+ * always read and written in their own `endianness`. {@link pcapngFile}
+ * follows the sections for you.
+ *
+ * A Simple Packet Block decoded on its own is cut to its original length and
+ * the block, but not to the interface's snap length, which this coder cannot
+ * see.
+ *
+ * @param endianness Byte order of the section the block belongs to. Defaults
+ *   to {@link PCAP_DEFAULT_ENDIANNESS}.
+ * @returns A coder that encodes/decodes a {@link PcapngBlock}.
+ *
+ * @example Round-trip an Enhanced Packet Block
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { pcapngBlock, type PcapngBlock } from "@binstruct/pcap";
+ *
+ * const coder = pcapngBlock("le");
+ * const block: PcapngBlock = {
+ *   type: "EPB",
+ *   interfaceId: 0,
+ *   timestamp: 1_700_000_000_250_000n,
+ *   originalLen: 60,
+ *   data: new Uint8Array([0xde, 0xad, 0xbe]),
+ *   options: [],
+ * };
+ *
+ * const buffer = new Uint8Array(64);
+ * const written = coder.encode(block, buffer);
+ * const [decoded, read] = coder.decode(buffer.subarray(0, written));
+ *
+ * // 12 bytes of framing, 20 of fixed fields, 3 of data padded to 4
+ * assertEquals(written, 36);
+ * assertEquals(read, written);
+ * assertEquals(decoded, block);
+ * ```
+ */
+export function pcapngBlock(
+  endianness: PcapEndianness = PCAP_DEFAULT_ENDIANNESS,
+): Coder<PcapngBlock> {
+  let self: Coder<PcapngBlock>;
+  return self = {
+    [kCoderKind]: kKindPcapngBlock,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      const bytesWritten = writeBlock(
+        encodeBlock(decoded, endianness),
+        target,
+      );
+      refSetValue(ctx, self, decoded);
+      return bytesWritten;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const [decoded, bytesRead] = decodeBlock(encoded, endianness, 0);
+      refSetValue(ctx, self, decoded);
+      return [decoded, bytesRead];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const bytes = encodeBlock(decoded, endianness).length;
+      refSetValue(ctx, self, decoded);
+      return bytes;
+    },
+  };
+}
+
+/**
+ * Creates a coder for a complete pcapng capture file.
+ *
+ * Blocks are decoded until fewer than 12 bytes (the smallest block) remain.
+ * Each section is decoded in the byte order its header declares, and Simple
+ * Packet Blocks are cut to the snap length of the section's first interface.
+ * Encoding writes each section in its header's `endianness`; blocks before
+ * the first section header are written in {@link PCAP_DEFAULT_ENDIANNESS}.
+ *
+ * Lengths and padding are derived from the values on encode, and an option
+ * list that is not empty is ended with `opt_endofopt`, so a file written by
+ * a conforming tool encodes back to the same bytes.
+ *
+ * @returns A coder for a {@link PcapngFile}.
+ * @throws {RangeError} On decode, if the buffer ends in the middle of a block.
+ * @throws {Error} On decode, if a block's lengths disagree or a section header
+ *   has no valid byte-order magic.
+ *
+ * @example Round-trip a capture with one interface and one packet
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { LINKTYPE, pcapngFile, type PcapngFile } from "@binstruct/pcap";
+ *
+ * const coder = pcapngFile();
+ * const capture: PcapngFile = {
+ *   blocks: [
+ *     {
+ *       type: "SHB",
+ *       endianness: "be",
+ *       versionMajor: 1,
+ *       versionMinor: 0,
+ *       sectionLength: -1n,
+ *       options: [],
+ *     },
+ *     {
+ *       type: "IDB",
+ *       linkType: LINKTYPE.ETHERNET,
+ *       snapLen: 65535,
+ *       options: [],
+ *     },
+ *     {
+ *       type: "EPB",
+ *       interfaceId: 0,
+ *       timestamp: 1_700_000_000_000_000n,
+ *       originalLen: 4,
+ *       data: new Uint8Array([1, 2, 3, 4]),
+ *       options: [],
+ *     },
+ *   ],
+ * };
+ *
+ * const buffer = new Uint8Array(128);
+ * const written = coder.encode(capture, buffer);
+ * const [decoded, read] = coder.decode(buffer.subarray(0, written));
+ *
+ * assertEquals(read, written);
+ * assertEquals(decoded, capture);
+ * // A big-endian section: the byte-order magic as written
+ * assertEquals(buffer.subarray(8, 12), new Uint8Array([0x1a, 0x2b, 0x3c, 0x4d]));
+ * ```
+ */
+export function pcapngFile(): Coder<PcapngFile> {
+  const encodeBlocks = (blocks: readonly PcapngBlock[]): Uint8Array[] => {
+    let order = PCAP_DEFAULT_ENDIANNESS;
+    return blocks.map((block) => {
+      if (block.type === "SHB") {
+        order = block.endianness;
+      }
+      return encodeBlock(block, order);
+    });
+  };
+
+  let self: Coder<PcapngFile>;
+  return self = {
+    [kCoderKind]: kKindPcapngFile,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      let bytesWritten = 0;
+      for (const bytes of encodeBlocks(decoded.blocks)) {
+        bytesWritten += writeBlock(bytes, target.subarray(bytesWritten));
+      }
+      refSetValue(ctx, self, decoded);
+      return bytesWritten;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const blocks: PcapngBlock[] = [];
+      let order = PCAP_DEFAULT_ENDIANNESS;
+      // The snap length Simple Packet Blocks are cut to
+      let firstSnapLen: number | undefined;
+      let bytesRead = 0;
+      while (encoded.length - bytesRead >= BLOCK_OVERHEAD) {
+        const [block, blockLength] = decodeBlock(
+          encoded.subarray(bytesRead),
+          order,
+          firstSnapLen ?? 0,
+        );
+        if (block.type === "SHB") {
+          order = block.endianness;
+          firstSnapLen = undefined;
+        } else if (block.type === "IDB") {
+          firstSnapLen ??= block.snapLen;
+        }
+        blocks.push(block);
+        bytesRead += blockLength;
+      }
+      const decoded = { blocks };
+      refSetValue(ctx, self, decoded);
+      return [decoded, bytesRead];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const bytes = encodeBlocks(decoded.blocks)
+        .reduce((sum, block) => sum + block.length, 0);
+      refSetValue(ctx, self, decoded);
+      return bytes;
+    },
+  };
+}
+
+/** Bytes of zero padding after `length` bytes to reach a 32-bit boundary. */
+function padding(length: number): number {
+  return (4 - length % 4) % 4;
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function writeBlock(bytes: Uint8Array, target: Uint8Array): number {
+  if (target.length < bytes.length) {
+    throw new RangeError(`Need ${bytes.length} bytes, got ${target.length}`);
+  }
+  target.set(bytes);
+  return bytes.length;
+}
+
+/**
+ * Reads the fields of a block body in order, checking each one fits.
+ */
+function bodyReader(body: Uint8Array, littleEndian: boolean, what: string) {
+  const view = dataView(body);
+  let offset = 0;
+  const need = (length: number) => {
+    if (offset + length > body.length) {
+      throw new Error(
+        `Invalid ${what}: needs ${
+          offset + length
+        } bytes of body, has ${body.length}. Must fit in the block.`,
+      );
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  return {
+    remaining: () => body.length - offset,
+    u16: () => view.getUint16(need(2), littleEndian),
+    u32: () => view.getUint32(need(4), littleEndian),
+    s64: () => view.getBigInt64(need(8), littleEndian),
+    // High 32 bits first, each half in the section's byte order
+    timestamp: () => {
+      const high = view.getUint32(need(4), littleEndian);
+      const low = view.getUint32(need(4), littleEndian);
+      return (BigInt(high) << 32n) | BigInt(low);
+    },
+    bytes: (length: number) => {
+      const start = need(length);
+      need(Math.min(padding(length), body.length - offset));
+      return body.subarray(start, start + length);
+    },
+    rest: () => body.subarray(need(body.length - offset)),
+    options: () => {
+      const options: PcapngOption[] = [];
+      while (body.length - offset >= 4) {
+        const code = view.getUint16(need(2), littleEndian);
+        const length = view.getUint16(need(2), littleEndian);
+        if (code === PCAPNG_OPTION.END_OF_OPT) {
+          break;
+        }
+        if (offset + length > body.length) {
+          throw new Error(
+            `Invalid option ${code} in ${what}: ${length} bytes run past the end of the block. Must fit in the block.`,
+          );
+        }
+        const start = need(length);
+        need(Math.min(padding(length), body.length - offset));
+        options.push({ code, value: body.subarray(start, start + length) });
+      }
+      // Whatever follows the end of the options is padding
+      offset = body.length;
+      return options;
+    },
+  };
+}
+
+/**
+ * Builds a block body field by field, padding variable-length fields.
+ */
+function bodyWriter(littleEndian: boolean) {
+  const parts: Uint8Array[] = [];
+  const number = (size: number, set: (view: DataView) => void) => {
+    const part = new Uint8Array(size);
+    set(dataView(part));
+    parts.push(part);
+  };
+
+  const writer = {
+    u16: (value: number) =>
+      number(2, (v) => v.setUint16(0, value, littleEndian)),
+    u32: (value: number) =>
+      number(4, (v) => v.setUint32(0, value, littleEndian)),
+    s64: (value: bigint) =>
+      number(8, (v) => v.setBigInt64(0, value, littleEndian)),
+    timestamp: (value: bigint) => {
+      writer.u32(Number(BigInt.asUintN(32, value >> 32n)));
+      writer.u32(Number(BigInt.asUintN(32, value)));
+    },
+    bytes: (value: Uint8Array) => {
+      parts.push(value, new Uint8Array(padding(value.length)));
+    },
+    options: (options: readonly PcapngOption[]) => {
+      if (options.length === 0) {
+        return;
+      }
+      for (const { code, value } of options) {
+        writer.u16(code);
+        writer.u16(value.length);
+        writer.bytes(value);
+      }
+      writer.u16(PCAPNG_OPTION.END_OF_OPT);
+      writer.u16(0);
+    },
+    finish: (): Uint8Array => {
+      const body = new Uint8Array(
+        parts.reduce((sum, part) => sum + part.length, 0),
+      );
+      let offset = 0;
+      for (const part of parts) {
+        body.set(part, offset);
+        offset += part.length;
+      }
+      return body;
+    },
+  };
+  return writer;
+}
+
+function decodeNameRecords(
+  reader: ReturnType<typeof bodyReader>,
+): PcapngNameRecord[] {
+  const records: PcapngNameRecord[] = [];
+  while (true) {
+    const type = reader.u16();
+    const length = reader.u16();
+    if (type === 0) {
+      return records;
+    }
+    const value = reader.bytes(length);
+    const addressLength = type === PCAPNG_NAME_RECORD.IPV4
+      ? 4
+      : type === PCAPNG_NAME_RECORD.IPV6
+      ? 16
+      : undefined;
+
+    // An address followed by NUL-terminated names; anything else stays raw
+    const names = addressLength === undefined || length <= addressLength ||
+        value[length - 1] !== 0
+      ? undefined
+      : new TextDecoder().decode(value.subarray(addressLength, length - 1))
+        .split("\0");
+    records.push(
+      names === undefined ? { type, value } : {
+        type: type as 1 | 2,
+        address: value.subarray(0, addressLength),
+        names,
+      },
+    );
+  }
+}
+
+function decodeBody(
+  blockType: number,
+  body: Uint8Array,
+  littleEndian: boolean,
+  snapLen: number,
+): PcapngBlock {
+  switch (blockType) {
+    case PCAPNG_BLOCK_TYPE.INTERFACE_DESCRIPTION: {
+      const reader = bodyReader(
+        body,
+        littleEndian,
+        "Interface Description Block",
+      );
+      const linkType = reader.u16();
+      reader.u16(); // reserved
+      const snapLen = reader.u32();
+      return { type: "IDB", linkType, snapLen, options: reader.options() };
+    }
+    case PCAPNG_BLOCK_TYPE.ENHANCED_PACKET: {
+      const reader = bodyReader(body, littleEndian, "Enhanced Packet Block");
+      const interfaceId = reader.u32();
+      const timestamp = reader.timestamp();
+      const capturedLen = reader.u32();
+      const originalLen = reader.u32();
+      const data = reader.bytes(capturedLen);
+      return {
+        type: "EPB",
+        interfaceId,
+        timestamp,
+        originalLen,
+        data,
+        options: reader.options(),
+      };
+    }
+    case PCAPNG_BLOCK_TYPE.SIMPLE_PACKET: {
+      const reader = bodyReader(body, littleEndian, "Simple Packet Block");
+      const originalLen = reader.u32();
+      const capturedLen = Math.min(
+        originalLen,
+        snapLen === 0 ? Infinity : snapLen,
+        reader.remaining(),
+      );
+      return { type: "SPB", originalLen, data: reader.bytes(capturedLen) };
+    }
+    case PCAPNG_BLOCK_TYPE.NAME_RESOLUTION: {
+      const reader = bodyReader(body, littleEndian, "Name Resolution Block");
+      const records = decodeNameRecords(reader);
+      return { type: "NRB", records, options: reader.options() };
+    }
+    case PCAPNG_BLOCK_TYPE.INTERFACE_STATISTICS: {
+      const reader = bodyReader(
+        body,
+        littleEndian,
+        "Interface Statistics Block",
+      );
+      const interfaceId = reader.u32();
+      const timestamp = reader.timestamp();
+      return {
+        type: "ISB",
+        interfaceId,
+        timestamp,
+        options: reader.options(),
+      };
+    }
+    case PCAPNG_BLOCK_TYPE.CUSTOM:
+    case PCAPNG_BLOCK_TYPE.CUSTOM_NO_COPY: {
+      const reader = bodyReader(body, littleEndian, "Custom Block");
+      const pen = reader.u32();
+      return {
+        type: "CB",
+        copy: blockType === PCAPNG_BLOCK_TYPE.CUSTOM,
+        pen,
+        data: reader.rest(),
+      };
+    }
+  }
+  return { type: "unknown", blockType, body };
+}
+
+/**
+ * Decodes one block at the start of `encoded`.
+ *
+ * @param order Byte order of the current section; a section header brings its
+ *   own.
+ * @param snapLen Snap length of the section's first interface, 0 for none.
+ */
+function decodeBlock(
+  encoded: Uint8Array,
+  order: PcapEndianness,
+  snapLen: number,
+): [PcapngBlock, number] {
+  if (encoded.length < BLOCK_OVERHEAD) {
+    throw new RangeError(
+      `Need ${BLOCK_OVERHEAD} bytes, got ${encoded.length}`,
+    );
+  }
+  const view = dataView(encoded);
+
+  // The section header's type reads the same in both byte orders, and the
+  // magic after its length says which one the section uses
+  let littleEndian = order === "le";
+  const isSection = view.getUint32(0) === PCAPNG_BLOCK_TYPE.SECTION_HEADER;
+  if (isSection) {
+    const magic = view.getUint32(8);
+    if (magic === PCAPNG_BYTE_ORDER_MAGIC) {
+      littleEndian = false;
+    } else if (view.getUint32(8, true) === PCAPNG_BYTE_ORDER_MAGIC) {
+      littleEndian = true;
+    } else {
+      throw new Error(
+        `Invalid pcapng byte-order magic: 0x${
+          magic.toString(16).padStart(8, "0")
+        }. Must be 0x1a2b3c4d in either byte order.`,
+      );
+    }
+  }
+
+  const blockType = view.getUint32(0, littleEndian);
+  const totalLength = view.getUint32(4, littleEndian);
+  if (totalLength < BLOCK_OVERHEAD || totalLength % 4 !== 0) {
+    throw new Error(
+      `Invalid pcapng block length: ${totalLength}. Must be a multiple of 4 and at least ${BLOCK_OVERHEAD}.`,
+    );
+  }
+  if (encoded.length < totalLength) {
+    throw new RangeError(`Need ${totalLength} bytes, got ${encoded.length}`);
+  }
+  const trailingLength = view.getUint32(totalLength - 4, littleEndian);
+  if (trailingLength !== totalLength) {
+    throw new Error(
+      `Invalid pcapng block length: ${trailingLength} at the end of a block of ${totalLength}. Must repeat the length at its start.`,
+    );
+  }
+
+  const body = encoded.subarray(8, totalLength - 4);
+  if (!isSection) {
+    return [decodeBody(blockType, body, littleEndian, snapLen), totalLength];
+  }
+
+  const reader = bodyReader(body, littleEndian, "Section Header Block");
+  reader.u32(); // byte-order magic, checked above
+  const versionMajor = reader.u16();
+  const versionMinor = reader.u16();
+  const sectionLength = reader.s64();
+  return [{
+    type: "SHB",
+    endianness: littleEndian ? "le" : "be",
+    versionMajor,
+    versionMinor,
+    sectionLength,
+    options: reader.options(),
+  }, totalLength];
+}
+
+/**
+ * Encodes one block, with its framing, in the section's byte order; a section
+ * header is encoded in its own.
+ */
+function encodeBlock(block: PcapngBlock, order: PcapEndianness): Uint8Array {
+  const littleEndian = (block.type === "SHB" ? block.endianness : order) ===
+    "le";
+  const body = bodyWriter(littleEndian);
+  let blockType: number;
+
+  switch (block.type) {
+    case "SHB":
+      blockType = PCAPNG_BLOCK_TYPE.SECTION_HEADER;
+      body.u32(PCAPNG_BYTE_ORDER_MAGIC);
+      body.u16(block.versionMajor);
+      body.u16(block.versionMinor);
+      body.s64(block.sectionLength);
+      body.options(block.options);
+      break;
+    case "IDB":
+      blockType = PCAPNG_BLOCK_TYPE.INTERFACE_DESCRIPTION;
+      body.u16(block.linkType);
+      body.u16(0);
+      body.u32(block.snapLen);
+      body.options(block.options);
+      break;
+    case "EPB":
+      blockType = PCAPNG_BLOCK_TYPE.ENHANCED_PACKET;
+      body.u32(block.interfaceId);
+      body.timestamp(block.timestamp);
+      body.u32(block.data.length);
+      body.u32(block.originalLen);
+      body.bytes(block.data);
+      body.options(block.options);
+      break;
+    case "SPB":
+      blockType = PCAPNG_BLOCK_TYPE.SIMPLE_PACKET;
+      body.u32(block.originalLen);
+      body.bytes(block.data);
+      break;
+    case "NRB":
+      blockType = PCAPNG_BLOCK_TYPE.NAME_RESOLUTION;
+      for (const record of block.records) {
+        const value = "names" in record
+          ? Uint8Array.from([
+            ...record.address,
+            ...new TextEncoder().encode(
+              record.names.map((name) => `${name}\0`).join(""),
+            ),
+          ])
+          : record.value;
+        body.u16(record.type);
+        body.u16(value.length);
+        body.bytes(value);
+      }
+      body.u16(0); // nrb_record_end
+      body.u16(0);
+      body.options(block.options);
+      break;
+    case "ISB":
+      blockType = PCAPNG_BLOCK_TYPE.INTERFACE_STATISTICS;
+      body.u32(block.interfaceId);
+      body.timestamp(block.timestamp);
+      body.options(block.options);
+      break;
+    case "CB":
+      blockType = block.copy
+        ? PCAPNG_BLOCK_TYPE.CUSTOM
+        : PCAPNG_BLOCK_TYPE.CUSTOM_NO_COPY;
+      body.u32(block.pen);
+      body.bytes(block.data);
+      break;
+    case "unknown":
+      blockType = block.blockType;
+      body.bytes(block.body);
+      break;
+  }
+
+  const bytes = body.finish();
+  const totalLength = bytes.length + BLOCK_OVERHEAD;
+  const framed = new Uint8Array(totalLength);
+  const view = dataView(framed);
+  view.setUint32(0, blockType, littleEndian);
+  view.setUint32(4, totalLength, littleEndian);
+  framed.set(bytes, 8);
+  view.setUint32(totalLength - 4, totalLength, littleEndian);
+  return framed;
+}
@@ -0,0 +1,226 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  detectPcapMagic,
+  LINKTYPE,
+  PCAP_MAGIC_MICROS,
+  pcapFile,
+  type PcapGlobalHeader,
+  type PcapRecord,
+} from "./mod.ts";
+import {
+  createPcapDecodeStream,
+  createPcapEncodeStream,
+  type PcapInetRecord,
+} from "./stream.ts";
+
+function sampleHeader(network: number = LINKTYPE.RAW): PcapGlobalHeader {
+  return {
+    magic: PCAP_MAGIC_MICROS,
+    versionMajor: 2,
+    versionMinor: 4,
+    thisZone: 0,
+    sigFigs: 0,
+    snapLen: 65535,
+    network,
+  };
+}
+
+function sampleRecord(data: Uint8Array, origLen = data.length): PcapRecord {
+  return {
+    tsSec: 1_700_000_000,
+    tsUsec: 1,
+    inclLen: data.length,
+    origLen,
+    data,
+  };
+}
+
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  const chunks = [];
+  for (let start = 0; start < bytes.length; start += size) {
+    chunks.push(bytes.subarray(start, start + size));
+  }
+  return ReadableStream.from(chunks);
+}
+
+async function collect(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readFixture(): Promise<Uint8Array> {
+  return Deno.readFile(new URL("./_fixtures/dns.cap", import.meta.url));
+}
+
+Deno.test("createPcapDecodeStream: reads what pcapFile reads, chunk by chunk", async () => {
+  const fixture = await readFixture();
+  const [file] = pcapFile().decode(fixture);
+
+  const decoder = createPcapDecodeStream();
+  const records = await Array.fromAsync(
+    chunked(fixture, 7).pipeThrough(decoder),
+  );
+
+  assertEquals(await decoder.header, file.header);
+  assertEquals(records, file.records);
+});
+
+Deno.test("createPcapDecodeStream: records do not share the stream's buffer", async () => {
+  const fixture = await readFixture();
+
+  const records = await Array.fromAsync(
+    ReadableStream.from([fixture]).pipeThrough(createPcapDecodeStream()),
+  );
+
+  for (const record of records) {
+    assertEquals(record.data.byteOffset, 0);
+    assertEquals(record.data.buffer.byteLength, record.inclLen);
+  }
+});
+
+Deno.test("createPcapDecodeStream: decodes frames by link type with inet", async () => {
+  const fixture = await readFixture();
+
+  const records = await Array.fromAsync(
+    chunked(fixture, 100).pipeThrough(createPcapDecodeStream({ inet: true })),
+  );
+
+  assertEquals(records.length, 38);
+  const ports = records.map(({ frame }) => {
+    assert(frame !== null && "etherType" in frame);
+    const ip = frame.payload;
+    assert(!(ip instanceof Uint8Array) && "payload" in ip);
+    const udp = ip.payload;
+    assert(!(udp instanceof Uint8Array) && "srcPort" in udp);
+    return Math.min(udp.srcPort, udp.dstPort);
+  });
+  assertEquals(new Set(ports), new Set([53]));
+});
+
+Deno.test("createPcapDecodeStream: frame is null for link types without an inet coder", async () => {
+  const capture = {
+    header: sampleHeader(LINKTYPE.RAW),
+    records: [sampleRecord(new Uint8Array([0x45, 0x00]))],
+  };
+  const buffer = new Uint8Array(64);
+  const written = pcapFile().encode(capture, buffer);
+
+  const records = await Array.fromAsync(
+    ReadableStream.from([buffer.subarray(0, written)])
+      .pipeThrough(createPcapDecodeStream({ inet: true })),
+  );
+
+  assertEquals(records, [{ ...capture.records[0], frame: null }]);
+});
+
+Deno.test("createPcapDecodeStream: errors on input that is not a whole capture", async () => {
+  const capture = {
+    header: sampleHeader(),
+    records: [sampleRecord(new Uint8Array(8))],
+  };
+  const buffer = new Uint8Array(64);
+  const written = pcapFile().encode(capture, buffer);
+
+  const truncated = createPcapDecodeStream();
+  await assertRejects(
+    () =>
+      Array.fromAsync(
+        ReadableStream.from([buffer.subarray(0, written - 1)])
+          .pipeThrough(truncated),
+      ),
+    Error,
+    "Stream ended with 23 bytes of an incomplete record",
+  );
+  assertEquals(await truncated.header, capture.header);
+
+  const headerless = createPcapDecodeStream();
+  await assertRejects(
+    () =>
+      Array.fromAsync(
+        ReadableStream.from([buffer.subarray(0, 10)]).pipeThrough(headerless),
+      ),
+    Error,
+    "Stream ended with 10 bytes, before the 24-byte global header",
+  );
+  await assertRejects(() => headerless.header, Error, "global header");
+
+  const oversized = buffer.slice(0, written);
+  new DataView(oversized.buffer).setUint32(24 + 8, 0xffffffff, true);
+  await assertRejects(
+    () =>
+      Array.fromAsync(
+        ReadableStream.from([oversized]).pipeThrough(createPcapDecodeStream()),
+      ),
+    Error,
+    "Invalid pcap record length: 4294967295",
+  );
+});
+
+Deno.test("createPcapEncodeStream: rewrites the dns.cap fixture byte for byte", async () => {
+  const fixture = await readFixture();
+
+  for (const inet of [false, true]) {
+    const decoder = createPcapDecodeStream({ inet });
+    const rewritten = await collect(
+      chunked(fixture, 1000)
+        .pipeThrough(decoder)
+        .pipeThrough(createPcapEncodeStream(decoder.header, { inet })),
+    );
+
+    assertEquals(rewritten, fixture);
+  }
+});
+
+Deno.test("createPcapEncodeStream: writes the frame in place of data with inet", async () => {
+  const fixture = await readFixture();
+  const srcMac = new Uint8Array([2, 0, 0, 0, 0, 1]);
+
+  const decoder = createPcapDecodeStream({ inet: true });
+  const rewritten = await collect(
+    ReadableStream.from([fixture])
+      .pipeThrough(decoder)
+      .pipeThrough(
+        new TransformStream<PcapInetRecord, PcapInetRecord>({
+          transform(record, controller) {
+            assert(record.frame !== null && "etherType" in record.frame);
+            controller.enqueue({
+              ...record,
+              frame: { ...record.frame, srcMac },
+            });
+          },
+        }),
+      )
+      .pipeThrough(createPcapEncodeStream(decoder.header, { inet: true })),
+  );
+
+  const [before] = pcapFile().decode(fixture);
+  const [after] = pcapFile().decode(rewritten);
+  assertEquals(after.records.length, before.records.length);
+  for (const [i, record] of after.records.entries()) {
+    assertEquals(record.data.subarray(6, 12), srcMac);
+    assertEquals(record.data.subarray(12), before.records[i].data.subarray(12));
+  }
+});
+
+Deno.test("createPcapEncodeStream: takes inclLen from the payload", async () => {
+  const header = sampleHeader();
+  const records = [
+    { ...sampleRecord(new Uint8Array([1, 2, 3])), inclLen: 0 },
+    sampleRecord(new Uint8Array([4]), 1500),
+  ];
+
+  const encoded = await collect(
+    ReadableStream.from(records).pipeThrough(
+      createPcapEncodeStream(Promise.resolve(header), { endianness: "be" }),
+    ),
+  );
+
+  assertEquals(detectPcapMagic(encoded), { endianness: "be", nanos: false });
+  const [decoded] = pcapFile().decode(encoded);
+  assertEquals(decoded.header, header);
+  assertEquals(decoded.records, [
+    sampleRecord(new Uint8Array([1, 2, 3])),
+    sampleRecord(new Uint8Array([4]), 1500),
+  ]);
+});
@@ -0,0 +1,428 @@
+/**
+ * Web Streams for reading and writing pcap captures one record at a time.
+ *
+ * {@link createPcapDecodeStream} turns a stream of byte chunks into a stream
+ * of {@link PcapRecord}s, emitting each record as soon as its bytes have
+ * arrived, and {@link createPcapEncodeStream} writes records back as a
+ * capture. Only the record being read is buffered, so a multi-gigabyte capture
+ * can be filtered or rewritten in constant memory.
+ *
+ * With `inet: true`, each record also carries its payload decoded by
+ * `inetFrame()` or `sllInetFrame()` from `@binstruct/inet`, chosen by the
+ * global header's link type, and the writer encodes that frame back into the
+ * record. This entry point is the only one of the package that depends on
+ * `@binstruct/inet`.
+ *
+ * @example Keep only the frames of one EtherType
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { LINKTYPE, PCAP_MAGIC_MICROS, pcapFile } from "@binstruct/pcap";
+ * import {
+ *   createPcapDecodeStream,
+ *   createPcapEncodeStream,
+ *   type PcapInetRecord,
+ * } from "@binstruct/pcap/stream";
+ *
+ * const frame = (etherType: number) =>
+ *   new Uint8Array([
+ *     ...new Uint8Array(12).fill(0xaa),
+ *     etherType >> 8,
+ *     etherType & 0xff,
+ *     0xde,
+ *     0xad,
+ *   ]);
+ * const record = (data: Uint8Array) => ({
+ *   tsSec: 1_700_000_000,
+ *   tsUsec: 0,
+ *   inclLen: data.length,
+ *   origLen: data.length,
+ *   data,
+ * });
+ * const capture = {
+ *   header: {
+ *     magic: PCAP_MAGIC_MICROS,
+ *     versionMajor: 2,
+ *     versionMinor: 4,
+ *     thisZone: 0,
+ *     sigFigs: 0,
+ *     snapLen: 65535,
+ *     network: LINKTYPE.ETHERNET,
+ *   },
+ *   records: [record(frame(0x88b5)), record(frame(0x88b6))],
+ * };
+ * const buffer = new Uint8Array(128);
+ * const written = pcapFile().encode(capture, buffer);
+ *
+ * const decoder = createPcapDecodeStream({ inet: true });
+ * const chunks = ReadableStream.from([buffer.subarray(0, written)])
+ *   .pipeThrough(decoder)
+ *   .pipeThrough(
+ *     new TransformStream<PcapInetRecord, PcapInetRecord>({
+ *       transform(record, controller) {
+ *         if (record.frame !== null && "etherType" in record.frame &&
+ *           record.frame.etherType === 0x88b5) {
+ *           controller.enqueue(record);
+ *         }
+ *       },
+ *     }),
+ *   )
+ *   .pipeThrough(createPcapEncodeStream(decoder.header, { inet: true }));
+ *
+ * const filtered = new Uint8Array(await new Response(chunks).arrayBuffer());
+ * const [decoded] = pcapFile().decode(filtered);
+ *
+ * assertEquals(decoded.records, [capture.records[0]]);
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, encode } from "@hertzg/binstruct";
+import {
+  type FrameRefined,
+  inetFrame,
+  type SllFrameRefined,
+  sllInetFrame,
+} from "@binstruct/inet";
+import {
+  detectPcapMagic,
+  PCAP_DEFAULT_ENDIANNESS,
+  type PcapEndianness,
+  type PcapGlobalHeader,
+  pcapGlobalHeader,
+} from "./header.ts";
+import { LINKTYPE } from "./linktypes.ts";
+import { type PcapRecord, pcapRecord } from "./record.ts";
+
+/** A record payload decoded by `inetFrame()` or `sllInetFrame()`. */
+export type PcapInetFrame = FrameRefined | SllFrameRefined;
+
+/**
+ * A record with its payload decoded through `@binstruct/inet`.
+ *
+ * The frame is decoded with `inetFrame()` for {@link LINKTYPE.ETHERNET}
+ * captures and `sllInetFrame()` for {@link LINKTYPE.LINUX_SLL} ones.
+ */
+export interface PcapInetRecord extends PcapRecord {
+  /**
+   * The decoded payload, or `null` when the capture's link type has no inet
+   * coder or the payload does not decode, for example because the snap length
+   * cut it short. `data` holds the payload either way.
+   */
+  frame: PcapInetFrame | null;
+}
+
+/** Options for {@link createPcapDecodeStream}. */
+export interface PcapDecodeStreamOptions {
+  /**
+   * Byte order of the capture. When omitted, it is read from the magic, as
+   * `pcapFile()` does.
+   */
+  endianness?: PcapEndianness;
+  /** Whether to decode each record's payload into `frame`. */
+  inet?: boolean;
+}
+
+/** Options for {@link createPcapEncodeStream}. */
+export interface PcapEncodeStreamOptions {
+  /** Byte order to write. Defaults to {@link PCAP_DEFAULT_ENDIANNESS}. */
+  endianness?: PcapEndianness;
+  /**
+   * Whether to encode each record's `frame`, when it has one, as its payload
+   * instead of writing `data`.
+   */
+  inet?: boolean;
+}
+
+/**
+ * A stream from capture bytes to records, with the capture's global header.
+ *
+ * @template T The record type: {@link PcapRecord}, or {@link PcapInetRecord}
+ *   with `inet: true`.
+ */
+export interface PcapDecodeStream<T extends PcapRecord>
+  extends TransformStream<Uint8Array, T> {
+  /**
+   * Resolves with the global header once its 24 bytes have arrived, and
+   * rejects if the stream errors or ends first.
+   */
+  readonly header: Promise<PcapGlobalHeader>;
+}
+
+const GLOBAL_HEADER_SIZE = 24;
+const RECORD_HEADER_SIZE = 16;
+
+/**
+ * libpcap's largest snap length. A record may claim up to this many bytes even
+ * when the header's snap length is smaller, as some writers ignore it.
+ */
+const MAX_SNAPLEN = 262144;
+
+function inetCoderFor(network: number): Coder<PcapInetFrame> | undefined {
+  switch (network) {
+    case LINKTYPE.ETHERNET:
+      return inetFrame() as Coder<PcapInetFrame>;
+    case LINKTYPE.LINUX_SLL:
+      return sllInetFrame() as Coder<PcapInetFrame>;
+  }
+  return undefined;
+}
+
+/**
+ * Creates a TransformStream that decodes a pcap capture into its records.
+ *
+ * The global header is read from the first 24 bytes and published on the
+ * stream's `header` promise. Each record is emitted as soon as it is complete,
+ * with `data` copied out of the stream's buffer, so holding on to a record
+ * keeps only its own bytes alive.
+ *
+ * @param options Byte order and inet decoding. See
+ *   {@link PcapDecodeStreamOptions}.
+ * @returns A {@link PcapDecodeStream} of {@link PcapRecord}s, or of
+ *   {@link PcapInetRecord}s with `inet: true`.
+ * @throws {Error} Through the stream, if the input ends before the global
+ *   header or in the middle of a record, or a record claims more than
+ *   the larger of the snap length and 262144 bytes.
+ *
+ * @example Read the header and the records of a capture split into chunks
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { LINKTYPE, PCAP_MAGIC_NANOS, pcapFile } from "@binstruct/pcap";
+ * import { createPcapDecodeStream } from "@binstruct/pcap/stream";
+ *
+ * const capture = {
+ *   header: {
+ *     magic: PCAP_MAGIC_NANOS,
+ *     versionMajor: 2,
+ *     versionMinor: 4,
+ *     thisZone: 0,
+ *     sigFigs: 0,
+ *     snapLen: 65535,
+ *     network: LINKTYPE.RAW,
+ *   },
+ *   records: [1, 2, 3].map((n) => ({
+ *     tsSec: n,
+ *     tsUsec: 0,
+ *     inclLen: n,
+ *     origLen: n,
+ *     data: new Uint8Array(n).fill(n),
+ *   })),
+ * };
+ * const buffer = new Uint8Array(128);
+ * const written = pcapFile("be").encode(capture, buffer);
+ * const chunks = [0, 10, 30, 50].map((start, i, starts) =>
+ *   buffer.subarray(start, starts[i + 1] ?? written)
+ * );
+ *
+ * const decoder = createPcapDecodeStream();
+ * const records = await Array.fromAsync(
+ *   ReadableStream.from(chunks).pipeThrough(decoder),
+ * );
+ *
+ * assertEquals(await decoder.header, capture.header);
+ * assertEquals(records, capture.records);
+ * ```
+ */
+export function createPcapDecodeStream(
+  options: PcapDecodeStreamOptions & { inet: true },
+): PcapDecodeStream<PcapInetRecord>;
+export function createPcapDecodeStream(
+  options?: PcapDecodeStreamOptions,
+): PcapDecodeStream<PcapRecord>;
+export function createPcapDecodeStream(
+  options: PcapDecodeStreamOptions = {},
+): PcapDecodeStream<PcapRecord> {
+  const header = Promise.withResolvers<PcapGlobalHeader>();
+  // Callers that only want the records need not handle the header's rejection
+  header.promise.catch(() => {});
+
+  let pending: Uint8Array = new Uint8Array(0);
+  let capture: {
+    littleEndian: boolean;
+    record: Coder<PcapRecord>;
+    frame: Coder<PcapInetFrame> | undefined;
+    maxInclLen: number;
+  } | undefined;
+
+  const decodeRecords = (
+    controller: TransformStreamDefaultController<PcapRecord>,
+  ) => {
+    let cursor = 0;
+    if (capture === undefined) {
+      if (pending.length < GLOBAL_HEADER_SIZE) {
+        return;
+      }
+      const order = options.endianness ??
+        detectPcapMagic(pending)?.endianness ?? PCAP_DEFAULT_ENDIANNESS;
+      const [decoded] = pcapGlobalHeader(order).decode(pending);
+      capture = {
+        littleEndian: order === "le",
+        record: pcapRecord(order),
+        frame: options.inet ? inetCoderFor(decoded.network) : undefined,
+        maxInclLen: Math.max(decoded.snapLen, MAX_SNAPLEN),
+      };
+      header.resolve(decoded);
+      cursor = GLOBAL_HEADER_SIZE;
+    }
+
+    const view = new DataView(
+      pending.buffer,
+      pending.byteOffset,
+      pending.byteLength,
+    );
+    while (pending.length - cursor >= RECORD_HEADER_SIZE) {
+      const inclLen = view.getUint32(cursor + 8, capture.littleEndian);
+      if (inclLen > capture.maxInclLen) {
+        throw new Error(
+          `Invalid pcap record length: ${inclLen}. Must be at most ${capture.maxInclLen}, the larger of the snap length and ${MAX_SNAPLEN}.`,
+        );
+      }
+      if (pending.length - cursor < RECORD_HEADER_SIZE + inclLen) {
+        break;
+      }
+
+      const [decoded, bytesRead] = capture.record.decode(
+        pending.subarray(cursor),
+      );
+      const record = { ...decoded, data: decoded.data.slice() };
+      const value: PcapRecord | PcapInetRecord = options.inet
+        ? { ...record, frame: decodeFrame(capture.frame, record.data) }
+        : record;
+      controller.enqueue(value);
+      cursor += bytesRead;
+    }
+
+    // Copy the remainder, so the chunks already read can be collected
+    pending = pending.slice(cursor);
+  };
+
+  const stream = new TransformStream<Uint8Array, PcapRecord>({
+    transform(chunk, controller) {
+      if (pending.length === 0) {
+        pending = chunk;
+      } else {
+        const joined = new Uint8Array(pending.length + chunk.length);
+        joined.set(pending, 0);
+        joined.set(chunk, pending.length);
+        pending = joined;
+      }
+
+      try {
+        decodeRecords(controller);
+      } catch (e) {
+        header.reject(e);
+        throw e;
+      }
+    },
+    flush() {
+      if (capture === undefined) {
+        const error = new Error(
+          `createPcapDecodeStream: Stream ended with ${pending.length} bytes, before the ${GLOBAL_HEADER_SIZE}-byte global header`,
+        );
+        header.reject(error);
+        throw error;
+      }
+      if (pending.length > 0) {
+        throw new Error(
+          `createPcapDecodeStream: Stream ended with ${pending.length} bytes of an incomplete record`,
+        );
+      }
+    },
+  });
+
+  return Object.assign(stream, { header: header.promise });
+}
+
+function decodeFrame(
+  coder: Coder<PcapInetFrame> | undefined,
+  data: Uint8Array,
+): PcapInetFrame | null {
+  if (coder === undefined) {
+    return null;
+  }
+  try {
+    return coder.decode(data)[0];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a TransformStream that encodes records into a pcap capture.
+ *
+ * The global header is written first, once `header` resolves; pass the
+ * `header` of a {@link createPcapDecodeStream} to rewrite a capture in a
+ * single pipeline. Each record becomes its own chunk. `inclLen` is taken from
+ * the payload, so a record whose `data` was changed needs no other update.
+ *
+ * With `inet: true`, a record's `frame`, when it is not `null` and the header's
+ * link type has an inet coder, is encoded as its payload. A record that was not
+ * cut short by the snap length then gets the new payload's length as its
+ * `origLen`; a truncated one keeps its `origLen`.
+ *
+ * @param header The global header to write, or a promise of it.
+ * @param options Byte order and inet encoding. See
+ *   {@link PcapEncodeStreamOptions}.
+ * @returns A TransformStream from records to capture byte chunks.
+ *
+ * @example Write a capture from records
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { LINKTYPE, PCAP_MAGIC_MICROS, pcapFile } from "@binstruct/pcap";
+ * import { createPcapEncodeStream } from "@binstruct/pcap/stream";
+ *
+ * const header = {
+ *   magic: PCAP_MAGIC_MICROS,
+ *   versionMajor: 2,
+ *   versionMinor: 4,
+ *   thisZone: 0,
+ *   sigFigs: 0,
+ *   snapLen: 65535,
+ *   network: LINKTYPE.RAW,
+ * };
+ * const data = new Uint8Array([0x45, 0x00]);
+ *
+ * const chunks = await Array.fromAsync(
+ *   ReadableStream.from([{ tsSec: 1, tsUsec: 2, inclLen: 0, origLen: 2, data }])
+ *     .pipeThrough(createPcapEncodeStream(header)),
+ * );
+ * const [decoded] = pcapFile().decode(new Uint8Array(chunks.flatMap((c) => [...c])));
+ *
+ * assertEquals(chunks.map((chunk) => chunk.length), [24, 18]);
+ * // inclLen follows the payload
+ * assertEquals(decoded.records, [{ tsSec: 1, tsUsec: 2, inclLen: 2, origLen: 2, data }]);
+ * ```
+ */
+export function createPcapEncodeStream(
+  header: PcapGlobalHeader | PromiseLike<PcapGlobalHeader>,
+  options: PcapEncodeStreamOptions = {},
+): TransformStream<PcapRecord | PcapInetRecord, Uint8Array> {
+  const order = options.endianness ?? PCAP_DEFAULT_ENDIANNESS;
+  const record = pcapRecord(order);
+  let frame: Coder<PcapInetFrame> | undefined;
+
+  return new TransformStream({
+    async start(controller) {
+      const resolved = await header;
+      frame = options.inet ? inetCoderFor(resolved.network) : undefined;
+      controller.enqueue(encode(pcapGlobalHeader(order), resolved));
+    },
+    transform(value, controller) {
+      let { data, origLen } = value;
+      if (frame !== undefined && "frame" in value && value.frame !== null) {
+        data = encode(frame, value.frame);
+        if (value.origLen === value.data.length) {
+          origLen = data.length;
+        }
+      }
+
+      controller.enqueue(encode(record, {
+        tsSec: value.tsSec,
+        tsUsec: value.tsUsec,
+        inclLen: data.length,
+        origLen,
+        data,
+      }));
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type ActlChunk, actlChunkRefiner } from "./actl.ts";
+
+Deno.test("actlChunkRefiner() - refines acTL chunk", () => {
+  const refiner = actlChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 8,
+    type: new Uint8Array([97, 99, 84, 76]), // "acTL"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      0, 0, 0, 20, // numFrames: 20
+      0, 0, 0, 0, // numPlays: forever
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "acTL");
+  assertEquals(refined.length, 8);
+  assertEquals(refined.data, { numFrames: 20, numPlays: 0 });
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("actlChunkRefiner() - round-trip acTL chunk", () => {
+  const refiner = actlChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: ActlChunk = {
+    length: 8,
+    type: "acTL",
+    data: { numFrames: 0x01020304, numPlays: 3 },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(original, encodeContext);
+
+  assertEquals(unrefined.type, new Uint8Array([97, 99, 84, 76])); // "acTL"
+  assertEquals(unrefined.data, new Uint8Array([1, 2, 3, 4, 0, 0, 0, 3]));
+  assertEquals(refiner.refine(unrefined, decodeContext), original);
+});
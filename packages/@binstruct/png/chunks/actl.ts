@@ -0,0 +1,91 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u32be,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined acTL (APNG animation control) chunk structure.
+ *
+ * The acTL chunk marks a PNG as animated. It gives the number of frames,
+ * including the default image if it is part of the animation, and how many
+ * times to play them, 0 meaning forever.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { ActlChunk } from "@binstruct/png";
+ *
+ * const actl: ActlChunk = {
+ *   length: 8,
+ *   type: "acTL",
+ *   data: { numFrames: 12, numPlays: 0 },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(actl.data.numPlays, 0); // Loops forever
+ * ```
+ */
+export interface ActlChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "acTL" */
+  type: "acTL";
+  /** Parsed animation control */
+  data: {
+    /** Number of frames in the animation */
+    numFrames: number;
+    /** Number of times to play the animation, 0 for forever */
+    numPlays: number;
+  };
+}
+
+/**
+ * Creates a refiner for acTL (APNG animation control) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link ActlChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { actlChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = actlChunkRefiner().refine({
+ *   length: 8,
+ *   type: new Uint8Array([97, 99, 84, 76]), // "acTL"
+ *   data: new Uint8Array([0, 0, 0, 12, 0, 0, 0, 3]),
+ *   crc: 0x12345678,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data, { numFrames: 12, numPlays: 3 });
+ * ```
+ */
+export function actlChunkRefiner(): Refiner<PngChunkUnknown, ActlChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    numFrames: u32be(),
+    numPlays: u32be(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): ActlChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "acTL",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: ActlChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
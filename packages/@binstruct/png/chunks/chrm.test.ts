@@ -0,0 +1,63 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type ChrmChunk, chrmChunkRefiner } from "./chrm.ts";
+
+const SRGB_PRIMARIES: ChrmChunk["data"] = {
+  whitePointX: 31270,
+  whitePointY: 32900,
+  redX: 64000,
+  redY: 33000,
+  greenX: 30000,
+  greenY: 60000,
+  blueX: 15000,
+  blueY: 6000,
+};
+
+// deno-fmt-ignore
+const SRGB_PRIMARIES_BYTES = new Uint8Array([
+  0x00, 0x00, 0x7a, 0x26, // whitePointX: 31270
+  0x00, 0x00, 0x80, 0x84, // whitePointY: 32900
+  0x00, 0x00, 0xfa, 0x00, // redX: 64000
+  0x00, 0x00, 0x80, 0xe8, // redY: 33000
+  0x00, 0x00, 0x75, 0x30, // greenX: 30000
+  0x00, 0x00, 0xea, 0x60, // greenY: 60000
+  0x00, 0x00, 0x3a, 0x98, // blueX: 15000
+  0x00, 0x00, 0x17, 0x70, // blueY: 6000
+]);
+
+Deno.test("chrmChunkRefiner() - refines cHRM chunk", () => {
+  const refiner = chrmChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 32,
+    type: new Uint8Array([99, 72, 82, 77]), // "cHRM"
+    data: SRGB_PRIMARIES_BYTES,
+    crc: 0x9CBA513C,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "cHRM");
+  assertEquals(refined.length, 32);
+  assertEquals(refined.data, SRGB_PRIMARIES);
+  assertEquals(refined.crc, 0x9CBA513C);
+});
+
+Deno.test("chrmChunkRefiner() - unrefines cHRM chunk", () => {
+  const refiner = chrmChunkRefiner();
+  const context = createContext("encode");
+
+  const unrefined = refiner.unrefine({
+    length: 0,
+    type: "cHRM",
+    data: SRGB_PRIMARIES,
+    crc: 0x9CBA513C,
+  }, context);
+
+  assertEquals(unrefined.type, new Uint8Array([99, 72, 82, 77])); // "cHRM"
+  assertEquals(unrefined.length, 32);
+  assertEquals(unrefined.data, SRGB_PRIMARIES_BYTES);
+  assertEquals(unrefined.crc, 0x9CBA513C);
+});
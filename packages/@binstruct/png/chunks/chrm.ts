@@ -0,0 +1,129 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u32be,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined cHRM (primary chromaticities and white point) chunk structure.
+ *
+ * The cHRM chunk stores the CIE 1931 x,y chromaticities of the display's red,
+ * green and blue primaries and of its white point. Each value is stored as a
+ * 4-byte unsigned integer, times 100000.
+ *
+ * @example sRGB primaries
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { ChrmChunk } from "@binstruct/png";
+ *
+ * const chrm: ChrmChunk = {
+ *   length: 32,
+ *   type: "cHRM",
+ *   data: {
+ *     whitePointX: 31270,
+ *     whitePointY: 32900,
+ *     redX: 64000,
+ *     redY: 33000,
+ *     greenX: 30000,
+ *     greenY: 60000,
+ *     blueX: 15000,
+ *     blueY: 6000,
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(chrm.data.whitePointX / 100000, 0.3127);
+ * ```
+ */
+export interface ChrmChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "cHRM" */
+  type: "cHRM";
+  /** Parsed chromaticities, each times 100000 */
+  data: {
+    /** White point x */
+    whitePointX: number;
+    /** White point y */
+    whitePointY: number;
+    /** Red x */
+    redX: number;
+    /** Red y */
+    redY: number;
+    /** Green x */
+    greenX: number;
+    /** Green y */
+    greenY: number;
+    /** Blue x */
+    blueX: number;
+    /** Blue y */
+    blueY: number;
+  };
+}
+
+/**
+ * Creates a refiner for cHRM (primary chromaticities) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link ChrmChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { chrmChunkRefiner } from "@binstruct/png";
+ *
+ * const refiner = chrmChunkRefiner();
+ * const raw = refiner.unrefine({
+ *   length: 0,
+ *   type: "cHRM",
+ *   data: {
+ *     whitePointX: 31270,
+ *     whitePointY: 32900,
+ *     redX: 64000,
+ *     redY: 33000,
+ *     greenX: 30000,
+ *     greenY: 60000,
+ *     blueX: 15000,
+ *     blueY: 6000,
+ *   },
+ *   crc: 0,
+ * }, createContext("encode"));
+ *
+ * assertEquals(raw.length, 32);
+ * assertEquals(raw.data.subarray(0, 4), new Uint8Array([0, 0, 0x7a, 0x26]));
+ * ```
+ */
+export function chrmChunkRefiner(): Refiner<PngChunkUnknown, ChrmChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    whitePointX: u32be(),
+    whitePointY: u32be(),
+    redX: u32be(),
+    redY: u32be(),
+    greenX: u32be(),
+    greenY: u32be(),
+    blueX: u32be(),
+    blueY: u32be(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): ChrmChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "cHRM",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: ChrmChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
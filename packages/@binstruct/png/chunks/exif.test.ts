@@ -0,0 +1,50 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type ExifChunk, exifChunkRefiner } from "./exif.ts";
+
+// deno-fmt-ignore
+const EXIF = new Uint8Array([
+  0x4d, 0x4d, 0x00, 0x2a, // "MM", 42: big-endian TIFF header
+  0x00, 0x00, 0x00, 0x08, // offset of the first IFD
+  0x00, 0x00, // no entries
+  0x00, 0x00, 0x00, 0x00, // no next IFD
+]);
+
+Deno.test("exifChunkRefiner() - refines eXIf chunk", () => {
+  const refiner = exifChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: EXIF.length,
+    type: new Uint8Array([101, 88, 73, 102]), // "eXIf"
+    data: EXIF,
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "eXIf");
+  assertEquals(refined.length, 14);
+  assertEquals(refined.data.exif, EXIF);
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("exifChunkRefiner() - unrefines eXIf chunk and sets length", () => {
+  const refiner = exifChunkRefiner();
+  const context = createContext("encode");
+
+  const refinedChunk: ExifChunk = {
+    length: 0,
+    type: "eXIf",
+    data: { exif: EXIF },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([101, 88, 73, 102])); // "eXIf"
+  assertEquals(unrefined.length, 14);
+  assertEquals(unrefined.data, EXIF);
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
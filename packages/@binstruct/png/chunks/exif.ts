@@ -0,0 +1,78 @@
+import { decode, encode, type Refiner, string } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined eXIf (Exif metadata) chunk structure.
+ *
+ * The eXIf chunk holds an Exif profile: a TIFF header starting with `II` or
+ * `MM` followed by the image file directories. The refined chunk carries the
+ * profile bytes as they are; parsing them is left to an Exif reader.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { ExifChunk } from "@binstruct/png";
+ *
+ * const exif: ExifChunk = {
+ *   length: 8,
+ *   type: "eXIf",
+ *   data: { exif: new Uint8Array([0x4d, 0x4d, 0, 42, 0, 0, 0, 8]) },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(exif.data.exif[0], 0x4d); // "M", big-endian
+ * ```
+ */
+export interface ExifChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "eXIf" */
+  type: "eXIf";
+  /** Exif profile */
+  data: {
+    /** Exif profile bytes, starting with the TIFF header */
+    exif: Uint8Array;
+  };
+}
+
+/**
+ * Creates a refiner for eXIf (Exif metadata) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link ExifChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { exifChunkRefiner } from "@binstruct/png";
+ *
+ * const exif = new Uint8Array([0x49, 0x49, 42, 0, 8, 0, 0, 0]);
+ * const refined = exifChunkRefiner().refine({
+ *   length: exif.length,
+ *   type: new Uint8Array([101, 88, 73, 102]), // "eXIf"
+ *   data: exif,
+ *   crc: 0x12345678,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.exif, exif);
+ * ```
+ */
+export function exifChunkRefiner(): Refiner<PngChunkUnknown, ExifChunk, []> {
+  const typeCoder = string(4);
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): ExifChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "eXIf",
+        data: { exif: decoded.data },
+      };
+    },
+    unrefine: (refined: ExifChunk, context): PngChunkUnknown => {
+      return {
+        ...refined,
+        length: refined.data.exif.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data: refined.data.exif,
+      };
+    },
+  };
+}
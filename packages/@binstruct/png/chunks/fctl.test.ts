@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type FctlChunk, fctlChunkRefiner } from "./fctl.ts";
+
+// deno-fmt-ignore
+const FCTL_BYTES = new Uint8Array([
+  0, 0, 0, 3, // sequenceNumber: 3
+  0, 0, 1, 0, // width: 256
+  0, 0, 0, 128, // height: 128
+  0, 0, 0, 16, // xOffset: 16
+  0, 0, 0, 32, // yOffset: 32
+  0, 1, // delayNum: 1
+  0, 30, // delayDen: 30
+  2, // disposeOp: previous
+  1, // blendOp: over
+]);
+
+const FCTL_DATA: FctlChunk["data"] = {
+  sequenceNumber: 3,
+  width: 256,
+  height: 128,
+  xOffset: 16,
+  yOffset: 32,
+  delayNum: 1,
+  delayDen: 30,
+  disposeOp: 2,
+  blendOp: 1,
+};
+
+Deno.test("fctlChunkRefiner() - refines fcTL chunk", () => {
+  const refiner = fctlChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 26,
+    type: new Uint8Array([102, 99, 84, 76]), // "fcTL"
+    data: FCTL_BYTES,
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "fcTL");
+  assertEquals(refined.length, 26);
+  assertEquals(refined.data, FCTL_DATA);
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("fctlChunkRefiner() - unrefines fcTL chunk", () => {
+  const refiner = fctlChunkRefiner();
+  const context = createContext("encode");
+
+  const unrefined = refiner.unrefine({
+    length: 0,
+    type: "fcTL",
+    data: FCTL_DATA,
+    crc: 0xAABBCCDD,
+  }, context);
+
+  assertEquals(unrefined.type, new Uint8Array([102, 99, 84, 76])); // "fcTL"
+  assertEquals(unrefined.length, 26);
+  assertEquals(unrefined.data, FCTL_BYTES);
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
@@ -0,0 +1,142 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u16be,
+  u32be,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined fcTL (APNG frame control) chunk structure.
+ *
+ * An fcTL chunk precedes each animation frame. It places the frame's region
+ * on the canvas, sets how long it shows for as the fraction
+ * `delayNum / delayDen` seconds (a denominator of 0 means 1/100), and says
+ * how the region is treated:
+ *
+ * - **disposeOp**: 0 none, 1 clear to transparent black, 2 revert to the
+ *   previous contents
+ * - **blendOp**: 0 source replaces the region, 1 source is blended over it
+ *
+ * `sequenceNumber` orders fcTL and fdAT chunks across the whole animation.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { FctlChunk } from "@binstruct/png";
+ *
+ * const fctl: FctlChunk = {
+ *   length: 26,
+ *   type: "fcTL",
+ *   data: {
+ *     sequenceNumber: 0,
+ *     width: 100,
+ *     height: 100,
+ *     xOffset: 0,
+ *     yOffset: 0,
+ *     delayNum: 1,
+ *     delayDen: 10,
+ *     disposeOp: 0,
+ *     blendOp: 0,
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(fctl.data.delayNum / fctl.data.delayDen, 0.1);
+ * ```
+ */
+export interface FctlChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "fcTL" */
+  type: "fcTL";
+  /** Parsed frame control */
+  data: {
+    /** Position in the sequence of fcTL and fdAT chunks */
+    sequenceNumber: number;
+    /** Frame region width in pixels */
+    width: number;
+    /** Frame region height in pixels */
+    height: number;
+    /** Frame region X position on the canvas */
+    xOffset: number;
+    /** Frame region Y position on the canvas */
+    yOffset: number;
+    /** Frame delay numerator */
+    delayNum: number;
+    /** Frame delay denominator, 0 meaning 100 */
+    delayDen: number;
+    /** Disposal of the region after the frame, 0 to 2 */
+    disposeOp: number;
+    /** Blending of the frame into the region, 0 or 1 */
+    blendOp: number;
+  };
+}
+
+/**
+ * Creates a refiner for fcTL (APNG frame control) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link FctlChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { fctlChunkRefiner } from "@binstruct/png";
+ *
+ * const raw = fctlChunkRefiner().unrefine({
+ *   length: 0,
+ *   type: "fcTL",
+ *   data: {
+ *     sequenceNumber: 1,
+ *     width: 16,
+ *     height: 16,
+ *     xOffset: 8,
+ *     yOffset: 8,
+ *     delayNum: 1,
+ *     delayDen: 2,
+ *     disposeOp: 1,
+ *     blendOp: 1,
+ *   },
+ *   crc: 0,
+ * }, createContext("encode"));
+ *
+ * assertEquals(raw.length, 26);
+ * assertEquals(raw.data.subarray(20), new Uint8Array([0, 1, 0, 2, 1, 1]));
+ * ```
+ */
+export function fctlChunkRefiner(): Refiner<PngChunkUnknown, FctlChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    sequenceNumber: u32be(),
+    width: u32be(),
+    height: u32be(),
+    xOffset: u32be(),
+    yOffset: u32be(),
+    delayNum: u16be(),
+    delayDen: u16be(),
+    disposeOp: u8(),
+    blendOp: u8(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): FctlChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "fcTL",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: FctlChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
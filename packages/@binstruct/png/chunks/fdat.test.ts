@@ -0,0 +1,62 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import { unzlibSync, zlibSync } from "fflate";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type FdatChunk, fdatChunkRefiner } from "./fdat.ts";
+
+Deno.test("fdatChunkRefiner() - refines fdAT chunk", () => {
+  const refiner = fdatChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 7,
+    type: new Uint8Array([102, 100, 65, 84]), // "fdAT"
+    data: new Uint8Array([0, 0, 0, 9, 0x78, 0x9c, 0x63]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "fdAT");
+  assertEquals(refined.length, 7);
+  assertEquals(refined.data.sequenceNumber, 9);
+  assertEquals(refined.data.frameData, new Uint8Array([0x78, 0x9c, 0x63]));
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("fdatChunkRefiner() - frame split across chunks decompresses once joined", () => {
+  const refiner = fdatChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const scanlines = new Uint8Array(64).map((_, i) => i % 7);
+  const stream = zlibSync(scanlines);
+  const split = stream.length >> 1;
+
+  const chunks = [stream.subarray(0, split), stream.subarray(split)].map(
+    (frameData, i): FdatChunk => ({
+      length: 0,
+      type: "fdAT",
+      data: { sequenceNumber: i + 1, frameData },
+      crc: 0,
+    }),
+  );
+  const refined = chunks.map((chunk) =>
+    refiner.refine(refiner.unrefine(chunk, encodeContext), decodeContext)
+  );
+
+  assertEquals(refined.map((chunk) => chunk.length), [
+    4 + split,
+    4 + stream.length - split,
+  ]);
+  assertEquals(refined.map((chunk) => chunk.data.sequenceNumber), [1, 2]);
+  assertEquals(
+    unzlibSync(
+      new Uint8Array([
+        ...refined[0].data.frameData,
+        ...refined[1].data.frameData,
+      ]),
+    ),
+    scanlines,
+  );
+});
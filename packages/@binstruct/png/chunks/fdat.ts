@@ -0,0 +1,97 @@
+import {
+  bytes,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u32be,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined fdAT (APNG frame data) chunk structure.
+ *
+ * An fdAT chunk is an IDAT chunk for an animation frame, prefixed with a
+ * sequence number. Like IDAT, a frame may span several fdAT chunks whose
+ * data forms one zlib stream only once concatenated, so the frame data is
+ * kept compressed.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { FdatChunk } from "@binstruct/png";
+ *
+ * const fdat: FdatChunk = {
+ *   length: 8,
+ *   type: "fdAT",
+ *   data: {
+ *     sequenceNumber: 2,
+ *     frameData: new Uint8Array([0x78, 0x9c, 0x63, 0x00]),
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(fdat.data.sequenceNumber, 2);
+ * ```
+ */
+export interface FdatChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "fdAT" */
+  type: "fdAT";
+  /** Parsed frame data */
+  data: {
+    /** Position in the sequence of fcTL and fdAT chunks */
+    sequenceNumber: number;
+    /** Compressed frame data, as in IDAT */
+    frameData: Uint8Array;
+  };
+}
+
+/**
+ * Creates a refiner for fdAT (APNG frame data) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link FdatChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { fdatChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = fdatChunkRefiner().refine({
+ *   length: 6,
+ *   type: new Uint8Array([102, 100, 65, 84]), // "fdAT"
+ *   data: new Uint8Array([0, 0, 0, 5, 0x78, 0x9c]),
+ *   crc: 0x12345678,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.sequenceNumber, 5);
+ * assertEquals(refined.data.frameData, new Uint8Array([0x78, 0x9c]));
+ * ```
+ */
+export function fdatChunkRefiner(): Refiner<PngChunkUnknown, FdatChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    sequenceNumber: u32be(),
+    frameData: bytes(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): FdatChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "fdAT",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: FdatChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type GamaChunk, gamaChunkRefiner } from "./gama.ts";
+
+Deno.test("gamaChunkRefiner() - refines gAMA chunk", () => {
+  const refiner = gamaChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 4,
+    type: new Uint8Array([103, 65, 77, 65]), // "gAMA"
+    data: new Uint8Array([0x00, 0x00, 0xb1, 0x8f]), // 45455 (1/2.2)
+    crc: 0x0BFC6105,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "gAMA");
+  assertEquals(refined.length, 4);
+  assertEquals(refined.data, { gamma: 45455 });
+  assertEquals(refined.crc, 0x0BFC6105);
+});
+
+Deno.test("gamaChunkRefiner() - unrefines gAMA chunk", () => {
+  const refiner = gamaChunkRefiner();
+  const context = createContext("encode");
+
+  const refinedChunk: GamaChunk = {
+    length: 0,
+    type: "gAMA",
+    data: { gamma: 100000 },
+    crc: 0x12345678,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([103, 65, 77, 65])); // "gAMA"
+  assertEquals(unrefined.length, 4);
+  assertEquals(unrefined.data, new Uint8Array([0x00, 0x01, 0x86, 0xa0]));
+  assertEquals(unrefined.crc, 0x12345678);
+});
+
+Deno.test("gamaChunkRefiner() - round-trip at u32 boundaries", () => {
+  const refiner = gamaChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  for (const gamma of [0, 1, 45455, 0xFFFFFFFF]) {
+    const original: GamaChunk = {
+      length: 4,
+      type: "gAMA",
+      data: { gamma },
+      crc: 0,
+    };
+
+    const refined = refiner.refine(
+      refiner.unrefine(original, encodeContext),
+      decodeContext,
+    );
+
+    assertEquals(refined, original);
+  }
+});
@@ -0,0 +1,85 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u32be,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined gAMA (image gamma) chunk structure.
+ *
+ * The gAMA chunk stores the gamma the image was encoded with, times 100000,
+ * as a 4-byte unsigned integer. A gamma of 1/2.2 is stored as 45455.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { GamaChunk } from "@binstruct/png";
+ *
+ * const gama: GamaChunk = {
+ *   length: 4,
+ *   type: "gAMA",
+ *   data: { gamma: 45455 },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(gama.data.gamma / 100000, 0.45455);
+ * ```
+ */
+export interface GamaChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "gAMA" */
+  type: "gAMA";
+  /** Parsed gamma */
+  data: {
+    /** Image gamma times 100000 */
+    gamma: number;
+  };
+}
+
+/**
+ * Creates a refiner for gAMA (image gamma) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link GamaChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { gamaChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = gamaChunkRefiner().refine({
+ *   length: 4,
+ *   type: new Uint8Array([103, 65, 77, 65]), // "gAMA"
+ *   data: new Uint8Array([0x00, 0x00, 0xb1, 0x8f]),
+ *   crc: 0x0bfc6105,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.gamma, 45455);
+ * ```
+ */
+export function gamaChunkRefiner(): Refiner<PngChunkUnknown, GamaChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({ gamma: u32be() });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): GamaChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "gAMA",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: GamaChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
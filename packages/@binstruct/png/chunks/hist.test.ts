@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type HistChunk, histChunkRefiner } from "./hist.ts";
+
+Deno.test("histChunkRefiner() - refines hIST chunk", () => {
+  const refiner = histChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 6,
+    type: new Uint8Array([104, 73, 83, 84]), // "hIST"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      0xff, 0xff, // entry 0: 65535
+      0x00, 0x00, // entry 1: 0
+      0x01, 0x00, // entry 2: 256
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "hIST");
+  assertEquals(refined.length, 6);
+  assertEquals(refined.data.frequencies, [65535, 0, 256]);
+});
+
+Deno.test("histChunkRefiner() - unrefines hIST chunk and sets length", () => {
+  const refiner = histChunkRefiner();
+  const context = createContext("encode");
+
+  const refinedChunk: HistChunk = {
+    length: 0,
+    type: "hIST",
+    data: { frequencies: [1, 2, 3, 4] },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([104, 73, 83, 84])); // "hIST"
+  assertEquals(unrefined.length, 8);
+  assertEquals(unrefined.data, new Uint8Array([0, 1, 0, 2, 0, 3, 0, 4]));
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
+
+Deno.test("histChunkRefiner() - round-trip with empty histogram", () => {
+  const refiner = histChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: HistChunk = {
+    length: 0,
+    type: "hIST",
+    data: { frequencies: [] },
+    crc: 0,
+  };
+
+  const refined = refiner.refine(
+    refiner.unrefine(original, encodeContext),
+    decodeContext,
+  );
+
+  assertEquals(refined, original);
+});
@@ -0,0 +1,89 @@
+import {
+  array,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  u16be,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined hIST (palette histogram) chunk structure.
+ *
+ * The hIST chunk gives the approximate usage frequency of each PLTE entry, as
+ * one 2-byte unsigned integer per palette entry, in palette order.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { HistChunk } from "@binstruct/png";
+ *
+ * const hist: HistChunk = {
+ *   length: 6,
+ *   type: "hIST",
+ *   data: { frequencies: [1000, 0, 25] },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(hist.data.frequencies.length, 3);
+ * ```
+ */
+export interface HistChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "hIST" */
+  type: "hIST";
+  /** Parsed histogram */
+  data: {
+    /** Usage frequency of each palette entry */
+    frequencies: number[];
+  };
+}
+
+/**
+ * Creates a refiner for hIST (palette histogram) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link HistChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { histChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = histChunkRefiner().refine({
+ *   length: 4,
+ *   type: new Uint8Array([104, 73, 83, 84]), // "hIST"
+ *   data: new Uint8Array([0x03, 0xe8, 0x00, 0x19]),
+ *   crc: 0x12345678,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.frequencies, [1000, 25]);
+ * ```
+ */
+export function histChunkRefiner(): Refiner<PngChunkUnknown, HistChunk, []> {
+  const typeCoder = string(4);
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): HistChunk => {
+      const frequenciesCoder = array(u16be(), decoded.data.length >> 1);
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "hIST",
+        data: {
+          frequencies: decode(frequenciesCoder, decoded.data, context),
+        },
+      };
+    },
+    unrefine: (refined: HistChunk, context): PngChunkUnknown => {
+      const { frequencies } = refined.data;
+      const frequenciesCoder = array(u16be(), frequencies.length);
+      const data = encode(frequenciesCoder, frequencies, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import { zlibSync } from "fflate";
+import type { PngChunkUnknown } from "../mod.ts";
+import { decodeHeader } from "../zlib/header.ts";
+import { type IccpChunk, iccpChunkRefiner } from "./iccp.ts";
+
+// Stand-in for an ICC profile: a size field, "acsp" signature and padding
+const PROFILE = new Uint8Array(132);
+PROFILE.set([0, 0, 0, 132], 0);
+PROFILE.set([97, 99, 115, 112], 36);
+
+Deno.test("iccpChunkRefiner() - refines iCCP chunk", () => {
+  const refiner = iccpChunkRefiner();
+  const context = createContext("decode");
+
+  const compressed = zlibSync(PROFILE);
+  const data = new Uint8Array([
+    ...new TextEncoder().encode("ICC profile"),
+    0, // null separator
+    0, // compression method
+    ...compressed,
+  ]);
+  const unknownChunk: PngChunkUnknown = {
+    length: data.length,
+    type: new Uint8Array([105, 67, 67, 80]), // "iCCP"
+    data,
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "iCCP");
+  assertEquals(refined.length, data.length);
+  assertEquals(refined.data.profileName, "ICC profile");
+  assertEquals(refined.data.compressionMethod, 0);
+  assertEquals(
+    refined.data.zlibHeader,
+    decodeHeader(compressed.subarray(0, 2)),
+  );
+  assertEquals(refined.data.profile, PROFILE);
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("iccpChunkRefiner() - round-trip recompresses the profile", () => {
+  const refiner = iccpChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: IccpChunk = {
+    length: 0,
+    type: "iCCP",
+    data: {
+      profileName: "Display P3",
+      compressionMethod: 0,
+      zlibHeader: decodeHeader([0x78, 0x9c]),
+      profile: PROFILE,
+    },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(original, encodeContext);
+
+  assertEquals(unrefined.type, new Uint8Array([105, 67, 67, 80])); // "iCCP"
+  assertEquals(unrefined.length, unrefined.data.length);
+  assertEquals(unrefined.data.subarray(12), zlibSync(PROFILE));
+  assertEquals(refiner.refine(unrefined, decodeContext).data, original.data);
+});
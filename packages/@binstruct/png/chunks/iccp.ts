@@ -0,0 +1,152 @@
+import {
+  bytes,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import type { ZlibHeader } from "../zlib/header.ts";
+import { zlibUncompressedCoder } from "../zlib/zlib.ts";
+
+/**
+ * Refined iCCP (embedded ICC profile) chunk structure.
+ *
+ * The iCCP chunk embeds an ICC color profile, zlib-compressed, under a
+ * Latin-1 profile name. The refined chunk carries the decompressed profile
+ * bytes; parsing the profile itself is left to the caller.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { IccpChunk } from "@binstruct/png";
+ *
+ * const iccp: IccpChunk = {
+ *   length: 400,
+ *   type: "iCCP",
+ *   data: {
+ *     profileName: "ICC profile",
+ *     compressionMethod: 0,
+ *     zlibHeader: {
+ *       compressionInfo: 7,
+ *       compressionMethod: 8,
+ *       flevel: 2,
+ *       fdict: 0,
+ *       fcheck: 28,
+ *     },
+ *     profile: new Uint8Array(560),
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(iccp.data.profile.length, 560);
+ * ```
+ */
+export interface IccpChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "iCCP" */
+  type: "iCCP";
+  /** Parsed profile name and decompressed profile */
+  data: {
+    /** Profile name, Latin-1, without the null separator */
+    profileName: string;
+    /** Compression method, always 0 (zlib deflate) */
+    compressionMethod: number;
+    /** Header of the zlib stream holding the profile */
+    zlibHeader: ZlibHeader;
+    /** Decompressed ICC profile */
+    profile: Uint8Array;
+  };
+}
+
+/**
+ * Creates a refiner for iCCP (embedded ICC profile) chunks.
+ *
+ * The profile is decompressed on refine and compressed again on unrefine with
+ * the zlib helpers the IDAT refiner uses (see ADR 0004). Unrefining sets
+ * `length` to the size of the encoded data.
+ *
+ * @returns A refiner that converts between raw chunks and {@link IccpChunk}.
+ *
+ * @example Round-trip an iCCP chunk
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { type IccpChunk, iccpChunkRefiner } from "@binstruct/png";
+ *
+ * const refiner = iccpChunkRefiner();
+ * const chunk: IccpChunk = {
+ *   length: 0,
+ *   type: "iCCP",
+ *   data: {
+ *     profileName: "sRGB",
+ *     compressionMethod: 0,
+ *     zlibHeader: {
+ *       compressionInfo: 7,
+ *       compressionMethod: 8,
+ *       flevel: 2,
+ *       fdict: 0,
+ *       fcheck: 28,
+ *     },
+ *     profile: new Uint8Array(128),
+ *   },
+ *   crc: 0,
+ * };
+ *
+ * const raw = refiner.unrefine(chunk, createContext("encode"));
+ *
+ * assertEquals(refiner.refine(raw, createContext("decode")).data, chunk.data);
+ * ```
+ */
+export function iccpChunkRefiner(): Refiner<PngChunkUnknown, IccpChunk, []> {
+  const typeCoder = string(4);
+  const zlibCoder = zlibUncompressedCoder();
+  const dataCoder = struct({
+    profileName: string(null, "latin1"),
+    compressionMethod: u8(),
+    compressed: bytes(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): IccpChunk => {
+      const { profileName, compressionMethod, compressed } = decode(
+        dataCoder,
+        decoded.data,
+        context,
+      );
+      const zlib = decode(zlibCoder, compressed, context);
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "iCCP",
+        data: {
+          profileName,
+          compressionMethod,
+          zlibHeader: zlib.header,
+          profile: zlib.uncompressed,
+        },
+      };
+    },
+    unrefine: (refined: IccpChunk, context): PngChunkUnknown => {
+      const { profileName, compressionMethod, zlibHeader, profile } =
+        refined.data;
+      const compressed = encode(zlibCoder, {
+        header: zlibHeader,
+        uncompressed: profile,
+        // Recomputed by the compression
+        checksum: new Uint8Array(0),
+      }, context);
+      const data = encode(
+        dataCoder,
+        { profileName, compressionMethod, compressed },
+        context,
+      );
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
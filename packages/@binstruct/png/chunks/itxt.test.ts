@@ -0,0 +1,135 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import { zlibSync } from "fflate";
+import type { PngChunkUnknown } from "../mod.ts";
+import { decodeHeader } from "../zlib/header.ts";
+import { type ItxtChunk, itxtChunkRefiner } from "./itxt.ts";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+Deno.test("itxtChunkRefiner() - refines uncompressed iTXt chunk", () => {
+  const refiner = itxtChunkRefiner();
+  const context = createContext("decode");
+
+  const data = new Uint8Array([
+    ...utf8("Title"),
+    0, // null separator
+    0, // compression flag
+    0, // compression method
+    ...utf8("ja"),
+    0,
+    ...utf8("タイトル"),
+    0,
+    ...utf8("吾輩は猫である"),
+  ]);
+  const unknownChunk: PngChunkUnknown = {
+    length: data.length,
+    type: new Uint8Array([105, 84, 88, 116]), // "iTXt"
+    data,
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "iTXt");
+  assertEquals(refined.data, {
+    keyword: "Title",
+    compressionMethod: 0,
+    zlibHeader: null,
+    languageTag: "ja",
+    translatedKeyword: "タイトル",
+    text: "吾輩は猫である",
+  });
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("itxtChunkRefiner() - refines compressed iTXt chunk", () => {
+  const refiner = itxtChunkRefiner();
+  const context = createContext("decode");
+
+  const compressed = zlibSync(utf8("Ελληνικά κείμενα"));
+  const data = new Uint8Array([
+    ...utf8("Comment"),
+    0,
+    1, // compression flag
+    0,
+    0, // empty language tag
+    0, // empty translated keyword
+    ...compressed,
+  ]);
+
+  const refined = refiner.refine({
+    length: data.length,
+    type: new Uint8Array([105, 84, 88, 116]), // "iTXt"
+    data,
+    crc: 0,
+  }, context);
+
+  assertEquals(
+    refined.data.zlibHeader,
+    decodeHeader(compressed.subarray(0, 2)),
+  );
+  assertEquals(refined.data.languageTag, "");
+  assertEquals(refined.data.translatedKeyword, "");
+  assertEquals(refined.data.text, "Ελληνικά κείμενα");
+});
+
+Deno.test("itxtChunkRefiner() - unrefine sets the compression flag from zlibHeader", () => {
+  const refiner = itxtChunkRefiner();
+  const context = createContext("encode");
+
+  const plain: ItxtChunk = {
+    length: 0,
+    type: "iTXt",
+    data: {
+      keyword: "Author",
+      compressionMethod: 0,
+      zlibHeader: null,
+      languageTag: "",
+      translatedKeyword: "",
+      text: "Zoë",
+    },
+    crc: 0,
+  };
+
+  const uncompressed = refiner.unrefine(plain, context);
+  assertEquals(uncompressed.length, 7 + 2 + 2 + 4);
+  assertEquals(uncompressed.data[7], 0);
+  assertEquals(uncompressed.data.subarray(11), utf8("Zoë"));
+
+  const compressed = refiner.unrefine({
+    ...plain,
+    data: { ...plain.data, zlibHeader: decodeHeader([0x78, 0x9c]) },
+  }, context);
+  assertEquals(compressed.data[7], 1);
+  assertEquals(compressed.data.subarray(11), zlibSync(utf8("Zoë")));
+  assertEquals(compressed.length, compressed.data.length);
+});
+
+Deno.test("itxtChunkRefiner() - round-trip keeps every field", () => {
+  const refiner = itxtChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  for (const zlibHeader of [null, decodeHeader([0x78, 0x9c])]) {
+    const original: ItxtChunk = {
+      length: 0,
+      type: "iTXt",
+      data: {
+        keyword: "Description",
+        compressionMethod: 0,
+        zlibHeader,
+        languageTag: "de-CH",
+        translatedKeyword: "Beschreibung",
+        text: "Grüezi mitenand 👋",
+      },
+      crc: 0x12345678,
+    };
+
+    const unrefined = refiner.unrefine(original, encodeContext);
+    const refined = refiner.refine(unrefined, decodeContext);
+
+    assertEquals(refined.data, original.data);
+    assertEquals(refined.crc, original.crc);
+  }
+});
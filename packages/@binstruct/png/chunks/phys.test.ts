@@ -0,0 +1,50 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type PhysChunk, physChunkRefiner } from "./phys.ts";
+
+Deno.test("physChunkRefiner() - refines pHYs chunk", () => {
+  const refiner = physChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 9,
+    type: new Uint8Array([112, 72, 89, 115]), // "pHYs"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      0x00, 0x00, 0x0b, 0x13, // pixelsPerUnitX: 2835 (72 DPI)
+      0x00, 0x00, 0x16, 0x26, // pixelsPerUnitY: 5670 (144 DPI)
+      1, // unit: metre
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "pHYs");
+  assertEquals(refined.length, 9);
+  assertEquals(refined.data, {
+    pixelsPerUnitX: 2835,
+    pixelsPerUnitY: 5670,
+    unit: 1,
+  });
+});
+
+Deno.test("physChunkRefiner() - round-trip aspect ratio only", () => {
+  const refiner = physChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: PhysChunk = {
+    length: 9,
+    type: "pHYs",
+    data: { pixelsPerUnitX: 2, pixelsPerUnitY: 1, unit: 0 },
+    crc: 0x12345678,
+  };
+
+  const unrefined = refiner.unrefine(original, encodeContext);
+
+  assertEquals(unrefined.type, new Uint8Array([112, 72, 89, 115])); // "pHYs"
+  assertEquals(unrefined.data, new Uint8Array([0, 0, 0, 2, 0, 0, 0, 1, 0]));
+  assertEquals(refiner.refine(unrefined, decodeContext), original);
+});
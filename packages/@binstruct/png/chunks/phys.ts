@@ -0,0 +1,99 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u32be,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined pHYs (physical pixel dimensions) chunk structure.
+ *
+ * The pHYs chunk gives the number of pixels per unit along each axis. With
+ * `unit` 1 the unit is the metre, so 72 DPI is stored as 2835; with `unit` 0
+ * only the aspect ratio is meaningful.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { PhysChunk } from "@binstruct/png";
+ *
+ * const phys: PhysChunk = {
+ *   length: 9,
+ *   type: "pHYs",
+ *   data: { pixelsPerUnitX: 2835, pixelsPerUnitY: 2835, unit: 1 },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(Math.round(phys.data.pixelsPerUnitX * 0.0254), 72);
+ * ```
+ */
+export interface PhysChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "pHYs" */
+  type: "pHYs";
+  /** Parsed pixel dimensions */
+  data: {
+    /** Pixels per unit along the X axis */
+    pixelsPerUnitX: number;
+    /** Pixels per unit along the Y axis */
+    pixelsPerUnitY: number;
+    /** Unit specifier: 0 for unknown, 1 for the metre */
+    unit: number;
+  };
+}
+
+/**
+ * Creates a refiner for pHYs (physical pixel dimensions) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link PhysChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { physChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = physChunkRefiner().refine({
+ *   length: 9,
+ *   type: new Uint8Array([112, 72, 89, 115]), // "pHYs"
+ *   data: new Uint8Array([0, 0, 0x0b, 0x13, 0, 0, 0x0b, 0x13, 1]),
+ *   crc: 0x009a9c18,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data, {
+ *   pixelsPerUnitX: 2835,
+ *   pixelsPerUnitY: 2835,
+ *   unit: 1,
+ * });
+ * ```
+ */
+export function physChunkRefiner(): Refiner<PngChunkUnknown, PhysChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    pixelsPerUnitX: u32be(),
+    pixelsPerUnitY: u32be(),
+    unit: u8(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): PhysChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "pHYs",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: PhysChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type SbitChunk, sbitChunkRefiner } from "./sbit.ts";
+
+Deno.test("sbitChunkRefiner() - refines sBIT chunk", () => {
+  const refiner = sbitChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 3,
+    type: new Uint8Array([115, 66, 73, 84]), // "sBIT"
+    data: new Uint8Array([5, 6, 5]), // RGB565 source
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "sBIT");
+  assertEquals(refined.length, 3);
+  assertEquals(refined.data.values, [5, 6, 5]);
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("sbitChunkRefiner() - round-trip for every channel count", () => {
+  const refiner = sbitChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  for (const values of [[4], [8, 1], [5, 6, 5], [8, 8, 8, 8]]) {
+    const original: SbitChunk = {
+      length: 0,
+      type: "sBIT",
+      data: { values },
+      crc: 0,
+    };
+
+    const unrefined = refiner.unrefine(original, encodeContext);
+    assertEquals(unrefined.length, values.length);
+    assertEquals(unrefined.data, new Uint8Array(values));
+    assertEquals(refiner.refine(unrefined, decodeContext).data.values, values);
+  }
+});
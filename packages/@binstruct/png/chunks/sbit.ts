@@ -0,0 +1,97 @@
+import {
+  array,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined sBIT (significant bits) chunk structure.
+ *
+ * The sBIT chunk gives the number of significant bits in each channel of the
+ * original image, one byte per channel. The number of bytes depends on the
+ * image's color type (from IHDR chunk):
+ *
+ * - **Color type 0**: 1 byte (gray)
+ * - **Color type 2, 3**: 3 bytes (red, green, blue)
+ * - **Color type 4**: 2 bytes (gray, alpha)
+ * - **Color type 6**: 4 bytes (red, green, blue, alpha)
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { SbitChunk } from "@binstruct/png";
+ *
+ * const sbit: SbitChunk = {
+ *   length: 3,
+ *   type: "sBIT",
+ *   data: { values: [5, 6, 5] }, // RGB565 source
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(sbit.data.values.length, 3);
+ * ```
+ */
+export interface SbitChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "sBIT" */
+  type: "sBIT";
+  /** Significant bits data */
+  data: {
+    /** Significant bits per channel, in channel order */
+    values: number[];
+  };
+}
+
+/**
+ * Creates a refiner for sBIT (significant bits) chunks.
+ *
+ * Like the bKGD refiner, it keeps one value per byte and leaves mapping them
+ * to channels to the caller, who knows the color type.
+ *
+ * @returns A refiner that converts between raw chunks and {@link SbitChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { sbitChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = sbitChunkRefiner().refine({
+ *   length: 4,
+ *   type: new Uint8Array([115, 66, 73, 84]), // "sBIT"
+ *   data: new Uint8Array([8, 8, 8, 1]),
+ *   crc: 0x12345678,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.values, [8, 8, 8, 1]);
+ * ```
+ */
+export function sbitChunkRefiner(): Refiner<PngChunkUnknown, SbitChunk, []> {
+  const typeCoder = string(4);
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): SbitChunk => {
+      const valuesCoder = array(u8(), decoded.data.length);
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "sBIT",
+        data: {
+          values: decode(valuesCoder, decoded.data, context),
+        },
+      };
+    },
+    unrefine: (refined: SbitChunk, context): PngChunkUnknown => {
+      const valuesCoder = array(u8(), refined.data.values.length);
+      const data = encode(valuesCoder, refined.data.values, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
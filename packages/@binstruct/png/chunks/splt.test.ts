@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type SpltChunk, spltChunkRefiner } from "./splt.ts";
+
+Deno.test("spltChunkRefiner() - refines 8-bit sPLT chunk", () => {
+  const refiner = spltChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 17,
+    type: new Uint8Array([115, 80, 76, 84]), // "sPLT"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      119, 101, 98, 0, // name: "web" + null separator
+      8, // sample depth
+      255, 0, 0, 255, 0, 10, // red, opaque, frequency 10
+      0, 0, 255, 128, 0, 5, // blue, half transparent, frequency 5
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "sPLT");
+  assertEquals(refined.length, 17);
+  assertEquals(refined.data, {
+    name: "web",
+    sampleDepth: 8,
+    entries: [
+      { red: 255, green: 0, blue: 0, alpha: 255, frequency: 10 },
+      { red: 0, green: 0, blue: 255, alpha: 128, frequency: 5 },
+    ],
+  });
+});
+
+Deno.test("spltChunkRefiner() - refines 16-bit sPLT chunk", () => {
+  const refiner = spltChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 13,
+    type: new Uint8Array([115, 80, 76, 84]), // "sPLT"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      100, 0, // name: "d" + null separator
+      16, // sample depth
+      0xff, 0xff, 0x80, 0x00, 0x00, 0x01, 0xff, 0xff, // red, green, blue, alpha
+      0x01, 0x00, // frequency 256
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.data.entries, [
+    { red: 65535, green: 32768, blue: 1, alpha: 65535, frequency: 256 },
+  ]);
+});
+
+Deno.test("spltChunkRefiner() - round-trip both sample depths", () => {
+  const refiner = spltChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  for (const [sampleDepth, max, entrySize] of [[8, 255, 6], [16, 65535, 10]]) {
+    const original: SpltChunk = {
+      length: 0,
+      type: "sPLT",
+      data: {
+        name: "Palette ü",
+        sampleDepth,
+        entries: [
+          { red: max, green: 0, blue: 1, alpha: max, frequency: 65535 },
+          { red: 0, green: max, blue: 2, alpha: 0, frequency: 0 },
+          { red: 1, green: 2, blue: max, alpha: 3, frequency: 42 },
+        ],
+      },
+      crc: 0xAABBCCDD,
+    };
+
+    const unrefined = refiner.unrefine(original, encodeContext);
+    const refined = refiner.refine(unrefined, decodeContext);
+
+    assertEquals(unrefined.length, 9 + 1 + 1 + 3 * entrySize);
+    assertEquals(refined.data, original.data);
+    assertEquals(refined.crc, original.crc);
+  }
+});
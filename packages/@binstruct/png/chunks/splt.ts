@@ -0,0 +1,168 @@
+import {
+  array,
+  bytes,
+  type Coder,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u16be,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * One entry of an sPLT suggested palette.
+ */
+export interface SpltEntry {
+  /** Red sample, 8 or 16 bits wide per the palette's sample depth */
+  red: number;
+  /** Green sample */
+  green: number;
+  /** Blue sample */
+  blue: number;
+  /** Alpha sample, 0 fully transparent */
+  alpha: number;
+  /** Relative usage frequency */
+  frequency: number;
+}
+
+/**
+ * Refined sPLT (suggested palette) chunk structure.
+ *
+ * An sPLT chunk suggests a named palette for viewers that cannot show the full
+ * color range. Each entry holds red, green, blue and alpha samples of
+ * `sampleDepth` bits (8 or 16) and a 2-byte frequency, so entries are 6 or 10
+ * bytes long.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { SpltChunk } from "@binstruct/png";
+ *
+ * const splt: SpltChunk = {
+ *   length: 18,
+ *   type: "sPLT",
+ *   data: {
+ *     name: "web",
+ *     sampleDepth: 8,
+ *     entries: [
+ *       { red: 255, green: 0, blue: 0, alpha: 255, frequency: 10 },
+ *       { red: 0, green: 0, blue: 255, alpha: 255, frequency: 5 },
+ *     ],
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(splt.data.entries.length, 2);
+ * ```
+ */
+export interface SpltChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "sPLT" */
+  type: "sPLT";
+  /** Parsed palette */
+  data: {
+    /** Palette name, Latin-1, without the null separator */
+    name: string;
+    /** Sample depth of the entries, 8 or 16 */
+    sampleDepth: number;
+    /** Palette entries */
+    entries: SpltEntry[];
+  };
+}
+
+function spltEntryCoder(sampleDepth: number): Coder<SpltEntry> {
+  const sample = sampleDepth === 16 ? u16be : u8;
+  return struct({
+    red: sample(),
+    green: sample(),
+    blue: sample(),
+    alpha: sample(),
+    frequency: u16be(),
+  });
+}
+
+/**
+ * Creates a refiner for sPLT (suggested palette) chunks.
+ *
+ * The entry size follows `sampleDepth`: 16 selects 2-byte samples, any other
+ * depth 1-byte samples. Unrefining sets `length` to the size of the encoded
+ * data.
+ *
+ * @returns A refiner that converts between raw chunks and {@link SpltChunk}.
+ *
+ * @example Round-trip a 16-bit palette
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { type SpltChunk, spltChunkRefiner } from "@binstruct/png";
+ *
+ * const refiner = spltChunkRefiner();
+ * const chunk: SpltChunk = {
+ *   length: 0,
+ *   type: "sPLT",
+ *   data: {
+ *     name: "deep",
+ *     sampleDepth: 16,
+ *     entries: [
+ *       { red: 65535, green: 32768, blue: 0, alpha: 65535, frequency: 1 },
+ *     ],
+ *   },
+ *   crc: 0,
+ * };
+ *
+ * const raw = refiner.unrefine(chunk, createContext("encode"));
+ *
+ * // "deep", a null separator, the depth and one 10-byte entry
+ * assertEquals(raw.length, 16);
+ * assertEquals(refiner.refine(raw, createContext("decode")).data, chunk.data);
+ * ```
+ */
+export function spltChunkRefiner(): Refiner<PngChunkUnknown, SpltChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    name: string(null, "latin1"),
+    sampleDepth: u8(),
+    entries: bytes(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): SpltChunk => {
+      const { name, sampleDepth, entries } = decode(
+        dataCoder,
+        decoded.data,
+        context,
+      );
+      const entrySize = sampleDepth === 16 ? 10 : 6;
+      const entriesCoder = array(
+        spltEntryCoder(sampleDepth),
+        Math.floor(entries.length / entrySize),
+      );
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "sPLT",
+        data: {
+          name,
+          sampleDepth,
+          entries: decode(entriesCoder, entries, context),
+        },
+      };
+    },
+    unrefine: (refined: SpltChunk, context): PngChunkUnknown => {
+      const { name, sampleDepth, entries } = refined.data;
+      const entriesCoder = array(spltEntryCoder(sampleDepth), entries.length);
+      const data = encode(dataCoder, {
+        name,
+        sampleDepth,
+        entries: encode(entriesCoder, entries, context),
+      }, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
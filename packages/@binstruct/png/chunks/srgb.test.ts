@@ -0,0 +1,42 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type SrgbChunk, srgbChunkRefiner } from "./srgb.ts";
+
+Deno.test("srgbChunkRefiner() - refines sRGB chunk", () => {
+  const refiner = srgbChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 1,
+    type: new Uint8Array([115, 82, 71, 66]), // "sRGB"
+    data: new Uint8Array([1]), // Relative colorimetric
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "sRGB");
+  assertEquals(refined.length, 1);
+  assertEquals(refined.data, { renderingIntent: 1 });
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("srgbChunkRefiner() - round-trip every rendering intent", () => {
+  const refiner = srgbChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  for (const renderingIntent of [0, 1, 2, 3]) {
+    const original: SrgbChunk = {
+      length: 1,
+      type: "sRGB",
+      data: { renderingIntent },
+      crc: 0xAECE1CE9,
+    };
+
+    const unrefined = refiner.unrefine(original, encodeContext);
+    assertEquals(unrefined.data, new Uint8Array([renderingIntent]));
+    assertEquals(refiner.refine(unrefined, decodeContext), original);
+  }
+});
@@ -0,0 +1,90 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined sRGB (standard RGB color space) chunk structure.
+ *
+ * The sRGB chunk marks the image as sRGB and names the rendering intent in
+ * one byte:
+ *
+ * - **0**: Perceptual
+ * - **1**: Relative colorimetric
+ * - **2**: Saturation
+ * - **3**: Absolute colorimetric
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { SrgbChunk } from "@binstruct/png";
+ *
+ * const srgb: SrgbChunk = {
+ *   length: 1,
+ *   type: "sRGB",
+ *   data: { renderingIntent: 0 },
+ *   crc: 0xaece1ce9,
+ * };
+ *
+ * assertEquals(srgb.data.renderingIntent, 0);
+ * ```
+ */
+export interface SrgbChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "sRGB" */
+  type: "sRGB";
+  /** Parsed rendering intent */
+  data: {
+    /** Rendering intent, 0 to 3 */
+    renderingIntent: number;
+  };
+}
+
+/**
+ * Creates a refiner for sRGB (standard RGB color space) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link SrgbChunk}.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { srgbChunkRefiner } from "@binstruct/png";
+ *
+ * const refined = srgbChunkRefiner().refine({
+ *   length: 1,
+ *   type: new Uint8Array([115, 82, 71, 66]), // "sRGB"
+ *   data: new Uint8Array([0]),
+ *   crc: 0xaece1ce9,
+ * }, createContext("decode"));
+ *
+ * assertEquals(refined.data.renderingIntent, 0);
+ * ```
+ */
+export function srgbChunkRefiner(): Refiner<PngChunkUnknown, SrgbChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({ renderingIntent: u8() });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): SrgbChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "sRGB",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: SrgbChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type TextChunk, textChunkRefiner } from "./text.ts";
+
+Deno.test("textChunkRefiner() - refines tEXt chunk", () => {
+  const refiner = textChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 11,
+    type: new Uint8Array([116, 69, 88, 116]), // "tEXt"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      84, 105, 116, 108, 101, 0, // "Title" + null separator
+      67, 97, 102, 0xe9, 33, // "Café!" in Latin-1
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "tEXt");
+  assertEquals(refined.length, 11);
+  assertEquals(refined.data, { keyword: "Title", text: "Café!" });
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("textChunkRefiner() - refines tEXt chunk with empty text", () => {
+  const refiner = textChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 8,
+    type: new Uint8Array([116, 69, 88, 116]), // "tEXt"
+    data: new Uint8Array([67, 111, 109, 109, 101, 110, 116, 0]), // "Comment"
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.data, { keyword: "Comment", text: "" });
+});
+
+Deno.test("textChunkRefiner() - unrefines tEXt chunk and sets length", () => {
+  const refiner = textChunkRefiner();
+  const context = createContext("encode");
+
+  const refinedChunk: TextChunk = {
+    length: 0,
+    type: "tEXt",
+    data: { keyword: "Software", text: "binstruct" },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([116, 69, 88, 116])); // "tEXt"
+  assertEquals(unrefined.length, 18);
+  assertEquals(unrefined.data[8], 0);
+  assertEquals(
+    new TextDecoder().decode(unrefined.data.subarray(9)),
+    "binstruct",
+  );
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
+
+Deno.test("textChunkRefiner() - round-trip keeps Latin-1 text", () => {
+  const refiner = textChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: TextChunk = {
+    length: 0,
+    type: "tEXt",
+    data: { keyword: "Copyright", text: "© 2024 Jürgen\nAll rights reserved" },
+    crc: 0x12345678,
+  };
+
+  const unrefined = refiner.unrefine(original, encodeContext);
+  const refined = refiner.refine(unrefined, decodeContext);
+
+  assertEquals(unrefined.length, 9 + 1 + 33);
+  assertEquals(refined.data, original.data);
+  assertEquals(refined.crc, original.crc);
+});
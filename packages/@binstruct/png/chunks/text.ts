@@ -0,0 +1,103 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  stringFL,
+  struct,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined tEXt (textual data) chunk structure.
+ *
+ * A tEXt chunk holds one uncompressed keyword/text pair in Latin-1
+ * (ISO 8859-1). The keyword is 1 to 79 characters and is followed by a null
+ * separator; the text runs to the end of the chunk. Common keywords include
+ * `Title`, `Author`, `Description`, `Copyright`, `Software` and `Comment`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { TextChunk } from "@binstruct/png";
+ *
+ * const text: TextChunk = {
+ *   length: 13,
+ *   type: "tEXt",
+ *   data: { keyword: "Author", text: "Zoë R." },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(text.data.keyword, "Author");
+ * ```
+ */
+export interface TextChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "tEXt" */
+  type: "tEXt";
+  /** Parsed keyword/text pair */
+  data: {
+    /** Keyword, Latin-1, without the null separator */
+    keyword: string;
+    /** Text, Latin-1, running to the end of the chunk */
+    text: string;
+  };
+}
+
+/**
+ * Creates a refiner for tEXt (textual data) chunks.
+ *
+ * Both strings are decoded and encoded as Latin-1, one byte per character.
+ * Unrefining sets `length` to the size of the encoded data, so a chunk whose
+ * text was edited needs no other update except its `crc`.
+ *
+ * @returns A refiner that converts between raw chunks and {@link TextChunk}.
+ *
+ * @example Round-trip a tEXt chunk
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { textChunkRefiner } from "@binstruct/png";
+ *
+ * const refiner = textChunkRefiner();
+ * const raw = refiner.unrefine({
+ *   length: 0,
+ *   type: "tEXt",
+ *   data: { keyword: "Title", text: "Café" },
+ *   crc: 0,
+ * }, createContext("encode"));
+ *
+ * // "Title", a null separator and four Latin-1 bytes
+ * assertEquals(raw.length, 10);
+ * assertEquals(raw.data[9], 0xe9);
+ * assertEquals(
+ *   refiner.refine(raw, createContext("decode")).data,
+ *   { keyword: "Title", text: "Café" },
+ * );
+ * ```
+ */
+export function textChunkRefiner(): Refiner<PngChunkUnknown, TextChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    keyword: string(null, "latin1"),
+    text: stringFL(undefined, "latin1"),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): TextChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "tEXt",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: TextChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { assertEquals } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import { type TimeChunk, timeChunkRefiner } from "./time.ts";
+
+Deno.test("timeChunkRefiner() - refines tIME chunk", () => {
+  const refiner = timeChunkRefiner();
+  const context = createContext("decode");
+
+  const unknownChunk: PngChunkUnknown = {
+    length: 7,
+    type: new Uint8Array([116, 73, 77, 69]), // "tIME"
+    // deno-fmt-ignore
+    data: new Uint8Array([
+      0x07, 0xcf, // year: 1999
+      12, 31, // month, day
+      23, 59, 60, // hour, minute, leap second
+    ]),
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "tIME");
+  assertEquals(refined.length, 7);
+  assertEquals(refined.data, {
+    year: 1999,
+    month: 12,
+    day: 31,
+    hour: 23,
+    minute: 59,
+    second: 60,
+  });
+});
+
+Deno.test("timeChunkRefiner() - unrefines tIME chunk", () => {
+  const refiner = timeChunkRefiner();
+  const context = createContext("encode");
+
+  const refinedChunk: TimeChunk = {
+    length: 0,
+    type: "tIME",
+    data: { year: 2000, month: 1, day: 1, hour: 0, minute: 0, second: 0 },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([116, 73, 77, 69])); // "tIME"
+  assertEquals(unrefined.length, 7);
+  assertEquals(unrefined.data, new Uint8Array([0x07, 0xd0, 1, 1, 0, 0, 0]));
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
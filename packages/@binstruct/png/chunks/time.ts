@@ -0,0 +1,112 @@
+import {
+  decode,
+  encode,
+  type Refiner,
+  string,
+  struct,
+  u16be,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+
+/**
+ * Refined tIME (image last-modification time) chunk structure.
+ *
+ * The tIME chunk records when the image was last changed, in UTC. The year is
+ * the full year, the month runs from 1 to 12, and the second may be 60 for a
+ * leap second.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { TimeChunk } from "@binstruct/png";
+ *
+ * const time: TimeChunk = {
+ *   length: 7,
+ *   type: "tIME",
+ *   data: { year: 2024, month: 2, day: 29, hour: 12, minute: 0, second: 0 },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(time.data.month, 2);
+ * ```
+ */
+export interface TimeChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "tIME" */
+  type: "tIME";
+  /** Parsed UTC time */
+  data: {
+    /** Full year, e.g. 2024 */
+    year: number;
+    /** Month, 1 to 12 */
+    month: number;
+    /** Day of the month, 1 to 31 */
+    day: number;
+    /** Hour, 0 to 23 */
+    hour: number;
+    /** Minute, 0 to 59 */
+    minute: number;
+    /** Second, 0 to 60 */
+    second: number;
+  };
+}
+
+/**
+ * Creates a refiner for tIME (image last-modification time) chunks.
+ *
+ * @returns A refiner that converts between raw chunks and {@link TimeChunk}.
+ *
+ * @example Build a tIME chunk from a Date
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { timeChunkRefiner } from "@binstruct/png";
+ *
+ * const date = new Date(Date.UTC(2024, 1, 29, 12, 30, 15));
+ * const raw = timeChunkRefiner().unrefine({
+ *   length: 0,
+ *   type: "tIME",
+ *   data: {
+ *     year: date.getUTCFullYear(),
+ *     month: date.getUTCMonth() + 1,
+ *     day: date.getUTCDate(),
+ *     hour: date.getUTCHours(),
+ *     minute: date.getUTCMinutes(),
+ *     second: date.getUTCSeconds(),
+ *   },
+ *   crc: 0,
+ * }, createContext("encode"));
+ *
+ * assertEquals(raw.data, new Uint8Array([0x07, 0xe8, 2, 29, 12, 30, 15]));
+ * ```
+ */
+export function timeChunkRefiner(): Refiner<PngChunkUnknown, TimeChunk, []> {
+  const typeCoder = string(4);
+  const dataCoder = struct({
+    year: u16be(),
+    month: u8(),
+    day: u8(),
+    hour: u8(),
+    minute: u8(),
+    second: u8(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): TimeChunk => {
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "tIME",
+        data: decode(dataCoder, decoded.data, context),
+      };
+    },
+    unrefine: (refined: TimeChunk, context): PngChunkUnknown => {
+      const data = encode(dataCoder, refined.data, context);
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
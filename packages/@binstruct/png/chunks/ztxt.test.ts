@@ -0,0 +1,114 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import { zlibSync } from "fflate";
+import type { PngChunkUnknown } from "../mod.ts";
+import { decodeHeader } from "../zlib/header.ts";
+import { type ZtxtChunk, ztxtChunkRefiner } from "./ztxt.ts";
+
+const latin1 = (text: string) =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+Deno.test("ztxtChunkRefiner() - refines zTXt chunk", () => {
+  const refiner = ztxtChunkRefiner();
+  const context = createContext("decode");
+
+  const compressed = zlibSync(latin1("Grüße aus Zürich"));
+  const data = new Uint8Array([
+    ...latin1("Comment"),
+    0, // null separator
+    0, // compression method
+    ...compressed,
+  ]);
+  const unknownChunk: PngChunkUnknown = {
+    length: data.length,
+    type: new Uint8Array([122, 84, 88, 116]), // "zTXt"
+    data,
+    crc: 0x12345678,
+  };
+
+  const refined = refiner.refine(unknownChunk, context);
+
+  assertEquals(refined.type, "zTXt");
+  assertEquals(refined.length, data.length);
+  assertEquals(refined.data.keyword, "Comment");
+  assertEquals(refined.data.compressionMethod, 0);
+  assertEquals(
+    refined.data.zlibHeader,
+    decodeHeader(compressed.subarray(0, 2)),
+  );
+  assertEquals(refined.data.text, "Grüße aus Zürich");
+  assertEquals(refined.crc, 0x12345678);
+});
+
+Deno.test("ztxtChunkRefiner() - unrefines to the bytes fflate writes", () => {
+  const refiner = ztxtChunkRefiner();
+  const context = createContext("encode");
+
+  const text = "compress me ".repeat(10);
+  const compressed = zlibSync(latin1(text));
+  const refinedChunk: ZtxtChunk = {
+    length: 0,
+    type: "zTXt",
+    data: {
+      keyword: "Description",
+      compressionMethod: 0,
+      zlibHeader: decodeHeader(compressed.subarray(0, 2)),
+      text,
+    },
+    crc: 0xAABBCCDD,
+  };
+
+  const unrefined = refiner.unrefine(refinedChunk, context);
+
+  assertEquals(unrefined.type, new Uint8Array([122, 84, 88, 116])); // "zTXt"
+  assertEquals(unrefined.length, 13 + compressed.length);
+  assertEquals(
+    unrefined.data.subarray(0, 13),
+    new Uint8Array([
+      ...latin1("Description"),
+      0,
+      0,
+    ]),
+  );
+  assertEquals(unrefined.data.subarray(13), compressed);
+  assertEquals(unrefined.crc, 0xAABBCCDD);
+});
+
+Deno.test("ztxtChunkRefiner() - round-trip with empty text", () => {
+  const refiner = ztxtChunkRefiner();
+  const encodeContext = createContext("encode");
+  const decodeContext = createContext("decode");
+
+  const original: ZtxtChunk = {
+    length: 0,
+    type: "zTXt",
+    data: {
+      keyword: "Warning",
+      compressionMethod: 0,
+      zlibHeader: decodeHeader([0x78, 0x9c]),
+      text: "",
+    },
+    crc: 0x12345678,
+  };
+
+  const unrefined = refiner.unrefine(original, encodeContext);
+  const refined = refiner.refine(unrefined, decodeContext);
+
+  assertEquals(refined.data, original.data);
+});
+
+Deno.test("ztxtChunkRefiner() - throws on data that is not zlib", () => {
+  const refiner = ztxtChunkRefiner();
+  const context = createContext("decode");
+
+  const data = new Uint8Array([...latin1("Title"), 0, 0, 1, 2, 3]);
+
+  assertThrows(() =>
+    refiner.refine({
+      length: data.length,
+      type: new Uint8Array([122, 84, 88, 116]), // "zTXt"
+      data,
+      crc: 0,
+    }, context)
+  );
+});
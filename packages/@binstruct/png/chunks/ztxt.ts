@@ -0,0 +1,156 @@
+import {
+  bytes,
+  decode,
+  encode,
+  type Refiner,
+  string,
+  stringFL,
+  struct,
+  u8,
+} from "@hertzg/binstruct";
+import type { PngChunkUnknown } from "../mod.ts";
+import type { ZlibHeader } from "../zlib/header.ts";
+import { zlibUncompressedCoder } from "../zlib/zlib.ts";
+
+/**
+ * Refined zTXt (compressed textual data) chunk structure.
+ *
+ * A zTXt chunk holds a keyword/text pair like tEXt, with the text
+ * zlib-compressed. The refined chunk carries the decompressed text; the zlib
+ * header is kept so that re-encoding compresses at the same level.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { ZtxtChunk } from "@binstruct/png";
+ *
+ * const ztxt: ZtxtChunk = {
+ *   length: 30,
+ *   type: "zTXt",
+ *   data: {
+ *     keyword: "Description",
+ *     compressionMethod: 0,
+ *     zlibHeader: {
+ *       compressionInfo: 7,
+ *       compressionMethod: 8,
+ *       flevel: 2,
+ *       fdict: 0,
+ *       fcheck: 28,
+ *     },
+ *     text: "A long description",
+ *   },
+ *   crc: 0x12345678,
+ * };
+ *
+ * assertEquals(ztxt.data.compressionMethod, 0);
+ * ```
+ */
+export interface ZtxtChunk extends Omit<PngChunkUnknown, "type" | "data"> {
+  /** Chunk type identifier, always "zTXt" */
+  type: "zTXt";
+  /** Parsed keyword and decompressed text */
+  data: {
+    /** Keyword, Latin-1, without the null separator */
+    keyword: string;
+    /** Compression method, always 0 (zlib deflate) */
+    compressionMethod: number;
+    /** Header of the zlib stream holding the text */
+    zlibHeader: ZlibHeader;
+    /** Decompressed text, Latin-1 */
+    text: string;
+  };
+}
+
+/**
+ * Creates a refiner for zTXt (compressed textual data) chunks.
+ *
+ * The text is decompressed on refine and compressed again on unrefine with
+ * the zlib helpers the IDAT refiner uses, so the compressed bytes of an
+ * unchanged chunk may differ from the original (see ADR 0004). Unrefining
+ * sets `length` to the size of the encoded data.
+ *
+ * @returns A refiner that converts between raw chunks and {@link ZtxtChunk}.
+ *
+ * @example Round-trip a zTXt chunk
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext } from "@hertzg/binstruct";
+ * import { type ZtxtChunk, ztxtChunkRefiner } from "@binstruct/png";
+ *
+ * const refiner = ztxtChunkRefiner();
+ * const chunk: ZtxtChunk = {
+ *   length: 0,
+ *   type: "zTXt",
+ *   data: {
+ *     keyword: "Comment",
+ *     compressionMethod: 0,
+ *     zlibHeader: {
+ *       compressionInfo: 7,
+ *       compressionMethod: 8,
+ *       flevel: 2,
+ *       fdict: 0,
+ *       fcheck: 28,
+ *     },
+ *     text: "la ".repeat(100),
+ *   },
+ *   crc: 0,
+ * };
+ *
+ * const raw = refiner.unrefine(chunk, createContext("encode"));
+ * const refined = refiner.refine(raw, createContext("decode"));
+ *
+ * assertEquals(raw.length < 300, true);
+ * assertEquals(refined.data, chunk.data);
+ * ```
+ */
+export function ztxtChunkRefiner(): Refiner<PngChunkUnknown, ZtxtChunk, []> {
+  const typeCoder = string(4);
+  const zlibCoder = zlibUncompressedCoder();
+  const textCoder = stringFL(undefined, "latin1");
+  const dataCoder = struct({
+    keyword: string(null, "latin1"),
+    compressionMethod: u8(),
+    compressed: bytes(),
+  });
+
+  return {
+    refine: (decoded: PngChunkUnknown, context): ZtxtChunk => {
+      const { keyword, compressionMethod, compressed } = decode(
+        dataCoder,
+        decoded.data,
+        context,
+      );
+      const zlib = decode(zlibCoder, compressed, context);
+      return {
+        ...decoded,
+        type: decode(typeCoder, decoded.type, context) as "zTXt",
+        data: {
+          keyword,
+          compressionMethod,
+          zlibHeader: zlib.header,
+          text: decode(textCoder, zlib.uncompressed, context),
+        },
+      };
+    },
+    unrefine: (refined: ZtxtChunk, context): PngChunkUnknown => {
+      const { keyword, compressionMethod, zlibHeader, text } = refined.data;
+      const compressed = encode(zlibCoder, {
+        header: zlibHeader,
+        uncompressed: encode(textCoder, text, context),
+        // Recomputed by the compression
+        checksum: new Uint8Array(0),
+      }, context);
+      const data = encode(
+        dataCoder,
+        { keyword, compressionMethod, compressed },
+        context,
+      );
+      return {
+        ...refined,
+        length: data.length,
+        type: encode(typeCoder, refined.type, context, new Uint8Array(4)),
+        data,
+      };
+    },
+  };
+}
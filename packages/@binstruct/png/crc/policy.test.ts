@@ -0,0 +1,204 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { bytes, struct, u32be } from "@hertzg/binstruct";
+import {
+  chunkCrc,
+  type PngChunkUnknown,
+  pngChunkUnknown,
+  type PngCrcMismatch,
+  type PngFile,
+  pngFile,
+  pngFileChunks,
+} from "../mod.ts";
+
+const SIGNATURE = {
+  highBitByte: 137,
+  signature: "PNG",
+  dosLineEnding: "\r\n",
+  dosEOF: "\u001a",
+  unixLineEnding: "\n",
+};
+
+const encoder = new TextEncoder();
+
+function rawChunk(type: string, data: number[], crc = 0): PngChunkUnknown {
+  return {
+    length: data.length,
+    type: encoder.encode(type),
+    data: new Uint8Array(data),
+    crc,
+  };
+}
+
+function withCrc(chunk: PngChunkUnknown): PngChunkUnknown {
+  return { ...chunk, crc: chunkCrc(chunk) };
+}
+
+// Chunks 1 and 2 carry stale CRCs
+const DAMAGED: PngFile<PngChunkUnknown> = {
+  signature: SIGNATURE,
+  chunks: [
+    withCrc(rawChunk("tEXt", [65, 0, 66])),
+    rawChunk("tEXt", [67, 0, 68], 0x12345678),
+    rawChunk("IDAT", [1, 2, 3]),
+    withCrc(rawChunk("IEND", [])),
+  ],
+};
+
+function encodeRaw(file: PngFile<PngChunkUnknown>): Uint8Array {
+  const bytes = new Uint8Array(256);
+  const written = pngFileChunks(pngChunkUnknown()).encode(file, bytes);
+  return bytes.subarray(0, written);
+}
+
+Deno.test("pngFileChunks() - preserve reads and writes stale CRCs as they are", () => {
+  const coder = pngFileChunks(pngChunkUnknown(), { crc: "preserve" });
+  const bytes = encodeRaw(DAMAGED);
+
+  const [decoded] = coder.decode(bytes);
+
+  assertEquals(decoded.chunks.map(({ crc }) => crc), [
+    DAMAGED.chunks[0].crc,
+    0x12345678,
+    0,
+    0xAE426082,
+  ]);
+});
+
+Deno.test("pngFileChunks() - verify throws on the first mismatch with its index", () => {
+  const coder = pngFileChunks(pngChunkUnknown(), { crc: "verify" });
+  const expected = chunkCrc(DAMAGED.chunks[1]).toString(16).padStart(8, "0");
+
+  assertThrows(
+    () => coder.decode(encodeRaw(DAMAGED)),
+    Error,
+    `Invalid CRC: 0x12345678 on chunk 1 (tEXt). Must be 0x${expected}.`,
+  );
+});
+
+Deno.test("pngFileChunks() - verify reports every mismatch to onCrcMismatch", () => {
+  const mismatches: PngCrcMismatch[] = [];
+  const coder = pngFileChunks(pngChunkUnknown(), {
+    crc: "verify",
+    onCrcMismatch: (mismatch) => mismatches.push(mismatch),
+  });
+
+  const [decoded] = coder.decode(encodeRaw(DAMAGED));
+
+  assertEquals(decoded.chunks.length, 4);
+  assertEquals(mismatches, [
+    {
+      index: 1,
+      type: "tEXt",
+      crc: 0x12345678,
+      expected: chunkCrc(DAMAGED.chunks[1]),
+    },
+    { index: 2, type: "IDAT", crc: 0, expected: chunkCrc(DAMAGED.chunks[2]) },
+  ]);
+});
+
+Deno.test("pngFileChunks() - verify checks CRCs on encode", () => {
+  const coder = pngFileChunks(pngChunkUnknown(), { crc: "verify" });
+
+  assertThrows(
+    () => coder.encode(DAMAGED, new Uint8Array(256)),
+    Error,
+    "on chunk 1 (tEXt)",
+  );
+});
+
+Deno.test("pngFileChunks() - recompute writes correct CRCs", () => {
+  const coder = pngFileChunks(pngChunkUnknown(), { crc: "recompute" });
+  const bytes = new Uint8Array(256);
+
+  const written = coder.encode(DAMAGED, bytes);
+  const [decoded] = pngFileChunks(pngChunkUnknown(), { crc: "verify" })
+    .decode(bytes.subarray(0, written));
+
+  assertEquals(
+    decoded.chunks.map(({ crc }) => crc),
+    DAMAGED.chunks.map(chunkCrc),
+  );
+});
+
+Deno.test("pngFileChunks() - recompute leaves a chunk that overruns the file as it is", () => {
+  // A length field the data does not follow, as a hand-built coder allows
+  const chunk = struct({
+    length: u32be(),
+    type: bytes(4),
+    data: bytes(),
+    crc: u32be(),
+  });
+  const file = {
+    signature: SIGNATURE,
+    chunks: [{ ...rawChunk("IEND", [1, 2, 3]), length: 100 }],
+  };
+
+  const preserved = pngFileChunks(chunk).encode(file, new Uint8Array(64));
+  const target = new Uint8Array(64);
+  const written = pngFileChunks(chunk, { crc: "recompute" })
+    .encode(file, target);
+
+  assertEquals(written, preserved);
+  assertEquals(
+    target.subarray(8, written),
+    new Uint8Array([0, 0, 0, 100, 73, 69, 78, 68, 1, 2, 3, 0, 0, 0, 0]),
+  );
+});
+
+Deno.test("pngFile() - recompute covers edited refined chunks", () => {
+  const source = encodeRaw({
+    signature: SIGNATURE,
+    chunks: DAMAGED.chunks.filter(({ type }) => type[0] !== 73), // no IDAT
+  });
+  const [file] = pngFile().decode(source);
+  const edited = {
+    ...file,
+    chunks: file.chunks.map((chunk) =>
+      chunk.type === "tEXt"
+        ? { ...chunk, data: { keyword: "Title", text: "Edited" } }
+        : chunk
+    ),
+  };
+
+  const bytes = new Uint8Array(256);
+  const written = pngFile({ crc: "recompute" }).encode(edited, bytes);
+  const [decoded] = pngFile({ crc: "verify" }).decode(
+    bytes.subarray(0, written),
+  );
+
+  assertEquals(decoded.chunks[1], {
+    length: 12,
+    type: "tEXt",
+    data: { keyword: "Title", text: "Edited" },
+    crc: chunkCrc(encoder.encode("tEXtTitle\0Edited")),
+  });
+});
+
+Deno.test("pngFile() - every pngsuite image verifies", async () => {
+  const fixtures = new URL("../pngsuite/fixtures/", import.meta.url);
+  const coder = pngFile({ crc: "verify" });
+
+  for (const { name } of Deno.readDirSync(fixtures)) {
+    const bytes = await Deno.readFile(new URL(name, fixtures));
+    const [, bytesRead] = coder.decode(bytes);
+
+    assertEquals(bytesRead, bytes.length, name);
+  }
+});
+
+Deno.test("pngFile() - verify reports a damaged chunk before refining it", () => {
+  const bytes = encodeRaw({
+    signature: SIGNATURE,
+    chunks: [
+      // Keyword "A", then text that does not inflate
+      rawChunk("zTXt", [65, 0, 0, 1, 2, 3], 1),
+      withCrc(rawChunk("IEND", [])),
+    ],
+  });
+
+  assertThrows(
+    () => pngFile({ crc: "verify" }).decode(bytes),
+    Error,
+    "Invalid CRC: 0x00000001 on chunk 0 (zTXt).",
+  );
+});
@@ -0,0 +1,137 @@
+import type { Coder, Context } from "@hertzg/binstruct";
+import { crc32 } from "@hertzg/crc";
+
+/**
+ * What a PNG file coder does with chunk CRCs.
+ *
+ * - `"preserve"` (default): CRCs are plain fields, read and written as they
+ *   are. Checking and fixing them is the caller's job, with `chunkCrc()`.
+ * - `"verify"`: every chunk's CRC is checked against its type and data, both
+ *   when decoding and when encoding.
+ * - `"recompute"`: every chunk is encoded with a correct CRC, whatever its
+ *   `crc` field holds. Decoding is as with `"preserve"`.
+ */
+export type PngCrcPolicy = "preserve" | "verify" | "recompute";
+
+/**
+ * A chunk whose stored CRC does not match its type and data.
+ */
+export interface PngCrcMismatch {
+  /** Position of the chunk in the file, 0 for the first chunk */
+  index: number;
+  /** Chunk type, e.g. "IDAT" */
+  type: string;
+  /** CRC stored in the chunk */
+  crc: number;
+  /** CRC computed over the chunk's type and data */
+  expected: number;
+}
+
+/**
+ * Options for {@link pngFile} and {@link pngFileChunks}.
+ */
+export interface PngFileOptions {
+  /** CRC policy. Defaults to `"preserve"`. See {@link PngCrcPolicy}. */
+  crc?: PngCrcPolicy;
+  /**
+   * Called for each mismatch the `"verify"` policy finds, in chunk order.
+   * When omitted, the first mismatch throws instead.
+   */
+  onCrcMismatch?: (mismatch: PngCrcMismatch) => void;
+}
+
+const SIGNATURE_LENGTH = 8;
+
+function hex(value: number): string {
+  return `0x${value.toString(16).padStart(8, "0")}`;
+}
+
+// Walks the chunks the way `pngFileChunks()` frames them: length, type, data
+// and CRC, for as long as a whole chunk header remains
+function verifyChunkCrcs(
+  bytes: Uint8Array,
+  onCrcMismatch: PngFileOptions["onCrcMismatch"],
+): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = SIGNATURE_LENGTH;
+  for (let index = 0; offset + 12 <= bytes.length; index++) {
+    const length = view.getUint32(offset);
+    const crcOffset = offset + 8 + length;
+    if (crcOffset + 4 > bytes.length) return;
+
+    const crc = view.getUint32(crcOffset);
+    const expected = crc32(bytes.subarray(offset + 4, crcOffset));
+    if (crc !== expected) {
+      const type = String.fromCharCode(
+        ...bytes.subarray(offset + 4, offset + 8),
+      );
+      if (onCrcMismatch === undefined) {
+        throw new Error(
+          `Invalid CRC: ${hex(crc)} on chunk ${index} (${type}). Must be ${
+            hex(expected)
+          }.`,
+        );
+      }
+      onCrcMismatch({ index, type, crc, expected });
+    }
+    offset = crcOffset + 4;
+  }
+}
+
+// Walks the chunks as `verifyChunkCrcs()` does, leaving a chunk whose length
+// runs past the end as it was written
+function recomputeChunkCrcs(bytes: Uint8Array): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = SIGNATURE_LENGTH;
+  while (offset + 12 <= bytes.length) {
+    const crcOffset = offset + 8 + view.getUint32(offset);
+    if (crcOffset + 4 > bytes.length) return;
+
+    view.setUint32(crcOffset, crc32(bytes.subarray(offset + 4, crcOffset)));
+    offset = crcOffset + 4;
+  }
+}
+
+/**
+ * Wraps a PNG file coder so that it applies a CRC policy.
+ *
+ * The policy works on the encoded bytes rather than on chunk objects, so it
+ * applies whatever chunk coder the file coder was built with.
+ *
+ * @param coder A coder from `pngFileChunks()`
+ * @param options The CRC policy
+ * @returns `coder` itself for `"preserve"`, otherwise a coder applying the
+ *   policy around it
+ */
+export function withCrcPolicy<T>(
+  coder: Coder<T>,
+  options: PngFileOptions,
+): Coder<T> {
+  const { crc = "preserve", onCrcMismatch } = options;
+  if (crc === "preserve") return coder;
+
+  // A lazy view would skip verification, so "verify" only decodes eagerly
+  const { view: _view, ...eager } = coder;
+
+  return {
+    ...(crc === "verify" ? eager : coder),
+    encode: (decoded: T, target: Uint8Array, context?: Context): number => {
+      const written = coder.encode(decoded, target, context);
+      const bytes = target.subarray(0, written);
+      if (crc === "recompute") {
+        recomputeChunkCrcs(bytes);
+      } else {
+        verifyChunkCrcs(bytes, onCrcMismatch);
+      }
+      return written;
+    },
+    decode: (encoded: Uint8Array, context?: Context) => {
+      // Before decoding, so a damaged chunk is reported as such rather than
+      // by the refiner that fails on its data
+      if (crc === "verify") {
+        verifyChunkCrcs(encoded, onCrcMismatch);
+      }
+      return coder.decode(encoded, context);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  chunkCrc,
+  type PngChunkUnknown,
+  pngChunkUnknown,
+  pngFileChunks,
+  repairPng,
+} from "../mod.ts";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const IEND = [0, 0, 0, 0, 73, 69, 78, 68, 0xAE, 0x42, 0x60, 0x82];
+
+// tEXt "A\0B" with a zero CRC
+const TEXT = [0, 0, 0, 3, 116, 69, 88, 116, 65, 0, 66, 0, 0, 0, 0];
+
+function decodeChunks(bytes: Uint8Array): PngChunkUnknown[] {
+  return pngFileChunks(pngChunkUnknown(), { crc: "verify" })
+    .decode(bytes)[0]
+    .chunks;
+}
+
+function typeOf(chunk: PngChunkUnknown): string {
+  return new TextDecoder().decode(chunk.type);
+}
+
+Deno.test("repairPng() - recomputes CRCs", () => {
+  const repaired = repairPng(new Uint8Array([...SIGNATURE, ...TEXT, ...IEND]));
+  const chunks = decodeChunks(repaired);
+
+  assertEquals(chunks.map(typeOf), ["tEXt", "IEND"]);
+  assertEquals(chunks[0].crc, chunkCrc(chunks[0]));
+});
+
+Deno.test("repairPng() - moves an early IEND to the end", () => {
+  const repaired = repairPng(
+    new Uint8Array([...SIGNATURE, ...IEND, ...TEXT, ...IEND]),
+  );
+
+  assertEquals(decodeChunks(repaired).map(typeOf), ["tEXt", "IEND"]);
+});
+
+Deno.test("repairPng() - appends a missing IEND", () => {
+  const repaired = repairPng(new Uint8Array([...SIGNATURE, ...TEXT]));
+
+  assertEquals(repaired.subarray(-12), new Uint8Array(IEND));
+});
+
+Deno.test("repairPng() - drops a chunk that runs past the end", () => {
+  const repaired = repairPng(
+    new Uint8Array([...SIGNATURE, ...TEXT, ...TEXT.slice(0, 13)]),
+  );
+
+  assertEquals(decodeChunks(repaired).map(typeOf), ["tEXt", "IEND"]);
+  assertEquals(repaired.length, 8 + 15 + 12);
+});
+
+Deno.test("repairPng() - empties an IEND with data", () => {
+  const repaired = repairPng(
+    new Uint8Array([
+      ...SIGNATURE,
+      ...[0, 0, 0, 1, 73, 69, 78, 68, 0, 0, 0, 0, 0],
+    ]),
+  );
+
+  assertEquals(repaired, new Uint8Array([...SIGNATURE, ...IEND]));
+});
+
+Deno.test("repairPng() - leaves valid pngsuite images unchanged", async () => {
+  const fixtures = new URL("../pngsuite/fixtures/", import.meta.url);
+
+  for (const { name } of Deno.readDirSync(fixtures)) {
+    const bytes = await Deno.readFile(new URL(name, fixtures));
+
+    assertEquals(repairPng(bytes), bytes, name);
+  }
+});
+
+Deno.test("repairPng() - throws without a PNG signature", () => {
+  assertThrows(
+    () => repairPng(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61])),
+    Error,
+    "Invalid PNG signature: 71 73 70 56 57 97. Must be 137 80 78 71 13 10 26 10.",
+  );
+});
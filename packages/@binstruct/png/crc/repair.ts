@@ -0,0 +1,87 @@
+import { crc32 } from "@hertzg/crc";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const IEND_TYPE = [73, 69, 78, 68];
+
+/**
+ * Repairs the framing of a damaged PNG file.
+ *
+ * The chunks are read by their length fields, as `pngFileChunks()` reads
+ * them, and written back:
+ *
+ * - Every chunk gets a correct CRC.
+ * - IEND chunks are dropped wherever they are, and one empty IEND is written
+ *   last. Well-formed chunks after an early IEND are kept before it.
+ * - A chunk that runs past the end of the file, and any bytes after it, are
+ *   dropped, as are trailing bytes too short to hold a chunk.
+ *
+ * Chunk contents are not checked: a chunk with a correct CRC may still hold
+ * data its refiner rejects.
+ *
+ * @param bytes The damaged file
+ * @returns A new file with valid CRCs that ends in IEND
+ * @throws {Error} If `bytes` does not start with the PNG signature
+ *
+ * @example Fix a stale CRC and a missing IEND
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { chunkCrc, pngChunkUnknown, pngFileChunks, repairPng } from "@binstruct/png";
+ *
+ * // deno-fmt-ignore
+ * const damaged = new Uint8Array([
+ *   137, 80, 78, 71, 13, 10, 26, 10,
+ *   0, 0, 0, 1, 116, 69, 88, 116, 65, 0, 0, 0, 0, // tEXt "A", CRC 0
+ * ]);
+ *
+ * const repaired = repairPng(damaged);
+ * const [file] = pngFileChunks(pngChunkUnknown()).decode(repaired);
+ *
+ * assertEquals(file.chunks.length, 2);
+ * assertEquals(file.chunks[0].crc, chunkCrc(file.chunks[0]));
+ * assertEquals(file.chunks[1].crc, 0xAE426082); // IEND
+ * ```
+ */
+export function repairPng(bytes: Uint8Array): Uint8Array {
+  if (PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error(
+      `Invalid PNG signature: ${
+        [...bytes.subarray(0, 8)].join(" ")
+      }. Must be ${PNG_SIGNATURE.join(" ")}.`,
+    );
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) break;
+
+    const type = bytes.subarray(offset + 4, offset + 8);
+    if (IEND_TYPE.some((byte, i) => type[i] !== byte)) {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const iend = new Uint8Array([0, 0, 0, 0, ...IEND_TYPE, 0, 0, 0, 0]);
+  chunks.push(iend);
+
+  const repaired = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, PNG_SIGNATURE.length),
+  );
+  const repairedView = new DataView(repaired.buffer);
+  repaired.set(PNG_SIGNATURE);
+  offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    repaired.set(chunk, offset);
+    const crcOffset = offset + chunk.length - 4;
+    repairedView.setUint32(
+      crcOffset,
+      crc32(repaired.subarray(offset + 4, crcOffset)),
+    );
+    offset += chunk.length;
+  }
+
+  return repaired;
+}
@@ -0,0 +1,50 @@
+import { assertEquals } from "@std/assert";
+import { adam7Passes } from "./adam7.ts";
+
+Deno.test("adam7Passes() - covers every pixel exactly once", () => {
+  for (const [width, height] of [[1, 1], [8, 8], [13, 5], [3, 17]]) {
+    const seen = new Uint8Array(width * height);
+
+    for (const pass of adam7Passes(width, height)) {
+      for (let j = 0; j < pass.height; j++) {
+        for (let i = 0; i < pass.width; i++) {
+          seen[(pass.y + j * pass.yStep) * width + pass.x + i * pass.xStep]++;
+        }
+      }
+    }
+
+    assertEquals(seen, new Uint8Array(width * height).fill(1));
+  }
+});
+
+Deno.test("adam7Passes() - places the passes on an 8x8 block", () => {
+  // deno-fmt-ignore
+  const expected = [
+    1, 6, 4, 6, 2, 6, 4, 6,
+    7, 7, 7, 7, 7, 7, 7, 7,
+    5, 6, 5, 6, 5, 6, 5, 6,
+    7, 7, 7, 7, 7, 7, 7, 7,
+    3, 6, 4, 6, 3, 6, 4, 6,
+    7, 7, 7, 7, 7, 7, 7, 7,
+    5, 6, 5, 6, 5, 6, 5, 6,
+    7, 7, 7, 7, 7, 7, 7, 7,
+  ];
+  const block = new Array(64).fill(0);
+
+  adam7Passes(8, 8).forEach((pass, index) => {
+    for (let j = 0; j < pass.height; j++) {
+      for (let i = 0; i < pass.width; i++) {
+        block[(pass.y + j * pass.yStep) * 8 + pass.x + i * pass.xStep] = index +
+          1;
+      }
+    }
+  });
+
+  assertEquals(block, expected);
+});
+
+Deno.test("adam7Passes() - a 1x1 image only has the first pass", () => {
+  const sizes = adam7Passes(1, 1).map(({ width, height }) => width * height);
+
+  assertEquals(sizes, [1, 0, 0, 0, 0, 0, 0]);
+});
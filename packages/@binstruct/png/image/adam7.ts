@@ -0,0 +1,59 @@
+/**
+ * One of the seven passes of Adam7 interlacing, placed on a given image.
+ *
+ * Pass pixel `(i, j)` is image pixel `(x + i * xStep, y + j * yStep)`.
+ */
+export interface Adam7Pass {
+  /** Column of the pass's first pixel */
+  x: number;
+  /** Row of the pass's first pixel */
+  y: number;
+  /** Columns between pass pixels */
+  xStep: number;
+  /** Rows between pass pixels */
+  yStep: number;
+  /** Pass width in pixels, 0 if the image is too narrow for the pass */
+  width: number;
+  /** Pass height in pixels, 0 if the image is too short for the pass */
+  height: number;
+}
+
+// deno-fmt-ignore
+const ADAM7 = [
+  { x: 0, y: 0, xStep: 8, yStep: 8 },
+  { x: 4, y: 0, xStep: 8, yStep: 8 },
+  { x: 0, y: 4, xStep: 4, yStep: 8 },
+  { x: 2, y: 0, xStep: 4, yStep: 4 },
+  { x: 0, y: 2, xStep: 2, yStep: 4 },
+  { x: 1, y: 0, xStep: 2, yStep: 2 },
+  { x: 0, y: 1, xStep: 1, yStep: 2 },
+] as const;
+
+/**
+ * Lists the seven Adam7 passes of an interlaced image in file order.
+ *
+ * Each pass is stored as a small image of its own, with its own filtered
+ * scanlines. A pass with a zero width or height has no scanlines at all,
+ * not even filter type bytes.
+ *
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @returns The seven passes with their sizes on this image
+ *
+ * @example A 3×3 image has nothing in passes 2 and 3
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { adam7Passes } from "@binstruct/png";
+ *
+ * const sizes = adam7Passes(3, 3).map(({ width, height }) => [width, height]);
+ *
+ * assertEquals(sizes, [[1, 1], [0, 1], [1, 0], [1, 1], [2, 1], [1, 2], [3, 1]]);
+ * ```
+ */
+export function adam7Passes(width: number, height: number): Adam7Pass[] {
+  return ADAM7.map((pass) => ({
+    ...pass,
+    width: Math.ceil(Math.max(0, width - pass.x) / pass.xStep),
+    height: Math.ceil(Math.max(0, height - pass.y) / pass.yStep),
+  }));
+}
@@ -0,0 +1,119 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  filterScanlines,
+  PNG_FILTER_TYPE,
+  type PngFilterStrategy,
+  type PngScanlineLayout,
+  unfilterScanlines,
+} from "./filter.ts";
+
+// Two RGB pixels per row, three rows
+const LAYOUT: PngScanlineLayout = { rowBytes: 6, rows: 3, bytesPerPixel: 3 };
+
+// deno-fmt-ignore
+const RAW = new Uint8Array([
+  10, 20, 30, 40, 50, 60,
+  15, 25, 35, 45, 55, 65,
+  200, 100, 0, 255, 255, 255,
+]);
+
+Deno.test("unfilterScanlines() - reverses each filter type", () => {
+  // Second row filtered against the first row [10, 20, 30, 40, 50, 60]
+  // deno-fmt-ignore
+  const cases: [number, number[], number[]][] = [
+    [PNG_FILTER_TYPE.NONE, [15, 25, 35, 45, 55, 65], [15, 25, 35, 45, 55, 65]],
+    [PNG_FILTER_TYPE.SUB, [15, 25, 35, 30, 30, 30], [15, 25, 35, 45, 55, 65]],
+    [PNG_FILTER_TYPE.UP, [5, 5, 5, 5, 5, 5], [15, 25, 35, 45, 55, 65]],
+    // Average: 15 - 5, 25 - 10, 35 - 15, then 45 - (15 + 40) / 2 ...
+    [PNG_FILTER_TYPE.AVERAGE, [10, 15, 20, 18, 18, 18], [15, 25, 35, 45, 55, 65]],
+    // Paeth: above is always the closest predictor here
+    [PNG_FILTER_TYPE.PAETH, [5, 5, 5, 5, 5, 5], [15, 25, 35, 45, 55, 65]],
+  ];
+
+  for (const [filterType, line, expected] of cases) {
+    const filtered = new Uint8Array([
+      PNG_FILTER_TYPE.NONE,
+      ...RAW.subarray(0, 6),
+      filterType,
+      ...line,
+    ]);
+
+    const raw = unfilterScanlines(filtered, { ...LAYOUT, rows: 2 });
+
+    assertEquals(
+      raw.subarray(6),
+      new Uint8Array(expected),
+      `filter ${filterType}`,
+    );
+  }
+});
+
+Deno.test("unfilterScanlines() - wraps modulo 256", () => {
+  const raw = unfilterScanlines(
+    new Uint8Array([PNG_FILTER_TYPE.SUB, 200, 100]),
+    { rowBytes: 2, rows: 1, bytesPerPixel: 1 },
+  );
+
+  assertEquals(raw, new Uint8Array([200, 44]));
+});
+
+Deno.test("filterScanlines() - round-trips with every strategy", () => {
+  const strategies: PngFilterStrategy[] = [
+    ...Object.values(PNG_FILTER_TYPE),
+    "adaptive",
+  ];
+
+  for (const strategy of strategies) {
+    const filtered = filterScanlines(RAW, LAYOUT, strategy);
+
+    assertEquals(filtered.length, 3 * 7);
+    if (strategy !== "adaptive") {
+      assertEquals([filtered[0], filtered[7], filtered[14]], [
+        strategy,
+        strategy,
+        strategy,
+      ]);
+    }
+    assertEquals(unfilterScanlines(filtered, LAYOUT), RAW, `${strategy}`);
+  }
+});
+
+Deno.test("filterScanlines() - adaptive picks the smallest residues per row", () => {
+  // A horizontal ramp suits Sub; a copy of the row above suits Up
+  // deno-fmt-ignore
+  const raw = new Uint8Array([
+    0, 1, 2, 3, 4, 5, 6, 7,
+    0, 1, 2, 3, 4, 5, 6, 7,
+  ]);
+
+  const filtered = filterScanlines(raw, {
+    rowBytes: 8,
+    rows: 2,
+    bytesPerPixel: 1,
+  });
+
+  assertEquals(filtered[0], PNG_FILTER_TYPE.SUB);
+  assertEquals(filtered[9], PNG_FILTER_TYPE.UP);
+  assertEquals(filtered.subarray(10), new Uint8Array(8));
+});
+
+Deno.test("unfilterScanlines() - throws on an unknown filter type", () => {
+  assertThrows(
+    () =>
+      unfilterScanlines(new Uint8Array([0, 1, 5, 1]), {
+        rowBytes: 1,
+        rows: 2,
+        bytesPerPixel: 1,
+      }),
+    Error,
+    "Invalid filter type: 5 on scanline 1. Must be 0 to 4.",
+  );
+});
+
+Deno.test("unfilterScanlines() - throws on truncated scanlines", () => {
+  assertThrows(
+    () => unfilterScanlines(new Uint8Array(13), LAYOUT),
+    RangeError,
+    "Need 21 bytes, got 13",
+  );
+});
@@ -0,0 +1,273 @@
+/**
+ * PNG filter types (PNG specification, section 9.2).
+ *
+ * Every scanline of a PNG image starts with one of these bytes, naming how
+ * the rest of the line predicts each byte from its neighbours: the byte one
+ * pixel to the left (`a`), the byte above (`b`) and the byte above and to the
+ * left (`c`).
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { PNG_FILTER_TYPE } from "@binstruct/png";
+ *
+ * assertEquals(PNG_FILTER_TYPE.PAETH, 4);
+ * ```
+ */
+export const PNG_FILTER_TYPE = {
+  /** No prediction */
+  NONE: 0,
+  /** Predict from the byte to the left */
+  SUB: 1,
+  /** Predict from the byte above */
+  UP: 2,
+  /** Predict from the mean of the left and above bytes */
+  AVERAGE: 3,
+  /** Predict from whichever of left, above and above-left is closest */
+  PAETH: 4,
+} as const;
+
+/** One of the {@link PNG_FILTER_TYPE} values. */
+export type PngFilterType =
+  typeof PNG_FILTER_TYPE[keyof typeof PNG_FILTER_TYPE];
+
+/**
+ * How {@link filterScanlines} picks a filter for each scanline.
+ *
+ * - A {@link PngFilterType} filters every scanline the same way.
+ * - `"adaptive"` tries all five filters on each scanline and keeps the one
+ *   whose output bytes, read as signed, have the smallest sum of absolute
+ *   values. This is the heuristic the PNG specification recommends and
+ *   libpng uses for truecolor and grayscale images of 8 bits and more.
+ */
+export type PngFilterStrategy = PngFilterType | "adaptive";
+
+/**
+ * Geometry of a run of scanlines: one image, or one Adam7 pass.
+ */
+export interface PngScanlineLayout {
+  /** Bytes in one unfiltered scanline, without the filter type byte */
+  rowBytes: number;
+  /** Number of scanlines */
+  rows: number;
+  /**
+   * Bytes per complete pixel, rounded up to 1 for bit depths below 8. This is
+   * the distance to the "left" byte the filters predict from.
+   */
+  bytesPerPixel: number;
+}
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Reverses PNG filtering, turning filtered scanlines into raw ones.
+ *
+ * `filtered` holds `rows` scanlines of `rowBytes + 1` bytes each, the first
+ * byte of each being its filter type. The result holds the same scanlines
+ * without the filter type bytes, ready to be unpacked into samples.
+ *
+ * @param filtered Filtered scanlines, e.g. the inflated IDAT data
+ * @param layout Geometry of the scanlines
+ * @returns `rows * rowBytes` bytes of raw scanlines
+ * @throws {RangeError} If `filtered` is shorter than the layout needs
+ * @throws {Error} If a scanline names an unknown filter type
+ *
+ * @example Reverse a Sub and an Up filter
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { unfilterScanlines } from "@binstruct/png";
+ *
+ * // deno-fmt-ignore
+ * const filtered = new Uint8Array([
+ *   1, 10, 5, 5, // Sub: each byte adds the one to its left
+ *   2, 1, 1, 1,  // Up: each byte adds the one above
+ * ]);
+ *
+ * const raw = unfilterScanlines(filtered, {
+ *   rowBytes: 3,
+ *   rows: 2,
+ *   bytesPerPixel: 1,
+ * });
+ *
+ * assertEquals(raw, new Uint8Array([10, 15, 20, 11, 16, 21]));
+ * ```
+ */
+export function unfilterScanlines(
+  filtered: Uint8Array,
+  layout: PngScanlineLayout,
+): Uint8Array {
+  const { rowBytes, rows, bytesPerPixel: bpp } = layout;
+  const needed = rows * (rowBytes + 1);
+  if (filtered.length < needed) {
+    throw new RangeError(`Need ${needed} bytes, got ${filtered.length}`);
+  }
+
+  const raw = new Uint8Array(rows * rowBytes);
+  const zeros = new Uint8Array(rowBytes);
+
+  for (let y = 0; y < rows; y++) {
+    const start = y * (rowBytes + 1);
+    const filterType = filtered[start];
+    const line = filtered.subarray(start + 1, start + 1 + rowBytes);
+    const out = raw.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const prior = y === 0 ? zeros : raw.subarray((y - 1) * rowBytes, y * rowBytes);
+
+    switch (filterType) {
+      case PNG_FILTER_TYPE.NONE:
+        out.set(line);
+        break;
+      case PNG_FILTER_TYPE.SUB:
+        for (let i = 0; i < rowBytes; i++) {
+          out[i] = line[i] + (i < bpp ? 0 : out[i - bpp]);
+        }
+        break;
+      case PNG_FILTER_TYPE.UP:
+        for (let i = 0; i < rowBytes; i++) {
+          out[i] = line[i] + prior[i];
+        }
+        break;
+      case PNG_FILTER_TYPE.AVERAGE:
+        for (let i = 0; i < rowBytes; i++) {
+          const left = i < bpp ? 0 : out[i - bpp];
+          out[i] = line[i] + ((left + prior[i]) >> 1);
+        }
+        break;
+      case PNG_FILTER_TYPE.PAETH:
+        for (let i = 0; i < rowBytes; i++) {
+          const left = i < bpp ? 0 : out[i - bpp];
+          const upperLeft = i < bpp ? 0 : prior[i - bpp];
+          out[i] = line[i] + paethPredictor(left, prior[i], upperLeft);
+        }
+        break;
+      default:
+        throw new Error(
+          `Invalid filter type: ${filterType} on scanline ${y}. Must be 0 to 4.`,
+        );
+    }
+  }
+
+  return raw;
+}
+
+function filterScanline(
+  filterType: PngFilterType,
+  line: Uint8Array,
+  prior: Uint8Array,
+  bpp: number,
+  out: Uint8Array,
+): void {
+  out[0] = filterType;
+  for (let i = 0; i < line.length; i++) {
+    const left = i < bpp ? 0 : line[i - bpp];
+    const up = prior[i];
+    const upperLeft = i < bpp ? 0 : prior[i - bpp];
+    let predicted: number;
+    switch (filterType) {
+      case PNG_FILTER_TYPE.NONE:
+        predicted = 0;
+        break;
+      case PNG_FILTER_TYPE.SUB:
+        predicted = left;
+        break;
+      case PNG_FILTER_TYPE.UP:
+        predicted = up;
+        break;
+      case PNG_FILTER_TYPE.AVERAGE:
+        predicted = (left + up) >> 1;
+        break;
+      case PNG_FILTER_TYPE.PAETH:
+        predicted = paethPredictor(left, up, upperLeft);
+        break;
+    }
+    out[i + 1] = line[i] - predicted;
+  }
+}
+
+function sumOfAbsolutes(filtered: Uint8Array): number {
+  let sum = 0;
+  // Skip the filter type byte; the rest count as signed bytes
+  for (let i = 1; i < filtered.length; i++) {
+    sum += filtered[i] < 128 ? filtered[i] : 256 - filtered[i];
+  }
+  return sum;
+}
+
+/**
+ * Applies PNG filtering to raw scanlines.
+ *
+ * The inverse of {@link unfilterScanlines}: each of the `rows` scanlines of
+ * `rowBytes` bytes in `raw` is prefixed with a filter type byte and replaced
+ * by its prediction residues.
+ *
+ * @param raw `rows * rowBytes` bytes of raw scanlines
+ * @param layout Geometry of the scanlines
+ * @param strategy Filter for every scanline, or `"adaptive"` to pick one per
+ *   scanline
+ * @returns `rows * (rowBytes + 1)` bytes of filtered scanlines
+ *
+ * @example Filtering then unfiltering restores the scanlines
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import {
+ *   filterScanlines,
+ *   PNG_FILTER_TYPE,
+ *   unfilterScanlines,
+ * } from "@binstruct/png";
+ *
+ * const layout = { rowBytes: 6, rows: 2, bytesPerPixel: 3 };
+ * const raw = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+ *
+ * const filtered = filterScanlines(raw, layout, PNG_FILTER_TYPE.SUB);
+ *
+ * assertEquals(filtered.subarray(0, 7), new Uint8Array([1, 1, 2, 3, 3, 3, 3]));
+ * assertEquals(unfilterScanlines(filtered, layout), raw);
+ * ```
+ */
+export function filterScanlines(
+  raw: Uint8Array,
+  layout: PngScanlineLayout,
+  strategy: PngFilterStrategy = "adaptive",
+): Uint8Array {
+  const { rowBytes, rows, bytesPerPixel: bpp } = layout;
+  const filtered = new Uint8Array(rows * (rowBytes + 1));
+  const zeros = new Uint8Array(rowBytes);
+  const candidates = strategy === "adaptive"
+    ? Object.values(PNG_FILTER_TYPE).map(() => new Uint8Array(rowBytes + 1))
+    : [];
+
+  for (let y = 0; y < rows; y++) {
+    const line = raw.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const prior = y === 0
+      ? zeros
+      : raw.subarray((y - 1) * rowBytes, y * rowBytes);
+    const out = filtered.subarray(y * (rowBytes + 1), (y + 1) * (rowBytes + 1));
+
+    if (strategy !== "adaptive") {
+      filterScanline(strategy, line, prior, bpp, out);
+      continue;
+    }
+
+    let best = candidates[0];
+    let bestSum = Infinity;
+    for (const filterType of Object.values(PNG_FILTER_TYPE)) {
+      const candidate = candidates[filterType];
+      filterScanline(filterType, line, prior, bpp, candidate);
+      const sum = sumOfAbsolutes(candidate);
+      if (sum < bestSum) {
+        best = candidate;
+        bestSum = sum;
+      }
+    }
+    out.set(best);
+  }
+
+  return filtered;
+}
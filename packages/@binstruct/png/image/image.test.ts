@@ -0,0 +1,268 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createContext } from "@hertzg/binstruct";
+import { zlibSync } from "fflate";
+import {
+  chunkCrc,
+  decodePngImage,
+  encodePngImage,
+  type PngChunkRefined,
+  pngChunkUnknown,
+  type PngFile,
+  pngFile,
+  pngFileChunks,
+  type PngImage,
+} from "../mod.ts";
+import { ihdrChunkRefiner } from "../chunks/ihdr.ts";
+import { iendChunkRefiner } from "../chunks/iend.ts";
+
+const FIXTURES = new URL("../pngsuite/fixtures/", import.meta.url);
+
+async function readFixture(name: string): Promise<PngFile<PngChunkRefined>> {
+  const bytes = await Deno.readFile(new URL(name, FIXTURES));
+  const [file] = pngFile().decode(bytes);
+  return file;
+}
+
+function encodeFile(file: PngFile<PngChunkRefined>): Uint8Array {
+  const bytes = new Uint8Array(1 << 20);
+  const written = pngFile().encode(file, bytes);
+  return bytes.subarray(0, written);
+}
+
+Deno.test("decodePngImage() - interlaced pngsuite images match their non-interlaced twins", async () => {
+  const names = [...Deno.readDirSync(FIXTURES)]
+    .map(({ name }) => name)
+    .filter((name) => name.startsWith("basi"));
+
+  for (const name of names) {
+    const interlaced = decodePngImage(await readFixture(name), {
+      format: "native",
+    });
+    const progressive = decodePngImage(
+      await readFixture(name.replace("basi", "basn")),
+      { format: "native" },
+    );
+
+    assertEquals(interlaced.pixels, progressive.pixels, name);
+  }
+});
+
+Deno.test("decodePngImage() - converts pngsuite images to rgba8", async () => {
+  const cases: [string, number[]][] = [
+    ["basn0g01.png", [255, 255, 255, 255]],
+    ["basn3p04.png", [255, 0, 0, 255]],
+    ["basn4a08.png", [255, 255, 255, 0, 255, 255, 255, 8]],
+    ["basn6a08.png", [255, 0, 8, 0]],
+    ["basn3p08-trns.png", [2, 22, 19, 4]],
+    ["basn2c16.png", [255, 255, 0, 255]],
+  ];
+
+  for (const [name, expected] of cases) {
+    const image = decodePngImage(await readFixture(name));
+
+    assertEquals(image.colorType, 6);
+    assertEquals(image.bitDepth, 8);
+    assertEquals(image.pixels.length, image.width * image.height * 4);
+    assertEquals(
+      [...image.pixels.subarray(0, expected.length)],
+      expected,
+      name,
+    );
+  }
+});
+
+Deno.test("decodePngImage() - scales samples to rgba16", async () => {
+  const image = decodePngImage(await readFixture("basn0g01.png"), {
+    format: "rgba16",
+  });
+
+  assertEquals(image.bitDepth, 16);
+  assertEquals(image.pixels instanceof Uint16Array, true);
+  assertEquals([...image.pixels.subarray(0, 4)], [65535, 65535, 65535, 65535]);
+});
+
+Deno.test("encodePngImage() - round-trips every pngsuite image", async () => {
+  for (const { name } of Deno.readDirSync(FIXTURES)) {
+    const image = decodePngImage(await readFixture(name), { format: "native" });
+
+    for (const interlace of [false, true]) {
+      const bytes = encodeFile(encodePngImage(image, { interlace }));
+      const [file] = pngFile().decode(bytes);
+
+      assertEquals(
+        decodePngImage(file, { format: "native" }),
+        image,
+        `${name} interlace=${interlace}`,
+      );
+    }
+  }
+});
+
+Deno.test("encodePngImage() - writes valid lengths and CRCs", () => {
+  const file = encodePngImage({
+    width: 2,
+    height: 1,
+    colorType: 3,
+    bitDepth: 8,
+    pixels: new Uint8Array([0, 1]),
+    palette: [[0, 0, 0], [255, 255, 255]],
+    transparency: [0],
+  });
+
+  assertEquals(file.chunks.map(({ type }) => type), [
+    "IHDR",
+    "PLTE",
+    "tRNS",
+    "IDAT",
+    "IEND",
+  ]);
+
+  const [raw] = pngFileChunks(pngChunkUnknown()).decode(encodeFile(file));
+  for (const chunk of raw.chunks) {
+    assertEquals(chunk.length, chunk.data.length);
+    assertEquals(chunk.crc, chunkCrc(chunk));
+  }
+});
+
+Deno.test("decodePngImage() - applies a tRNS color key", () => {
+  const image: PngImage = {
+    width: 2,
+    height: 1,
+    colorType: 2,
+    bitDepth: 16,
+    pixels: new Uint16Array([0xffff, 0, 0, 0x1234, 0x5678, 0x9abc]),
+    transparency: [0x1234, 0x5678, 0x9abc],
+  };
+
+  const decoded = decodePngImage(encodePngImage(image));
+
+  assertEquals(
+    decoded.pixels,
+    new Uint8Array([255, 0, 0, 255, 0x12, 0x56, 0x9a, 0]),
+  );
+});
+
+Deno.test("decodePngImage() - inflates image data split over several IDAT chunks", () => {
+  const context = createContext("encode");
+  // 2x2 8-bit grayscale, scanlines filtered with None
+  const compressed = zlibSync(new Uint8Array([0, 10, 20, 0, 30, 40]));
+  const ihdr = ihdrChunkRefiner().unrefine({
+    length: 13,
+    type: "IHDR",
+    data: {
+      width: 2,
+      height: 2,
+      bitDepth: 8,
+      colorType: 0,
+      compressionMethod: 0,
+      filterMethod: 0,
+      interlaceMethod: 0,
+    },
+    crc: 0,
+  }, context);
+  const idat = (data: Uint8Array) => ({
+    length: data.length,
+    type: new TextEncoder().encode("IDAT"),
+    data,
+    crc: 0,
+  });
+  const iend = iendChunkRefiner().unrefine({
+    length: 0,
+    type: "IEND",
+    crc: 0,
+  }, context);
+
+  const image = decodePngImage({
+    signature: {
+      highBitByte: 137,
+      signature: "PNG",
+      dosLineEnding: "\r\n",
+      dosEOF: "\u001a",
+      unixLineEnding: "\n",
+    },
+    chunks: [
+      ihdr,
+      idat(compressed.subarray(0, 3)),
+      idat(compressed.subarray(3)),
+      iend,
+    ],
+  }, { format: "native" });
+
+  assertEquals(image.pixels, new Uint8Array([10, 20, 30, 40]));
+});
+
+Deno.test("decodePngImage() - throws without an IHDR chunk", () => {
+  const file = encodePngImage({
+    width: 1,
+    height: 1,
+    colorType: 0,
+    bitDepth: 8,
+    pixels: new Uint8Array([0]),
+  });
+
+  assertThrows(
+    () => decodePngImage({ ...file, chunks: file.chunks.slice(1) }),
+    Error,
+    "Invalid PNG: no IHDR chunk. Must start with IHDR.",
+  );
+});
+
+Deno.test("decodePngImage() - throws on an indexed image without PLTE", () => {
+  const file = encodePngImage({
+    width: 1,
+    height: 1,
+    colorType: 3,
+    bitDepth: 8,
+    pixels: new Uint8Array([0]),
+    palette: [[0, 0, 0]],
+  });
+
+  assertThrows(
+    () =>
+      decodePngImage({
+        ...file,
+        chunks: file.chunks.filter(({ type }) => type !== "PLTE"),
+      }),
+    Error,
+    "Invalid PNG: color type 3 without a PLTE chunk.",
+  );
+});
+
+Deno.test("encodePngImage() - rejects invalid images", () => {
+  assertThrows(
+    () =>
+      encodePngImage({
+        width: 2,
+        height: 2,
+        colorType: 2,
+        bitDepth: 8,
+        pixels: new Uint8Array(11),
+      }),
+    Error,
+    "Invalid pixels length: 11. Must be 12 for 2x2 pixels of 3 samples.",
+  );
+  assertThrows(
+    () =>
+      encodePngImage({
+        width: 1,
+        height: 1,
+        colorType: 2,
+        bitDepth: 4,
+        pixels: new Uint8Array(3),
+      }),
+    Error,
+    "Invalid bit depth",
+  );
+  assertThrows(
+    () =>
+      encodePngImage({
+        width: 1,
+        height: 1,
+        colorType: 3,
+        bitDepth: 8,
+        pixels: new Uint8Array(1),
+      }),
+    Error,
+    "Invalid image: color type 3 without a palette.",
+  );
+});
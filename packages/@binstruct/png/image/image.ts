@@ -0,0 +1,663 @@
+import {
+  type Context,
+  createContext,
+  decode,
+  type Refiner,
+  string,
+} from "@hertzg/binstruct";
+import { unzlibSync } from "fflate";
+import {
+  chunkCrc,
+  type PngChunkRefined,
+  type PngChunkUnknown,
+  type PngFile,
+} from "../mod.ts";
+import { type IhdrChunk, ihdrChunkRefiner } from "../chunks/ihdr.ts";
+import { type PlteChunk, plteChunkRefiner } from "../chunks/plte.ts";
+import { type TrnsChunk, trnsChunkRefiner } from "../chunks/trns.ts";
+import { type IdatChunk, idatChunkRefiner } from "../chunks/idat.ts";
+import { iendChunkRefiner } from "../chunks/iend.ts";
+import { decodeHeader, type ZlibHeader } from "../zlib/header.ts";
+import { type Adam7Pass, adam7Passes } from "./adam7.ts";
+import {
+  filterScanlines,
+  PNG_FILTER_TYPE,
+  type PngFilterStrategy,
+  type PngScanlineLayout,
+  unfilterScanlines,
+} from "./filter.ts";
+
+/**
+ * A PNG image as pixels rather than chunks.
+ *
+ * `pixels` holds one element per sample, row by row, with the samples of a
+ * pixel next to each other in the order of its color type: gray; red, green,
+ * blue; palette index; gray, alpha; or red, green, blue, alpha. Samples are
+ * unpacked and not scaled, so a 4-bit gray image holds values 0 to 15. A
+ * 16-bit image uses a `Uint16Array`, every other bit depth a `Uint8Array`.
+ *
+ * @example A 2×1 RGBA image
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import type { PngImage } from "@binstruct/png";
+ *
+ * const image: PngImage = {
+ *   width: 2,
+ *   height: 1,
+ *   colorType: 6,
+ *   bitDepth: 8,
+ *   pixels: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 128]),
+ * };
+ *
+ * assertEquals(image.pixels.length, image.width * image.height * 4);
+ * ```
+ */
+export interface PngImage {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Color type: 0=grayscale, 2=RGB, 3=indexed, 4=grayscale+alpha, 6=RGBA */
+  colorType: number;
+  /** Bits per sample: 1, 2, 4, 8, or 16 depending on color type */
+  bitDepth: number;
+  /** Samples, row by row and pixel by pixel */
+  pixels: Uint8Array | Uint16Array;
+  /** PLTE colors, required for color type 3 */
+  palette?: [number, number, number][];
+  /**
+   * tRNS transparency, in samples rather than bytes:
+   * - Color type 0: the one gray value that is transparent
+   * - Color type 2: the red, green and blue of the one transparent color
+   * - Color type 3: the alpha of each palette entry, opaque past the end
+   */
+  transparency?: number[];
+}
+
+/**
+ * Options for {@link decodePngImage}.
+ */
+export interface PngImageDecodeOptions {
+  /**
+   * Layout of the returned pixels:
+   * - `"rgba8"` (default): 8-bit RGBA, color type 6
+   * - `"rgba16"`: 16-bit RGBA, color type 6
+   * - `"native"`: the file's own color type and bit depth, with its palette
+   *   and transparency
+   */
+  format?: "rgba8" | "rgba16" | "native";
+}
+
+/**
+ * Options for {@link encodePngImage}.
+ */
+export interface PngImageEncodeOptions {
+  /**
+   * Filter strategy for the scanlines. Defaults to no filtering for indexed
+   * images and bit depths below 8, and to `"adaptive"` otherwise, as the PNG
+   * specification recommends.
+   */
+  filter?: PngFilterStrategy;
+  /** Whether to write an Adam7 interlaced image. Defaults to `false`. */
+  interlace?: boolean;
+  /** zlib FLEVEL of the image data, 0 (store) to 3 (maximum). Defaults to 2. */
+  flevel?: number;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+};
+
+function channelCount(colorType: number, bitDepth: number): number {
+  const bitDepths = BIT_DEPTHS[colorType];
+  if (bitDepths === undefined) {
+    throw new Error(
+      `Invalid color type: ${colorType}. Must be 0, 2, 3, 4 or 6.`,
+    );
+  }
+  if (!bitDepths.includes(bitDepth)) {
+    throw new Error(
+      `Invalid bit depth: ${bitDepth} for color type ${colorType}. Must be ${
+        bitDepths.join(", ")
+      }.`,
+    );
+  }
+  return CHANNELS[colorType];
+}
+
+function imagePasses(
+  width: number,
+  height: number,
+  interlaced: boolean,
+): Adam7Pass[] {
+  if (!interlaced) {
+    return [{ x: 0, y: 0, xStep: 1, yStep: 1, width, height }];
+  }
+  return adam7Passes(width, height).filter((pass) =>
+    pass.width > 0 && pass.height > 0
+  );
+}
+
+function scanlineLayout(
+  pass: Adam7Pass,
+  bitsPerPixel: number,
+): PngScanlineLayout {
+  return {
+    rowBytes: Math.ceil(pass.width * bitsPerPixel / 8),
+    rows: pass.height,
+    bytesPerPixel: Math.max(1, bitsPerPixel >> 3),
+  };
+}
+
+function readSample(line: Uint8Array, index: number, bitDepth: number): number {
+  switch (bitDepth) {
+    case 16:
+      return (line[index * 2] << 8) | line[index * 2 + 1];
+    case 8:
+      return line[index];
+    default: {
+      // Sub-byte samples are packed from the most significant bit down
+      const bit = index * bitDepth;
+      const shift = 8 - bitDepth - (bit & 7);
+      return (line[bit >> 3] >> shift) & ((1 << bitDepth) - 1);
+    }
+  }
+}
+
+function writeSample(
+  line: Uint8Array,
+  index: number,
+  bitDepth: number,
+  value: number,
+): void {
+  switch (bitDepth) {
+    case 16:
+      line[index * 2] = value >> 8;
+      line[index * 2 + 1] = value;
+      break;
+    case 8:
+      line[index] = value;
+      break;
+    default: {
+      const bit = index * bitDepth;
+      const shift = 8 - bitDepth - (bit & 7);
+      line[bit >> 3] |= (value & ((1 << bitDepth) - 1)) << shift;
+    }
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+interface ImageChunks {
+  ihdr: IhdrChunk;
+  plte?: PlteChunk;
+  trns?: TrnsChunk;
+  /** Inflated and concatenated image data: the filtered scanlines */
+  scanlines: Uint8Array;
+}
+
+function collectImageChunks(file: PngFile<PngChunkRefined>): ImageChunks {
+  const context = createContext("decode");
+  const typeCoder = string(4);
+  const refined = <T>(
+    chunk: PngChunkRefined,
+    refiner: Refiner<PngChunkUnknown, T, []>,
+  ): T =>
+    chunk.type instanceof Uint8Array
+      ? refiner.refine(chunk as PngChunkUnknown, context)
+      : chunk as T;
+
+  let ihdr: IhdrChunk | undefined;
+  let plte: PlteChunk | undefined;
+  let trns: TrnsChunk | undefined;
+  // Refined IDAT chunks are whole zlib streams each; raw ones are pieces of
+  // one stream that only inflates once joined
+  const inflated: Uint8Array[] = [];
+  const compressed: Uint8Array[] = [];
+
+  for (const chunk of file.chunks) {
+    const type = chunk.type instanceof Uint8Array
+      ? decode(typeCoder, chunk.type, context)
+      : chunk.type;
+    switch (type) {
+      case "IHDR":
+        ihdr ??= refined(chunk, ihdrChunkRefiner());
+        break;
+      case "PLTE":
+        plte ??= refined(chunk, plteChunkRefiner());
+        break;
+      case "tRNS":
+        trns ??= refined(chunk, trnsChunkRefiner());
+        break;
+      case "IDAT":
+        if (chunk.type instanceof Uint8Array) {
+          compressed.push((chunk as PngChunkUnknown).data);
+        } else {
+          inflated.push((chunk as IdatChunk).data.uncompressed);
+        }
+        break;
+    }
+  }
+
+  if (ihdr === undefined) {
+    throw new Error("Invalid PNG: no IHDR chunk. Must start with IHDR.");
+  }
+
+  if (compressed.length > 0) {
+    inflated.push(unzlibSync(concat(compressed)));
+  }
+
+  return { ihdr, plte, trns, scanlines: concat(inflated) };
+}
+
+function transparencySamples(values: number[], colorType: number): number[] {
+  if (colorType === 3) {
+    return values;
+  }
+  const samples = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    samples.push((values[i] << 8) | values[i + 1]);
+  }
+  return samples;
+}
+
+function transparencyBytes(samples: number[], colorType: number): number[] {
+  if (colorType === 3) {
+    return samples;
+  }
+  return samples.flatMap((sample) => [sample >> 8, sample & 0xff]);
+}
+
+function toRgba(image: PngImage, bitDepth: 8 | 16): Uint8Array | Uint16Array {
+  const { width, height, colorType, palette = [], transparency } = image;
+  const samples = image.pixels;
+  const channels = CHANNELS[colorType];
+  const pixelCount = width * height;
+  const out = bitDepth === 16
+    ? new Uint16Array(pixelCount * 4)
+    : new Uint8Array(pixelCount * 4);
+  const max = bitDepth === 16 ? 0xffff : 0xff;
+  // Exact for every PNG bit depth: 255 and 65535 are multiples of 1, 3, 15
+  // and 255, and 16 to 8 bits keeps the high byte
+  const scale = (value: number, from: number): number =>
+    from === bitDepth
+      ? value
+      : from === 16
+      ? value >> 8
+      : value * max / ((1 << from) - 1);
+  const from = image.bitDepth;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const s = p * channels;
+    const o = p * 4;
+    switch (colorType) {
+      case 0: {
+        const gray = samples[s];
+        out[o] = out[o + 1] = out[o + 2] = scale(gray, from);
+        out[o + 3] = transparency?.[0] === gray ? 0 : max;
+        break;
+      }
+      case 2: {
+        const [r, g, b] = [samples[s], samples[s + 1], samples[s + 2]];
+        out[o] = scale(r, from);
+        out[o + 1] = scale(g, from);
+        out[o + 2] = scale(b, from);
+        const transparent = transparency !== undefined &&
+          transparency[0] === r && transparency[1] === g &&
+          transparency[2] === b;
+        out[o + 3] = transparent ? 0 : max;
+        break;
+      }
+      case 3: {
+        const index = samples[s];
+        const color = palette[index];
+        if (color === undefined) {
+          throw new Error(
+            `Invalid palette index: ${index} at pixel ${p}. Must be below ${palette.length}.`,
+          );
+        }
+        out[o] = scale(color[0], 8);
+        out[o + 1] = scale(color[1], 8);
+        out[o + 2] = scale(color[2], 8);
+        out[o + 3] = scale(transparency?.[index] ?? 0xff, 8);
+        break;
+      }
+      case 4:
+        out[o] = out[o + 1] = out[o + 2] = scale(samples[s], from);
+        out[o + 3] = scale(samples[s + 1], from);
+        break;
+      case 6:
+        for (let c = 0; c < 4; c++) {
+          out[o + c] = scale(samples[s + c], from);
+        }
+        break;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decodes the pixels of a PNG file.
+ *
+ * The image data of all IDAT chunks is inflated, unfiltered, deinterlaced
+ * when the IHDR names Adam7, and unpacked into one element per sample. By
+ * default the result is then converted to 8-bit RGBA, expanding palettes,
+ * grayscale and tRNS transparency; `format` selects 16-bit RGBA or the
+ * file's own layout instead. Gamma, color profiles and significant bits are
+ * not applied.
+ *
+ * `file` may come from {@link pngFile} or from `pngFileChunks` with any chunk
+ * coder: chunks that are still raw are refined here. A file whose image data
+ * is split over several IDAT chunks has to be decoded with
+ * `pngFileChunks(pngChunkUnknown())`, since the IDAT refiner inflates each
+ * chunk on its own.
+ *
+ * @param file Decoded PNG file
+ * @param options Output pixel layout
+ * @returns The image
+ * @throws {Error} If the file has no IHDR, has an invalid color type and bit
+ *   depth pair, is indexed without a PLTE, or uses an unknown filter type
+ * @throws {RangeError} If the image data is shorter than the image
+ *
+ * @example Decode an indexed image with a transparent palette entry
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decodePngImage, encodePngImage } from "@binstruct/png";
+ *
+ * const file = encodePngImage({
+ *   width: 2,
+ *   height: 1,
+ *   colorType: 3,
+ *   bitDepth: 1,
+ *   pixels: new Uint8Array([0, 1]),
+ *   palette: [[255, 0, 0], [0, 0, 255]],
+ *   transparency: [0],
+ * });
+ *
+ * const image = decodePngImage(file);
+ *
+ * assertEquals(image.colorType, 6);
+ * assertEquals(image.pixels, new Uint8Array([255, 0, 0, 0, 0, 0, 255, 255]));
+ * ```
+ *
+ * @example Read a file's own samples
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decodePngImage, encodePngImage } from "@binstruct/png";
+ *
+ * const file = encodePngImage({
+ *   width: 3,
+ *   height: 1,
+ *   colorType: 0,
+ *   bitDepth: 2,
+ *   pixels: new Uint8Array([0, 2, 3]),
+ * });
+ *
+ * const native = decodePngImage(file, { format: "native" });
+ * const rgba = decodePngImage(file);
+ *
+ * assertEquals(native.pixels, new Uint8Array([0, 2, 3]));
+ * assertEquals(rgba.pixels.subarray(4, 8), new Uint8Array([170, 170, 170, 255]));
+ * ```
+ */
+export function decodePngImage(
+  file: PngFile<PngChunkRefined>,
+  options: PngImageDecodeOptions = {},
+): PngImage {
+  const { format = "rgba8" } = options;
+  const { ihdr, plte, trns, scanlines } = collectImageChunks(file);
+  const { width, height, bitDepth, colorType, interlaceMethod } = ihdr.data;
+  const channels = channelCount(colorType, bitDepth);
+  if (interlaceMethod !== 0 && interlaceMethod !== 1) {
+    throw new Error(
+      `Invalid interlace method: ${interlaceMethod}. Must be 0 or 1.`,
+    );
+  }
+  if (colorType === 3 && plte === undefined) {
+    throw new Error(
+      "Invalid PNG: color type 3 without a PLTE chunk. Must have a PLTE chunk before IDAT.",
+    );
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const pixels = bitDepth === 16
+    ? new Uint16Array(width * height * channels)
+    : new Uint8Array(width * height * channels);
+
+  let offset = 0;
+  for (const pass of imagePasses(width, height, interlaceMethod === 1)) {
+    const layout = scanlineLayout(pass, bitsPerPixel);
+    const end = offset + layout.rows * (layout.rowBytes + 1);
+    const raw = unfilterScanlines(scanlines.subarray(offset, end), layout);
+    offset = end;
+
+    for (let j = 0; j < pass.height; j++) {
+      const line = raw.subarray(j * layout.rowBytes, (j + 1) * layout.rowBytes);
+      const rowStart = (pass.y + j * pass.yStep) * width;
+      for (let i = 0; i < pass.width; i++) {
+        const target = (rowStart + pass.x + i * pass.xStep) * channels;
+        for (let c = 0; c < channels; c++) {
+          pixels[target + c] = readSample(line, i * channels + c, bitDepth);
+        }
+      }
+    }
+  }
+
+  const image: PngImage = { width, height, colorType, bitDepth, pixels };
+  if (plte !== undefined) {
+    image.palette = plte.data.colors;
+  }
+  if (trns !== undefined) {
+    image.transparency = transparencySamples(trns.data.values, colorType);
+  }
+
+  if (format === "native") {
+    return image;
+  }
+
+  const rgbaBitDepth = format === "rgba16" ? 16 : 8;
+  return {
+    width,
+    height,
+    colorType: 6,
+    bitDepth: rgbaBitDepth,
+    pixels: toRgba(image, rgbaBitDepth),
+  };
+}
+
+function zlibHeader(flevel: number): ZlibHeader {
+  // 32K window deflate; FCHECK makes CMF * 256 + FLG a multiple of 31
+  const cmf = 0x78;
+  const flg = flevel << 6;
+  return decodeHeader([cmf, flg + (31 - (cmf * 256 + flg) % 31) % 31]);
+}
+
+function sealChunk<T extends PngChunkRefined>(
+  refiner: Refiner<PngChunkUnknown, T, []>,
+  chunk: T,
+  context: Context,
+): T {
+  const raw = refiner.unrefine(chunk, context);
+  return { ...chunk, length: raw.data.length, crc: chunkCrc(raw) };
+}
+
+/**
+ * Encodes pixels as a PNG file.
+ *
+ * The inverse of {@link decodePngImage}: the samples are packed into
+ * scanlines in the image's color type and bit depth, interlaced if asked,
+ * filtered and compressed into a single IDAT chunk. The file holds IHDR,
+ * PLTE when the image has a palette, tRNS when it has transparency, IDAT and
+ * IEND, each with its length and CRC filled in, ready for
+ * `pngFile().encode`.
+ *
+ * @param image Pixels to encode
+ * @param options Filter strategy, interlacing and compression level
+ * @returns A PNG file of refined chunks
+ * @throws {Error} If the color type and bit depth pair is invalid, `pixels`
+ *   does not match the image size, or an indexed image has no palette
+ *
+ * @example Write an RGB image to bytes
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import {
+ *   decodePngImage,
+ *   encodePngImage,
+ *   PNG_FILTER_TYPE,
+ *   pngFile,
+ * } from "@binstruct/png";
+ *
+ * const image = {
+ *   width: 2,
+ *   height: 2,
+ *   colorType: 2,
+ *   bitDepth: 8,
+ *   pixels: new Uint8Array([
+ *     255, 0, 0, 0, 255, 0,
+ *     0, 0, 255, 255, 255, 255,
+ *   ]),
+ * };
+ *
+ * const file = encodePngImage(image, {
+ *   filter: PNG_FILTER_TYPE.PAETH,
+ *   interlace: true,
+ * });
+ * const bytes = new Uint8Array(1024);
+ * const written = pngFile().encode(file, bytes);
+ * const [decoded] = pngFile().decode(bytes.subarray(0, written));
+ *
+ * assertEquals(decodePngImage(decoded, { format: "native" }), image);
+ * ```
+ */
+export function encodePngImage(
+  image: PngImage,
+  options: PngImageEncodeOptions = {},
+): PngFile<PngChunkRefined> {
+  const { width, height, colorType, bitDepth, pixels, palette, transparency } =
+    image;
+  const channels = channelCount(colorType, bitDepth);
+  const sampleCount = width * height * channels;
+  if (pixels.length !== sampleCount) {
+    throw new Error(
+      `Invalid pixels length: ${pixels.length}. Must be ${sampleCount} for ${width}x${height} pixels of ${channels} samples.`,
+    );
+  }
+  if (colorType === 3 && palette === undefined) {
+    throw new Error(
+      "Invalid image: color type 3 without a palette. Must have a palette.",
+    );
+  }
+
+  const {
+    filter = colorType === 3 || bitDepth < 8
+      ? PNG_FILTER_TYPE.NONE
+      : "adaptive",
+    interlace = false,
+    flevel = 2,
+  } = options;
+  const bitsPerPixel = channels * bitDepth;
+
+  const filtered: Uint8Array[] = [];
+  for (const pass of imagePasses(width, height, interlace)) {
+    const layout = scanlineLayout(pass, bitsPerPixel);
+    const raw = new Uint8Array(layout.rows * layout.rowBytes);
+
+    for (let j = 0; j < pass.height; j++) {
+      const line = raw.subarray(j * layout.rowBytes, (j + 1) * layout.rowBytes);
+      const rowStart = (pass.y + j * pass.yStep) * width;
+      for (let i = 0; i < pass.width; i++) {
+        const source = (rowStart + pass.x + i * pass.xStep) * channels;
+        for (let c = 0; c < channels; c++) {
+          writeSample(line, i * channels + c, bitDepth, pixels[source + c]);
+        }
+      }
+    }
+
+    filtered.push(filterScanlines(raw, layout, filter));
+  }
+
+  const context = createContext("encode");
+  const chunks: PngChunkRefined[] = [
+    sealChunk(ihdrChunkRefiner(), {
+      length: 13,
+      type: "IHDR",
+      data: {
+        width,
+        height,
+        bitDepth,
+        colorType,
+        compressionMethod: 0,
+        filterMethod: 0,
+        interlaceMethod: interlace ? 1 : 0,
+      },
+      crc: 0,
+    }, context),
+  ];
+
+  if (palette !== undefined) {
+    chunks.push(sealChunk(plteChunkRefiner(), {
+      length: 0,
+      type: "PLTE",
+      data: { colors: palette },
+      crc: 0,
+    }, context));
+  }
+
+  if (transparency !== undefined) {
+    chunks.push(sealChunk(trnsChunkRefiner(), {
+      length: 0,
+      type: "tRNS",
+      data: { values: transparencyBytes(transparency, colorType) },
+      crc: 0,
+    }, context));
+  }
+
+  const idat: IdatChunk = {
+    length: 0,
+    type: "IDAT",
+    data: {
+      header: zlibHeader(flevel),
+      uncompressed: concat(filtered),
+      // Filled in from the compressed stream below
+      checksum: new Uint8Array(0),
+    },
+    crc: 0,
+  };
+  const idatRaw = idatChunkRefiner().unrefine(idat, context);
+  chunks.push({
+    ...idat,
+    length: idatRaw.data.length,
+    data: { ...idat.data, checksum: idatRaw.data.slice(-4) },
+    crc: chunkCrc(idatRaw),
+  });
+
+  chunks.push(
+    sealChunk(iendChunkRefiner(), { length: 0, type: "IEND", crc: 0 }, context),
+  );
+
+  return {
+    signature: {
+      highBitByte: 137,
+      signature: "PNG",
+      dosLineEnding: "\r\n",
+      dosEOF: "\u001a",
+      unixLineEnding: "\n",
+    },
+    chunks,
+  };
+}
@@ -12,6 +12,8 @@ import type { IhdrChunk } from "./chunks/ihdr.ts";
 import type { IdatChunk } from "./chunks/idat.ts";
 import type { IendChunk } from "./chunks/iend.ts";
 import type { PlteChunk } from "./chunks/plte.ts";
+import type { TextChunk } from "./chunks/text.ts";
+import type { ActlChunk } from "./chunks/actl.ts";
 import { zlibSync } from "fflate";
 import { decodeHeader } from "./zlib/header.ts";
 
@@ -375,6 +377,44 @@ Deno.test("pngChunkRefined() - decodes unknown chunk type", () => {
   assertEquals((decoded as PngChunkUnknown).data, new Uint8Array([1, 2, 3]));
 });
 
+Deno.test("pngChunkRefined() - decodes tEXt chunk", () => {
+  const coder = pngChunkRefined();
+  // deno-fmt-ignore
+  const buffer = new Uint8Array([
+    0, 0, 0, 7, // length: 7
+    116, 69, 88, 116, // type: "tEXt"
+    65, 117, 116, 111, 0, // keyword: "Auto" + null separator
+    104, 105, // text: "hi"
+    0x11, 0x22, 0x33, 0x44, // crc
+  ]);
+
+  const [decoded, bytesRead] = coder.decode(buffer);
+
+  assertEquals(bytesRead, 19);
+  assertEquals((decoded as TextChunk).type, "tEXt");
+  assertEquals((decoded as TextChunk).data, { keyword: "Auto", text: "hi" });
+});
+
+Deno.test("pngChunkRefined() - round-trips acTL chunk", () => {
+  const coder = pngChunkRefined();
+  // deno-fmt-ignore
+  const buffer = new Uint8Array([
+    0, 0, 0, 8, // length: 8
+    97, 99, 84, 76, // type: "acTL"
+    0, 0, 0, 4, // numFrames: 4
+    0, 0, 0, 0, // numPlays: 0 (forever)
+    0x11, 0x22, 0x33, 0x44, // crc
+  ]);
+
+  const [decoded] = coder.decode(buffer);
+  assertEquals((decoded as ActlChunk).type, "acTL");
+  assertEquals((decoded as ActlChunk).data, { numFrames: 4, numPlays: 0 });
+
+  const encoded = new Uint8Array(buffer.length);
+  assertEquals(coder.encode(decoded, encoded), buffer.length);
+  assertEquals(encoded, buffer);
+});
+
 Deno.test("pngFile() - decodes complete PNG file with IHDR and IEND", () => {
   const coder = pngFile();
   // deno-fmt-ignore
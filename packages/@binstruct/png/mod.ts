@@ -66,24 +66,106 @@ import { type IendChunk, iendChunkRefiner } from "./chunks/iend.ts";
 import { type PlteChunk, plteChunkRefiner } from "./chunks/plte.ts";
 import { type TrnsChunk, trnsChunkRefiner } from "./chunks/trns.ts";
 import { type BkgdChunk, bkgdChunkRefiner } from "./chunks/bkgd.ts";
+import { type TextChunk, textChunkRefiner } from "./chunks/text.ts";
+import { type ZtxtChunk, ztxtChunkRefiner } from "./chunks/ztxt.ts";
+import { type ItxtChunk, itxtChunkRefiner } from "./chunks/itxt.ts";
+import { type GamaChunk, gamaChunkRefiner } from "./chunks/gama.ts";
+import { type ChrmChunk, chrmChunkRefiner } from "./chunks/chrm.ts";
+import { type SrgbChunk, srgbChunkRefiner } from "./chunks/srgb.ts";
+import { type IccpChunk, iccpChunkRefiner } from "./chunks/iccp.ts";
+import { type PhysChunk, physChunkRefiner } from "./chunks/phys.ts";
+import { type TimeChunk, timeChunkRefiner } from "./chunks/time.ts";
+import { type SbitChunk, sbitChunkRefiner } from "./chunks/sbit.ts";
+import { type HistChunk, histChunkRefiner } from "./chunks/hist.ts";
+import {
+  type SpltChunk,
+  spltChunkRefiner,
+  type SpltEntry,
+} from "./chunks/splt.ts";
+import { type ExifChunk, exifChunkRefiner } from "./chunks/exif.ts";
+import { type ActlChunk, actlChunkRefiner } from "./chunks/actl.ts";
+import { type FctlChunk, fctlChunkRefiner } from "./chunks/fctl.ts";
+import { type FdatChunk, fdatChunkRefiner } from "./chunks/fdat.ts";
+import type { ZlibHeader } from "./zlib/header.ts";
+import { type PngFileOptions, withCrcPolicy } from "./crc/policy.ts";
 
 export type {
+  ActlChunk,
   BkgdChunk,
+  ChrmChunk,
+  ExifChunk,
+  FctlChunk,
+  FdatChunk,
+  GamaChunk,
+  HistChunk,
+  IccpChunk,
   IdatChunk,
   IendChunk,
   IhdrChunk,
+  ItxtChunk,
+  PhysChunk,
   PlteChunk,
+  SbitChunk,
+  SpltChunk,
+  SpltEntry,
+  SrgbChunk,
+  TextChunk,
+  TimeChunk,
   TrnsChunk,
+  ZlibHeader,
+  ZtxtChunk,
 };
 export {
+  actlChunkRefiner,
   bkgdChunkRefiner,
+  chrmChunkRefiner,
+  exifChunkRefiner,
+  fctlChunkRefiner,
+  fdatChunkRefiner,
+  gamaChunkRefiner,
+  histChunkRefiner,
+  iccpChunkRefiner,
   idatChunkRefiner,
   iendChunkRefiner,
   ihdrChunkRefiner,
+  itxtChunkRefiner,
+  physChunkRefiner,
   plteChunkRefiner,
+  sbitChunkRefiner,
+  spltChunkRefiner,
+  srgbChunkRefiner,
+  textChunkRefiner,
+  timeChunkRefiner,
   trnsChunkRefiner,
+  ztxtChunkRefiner,
 };
 
+// Pixel pipeline: scanline filtering, Adam7 interlacing and whole images
+export {
+  decodePngImage,
+  encodePngImage,
+  type PngImage,
+  type PngImageDecodeOptions,
+  type PngImageEncodeOptions,
+} from "./image/image.ts";
+export {
+  filterScanlines,
+  PNG_FILTER_TYPE,
+  type PngFilterStrategy,
+  type PngFilterType,
+  type PngScanlineLayout,
+  unfilterScanlines,
+} from "./image/filter.ts";
+export { type Adam7Pass, adam7Passes } from "./image/adam7.ts";
+
+// CRC policies for the file coders, and repair of damaged files
+export type {
+  PngCrcMismatch,
+  PngCrcPolicy,
+  PngFileOptions,
+} from "./crc/policy.ts";
+export { repairPng } from "./crc/repair.ts";
+
 /**
  * PNG file structure containing signature and chunks.
  *
@@ -203,7 +285,11 @@ export function pngChunkUnknown(): Coder<PngChunkUnknown> {
  * Defaults to {@link pngChunkRefined}, the same chunk coder {@link pngFile}
  * passes. Override it when the refined chunk types are not what you want, for
  * example `pngChunkUnknown()` to inspect or rewrite chunks at the byte level.
+ * @param options CRC handling. By default CRCs are read and written as they
+ * are; see {@link PngFileOptions} to verify or recompute them.
  * @returns A coder for {@link PngFile} structures with the specified chunk type.
+ * @throws {Error} With `crc: "verify"` and no `onCrcMismatch`, on decoding or
+ * encoding a chunk whose CRC does not match its type and data.
  *
  * @example Create a PNG file coder with unknown chunks
  * ```ts
@@ -265,26 +351,66 @@ export function pngFileChunks<
   // declaration, so the CLI would show this coder three times, once as
   // `needs 1 argument`.
   chunkCoder: Coder<TChunk> = pngChunkRefined() as unknown as Coder<TChunk>,
+  options: PngFileOptions = {},
 ): Coder<PngFile<TChunk>> {
-  return struct({
-    signature: struct({
-      highBitByte: u8(),
-      signature: string(3),
-      dosLineEnding: string(2),
-      dosEOF: string(1),
-      unixLineEnding: string(1),
+  return withCrcPolicy(
+    struct({
+      signature: struct({
+        highBitByte: u8(),
+        signature: string(3),
+        dosLineEnding: string(2),
+        dosEOF: string(1),
+        unixLineEnding: string(1),
+      }),
+      chunks: arrayWhile(chunkCoder, ({ buffer }) => buffer.length >= 12),
     }),
-    chunks: arrayWhile(chunkCoder, ({ buffer }) => buffer.length >= 12),
-  });
+    options,
+  );
 }
 
+/**
+ * A PNG chunk as {@link pngChunkRefined} decodes it: one of the refined chunk
+ * types, or {@link PngChunkUnknown} for any other chunk type.
+ */
+export type PngChunkRefined =
+  | PngChunkUnknown
+  | IhdrChunk
+  | PlteChunk
+  | TrnsChunk
+  | BkgdChunk
+  | IdatChunk
+  | IendChunk
+  | TextChunk
+  | ZtxtChunk
+  | ItxtChunk
+  | GamaChunk
+  | ChrmChunk
+  | SrgbChunk
+  | IccpChunk
+  | PhysChunk
+  | TimeChunk
+  | SbitChunk
+  | HistChunk
+  | SpltChunk
+  | ExifChunk
+  | ActlChunk
+  | FctlChunk
+  | FdatChunk;
+
 /**
  * Creates a coder for PNG chunks with type-specific refinement.
  *
  * This coder automatically detects the chunk type and applies the appropriate
  * refiner, transforming raw chunk data into structured objects for known chunk
- * types (IHDR, PLTE, tRNS, bKGD, IDAT, IEND). Unknown chunk types are passed
- * through as {@link PngChunkUnknown}.
+ * types. Unknown chunk types are passed through as {@link PngChunkUnknown}.
+ *
+ * Known chunk types are:
+ *
+ * - **Critical**: IHDR, PLTE, IDAT, IEND
+ * - **Transparency and color**: tRNS, bKGD, gAMA, cHRM, sRGB, iCCP, sBIT
+ * - **Text**: tEXt, zTXt, iTXt
+ * - **Metadata**: pHYs, tIME, hIST, sPLT, eXIf
+ * - **Animation (APNG)**: acTL, fcTL, fdAT
  *
  * @returns A coder that produces refined chunk types based on the chunk's type field.
  *
@@ -301,15 +427,7 @@ export function pngFileChunks<
  * assert(typeof coder.encode === "function");
  * ```
  */
-export function pngChunkRefined(): Coder<
-  | PngChunkUnknown
-  | IhdrChunk
-  | PlteChunk
-  | TrnsChunk
-  | BkgdChunk
-  | IdatChunk
-  | IendChunk
-> {
+export function pngChunkRefined(): Coder<PngChunkRefined> {
   const typeCoder = string(4);
 
   // Passthrough refiner for unknown chunk types
@@ -322,41 +440,44 @@ export function pngChunkRefined(): Coder<
     unrefine: (chunk, _ctx) => chunk,
   });
 
+  const refiners = {
+    IHDR: ihdrChunkRefiner(),
+    PLTE: plteChunkRefiner(),
+    tRNS: trnsChunkRefiner(),
+    bKGD: bkgdChunkRefiner(),
+    IDAT: idatChunkRefiner(),
+    IEND: iendChunkRefiner(),
+    tEXt: textChunkRefiner(),
+    zTXt: ztxtChunkRefiner(),
+    iTXt: itxtChunkRefiner(),
+    gAMA: gamaChunkRefiner(),
+    cHRM: chrmChunkRefiner(),
+    sRGB: srgbChunkRefiner(),
+    iCCP: iccpChunkRefiner(),
+    pHYs: physChunkRefiner(),
+    tIME: timeChunkRefiner(),
+    sBIT: sbitChunkRefiner(),
+    hIST: histChunkRefiner(),
+    sPLT: spltChunkRefiner(),
+    eXIf: exifChunkRefiner(),
+    acTL: actlChunkRefiner(),
+    fcTL: fctlChunkRefiner(),
+    fdAT: fdatChunkRefiner(),
+    UNKNOWN: identityRefiner(),
+  };
+  type RefinerKey = keyof typeof refiners;
+
+  // Return refiner key if known, otherwise use UNKNOWN passthrough
+  const refinerKey = (type: string): RefinerKey =>
+    Object.hasOwn(refiners, type) ? type as RefinerKey : "UNKNOWN";
+
   const coder = refineSwitch(
     pngChunkUnknown(),
+    refiners,
     {
-      IHDR: ihdrChunkRefiner(),
-      PLTE: plteChunkRefiner(),
-      tRNS: trnsChunkRefiner(),
-      bKGD: bkgdChunkRefiner(),
-      IDAT: idatChunkRefiner(),
-      IEND: iendChunkRefiner(),
-      UNKNOWN: identityRefiner(),
-    },
-    {
-      refine: (chunk, ctx) => {
-        const type = decode(typeCoder, chunk.type, ctx);
-        // Return refiner key if known, otherwise use UNKNOWN passthrough
-        return (type === "IHDR" || type === "PLTE" || type === "tRNS" ||
-            type === "bKGD" || type === "IDAT" || type === "IEND")
-          ? type
-          : "UNKNOWN";
-      },
-      unrefine: (chunk, _ctx) => {
-        // For refined chunks, type is already a string
-        const type = chunk.type as string;
-        return (type === "IHDR" || type === "PLTE" || type === "tRNS" ||
-            type === "bKGD" || type === "IDAT" || type === "IEND")
-          ? type as
-            | "IHDR"
-            | "PLTE"
-            | "tRNS"
-            | "bKGD"
-            | "IDAT"
-            | "IEND"
-            | "UNKNOWN"
-          : "UNKNOWN";
-      },
+      refine: (chunk, ctx) => refinerKey(decode(typeCoder, chunk.type, ctx)),
+      // For refined chunks, type is already a string
+      unrefine: (chunk, _ctx) => refinerKey(chunk.type as string),
     },
   );
 
@@ -367,9 +488,10 @@ export function pngChunkRefined(): Coder<
  * Creates a coder for complete PNG files with automatic chunk refinement.
  *
  * This is the main entry point for working with PNG files. It creates a coder
- * that handles the PNG signature and automatically refines known chunk types
- * (IHDR, PLTE, tRNS, bKGD, IDAT, IEND) to their structured representations.
+ * that handles the PNG signature and automatically refines the chunk types
+ * {@link pngChunkRefined} knows to their structured representations.
  *
+ * @param options CRC handling, as for {@link pngFileChunks}
  * @returns A coder for complete PNG files with refined chunk types.
  *
  * @example Decode a PNG file
@@ -383,19 +505,41 @@ export function pngChunkRefined(): Coder<
  * assert(typeof coder.decode === "function");
  * assert(typeof coder.encode === "function");
  * ```
+ *
+ * @example Recompute CRCs on encode and verify them on decode
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { pngFile } from "@binstruct/png";
+ *
+ * const png = {
+ *   signature: {
+ *     highBitByte: 137,
+ *     signature: "PNG",
+ *     dosLineEnding: "\r\n",
+ *     dosEOF: "\u001a",
+ *     unixLineEnding: "\n",
+ *   },
+ *   chunks: [{ length: 0, type: "IEND" as const, crc: 0 }],
+ * };
+ *
+ * const stale = new Uint8Array(20);
+ * pngFile().encode(png, stale);
+ * assertThrows(
+ *   () => pngFile({ crc: "verify" }).decode(stale),
+ *   Error,
+ *   "Invalid CRC: 0x00000000 on chunk 0 (IEND). Must be 0xae426082.",
+ * );
+ *
+ * const fixed = new Uint8Array(20);
+ * pngFile({ crc: "recompute" }).encode(png, fixed);
+ * const [decoded] = pngFile({ crc: "verify" }).decode(fixed);
+ * assertEquals(decoded.chunks[0].crc, 0xAE426082);
+ * ```
  */
-export function pngFile(): Coder<
-  PngFile<
-    | PngChunkUnknown
-    | IhdrChunk
-    | PlteChunk
-    | TrnsChunk
-    | BkgdChunk
-    | IdatChunk
-    | IendChunk
-  >
-> {
-  return pngFileChunks(pngChunkRefined());
+export function pngFile(
+  options: PngFileOptions = {},
+): Coder<PngFile<PngChunkRefined>> {
+  return pngFileChunks(pngChunkRefined(), options);
 }
 
 /**
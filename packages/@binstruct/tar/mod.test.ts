@@ -1,4 +1,4 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 import {
   TAR_BLOCK_SIZE,
   TAR_TYPEFLAG,
@@ -259,4 +259,31 @@ Deno.test("ustarHeader", async (t) => {
       "00",
     );
   });
+
+  await t.step("rejects a numeric field that is not octal", () => {
+    const wire = buildWireHeader({
+      name: "bad",
+      mode: "0000648\0",
+      uid: "0000000\0",
+      gid: "0000000\0",
+      size: "00000000000\0",
+      mtime: "00000000000\0",
+      checksum: "        ",
+      typeflag: "0",
+      linkname: "",
+      magic: "ustar\0",
+      version: "00",
+      uname: "",
+      gname: "",
+      devmajor: "",
+      devminor: "",
+      prefix: "",
+    });
+
+    assertThrows(
+      () => ustarHeader().decode(wire),
+      Error,
+      'Invalid octal field: "0000648"',
+    );
+  });
 });
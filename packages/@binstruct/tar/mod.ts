@@ -33,9 +33,9 @@
  * All multi-character fields are ASCII, left-justified and NUL-padded to
  * their field width. `mode`, `uid`, `gid`, `size`, `mtime` and `checksum` are
  * additionally numeric: an octal number rendered as ASCII digits, zero-padded
- * and NUL-terminated within the field. This coder refines those six fields to
- * and from `number`, and trims the NUL padding from every other string field
- * transparently.
+ * and NUL-terminated within the field. This coder reads those six fields
+ * with binstruct's `octal` coder as `number`, and trims the NUL padding from
+ * every other string field transparently.
  *
  * `devmajor` and `devminor` only carry meaning for the character-special and
  * block-special typeflags; they are decoded as trimmed strings rather than
@@ -91,7 +91,7 @@
  * @module
  */
 
-import { bytes, type Coder, refine, struct } from "@hertzg/binstruct";
+import { bytes, type Coder, octal, refine, struct } from "@hertzg/binstruct";
 
 /**
  * Size in bytes of a single tar block, and therefore of the ustar header
@@ -203,34 +203,6 @@ function nulPaddedString(length: number): Coder<string> {
   })();
 }
 
-/**
- * Parses a ustar numeric field: octal ASCII digits, NUL- and/or space-padded.
- */
-function decodeOctalField(encoded: Uint8Array): number {
-  const text = decodeNulPaddedString(encoded).replace(/[\0 ]+$/, "").trim();
-  return text.length === 0 ? 0 : parseInt(text, 8);
-}
-
-/**
- * Renders a number as a ustar numeric field: octal ASCII digits, zero-padded
- * to fill `length - 1` bytes, followed by a single NUL terminator.
- */
-function encodeOctalField(decoded: number, length: number): Uint8Array {
-  const digits = Math.trunc(decoded).toString(8).padStart(length - 1, "0");
-  return new TextEncoder().encode(`${digits}\0`);
-}
-
-/**
- * Creates a coder for a fixed-width ustar numeric field of `length` bytes:
- * an octal ASCII number, NUL-terminated within the field.
- */
-function octalField(length: number): Coder<number> {
-  return refine(bytes(length), {
-    refine: decodeOctalField,
-    unrefine: (decoded: number) => encodeOctalField(decoded, length),
-  })();
-}
-
 /**
  * Creates a coder for a single 512-byte POSIX ustar header block.
  *
@@ -238,8 +210,9 @@ function octalField(length: number): Coder<number> {
  * numeric fields (`mode`, `uid`, `gid`, `size`, `mtime`, `checksum`) round-trip
  * through `number`, the remaining text fields round-trip through trimmed
  * `string`, and `padding` is exposed as the raw trailing 12 bytes. Nothing is
- * validated or computed on encode — `checksum` in particular is written
- * exactly as given.
+ * computed on encode — `checksum` in particular is written exactly as given —
+ * but numbers that are not non-negative integers, or need more octal digits
+ * than their field has, are rejected rather than written truncated.
  *
  * @returns A coder for {@linkcode UstarHeader} values.
  *
@@ -284,12 +257,12 @@ function octalField(length: number): Coder<number> {
 export function ustarHeader(): Coder<UstarHeader> {
   return struct({
     name: nulPaddedString(100),
-    mode: octalField(8),
-    uid: octalField(8),
-    gid: octalField(8),
-    size: octalField(12),
-    mtime: octalField(12),
-    checksum: octalField(8),
+    mode: octal(8),
+    uid: octal(8),
+    gid: octal(8),
+    size: octal(12),
+    mtime: octal(12),
+    checksum: octal(8),
     typeflag: nulPaddedString(1),
     linkname: nulPaddedString(100),
     magic: nulPaddedString(6),
@@ -1,6 +1,8 @@
 import { assertEquals } from "@std/assert";
 import { kCoderKind } from "../core.ts";
+import { encode } from "../helpers.ts";
 import { u8 } from "../numeric/numeric.ts";
+import { struct } from "../struct/struct.ts";
 import { arrayWhile, kKindArrayWhile } from "./conditional-while.ts";
 
 Deno.test("arrayWhile creates conditional array coder", () => {
@@ -47,3 +49,18 @@ Deno.test("arrayWhile with complex condition", () => {
   const bytesWritten = coder.encode(data, buffer);
   assertEquals(bytesWritten, 3); // First 3 elements meet all conditions
 });
+
+Deno.test("arrayWhile - encode matches a large-buffer encode", () => {
+  const coder = struct({
+    a: arrayWhile(u8(), ({ buffer }) => buffer.length >= 2),
+    b: u8(),
+  });
+  const data = { a: [1, 2, 3, 4, 5], b: 9 };
+
+  assertEquals(coder.measure?.(data), undefined);
+  assertEquals(
+    encode(coder, data),
+    encode(coder, data, undefined, new Uint8Array(100)),
+  );
+  assertEquals(encode(coder, data), new Uint8Array([1, 2, 3, 4, 5, 9]));
+});
@@ -5,6 +5,10 @@ import {
   kCoderKind,
 } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { beginSpan, endSpan } from "../trace.ts";
+import { layoutMoveTo, layoutOffset } from "../layout/frame.ts";
+import { arrayView } from "./view.ts";
 
 /**
  * Symbol identifier for conditional while-loop array coders.
@@ -52,6 +56,7 @@ export function arrayWhile<TDecoded>(
     [kCoderKind]: kKindArrayWhile,
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
+      const base = layoutOffset(ctx);
       let cursor = 0;
 
       refSetValue(ctx, self, decoded);
@@ -68,13 +73,19 @@ export function arrayWhile<TDecoded>(
         ) {
           break;
         }
-        cursor += elementType.encode(decoded[i], remaining, ctx);
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          cursor += elementType.encode(decoded[i], remaining, ctx);
+        } catch (e) {
+          throw wrapEncodeError(e, target, remaining, i, elementType);
+        }
       }
 
       return cursor;
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
+      const base = layoutOffset(ctx);
       let cursor = 0;
 
       const decoded: TDecoded[] = [];
@@ -93,12 +104,40 @@ export function arrayWhile<TDecoded>(
           break;
         }
 
-        const [element, bytesRead] = elementType.decode(remaining, ctx);
-        cursor += bytesRead;
-        decoded.push(element);
+        const span = beginSpan(
+          ctx,
+          remaining,
+          decoded.length,
+          elementType[kCoderKind],
+        );
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          const [element, bytesRead] = elementType.decode(remaining, ctx);
+          endSpan(ctx, span, bytesRead);
+          cursor += bytesRead;
+          decoded.push(element);
+        } catch (e) {
+          throw wrapDecodeError(
+            e,
+            encoded,
+            remaining,
+            decoded.length,
+            elementType,
+          );
+        }
       }
 
       return [decoded, cursor];
     },
+    // The condition may look at `buffer`, which depends on the target the
+    // caller encodes into, so the size is not known before encoding
+    measure: () => undefined,
+    describe: (walker) => ({
+      type: "array",
+      element: walker.child(elementType),
+      length: { type: "condition" },
+    }),
+    view: (encoded, context) =>
+      arrayView(self, elementType, encoded, context, 0, { condition }),
   };
 }
@@ -1,6 +1,10 @@
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { isValidLength, type LengthOrRef, lengthRefGet } from "../length.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { beginSpan, endSpan } from "../trace.ts";
+import { layoutMoveTo, layoutOffset } from "../layout/frame.ts";
+import { arrayView } from "./view.ts";
 
 /**
  * Symbol identifier for fixed-length array coders.
@@ -111,13 +115,16 @@ export function arrayFL<TDecoded>(
         );
       }
 
+      const base = layoutOffset(ctx);
       let cursor = 0;
       for (let i = 0; i < len; i++) {
-        cursor += elementType.encode(
-          decoded[i],
-          target.subarray(cursor),
-          ctx,
-        );
+        const view = target.subarray(cursor);
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          cursor += elementType.encode(decoded[i], view, ctx);
+        } catch (e) {
+          throw wrapEncodeError(e, target, view, i, elementType);
+        }
       }
 
       return cursor;
@@ -135,16 +142,62 @@ export function arrayFL<TDecoded>(
       const decoded = new Array<TDecoded>(len);
       refSetValue(ctx, self, decoded);
 
+      const base = layoutOffset(ctx);
       let cursor = 0;
       for (let i = 0; i < len; i++) {
-        const [element, bytesRead] = elementType.decode(
-          encoded.subarray(cursor),
-          ctx,
-        );
-        cursor += bytesRead;
-        decoded[i] = element;
+        const view = encoded.subarray(cursor);
+        const span = beginSpan(ctx, view, i, elementType[kCoderKind]);
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          const [element, bytesRead] = elementType.decode(view, ctx);
+          endSpan(ctx, span, bytesRead);
+          cursor += bytesRead;
+          decoded[i] = element;
+        } catch (e) {
+          throw wrapDecodeError(e, encoded, view, i, elementType);
+        }
       }
       return [decoded, cursor];
     },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+
+      const len = lengthRefGet(ctx, lengthOrRef) ?? decoded.length;
+
+      if (len != decoded.length) {
+        throw new Error(
+          `Invalid length: ${len}. Must be equal to the decoded length.`,
+        );
+      }
+
+      const base = layoutOffset(ctx);
+      let size = 0;
+      for (let i = 0; i < len; i++) {
+        layoutMoveTo(ctx, base + size);
+        const bytes = elementType.measure?.(decoded[i], ctx);
+        if (bytes === undefined) {
+          return undefined;
+        }
+        size += bytes;
+      }
+      return size;
+    },
+    describe: (walker) => ({
+      type: "array",
+      element: walker.child(elementType),
+      length: walker.length(lengthOrRef),
+    }),
+    view: (encoded, context) => {
+      const len = lengthRefGet(context, lengthOrRef);
+
+      if (len == null || !isValidLength(len)) {
+        throw new Error(
+          `Invalid length: ${len}. Must be a non-negative integer.`,
+        );
+      }
+
+      return arrayView(self, elementType, encoded, context, 0, { count: len });
+    },
   };
 }
@@ -1,5 +1,9 @@
 import { refSetValue } from "../ref/ref.ts";
 import { type Coder, createContext, kCoderKind } from "../core.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { beginSpan, endSpan } from "../trace.ts";
+import { layoutMoveTo, layoutOffset } from "../layout/frame.ts";
+import { arrayView } from "./view.ts";
 
 /**
  * Symbol identifier for length-prefixed array coders.
@@ -72,47 +76,87 @@ export function arrayLP<TDecoded>(
     [kCoderKind]: kKindArrayLP,
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
+      const base = layoutOffset(ctx);
       let cursor = 0;
 
       refSetValue(ctx, self, decoded);
 
-      cursor += lengthType.encode(
-        decoded.length,
-        target.subarray(cursor),
-        ctx,
-      );
+      try {
+        cursor += lengthType.encode(decoded.length, target, ctx);
+      } catch (e) {
+        throw wrapEncodeError(e, target, target, undefined, lengthType);
+      }
 
       for (let i = 0; i < decoded.length; i++) {
-        cursor += elementType.encode(
-          decoded[i],
-          target.subarray(cursor),
-          ctx,
-        );
+        const view = target.subarray(cursor);
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          cursor += elementType.encode(decoded[i], view, ctx);
+        } catch (e) {
+          throw wrapEncodeError(e, target, view, i, elementType);
+        }
       }
       return cursor;
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
-      let cursor = 0;
-      const [length, bytesRead] = lengthType.decode(
-        encoded.subarray(cursor),
-        ctx,
-      );
-      cursor += bytesRead;
+      const base = layoutOffset(ctx);
+      let length, cursor;
+      try {
+        [length, cursor] = lengthType.decode(encoded, ctx);
+      } catch (e) {
+        throw wrapDecodeError(e, encoded, encoded, undefined, lengthType);
+      }
 
       const decoded = new Array<TDecoded>(length);
       refSetValue(ctx, self, decoded);
 
       for (let i = 0; i < length; i++) {
-        const [element, bytesRead] = elementType.decode(
-          encoded.subarray(cursor),
-          ctx,
-        );
-        cursor += bytesRead;
-        decoded[i] = element;
+        const view = encoded.subarray(cursor);
+        const span = beginSpan(ctx, view, i, elementType[kCoderKind]);
+        layoutMoveTo(ctx, base + cursor);
+        try {
+          const [element, bytesRead] = elementType.decode(view, ctx);
+          endSpan(ctx, span, bytesRead);
+          cursor += bytesRead;
+          decoded[i] = element;
+        } catch (e) {
+          throw wrapDecodeError(e, encoded, view, i, elementType);
+        }
       }
 
       return [decoded, cursor];
     },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const base = layoutOffset(ctx);
+
+      refSetValue(ctx, self, decoded);
+
+      let size = lengthType.measure?.(decoded.length, ctx);
+      for (let i = 0; i < decoded.length && size !== undefined; i++) {
+        layoutMoveTo(ctx, base + size);
+        const bytes = elementType.measure?.(decoded[i], ctx);
+        size = bytes === undefined ? undefined : size + bytes;
+      }
+      return size;
+    },
+    describe: (walker) => ({
+      type: "array",
+      element: walker.child(elementType),
+      length: { type: "prefixed", prefix: walker.child(lengthType) },
+    }),
+    view: (encoded, context) => {
+      let length, start;
+      try {
+        [length, start] = lengthType.decode(encoded, context);
+      } catch (e) {
+        throw wrapDecodeError(e, encoded, encoded, undefined, lengthType);
+      }
+
+      return arrayView(self, elementType, encoded, context, start, {
+        count: length,
+      });
+    },
   };
 }
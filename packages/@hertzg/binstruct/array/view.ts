@@ -0,0 +1,141 @@
+import type { Coder, Context } from "../core.ts";
+import { layoutMoveTo, layoutOffset } from "../layout/frame.ts";
+import { refSetValue } from "../ref/ref.ts";
+import { type ValueView, viewChild, viewContext } from "../view.ts";
+import type { ArrayWhileCondition } from "./conditional-while.ts";
+
+/**
+ * Where the elements of an array view end: after a known count, or when a
+ * condition stops them the way it does for `arrayWhile`.
+ */
+export type ArrayViewEnd<TDecoded> =
+  | { count: number }
+  | { condition: ArrayWhileCondition<TDecoded> };
+
+// Reads a property key as an element index, the way arrays do
+function toIndex(key: string | symbol): number | undefined {
+  if (typeof key !== "string") {
+    return undefined;
+  }
+  const index = Number(key);
+  return Number.isInteger(index) && index >= 0 && String(index) === key
+    ? index
+    : undefined;
+}
+
+/**
+ * Creates the view of an array whose elements start `start` bytes into
+ * `encoded`.
+ *
+ * The value is a proxy over an array that fills in as elements are read.
+ * Reading an element locates the ones before it, since each starts where the
+ * one before it ends, and leaves the ones after it alone.
+ *
+ * @template TDecoded - The type of the elements
+ * @param self - The array coder, for refs to the array
+ * @param elementType - The coder for each element
+ * @param encoded - The array's bytes
+ * @param context - The context the view is created in
+ * @param start - The offset of the first element, after any prefix
+ * @param end - When the elements end
+ * @returns The array's view
+ */
+export function arrayView<TDecoded>(
+  self: Coder<TDecoded[]>,
+  elementType: Coder<TDecoded>,
+  encoded: Uint8Array,
+  context: Context,
+  start: number,
+  end: ArrayViewEnd<TDecoded>,
+): ValueView<TDecoded[]> {
+  const ctx = viewContext(context);
+  const base = layoutOffset(ctx);
+  const decoded: TDecoded[] = [];
+  const elements: ValueView<TDecoded>[] = [];
+  const starts: number[] = [];
+  let done = "count" in end && end.count === 0;
+
+  // Each element starts where the one before it ends
+  const next = () => {
+    const last = elements.length - 1;
+    return last < 0 ? start : starts[last] + elements[last].byteLength();
+  };
+
+  // Locates elements up to `index`, and returns whether it exists
+  const locate = (index: number): boolean => {
+    while (!done && elements.length <= index) {
+      const offset = next();
+      const remaining = encoded.subarray(offset);
+      if (
+        "condition" in end &&
+        (offset >= encoded.length ||
+          !end.condition({
+            index: elements.length,
+            array: decoded,
+            buffer: remaining,
+            context: ctx,
+          }))
+      ) {
+        done = true;
+        break;
+      }
+
+      layoutMoveTo(ctx, base + offset);
+      const element = viewChild(
+        ctx,
+        elementType,
+        encoded,
+        remaining,
+        elements.length,
+      );
+      decoded[elements.length] = element.value;
+      elements.push(element);
+      starts.push(offset);
+      done = "count" in end && elements.length === end.count;
+    }
+    return index < elements.length;
+  };
+
+  // Arrays with a count report it before their elements are located, the
+  // others only know their length once the condition stops them
+  if ("count" in end) {
+    decoded.length = end.count;
+  }
+  const touch = (key: string | symbol) => {
+    const index = toIndex(key);
+    if (index !== undefined) {
+      locate(index);
+    } else if (key === "length" && "condition" in end) {
+      locate(Infinity);
+    }
+  };
+
+  const value = new Proxy(decoded, {
+    get: (target, key, receiver) => {
+      touch(key);
+      return Reflect.get(target, key, receiver);
+    },
+    has: (target, key) => {
+      touch(key);
+      return Reflect.has(target, key);
+    },
+    ownKeys: (target) => {
+      locate(Infinity);
+      return Reflect.ownKeys(target);
+    },
+    getOwnPropertyDescriptor: (target, key) => {
+      touch(key);
+      return Reflect.getOwnPropertyDescriptor(target, key);
+    },
+  });
+
+  refSetValue(context, self, value);
+
+  return {
+    value,
+    byteLength: () => {
+      locate(Infinity);
+      return next();
+    },
+  };
+}
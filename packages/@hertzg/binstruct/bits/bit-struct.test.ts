@@ -4,6 +4,7 @@ import { struct } from "../struct/struct.ts";
 import { u32le } from "../numeric/numeric.ts";
 import { createContext } from "../core.ts";
 import { ref } from "../ref/ref.ts";
+import { traceDecode } from "../trace.ts";
 
 Deno.test("bitStruct: schema validation", async (t) => {
   await t.step("rejects bit count < 1", () => {
@@ -511,3 +512,211 @@ Deno.test("bitStruct: real-world use cases", async (t) => {
     assertEquals(decoded, value);
   });
 });
+
+Deno.test("bitStruct: bit and byte order", async (t) => {
+  await t.step("LSB-first fills each byte from bit 0", () => {
+    // DEFLATE block header: BFINAL, then BTYPE, from the low bits up
+    const header = bitStruct({ final: 1, type: 2, _rest: 5 }, {
+      bitOrder: "lsb",
+    });
+    const buffer = new Uint8Array(1);
+
+    header.encode({ final: 1, type: 2, _rest: 0 }, buffer);
+
+    assertEquals(buffer[0], 0b00000_10_1);
+    assertEquals(header.decode(buffer)[0], { final: 1, type: 2, _rest: 0 });
+  });
+
+  await t.step("LSB-first fields crossing bytes are little-endian", () => {
+    const coder = bitStruct({ low: 4, wide: 12 }, { bitOrder: "lsb" });
+    const buffer = new Uint8Array(2);
+
+    coder.encode({ low: 0xa, wide: 0x123 }, buffer);
+
+    assertEquals([...buffer], [0x3a, 0x12]);
+    assertEquals(coder.decode(buffer)[0], { low: 0xa, wide: 0x123 });
+  });
+
+  await t.step("endian overrides the byte order of either bit order", () => {
+    // A 16-bit register documented MSB-first, stored little-endian
+    const register = bitStruct({ mode: 4, count: 12 }, { endian: "le" });
+    const lsbBig = bitStruct({ mode: 4, count: 12 }, {
+      bitOrder: "lsb",
+      endian: "be",
+    });
+    const buffer = new Uint8Array(2);
+
+    register.encode({ mode: 0xa, count: 0x123 }, buffer);
+    assertEquals([...buffer], [0x23, 0xa1]);
+
+    lsbBig.encode({ mode: 0xa, count: 0x123 }, buffer);
+    assertEquals([...buffer], [0x12, 0x3a]);
+    assertEquals(lsbBig.decode(buffer)[0], { mode: 0xa, count: 0x123 });
+  });
+
+  await t.step("encode replaces the bits already in the buffer", () => {
+    const coder = bitStruct({ a: 4, b: 4 });
+    const buffer = new Uint8Array([0xff]);
+
+    coder.encode({ a: 1, b: 2 }, buffer);
+
+    assertEquals(buffer[0], 0x12);
+  });
+
+  await t.step("rejects unknown orders", () => {
+    assertThrows(
+      // @ts-expect-error: not a bit order
+      () => bitStruct({ a: 8 }, { bitOrder: "middle" }),
+      Error,
+      'Invalid bit order: "middle"',
+    );
+    assertThrows(
+      // @ts-expect-error: not a byte order
+      () => bitStruct({ a: 8 }, { endian: "pdp" }),
+      Error,
+      'Invalid endian: "pdp"',
+    );
+  });
+});
+
+Deno.test("bitStruct: typed fields", async (t) => {
+  await t.step("signed fields are two's-complement", () => {
+    const coder = bitStruct({ x: { bits: 4, signed: true }, y: 4 });
+    const buffer = new Uint8Array(1);
+
+    coder.encode({ x: -3, y: 5 }, buffer);
+
+    assertEquals(buffer[0], 0b1101_0101);
+    assertEquals(coder.decode(buffer)[0], { x: -3, y: 5 });
+    assertThrows(
+      () => coder.encode({ x: 8, y: 0 }, buffer),
+      Error,
+      "exceeds 4-bit signed range (-8 to 7)",
+    );
+  });
+
+  await t.step("boolean fields are single bits", () => {
+    const coder = bitStruct({
+      urgent: { type: "boolean" },
+      ack: { type: "boolean" },
+      _reserved: 6,
+    });
+    const buffer = new Uint8Array(1);
+
+    coder.encode({ urgent: false, ack: true, _reserved: 0 }, buffer);
+
+    assertEquals(buffer[0], 0b01_000000);
+    const [decoded] = coder.decode(buffer);
+    const ack: boolean = decoded.ack;
+    assertEquals(ack, true);
+    assertThrows(
+      () =>
+        coder.encode(
+          { urgent: 1 as unknown as boolean, ack: true, _reserved: 0 },
+          buffer,
+        ),
+      Error,
+      'Value 1 for field "urgent" must be a boolean',
+    );
+  });
+
+  await t.step("bigint fields reach 64 bits in either order", () => {
+    for (const bitOrder of ["msb", "lsb"] as const) {
+      const coder = bitStruct({
+        flag: 4,
+        wide: { bits: 64, type: "bigint" },
+        small: { bits: 4, signed: true, type: "bigint" },
+      }, { bitOrder });
+      const value = { flag: 9, wide: 0xfedcba9876543210n, small: -1n };
+      const buffer = new Uint8Array(9);
+
+      coder.encode(value, buffer);
+      const [decoded] = coder.decode(buffer);
+      const wide: bigint = decoded.wide;
+
+      assertEquals(wide, value.wide);
+      assertEquals(decoded, value);
+    }
+  });
+
+  await t.step("bigint fields reject numbers and out-of-range values", () => {
+    const coder = bitStruct({ id: { bits: 40, type: "bigint" } });
+    const buffer = new Uint8Array(5);
+
+    assertThrows(
+      () => coder.encode({ id: 1 as unknown as bigint }, buffer),
+      Error,
+      'Value 1 for field "id" must be a bigint',
+    );
+    assertThrows(
+      () => coder.encode({ id: 2n ** 40n }, buffer),
+      Error,
+      "exceeds 40-bit range",
+    );
+  });
+
+  await t.step("bigint fields check their exact bounds above 2^53", () => {
+    const cases = [
+      { bits: 64, signed: false, min: 0n, max: 2n ** 64n - 1n },
+      { bits: 64, signed: true, min: -(2n ** 63n), max: 2n ** 63n - 1n },
+      { bits: 56, signed: false, min: 0n, max: 2n ** 56n - 1n },
+      { bits: 56, signed: true, min: -(2n ** 55n), max: 2n ** 55n - 1n },
+    ];
+
+    for (const { bits, signed, min, max } of cases) {
+      const coder = bitStruct({ id: { bits, signed, type: "bigint" } });
+      const buffer = new Uint8Array(bits / 8);
+
+      for (const id of [min, max]) {
+        coder.encode({ id }, buffer);
+        assertEquals(coder.decode(buffer)[0].id, id);
+      }
+      for (const id of [min - 1n, max + 1n]) {
+        assertThrows(
+          () => coder.encode({ id }, buffer),
+          Error,
+          `Value ${id} for field "id" exceeds ${bits}-bit`,
+        );
+      }
+    }
+  });
+
+  await t.step("validates widths per type", () => {
+    assertThrows(
+      () => bitStruct({ id: { bits: 65, type: "bigint" } }),
+      Error,
+      "Must be integer 1-64.",
+    );
+    assertThrows(
+      () => bitStruct({ id: { bits: 40 } }),
+      Error,
+      "Must be integer 1-32.",
+    );
+    assertThrows(
+      // @ts-expect-error: not a field type
+      () => bitStruct({ id: { bits: 8, type: "float" } }),
+      Error,
+      'Invalid bit field "id": unknown type "float".',
+    );
+  });
+});
+
+Deno.test("bitStruct: trace spans follow the bit order", () => {
+  const coder = bitStruct({ low: 3, wide: 10, high: 3 }, { bitOrder: "lsb" });
+  const { span } = traceDecode(coder, new Uint8Array(2));
+
+  assertEquals(
+    span.children.map(({ path, offset, length, bitOffset, bitLength }) => [
+      path,
+      offset,
+      length,
+      bitOffset,
+      bitLength,
+    ]),
+    [
+      [["low"], 0, 1, 5, 3],
+      [["wide"], 0, 2, 0, 10],
+      [["high"], 1, 1, 0, 3],
+    ],
+  );
+});
@@ -2,42 +2,109 @@
  * Bit-packed structure coder for encoding and decoding bit-level fields.
  *
  * Creates a {@link import("../core.ts").Coder} for structures where fields are not byte-aligned.
- * All fields are encoded/decoded using MSB-first bit ordering.
+ * Fields are packed MSB-first by default, or LSB-first, and may be unsigned,
+ * two's-complement signed, `bigint` or `boolean`.
  *
  * @module
  */
 
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
-import { getBits, setBits } from "./view.ts";
+import { beginSpan, endSpan } from "../trace.ts";
+import {
+  type BitChunk,
+  bitChunks,
+  readChunks,
+  readChunksBig,
+  writeChunks,
+  writeChunksBig,
+} from "./view.ts";
 
 const kKindBitStruct = Symbol("bitStruct");
+const kKindBitField = Symbol("bitField");
 
 /**
- * Schema type for bitStruct, mapping field names to bit counts.
+ * Declaration of one bitStruct field.
+ *
+ * - A bare bit count is an unsigned `number` field of 1-32 bits.
+ * - `{ bits, signed }` is a `number` field of 1-32 bits, two's-complement
+ *   when `signed` is true.
+ * - `{ bits, signed, type: "bigint" }` is a `bigint` field of 1-64 bits.
+ * - `{ type: "boolean" }` is a single-bit flag.
+ */
+export type BitField =
+  | number
+  | {
+    readonly bits: number;
+    readonly signed?: boolean;
+    readonly type?: "number";
+  }
+  | {
+    readonly bits: number;
+    readonly signed?: boolean;
+    readonly type: "bigint";
+  }
+  | { readonly type: "boolean" };
+
+/**
+ * Schema type for bitStruct, mapping field names to their declarations.
  */
-export type BitSchema = Record<string, number>;
+export type BitSchema = Record<string, BitField>;
+
+/**
+ * Type a bitStruct field decodes to, given its declaration.
+ */
+export type BitFieldValue<F extends BitField> = F extends
+  { readonly type: "bigint" } ? bigint
+  : F extends { readonly type: "boolean" } ? boolean
+  : number;
 
 /**
  * Type of the decoded value from a bitStruct.
- * All fields are decoded as numbers.
  */
 export type BitStructDecoded<T extends BitSchema> = {
-  [K in keyof T]: number;
+  [K in keyof T]: BitFieldValue<T[K]>;
 };
 
 /**
- * Creates a Coder for bit-packed structures with MSB-first ordering.
+ * Options for {@link bitStruct}.
+ */
+export interface BitStructOptions {
+  /**
+   * Which end of the packed bits the first field takes, and which end of each
+   * field comes first: `"msb"` (the default) or `"lsb"`.
+   */
+  readonly bitOrder?: "msb" | "lsb";
+  /**
+   * Byte order of the packed bits, read as one integer. Defaults to `"be"`
+   * for MSB-first and `"le"` for LSB-first.
+   */
+  readonly endian?: "be" | "le";
+}
+
+/**
+ * Creates a Coder for bit-packed structures.
  *
  * This function creates a coder for structures where fields are packed at the bit level,
  * allowing for efficient binary representations of small values. Fields are encoded in
- * declaration order with MSB-first bit ordering.
+ * declaration order.
+ *
+ * ## Bit and Byte Order
+ * The structure's bytes are read as one unsigned integer, big-endian or
+ * little-endian, and the fields are laid out in it from one end:
+ * - `bitOrder: "msb"` (default): the first field takes the most significant
+ *   bits. With the default `endian: "be"` that is bit 7 of the first byte,
+ *   the order of network protocol headers.
+ * - `bitOrder: "lsb"`: the first field takes the least significant bits.
+ *   With the default `endian: "le"` that is bit 0 of the first byte, the
+ *   order of DEFLATE block headers, USB HID reports and Bluetooth LE PDUs.
+ * - `endian` overrides the byte order, for register maps documented MSB-first
+ *   but stored little-endian, say.
  *
  * ## Constraints
- * - Each field must specify bit count between 1-32
+ * - `number` fields are 1-32 bits, `bigint` fields 1-64 bits, `boolean` fields 1 bit
  * - Total bits across all fields must be a multiple of 8
- * - Values are treated as unsigned integers
- * - MSB-first bit ordering (bit 7 is written/read first)
+ * - Fields are unsigned unless declared `signed`, which is two's-complement
  *
  * ## Ref Integration
  * - Refs work on the entire bitStruct result, not individual fields
@@ -47,9 +114,10 @@ export type BitStructDecoded<T extends BitSchema> = {
  * This coder is optimized for small, bit-aligned structures common in network
  * protocols and binary file formats.
  *
- * @param schema - Object mapping field names to bit counts (1-32)
+ * @param schema - Object mapping field names to bit counts or field declarations
+ * @param options - Bit order and byte order of the packed bits
  * @returns A Coder that encodes/decodes bit-packed structures
- * @throws {Error} If any bit count is not an integer between 1-32
+ * @throws {Error} If any field declaration or bit count is invalid
  * @throws {Error} If total bits is not a multiple of 8
  *
  * @example Simple flags with padding
@@ -134,40 +202,90 @@ export type BitStructDecoded<T extends BitSchema> = {
  * assertEquals(decoded.flags.version, 2);
  * assertEquals(decoded.payloadSize, 1024);
  * ```
+ *
+ * @example LSB-first: a DEFLATE block header
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bitStruct } from "@hertzg/binstruct/bits";
+ *
+ * // RFC 1951: BFINAL is the first bit of the stream, bit 0 of the byte
+ * const blockHeader = bitStruct({
+ *   final: { type: "boolean" },
+ *   type: 2,
+ *   _rest: 5,
+ * }, { bitOrder: "lsb" });
+ *
+ * const [decoded] = blockHeader.decode(new Uint8Array([0b00000_10_1]));
+ *
+ * assertEquals(decoded, { final: true, type: 2, _rest: 0 });
+ * ```
+ *
+ * @example Signed and bigint fields
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bitStruct } from "@hertzg/binstruct/bits";
+ *
+ * const sample = bitStruct({
+ *   delta: { bits: 12, signed: true },
+ *   timestamp: { bits: 52, type: "bigint" },
+ * });
+ *
+ * const buffer = new Uint8Array(8);
+ * sample.encode({ delta: -2, timestamp: 2n ** 51n + 1n }, buffer);
+ *
+ * assertEquals(buffer[0], 0xff);
+ * assertEquals(sample.decode(buffer)[0], {
+ *   delta: -2,
+ *   timestamp: 2n ** 51n + 1n,
+ * });
+ * ```
  */
 export function bitStruct<T extends BitSchema>(
   schema: T,
+  options: BitStructOptions = {},
 ): Coder<BitStructDecoded<T>> {
-  const fields = Object.entries(schema) as [keyof T, number][];
+  const { bitOrder = "msb", endian = bitOrder === "lsb" ? "le" : "be" } =
+    options;
+  if (bitOrder !== "msb" && bitOrder !== "lsb") {
+    throw new Error(
+      `Invalid bit order: "${bitOrder}". Must be "msb" or "lsb".`,
+    );
+  }
+  if (endian !== "be" && endian !== "le") {
+    throw new Error(`Invalid endian: "${endian}". Must be "be" or "le".`);
+  }
 
-  // Validate each field's bit count and resolve its position once, since the
-  // schema is fixed for the lifetime of the coder.
-  const layout: {
+  // Validate each declaration first; positions depend on the total width
+  const declared: {
     key: keyof T;
-    bitCount: number;
-    byteOffset: number;
-    bitOffset: number;
-    maxValue: number;
+    bits: number;
+    type: "number" | "bigint" | "boolean";
+    signed: boolean;
   }[] = [];
   let totalBits = 0;
-  for (const [key, bitCount] of fields) {
-    if (
-      !Number.isInteger(bitCount) || bitCount < 1 || bitCount > 32
-    ) {
+  for (const [key, field] of Object.entries(schema) as [keyof T, BitField][]) {
+    const name = String(key);
+    const spec = typeof field === "number" ? { bits: field } : field;
+    const type = spec.type ?? "number";
+    if (type !== "number" && type !== "bigint" && type !== "boolean") {
+      throw new Error(`Invalid bit field "${name}": unknown type "${type}".`);
+    }
+
+    const bits = "bits" in spec ? spec.bits : 1;
+    const maxBits = type === "bigint" ? 64 : type === "boolean" ? 1 : 32;
+    if (!Number.isInteger(bits) || bits < 1 || bits > maxBits) {
       throw new Error(
-        `Invalid bit count for field "${
-          String(key)
-        }": ${bitCount}. Must be integer 1-32.`,
+        `Invalid bit count for field "${name}": ${bits}. Must be integer 1-${maxBits}.`,
       );
     }
-    layout.push({
+
+    declared.push({
       key,
-      bitCount,
-      byteOffset: totalBits >>> 3,
-      bitOffset: totalBits & 7,
-      maxValue: bitCount === 32 ? 0xFFFFFFFF : (1 << bitCount) - 1,
+      bits,
+      type,
+      signed: "signed" in spec && spec.signed === true,
     });
-    totalBits += bitCount;
+    totalBits += bits;
   }
 
   if (totalBits % 8 !== 0) {
@@ -186,6 +304,43 @@ export function bitStruct<T extends BitSchema>(
 
   const totalBytes = totalBits / 8;
 
+  // Resolve each field's bytes once, since the schema is fixed for the
+  // lifetime of the coder
+  let position = 0;
+  const layout = declared.map((field) => {
+    const start = bitOrder === "lsb"
+      ? position
+      : totalBits - position - field.bits;
+    position += field.bits;
+
+    // Chunks run from the value's low bits, which little-endian stores first
+    const chunks: BitChunk[] = bitChunks(totalBytes, start, field.bits, endian);
+    const [low, high] = [chunks[0], chunks[chunks.length - 1]];
+    const [first, last] = endian === "le" ? [low, high] : [high, low];
+    // Bigint bounds stay bigints: as numbers they round above 2^53
+    const range = field.type === "bigint"
+      ? field.signed
+        ? [
+          -(1n << BigInt(field.bits - 1)),
+          (1n << BigInt(field.bits - 1)) - 1n,
+        ]
+        : [0n, (1n << BigInt(field.bits)) - 1n]
+      : field.signed
+      ? [-(2 ** (field.bits - 1)), 2 ** (field.bits - 1) - 1]
+      : [0, 2 ** field.bits - 1];
+
+    return {
+      ...field,
+      chunks,
+      byteOffset: first.byte,
+      byteLength: last.byte - first.byte + 1,
+      // Counted from the MSB of the first byte, as spans report it
+      bitOffset: 8 - first.shift - first.width,
+      min: range[0],
+      max: range[1],
+    };
+  });
+
   let self: Coder<BitStructDecoded<T>>;
   return self = {
     [kCoderKind]: kKindBitStruct,
@@ -193,19 +348,52 @@ export function bitStruct<T extends BitSchema>(
       const ctx = context ?? createContext("encode");
 
       // Process fields in declaration order
-      for (const { key, bitCount, byteOffset, bitOffset, maxValue } of layout) {
-        const value = decoded[key];
+      for (const field of layout) {
+        const { key, bits, type, signed, chunks, min, max } = field;
+        const value: unknown = decoded[key];
+        const name = String(key);
+
+        if (type === "boolean") {
+          if (typeof value !== "boolean") {
+            throw new Error(
+              `Value ${value} for field "${name}" must be a boolean`,
+            );
+          }
+          writeChunks(target, chunks, value ? 1 : 0);
+          continue;
+        }
 
-        // Validate value fits in bitCount bits
-        if (value < 0 || value > maxValue) {
+        const range = signed
+          ? `${bits}-bit signed range (${min} to ${max})`
+          : `${bits}-bit range (0-${max})`;
+
+        if (type === "bigint") {
+          if (typeof value !== "bigint") {
+            throw new Error(
+              `Value ${value} for field "${name}" must be a bigint`,
+            );
+          }
+          if (value < min || value > max) {
+            throw new Error(
+              `Value ${value} for field "${name}" exceeds ${range}`,
+            );
+          }
+          writeChunksBig(target, chunks, BigInt.asUintN(bits, value));
+          continue;
+        }
+
+        // Validate value fits in the field's bits
+        if ((value as number) < min || (value as number) > max) {
           throw new Error(
-            `Value ${value} for field "${
-              String(key)
-            }" exceeds ${bitCount}-bit range (0-${maxValue})`,
+            `Value ${value} for field "${name}" exceeds ${range}`,
           );
         }
-
-        setBits(target, byteOffset, bitOffset, value, bitCount);
+        const unsigned = value as number;
+        writeChunks(
+          target,
+          chunks,
+          unsigned < 0 ? unsigned + 2 ** bits : unsigned,
+        );
       }
 
       // Store entire struct result in context for refs
@@ -218,22 +406,60 @@ export function bitStruct<T extends BitSchema>(
 
       // Validate buffer size
       if (encoded.length < totalBytes) {
-        throw new Error(
+        throw new RangeError(
           `Need ${totalBytes} bytes, got ${encoded.length}`,
         );
       }
 
-      const result = {} as BitStructDecoded<T>;
+      const result = {} as Record<keyof T, number | bigint | boolean>;
 
       // Process fields in declaration order
-      for (const { key, bitCount, byteOffset, bitOffset } of layout) {
-        result[key] = getBits(encoded, byteOffset, bitOffset, bitCount);
+      for (const field of layout) {
+        const { key, bits, type, signed, chunks } = field;
+        if (type === "bigint") {
+          const value = readChunksBig(encoded, chunks);
+          result[key] = signed ? BigInt.asIntN(bits, value) : value;
+        } else if (type === "boolean") {
+          result[key] = readChunks(encoded, chunks) === 1;
+        } else {
+          const value = readChunks(encoded, chunks);
+          result[key] = signed && value > field.max ? value - 2 ** bits : value;
+        }
+
+        const span = beginSpan(
+          ctx,
+          encoded.subarray(field.byteOffset),
+          key as string,
+          kKindBitField,
+        );
+        if (span !== undefined) {
+          span.bitOffset = field.bitOffset;
+          span.bitLength = bits;
+          endSpan(ctx, span, field.byteLength);
+        }
       }
 
       // Store entire struct result in context for refs
-      refSetValue(ctx, self, result);
+      const decoded = result as BitStructDecoded<T>;
+      refSetValue(ctx, self, decoded);
 
-      return [result, totalBytes];
+      return [decoded, totalBytes];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+      return totalBytes;
     },
+    describe: () => ({
+      type: "bits",
+      bitOrder,
+      endian,
+      fields: layout.map(({ key, bits, signed, type }) => ({
+        name: key as string,
+        bits,
+        signed,
+        value: type,
+      })),
+    }),
   };
 }
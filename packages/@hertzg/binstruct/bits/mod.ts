@@ -7,8 +7,9 @@
  *
  * ## Features
  *
- * - **Bit-packed Structures**: Define structures with bit-level granularity (1-32 bits per field)
- * - **MSB-first Ordering**: Bits are read/written from most significant bit first (standard for network protocols)
+ * - **Bit-packed Structures**: Define structures with bit-level granularity (1-32 bits per field, 64 as bigint)
+ * - **MSB-first or LSB-first Ordering**: MSB-first by default (standard for network protocols), LSB-first for DEFLATE, USB HID and Bluetooth LE
+ * - **Typed Fields**: Unsigned, two's-complement signed, `bigint` and `boolean` fields
  * - **Type Safety**: Full TypeScript support with proper type inference
  * - **Byte Alignment Enforcement**: Total bits must be multiple of 8 (compile-time validation)
  * - **Integration**: Works seamlessly with {@link import("../struct/struct.ts").struct} and other coders
@@ -41,6 +42,21 @@
  * - Binary file formats
  * - Hardware register layouts
  *
+ * ## LSB-first Bit Ordering
+ *
+ * With `{ bitOrder: "lsb" }` the first field takes bit 0 instead, and a field
+ * crossing a byte continues in the low bits of the next one, so multi-byte
+ * fields read little-endian:
+ *
+ * ```
+ * Byte: 0b1010_0110
+ *              ^^^^ bits 0-3 (first 4 bits)
+ *         ^^^^----- bits 4-7 (last 4 bits)
+ * ```
+ *
+ * The `endian` option sets the byte order on its own, for layouts that mix
+ * the two, such as a register documented MSB-first but stored little-endian.
+ *
  * @example Basic bit-packed structure
  * ```ts
  * import { assertEquals } from "@std/assert";
@@ -165,6 +181,32 @@
  * assertEquals(decoded.compressionInfo, 7);     // 32KB window
  * ```
  *
+ * @example Real-world: USB HID mouse report, LSB-first
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bitStruct } from "@hertzg/binstruct/bits";
+ *
+ * const report = bitStruct({
+ *   left: { type: "boolean" },
+ *   right: { type: "boolean" },
+ *   middle: { type: "boolean" },
+ *   _padding: 5,
+ *   x: { bits: 8, signed: true },
+ *   y: { bits: 8, signed: true },
+ * }, { bitOrder: "lsb" });
+ *
+ * const [decoded] = report.decode(new Uint8Array([0b101, 0xfe, 0x03]));
+ *
+ * assertEquals(decoded, {
+ *   left: true,
+ *   right: false,
+ *   middle: true,
+ *   _padding: 0,
+ *   x: -2,
+ *   y: 3,
+ * });
+ * ```
+ *
  * @example Real-world: Ethernet VLAN tag
  * ```ts
  * import { assertEquals } from "@std/assert";
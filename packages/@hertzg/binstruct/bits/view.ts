@@ -1,106 +1,133 @@
 /**
  * Bit-level access helpers for Uint8Array buffers.
  *
- * All bit operations use MSB-first ordering (bit 7 is the most significant
- * bit within each byte).
+ * A bit-packed structure is treated as one unsigned integer spanning all of
+ * its bytes, stored big-endian or little-endian. A field is a run of that
+ * integer's bits, located by the significance of its lowest bit. The helpers
+ * split a field into the pieces that fall in each byte once, so that reads and
+ * writes only shift and mask.
  *
  * @module
  */
 
 /**
- * Reads bits from the buffer starting at the specified bit offset.
+ * The part of a bit field that falls in one byte.
+ */
+export interface BitChunk {
+  /** Index of the byte, from the start of the structure. */
+  readonly byte: number;
+  /** Position of the chunk's lowest bit within the byte (0 is the LSB). */
+  readonly shift: number;
+  /** Number of bits in the chunk (1-8). */
+  readonly width: number;
+  /** Position of the chunk's lowest bit within the field's value. */
+  readonly valueShift: number;
+}
+
+/**
+ * Splits a bit field into the chunks that fall in each byte.
  *
- * Bits are read in MSB-first order. The function can read up to 32 bits at once.
+ * @param totalBytes - Size of the whole structure in bytes
+ * @param start - Significance of the field's lowest bit within the structure's
+ * integer (0 is the least significant bit of the integer)
+ * @param count - Number of bits in the field
+ * @param endian - Byte order the structure's integer is stored in
+ * @returns The chunks, lowest bits of the value first
+ */
+export function bitChunks(
+  totalBytes: number,
+  start: number,
+  count: number,
+  endian: "be" | "le",
+): BitChunk[] {
+  const chunks: BitChunk[] = [];
+  const end = start + count;
+  for (let bit = start; bit < end;) {
+    const width = Math.min(end, (bit | 7) + 1) - bit;
+    chunks.push({
+      byte: endian === "le" ? bit >>> 3 : totalBytes - 1 - (bit >>> 3),
+      shift: bit & 7,
+      width,
+      valueShift: bit - start,
+    });
+    bit += width;
+  }
+  return chunks;
+}
+
+/**
+ * Reads a bit field of up to 53 bits as an unsigned number.
  *
- * @param buffer - The Uint8Array buffer to read from
- * @param byteOffset - The byte offset in the buffer (0-based)
- * @param bitOffset - The bit offset within the byte (0-7, where 0 is MSB)
- * @param count - Number of bits to read (1-32)
- * @returns The value of the bits read as an unsigned integer
+ * @param buffer - The buffer holding the structure at offset 0
+ * @param chunks - The field's chunks, from {@link bitChunks}
+ * @returns The value of the field
  */
-export function getBits(
+export function readChunks(
   buffer: Uint8Array,
-  byteOffset: number,
-  bitOffset: number,
-  count: number,
+  chunks: readonly BitChunk[],
 ): number {
-  let result = 0;
-  let remaining = count;
-  let currentByteOffset = byteOffset;
-  let currentBitOffset = bitOffset;
-
-  while (remaining > 0) {
-    // Calculate how many bits we can read from current byte
-    const bitsAvailable = 8 - currentBitOffset;
-    const bitsToRead = Math.min(remaining, bitsAvailable);
-
-    // Read current byte
-    const byte = buffer[currentByteOffset];
-
-    // Extract the bits we need from current byte (MSB first)
-    const shift = bitsAvailable - bitsToRead;
-    const mask = (1 << bitsToRead) - 1;
-    const bits = (byte >> shift) & mask;
-
-    // Add bits to result
-    // Use >>> 0 to ensure unsigned 32-bit integer
-    result = ((result << bitsToRead) | bits) >>> 0;
-
-    currentBitOffset += bitsToRead;
-    remaining -= bitsToRead;
-
-    // Move to next byte if current byte is fully consumed
-    if (currentBitOffset === 8) {
-      currentByteOffset++;
-      currentBitOffset = 0;
-    }
+  let value = 0;
+  for (const { byte, shift, width, valueShift } of chunks) {
+    value += ((buffer[byte] >> shift) & ((1 << width) - 1)) * 2 ** valueShift;
   }
-
-  return result;
+  return value;
 }
 
 /**
- * Writes bits to the buffer starting at the specified bit offset.
+ * Reads a bit field of any width as an unsigned bigint.
  *
- * Bits are written in MSB-first order. The function can write up to 32 bits at once.
+ * @param buffer - The buffer holding the structure at offset 0
+ * @param chunks - The field's chunks, from {@link bitChunks}
+ * @returns The value of the field
+ */
+export function readChunksBig(
+  buffer: Uint8Array,
+  chunks: readonly BitChunk[],
+): bigint {
+  let value = 0n;
+  for (const { byte, shift, width, valueShift } of chunks) {
+    value |= BigInt((buffer[byte] >> shift) & ((1 << width) - 1)) <<
+      BigInt(valueShift);
+  }
+  return value;
+}
+
+/**
+ * Writes an unsigned number of up to 53 bits into a bit field, replacing the
+ * bits already there.
  *
- * @param buffer - The Uint8Array buffer to write into
- * @param byteOffset - The byte offset in the buffer (0-based)
- * @param bitOffset - The bit offset within the byte (0-7, where 0 is MSB)
- * @param value - The value to write (uses lowest `count` bits)
- * @param count - Number of bits to write (1-32)
+ * @param buffer - The buffer holding the structure at offset 0
+ * @param chunks - The field's chunks, from {@link bitChunks}
+ * @param value - The value to write, which must fit the field
  */
-export function setBits(
+export function writeChunks(
   buffer: Uint8Array,
-  byteOffset: number,
-  bitOffset: number,
+  chunks: readonly BitChunk[],
   value: number,
-  count: number,
 ): void {
-  let remaining = count;
-  let currentByteOffset = byteOffset;
-  let currentBitOffset = bitOffset;
-
-  while (remaining > 0) {
-    // Calculate how many bits we can write in current byte
-    const bitsAvailable = 8 - currentBitOffset;
-    const bitsToWrite = Math.min(remaining, bitsAvailable);
-
-    // Extract the bits to write from value
-    const shift = remaining - bitsToWrite;
-    const bits = (value >> shift) & ((1 << bitsToWrite) - 1);
-
-    // Place bits in current byte (MSB first)
-    buffer[currentByteOffset] = buffer[currentByteOffset] |
-      (bits << (bitsAvailable - bitsToWrite));
-
-    currentBitOffset += bitsToWrite;
-    remaining -= bitsToWrite;
+  for (const { byte, shift, width, valueShift } of chunks) {
+    const mask = (1 << width) - 1;
+    const bits = Math.floor(value / 2 ** valueShift) & mask;
+    buffer[byte] = (buffer[byte] & ~(mask << shift)) | (bits << shift);
+  }
+}
 
-    // Move to next byte if current byte is fully consumed
-    if (currentBitOffset === 8) {
-      currentByteOffset++;
-      currentBitOffset = 0;
-    }
+/**
+ * Writes an unsigned bigint into a bit field, replacing the bits already
+ * there.
+ *
+ * @param buffer - The buffer holding the structure at offset 0
+ * @param chunks - The field's chunks, from {@link bitChunks}
+ * @param value - The value to write, which must fit the field
+ */
+export function writeChunksBig(
+  buffer: Uint8Array,
+  chunks: readonly BitChunk[],
+  value: bigint,
+): void {
+  for (const { byte, shift, width, valueShift } of chunks) {
+    const mask = (1 << width) - 1;
+    const bits = Number((value >> BigInt(valueShift)) & BigInt(mask));
+    buffer[byte] = (buffer[byte] & ~(mask << shift)) | (bits << shift);
   }
 }
@@ -1,5 +1,6 @@
 import { assertEquals, assertThrows } from "@std/assert";
-import { bytes } from "./bytes.ts";
+import { bytes, bytesLP } from "./bytes.ts";
+import { u16be } from "../numeric/numeric.ts";
 
 Deno.test("bytes - fixed length", () => {
   const coder = bytes(4);
@@ -49,3 +50,37 @@ Deno.test("bytes - error on insufficient buffer", () => {
     "Need 4 bytes, got 2",
   );
 });
+
+Deno.test("bytesLP - round-trips with a length prefix", () => {
+  const coder = bytesLP(u16be());
+  const data = new Uint8Array([1, 2, 3]);
+  const buffer = new Uint8Array(100);
+
+  const written = coder.encode(data, buffer);
+  const [decoded, read] = coder.decode(buffer);
+
+  assertEquals(buffer.subarray(0, written), new Uint8Array([0, 3, 1, 2, 3]));
+  assertEquals(decoded, data);
+  assertEquals(written, 5);
+  assertEquals(read, 5);
+});
+
+Deno.test("bytes - dispatches to bytesLP when given a length coder", () => {
+  const coder = bytes(u16be());
+  const buffer = new Uint8Array([0, 2, 0xaa, 0xbb, 0xcc]);
+
+  const [decoded, read] = coder.decode(buffer);
+
+  assertEquals(decoded, new Uint8Array([0xaa, 0xbb]));
+  assertEquals(read, 4);
+});
+
+Deno.test("bytesLP - error on insufficient buffer", () => {
+  const coder = bytesLP(u16be());
+
+  assertThrows(
+    () => coder.decode(new Uint8Array([0, 4, 1, 2])),
+    Error,
+    "Need 6 bytes, got 4",
+  );
+});
@@ -1,8 +1,9 @@
 /**
  * Byte-slice coder for binary structures.
  *
- * Encodes/decodes raw bytes either as a fixed-length slice or as a variable-length
- * view that consumes all available bytes.
+ * Encodes/decodes raw bytes as a fixed-length slice, as a slice preceded by a
+ * length prefix, or as a variable-length view that consumes all available
+ * bytes.
  *
  * It's the user's responsibility to provide a buffer big enough to fit the whole data.
  *
@@ -35,16 +36,22 @@ import {
   type Coder,
   type Context,
   createContext,
+  isCoder,
   kCoderKind,
 } from "../core.ts";
 import { isRef, refSetValue } from "../ref/ref.ts";
 
 const kKindBytes = Symbol("bytes");
+const kKindBytesLP = Symbol("bytesLP");
 
 /**
  * Creates a Coder for byte slices.
  *
- * @param lengthOrRef - Optional fixed length. If not provided, consumes all available bytes
+ * - If a length coder is provided, it creates a length-prefixed slice (see {@link bytesLP})
+ * - If a length value/reference is provided, it creates a fixed-length slice
+ * - If nothing is provided, it consumes all available bytes
+ *
+ * @param lengthOrRef - Optional length coder (for length-prefixed) or fixed length value/reference. If not provided, consumes all available bytes
  * @returns A Coder for byte slices
  *
  * @example
@@ -70,8 +77,12 @@ const kKindBytes = Symbol("bytes");
  */
 
 export function bytes(
-  lengthOrRef?: LengthOrRef | null,
+  lengthOrRef?: Coder<number> | LengthOrRef | null,
 ): Coder<Uint8Array> {
+  if (isCoder<number>(lengthOrRef)) {
+    return bytesLP(lengthOrRef);
+  }
+
   if (
     lengthOrRef != null &&
     !isRef<number>(lengthOrRef) &&
@@ -122,7 +133,7 @@ export function bytes(
       const len = resolveLength(ctx);
 
       if (encoded.length < len) {
-        throw new Error(
+        throw new RangeError(
           `Need ${len} bytes, got ${encoded.length}`,
         );
       }
@@ -131,5 +142,84 @@ export function bytes(
       refSetValue(ctx, self, truncated);
       return [truncated, len];
     },
+    measure: (value, context) => {
+      const ctx = context ?? createContext("encode");
+      const len = resolveLength === null ? value.length : resolveLength(ctx);
+
+      refSetValue(ctx, self, value);
+      return len;
+    },
+    describe: (walker) => ({
+      type: "bytes",
+      length: lengthOrRef == null
+        ? { type: "eos" }
+        : walker.length(lengthOrRef as LengthOrRef),
+    }),
+  };
+}
+
+/**
+ * Creates a Coder for length-prefixed byte slices.
+ *
+ * The slice is encoded with a length prefix followed by the bytes themselves.
+ * The length is encoded using the provided lengthType coder.
+ *
+ * @param lengthType - The coder for the slice length (e.g. u16, u32 or a varint)
+ * @returns A Coder for length-prefixed byte slices
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bytesLP } from "@hertzg/binstruct/bytes";
+ * import { varuint32 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = bytesLP(varuint32());
+ * const buffer = new Uint8Array(16);
+ *
+ * const bytesWritten = coder.encode(new Uint8Array([0xde, 0xad, 0xbe, 0xef]), buffer);
+ * assertEquals(buffer.subarray(0, bytesWritten), new Uint8Array([4, 0xde, 0xad, 0xbe, 0xef]));
+ *
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+ * assertEquals(bytesRead, 5);
+ * ```
+ */
+export function bytesLP(lengthType: Coder<number>): Coder<Uint8Array> {
+  let self: Coder<Uint8Array>;
+  return self = {
+    [kCoderKind]: kKindBytesLP,
+    encode: (value, target, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, value);
+
+      const cursor = lengthType.encode(value.length, target, ctx);
+      target.set(value, cursor);
+      return cursor + value.length;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const [length, cursor] = lengthType.decode(encoded, ctx);
+
+      if (encoded.length < cursor + length) {
+        throw new RangeError(
+          `Need ${cursor + length} bytes, got ${encoded.length}`,
+        );
+      }
+
+      const value = encoded.subarray(cursor, cursor + length);
+      refSetValue(ctx, self, value);
+      return [value, cursor + length];
+    },
+    measure: (value, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, value);
+
+      const prefix = lengthType.measure?.(value.length, ctx);
+      return prefix === undefined ? undefined : prefix + value.length;
+    },
+    describe: (walker) => ({
+      type: "bytes",
+      length: { type: "prefixed", prefix: walker.child(lengthType) },
+    }),
   };
 }
@@ -0,0 +1,166 @@
+import { bytes } from "../bytes/bytes.ts";
+import type { Coder } from "../core.ts";
+import { ref } from "../ref/ref.ts";
+import { u16be, u32be, u32le, u8 } from "../numeric/numeric.ts";
+import { struct } from "../struct/struct.ts";
+import { compile } from "./compile.ts";
+
+// Each coder is benched as built and compiled, against the DataView code one
+// would write by hand for it.
+
+const ipv4Header = () =>
+  struct({
+    versionIhl: u8(),
+    tos: u8(),
+    totalLength: u16be(),
+    identification: u16be(),
+    flagsFragment: u16be(),
+    ttl: u8(),
+    protocol: u8(),
+    checksum: u16be(),
+    source: u32be(),
+    destination: u32be(),
+  });
+
+const pcapRecord = () => {
+  const inclLen = u32le();
+  return struct({
+    tsSec: u32le(),
+    tsUsec: u32le(),
+    inclLen,
+    origLen: u32le(),
+    data: bytes(ref(inclLen)),
+  });
+};
+
+type Ipv4Header = ReturnType<typeof ipv4Header> extends Coder<infer T> ? T
+  : never;
+type PcapRecord = ReturnType<typeof pcapRecord> extends Coder<infer T> ? T
+  : never;
+
+const IPV4: Ipv4Header = {
+  versionIhl: 0x45,
+  tos: 0,
+  totalLength: 60,
+  identification: 0x1c46,
+  flagsFragment: 0x4000,
+  ttl: 64,
+  protocol: 6,
+  checksum: 0xb1e6,
+  source: 0xac100a63,
+  destination: 0xac100a0c,
+};
+
+const RECORD: PcapRecord = {
+  tsSec: 1700000000,
+  tsUsec: 123456,
+  inclLen: 64,
+  origLen: 64,
+  data: new Uint8Array(64).fill(0xab),
+};
+
+const ipv4Bytes = new Uint8Array(20);
+ipv4Header().encode(IPV4, ipv4Bytes);
+const recordBytes = new Uint8Array(80);
+pcapRecord().encode(RECORD, recordBytes);
+
+function decodeIpv4ByHand(encoded: Uint8Array): Ipv4Header {
+  const view = new DataView(
+    encoded.buffer,
+    encoded.byteOffset,
+    encoded.byteLength,
+  );
+  return {
+    versionIhl: view.getUint8(0),
+    tos: view.getUint8(1),
+    totalLength: view.getUint16(2),
+    identification: view.getUint16(4),
+    flagsFragment: view.getUint16(6),
+    ttl: view.getUint8(8),
+    protocol: view.getUint8(9),
+    checksum: view.getUint16(10),
+    source: view.getUint32(12),
+    destination: view.getUint32(16),
+  };
+}
+
+function encodeIpv4ByHand(value: Ipv4Header, target: Uint8Array): number {
+  const view = new DataView(
+    target.buffer,
+    target.byteOffset,
+    target.byteLength,
+  );
+  view.setUint8(0, value.versionIhl);
+  view.setUint8(1, value.tos);
+  view.setUint16(2, value.totalLength);
+  view.setUint16(4, value.identification);
+  view.setUint16(6, value.flagsFragment);
+  view.setUint8(8, value.ttl);
+  view.setUint8(9, value.protocol);
+  view.setUint16(10, value.checksum);
+  view.setUint32(12, value.source);
+  view.setUint32(16, value.destination);
+  return 20;
+}
+
+function decodePcapRecordByHand(encoded: Uint8Array): PcapRecord {
+  const view = new DataView(
+    encoded.buffer,
+    encoded.byteOffset,
+    encoded.byteLength,
+  );
+  const inclLen = view.getUint32(8, true);
+  return {
+    tsSec: view.getUint32(0, true),
+    tsUsec: view.getUint32(4, true),
+    inclLen,
+    origLen: view.getUint32(12, true),
+    data: encoded.subarray(16, 16 + inclLen),
+  };
+}
+
+function benchCoder<T>(
+  name: string,
+  build: () => Coder<T>,
+  value: T,
+  encoded: Uint8Array,
+  byHand: {
+    decode: (encoded: Uint8Array) => T;
+    encode?: (value: T, target: Uint8Array) => number;
+  },
+) {
+  const generic = build();
+  const compiled = compile(build());
+  const target = new Uint8Array(encoded.length);
+
+  Deno.bench("struct", { group: `${name} decode`, baseline: true }, () => {
+    generic.decode(encoded);
+  });
+  Deno.bench("compiled", { group: `${name} decode` }, () => {
+    compiled.decode(encoded);
+  });
+  Deno.bench("by hand", { group: `${name} decode` }, () => {
+    byHand.decode(encoded);
+  });
+
+  Deno.bench("struct", { group: `${name} encode`, baseline: true }, () => {
+    generic.encode(value, target);
+  });
+  Deno.bench("compiled", { group: `${name} encode` }, () => {
+    compiled.encode(value, target);
+  });
+  const { encode } = byHand;
+  if (encode !== undefined) {
+    Deno.bench("by hand", { group: `${name} encode` }, () => {
+      encode(value, target);
+    });
+  }
+}
+
+benchCoder("ipv4 header", ipv4Header, IPV4, ipv4Bytes, {
+  decode: decodeIpv4ByHand,
+  encode: encodeIpv4ByHand,
+});
+benchCoder("pcap record", pcapRecord, RECORD, recordBytes, {
+  decode: decodePcapRecordByHand,
+});
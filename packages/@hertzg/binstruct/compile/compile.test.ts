@@ -0,0 +1,275 @@
+import { assertEquals, assertStrictEquals, assertThrows } from "@std/assert";
+import { arrayLP, arrayWhile } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { computed } from "../computed/computed.ts";
+import { type Coder, createContext, kCtxRefs } from "../core.ts";
+import { BinstructDecodeError, BinstructEncodeError } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { align } from "../layout/align.ts";
+import { lazy } from "../lazy/lazy.ts";
+import {
+  f32le,
+  f64be,
+  s16le,
+  s32be,
+  s8,
+  u16be,
+  u16le,
+  u24be,
+  u32be,
+  u32le,
+  u64le,
+  u8,
+} from "../numeric/numeric.ts";
+import { ref } from "../ref/ref.ts";
+import { refineSwitch } from "../refine/switch.ts";
+import { describe } from "../schema/describe.ts";
+import { struct } from "../struct/struct.ts";
+import { traceDecode } from "../trace.ts";
+import { decodeView } from "../view.ts";
+import { compile } from "./compile.ts";
+
+// Builds the coder twice, compiling one of them
+function pair<T>(
+  build: () => Coder<T>,
+): [generic: Coder<T>, compiled: Coder<T>] {
+  return [build(), compile(build())];
+}
+
+// Asserts both coders decode `buffer` and encode `value` alike
+function assertSame<T>(build: () => Coder<T>, buffer: Uint8Array, value: T) {
+  const [generic, compiled] = pair(build);
+  assertEquals(compiled.decode(buffer), generic.decode(buffer));
+  assertEquals(encode(compiled, value), encode(generic, value));
+}
+
+// Asserts both coders throw the same located error
+function assertSameError(
+  // deno-lint-ignore no-explicit-any
+  ErrorClass: new (...args: any[]) => Error,
+  // deno-lint-ignore no-explicit-any
+  run: (coder: Coder<any>) => unknown,
+  // deno-lint-ignore no-explicit-any
+  build: () => Coder<any>,
+) {
+  const [generic, compiled] = pair(build);
+  const expected = assertThrows(() => run(generic), ErrorClass);
+  const actual = assertThrows(() => run(compiled), ErrorClass);
+  assertEquals(
+    [actual.message, actual.cause],
+    [expected.message, expected.cause],
+  );
+}
+
+const header = () =>
+  struct({
+    version: u8(),
+    flags: s8(),
+    length: u16be(),
+    id: u32le(),
+    fragment: s16le(),
+    ttl: s32be(),
+    ratio: f32le(),
+    timestamp: u64le(),
+    scale: f64be(),
+  });
+
+const HEADER = {
+  version: 4,
+  flags: -2,
+  length: 0xbeef,
+  id: 0x01020304,
+  fragment: -300,
+  ttl: -70000,
+  ratio: 1.5,
+  timestamp: 0x0102030405060708n,
+  scale: -0.25,
+};
+
+const record = () => {
+  const inclLen = u32le();
+  return struct({
+    tsSec: u32le(),
+    tsUsec: u32le(),
+    inclLen,
+    origLen: u32le(),
+    data: bytes(ref(inclLen)),
+  });
+};
+
+Deno.test("compile - decodes and encodes like the struct", async (t) => {
+  await t.step("fixed fields", () => {
+    assertSame(header, encode(header(), HEADER), HEADER);
+  });
+
+  await t.step("nested structs", () => {
+    const build = () =>
+      struct({
+        tag: u8(),
+        point: struct({ x: s16le(), y: s16le(), z: struct({ w: u8() }) }),
+        end: u16be(),
+      });
+    const value = { tag: 1, point: { x: -1, y: 2, z: { w: 3 } }, end: 4 };
+
+    assertSame(build, new Uint8Array([1, 0xff, 0xff, 2, 0, 3, 0, 4]), value);
+  });
+
+  await t.step("dynamic fields between fixed ones", () => {
+    const value = {
+      tsSec: 1,
+      tsUsec: 2,
+      inclLen: 3,
+      origLen: 60,
+      data: new Uint8Array([7, 8, 9]),
+    };
+
+    assertSame(record, encode(record(), value), value);
+  });
+
+  await t.step("fields that read the layout frame", () => {
+    const build = () => {
+      const length = u8();
+      return struct({
+        kind: u8(),
+        length: computed(length, ({ value }) => value.body.length),
+        body: bytes(ref(length)),
+        pad: align(4),
+        sum: computed(
+          u16le(),
+          ({ bytesOf }) => bytesOf("body").reduce((a, b) => a + b, 0),
+          { verify: true },
+        ),
+        trailer: u32be(),
+      });
+    };
+    const value = {
+      kind: 9,
+      length: 2,
+      body: new Uint8Array([5, 6]),
+      pad: undefined,
+      sum: 11,
+      trailer: 0xcafe,
+    };
+
+    assertSame(build, encode(build(), value), value);
+  });
+
+  await t.step("structs inside arrays and refiners", () => {
+    const build = () => {
+      const ipv4 = struct({ version: u8(), ttl: u8(), length: u16be() });
+      const frame = refineSwitch(
+        struct({ type: u8(), body: ipv4 }),
+        {
+          ipv4: {
+            refine: ({ body }) => body,
+            unrefine: (
+              body: { version: number; ttl: number; length: number },
+            ) => ({ type: 4, body }),
+          },
+        },
+        { refine: () => "ipv4", unrefine: () => "ipv4" },
+      );
+      return arrayLP(frame, u8());
+    };
+    const value = [
+      { version: 4, ttl: 64, length: 20 },
+      { version: 4, ttl: 1, length: 0x0102 },
+    ];
+
+    assertSame(build, encode(build(), value), value);
+  });
+
+  await t.step("fields the generated code leaves to the coders", () => {
+    const build = () =>
+      struct({
+        a: u24be(),
+        b: bitStruct({ hi: 4, lo: 4 }),
+        c: lazy(() => struct({ d: u8() })),
+      });
+    const value = { a: 0x010203, b: { hi: 1, lo: 2 }, c: { d: 3 } };
+
+    assertSame(build, new Uint8Array([1, 2, 3, 0x12, 3]), value);
+  });
+});
+
+Deno.test("compile - reports the errors the struct reports", async (t) => {
+  await t.step("on short buffers", () => {
+    const buffer = encode(header(), HEADER);
+    for (const length of [0, 5, 20]) {
+      assertSameError(
+        BinstructDecodeError,
+        (coder) => decode(coder, buffer.subarray(0, length)),
+        header,
+      );
+    }
+
+    const records = () =>
+      arrayWhile(record(), ({ buffer }) => buffer.length > 0);
+    const bytes = new Uint8Array([1, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 0]);
+    assertSameError(
+      BinstructDecodeError,
+      (coder) => decode(coder, bytes),
+      records,
+    );
+  });
+
+  await t.step("on values that do not fit their coders", () => {
+    assertSameError(
+      BinstructEncodeError,
+      (coder) => encode(coder, { ...HEADER, timestamp: 5 }),
+      header,
+    );
+    assertSameError(
+      BinstructEncodeError,
+      (coder) =>
+        coder.encode({ tsSec: 1n, data: new Uint8Array() }, new Uint8Array(32)),
+      record,
+    );
+  });
+
+  await t.step("on short targets", () => {
+    assertSameError(
+      RangeError,
+      (coder) => coder.encode(HEADER, new Uint8Array(10)),
+      header,
+    );
+  });
+});
+
+Deno.test("compile - keeps refs, traces and views working", () => {
+  const [generic, compiled] = pair(record);
+  const buffer = new Uint8Array([
+    ...[1, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 9, 0, 0, 0],
+    ...[0xab, 0xcd],
+  ]);
+
+  const ctx = createContext("decode");
+  compiled.decode(buffer, ctx);
+  assertEquals(ctx[kCtxRefs]?.get(compiled), decode(generic, buffer));
+
+  const expected = traceDecode(generic, buffer);
+  const actual = traceDecode(compiled, buffer);
+  assertEquals(actual.value, expected.value);
+  assertEquals(actual.span.children, expected.span.children);
+
+  assertEquals(decodeView(compiled, buffer), decode(generic, buffer));
+});
+
+Deno.test("compile - compiles in place, once", () => {
+  const inner = struct({ a: u8() });
+  const outer = struct({ inner, b: u16le() });
+  const { decode: decodeInner } = inner;
+
+  assertStrictEquals(compile(outer), outer);
+  assertEquals(
+    describe(outer),
+    describe(struct({ inner: struct({ a: u8() }), b: u16le() })),
+  );
+
+  const { decode: decodeOuter } = outer;
+  compile(outer);
+  compile(inner);
+  assertStrictEquals(outer.decode, decodeOuter);
+  assertStrictEquals(inner.decode === decodeInner, false);
+});
@@ -0,0 +1,544 @@
+/**
+ * Compiling coder trees into straight-line DataView code.
+ *
+ * Every field of a {@link struct} is a closure call, and every numeric field
+ * builds its own DataView. {@link compile} finds the structs of a coder tree
+ * and generates decode and encode functions for them that read and write
+ * runs of fixed-size numeric fields, nested structs of them included, at
+ * constant offsets of a single DataView. Other fields still run through
+ * their coders.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decode, encode, struct, u16be, u32be, u8 } from "@hertzg/binstruct";
+ * import { compile } from "@hertzg/binstruct/compile";
+ *
+ * const header = compile(struct({
+ *   version: u8(),
+ *   flags: u8(),
+ *   length: u16be(),
+ *   id: u32be(),
+ * }));
+ *
+ * const bytes = encode(header, { version: 4, flags: 0, length: 20, id: 7 });
+ *
+ * assertEquals(bytes, new Uint8Array([4, 0, 0, 20, 0, 0, 0, 7]));
+ * assertEquals(decode(header, bytes), { version: 4, flags: 0, length: 20, id: 7 });
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCtxRefs,
+  kCtxTrace,
+} from "../core.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { closeFrame, type LayoutFrame, openFrame } from "../layout/frame.ts";
+import { refSetValue, type RefsWeakMap } from "../ref/ref.ts";
+import type { SchemaNode } from "../schema/describe.ts";
+
+// deno-lint-ignore no-explicit-any
+type AnyCoder = Coder<any>;
+
+// The layout of a coder whose size and byte positions are known up front
+type FixedLayout =
+  | {
+    type: "number";
+    coder: AnyCoder;
+    method: string;
+    size: number;
+    le: boolean;
+  }
+  | { type: "struct"; coder: AnyCoder; fields: Field[]; size: number };
+
+type Field = readonly [key: string, layout: FixedLayout];
+
+type Reader = (
+  view: DataView,
+  offset: number,
+  into: Record<string, unknown>,
+  refs: RefsWeakMap | undefined,
+) => void;
+
+type Writer = (
+  view: DataView,
+  offset: number,
+  from: Record<string, unknown>,
+  refs: RefsWeakMap | undefined,
+) => void;
+
+// A struct's fields in order: runs of fixed fields, read and written by
+// generated code, and the fields between them, run by their coders
+type Step =
+  | {
+    type: "run";
+    fields: Field[];
+    size: number;
+    read: Reader;
+    write: Writer;
+  }
+  | { type: "field"; key: string; coder: AnyCoder };
+
+// The DataView methods of the numeric node types, by bit width
+const methods: Record<string, Record<number, string>> = {
+  uint: { 8: "Uint8", 16: "Uint16", 32: "Uint32", 64: "BigUint64" },
+  int: { 8: "Int8", 16: "Int16", 32: "Int32", 64: "BigInt64" },
+  float: { 32: "Float32", 64: "Float64" },
+};
+
+// Structs already compiled, so compiling a tree twice changes nothing
+const compiled = new WeakSet<AnyCoder>();
+
+// Describes a coder one level deep, returning its node and its children
+function inspect(
+  coder: AnyCoder,
+): { node?: SchemaNode; children: [string | undefined, AnyCoder][] } {
+  const children: [string | undefined, AnyCoder][] = [];
+  const node = coder.describe?.({
+    child: (child, field) => {
+      children.push([field, child]);
+      return { type: "opaque", coderKind: "" };
+    },
+    length: () => ({ type: "computed" }),
+  });
+  return { node, children };
+}
+
+function fixedLayout(
+  coder: AnyCoder,
+  layouts: Map<AnyCoder, FixedLayout | undefined>,
+): FixedLayout | undefined {
+  if (layouts.has(coder)) {
+    return layouts.get(coder);
+  }
+
+  const { node, children } = inspect(coder);
+  let layout: FixedLayout | undefined;
+  if (
+    node?.type === "uint" || node?.type === "int" || node?.type === "float"
+  ) {
+    const method = methods[node.type][node.bits];
+    if (method !== undefined) {
+      const le = node.bits > 8 && node.endian === "le";
+      layout = { type: "number", coder, method, size: node.bits / 8, le };
+    }
+  } else if (node?.type === "struct") {
+    const fields: Field[] = [];
+    for (const [key, child] of children) {
+      const field = fixedLayout(child, layouts);
+      if (field === undefined) {
+        break;
+      }
+      fields.push([key!, field]);
+    }
+    if (fields.length === children.length) {
+      const size = fields.reduce((sum, [, field]) => sum + field.size, 0);
+      layout = { type: "struct", coder, fields, size };
+    }
+  }
+
+  layouts.set(coder, layout);
+  return layout;
+}
+
+// Generates the statements for a run of fields, with the coders whose refs
+// they set collected in `coders`
+function generate(
+  fields: readonly Field[],
+  target: string,
+  start: number,
+  direction: "read" | "write",
+  coders: AnyCoder[],
+  names: { next: number },
+): string[] {
+  const lines: string[] = [];
+  let offset = start;
+
+  for (const [key, layout] of fields) {
+    const prop = `${target}[${JSON.stringify(key)}]`;
+    const coder = `c[${coders.push(layout.coder) - 1}]`;
+    const name = `v${names.next++}`;
+
+    if (direction === "read") {
+      if (layout.type === "number") {
+        const le = layout.le ? ", true" : "";
+        lines.push(
+          `const ${name} = view.get${layout.method}(o + ${offset}${le});`,
+        );
+        lines.push(`refs?.set(${coder}, ${name});`);
+      } else {
+        lines.push(`const ${name} = {};`);
+        lines.push(`refs?.set(${coder}, ${name});`);
+        lines.push(
+          ...generate(layout.fields, name, offset, direction, coders, names),
+        );
+      }
+      lines.push(`${prop} = ${name};`);
+    } else {
+      lines.push(`const ${name} = ${prop};`);
+      lines.push(`refs?.set(${coder}, ${name});`);
+      if (layout.type === "number") {
+        const le = layout.le ? ", true" : "";
+        lines.push(`view.set${layout.method}(o + ${offset}, ${name}${le});`);
+      } else {
+        lines.push(
+          ...generate(layout.fields, name, offset, direction, coders, names),
+        );
+      }
+    }
+
+    offset += layout.size;
+  }
+
+  return lines;
+}
+
+function compileRun<T extends Reader | Writer>(
+  fields: readonly Field[],
+  direction: "read" | "write",
+): T {
+  const coders: AnyCoder[] = [];
+  const target = direction === "read" ? "into" : "from";
+  const lines = generate(fields, target, 0, direction, coders, { next: 0 });
+
+  return new Function(
+    "c",
+    `return (view, o, ${target}, refs) => {\n${lines.join("\n")}\n};`,
+  )(coders);
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// Replaces the struct's encode and decode with compiled ones that keep the
+// originals for what the generated code does not cover
+function compileStruct(coder: AnyCoder, fields: [string, AnyCoder][]) {
+  const generic = { encode: coder.encode, decode: coder.decode };
+  const byKey = new Map(fields);
+  const fieldCoder = (key: string): AnyCoder => byKey.get(key)!;
+  const layouts = new Map<AnyCoder, FixedLayout | undefined>();
+
+  const steps: Step[] = [];
+  let run: Field[] = [];
+  const endRun = () => {
+    if (run.length > 0) {
+      steps.push({
+        type: "run",
+        fields: run,
+        size: run.reduce((sum, [, layout]) => sum + layout.size, 0),
+        read: compileRun<Reader>(run, "read"),
+        write: compileRun<Writer>(run, "write"),
+      });
+      run = [];
+    }
+  };
+  for (const [key, child] of fields) {
+    const layout = fixedLayout(child, layouts);
+    if (layout === undefined) {
+      endRun();
+      steps.push({ type: "field", key, coder: child });
+    } else {
+      run.push([key, layout]);
+    }
+  }
+  endRun();
+
+  // A struct of fixed fields has no field that looks at its layout frame,
+  // so it needs none
+  const [first] = steps;
+  if (steps.length === 1 && first.type === "run") {
+    coder.decode = (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      if (ctx[kCtxTrace] !== undefined || encoded.length < first.size) {
+        return generic.decode(encoded, ctx);
+      }
+
+      const result = {};
+      const refs = ctx[kCtxRefs];
+      refs?.set(coder, result);
+      first.read(dataView(encoded), 0, result, refs);
+      return [result, first.size];
+    };
+    coder.encode = (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      if (target.length >= first.size) {
+        try {
+          const refs = ctx[kCtxRefs];
+          refs?.set(coder, decoded);
+          first.write(dataView(target), 0, decoded, refs);
+          return first.size;
+        } catch {
+          // The coders rethrow it, located at the field
+        }
+      }
+      return generic.encode(decoded, target, ctx);
+    };
+    return;
+  }
+
+  const decodeField = (
+    ctx: Context,
+    frame: LayoutFrame,
+    encoded: Uint8Array,
+    cursor: number,
+    key: string,
+    child: AnyCoder,
+    result: Record<string, unknown>,
+  ): number => {
+    const view = encoded.subarray(cursor);
+    frame.field = key;
+    frame.offset = cursor;
+    let value, bytesRead;
+    try {
+      [value, bytesRead] = child.decode(view, ctx);
+    } catch (e) {
+      throw wrapDecodeError(e, encoded, view, key, child);
+    }
+    frame.fields.set(key, [cursor, cursor + bytesRead]);
+    result[key] = value;
+    return cursor + bytesRead;
+  };
+
+  const encodeField = (
+    ctx: Context,
+    frame: LayoutFrame,
+    target: Uint8Array,
+    cursor: number,
+    key: string,
+    child: AnyCoder,
+    decoded: Record<string, unknown>,
+  ): number => {
+    const view = target.subarray(cursor);
+    frame.field = key;
+    frame.offset = cursor;
+    let bytesWritten;
+    try {
+      bytesWritten = child.encode(decoded[key], view, ctx);
+    } catch (e) {
+      throw wrapEncodeError(e, target, view, key, child);
+    }
+    frame.fields.set(key, [cursor, cursor + bytesWritten]);
+    return cursor + bytesWritten;
+  };
+
+  // Records where the fields of a run went, for `computed` fields after it
+  const placeRun = (
+    frame: LayoutFrame,
+    fields: readonly Field[],
+    cursor: number,
+  ) => {
+    for (const [key, layout] of fields) {
+      frame.fields.set(key, [cursor, cursor + layout.size]);
+      cursor += layout.size;
+    }
+  };
+
+  coder.decode = (encoded, context) => {
+    const ctx = context ?? createContext("decode");
+    if (ctx[kCtxTrace] !== undefined) {
+      return generic.decode(encoded, ctx);
+    }
+
+    const result: Record<string, unknown> = {};
+    const refs = ctx[kCtxRefs];
+    refSetValue(ctx, coder, result);
+
+    const view = dataView(encoded);
+    let cursor = 0;
+    const frame = openFrame(ctx, encoded, result);
+    try {
+      for (const step of steps) {
+        if (step.type === "field") {
+          cursor = decodeField(
+            ctx,
+            frame,
+            encoded,
+            cursor,
+            step.key,
+            step.coder,
+            result,
+          );
+        } else if (encoded.length - cursor >= step.size) {
+          step.read(view, cursor, result, refs);
+          placeRun(frame, step.fields, cursor);
+          cursor += step.size;
+        } else {
+          for (const [key, layout] of step.fields) {
+            cursor = decodeField(
+              ctx,
+              frame,
+              encoded,
+              cursor,
+              key,
+              layout.coder,
+              result,
+            );
+          }
+        }
+      }
+
+      for (const { field, offset, run } of frame.deferred) {
+        try {
+          run();
+        } catch (e) {
+          const view = encoded.subarray(offset);
+          throw wrapDecodeError(e, encoded, view, field, fieldCoder(field));
+        }
+      }
+    } finally {
+      closeFrame(ctx, frame);
+    }
+
+    return [result, Math.max(cursor, frame.end)];
+  };
+
+  coder.encode = (decoded, target, context) => {
+    const ctx = context ?? createContext("encode");
+    const refs = ctx[kCtxRefs];
+    refSetValue(ctx, coder, decoded);
+
+    const view = dataView(target);
+    let cursor = 0;
+    const frame = openFrame(ctx, target, decoded);
+    try {
+      for (const step of steps) {
+        if (step.type === "field") {
+          cursor = encodeField(
+            ctx,
+            frame,
+            target,
+            cursor,
+            step.key,
+            step.coder,
+            decoded,
+          );
+          continue;
+        }
+
+        if (target.length - cursor >= step.size) {
+          try {
+            step.write(view, cursor, decoded, refs);
+            placeRun(frame, step.fields, cursor);
+            cursor += step.size;
+            continue;
+          } catch {
+            // The coders rethrow it, located at the field
+          }
+        }
+        for (const [key, layout] of step.fields) {
+          cursor = encodeField(
+            ctx,
+            frame,
+            target,
+            cursor,
+            key,
+            layout.coder,
+            decoded,
+          );
+        }
+      }
+
+      for (const { field, offset, run } of frame.deferred) {
+        try {
+          run();
+        } catch (e) {
+          const view = target.subarray(offset);
+          throw wrapEncodeError(e, target, view, field, fieldCoder(field));
+        }
+      }
+    } finally {
+      closeFrame(ctx, frame);
+    }
+
+    return Math.max(cursor, frame.end);
+  };
+}
+
+/**
+ * Compiles the structs of a coder tree into straight-line code, and returns
+ * the coder.
+ *
+ * Each struct reachable through `describe` gets decode and encode functions
+ * generated for it. Runs of consecutive fields that are 8 to 64-bit integers
+ * or 32 and 64-bit floats, or structs of nothing else, are read and written
+ * at constant offsets of one DataView per struct, with no coder calls. The
+ * other fields run through their coders as before, so refs, layout frames
+ * and `computed` fields work the same.
+ *
+ * The structs are compiled in place: the coders keep their identity, which
+ * refs, arrays and refiners holding them depend on, and decode and encode
+ * exactly as before, only faster. Whatever the generated code does not cover
+ * falls back to the struct's own code: buffers too short for a run, values
+ * that fail to encode, and traced decodes. Coders that a refiner only uses
+ * inside its functions cannot be seen through `describe` and stay as they
+ * are.
+ *
+ * @template T - The type of the decoded value
+ * @param coder - The root of the tree to compile
+ * @returns The same coder, with its structs compiled
+ *
+ * @example Falling back to the coders where the layout is dynamic
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import {
+ *   arrayWhile,
+ *   BinstructDecodeError,
+ *   bytes,
+ *   decode,
+ *   ref,
+ *   struct,
+ *   u16le,
+ *   u32le,
+ * } from "@hertzg/binstruct";
+ * import { compile } from "@hertzg/binstruct/compile";
+ *
+ * const length = u16le();
+ * const record = struct({ time: u32le(), length, data: bytes(ref(length)) });
+ * const capture = compile(arrayWhile(record, ({ buffer }) => buffer.length > 0));
+ *
+ * const buffer = new Uint8Array([1, 0, 0, 0, 2, 0, 0xab, 0xcd, 2, 0, 0, 0, 0, 0]);
+ * assertEquals(decode(capture, buffer), [
+ *   { time: 1, length: 2, data: new Uint8Array([0xab, 0xcd]) },
+ *   { time: 2, length: 0, data: new Uint8Array([]) },
+ * ]);
+ *
+ * // Errors are the ones the struct reports
+ * assertThrows(
+ *   () => decode(capture, buffer.subarray(0, 5)),
+ *   BinstructDecodeError,
+ *   "Failed to decode [0].length at byte offset 4 (u16le): Need 2 bytes, got 1",
+ * );
+ * ```
+ */
+export function compile<T>(coder: Coder<T>): Coder<T> {
+  const seen = new Set<AnyCoder>();
+
+  const visit = (current: AnyCoder) => {
+    if (seen.has(current)) {
+      return;
+    }
+    seen.add(current);
+
+    const { node, children } = inspect(current);
+    for (const [, child] of children) {
+      visit(child);
+    }
+
+    if (node?.type === "struct" && !compiled.has(current)) {
+      compiled.add(current);
+      compileStruct(
+        current,
+        children.map(([key, child]) => [key!, child]),
+      );
+    }
+  };
+
+  visit(coder);
+  return coder;
+}
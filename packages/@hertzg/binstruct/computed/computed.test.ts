@@ -0,0 +1,202 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { crc32 } from "@hertzg/crc";
+import { arrayLP } from "../array/array.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { BinstructDecodeError, BinstructEncodeError } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { u16be, u32be, u8 } from "../numeric/numeric.ts";
+import { ref } from "../ref/ref.ts";
+import { stringFL } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import {
+  checksum,
+  computed,
+  type ComputedMismatch,
+  kKindComputed,
+} from "./computed.ts";
+
+// Internet checksum (RFC 1071), as used by IPv4, TCP and UDP
+const internetChecksum = (data: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 2) {
+    sum += (data[i] << 8) | (data[i + 1] ?? 0);
+  }
+  while (sum >>> 16) {
+    sum = (sum & 0xffff) + (sum >>> 16);
+  }
+  return ~sum & 0xffff;
+};
+
+Deno.test("computed - length of a later field", () => {
+  const length = u8();
+  const coder = struct({
+    length: computed(length, ({ value }) => value.data.length),
+    data: bytes(ref(length)),
+  });
+  const value = { length: 0, data: new Uint8Array([1, 2, 3]) };
+
+  assertEquals(coder.measure?.(value), 4);
+  const encoded = encode(coder, value);
+  assertEquals(Array.from(encoded), [3, 1, 2, 3]);
+  assertEquals(decode(coder, encoded), { ...value, length: 3 });
+});
+
+Deno.test("computed - CRC-32 over earlier fields", () => {
+  const length = u32be();
+  const chunk = struct({
+    length: computed(length, ({ value }) => value.data.length),
+    type: stringFL(4),
+    data: bytes(ref(length)),
+    crc: checksum(u32be(), crc32, "type", "data", { verify: true }),
+  });
+  const value = {
+    length: 13,
+    type: "IHDR",
+    data: new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+    crc: 0x1f15c489,
+  };
+
+  const encoded = encode(chunk, { ...value, length: 0, crc: 0 });
+  assertEquals(
+    Array.from(encoded.subarray(-4)),
+    [0x1f, 0x15, 0xc4, 0x89],
+  );
+  assertEquals(decode(chunk, encoded), value);
+});
+
+Deno.test("computed - checksum covering itself and later fields", () => {
+  const header = struct({
+    version: u8(),
+    ttl: u8(),
+    checksum: checksum(u16be(), internetChecksum, "version", "address", {
+      verify: true,
+    }),
+    address: bytes(4),
+  });
+  const value = {
+    version: 0x45,
+    ttl: 64,
+    checksum: 0,
+    address: new Uint8Array([192, 168, 0, 1]),
+  };
+
+  // The placeholder is replaced, and is read as zero while computing
+  const first = encode(header, value);
+  const second = encode(header, { ...value, checksum: 0xffff });
+  assertEquals(Array.from(first), Array.from(second));
+  assertEquals(Array.from(first.subarray(2, 4)), [0xfa, 0x15]);
+
+  // A valid header sums to zero, including its checksum
+  assertEquals(internetChecksum(first), 0);
+  assertEquals(decode(header, first), { ...value, checksum: 0xfa15 });
+});
+
+Deno.test("computed - per element of an array", () => {
+  const record = struct({
+    data: bytes(2),
+    sum: computed(
+      u8(),
+      ({ bytesOf }) => bytesOf("data").reduce((a, b) => a + b, 0),
+      { verify: true },
+    ),
+  });
+  const coder = arrayLP(record, u8());
+  const value = [
+    { data: new Uint8Array([1, 2]), sum: 0 },
+    { data: new Uint8Array([3, 4]), sum: 0 },
+  ];
+
+  const encoded = encode(coder, value);
+  assertEquals(Array.from(encoded), [2, 1, 2, 3, 3, 4, 7]);
+  assertEquals(decode(coder, encoded), [
+    { data: new Uint8Array([1, 2]), sum: 3 },
+    { data: new Uint8Array([3, 4]), sum: 7 },
+  ]);
+});
+
+Deno.test("computed - verification on decode", async (t) => {
+  const make = (verify?: boolean | ((m: ComputedMismatch<number>) => void)) =>
+    struct({
+      data: bytes(2),
+      crc: checksum(u32be(), crc32, "data", "data", { verify }),
+    });
+  const corrupted = new Uint8Array([1, 2, 0, 0, 0, 0]);
+  const expected = crc32(new Uint8Array([1, 2]));
+
+  await t.step("unchecked by default", () => {
+    assertEquals(decode(make(), corrupted).crc, 0);
+    assertEquals(decode(make(false), corrupted).crc, 0);
+  });
+
+  await t.step("throws located errors", () => {
+    const error = assertThrows(
+      () => decode(make(true), corrupted),
+      BinstructDecodeError,
+      `Computed value mismatch: expected ${
+        expected.toString(16).padStart(8, "0").match(/../g)?.join(" ")
+      }, got 00 00 00 00`,
+    );
+    assertEquals(error.path, ["crc"]);
+    assertEquals(error.offset, 2);
+    assertEquals(error.coderKind, kKindComputed);
+  });
+
+  await t.step("reports to a callback", () => {
+    const mismatches: ComputedMismatch<number>[] = [];
+    const coder = make((mismatch) => mismatches.push(mismatch));
+
+    assertEquals(decode(coder, corrupted).crc, 0);
+    assertEquals(mismatches, [{ expected, actual: 0 }]);
+  });
+});
+
+Deno.test("computed - errors", () => {
+  const outside = computed(u8(), () => 1, { verify: true });
+  assertThrows(
+    () => encode(outside, 0),
+    Error,
+    "Invalid computed field: Must be inside a struct.",
+  );
+  assertThrows(
+    () => outside.decode(new Uint8Array([1])),
+    Error,
+    "Invalid computed field: Must be inside a struct.",
+  );
+  assertEquals(computed(u8(), () => 1).decode(new Uint8Array([5])), [5, 1]);
+
+  const unknown = struct({
+    sum: checksum(u8(), (data) => data.length, "nope"),
+  });
+  const error = assertThrows(
+    () => encode(unknown, { sum: 0 }),
+    BinstructEncodeError,
+    'Invalid field: "nope" is not a field of the enclosing struct.',
+  );
+  assertEquals(error.path, ["sum"]);
+
+  const reversed = struct({
+    a: u8(),
+    b: u8(),
+    c: u8(),
+    sum: checksum(u8(), (data) => data.length, "c", "a"),
+  });
+  assertThrows(
+    () => encode(reversed, { a: 1, b: 2, c: 3, sum: 0 }),
+    BinstructEncodeError,
+    'Invalid range: "a" ends before "c" starts.',
+  );
+
+  const resized = struct({
+    digest: computed(bytes(), ({ bytesOf }) => bytesOf("data").slice()),
+    data: bytes(2),
+  });
+  assertThrows(
+    () =>
+      encode(resized, {
+        digest: new Uint8Array(1),
+        data: new Uint8Array([1, 2]),
+      }),
+    BinstructEncodeError,
+    "Invalid computed value: Must encode to the 1 bytes of the placeholder.",
+  );
+});
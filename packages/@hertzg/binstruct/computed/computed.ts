@@ -0,0 +1,392 @@
+/**
+ * Computed fields: values derived from sibling fields, such as checksums and
+ * lengths.
+ *
+ * {@link computed} wraps a coder so that encoding writes a value derived from
+ * the enclosing struct instead of the one passed in, and decoding can verify
+ * the stored value against it. {@link checksum} is the common case of a
+ * checksum over a range of fields, taking the algorithm as a plain
+ * `(bytes) => value` function such as `crc32` from `@hertzg/crc`.
+ *
+ * @example A chunk with a length and a CRC
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bytes, decode, encode, ref, stringFL, struct, u32be } from "@hertzg/binstruct";
+ * import { checksum, computed } from "@hertzg/binstruct/computed";
+ * import { crc32 } from "@hertzg/crc";
+ *
+ * const length = u32be();
+ * const chunk = struct({
+ *   length: computed(length, ({ value }) => value.data.length),
+ *   type: stringFL(4),
+ *   data: bytes(ref(length)),
+ *   crc: checksum(u32be(), crc32, "type", "data"),
+ * });
+ *
+ * const encoded = encode(chunk, {
+ *   length: 0,
+ *   type: "IEND",
+ *   data: new Uint8Array(0),
+ *   crc: 0,
+ * });
+ *
+ * assertEquals(decode(chunk, encoded), {
+ *   length: 0,
+ *   type: "IEND",
+ *   data: new Uint8Array(0),
+ *   crc: 0xae426082,
+ * });
+ * ```
+ *
+ * @module
+ */
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+  kCtxLayout,
+} from "../core.ts";
+import { deferTask, type LayoutFrame } from "../layout/frame.ts";
+import { refSetValue } from "../ref/ref.ts";
+
+/**
+ * Symbol identifier for computed field coders.
+ */
+export const kKindComputed = Symbol("computed");
+
+/**
+ * What a {@link computed} field's value is derived from.
+ *
+ * @template S - The enclosing struct's value
+ */
+// deno-lint-ignore no-explicit-any
+export interface ComputedInput<S = Record<string, any>> {
+  /**
+   * The enclosing struct's value: the one being encoded, or the one decoded.
+   */
+  readonly value: S;
+  /**
+   * Returns the encoded bytes of the enclosing struct from the start of field
+   * `from` to the end of field `to`.
+   *
+   * The computed field's own bytes read as zero, so a checksum can cover the
+   * header it sits in.
+   *
+   * @param from - The first field of the range
+   * @param to - The last field of the range, `from` if omitted
+   * @returns The bytes of the range
+   */
+  bytesOf(from: string, to?: string): Uint8Array;
+}
+
+/**
+ * A stored value that differs from the one computed for it.
+ *
+ * @template T - The field's value type
+ */
+export interface ComputedMismatch<T> {
+  /** The value computed from the siblings. */
+  readonly expected: T;
+  /** The value that was decoded. */
+  readonly actual: T;
+}
+
+/**
+ * Options for {@link computed}.
+ *
+ * @template T - The field's value type
+ */
+export interface ComputedOptions<T> {
+  /**
+   * Whether decoding checks the stored value against the computed one: `true`
+   * throws on a mismatch, a function is called with it instead. Defaults to
+   * `false`, which decodes the stored value unchecked.
+   */
+  verify?: boolean | ((mismatch: ComputedMismatch<T>) => void);
+}
+
+// Thrown by `bytesOf` when a field it needs has not been encoded yet, to
+// defer the computation until the struct has run its last field.
+const pending = Symbol("pending");
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(" ");
+
+function computedInput<S>(
+  frame: LayoutFrame,
+  own?: readonly [start: number, end: number],
+): ComputedInput<S> {
+  return {
+    value: frame.value as S,
+    bytesOf: (from, to = from) => {
+      const first = frame.fields.get(from);
+      const last = frame.fields.get(to);
+
+      if (first === undefined || last === undefined || !frame.bytes) {
+        if (own === undefined) {
+          throw pending;
+        }
+        throw new Error(
+          `Invalid field: ${
+            JSON.stringify(first === undefined ? from : to)
+          } is not a field of the enclosing struct.`,
+        );
+      }
+
+      const [start] = first;
+      const [, end] = last;
+      if (end < start) {
+        throw new Error(
+          `Invalid range: ${JSON.stringify(to)} ends before ${
+            JSON.stringify(from)
+          } starts.`,
+        );
+      }
+
+      const range = frame.bytes.subarray(start, end);
+      if (own === undefined || own[1] <= start || own[0] >= end) {
+        return range;
+      }
+
+      const zeroed = range.slice();
+      zeroed.fill(0, Math.max(own[0], start) - start, own[1] - start);
+      return zeroed;
+    },
+  };
+}
+
+/**
+ * Creates a Coder for a field whose value is derived from its siblings in the
+ * enclosing struct, such as a checksum or the length of another field.
+ *
+ * When encoding, the value passed in is ignored and `compute` provides the
+ * one written. If `compute` reads only the struct's value or the bytes of
+ * earlier fields, it runs right away, so refs to the field see the computed
+ * value. If it reads bytes that are not written yet (later fields, or the
+ * field itself), the value passed in is written as a placeholder and
+ * overwritten once the struct has run its last field; the computed value must
+ * then encode to the same number of bytes.
+ *
+ * When decoding, the stored value is returned as is. With `verify`, it is
+ * checked against `compute` once the struct has decoded its last field.
+ *
+ * @param coder - The coder for the field's value
+ * @param compute - Derives the value from the enclosing struct
+ * @param options - Verification on decode
+ * @returns A Coder for the computed field
+ * @throws {Error} From encode, or from decode with `verify`, if the coder is
+ * not inside a struct
+ *
+ * @example A header checksum covering the whole header
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { bytes, decode, encode, struct, u16be, u8 } from "@hertzg/binstruct";
+ * import { computed } from "@hertzg/binstruct/computed";
+ *
+ * // Sum of all header bytes, with the checksum itself counted as zero
+ * const sum = (data: Uint8Array) => data.reduce((a, b) => (a + b) & 0xffff, 0);
+ * const header = struct({
+ *   version: u8(),
+ *   checksum: computed(u16be(), ({ bytesOf }) => sum(bytesOf("version", "body")), {
+ *     verify: true,
+ *   }),
+ *   body: bytes(2),
+ * });
+ *
+ * const encoded = encode(header, {
+ *   version: 1,
+ *   checksum: 0,
+ *   body: new Uint8Array([2, 3]),
+ * });
+ * assertEquals(encoded, new Uint8Array([1, 0, 6, 2, 3]));
+ * assertEquals(decode(header, encoded).checksum, 6);
+ *
+ * assertThrows(
+ *   () => decode(header, new Uint8Array([1, 0, 7, 2, 3])),
+ *   Error,
+ *   "Computed value mismatch: expected 00 06, got 00 07",
+ * );
+ * ```
+ *
+ * @example Reporting mismatches instead of throwing
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bytes, decode, struct, u8 } from "@hertzg/binstruct";
+ * import { type ComputedMismatch, computed } from "@hertzg/binstruct/computed";
+ *
+ * const mismatches: ComputedMismatch<number>[] = [];
+ * const record = struct({
+ *   data: bytes(3),
+ *   sum: computed(u8(), ({ bytesOf }) => bytesOf("data").reduce((a, b) => a + b) & 0xff, {
+ *     verify: (mismatch) => mismatches.push(mismatch),
+ *   }),
+ * });
+ *
+ * assertEquals(decode(record, new Uint8Array([1, 2, 3, 9])).sum, 9);
+ * assertEquals(mismatches, [{ expected: 6, actual: 9 }]);
+ * ```
+ */
+// deno-lint-ignore no-explicit-any
+export function computed<T, S = Record<string, any>>(
+  coder: Coder<T>,
+  compute: (input: ComputedInput<S>) => T,
+  options: ComputedOptions<T> = {},
+): Coder<T> {
+  const { verify = false } = options;
+
+  const tryCompute = (frame: LayoutFrame | undefined, fallback: T) => {
+    if (frame === undefined) {
+      return { value: fallback, deferred: true };
+    }
+    try {
+      return { value: compute(computedInput<S>(frame)), deferred: false };
+    } catch (e) {
+      if (e !== pending) {
+        throw e;
+      }
+      return { value: fallback, deferred: true };
+    }
+  };
+
+  const rewrite = (value: T, view: Uint8Array, ctx: Context) => {
+    let written;
+    try {
+      written = coder.encode(value, view, ctx);
+    } catch (e) {
+      if (!(e instanceof RangeError)) {
+        throw e;
+      }
+    }
+    if (written !== view.length) {
+      throw new Error(
+        `Invalid computed value: Must encode to the ${view.length} bytes of the placeholder.`,
+      );
+    }
+  };
+
+  const outsideStruct = () =>
+    new Error("Invalid computed field: Must be inside a struct.");
+
+  let self: Coder<T>;
+  return self = {
+    [kCoderKind]: kKindComputed,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      const frame = ctx[kCtxLayout];
+      if (frame === undefined) {
+        throw outsideStruct();
+      }
+
+      const start = frame.offset;
+      const { value, deferred } = tryCompute(frame, decoded);
+      const length = coder.encode(value, target, ctx);
+      refSetValue(ctx, self, value);
+
+      if (deferred) {
+        deferTask(ctx, () => {
+          const own = [start, start + length] as const;
+          const actual = compute(computedInput<S>(frame, own));
+          rewrite(actual, target.subarray(0, length), ctx);
+          refSetValue(ctx, self, actual);
+        });
+      }
+      return length;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const [value, bytesRead] = coder.decode(encoded, ctx);
+      refSetValue(ctx, self, value);
+
+      if (verify === false) {
+        return [value, bytesRead];
+      }
+
+      const frame = ctx[kCtxLayout];
+      const start = frame?.offset ?? 0;
+      const queued = frame !== undefined && deferTask(ctx, () => {
+        const own = [start, start + bytesRead] as const;
+        const expected = compute(computedInput<S>(frame, own));
+        const expectedBytes = new Uint8Array(bytesRead);
+        rewrite(expected, expectedBytes, createContext("encode"));
+
+        const actualBytes = encoded.subarray(0, bytesRead);
+        if (expectedBytes.every((byte, i) => byte === actualBytes[i])) {
+          return;
+        }
+        if (verify === true) {
+          throw new Error(
+            `Computed value mismatch: expected ${hex(expectedBytes)}, got ${
+              hex(actualBytes)
+            }`,
+          );
+        }
+        verify({ expected, actual: value });
+      });
+
+      if (!queued) {
+        throw outsideStruct();
+      }
+      return [value, bytesRead];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const { value } = tryCompute(ctx[kCtxLayout], decoded);
+
+      refSetValue(ctx, self, value);
+      return coder.measure?.(value, ctx);
+    },
+    describe: (walker) => walker.child(coder),
+  };
+}
+
+/**
+ * Creates a Coder for a checksum over a range of fields in the enclosing
+ * struct, computed with `algorithm` when encoding.
+ *
+ * `algorithm` takes the bytes from the start of field `from` to the end of
+ * field `to`, so checksum functions such as `crc32` from `@hertzg/crc` plug in
+ * directly. If the checksum field lies within the range, its own bytes count
+ * as zero. See {@link computed} for how encoding and `verify` work.
+ *
+ * @param coder - The coder for the checksum value
+ * @param algorithm - Computes the checksum of a byte range
+ * @param from - The first field covered
+ * @param to - The last field covered, `from` if omitted
+ * @param options - Verification on decode
+ * @returns A Coder for the checksum field
+ *
+ * @example CRC-32 over the preceding fields
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { decode, encode, stringLP, struct, u32le, u8 } from "@hertzg/binstruct";
+ * import { checksum } from "@hertzg/binstruct/computed";
+ * import { crc32 } from "@hertzg/crc";
+ *
+ * const message = struct({
+ *   id: u8(),
+ *   text: stringLP(u8()),
+ *   crc: checksum(u32le(), crc32, "id", "text", { verify: true }),
+ * });
+ *
+ * const encoded = encode(message, { id: 1, text: "hi", crc: 0 });
+ * const { crc } = decode(message, encoded);
+ * assertEquals(crc, crc32(encoded.subarray(0, 4)));
+ *
+ * encoded[3] ^= 0xff;
+ * assertThrows(() => decode(message, encoded), Error, "Computed value mismatch");
+ * ```
+ */
+export function checksum<T>(
+  coder: Coder<T>,
+  algorithm: (bytes: Uint8Array) => T,
+  from: string,
+  to: string = from,
+  options: ComputedOptions<T> = {},
+): Coder<T> {
+  return computed(
+    coder,
+    ({ bytesOf }) => algorithm(bytesOf(from, to)),
+    options,
+  );
+}
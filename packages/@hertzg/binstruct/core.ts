@@ -1,4 +1,8 @@
 import { type RefsWeakMap, withRefsInContext } from "./ref/ref.ts";
+import type { TraceRecorder } from "./trace.ts";
+import type { LayoutFrame } from "./layout/frame.ts";
+import type { SchemaNode, SchemaWalker } from "./schema/describe.ts";
+import type { ValueView, ViewScope } from "./view.ts";
 
 /**
  * Symbol identifier for coder kind.
@@ -8,6 +12,18 @@ export const kCoderKind = Symbol("kCoderKind");
  * Symbol identifier for context references.
  */
 export const kCtxRefs = Symbol("ctxRefs");
+/**
+ * Symbol identifier for the context's decode trace recorder.
+ */
+export const kCtxTrace = Symbol("ctxTrace");
+/**
+ * Symbol identifier for the context's layout frame of the innermost struct.
+ */
+export const kCtxLayout = Symbol("ctxLayout");
+/**
+ * Symbol identifier for the context's view scope while decoding a view.
+ */
+export const kCtxView = Symbol("ctxView");
 
 /**
  * Type representing a value with its byte count.
@@ -23,6 +39,12 @@ export interface Context {
   direction: "encode" | "decode";
   /** Optional references storage */
   [kCtxRefs]?: RefsWeakMap;
+  /** Optional span recorder, present while tracing a decode */
+  [kCtxTrace]?: TraceRecorder;
+  /** Optional layout frame, present while running the fields of a struct */
+  [kCtxLayout]?: LayoutFrame;
+  /** Optional view scope, present while decoding a view */
+  [kCtxView]?: ViewScope;
 }
 
 /**
@@ -53,6 +75,46 @@ export type Decoder<TDecoded> = (
   context?: Context,
 ) => ValueWithBytes<TDecoded>;
 
+/**
+ * Function type for measuring the encoded size of values.
+ *
+ * Returns the exact number of bytes the matching {@link Encoder} would write
+ * for `decoded`, or `undefined` when that cannot be known without encoding
+ * (typically because a nested coder does not implement `measure`). Measuring
+ * publishes ref values the same way encoding does, so later siblings that
+ * depend on refs measure correctly.
+ *
+ * @template TDecoded - The type of the value to measure
+ */
+export type Measurer<TDecoded> = (
+  decoded: TDecoded,
+  context?: Context,
+) => number | undefined;
+
+/**
+ * Function type for describing a coder's layout.
+ *
+ * Returns the type-specific part of the coder's schema, describing the coders
+ * it is built from through `walker` so that refs and recursion are resolved
+ * across the whole tree. The walker fills in the coder kind.
+ */
+export type Describer = (walker: SchemaWalker) => SchemaNode;
+
+/**
+ * Function type for decoding values lazily.
+ *
+ * Returns the value with its fields or elements left to decode when they are
+ * first read, and the number of bytes consumed as a function, since knowing it
+ * can mean locating all of them. Views decode on access with a context of
+ * their own, made from `context` with `viewContext`.
+ *
+ * @template TDecoded - The type of the value to decode
+ */
+export type Viewer<TDecoded> = (
+  encoded: Uint8Array,
+  context: Context,
+) => ValueView<TDecoded>;
+
 /**
  * Interface for coders that can encode and decode values.
  * @template TDecoded - The type of the value to encode/decode
@@ -64,6 +126,12 @@ export type Coder<TDecoded> = {
   encode: Encoder<TDecoded>;
   /** Decodes a value from a byte buffer and returns the value with the number of bytes consumed. */
   decode: Decoder<TDecoded>;
+  /** Optionally computes the exact number of bytes `encode` would write, without writing them. */
+  measure?: Measurer<TDecoded>;
+  /** Optionally describes the coder's layout as a serializable schema. */
+  describe?: Describer;
+  /** Optionally decodes a value whose contents decode on access, for `decodeView`. */
+  view?: Viewer<TDecoded>;
 };
 
 /**
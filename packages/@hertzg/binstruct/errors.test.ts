@@ -0,0 +1,274 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStrictEquals,
+  assertThrows,
+} from "@std/assert";
+import { type Coder, kCoderKind } from "./core.ts";
+import {
+  BinstructDecodeError,
+  BinstructEncodeError,
+  formatPath,
+  wrapDecodeError,
+  wrapEncodeError,
+} from "./errors.ts";
+import { encode } from "./helpers.ts";
+import { arrayFL, arrayLP, arrayWhile } from "./array/array.ts";
+import { bytes } from "./bytes/bytes.ts";
+import { lazy } from "./lazy/lazy.ts";
+import { u16be, u32be, u8 } from "./numeric/numeric.ts";
+import { refine } from "./refine/refine.ts";
+import { refineFields } from "./refine/fields.ts";
+import { refineSwitch } from "./refine/switch.ts";
+import { stringLP } from "./string/string.ts";
+import { struct } from "./struct/struct.ts";
+
+// deno-fmt-ignore
+Deno.test("formatPath - renders property access syntax", () => {
+  assertEquals(formatPath([]), "value");
+  assertEquals(formatPath(["a"]), "a");
+  assertEquals(formatPath([0]), "[0]");
+  assertEquals(formatPath(["a", "b"]), "a.b");
+  assertEquals(formatPath(["a", 3]), "a[3]");
+  assertEquals(formatPath([1, 2, "c"]), "[1][2].c");
+  assertEquals(formatPath(["payload", "payload", "options", 3]), "payload.payload.options[3]");
+});
+
+Deno.test("BinstructDecodeError - locates failures in nested containers", async (t) => {
+  await t.step("struct fields", () => {
+    const coder = struct({
+      header: struct({ version: u8(), length: u16be() }),
+      body: struct({ id: u32be() }),
+    });
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([1, 0, 4, 0, 0])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["body", "id"]);
+    assertEquals(error.offset, 3);
+    assertEquals(error.coderKind.description, "u32be");
+    assertInstanceOf(error.cause, RangeError);
+    assertEquals(error.cause.message, "Need 4 bytes, got 2");
+  });
+
+  await t.step("arrayLP elements", () => {
+    const coder = struct({ values: arrayLP(u16be(), u8()) });
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([3, 0, 1, 0, 2, 0])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["values", 2]);
+    assertEquals(error.offset, 5);
+  });
+
+  await t.step("arrayLP length prefix", () => {
+    const coder = struct({ tag: u8(), values: arrayLP(u8(), u16be()) });
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([9, 0])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["values"]);
+    assertEquals(error.offset, 1);
+    assertEquals(error.coderKind.description, "u16be");
+  });
+
+  await t.step("arrayFL elements", () => {
+    const coder = arrayFL(struct({ a: u8(), b: u8() }), 2);
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([1, 2, 3])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, [1, "b"]);
+    assertEquals(error.offset, 3);
+    assertEquals(
+      error.message,
+      "Failed to decode [1].b at byte offset 3 (u8): Need 1 bytes, got 0",
+    );
+  });
+
+  await t.step("arrayWhile elements", () => {
+    const coder = struct({
+      id: u8(),
+      words: arrayWhile(u16be(), ({ buffer }) => buffer.length > 0),
+    });
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([1, 0, 1, 0])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["words", 1]);
+    assertEquals(error.offset, 3);
+  });
+
+  await t.step("lazy adds no path segment", () => {
+    type Node = { value: number; children: Node[] };
+    const node: Coder<Node> = struct({
+      value: u8(),
+      children: arrayLP(lazy(() => node), u8()),
+    });
+
+    const error = assertThrows(
+      () => node.decode(new Uint8Array([1, 2, 2, 0, 3])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["children", 1, "children"]);
+    assertEquals(error.offset, 5);
+  });
+
+  await t.step("refineSwitch adds no path segment", () => {
+    const packet = refineSwitch(
+      struct({ type: u8(), payload: bytes(2) }),
+      {
+        word: {
+          refine: ({ payload }) => ({ word: (payload[0] << 8) | payload[1] }),
+          unrefine: ({ word }) => ({
+            type: 1,
+            payload: new Uint8Array([word >> 8, word & 0xff]),
+          }),
+        },
+      },
+      {
+        refine: ({ type }) => type === 1 ? "word" : null,
+        unrefine: () => "word",
+      },
+    );
+    const coder = struct({ version: u8(), packet });
+
+    const error = assertThrows(
+      () => coder.decode(new Uint8Array([1, 1, 0])),
+      BinstructDecodeError,
+    );
+
+    assertEquals(error.path, ["packet", "payload"]);
+    assertEquals(error.offset, 2);
+    assertEquals(error.coderKind.description, "bytes");
+  });
+});
+
+Deno.test("BinstructDecodeError - offsets inside refined fields are absolute", () => {
+  const payload = struct({ a: u8(), b: u16be() });
+  const frame = refine(
+    struct({ tag: u16be(), payload: bytes(2) }),
+    refineFields({ payload }),
+  )();
+  const coder = struct({ version: u8(), frame });
+
+  const error = assertThrows(
+    () => coder.decode(new Uint8Array([1, 0xbe, 0xef, 7, 8])),
+    BinstructDecodeError,
+  );
+
+  assertEquals(error.path, ["frame", "payload", "b"]);
+  assertEquals(error.offset, 4);
+  assertEquals(error.coderKind.description, "u16be");
+});
+
+Deno.test("BinstructDecodeError - refiner failures are located at the refined value", () => {
+  const even = refine(u8(), {
+    refine: (value: number) => {
+      if (value % 2 !== 0) {
+        throw new Error(`Odd value: ${value}`);
+      }
+      return value;
+    },
+    unrefine: (value: number) => value,
+  });
+  const coder = struct({ values: arrayFL(even(), 3) });
+
+  const error = assertThrows(
+    () => coder.decode(new Uint8Array([2, 4, 5])),
+    BinstructDecodeError,
+  );
+
+  assertEquals(error.path, ["values", 2]);
+  assertEquals(error.offset, 2);
+  assertEquals(error.coderKind.description, "refine");
+  assertEquals(
+    error.message,
+    "Failed to decode values[2] at byte offset 2 (refine): Odd value: 5",
+  );
+});
+
+Deno.test("BinstructEncodeError - locates failures in nested containers", () => {
+  const coder = struct({
+    name: stringLP(u8()),
+    points: arrayLP(struct({ x: u8(), rgb: arrayFL(u8(), 3) }), u8()),
+  });
+
+  const error = assertThrows(
+    () =>
+      coder.encode(
+        {
+          name: "ab",
+          points: [{ x: 1, rgb: [1, 2, 3] }, { x: 2, rgb: [1, 2] }],
+        },
+        new Uint8Array(64),
+      ),
+    BinstructEncodeError,
+  );
+
+  assertEquals(error.path, ["points", 1, "rgb"]);
+  assertEquals(error.offset, 9);
+  assertEquals(error.coderKind.description, "arrayFL");
+});
+
+Deno.test("BinstructEncodeError - a too-small target still grows", () => {
+  const coder = struct({ values: arrayLP(u32be(), u16be()) });
+  const values = Array.from({ length: 2000 }, (_, i) => i);
+
+  const error = assertThrows(
+    () => coder.encode({ values }, new Uint8Array(16)),
+  );
+  assertInstanceOf(error, RangeError);
+
+  const unmeasured: Coder<{ values: number[] }> = {
+    [kCoderKind]: coder[kCoderKind],
+    encode: coder.encode,
+    decode: coder.decode,
+  };
+  assertEquals(encode(unmeasured, { values }).length, 2 + 4 * 2000);
+});
+
+Deno.test("wrapEncodeError - passes RangeError through unchanged", () => {
+  const target = new Uint8Array(4);
+  const error = new RangeError("Offset is outside the bounds of the DataView");
+
+  assertStrictEquals(
+    wrapEncodeError(error, target, target.subarray(1), "x", u8()),
+    error,
+  );
+});
+
+Deno.test("wrapDecodeError - keeps the innermost coder kind and cause", () => {
+  const buffer = new Uint8Array(8);
+  const cause = new Error("bad");
+  const inner = wrapDecodeError(
+    cause,
+    buffer.subarray(2),
+    buffer.subarray(5),
+    "b",
+    u8(),
+  );
+  const outer = wrapDecodeError(
+    inner,
+    buffer,
+    buffer.subarray(2),
+    "a",
+    u16be(),
+  );
+
+  assertEquals(outer.path, ["a", "b"]);
+  assertEquals(outer.offset, 5);
+  assertEquals(outer.coderKind.description, "u8");
+  assertStrictEquals(outer.cause, cause);
+});
@@ -0,0 +1,346 @@
+/**
+ * Errors that locate a failed encode or decode inside a coder tree.
+ *
+ * Containers (`struct`, the array coders, `refine`, `refineSwitch`,
+ * `refineFields` and `lazy`) catch whatever their children throw and rethrow
+ * it as a {@link BinstructDecodeError} or {@link BinstructEncodeError}. Each
+ * level on the way out prepends its own field name or element index, so the
+ * error that reaches the caller names the full path to the failing field, the
+ * byte offset where that field starts, and the kind of coder that failed. The
+ * original error is kept as `cause`.
+ *
+ * @example Locating a truncated field
+ * ```ts
+ * import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+ * import { arrayLP, BinstructDecodeError, struct, u16be, u8 } from "@hertzg/binstruct";
+ *
+ * const coder = struct({
+ *   id: u8(),
+ *   options: arrayLP(struct({ kind: u8(), value: u16be() }), u8()),
+ * });
+ *
+ * // The second option is cut off after its `kind` byte
+ * const error = assertThrows(
+ *   () => coder.decode(new Uint8Array([7, 2, 1, 0, 10, 2])),
+ *   BinstructDecodeError,
+ * );
+ *
+ * assertEquals(error.path, ["options", 1, "value"]);
+ * assertEquals(error.offset, 6);
+ * assertEquals(error.message, "Failed to decode options[1].value at byte offset 6 (u16be): Need 2 bytes, got 0");
+ * assertInstanceOf(error.cause, RangeError);
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, kCoderKind } from "./core.ts";
+
+/**
+ * One step of a path into a decoded value: a struct field name or an array
+ * element index.
+ */
+export type PathSegment = string | number;
+
+/**
+ * Formats a path the way it would be written as a property access, e.g.
+ * `payload.options[3]`. The empty path (the value itself) formats as `value`.
+ *
+ * @param path - The path segments, outermost first
+ * @returns The formatted path
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { formatPath } from "@hertzg/binstruct/errors";
+ *
+ * assertEquals(formatPath(["payload", "options", 3, "kind"]), "payload.options[3].kind");
+ * assertEquals(formatPath([]), "value");
+ * ```
+ */
+export function formatPath(path: readonly PathSegment[]): string {
+  if (path.length === 0) {
+    return "value";
+  }
+
+  return path.map((segment, i) =>
+    typeof segment === "number"
+      ? `[${segment}]`
+      : i === 0
+      ? segment
+      : `.${segment}`
+  ).join("");
+}
+
+/**
+ * Where a failure happened, as carried by {@link BinstructDecodeError} and
+ * {@link BinstructEncodeError}.
+ */
+export interface ErrorLocation {
+  /** Path from the outermost coder to the failing field, outermost first. */
+  path: readonly PathSegment[];
+  /** Byte offset where the failing field starts, relative to the outermost buffer. */
+  offset: number;
+  /** Kind symbol of the coder that failed. */
+  coderKind: symbol;
+}
+
+function locationMessage(
+  verb: string,
+  { path, offset, coderKind }: ErrorLocation,
+  cause: unknown,
+): string {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  return `Failed to ${verb} ${formatPath(path)} at byte offset ${offset} (${
+    coderKind.description ?? "unknown"
+  }): ${reason}`;
+}
+
+/**
+ * Thrown when decoding fails, locating the failure inside the coder tree.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { BinstructDecodeError, stringNT, struct, u8 } from "@hertzg/binstruct";
+ *
+ * const coder = struct({ version: u8(), name: stringNT() });
+ * const error = assertThrows(
+ *   () => coder.decode(new Uint8Array([1, 0x68, 0x69])),
+ *   BinstructDecodeError,
+ * );
+ *
+ * assertEquals(error.path, ["name"]);
+ * assertEquals(error.offset, 1);
+ * assertEquals(error.coderKind.description, "stringNT");
+ * ```
+ */
+export class BinstructDecodeError extends Error implements ErrorLocation {
+  /** Path from the outermost coder to the failing field, outermost first. */
+  readonly path: readonly PathSegment[];
+  /** Byte offset where the failing field starts, relative to the outermost buffer. */
+  readonly offset: number;
+  /** Kind symbol of the coder that failed. */
+  readonly coderKind: symbol;
+
+  /**
+   * @param location - Where the failure happened
+   * @param cause - The error the failing coder threw
+   */
+  constructor(location: ErrorLocation, cause: unknown) {
+    super(locationMessage("decode", location, cause), { cause });
+    this.name = "BinstructDecodeError";
+    this.path = location.path;
+    this.offset = location.offset;
+    this.coderKind = location.coderKind;
+  }
+}
+
+/**
+ * Thrown when encoding fails, locating the failure inside the coder tree.
+ *
+ * A `RangeError` from a child is never wrapped: it means the target is too
+ * small, and `autoGrowBuffer` relies on seeing it unchanged.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { arrayFL, BinstructEncodeError, struct, u8 } from "@hertzg/binstruct";
+ *
+ * const coder = struct({ rgb: arrayFL(u8(), 3) });
+ * const error = assertThrows(
+ *   () => coder.encode({ rgb: [1, 2] }, new Uint8Array(8)),
+ *   BinstructEncodeError,
+ * );
+ *
+ * assertEquals(error.path, ["rgb"]);
+ * assertEquals(error.coderKind.description, "arrayFL");
+ * ```
+ */
+export class BinstructEncodeError extends Error implements ErrorLocation {
+  /** Path from the outermost coder to the failing field, outermost first. */
+  readonly path: readonly PathSegment[];
+  /** Byte offset where the failing field starts, relative to the outermost buffer. */
+  readonly offset: number;
+  /** Kind symbol of the coder that failed. */
+  readonly coderKind: symbol;
+
+  /**
+   * @param location - Where the failure happened
+   * @param cause - The error the failing coder threw
+   */
+  constructor(location: ErrorLocation, cause: unknown) {
+    super(locationMessage("encode", location, cause), { cause });
+    this.name = "BinstructEncodeError";
+    this.path = location.path;
+    this.offset = location.offset;
+    this.coderKind = location.coderKind;
+  }
+}
+
+// The buffer each error's `offset` is relative to, so that an outer level can
+// translate it into its own coordinates even when the bytes reached the inner
+// level through a refiner rather than a plain `subarray(cursor)`.
+const relativeTo = new WeakMap<Error, Uint8Array>();
+
+function offsetWithin(
+  view: Uint8Array,
+  offset: number,
+  within: Uint8Array,
+): number | undefined {
+  if (view.buffer !== within.buffer) {
+    return undefined;
+  }
+  const start = view.byteOffset - within.byteOffset;
+  return start >= 0 && start <= within.length ? start + offset : undefined;
+}
+
+function relocate<E extends BinstructDecodeError | BinstructEncodeError>(
+  ErrorClass: new (location: ErrorLocation, cause: unknown) => E,
+  error: unknown,
+  buffer: Uint8Array,
+  view: Uint8Array,
+  segment: PathSegment | undefined,
+  coder: Coder<unknown>,
+): E {
+  const prefix = segment === undefined ? [] : [segment];
+  const fieldStart = offsetWithin(view, 0, buffer) ?? 0;
+
+  let wrapped: E;
+  if (error instanceof ErrorClass) {
+    const inner = relativeTo.get(error) ?? view;
+    wrapped = new ErrorClass({
+      path: [...prefix, ...error.path],
+      offset: offsetWithin(inner, error.offset, buffer) ?? fieldStart,
+      coderKind: error.coderKind,
+    }, error.cause);
+  } else {
+    wrapped = new ErrorClass({
+      path: prefix,
+      offset: fieldStart,
+      coderKind: coder[kCoderKind],
+    }, error);
+  }
+
+  relativeTo.set(wrapped, buffer);
+  return wrapped;
+}
+
+/**
+ * Wraps an error thrown by a child coder while decoding, for a container to
+ * rethrow.
+ *
+ * `encoded` is the container's own input and `view` the bytes it handed to
+ * the child (usually `encoded.subarray(cursor)`). A
+ * {@link BinstructDecodeError} from deeper down keeps its path, prefixed with
+ * `segment`, and has its offset translated into `encoded`'s coordinates; any
+ * other error becomes a new {@link BinstructDecodeError} at `view`.
+ *
+ * @param error - What the child threw
+ * @param encoded - The container's own input
+ * @param view - The bytes handed to the child
+ * @param segment - The child's field name or index, or undefined when the child decodes the container's value itself
+ * @param coder - The child coder
+ * @returns The error to rethrow
+ *
+ * @example A custom container
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { type Coder, createContext, kCoderKind, u32be, wrapDecodeError } from "@hertzg/binstruct";
+ *
+ * const element = u32be();
+ * const pair: Coder<[number, number]> = {
+ *   [kCoderKind]: Symbol("pair"),
+ *   encode: () => 0,
+ *   decode: (encoded, context) => {
+ *     const ctx = context ?? createContext("decode");
+ *     const values: number[] = [];
+ *     let cursor = 0;
+ *     for (const index of [0, 1]) {
+ *       const view = encoded.subarray(cursor);
+ *       try {
+ *         const [value, bytesRead] = element.decode(view, ctx);
+ *         values.push(value);
+ *         cursor += bytesRead;
+ *       } catch (e) {
+ *         throw wrapDecodeError(e, encoded, view, index, element);
+ *       }
+ *     }
+ *     return [values as [number, number], cursor];
+ *   },
+ * };
+ *
+ * const error = assertThrows(() => pair.decode(new Uint8Array(6)));
+ * assertEquals(error.message, "Failed to decode [1] at byte offset 4 (u32be): Need 4 bytes, got 2");
+ * ```
+ */
+export function wrapDecodeError(
+  error: unknown,
+  encoded: Uint8Array,
+  view: Uint8Array,
+  segment: PathSegment | undefined,
+  // deno-lint-ignore no-explicit-any
+  coder: Coder<any>,
+): BinstructDecodeError {
+  return relocate(
+    BinstructDecodeError,
+    error,
+    encoded,
+    view,
+    segment,
+    coder,
+  );
+}
+
+/**
+ * Wraps an error thrown by a child coder while encoding, for a container to
+ * rethrow. The encode-side twin of {@link wrapDecodeError}, with `target` and
+ * `view` in place of the input buffers.
+ *
+ * A plain `RangeError` is returned unchanged: it signals a target that is too
+ * small, which `autoGrowBuffer` retries on.
+ *
+ * @param error - What the child threw
+ * @param target - The container's own target
+ * @param view - The part of the target handed to the child
+ * @param segment - The child's field name or index, or undefined when the child encodes the container's value itself
+ * @param coder - The child coder
+ * @returns The error to rethrow
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertInstanceOf } from "@std/assert";
+ * import { BinstructEncodeError, u8, wrapEncodeError } from "@hertzg/binstruct";
+ *
+ * const target = new Uint8Array(8);
+ * const view = target.subarray(3);
+ *
+ * const wrapped = wrapEncodeError(new Error("bad value"), target, view, "flags", u8());
+ * assertInstanceOf(wrapped, BinstructEncodeError);
+ * assertEquals(wrapped.offset, 3);
+ *
+ * const tooSmall = new RangeError("Offset is outside the bounds of the DataView");
+ * assertEquals(wrapEncodeError(tooSmall, target, view, "flags", u8()), tooSmall);
+ * ```
+ */
+export function wrapEncodeError(
+  error: unknown,
+  target: Uint8Array,
+  view: Uint8Array,
+  segment: PathSegment | undefined,
+  // deno-lint-ignore no-explicit-any
+  coder: Coder<any>,
+): unknown {
+  if (error instanceof RangeError) {
+    return error;
+  }
+
+  return relocate(
+    BinstructEncodeError,
+    error,
+    target,
+    view,
+    segment,
+    coder,
+  );
+}
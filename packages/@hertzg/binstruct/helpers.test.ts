@@ -2,6 +2,7 @@ import { assertEquals, assertThrows } from "@std/assert";
 import {
   array,
   bytes,
+  type Coder,
   createContext,
   decode,
   encode,
@@ -11,6 +12,12 @@ import {
   u8le,
 } from "./mod.ts";
 
+// Strips `measure` so `encode` has to fall back to the growable buffer.
+function unmeasured<T>(coder: Coder<T>): Coder<T> {
+  const { measure: _, ...rest } = coder;
+  return rest;
+}
+
 Deno.test("encode - auto-allocation small data", () => {
   const coder = struct({ id: u16le(), flag: u8le() });
   const data = { id: 42, flag: 7 };
@@ -43,7 +50,7 @@ Deno.test("encode - grows the target buffer to fit the payload", async (t) => {
   });
 
   await t.step("grows repeatedly from a one-byte initial buffer", () => {
-    const coder = struct({ data: array(u8le(), u16le()) });
+    const coder = unmeasured(struct({ data: array(u8le(), u16le()) }));
 
     const encoded = encode(
       coder,
@@ -56,7 +63,7 @@ Deno.test("encode - grows the target buffer to fit the payload", async (t) => {
   });
 
   await t.step("grows past a 4-byte length prefix", () => {
-    const coder = struct({ data: array(u8le(), u32le()) });
+    const coder = unmeasured(struct({ data: array(u8le(), u32le()) }));
 
     const encoded = encode(
       coder,
@@ -76,6 +83,38 @@ Deno.test("encode - grows the target buffer to fit the payload", async (t) => {
   });
 });
 
+Deno.test("encode - measured allocation", async (t) => {
+  await t.step("allocates exactly the measured size", () => {
+    const coder = struct({ data: array(u8le(), u16le()) });
+
+    const encoded = encode(coder, { data: new Array(10000).fill(42) });
+    assertEquals(encoded.length, 10002);
+    assertEquals(encoded.buffer.byteLength, 10002);
+    assertEquals((encoded.buffer as ArrayBuffer).resizable, false);
+  });
+
+  await t.step("falls back to the growable buffer when unmeasurable", () => {
+    const coder = struct({ id: u16le(), inner: unmeasured(u8le()) });
+
+    const encoded = encode(coder, { id: 1, inner: 2 });
+    assertEquals(encoded, new Uint8Array([1, 0, 2]));
+    assertEquals((encoded.buffer as ArrayBuffer).resizable, true);
+  });
+
+  await t.step("rejects measured sizes above maxByteLength", () => {
+    const coder = bytes();
+
+    assertThrows(
+      () =>
+        encode(coder, new Uint8Array(16), undefined, undefined, {
+          maxByteLength: 8,
+        }),
+      RangeError,
+      "encode: Measured size 16 exceeds maxByteLength 8",
+    );
+  });
+});
+
 Deno.test("encode - context handling", async (t) => {
   await t.step("provided context", () => {
     const coder = struct({ value: u16le() });
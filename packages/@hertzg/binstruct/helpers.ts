@@ -5,10 +5,11 @@
  * management complexities, making it easier to encode and decode binary data
  * without manually handling buffer allocation and sizing.
  *
- * The helper functions automatically manage buffer allocation using resizable
- * ArrayBuffers with exponential growth strategies, following best practices
- * for efficient memory usage and performance. Buffers start at 4KB and grow
- * by 2x when needed, up to a maximum of 400MB by default.
+ * The helper functions automatically manage buffer allocation. When every coder
+ * involved can `measure` the value, an exact-size buffer is allocated once.
+ * Otherwise they fall back to resizable ArrayBuffers with exponential growth
+ * strategies: buffers start at 4KB and grow by 2x when needed, up to a maximum
+ * of 400MB by default.
  *
  * @example Basic encoding and decoding
  * ```ts
@@ -98,14 +99,20 @@ import { type Coder, type Context, createContext } from "./core.ts";
 /**
  * Encodes data using the provided coder, handling buffer allocation automatically.
  *
- * When no target buffer is provided, this function automatically allocates
- * a resizable buffer using exponential growth strategy. The buffer starts
- * at 4KB and grows by 2x when needed, up to a maximum of 400MB. This approach
- * minimizes memory waste while ensuring efficient encoding.
+ * When no target buffer is provided, this function first asks the coder to
+ * `measure` the value. If the whole coder tree can be measured, a buffer of
+ * exactly that size is allocated once and the value is encoded into it, so
+ * the result owns no spare capacity.
  *
- * The returned Uint8Array is a zero-copy view over the allocated buffer, so it
- * keeps the buffer's full capacity alive; call `.slice()` on the result if you
- * hold onto it long-term and want an exact-size copy instead.
+ * If any coder in the tree cannot measure itself, it falls back to a resizable
+ * buffer using exponential growth strategy. The buffer starts at 4KB and grows
+ * by 2x when needed, up to a maximum of 400MB. In that case the returned
+ * Uint8Array is a zero-copy view over the allocated buffer, so it keeps the
+ * buffer's full capacity alive; call `.slice()` on the result if you hold onto
+ * it long-term and want an exact-size copy instead.
+ *
+ * `autogrowOptions.maxByteLength` caps both paths: a measured size above it
+ * throws a `RangeError`, just like a growable buffer that hits its limit.
  *
  * @template T - The type of data to encode
  * @param coder - The coder to use for encoding
@@ -125,6 +132,7 @@ import { type Coder, type Context, createContext } from "./core.ts";
  *
  * const encoded = encode(coder, data);
  * assertEquals(encoded.length, 3);
+ * assertEquals(encoded.buffer.byteLength, 3); // measured, allocated exactly
  * ```
  *
  * @example Using provided target buffer
@@ -141,7 +149,7 @@ import { type Coder, type Context, createContext } from "./core.ts";
  * assertEquals(encoded.buffer, buffer.buffer);
  * ```
  *
- * @example Large data requiring buffer growth
+ * @example Large data
  * ```ts
  * import { assertEquals } from "@std/assert";
  * import { encode, struct, array, u8le, u16le } from "@hertzg/binstruct";
@@ -190,6 +198,30 @@ export function encode<T>(
     return target.subarray(0, bytesWritten);
   }
 
+  const size = coder.measure?.(data, ctx);
+  if (size !== undefined) {
+    const { maxByteLength = 1024 * 1024 * 400 } = autogrowOptions; // 400MB
+    if (size > maxByteLength) {
+      throw new RangeError(
+        `encode: Measured size ${size} exceeds maxByteLength ${maxByteLength}`,
+      );
+    }
+
+    const buffer = new Uint8Array(size);
+    try {
+      if (coder.encode(data, buffer, ctx) === size) {
+        return buffer;
+      }
+    } catch (e) {
+      if (!(e instanceof RangeError)) {
+        throw e;
+      }
+    }
+    // The measurement disagreed with the encoder, which can only happen when
+    // a custom coder's `measure` is out of step with its `encode`; fall back
+    // to growing rather than returning a short encoding.
+  }
+
   return autoGrowBuffer((buffer) => {
     const bytesWritten = coder.encode(data, buffer, ctx);
     return buffer.subarray(0, bytesWritten);
@@ -0,0 +1,100 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { arrayFL, arrayLP } from "../array/array.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { BinstructDecodeError } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { u16le, u8 } from "../numeric/numeric.ts";
+import { ref } from "../ref/ref.ts";
+import { struct } from "../struct/struct.ts";
+import { align } from "./align.ts";
+
+Deno.test("align - pads to the boundary from the struct start", () => {
+  // deno-fmt-ignore
+  const cases: [number, number[]][] = [
+    [0, [0, 0, 0, 0]],
+    [1, [1, 0xaa, 0, 0]],
+    [3, [3, 0xaa, 0xaa, 0xaa]],
+    [4, [4, 0xaa, 0xaa, 0xaa, 0xaa, 0, 0, 0]],
+  ];
+
+  const size = u8();
+  const coder = struct({ size, data: bytes(ref(size)), pad: align(4) });
+
+  for (const [length, expected] of cases) {
+    const value = {
+      size: length,
+      data: new Uint8Array(length).fill(0xaa),
+      pad: undefined,
+    };
+    const encoded = encode(coder, value);
+
+    assertEquals(Array.from(encoded), expected);
+    assertEquals(coder.measure?.(value), expected.length);
+    assertEquals(coder.decode(encoded), [value, expected.length]);
+  }
+});
+
+Deno.test("align - positions are relative to the innermost struct", () => {
+  const inner = struct({ tag: u8(), pad: align(2), value: u16le() });
+  const outer = struct({ version: u8(), inner });
+  const value = {
+    version: 1,
+    inner: { tag: 2, pad: undefined, value: 0x0403 },
+  };
+
+  const encoded = encode(outer, value);
+  assertEquals(Array.from(encoded), [1, 2, 0, 3, 4]);
+  assertEquals(decode(outer, encoded), value);
+});
+
+Deno.test("align - array elements see their own position", async (t) => {
+  const element = arrayLP(u8(), u8());
+
+  await t.step("in an array of structs", () => {
+    const coder = struct({
+      items: arrayFL(struct({ item: element, pad: align(4) }), 2),
+    });
+    const value = {
+      items: [
+        { item: [7], pad: undefined },
+        { item: [8, 9, 10], pad: undefined },
+      ],
+    };
+
+    const encoded = encode(coder, value);
+    assertEquals(Array.from(encoded), [1, 7, 0, 0, 3, 8, 9, 10]);
+    assertEquals(decode(coder, encoded), value);
+  });
+
+  await t.step("as the element itself", () => {
+    const coder = struct({ tag: u8(), pads: arrayFL(align(2), 2) });
+    const value = { tag: 1, pads: [undefined, undefined] };
+
+    // The first element pads to offset 2, the second is already aligned
+    const encoded = encode(coder, value);
+    assertEquals(Array.from(encoded), [1, 0]);
+    assertEquals(decode(coder, encoded), value);
+  });
+});
+
+Deno.test("align - fill and errors", () => {
+  const coder = struct({ tag: u8(), pad: align(4, 0xff) });
+
+  assertEquals(
+    Array.from(encode(coder, { tag: 1, pad: undefined })),
+    [1, 0xff, 0xff, 0xff],
+  );
+  assertEquals(align(8).decode(new Uint8Array(0)), [undefined, 0]);
+
+  const truncated = assertThrows(
+    () => coder.decode(new Uint8Array([1, 0])),
+    BinstructDecodeError,
+  );
+  assertInstanceOf(truncated.cause, RangeError);
+  assertThrows(
+    () => coder.encode({ tag: 1, pad: undefined }, new Uint8Array(2)),
+    RangeError,
+  );
+  assertThrows(() => align(0), Error, "Invalid alignment: 0");
+  assertThrows(() => align(4, 256), Error, "Invalid fill: 256");
+});
@@ -0,0 +1,87 @@
+import { type Coder, createContext, kCoderKind } from "../core.ts";
+import { layoutOffset } from "./frame.ts";
+
+/**
+ * Symbol identifier for alignment coders.
+ */
+export const kKindAlign = Symbol("align");
+
+/**
+ * Creates a Coder that pads to the next multiple of `boundary` bytes,
+ * counted from the start of the enclosing struct.
+ *
+ * Decoding skips the padding without checking its contents and yields
+ * `undefined`; encoding ignores the value and writes `fill`. Inside arrays
+ * the position includes the elements before, so an aligned element type pads
+ * each element to the boundary. Outside any struct the coder is at offset 0
+ * and pads nothing.
+ *
+ * @param boundary - The alignment in bytes (e.g. 4 for 32-bit words)
+ * @param fill - The byte written as padding, 0 by default
+ * @returns A Coder for the padding
+ * @throws {Error} If `boundary` is not a positive integer or `fill` not a byte
+ *
+ * @example Word-aligned RIFF-style chunks
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { align, bytes, encode, decode, ref, struct, u32le } from "@hertzg/binstruct";
+ *
+ * const size = u32le();
+ * const chunk = struct({
+ *   size,
+ *   data: bytes(ref(size)),
+ *   pad: align(4),
+ * });
+ *
+ * const encoded = encode(chunk, {
+ *   size: 3,
+ *   data: new Uint8Array([1, 2, 3]),
+ *   pad: undefined,
+ * });
+ * assertEquals(encoded, new Uint8Array([3, 0, 0, 0, 1, 2, 3, 0]));
+ * assertEquals(decode(chunk, encoded).data, new Uint8Array([1, 2, 3]));
+ * ```
+ */
+export function align(boundary: number, fill: number = 0): Coder<undefined> {
+  if (!Number.isInteger(boundary) || boundary < 1) {
+    throw new Error(
+      `Invalid alignment: ${boundary}. Must be a positive integer.`,
+    );
+  }
+  if (!Number.isInteger(fill) || fill < 0 || fill > 0xff) {
+    throw new Error(`Invalid fill: ${fill}. Must be a byte value.`);
+  }
+
+  const padLength = (offset: number) =>
+    (boundary - offset % boundary) % boundary;
+
+  return {
+    [kCoderKind]: kKindAlign,
+    encode: (_value, target, context) => {
+      const ctx = context ?? createContext("encode");
+      const len = padLength(layoutOffset(ctx));
+
+      if (target.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${target.length}`);
+      }
+
+      target.fill(fill, 0, len);
+      return len;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const len = padLength(layoutOffset(ctx));
+
+      if (encoded.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${encoded.length}`);
+      }
+
+      return [undefined, len];
+    },
+    measure: (_value, context) => {
+      const ctx = context ?? createContext("encode");
+      return padLength(layoutOffset(ctx));
+    },
+    describe: () => ({ type: "align", boundary }),
+  };
+}
@@ -0,0 +1,101 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { arrayFL } from "../array/array.ts";
+import { BinstructDecodeError } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { u16be, u8 } from "../numeric/numeric.ts";
+import { ref } from "../ref/ref.ts";
+import { stringLP } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { align } from "./align.ts";
+import { at } from "./at.ts";
+
+Deno.test("at - values placed through an offset table", () => {
+  const nameOffset = u8();
+  const portOffset = u8();
+  const coder = struct({
+    nameOffset,
+    portOffset,
+    name: at(ref(nameOffset), stringLP(u8())),
+    port: at(ref(portOffset), u16be()),
+    flags: u8(),
+  });
+  const value = {
+    nameOffset: 6,
+    portOffset: 3,
+    name: "hi",
+    port: 0x1f90,
+    flags: 0xee,
+  };
+
+  const encoded = encode(coder, value);
+  // The placed values take no space in sequence: flags follows the offsets
+  assertEquals(
+    Array.from(encoded),
+    [6, 3, 0xee, 0x1f, 0x90, 0, 2, 0x68, 0x69],
+  );
+  assertEquals(coder.measure?.(value), 9);
+  assertEquals(coder.decode(encoded), [value, 9]);
+});
+
+Deno.test("at - offsets are relative to the innermost struct", () => {
+  const offset = u8();
+  const entry = struct({ offset, value: at(ref(offset), u8()) });
+  const coder = struct({ magic: u16be(), entry });
+  const value = { magic: 0xbeef, entry: { offset: 2, value: 7 } };
+
+  const encoded = encode(coder, value);
+  assertEquals(Array.from(encoded), [0xbe, 0xef, 2, 0, 7]);
+  assertEquals(decode(coder, encoded), value);
+});
+
+Deno.test("at - the placed coder sees its real position", () => {
+  const coder = struct({
+    tag: u8(),
+    padded: at(3, struct({ pad: align(2), value: u8() })),
+  });
+  const children = struct({
+    tag: u8(),
+    padded: at(3, arrayFL(align(4), 1)),
+  });
+
+  assertEquals(
+    Array.from(encode(coder, { tag: 1, padded: { pad: undefined, value: 9 } })),
+    [1, 0, 0, 9],
+  );
+  assertEquals(
+    Array.from(encode(children, { tag: 1, padded: [undefined] })),
+    [1, 0, 0, 0],
+  );
+});
+
+Deno.test("at - outside a struct", () => {
+  const coder = at(2, u8());
+
+  assertEquals(Array.from(encode(coder, 5)), [0, 0, 5]);
+  assertEquals(coder.measure?.(5), 3);
+  assertEquals(coder.decode(new Uint8Array([0, 0, 5])), [5, 3]);
+});
+
+Deno.test("at - errors", () => {
+  const offset = u8();
+  const coder = struct({ offset, value: at(ref(offset), u16be()) });
+
+  const error = assertThrows(
+    () => coder.decode(new Uint8Array([3, 0, 0, 1])),
+    BinstructDecodeError,
+  );
+  assertEquals(error.path, ["value"]);
+  assertEquals(error.offset, 3);
+  assertEquals(error.cause instanceof RangeError, true);
+
+  assertThrows(
+    () => coder.decode(new Uint8Array([9, 0])),
+    BinstructDecodeError,
+    "Need 9 bytes, got 2",
+  );
+  assertThrows(
+    () => coder.encode({ offset: 4, value: 1 }, new Uint8Array(5)),
+    RangeError,
+  );
+  assertThrows(() => at(-1, u8()), Error, "Invalid offset: -1");
+});
@@ -0,0 +1,185 @@
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+  kCtxLayout,
+} from "../core.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { isValidLength, type LengthOrRef, lengthRefGet } from "../length.ts";
+import { isRef, refSetValue } from "../ref/ref.ts";
+
+/**
+ * Symbol identifier for offset-seeking coders.
+ */
+export const kKindAt = Symbol("at");
+
+/**
+ * Creates a Coder for a value stored at an offset from the start of the
+ * enclosing struct, rather than at the current position.
+ *
+ * The offset is usually a {@link import("../ref/ref.ts").RefValue} to an
+ * earlier field, like the data offset in a BMP or ELF header. The coder itself
+ * occupies no bytes in sequence: the next field starts where it would have
+ * without it. Instead, the struct's length is extended to the end of the
+ * furthest value placed this way, so the struct round-trips as a whole.
+ * Bytes between the sequential fields and the placed value are left as they
+ * are in the target; avoiding overlaps is up to the format.
+ *
+ * Outside any struct the offset is taken from the start of the bytes the
+ * coder is given, and the coder's length runs from there to the end of the
+ * value.
+ *
+ * @template TDecoded - The type of the value at the offset
+ * @param offsetOrRef - The offset in bytes, as a literal or a reference
+ * @param coder - The coder for the value at the offset
+ * @returns A Coder for the value
+ * @throws {Error} If the offset is not a non-negative integer
+ *
+ * @example Data located through a header field
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { at, bytes, decode, encode, ref, struct, u8 } from "@hertzg/binstruct";
+ *
+ * const dataOffset = u8();
+ * const dataLength = u8();
+ * const file = struct({
+ *   dataOffset,
+ *   dataLength,
+ *   data: at(ref(dataOffset), bytes(ref(dataLength))),
+ * });
+ *
+ * const value = { dataOffset: 4, dataLength: 2, data: new Uint8Array([0xca, 0xfe]) };
+ * const encoded = encode(file, value);
+ *
+ * assertEquals(encoded, new Uint8Array([4, 2, 0, 0, 0xca, 0xfe]));
+ * assertEquals(decode(file, encoded), value);
+ * ```
+ */
+export function at<TDecoded>(
+  offsetOrRef: LengthOrRef,
+  coder: Coder<TDecoded>,
+): Coder<TDecoded> {
+  if (!isRef<number>(offsetOrRef) && !isValidLength(offsetOrRef)) {
+    throw new Error(
+      `Invalid offset: ${offsetOrRef}. Must be a reference to or a literal non-negative integer.`,
+    );
+  }
+
+  const resolveOffset = (ctx: Context): number => {
+    const offset = lengthRefGet(ctx, offsetOrRef);
+
+    if (offset === undefined) {
+      throw new Error("Invalid offset: Unable to resolve offset");
+    }
+
+    if (!isValidLength(offset)) {
+      throw new Error(
+        `Invalid offset: ${offset}. Must be a non-negative integer.`,
+      );
+    }
+
+    return offset;
+  };
+
+  // Runs the child with the frame offset at its real position, so positional
+  // coders inside it see where it is
+  const placed = <T>(ctx: Context, offset: number, run: () => T): T => {
+    const frame = ctx[kCtxLayout];
+    if (frame === undefined) {
+      return run();
+    }
+
+    const previous = frame.offset;
+    frame.offset = offset;
+    try {
+      return run();
+    } finally {
+      frame.offset = previous;
+    }
+  };
+
+  // Inside a struct the value takes no bytes in sequence but extends the
+  // struct; on its own it spans from the start to its end
+  const consumed = (ctx: Context, end: number): number => {
+    const frame = ctx[kCtxLayout];
+    if (frame === undefined) {
+      return end;
+    }
+    frame.end = Math.max(frame.end, end);
+    return 0;
+  };
+
+  let self: Coder<TDecoded>;
+  return self = {
+    [kCoderKind]: kKindAt,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      const base = ctx[kCtxLayout]?.bytes ?? target;
+      const offset = resolveOffset(ctx);
+
+      refSetValue(ctx, self, decoded);
+
+      if (base.length < offset) {
+        throw new RangeError(`Need ${offset} bytes, got ${base.length}`);
+      }
+
+      const view = base.subarray(offset);
+      let bytesWritten;
+      try {
+        bytesWritten = placed(
+          ctx,
+          offset,
+          () => coder.encode(decoded, view, ctx),
+        );
+      } catch (e) {
+        throw wrapEncodeError(e, base, view, undefined, coder);
+      }
+
+      return consumed(ctx, offset + bytesWritten);
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const base = ctx[kCtxLayout]?.bytes ?? encoded;
+      const offset = resolveOffset(ctx);
+
+      if (base.length < offset) {
+        throw new RangeError(`Need ${offset} bytes, got ${base.length}`);
+      }
+
+      const view = base.subarray(offset);
+      let value, bytesRead;
+      try {
+        [value, bytesRead] = placed(ctx, offset, () => coder.decode(view, ctx));
+      } catch (e) {
+        throw wrapDecodeError(e, base, view, undefined, coder);
+      }
+
+      refSetValue(ctx, self, value);
+      // Lets the struct trace the field at the bytes it came from
+      const frame = ctx[kCtxLayout];
+      if (frame !== undefined) {
+        frame.placed = [offset, offset + bytesRead];
+      }
+      return [value, consumed(ctx, offset + bytesRead)];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const offset = resolveOffset(ctx);
+
+      refSetValue(ctx, self, decoded);
+
+      const bytes = placed(ctx, offset, () => coder.measure?.(decoded, ctx));
+      if (bytes === undefined) {
+        return undefined;
+      }
+
+      return consumed(ctx, offset + bytes);
+    },
+    describe: (walker) => ({
+      type: "at",
+      offset: walker.length(offsetOrRef),
+      target: walker.child(coder),
+    }),
+  };
+}
@@ -0,0 +1,129 @@
+import { type Context, kCtxLayout } from "../core.ts";
+
+/**
+ * Work queued by a field to run once the struct has run all of its fields.
+ */
+export interface DeferredTask {
+  /** Name of the struct field that queued the task. */
+  readonly field: string;
+  /** Offset the task concerns, relative to the start of the struct. */
+  readonly offset: number;
+  /** Runs the task. Errors are rethrown located at `field` and `offset`. */
+  readonly run: () => void;
+}
+
+/**
+ * Layout state of the innermost struct being encoded, decoded or measured,
+ * stored in the context under {@link kCtxLayout}.
+ *
+ * Positional coders ({@link import("./align.ts").align},
+ * {@link import("./at.ts").at}) read it to know where they are relative to the
+ * start of the struct. {@link import("../computed/computed.ts").computed}
+ * reads the spans of sibling fields and queues work for after the last one.
+ */
+export interface LayoutFrame {
+  /** The struct's own bytes; absent while measuring. */
+  readonly bytes?: Uint8Array;
+  /** The struct's value: the one being encoded or measured, or the object being decoded into. */
+  readonly value?: unknown;
+  /** Name of the field being run. */
+  field?: string;
+  /** Offset of the coder being run, relative to the start of the struct. */
+  offset: number;
+  /** End of the furthest bytes placed out of line by `at`, relative to the start of the struct. */
+  end: number;
+  /**
+   * Start and end of the bytes the field being run placed out of line with
+   * `at`, relative to the start of the struct. The struct traces the field at
+   * these bytes when it is set, then clears it.
+   */
+  placed?: readonly [start: number, end: number];
+  /** Start and end of each field run so far, relative to the start of the struct. */
+  readonly fields: Map<string, readonly [start: number, end: number]>;
+  /** Tasks queued with {@link deferTask}, run in order after the last field. */
+  readonly deferred: DeferredTask[];
+  /** The frame of the enclosing struct, restored by {@link closeFrame}. */
+  readonly parent?: LayoutFrame;
+}
+
+/**
+ * Opens a layout frame for a struct about to run its fields.
+ *
+ * @param ctx - The encode or decode context
+ * @param bytes - The struct's own bytes, or undefined while measuring
+ * @param value - The struct's value
+ * @returns The opened frame; pass it to {@link closeFrame} when done
+ */
+export function openFrame(
+  ctx: Context,
+  bytes?: Uint8Array,
+  value?: unknown,
+): LayoutFrame {
+  const frame: LayoutFrame = {
+    bytes,
+    value,
+    offset: 0,
+    end: 0,
+    fields: new Map(),
+    deferred: [],
+    parent: ctx[kCtxLayout],
+  };
+  ctx[kCtxLayout] = frame;
+  return frame;
+}
+
+/**
+ * Closes a frame opened by {@link openFrame}, restoring the enclosing one.
+ *
+ * @param ctx - The encode or decode context
+ * @param frame - The frame returned by {@link openFrame}
+ */
+export function closeFrame(ctx: Context, frame: LayoutFrame): void {
+  ctx[kCtxLayout] = frame.parent;
+}
+
+/**
+ * Returns the offset of the coder being run relative to the start of the
+ * innermost enclosing struct, or 0 outside any struct.
+ *
+ * @param ctx - The encode or decode context
+ * @returns The offset in bytes
+ */
+export function layoutOffset(ctx: Context): number {
+  return ctx[kCtxLayout]?.offset ?? 0;
+}
+
+/**
+ * Moves the offset of the innermost frame before a container runs a child
+ * that does not start where the container itself does.
+ *
+ * Containers other than `struct` call this with their own
+ * {@link layoutOffset} plus the child's cursor, so that positional coders
+ * nested in them see their real position.
+ *
+ * @param ctx - The encode or decode context
+ * @param offset - The child's offset relative to the start of the struct
+ */
+export function layoutMoveTo(ctx: Context, offset: number): void {
+  const frame = ctx[kCtxLayout];
+  if (frame !== undefined) {
+    frame.offset = offset;
+  }
+}
+
+/**
+ * Queues a task to run after the innermost struct has run all of its fields,
+ * when every sibling's bytes are in place.
+ *
+ * @param ctx - The encode or decode context
+ * @param run - The task
+ * @returns False when there is no enclosing struct to queue the task on
+ */
+export function deferTask(ctx: Context, run: () => void): boolean {
+  const frame = ctx[kCtxLayout];
+  if (frame?.field === undefined) {
+    return false;
+  }
+  frame.deferred.push({ field: frame.field, offset: frame.offset, run });
+  return true;
+}
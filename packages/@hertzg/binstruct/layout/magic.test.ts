@@ -0,0 +1,48 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { BinstructDecodeError } from "../errors.ts";
+import { encode } from "../helpers.ts";
+import { u8 } from "../numeric/numeric.ts";
+import { struct } from "../struct/struct.ts";
+import { magic } from "./magic.ts";
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+Deno.test("magic - strings are one byte per character", () => {
+  const coder = magic("\x89PNG\r\n\x1a\n");
+
+  assertEquals(Array.from(encode(coder, undefined)), pngSignature);
+  assertEquals(coder.decode(new Uint8Array(pngSignature)), [undefined, 8]);
+  assertThrows(() => magic("☃"), Error, "is not a byte value");
+});
+
+Deno.test("magic - the constant is copied", () => {
+  const signature = new Uint8Array([1, 2]);
+  const coder = magic(signature);
+  signature[0] = 9;
+
+  assertEquals(Array.from(encode(coder, undefined)), [1, 2]);
+});
+
+Deno.test("magic - decode errors", () => {
+  const coder = struct({
+    signature: magic(new Uint8Array([0xca, 0xfe])),
+    version: u8(),
+  });
+
+  assertThrows(
+    () => coder.decode(new Uint8Array([0xca])),
+    BinstructDecodeError,
+  );
+  const truncated = assertThrows(() => magic("ab").decode(new Uint8Array(1)));
+  assertInstanceOf(truncated, RangeError);
+
+  const mismatch = assertThrows(
+    () => coder.decode(new Uint8Array([0xca, 0xfd, 1])),
+    BinstructDecodeError,
+  );
+  assertEquals(
+    mismatch.message,
+    "Failed to decode signature at byte offset 0 (magic): Invalid magic: expected ca fe, got ca fd",
+  );
+  assertThrows(() => magic(""), Error, "Must be at least one byte");
+});
@@ -0,0 +1,83 @@
+import { type Coder, kCoderKind } from "../core.ts";
+
+/**
+ * Symbol identifier for magic byte coders.
+ */
+export const kKindMagic = Symbol("magic");
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(" ");
+
+/**
+ * Creates a Coder for constant bytes that must be present, such as a file
+ * signature.
+ *
+ * Decoding checks the bytes and yields `undefined`; encoding ignores the
+ * value and writes the constant. A string is taken one byte per character,
+ * so `"\x89PNG"` is the four bytes `89 50 4e 47`.
+ *
+ * @param expected - The constant bytes, or a string of byte-valued characters
+ * @returns A Coder for the constant
+ * @throws {Error} If `expected` is empty or a character is above `\xff`
+ *
+ * @example A file signature
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { decode, encode, magic, struct, u32le } from "@hertzg/binstruct";
+ *
+ * const header = struct({ signature: magic("RIFF"), size: u32le() });
+ *
+ * const encoded = encode(header, { signature: undefined, size: 4 });
+ * assertEquals(encoded, new Uint8Array([0x52, 0x49, 0x46, 0x46, 4, 0, 0, 0]));
+ * assertEquals(decode(header, encoded), { signature: undefined, size: 4 });
+ *
+ * assertThrows(
+ *   () => decode(header, new Uint8Array([0x52, 0x49, 0x46, 0x58, 4, 0, 0, 0])),
+ *   Error,
+ *   "Invalid magic: expected 52 49 46 46, got 52 49 46 58",
+ * );
+ * ```
+ */
+export function magic(expected: Uint8Array | string): Coder<undefined> {
+  const constant = typeof expected === "string"
+    ? Uint8Array.from(expected, (char) => {
+      const code = char.charCodeAt(0);
+      if (code > 0xff) {
+        throw new Error(
+          `Invalid magic: ${JSON.stringify(char)} is not a byte value.`,
+        );
+      }
+      return code;
+    })
+    : Uint8Array.from(expected);
+
+  if (constant.length === 0) {
+    throw new Error("Invalid magic: Must be at least one byte.");
+  }
+
+  return {
+    [kCoderKind]: kKindMagic,
+    encode: (_value, target) => {
+      target.set(constant, 0);
+      return constant.length;
+    },
+    decode: (encoded) => {
+      if (encoded.length < constant.length) {
+        throw new RangeError(
+          `Need ${constant.length} bytes, got ${encoded.length}`,
+        );
+      }
+
+      const actual = encoded.subarray(0, constant.length);
+      if (!actual.every((byte, i) => byte === constant[i])) {
+        throw new Error(
+          `Invalid magic: expected ${hex(constant)}, got ${hex(actual)}`,
+        );
+      }
+
+      return [undefined, constant.length];
+    },
+    measure: () => constant.length,
+    describe: () => ({ type: "magic", bytes: Array.from(constant) }),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Layout coders: alignment, padding, magic bytes and offset seeking.
+ *
+ * These coders describe where data sits rather than what it is. They decode
+ * to `undefined` (except {@link at}, which decodes its target) and encode
+ * without needing a value, so a struct with them round-trips unchanged.
+ *
+ * - {@link align}: pad to an N-byte boundary, e.g. word-aligned RIFF chunks
+ *   or pcapng's 32-bit padding
+ * - {@link padding}: skip a literal or referenced number of bytes
+ * - {@link magic}: constant bytes that must match, e.g. a file signature
+ * - {@link at}: a value at an offset read from an earlier field
+ *
+ * Positions are relative to the start of the innermost enclosing
+ * {@link import("../struct/struct.ts").struct}. Structs keep a
+ * {@link LayoutFrame} in the context while running their fields, and the
+ * array coders move its offset to each element, which is how positional
+ * coders know where they are.
+ *
+ * @example A chunked file with a signature and aligned chunks
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { align, arrayLP, bytes, decode, encode, magic, ref, struct, u8 } from "@hertzg/binstruct";
+ *
+ * const size = u8();
+ * const chunk = struct({ size, data: bytes(ref(size)), pad: align(2) });
+ * const file = struct({ signature: magic("CK"), chunks: arrayLP(chunk, u8()) });
+ *
+ * const value = {
+ *   signature: undefined,
+ *   chunks: [
+ *     { size: 1, data: new Uint8Array([0xaa]), pad: undefined },
+ *     { size: 2, data: new Uint8Array([0xbb, 0xcc]), pad: undefined },
+ *   ],
+ * };
+ *
+ * const encoded = encode(file, value);
+ * assertEquals(
+ *   encoded,
+ *   new Uint8Array([0x43, 0x4b, 2, 1, 0xaa, 2, 0xbb, 0xcc, 0]),
+ * );
+ * assertEquals(decode(file, encoded), value);
+ * ```
+ *
+ * @module
+ */
+
+export * from "./align.ts";
+export * from "./at.ts";
+export * from "./frame.ts";
+export * from "./magic.ts";
+export * from "./padding.ts";
@@ -0,0 +1,49 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { computedRef, ref } from "../ref/ref.ts";
+import { decode, encode } from "../helpers.ts";
+import { u8 } from "../numeric/numeric.ts";
+import { struct } from "../struct/struct.ts";
+import { padding } from "./padding.ts";
+
+Deno.test("padding - literal length", () => {
+  const coder = struct({ a: u8(), reserved: padding(2), b: u8() });
+  const value = { a: 1, reserved: undefined, b: 2 };
+
+  assertEquals(Array.from(encode(coder, value)), [1, 0, 0, 2]);
+  assertEquals(coder.measure?.(value), 4);
+  assertEquals(coder.decode(new Uint8Array([1, 0xde, 0xad, 2])), [value, 4]);
+});
+
+Deno.test("padding - referenced length", () => {
+  const headerLength = u8();
+  const coder = struct({
+    headerLength,
+    rest: padding(computedRef([ref(headerLength)], (n) => n - 1)),
+    body: u8(),
+  });
+  const value = { headerLength: 4, rest: undefined, body: 9 };
+
+  const encoded = encode(coder, value);
+  assertEquals(Array.from(encoded), [4, 0, 0, 0, 9]);
+  assertEquals(decode(coder, encoded), value);
+});
+
+Deno.test("padding - fill and errors", () => {
+  assertEquals(
+    Array.from(encode(padding(3, 0x20), undefined)),
+    [0x20, 0x20, 0x20],
+  );
+
+  assertThrows(() => padding(2).decode(new Uint8Array(1)), RangeError);
+  assertThrows(
+    () => padding(2).encode(undefined, new Uint8Array(1)),
+    RangeError,
+  );
+  assertThrows(() => padding(-1), Error, "Invalid length: -1");
+  assertThrows(() => padding(1, 0.5), Error, "Invalid fill: 0.5");
+  assertThrows(
+    () => padding(ref(u8())).decode(new Uint8Array(4)),
+    Error,
+    "Ref not found in context",
+  );
+});
@@ -0,0 +1,103 @@
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+} from "../core.ts";
+import { isValidLength, type LengthOrRef, lengthRefGet } from "../length.ts";
+import { isRef } from "../ref/ref.ts";
+
+/**
+ * Symbol identifier for padding coders.
+ */
+export const kKindPadding = Symbol("padding");
+
+/**
+ * Creates a Coder that skips a fixed number of bytes.
+ *
+ * Decoding skips the bytes without checking their contents and yields
+ * `undefined`; encoding ignores the value and writes `fill`. The length can
+ * be a literal or a {@link import("../ref/ref.ts").RefValue} to an earlier
+ * field, e.g. a header length after which the rest of the header is skipped.
+ *
+ * @param lengthOrRef - The number of bytes, as a literal or a reference
+ * @param fill - The byte written as padding, 0 by default
+ * @returns A Coder for the padding
+ * @throws {Error} If the length is not a non-negative integer or `fill` not a byte
+ *
+ * @example Reserved bytes
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { encode, decode, padding, struct, u16be, u8 } from "@hertzg/binstruct";
+ *
+ * const header = struct({ version: u8(), reserved: padding(3), port: u16be() });
+ *
+ * const encoded = encode(header, { version: 1, reserved: undefined, port: 80 });
+ * assertEquals(encoded, new Uint8Array([1, 0, 0, 0, 0, 80]));
+ *
+ * const decoded = decode(header, new Uint8Array([1, 0xff, 0xff, 0xff, 0, 80]));
+ * assertEquals(decoded, { version: 1, reserved: undefined, port: 80 });
+ * ```
+ */
+export function padding(
+  lengthOrRef: LengthOrRef,
+  fill: number = 0,
+): Coder<undefined> {
+  if (!isRef<number>(lengthOrRef) && !isValidLength(lengthOrRef)) {
+    throw new Error(
+      `Invalid length: ${lengthOrRef}. Must be a reference to or a literal non-negative integer.`,
+    );
+  }
+  if (!Number.isInteger(fill) || fill < 0 || fill > 0xff) {
+    throw new Error(`Invalid fill: ${fill}. Must be a byte value.`);
+  }
+
+  const resolveLength = (ctx: Context): number => {
+    const len = lengthRefGet(ctx, lengthOrRef);
+
+    if (len === undefined) {
+      throw new Error("Invalid length: Unable to resolve length");
+    }
+
+    if (!isValidLength(len)) {
+      throw new Error(
+        `Invalid length: ${len}. Must be a non-negative integer.`,
+      );
+    }
+
+    return len;
+  };
+
+  return {
+    [kCoderKind]: kKindPadding,
+    encode: (_value, target, context) => {
+      const ctx = context ?? createContext("encode");
+      const len = resolveLength(ctx);
+
+      if (target.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${target.length}`);
+      }
+
+      target.fill(fill, 0, len);
+      return len;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const len = resolveLength(ctx);
+
+      if (encoded.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${encoded.length}`);
+      }
+
+      return [undefined, len];
+    },
+    measure: (_value, context) => {
+      const ctx = context ?? createContext("encode");
+      return resolveLength(ctx);
+    },
+    describe: (walker) => ({
+      type: "padding",
+      length: walker.length(lengthOrRef),
+    }),
+  };
+}
@@ -179,3 +179,15 @@ Deno.test("lazy - breaks a build-time cycle between two struct coders", () => {
   assertEquals(decoded, value);
   assertEquals(written, read);
 });
+
+Deno.test("lazy - measures like the coder it wraps", () => {
+  const frameCoder = makeFrameCoder();
+  const coder = lazy(() => frameCoder);
+  const value: Frame = {
+    hasNext: 1,
+    rest: { hasNext: 0, rest: new Uint8Array(0) },
+  };
+
+  assertEquals(coder.measure?.(value), 2);
+  assertEquals(coder.encode(value, new Uint8Array(16)), 2);
+});
@@ -60,6 +60,8 @@
 
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { viewChild } from "../view.ts";
 
 const kKindLazy = Symbol("lazy");
 
@@ -125,15 +127,43 @@ export function lazy<TDecoded>(
     [kCoderKind]: kKindLazy,
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
-      const bytesWritten = resolve().encode(decoded, target, ctx);
+      const coder = resolve();
+
+      let bytesWritten;
+      try {
+        bytesWritten = coder.encode(decoded, target, ctx);
+      } catch (e) {
+        throw wrapEncodeError(e, target, target, undefined, coder);
+      }
+
       refSetValue(ctx, self, decoded);
       return bytesWritten;
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
-      const [decoded, bytesRead] = resolve().decode(encoded, ctx);
+      const coder = resolve();
+
+      let decoded, bytesRead;
+      try {
+        [decoded, bytesRead] = coder.decode(encoded, ctx);
+      } catch (e) {
+        throw wrapDecodeError(e, encoded, encoded, undefined, coder);
+      }
+
       refSetValue(ctx, self, decoded);
       return [decoded, bytesRead];
     },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const bytes = resolve().measure?.(decoded, ctx);
+      refSetValue(ctx, self, decoded);
+      return bytes;
+    },
+    describe: (walker) => walker.child(resolve()),
+    view: (encoded, context) => {
+      const view = viewChild(context, resolve(), encoded, encoded, undefined);
+      refSetValue(context, self, view.value);
+      return view;
+    },
   };
 }
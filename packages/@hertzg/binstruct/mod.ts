@@ -9,6 +9,7 @@
  * - **Unsigned integers**: 8, 16, 32, 64 bits (big-endian and little-endian)
  * - **Signed integers**: 8, 16, 32, 64 bits (big-endian and little-endian)
  * - **Floating point numbers**: 16, 32, 64 bits (big-endian and little-endian)
+ * - **Variable-length integers**: LEB128, ZigZag (Protobuf) and QUIC varints
  *
  * ### String Types
  * - **Length-prefixed strings**: Variable-length strings with size prefix
@@ -45,13 +46,48 @@
  * ### Data Refinement
  * - {@link refine}: Transform decoded values into refined types and vice versa
  * - {@link refineSwitch}: Conditionally apply refiners based on selector functions
+ * - {@link enumOf}: Decode a value to its name in an `as const` table
+ * - {@link flagsOf}: Decode a bitmask to a record of named booleans
  *
  * ### Raw Data
  * - {@link bytes}: Handle raw byte slices with length control
+ * - {@link bytesLP}: Handle raw byte slices preceded by a length prefix
+ *
+ * ### Layout
+ * - {@link align}: Pad to an N-byte boundary from the start of the enclosing struct
+ * - {@link padding}: Skip a literal or referenced number of bytes
+ * - {@link magic}: Constant bytes that must match, such as a file signature
+ * - {@link at}: Read or write a value at an offset taken from an earlier field
+ *
+ * ### Computed Fields
+ * - {@link computed}: Write a value derived from sibling fields, optionally verifying it on decode
+ * - {@link checksum}: Checksum over a range of fields, e.g. with `crc32` from `@hertzg/crc`
+ *
+ * ### Optional Fields
+ * - {@link optional}: A field present only when earlier fields (a flag, a presence bitmap) or a ref say so
+ * - {@link optionalTagged}: A value preceded by a 0/1 presence tag, like `Option<T>` in Borsh
  *
  * ### Buffer Management
  * - {@link autoGrowBuffer}: Automatically grow buffers during encoding operations
  *
+ * ### Streaming
+ * - {@link createDecodeStream}: Decode a sequence of values from a stream of byte chunks
+ * - {@link createEncodeStream}: Encode a sequence of values into a stream of byte chunks
+ *
+ * ### Tracing
+ * - {@link traceDecode}: Decode a value and record the byte span of every field
+ *
+ * ### View Decoding
+ * - {@link decodeView}: Decode a value whose struct fields and array elements decode when first read
+ *
+ * ### Compilation
+ * - {@link compile}: Generate straight-line DataView code for the fixed-size fields of a coder tree's structs
+ *
+ * ### Schema Introspection
+ * - {@link describe}: Describe a coder tree as a serializable schema
+ * - {@link toJsonSchema}: Export a schema as JSON Schema for the JSON form of values
+ * - {@link toKaitaiStruct}: Export a schema as a Kaitai Struct `.ksy` document
+ *
  * ### Lazy Construction
  * - {@link lazy}: Defer building a coder until first use, for mutually-recursive coder graphs
  *
@@ -67,26 +103,42 @@
  * - [`bits`](https://jsr.io/@hertzg/binstruct/doc/bits): Bit-level packed field encoding/decoding via {@link bitStruct}
  * - [`buffer`](https://jsr.io/@hertzg/binstruct/doc/buffer): Buffer helpers like {@link autoGrowBuffer}
  * - [`bytes`](https://jsr.io/@hertzg/binstruct/doc/bytes): Raw byte slice coders via {@link bytes}
+ * - [`compile`](https://jsr.io/@hertzg/binstruct/doc/compile): Straight-line struct encode and decode via {@link compile}
+ * - [`computed`](https://jsr.io/@hertzg/binstruct/doc/computed): Checksums and lengths derived from sibling fields ({@link computed}, {@link checksum})
+ * - [`errors`](https://jsr.io/@hertzg/binstruct/doc/errors): Located decode/encode errors ({@link BinstructDecodeError}, {@link BinstructEncodeError})
  * - [`helpers`](https://jsr.io/@hertzg/binstruct/doc/helpers): High-level {@link encode} / {@link decode}
+ * - [`layout`](https://jsr.io/@hertzg/binstruct/doc/layout): Alignment, padding, magic bytes and offsets ({@link align}, {@link padding}, {@link magic}, {@link at})
  * - [`lazy`](https://jsr.io/@hertzg/binstruct/doc/lazy): Deferred coder construction via {@link lazy}
  * - [`numeric`](https://jsr.io/@hertzg/binstruct/doc/numeric): Numeric coder factories such as {@link u32le}
+ * - [`optional`](https://jsr.io/@hertzg/binstruct/doc/optional): Conditionally present fields ({@link optional}, {@link optionalTagged})
  * - [`ref`](https://jsr.io/@hertzg/binstruct/doc/ref): Reference primitives ({@link ref}, {@link computedRef}, {@link isRef})
- * - [`refine`](https://jsr.io/@hertzg/binstruct/doc/refine): Refinement utilities ({@link refine}, {@link refineSwitch})
+ * - [`refine`](https://jsr.io/@hertzg/binstruct/doc/refine): Refinement utilities ({@link refine}, {@link refineSwitch}, {@link enumOf}, {@link flagsOf})
+ * - [`schema`](https://jsr.io/@hertzg/binstruct/doc/schema): Schema introspection and export ({@link describe}, {@link toJsonSchema}, {@link toKaitaiStruct})
+ * - [`stream`](https://jsr.io/@hertzg/binstruct/doc/stream): Web Streams adapters ({@link createDecodeStream}, {@link createEncodeStream})
  * - [`string`](https://jsr.io/@hertzg/binstruct/doc/string): String coder constructors from {@link string}
  * - [`struct`](https://jsr.io/@hertzg/binstruct/doc/struct): Struct composition helpers from {@link struct}
+ * - [`testing`](https://jsr.io/@hertzg/binstruct/doc/testing): Seeded value generators, round-trip assertions and decode fuzzing for tests (`arbitrary`, `assertRoundTrip`, `assertDecodeFuzz`), imported from `@hertzg/binstruct/testing` only
+ * - [`trace`](https://jsr.io/@hertzg/binstruct/doc/trace): Decode tracing via {@link traceDecode}
+ * - [`view`](https://jsr.io/@hertzg/binstruct/doc/view): Lazy view decoding via {@link decodeView}
  *
  * ### Numeric Coders
  *
  * **Unsigned Integers:**
  * - {@link u8}, {@link u8le}, {@link u8be}: 8-bit unsigned integer
  * - {@link u16}, {@link u16le}, {@link u16be}: 16-bit unsigned integer
+ * - {@link u24}, {@link u24le}, {@link u24be}: 24-bit unsigned integer
  * - {@link u32}, {@link u32le}, {@link u32be}: 32-bit unsigned integer
+ * - {@link u40}, {@link u40le}, {@link u40be}: 40-bit unsigned integer
+ * - {@link u48}, {@link u48le}, {@link u48be}: 48-bit unsigned integer
+ * - {@link u56}, {@link u56le}, {@link u56be}: 56-bit unsigned integer (bigint)
  * - {@link u64}, {@link u64le}, {@link u64be}: 64-bit unsigned integer (bigint)
  *
  * **Signed Integers:**
  * - {@link s8}, {@link s8le}, {@link s8be}: 8-bit signed integer
  * - {@link s16}, {@link s16le}, {@link s16be}: 16-bit signed integer
+ * - {@link s24}, {@link s24le}, {@link s24be}: 24-bit signed integer
  * - {@link s32}, {@link s32le}, {@link s32be}: 32-bit signed integer
+ * - {@link s48}, {@link s48le}, {@link s48be}: 48-bit signed integer
  * - {@link s64}, {@link s64le}, {@link s64be}: 64-bit signed integer (bigint)
  *
  * **Floating Point:**
@@ -94,6 +146,16 @@
  * - {@link f32}, {@link f32le}, {@link f32be}: 32-bit floating point number
  * - {@link f64}, {@link f64le}, {@link f64be}: 64-bit floating point number
  *
+ * **Variable-Length Integers:**
+ * - {@link varuint32}, {@link varuint64}: unsigned LEB128 (Protobuf `uint32`/`uint64`)
+ * - {@link varint32}, {@link varint64}: signed LEB128
+ * - {@link zigzag32}, {@link zigzag64}: ZigZag varints (Protobuf `sint32`/`sint64`)
+ * - {@link quicVarint32}, {@link quicVarint62}: QUIC variable-length integers (RFC 9000)
+ *
+ * **Decimal Numbers:**
+ * - {@link bcd}: packed binary-coded decimal, two digits per byte
+ * - {@link octal}: ASCII octal digits in a fixed-width field, as in tar headers
+ *
  * ## Key Features
  *
  * - **Type Safety**: Full TypeScript support with proper type inference
@@ -386,6 +448,7 @@
  */
 
 export * from "./core.ts";
+export * from "./errors.ts";
 export * from "./ref/ref.ts";
 export * from "./length.ts";
 export * from "./array/array.ts";
@@ -394,7 +457,15 @@ export * from "./string/string.ts";
 export * from "./struct/struct.ts";
 export * from "./bytes/bytes.ts";
 export * from "./bits/bit-struct.ts";
+export * from "./layout/mod.ts";
+export * from "./computed/computed.ts";
+export * from "./optional/optional.ts";
 export * from "./refine/refine.ts";
 export * from "./helpers.ts";
+export * from "./stream.ts";
+export * from "./trace.ts";
+export * from "./view.ts";
+export * from "./compile/compile.ts";
+export * from "./schema/mod.ts";
 export * from "./buffer.ts";
 export * from "./lazy/lazy.ts";
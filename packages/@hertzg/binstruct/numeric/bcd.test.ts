@@ -0,0 +1,80 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { bcd } from "./bcd.ts";
+
+// Each entry contains: [byteLength, value, expected_bytes_be, description]
+// deno-fmt-ignore
+const TRUTH_TABLE = [
+  [1, 0, [0x00], "zero"],
+  [1, 7, [0x07], "one digit"],
+  [1, 99, [0x99], "one byte max"],
+  [2, 1234, [0x12, 0x34], "two bytes"],
+  [3, 20260, [0x02, 0x02, 0x60], "leading zero digits"],
+  [7, 99999999999999, [0x99, 0x99, 0x99, 0x99, 0x99, 0x99, 0x99], "seven bytes max"],
+] as const;
+
+Deno.test("bcd:", async (t) => {
+  for (const [byteLength, value, bytesBe, description] of TRUTH_TABLE) {
+    await t.step(`big-endian: ${description}`, () => {
+      const coder = bcd(byteLength);
+      const buffer = new Uint8Array(byteLength);
+
+      assertEquals(coder.encode(value, buffer), byteLength);
+      assertEquals([...buffer], [...bytesBe]);
+      assertEquals(coder.decode(buffer), [value, byteLength]);
+    });
+
+    await t.step(`little-endian: ${description}`, () => {
+      const coder = bcd(byteLength, "le");
+      const buffer = new Uint8Array(byteLength);
+
+      assertEquals(coder.encode(value, buffer), byteLength);
+      assertEquals([...buffer], [...bytesBe].reverse());
+      assertEquals(coder.decode(buffer), [value, byteLength]);
+    });
+  }
+});
+
+Deno.test("bcd - rejects nibbles that are not digits", () => {
+  assertThrows(
+    () => bcd(2).decode(new Uint8Array([0x12, 0x3f])),
+    Error,
+    "Invalid BCD byte: 0x3f at index 1. Both nibbles must be 0-9.",
+  );
+  assertThrows(
+    () => bcd(1).decode(new Uint8Array([0xa0])),
+    Error,
+    "Invalid BCD byte: 0xa0 at index 0.",
+  );
+});
+
+Deno.test("bcd - rejects values that do not fit", () => {
+  const buffer = new Uint8Array(2);
+
+  for (const value of [10000, -1, 1.5, NaN]) {
+    assertThrows(
+      () => bcd(2).encode(value, buffer),
+      Error,
+      `Invalid BCD value: ${value}. Must be an integer 0-9999.`,
+    );
+  }
+});
+
+Deno.test("bcd - checks its length and the buffer size", () => {
+  for (const length of [0, 8, 1.5]) {
+    assertThrows(
+      () => bcd(length),
+      Error,
+      `Invalid BCD length: ${length}. Must be an integer 1-7.`,
+    );
+  }
+  assertThrows(
+    () => bcd(2).decode(new Uint8Array(1)),
+    RangeError,
+    "Need 2 bytes, got 1",
+  );
+  assertThrows(
+    () => bcd(2).encode(12, new Uint8Array(1)),
+    RangeError,
+    "Need 2 bytes, got 1",
+  );
+});
@@ -0,0 +1,128 @@
+/**
+ * Packed binary-coded decimal (BCD) numbers, two decimal digits per byte.
+ *
+ * Packed BCD stores each decimal digit in a nibble, the more significant
+ * digit in the high nibble, so `0x12 0x34` is the number 1234. Real-time
+ * clocks, smart cards, telephony (TBCD aside) and many meters use it.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bcd } from "@hertzg/binstruct/numeric";
+ * import { struct } from "@hertzg/binstruct/struct";
+ *
+ * // A real-time clock's time registers
+ * const time = struct({ hours: bcd(1), minutes: bcd(1), seconds: bcd(1) });
+ * const [decoded] = time.decode(new Uint8Array([0x23, 0x59, 0x07]));
+ *
+ * assertEquals(decoded, { hours: 23, minutes: 59, seconds: 7 });
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, kCoderKind } from "../core.ts";
+import { refSetValue } from "../ref/ref.ts";
+import type { Endianness } from "./numeric.ts";
+
+const kKindBcd = Symbol("bcd");
+
+/**
+ * Creates a coder for a packed BCD number of `byteLength` bytes.
+ *
+ * Each byte holds two decimal digits, high nibble first. The endianness
+ * decides which byte holds the most significant pair of digits: the first
+ * for `"be"`, the last for `"le"`. Up to 7 bytes (14 digits) are supported,
+ * so that every value fits in a number.
+ *
+ * @param byteLength - The number of bytes, 1-7
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for the number
+ * @throws {Error} If `byteLength` is not an integer 1-7
+ * @throws {Error} When decoding a nibble that is not a decimal digit
+ * @throws {Error} When encoding a value that is not an integer with at most `2 * byteLength` digits
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { bcd } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = bcd(3, "le");
+ * const buffer = new Uint8Array(3);
+ *
+ * coder.encode(123456, buffer);
+ *
+ * assertEquals([...buffer], [0x56, 0x34, 0x12]);
+ * assertEquals(coder.decode(buffer)[0], 123456);
+ * assertThrows(() => coder.decode(new Uint8Array([0x5a, 0, 0])), Error, "Invalid BCD byte");
+ * ```
+ */
+export function bcd(
+  byteLength: number,
+  endianness: Endianness = "be",
+): Coder<number> {
+  if (!Number.isInteger(byteLength) || byteLength < 1 || byteLength > 7) {
+    throw new Error(
+      `Invalid BCD length: ${byteLength}. Must be an integer 1-7.`,
+    );
+  }
+  const digits = byteLength * 2;
+  const max = 10 ** digits - 1;
+  // Index of the byte holding the given pair of digits, most significant first
+  const place = (pair: number) =>
+    endianness === "be" ? pair : byteLength - 1 - pair;
+
+  let self: Coder<number>;
+  return self = {
+    [kCoderKind]: kKindBcd,
+    encode: (value, target, ctx) => {
+      refSetValue(ctx, self, value);
+
+      if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new Error(
+          `Invalid BCD value: ${value}. Must be an integer 0-${max}.`,
+        );
+      }
+      if (target.length < byteLength) {
+        throw new RangeError(`Need ${byteLength} bytes, got ${target.length}`);
+      }
+
+      const text = String(value).padStart(digits, "0");
+      for (let pair = 0; pair < byteLength; pair++) {
+        target[place(pair)] = (Number(text[pair * 2]) << 4) |
+          Number(text[pair * 2 + 1]);
+      }
+      return byteLength;
+    },
+    decode: (encoded, ctx) => {
+      if (encoded.length < byteLength) {
+        throw new RangeError(
+          `Need ${byteLength} bytes, got ${encoded.length}`,
+        );
+      }
+
+      let value = 0;
+      for (let pair = 0; pair < byteLength; pair++) {
+        const index = place(pair);
+        const byte = encoded[index];
+        if ((byte >> 4) > 9 || (byte & 0xf) > 9) {
+          throw new Error(
+            `Invalid BCD byte: 0x${
+              byte.toString(16).padStart(2, "0")
+            } at index ${index}. Both nibbles must be 0-9.`,
+          );
+        }
+        value = value * 100 + (byte >> 4) * 10 + (byte & 0xf);
+      }
+
+      refSetValue(ctx, self, value);
+
+      return [value, byteLength];
+    },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return byteLength;
+    },
+    describe: () => ({ type: "bcd", digits, endian: endianness }),
+  };
+}
@@ -0,0 +1,147 @@
+import { type Coder, kCoderKind } from "../core.ts";
+import { refSetValue } from "../ref/ref.ts";
+import type { Endianness } from "./numeric.ts";
+
+// Where the digit at the given power of 256 sits among an integer's bytes
+function bytePlace(
+  bytes: number,
+  endianness: Endianness,
+): (digit: number) => number {
+  return endianness === "le" ? (digit) => digit : (digit) => bytes - 1 - digit;
+}
+
+/**
+ * Creates a coder for an integer of a byte width DataView has no methods for,
+ * such as 24 or 48 bits, assembled one byte at a time.
+ *
+ * Like the DataView-based coders, values outside the range wrap around to
+ * the width, and fractions are truncated.
+ *
+ * @param bytes - The width in bytes, 1-6 for numbers
+ * @param signed - Whether the integer is two's-complement signed
+ * @param endianness - The byte order
+ * @param kind - The coder kind symbol
+ * @returns A Coder for the integer
+ */
+export function bytewiseType(
+  bytes: number,
+  signed: boolean,
+  endianness: Endianness,
+  kind: symbol,
+): Coder<number> {
+  const range = 2 ** (bytes * 8);
+  const place = bytePlace(bytes, endianness);
+
+  let self: Coder<number>;
+  return self = {
+    [kCoderKind]: kind,
+    encode: (value, target, ctx) => {
+      refSetValue(ctx, self, value);
+
+      if (target.length < bytes) {
+        throw new RangeError(`Need ${bytes} bytes, got ${target.length}`);
+      }
+
+      const truncated = Math.trunc(value) || 0;
+      let rest = ((truncated % range) + range) % range;
+      for (let digit = 0; digit < bytes; digit++) {
+        target[place(digit)] = rest % 256;
+        rest = Math.floor(rest / 256);
+      }
+      return bytes;
+    },
+    decode: (encoded, ctx) => {
+      if (encoded.length < bytes) {
+        throw new RangeError(`Need ${bytes} bytes, got ${encoded.length}`);
+      }
+
+      let value = 0;
+      for (let digit = 0; digit < bytes; digit++) {
+        value += encoded[place(digit)] * 256 ** digit;
+      }
+      if (signed && value >= range / 2) {
+        value -= range;
+      }
+
+      refSetValue(ctx, self, value);
+
+      return [value, bytes];
+    },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return bytes;
+    },
+    describe: () => ({
+      type: signed ? "int" : "uint",
+      bits: bytes * 8,
+      endian: endianness,
+    }),
+  };
+}
+
+/**
+ * Creates a coder for an integer of a byte width DataView has no methods for
+ * and too wide for a number, such as 56 bits, as a bigint.
+ *
+ * Like the DataView-based coders, values outside the range wrap around to
+ * the width.
+ *
+ * @param bytes - The width in bytes
+ * @param signed - Whether the integer is two's-complement signed
+ * @param endianness - The byte order
+ * @param kind - The coder kind symbol
+ * @returns A Coder for the integer
+ */
+export function bytewiseBigType(
+  bytes: number,
+  signed: boolean,
+  endianness: Endianness,
+  kind: symbol,
+): Coder<bigint> {
+  const bits = bytes * 8;
+  const place = bytePlace(bytes, endianness);
+
+  let self: Coder<bigint>;
+  return self = {
+    [kCoderKind]: kind,
+    encode: (value, target, ctx) => {
+      refSetValue(ctx, self, value);
+
+      if (target.length < bytes) {
+        throw new RangeError(`Need ${bytes} bytes, got ${target.length}`);
+      }
+
+      let rest = BigInt.asUintN(bits, value);
+      for (let digit = 0; digit < bytes; digit++) {
+        target[place(digit)] = Number(rest & 0xffn);
+        rest >>= 8n;
+      }
+      return bytes;
+    },
+    decode: (encoded, ctx) => {
+      if (encoded.length < bytes) {
+        throw new RangeError(`Need ${bytes} bytes, got ${encoded.length}`);
+      }
+
+      let unsigned = 0n;
+      for (let digit = bytes - 1; digit >= 0; digit--) {
+        unsigned = (unsigned << 8n) |
+          BigInt(encoded[place(digit)]);
+      }
+      const value = signed ? BigInt.asIntN(bits, unsigned) : unsigned;
+
+      refSetValue(ctx, self, value);
+
+      return [value, bytes];
+    },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return bytes;
+    },
+    describe: () => ({
+      type: signed ? "int" : "uint",
+      bits,
+      endian: endianness,
+    }),
+  };
+}
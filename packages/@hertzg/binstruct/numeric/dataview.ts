@@ -102,7 +102,7 @@ export function dataViewType<TDecoded extends number | bigint>(
     },
     decode: (encoded, ctx) => {
       if (encoded.length < bytes) {
-        throw new Error(`Need ${bytes} bytes, got ${encoded.length}`);
+        throw new RangeError(`Need ${bytes} bytes, got ${encoded.length}`);
       }
 
       const dataView = new DataView(
@@ -116,5 +116,18 @@ export function dataViewType<TDecoded extends number | bigint>(
 
       return [value, bytes];
     },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return bytes;
+    },
+    describe: () => ({
+      type: type.startsWith("Float")
+        ? "float"
+        : type.includes("Uint")
+        ? "uint"
+        : "int",
+      bits: bytes * 8,
+      endian: endianness,
+    }),
   };
 }
@@ -7,6 +7,9 @@ import {
   u16be, u16le, s16be, s16le,
   u32be, u32le, s32be, s32le,
   s64be, s64le, u64be, u64le,
+  u24be, u24le, s24be, s24le,
+  u40be, u40le, u48be, u48le, s48be, s48le,
+  u56be, u56le,
 } from "./numeric.ts";
 
 // Truth table for testing numeric types
@@ -34,6 +37,16 @@ const TRUTH_TABLE = [
   ["s16", 0, [0x00, 0x00], "signed 16-bit zero"],
   ["s16", -1, [0xFF, 0xFF], "signed 16-bit negative one"],
 
+  // 24-bit integers
+  ["u24", 16777215, [0xFF, 0xFF, 0xFF], "unsigned 24-bit max"],
+  ["u24", 0, [0x00, 0x00, 0x00], "unsigned 24-bit zero"],
+  ["u24", 0x123456, [0x12, 0x34, 0x56], "unsigned 24-bit 0x123456"],
+
+  ["s24", 8388607, [0x7F, 0xFF, 0xFF], "signed 24-bit max positive"],
+  ["s24", -8388608, [0x80, 0x00, 0x00], "signed 24-bit min negative"],
+  ["s24", 0, [0x00, 0x00, 0x00], "signed 24-bit zero"],
+  ["s24", -1, [0xFF, 0xFF, 0xFF], "signed 24-bit negative one"],
+
   // 16-bit floats
   ["f16", 1.0, [0x3C, 0x00], "float16 one"],
   ["f16", 0.0, [0x00, 0x00], "float16 zero"],
@@ -57,6 +70,23 @@ const TRUTH_TABLE = [
   ["f32", -1.0, [0xBF, 0x80, 0x00, 0x00], "float32 negative one"],
   ["f32", 3.141590118408203, [0x40, 0x49, 0x0F, 0xD0], "float32 pi"],
 
+  // 40 and 48-bit integers
+  ["u40", 1099511627775, [0xFF, 0xFF, 0xFF, 0xFF, 0xFF], "unsigned 40-bit max"],
+  ["u40", 0x123456789A, [0x12, 0x34, 0x56, 0x78, 0x9A], "unsigned 40-bit 0x123456789a"],
+
+  ["u48", 281474976710655, [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF], "unsigned 48-bit max"],
+  ["u48", 0x0A0B0C0D0E0F, [0x0A, 0x0B, 0x0C, 0x0D, 0x0E, 0x0F], "unsigned 48-bit MAC"],
+  ["u48", 0, [0x00, 0x00, 0x00, 0x00, 0x00, 0x00], "unsigned 48-bit zero"],
+
+  ["s48", 140737488355327, [0x7F, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF], "signed 48-bit max positive"],
+  ["s48", -140737488355328, [0x80, 0x00, 0x00, 0x00, 0x00, 0x00], "signed 48-bit min negative"],
+  ["s48", -1, [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF], "signed 48-bit negative one"],
+
+  // 56-bit integers
+  ["u56", 72057594037927935n, [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF], "unsigned 56-bit max"],
+  ["u56", 0x0123456789ABCDn, [0x01, 0x23, 0x45, 0x67, 0x89, 0xAB, 0xCD], "unsigned 56-bit 0x0123456789abcd"],
+  ["u56", 0n, [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00], "unsigned 56-bit zero"],
+
   // 64-bit floats
   ["f64", 1.0, [0x3F, 0xF0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00], "float64 one"],
   ["f64", 0.0, [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00], "float64 zero"],
@@ -86,12 +116,24 @@ testNumericType("s16", s16le, s16be, 2);
 
 testNumericType("f16", f16le, f16be, 2);
 
+testNumericType("u24", u24le, u24be, 3);
+
+testNumericType("s24", s24le, s24be, 3);
+
 testNumericType("u32", u32le, u32be, 4);
 
 testNumericType("s32", s32le, s32be, 4);
 
 testNumericType("f32", f32le, f32be, 4);
 
+testNumericType("u40", u40le, u40be, 5);
+
+testNumericType("u48", u48le, u48be, 6);
+
+testNumericType("s48", s48le, s48be, 6);
+
+testNumericType("u56", u56le, u56be, 7);
+
 testNumericType("u64", u64le, u64be, 8);
 testNumericType("s64", s64le, s64be, 8);
 testNumericType("f64", f64le, f64be, 8);
@@ -283,6 +325,19 @@ Deno.test("edge cases", async (t) => {
     assertEquals(buffer2[0], 127); // Should wrap around
   });
 
+  await t.step("odd widths wrap like the DataView widths", () => {
+    const buffer = new Uint8Array(3);
+    u24be().encode(0x1000001, buffer);
+    assertEquals([...buffer], [0x00, 0x00, 0x01]);
+
+    s24be().encode(-8388609, buffer);
+    assertEquals([...buffer], [0x7F, 0xFF, 0xFF]);
+
+    const wide = new Uint8Array(7);
+    u56be().encode(-1n, wide);
+    assertEquals([...wide], [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+  });
+
   await t.step("factory functions", () => {
     const beFn = u8("be");
     const leFn = u8("le");
@@ -4,8 +4,11 @@
  * This module provides comprehensive support for encoding and decoding numeric values
  * in binary format with configurable endianness. It includes:
  *
- * - **Integer Types**: 8, 16, 32, and 64-bit signed and unsigned integers
+ * - **Integer Types**: 8, 16, 32, and 64-bit signed and unsigned integers,
+ *   plus the 24, 40, 48 and 56-bit widths DataView lacks
+ * - **Decimal Types**: Packed BCD and ASCII octal numbers
  * - **Floating Point**: 16, 32, and 64-bit floating point numbers
+ * - **Variable-Length Integers**: LEB128, ZigZag and QUIC varints
  * - **Endianness Support**: Both big-endian (network byte order) and little-endian
  * - **Type Safety**: Full TypeScript support with proper type inference
  * - **Performance**: Optimized using native DataView methods
@@ -99,3 +102,6 @@ export type Endianness = "be" | "le";
 export * from "./unsigned.ts";
 export * from "./signed.ts";
 export * from "./floats.ts";
+export * from "./varint.ts";
+export * from "./bcd.ts";
+export * from "./octal.ts";
@@ -0,0 +1,82 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { octal } from "./octal.ts";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+Deno.test("octal - writes zero-padded digits and a terminator", () => {
+  const buffer = new Uint8Array(12);
+
+  assertEquals(octal(12).encode(1_700_000_000, buffer), 12);
+  assertEquals(new TextDecoder().decode(buffer), "14524770400\0");
+
+  octal(8, { terminator: "\0 " }).encode(0o1234, buffer);
+  assertEquals(new TextDecoder().decode(buffer.subarray(0, 8)), "001234\0 ");
+
+  octal(4, { terminator: "" }).encode(0o7777, buffer);
+  assertEquals(new TextDecoder().decode(buffer.subarray(0, 4)), "7777");
+});
+
+Deno.test("octal - reads the digits the way tar readers do", () => {
+  // deno-fmt-ignore
+  const fields = [
+    ["0000644\0", 0o644],
+    ["   644 \0", 0o644],
+    ["001234\0 ", 0o1234],
+    ["0644\0xyz", 0o644],
+    ["        ", 0],
+    ["\0\0\0\0\0\0\0\0", 0],
+    ["77777777", 0o77777777],
+  ] as const;
+
+  for (const [field, value] of fields) {
+    assertEquals(octal(8).decode(text(field)), [value, 8]);
+  }
+});
+
+Deno.test("octal - rejects fields that are not octal", () => {
+  assertThrows(
+    () => octal(8).decode(text("0000648\0")),
+    Error,
+    'Invalid octal field: "0000648". Must be octal digits.',
+  );
+  assertThrows(
+    () => octal(8).decode(text("-000001\0")),
+    Error,
+    'Invalid octal field: "-000001".',
+  );
+});
+
+Deno.test("octal - rejects values that do not fit", () => {
+  const buffer = new Uint8Array(4);
+
+  for (const value of [0o1000, -1, 0.5]) {
+    assertThrows(
+      () => octal(4).encode(value, buffer),
+      Error,
+      `Invalid octal value: ${value}. Must be an integer 0-511.`,
+    );
+  }
+});
+
+Deno.test("octal - checks its options and the buffer size", () => {
+  assertThrows(
+    () => octal(8, { terminator: "\n" }),
+    Error,
+    'Invalid terminator: "\\n". Must be NULs and spaces.',
+  );
+  assertThrows(
+    () => octal(2, { terminator: "\0 " }),
+    Error,
+    "Invalid octal length: 2. Must fit a digit and the terminator.",
+  );
+  assertThrows(
+    () => octal(8).decode(new Uint8Array(7)),
+    RangeError,
+    "Need 8 bytes, got 7",
+  );
+  assertThrows(
+    () => octal(8).encode(1, new Uint8Array(7)),
+    RangeError,
+    "Need 8 bytes, got 7",
+  );
+});
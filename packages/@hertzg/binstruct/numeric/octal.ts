@@ -0,0 +1,139 @@
+/**
+ * Numbers written as ASCII octal digits in a fixed-width field, as in the
+ * numeric fields of a tar header.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { octal } from "@hertzg/binstruct/numeric";
+ *
+ * const mode = octal(8);
+ * const buffer = new Uint8Array(8);
+ *
+ * mode.encode(0o644, buffer);
+ *
+ * assertEquals(new TextDecoder().decode(buffer), "0000644\0");
+ * assertEquals(mode.decode(buffer)[0], 0o644);
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, kCoderKind } from "../core.ts";
+import { refSetValue } from "../ref/ref.ts";
+
+const kKindOctal = Symbol("octal");
+
+/**
+ * Options for {@linkcode octal}.
+ */
+export interface OctalOptions {
+  /**
+   * The NUL and space characters written after the digits, `"\0"` by
+   * default. The digits fill the rest of the field, zero-padded.
+   */
+  readonly terminator?: string;
+}
+
+/**
+ * Creates a coder for a number written as ASCII octal digits in a field of
+ * `byteLength` bytes.
+ *
+ * Encoding writes the digits zero-padded to fill the field before the
+ * terminator. Decoding is lenient in the way tar readers are: the digits end
+ * at the first NUL, spaces around them are ignored, and a field with no
+ * digits at all, such as one of only spaces, decodes to 0.
+ *
+ * @param byteLength - The size of the field in bytes, terminator included
+ * @param options - The terminator to write after the digits
+ * @returns A Coder<number> for the number
+ * @throws {Error} If the terminator holds anything but NULs and spaces, or leaves no room for a digit
+ * @throws {Error} When decoding a field with characters that are not octal digits
+ * @throws {Error} When encoding a value that is not an integer or does not fit the digits
+ *
+ * @example Space-terminated fields
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { octal } from "@hertzg/binstruct/numeric";
+ *
+ * const field = octal(4, { terminator: " " });
+ * const buffer = new Uint8Array(4);
+ *
+ * field.encode(0o17, buffer);
+ *
+ * assertEquals(new TextDecoder().decode(buffer), "017 ");
+ * assertEquals(field.decode(new TextEncoder().encode("  17"))[0], 0o17);
+ * assertThrows(() => field.encode(0o7777, buffer), Error, "Invalid octal value");
+ * ```
+ */
+export function octal(
+  byteLength: number,
+  options: OctalOptions = {},
+): Coder<number> {
+  const { terminator = "\0" } = options;
+  if (!/^[\0 ]*$/.test(terminator)) {
+    throw new Error(
+      `Invalid terminator: ${
+        JSON.stringify(terminator)
+      }. Must be NULs and spaces.`,
+    );
+  }
+  const digits = byteLength - terminator.length;
+  if (!Number.isInteger(byteLength) || digits < 1) {
+    throw new Error(
+      `Invalid octal length: ${byteLength}. Must fit a digit and the terminator.`,
+    );
+  }
+  const max = Math.min(8 ** digits - 1, Number.MAX_SAFE_INTEGER);
+
+  let self: Coder<number>;
+  return self = {
+    [kCoderKind]: kKindOctal,
+    encode: (value, target, ctx) => {
+      refSetValue(ctx, self, value);
+
+      if (!Number.isInteger(value) || value < 0 || value > max) {
+        throw new Error(
+          `Invalid octal value: ${value}. Must be an integer 0-${max}.`,
+        );
+      }
+      if (target.length < byteLength) {
+        throw new RangeError(`Need ${byteLength} bytes, got ${target.length}`);
+      }
+
+      const text = value.toString(8).padStart(digits, "0") + terminator;
+      for (let index = 0; index < byteLength; index++) {
+        target[index] = text.charCodeAt(index);
+      }
+      return byteLength;
+    },
+    decode: (encoded, ctx) => {
+      if (encoded.length < byteLength) {
+        throw new RangeError(
+          `Need ${byteLength} bytes, got ${encoded.length}`,
+        );
+      }
+
+      const field = encoded.subarray(0, byteLength);
+      const nul = field.indexOf(0);
+      const text = String.fromCharCode(
+        ...(nul === -1 ? field : field.subarray(0, nul)),
+      ).trim();
+      if (!/^[0-7]*$/.test(text)) {
+        throw new Error(
+          `Invalid octal field: ${JSON.stringify(text)}. Must be octal digits.`,
+        );
+      }
+      const value = text.length === 0 ? 0 : parseInt(text, 8);
+
+      refSetValue(ctx, self, value);
+
+      return [value, byteLength];
+    },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return byteLength;
+    },
+    describe: () => ({ type: "octal", digits, terminator }),
+  };
+}
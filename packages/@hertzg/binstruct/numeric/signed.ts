@@ -8,6 +8,7 @@
  * - **16-bit signed integers**: Range -32,768 to 32,767
  * - **32-bit signed integers**: Range -2,147,483,648 to 2,147,483,647
  * - **64-bit signed integers**: Range -9,223,372,036,854,775,808 to 9,223,372,036,854,775,807 (as bigint)
+ * - **Odd widths**: 24 and 48-bit integers as numbers
  * - **Endianness Support**: Both big-endian (network byte order) and little-endian
  * - **Type Safety**: Full TypeScript support with proper type inference
  * - **Performance**: Optimized using native DataView methods
@@ -87,6 +88,7 @@
  */
 
 import type { Coder } from "../core.ts";
+import { bytewiseType } from "./bytewise.ts";
 import { dataViewType } from "./dataview.ts";
 import type { Endianness } from "./numeric.ts";
 
@@ -98,6 +100,10 @@ const kKindS32BE = Symbol("s32be");
 const kKindS32LE = Symbol("s32le");
 const kKindS64BE = Symbol("s64be");
 const kKindS64LE = Symbol("s64le");
+const kKindS24BE = Symbol("s24be");
+const kKindS24LE = Symbol("s24le");
+const kKindS48BE = Symbol("s48be");
+const kKindS48LE = Symbol("s48le");
 
 /**
  * Creates a coder for 8-bit signed integers.
@@ -288,6 +294,74 @@ export function s64(endianness: Endianness = "be"): Coder<bigint> {
   );
 }
 
+/**
+ * Creates a coder for 24-bit signed integers.
+ *
+ * This function creates a coder that can encode/decode 24-bit signed integers
+ * (range -8,388,608 to 8,388,607) in 3 bytes, in two's complement. The endianness parameter
+ * determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for 24-bit signed integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { s24 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(3);
+ * const bytesWritten = s24("le").encode(-1000, buffer);
+ * const [decoded, bytesRead] = s24("le").decode(buffer);
+ *
+ * assertEquals(decoded, -1000);
+ * assertEquals(buffer[2], 0xff);
+ * assertEquals(bytesWritten, 3);
+ * assertEquals(bytesRead, 3);
+ * ```
+ */
+export function s24(endianness: Endianness = "be"): Coder<number> {
+  return bytewiseType(
+    3,
+    true,
+    endianness,
+    endianness === "be" ? kKindS24BE : kKindS24LE,
+  );
+}
+
+/**
+ * Creates a coder for 48-bit signed integers.
+ *
+ * This function creates a coder that can encode/decode 48-bit signed integers
+ * (range -140,737,488,355,328 to 140,737,488,355,327) in 6 bytes, in two's complement. The endianness parameter
+ * determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for 48-bit signed integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { s48 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(6);
+ * const bytesWritten = s48("le").encode(-1000, buffer);
+ * const [decoded, bytesRead] = s48("le").decode(buffer);
+ *
+ * assertEquals(decoded, -1000);
+ * assertEquals(buffer[5], 0xff);
+ * assertEquals(bytesWritten, 6);
+ * assertEquals(bytesRead, 6);
+ * ```
+ */
+export function s48(endianness: Endianness = "be"): Coder<number> {
+  return bytewiseType(
+    6,
+    true,
+    endianness,
+    endianness === "be" ? kKindS48BE : kKindS48LE,
+  );
+}
+
 /**
  * Convenience function for 8-bit signed integer with big-endian byte order.
  * @see {@link s8} for implementation details and examples.
@@ -351,3 +425,35 @@ export function s64be(): Coder<bigint> {
 export function s64le(): Coder<bigint> {
   return s64("le");
 }
+
+/**
+ * Convenience function for 24-bit signed integer with big-endian byte order.
+ * @see {@link s24} for implementation details and examples.
+ */
+export function s24be(): Coder<number> {
+  return s24("be");
+}
+
+/**
+ * Convenience function for 24-bit signed integer with little-endian byte order.
+ * @see {@link s24} for implementation details and examples.
+ */
+export function s24le(): Coder<number> {
+  return s24("le");
+}
+
+/**
+ * Convenience function for 48-bit signed integer with big-endian byte order.
+ * @see {@link s48} for implementation details and examples.
+ */
+export function s48be(): Coder<number> {
+  return s48("be");
+}
+
+/**
+ * Convenience function for 48-bit signed integer with little-endian byte order.
+ * @see {@link s48} for implementation details and examples.
+ */
+export function s48le(): Coder<number> {
+  return s48("le");
+}
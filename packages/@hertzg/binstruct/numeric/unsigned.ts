@@ -8,6 +8,7 @@
  * - **16-bit unsigned integers**: Range 0-65,535
  * - **32-bit unsigned integers**: Range 0-4,294,967,295
  * - **64-bit unsigned integers**: Range 0-18,446,744,073,709,551,615 (as bigint)
+ * - **Odd widths**: 24, 40 and 48-bit integers as numbers, 56-bit as bigint
  * - **Endianness Support**: Both big-endian (network byte order) and little-endian
  * - **Type Safety**: Full TypeScript support with proper type inference
  * - **Performance**: Optimized using native DataView methods
@@ -90,6 +91,7 @@
  */
 
 import type { Coder } from "../core.ts";
+import { bytewiseBigType, bytewiseType } from "./bytewise.ts";
 import { dataViewType } from "./dataview.ts";
 import type { Endianness } from "./numeric.ts";
 
@@ -101,6 +103,14 @@ const kKindU32BE = Symbol("u32be");
 const kKindU32LE = Symbol("u32le");
 const kKindU64BE = Symbol("u64be");
 const kKindU64LE = Symbol("u64le");
+const kKindU24BE = Symbol("u24be");
+const kKindU24LE = Symbol("u24le");
+const kKindU40BE = Symbol("u40be");
+const kKindU40LE = Symbol("u40le");
+const kKindU48BE = Symbol("u48be");
+const kKindU48LE = Symbol("u48le");
+const kKindU56BE = Symbol("u56be");
+const kKindU56LE = Symbol("u56le");
 
 /**
  * Creates a coder for 8-bit unsigned integers.
@@ -291,6 +301,134 @@ export function u64(endianness: Endianness = "be"): Coder<bigint> {
   );
 }
 
+/**
+ * Creates a coder for 24-bit unsigned integers.
+ *
+ * This function creates a coder that can encode/decode 24-bit unsigned integers
+ * (range 0-16,777,215) in 3 bytes. The endianness parameter determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for 24-bit unsigned integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { u24 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(3);
+ * const bytesWritten = u24("be").encode(0x123456, buffer);
+ * const [decoded, bytesRead] = u24("le").decode(buffer.reverse());
+ *
+ * assertEquals(decoded, 0x123456);
+ * assertEquals(bytesWritten, 3);
+ * assertEquals(bytesRead, 3);
+ * ```
+ */
+export function u24(endianness: Endianness = "be"): Coder<number> {
+  return bytewiseType(
+    3,
+    false,
+    endianness,
+    endianness === "be" ? kKindU24BE : kKindU24LE,
+  );
+}
+
+/**
+ * Creates a coder for 40-bit unsigned integers.
+ *
+ * This function creates a coder that can encode/decode 40-bit unsigned integers
+ * (range 0-1,099,511,627,775) in 5 bytes. The endianness parameter determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for 40-bit unsigned integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { u40 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(5);
+ * const bytesWritten = u40("be").encode(0x123456789a, buffer);
+ * const [decoded, bytesRead] = u40("le").decode(buffer.reverse());
+ *
+ * assertEquals(decoded, 0x123456789a);
+ * assertEquals(bytesWritten, 5);
+ * assertEquals(bytesRead, 5);
+ * ```
+ */
+export function u40(endianness: Endianness = "be"): Coder<number> {
+  return bytewiseType(
+    5,
+    false,
+    endianness,
+    endianness === "be" ? kKindU40BE : kKindU40LE,
+  );
+}
+
+/**
+ * Creates a coder for 48-bit unsigned integers.
+ *
+ * This function creates a coder that can encode/decode 48-bit unsigned integers
+ * (range 0-281,474,976,710,655) in 6 bytes. The endianness parameter determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<number> for 48-bit unsigned integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { u48 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(6);
+ * const bytesWritten = u48("be").encode(0x123456789abc, buffer);
+ * const [decoded, bytesRead] = u48("le").decode(buffer.reverse());
+ *
+ * assertEquals(decoded, 0x123456789abc);
+ * assertEquals(bytesWritten, 6);
+ * assertEquals(bytesRead, 6);
+ * ```
+ */
+export function u48(endianness: Endianness = "be"): Coder<number> {
+  return bytewiseType(
+    6,
+    false,
+    endianness,
+    endianness === "be" ? kKindU48BE : kKindU48LE,
+  );
+}
+
+/**
+ * Creates a coder for 56-bit unsigned integers.
+ *
+ * This function creates a coder that can encode/decode 56-bit unsigned integers
+ * (range 0-72,057,594,037,927,935) in 7 bytes. Values are bigints, since they do not all fit in a number. The endianness parameter determines the byte order used.
+ *
+ * @param endianness - The byte order to use ("be" for big-endian, "le" for little-endian), defaults to "be"
+ * @returns A Coder<bigint> for 56-bit unsigned integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { u56 } from "@hertzg/binstruct/numeric";
+ *
+ * const buffer = new Uint8Array(7);
+ * const bytesWritten = u56("be").encode(0x123456789abcden, buffer);
+ * const [decoded, bytesRead] = u56("le").decode(buffer.reverse());
+ *
+ * assertEquals(decoded, 0x123456789abcden);
+ * assertEquals(bytesWritten, 7);
+ * assertEquals(bytesRead, 7);
+ * ```
+ */
+export function u56(endianness: Endianness = "be"): Coder<bigint> {
+  return bytewiseBigType(
+    7,
+    false,
+    endianness,
+    endianness === "be" ? kKindU56BE : kKindU56LE,
+  );
+}
+
 /**
  * Convenience function for 8-bit unsigned integer with big-endian byte order.
  * @see {@link u8} for implementation details and examples.
@@ -354,3 +492,67 @@ export function u64be(): Coder<bigint> {
 export function u64le(): Coder<bigint> {
   return u64("le");
 }
+
+/**
+ * Convenience function for 24-bit unsigned integer with big-endian byte order.
+ * @see {@link u24} for implementation details and examples.
+ */
+export function u24be(): Coder<number> {
+  return u24("be");
+}
+
+/**
+ * Convenience function for 24-bit unsigned integer with little-endian byte order.
+ * @see {@link u24} for implementation details and examples.
+ */
+export function u24le(): Coder<number> {
+  return u24("le");
+}
+
+/**
+ * Convenience function for 40-bit unsigned integer with big-endian byte order.
+ * @see {@link u40} for implementation details and examples.
+ */
+export function u40be(): Coder<number> {
+  return u40("be");
+}
+
+/**
+ * Convenience function for 40-bit unsigned integer with little-endian byte order.
+ * @see {@link u40} for implementation details and examples.
+ */
+export function u40le(): Coder<number> {
+  return u40("le");
+}
+
+/**
+ * Convenience function for 48-bit unsigned integer with big-endian byte order.
+ * @see {@link u48} for implementation details and examples.
+ */
+export function u48be(): Coder<number> {
+  return u48("be");
+}
+
+/**
+ * Convenience function for 48-bit unsigned integer with little-endian byte order.
+ * @see {@link u48} for implementation details and examples.
+ */
+export function u48le(): Coder<number> {
+  return u48("le");
+}
+
+/**
+ * Convenience function for 56-bit unsigned integer with big-endian byte order.
+ * @see {@link u56} for implementation details and examples.
+ */
+export function u56be(): Coder<bigint> {
+  return u56("be");
+}
+
+/**
+ * Convenience function for 56-bit unsigned integer with little-endian byte order.
+ * @see {@link u56} for implementation details and examples.
+ */
+export function u56le(): Coder<bigint> {
+  return u56("le");
+}
@@ -0,0 +1,324 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Coder } from "../core.ts";
+import { arrayLP } from "../array/array.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { encode } from "../helpers.ts";
+import { stringLP } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import {
+  quicVarint32,
+  quicVarint62,
+  varint32,
+  varint64,
+  varuint32,
+  varuint64,
+  zigzag32,
+  zigzag64,
+} from "./varint.ts";
+import { u8 } from "./unsigned.ts";
+
+// Each entry contains: [value, expected_bytes, description]
+// deno-fmt-ignore
+const VARUINT32 = [
+  [0, [0x00], "zero"],
+  [1, [0x01], "one"],
+  [127, [0x7f], "largest single byte"],
+  [128, [0x80, 0x01], "smallest two bytes"],
+  [300, [0xac, 0x02], "protobuf 300"],
+  [624485, [0xe5, 0x8e, 0x26], "wikipedia sample"],
+  [0xffffffff, [0xff, 0xff, 0xff, 0xff, 0x0f], "max"],
+] as const;
+
+// deno-fmt-ignore
+const VARUINT64 = [
+  [0n, [0x00], "zero"],
+  [150n, [0x96, 0x01], "protobuf 150"],
+  [0x100000000n, [0x80, 0x80, 0x80, 0x80, 0x10], "2^32"],
+  [0xffffffffffffffffn, [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01], "max"],
+] as const;
+
+// deno-fmt-ignore
+const VARINT32 = [
+  [0, [0x00], "zero"],
+  [-1, [0x7f], "minus one"],
+  [63, [0x3f], "largest positive single byte"],
+  [64, [0xc0, 0x00], "smallest positive two bytes"],
+  [-64, [0x40], "smallest negative single byte"],
+  [-65, [0xbf, 0x7f], "largest negative two bytes"],
+  [-123456, [0xc0, 0xbb, 0x78], "wikipedia sample"],
+  [2147483647, [0xff, 0xff, 0xff, 0xff, 0x07], "max"],
+  [-2147483648, [0x80, 0x80, 0x80, 0x80, 0x78], "min"],
+] as const;
+
+// deno-fmt-ignore
+const VARINT64 = [
+  [0n, [0x00], "zero"],
+  [-1n, [0x7f], "minus one"],
+  [-123456n, [0xc0, 0xbb, 0x78], "wikipedia sample"],
+  [9223372036854775807n, [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00], "max"],
+  [-9223372036854775808n, [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f], "min"],
+] as const;
+
+// deno-fmt-ignore
+const ZIGZAG32 = [
+  [0, [0x00], "zero"],
+  [-1, [0x01], "minus one"],
+  [1, [0x02], "one"],
+  [-2, [0x03], "minus two"],
+  [2147483647, [0xfe, 0xff, 0xff, 0xff, 0x0f], "max"],
+  [-2147483648, [0xff, 0xff, 0xff, 0xff, 0x0f], "min"],
+] as const;
+
+// deno-fmt-ignore
+const ZIGZAG64 = [
+  [0n, [0x00], "zero"],
+  [-1n, [0x01], "minus one"],
+  [63n, [0x7e], "largest positive single byte"],
+  [-64n, [0x7f], "smallest negative single byte"],
+  [-9223372036854775808n, [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01], "min"],
+] as const;
+
+// RFC 9000 Appendix A.1 samples, plus the boundaries of each length class.
+// deno-fmt-ignore
+const QUIC32 = [
+  [37, [0x25], "rfc single byte"],
+  [15293, [0x7b, 0xbd], "rfc two bytes"],
+  [494878333, [0x9d, 0x7f, 0x3e, 0x7d], "rfc four bytes"],
+  [63, [0x3f], "largest single byte"],
+  [64, [0x40, 0x40], "smallest two bytes"],
+  [16383, [0x7f, 0xff], "largest two bytes"],
+  [16384, [0x80, 0x00, 0x40, 0x00], "smallest four bytes"],
+  [0x3fffffff, [0xbf, 0xff, 0xff, 0xff], "largest four bytes"],
+  [0x40000000, [0xc0, 0x00, 0x00, 0x00, 0x40, 0x00, 0x00, 0x00], "smallest eight bytes"],
+  [0xffffffff, [0xc0, 0x00, 0x00, 0x00, 0xff, 0xff, 0xff, 0xff], "max"],
+] as const;
+
+// deno-fmt-ignore
+const QUIC62 = [
+  [37n, [0x25], "rfc single byte"],
+  [15293n, [0x7b, 0xbd], "rfc two bytes"],
+  [494878333n, [0x9d, 0x7f, 0x3e, 0x7d], "rfc four bytes"],
+  [151288809941952652n, [0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c], "rfc eight bytes"],
+  [0x3fffffffffffffffn, [0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], "max"],
+] as const;
+
+testVarintType("varuint32", varuint32, VARUINT32);
+testVarintType("varuint64", varuint64, VARUINT64);
+testVarintType("varint32", varint32, VARINT32);
+testVarintType("varint64", varint64, VARINT64);
+testVarintType("zigzag32", zigzag32, ZIGZAG32);
+testVarintType("zigzag64", zigzag64, ZIGZAG64);
+testVarintType("quicVarint32", quicVarint32, QUIC32);
+testVarintType("quicVarint62", quicVarint62, QUIC62);
+
+function testVarintType<T extends number | bigint>(
+  name: string,
+  factory: () => Coder<T>,
+  table: readonly (readonly [T, readonly number[], string])[],
+) {
+  Deno.test(`${name}:`, async (t) => {
+    await t.step("reads", async (t) => {
+      for (const [value, expected, description] of table) {
+        await t.step(description, () => {
+          const coder = factory();
+          const withTrailing = new Uint8Array([...expected, 0xaa, 0xbb]);
+
+          assertEquals(coder.decode(withTrailing), [value, expected.length]);
+        });
+      }
+    });
+
+    await t.step("writes", async (t) => {
+      for (const [value, expected, description] of table) {
+        await t.step(description, () => {
+          const coder = factory();
+
+          const withOffset = new Uint8Array(expected.length + 4);
+          const view = withOffset.subarray(4);
+          assertEquals(coder.encode(value, view), expected.length);
+          assertEquals(withOffset, new Uint8Array([0, 0, 0, 0, ...expected]));
+        });
+      }
+    });
+
+    await t.step("measures", () => {
+      for (const [value, expected] of table) {
+        assertEquals(factory().measure?.(value), expected.length);
+      }
+    });
+
+    await t.step("throws RangeError when the target is too small", () => {
+      const [value, expected] = table[table.length - 1];
+      const coder = factory();
+
+      assertThrows(
+        () => coder.encode(value, new Uint8Array(expected.length - 1)),
+        RangeError,
+        `Need ${expected.length} bytes, got ${expected.length - 1}`,
+      );
+    });
+
+    await t.step("throws when the input ends inside the integer", () => {
+      const [, expected] = table[table.length - 1];
+      const coder = factory();
+
+      assertThrows(
+        () => coder.decode(new Uint8Array(expected.slice(0, -1))),
+        Error,
+        `Need ${expected.length} bytes, got ${expected.length - 1}`,
+      );
+    });
+  });
+}
+
+Deno.test("varuint32: rejects values wider than 32 bits", () => {
+  assertThrows(
+    () => varuint32().decode(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x1f])),
+    Error,
+    "varuint32: value exceeds 32 bits",
+  );
+  assertThrows(
+    () =>
+      varuint32().decode(new Uint8Array([0x80, 0x80, 0x80, 0x80, 0x80, 0x00])),
+    Error,
+    "varuint32: value exceeds 32 bits",
+  );
+});
+
+Deno.test("varuint64: rejects values wider than 64 bits", () => {
+  assertThrows(
+    () =>
+      varuint64().decode(
+        new Uint8Array([...new Array(9).fill(0xff), 0x03]),
+      ),
+    Error,
+    "varuint64: value exceeds 64 bits",
+  );
+});
+
+Deno.test("varint32: rejects a last group that is not a sign extension", () => {
+  assertThrows(
+    () => varint32().decode(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x17])),
+    Error,
+    "varint32: value exceeds 32 bits",
+  );
+});
+
+Deno.test("varint64: rejects a last group that is not a sign extension", () => {
+  assertThrows(
+    () =>
+      varint64().decode(
+        new Uint8Array([...new Array(9).fill(0x80), 0x01]),
+      ),
+    Error,
+    "varint64: value exceeds 64 bits",
+  );
+});
+
+Deno.test("varuint32: accepts non-minimal encodings", () => {
+  assertEquals(
+    varuint32().decode(new Uint8Array([0x81, 0x80, 0x00])),
+    [1, 3],
+  );
+});
+
+Deno.test("quicVarint32: rejects eight-byte values above 32 bits", () => {
+  assertThrows(
+    () =>
+      quicVarint32().decode(
+        new Uint8Array([0xc0, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00]),
+      ),
+    Error,
+    "quicVarint32: value exceeds 32 bits",
+  );
+});
+
+Deno.test("quicVarint32: accepts non-minimal encodings", () => {
+  assertEquals(
+    quicVarint32().decode(new Uint8Array([0x40, 0x25])),
+    [37, 2],
+  );
+});
+
+Deno.test("varints: encode their range bounds and reject values past them", async (t) => {
+  // deno-lint-ignore no-explicit-any
+  const cases: [string, Coder<any>, number | bigint, number | bigint][] = [
+    ["varuint32", varuint32(), 0, 2 ** 32 - 1],
+    ["varuint64", varuint64(), 0n, 2n ** 64n - 1n],
+    ["varint32", varint32(), -(2 ** 31), 2 ** 31 - 1],
+    ["varint64", varint64(), -(2n ** 63n), 2n ** 63n - 1n],
+    ["zigzag32", zigzag32(), -(2 ** 31), 2 ** 31 - 1],
+    ["zigzag64", zigzag64(), -(2n ** 63n), 2n ** 63n - 1n],
+    ["quicVarint32", quicVarint32(), 0, 2 ** 32 - 1],
+    ["quicVarint62", quicVarint62(), 0n, 2n ** 62n - 1n],
+  ];
+  // Bigint arithmetic needs bigint operands
+  const step = (value: number | bigint, by: number) =>
+    typeof value === "bigint" ? value + BigInt(by) : value + by;
+
+  for (const [name, coder, min, max] of cases) {
+    await t.step(name, () => {
+      for (const value of [min, max]) {
+        assertEquals(coder.decode(encode(coder, value))[0], value);
+      }
+      for (const value of [step(min, -1), step(max, 1)]) {
+        assertThrows(
+          () => coder.encode(value, new Uint8Array(16)),
+          Error,
+          `${name}: value ${value} out of range. Must be an integer from ${min} to ${max}.`,
+        );
+      }
+    });
+  }
+});
+
+Deno.test("varints: reject non-integers and values of the wrong type", () => {
+  const target = new Uint8Array(16);
+
+  assertThrows(() => varuint32().encode(1.5, target), Error, "out of range");
+  assertThrows(() => quicVarint32().encode(NaN, target), Error, "out of range");
+  assertThrows(
+    () => varuint64().encode(1 as unknown as bigint, target),
+    Error,
+    "out of range",
+  );
+});
+
+Deno.test("varints: out-of-range values are not mistaken for a short buffer", () => {
+  const error = assertThrows(
+    () => encode(quicVarint62(), 2n ** 62n),
+    Error,
+    "quicVarint62: value 4611686018427387904 out of range.",
+  );
+
+  assertEquals(error instanceof RangeError, false);
+});
+
+Deno.test("varints as length prefixes", async (t) => {
+  await t.step("arrayLP", () => {
+    const coder = arrayLP(u8(), varuint32());
+    const value = Array.from({ length: 200 }, (_, i) => i);
+
+    const encoded = encode(coder, value);
+    assertEquals(encoded.subarray(0, 2), new Uint8Array([0xc8, 0x01]));
+    assertEquals(encoded.length, 202);
+    assertEquals(coder.decode(encoded), [value, 202]);
+  });
+
+  await t.step("stringLP", () => {
+    const coder = stringLP(quicVarint32());
+
+    const encoded = encode(coder, "hello");
+    assertEquals(encoded, new Uint8Array([5, 104, 101, 108, 108, 111]));
+    assertEquals(coder.decode(encoded), ["hello", 6]);
+  });
+
+  await t.step("bytes", () => {
+    const coder = struct({ payload: bytes(zigzag32()), tail: u8() });
+    const value = { payload: new Uint8Array([1, 2, 3]), tail: 9 };
+
+    const encoded = encode(coder, value);
+    assertEquals(encoded, new Uint8Array([6, 1, 2, 3, 9]));
+    assertEquals(coder.decode(encoded), [value, 5]);
+  });
+});
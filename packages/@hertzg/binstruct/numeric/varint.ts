@@ -0,0 +1,656 @@
+/**
+ * Variable-length integer encoding and decoding utilities for binary structures.
+ *
+ * This module provides coders for integers whose encoded size depends on their
+ * value. It includes:
+ *
+ * - **LEB128**: Unsigned and signed little-endian base-128 groups, as used by
+ *   WebAssembly, DWARF and Android DEX (`varuint32`, `varuint64`, `varint32`,
+ *   `varint64`). Unsigned LEB128 is byte-for-byte the Protobuf `uint32`/`uint64`
+ *   wire format.
+ * - **ZigZag**: Protobuf `sint32`/`sint64`, which maps signed values onto
+ *   unsigned ones so small magnitudes stay short (`zigzag32`, `zigzag64`).
+ * - **QUIC**: The RFC 9000 §16 variable-length integer, whose two most
+ *   significant bits select a 1, 2, 4 or 8 byte encoding (`quicVarint32`,
+ *   `quicVarint62`).
+ *
+ * Return types follow the same cutover as the fixed-width coders: the 32-bit
+ * variants decode to `number` and the 64-bit (and 62-bit) variants decode to
+ * `bigint`. The `number` variants compose directly as length prefixes for
+ * `arrayLP`, `stringLP` and `bytesLP`.
+ *
+ * Decoding throws when the input ends before the integer does, and when the
+ * wire value does not fit the coder's width. Encoding writes the shortest
+ * form and throws a `RangeError` when the target is too small, so the coders
+ * work with `autoGrowBuffer`. A value outside the coder's range, or a
+ * `number` that is not an integer, throws a plain `Error` before anything is
+ * written.
+ *
+ * @example Protobuf-style message with varint fields:
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { varuint32, zigzag32, varuint64 } from "@hertzg/binstruct/numeric";
+ * import { struct } from "@hertzg/binstruct/struct";
+ * import { stringLP } from "@hertzg/binstruct/string";
+ *
+ * const message = struct({
+ *   id: varuint64(),
+ *   delta: zigzag32(),
+ *   name: stringLP(varuint32()),
+ * });
+ *
+ * const value = { id: 150n, delta: -2, name: "hello" };
+ * const buffer = new Uint8Array(32);
+ * const bytesWritten = message.encode(value, buffer);
+ * const [decoded, bytesRead] = message.decode(buffer);
+ *
+ * assertEquals(decoded, value);
+ * assertEquals(bytesWritten, 2 + 1 + 1 + 5);
+ * assertEquals(bytesWritten, bytesRead);
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, kCoderKind } from "../core.ts";
+import { refSetValue } from "../ref/ref.ts";
+import type { SchemaNode } from "../schema/describe.ts";
+
+const kKindVaruint32 = Symbol("varuint32");
+const kKindVaruint64 = Symbol("varuint64");
+const kKindVarint32 = Symbol("varint32");
+const kKindVarint64 = Symbol("varint64");
+const kKindZigzag32 = Symbol("zigzag32");
+const kKindZigzag64 = Symbol("zigzag64");
+const kKindQuicVarint32 = Symbol("quicVarint32");
+const kKindQuicVarint62 = Symbol("quicVarint62");
+
+/**
+ * Builds a coder around its schema, its value range, a size function, a writer
+ * and a reader. The writer is only called once the value is known to be in
+ * range and the target large enough, so each variant can write its bytes by
+ * index without checks.
+ */
+function varintCoder<TDecoded extends number | bigint>(
+  kind: symbol,
+  schema: SchemaNode,
+  [min, max]: [TDecoded, TDecoded],
+  sizeOf: (value: TDecoded) => number,
+  write: (value: TDecoded, target: Uint8Array, size: number) => void,
+  read: (encoded: Uint8Array) => [TDecoded, number],
+): Coder<TDecoded> {
+  let self: Coder<TDecoded>;
+  return self = {
+    [kCoderKind]: kind,
+    encode: (value, target, ctx) => {
+      refSetValue(ctx, self, value);
+
+      // Not a RangeError, which autoGrowBuffer reads as a short target
+      if (
+        typeof value !== typeof min ||
+        (typeof value === "number" && !Number.isInteger(value)) ||
+        value < min || value > max
+      ) {
+        throw new Error(
+          `${kind.description}: value ${value} out of range. Must be an integer from ${min} to ${max}.`,
+        );
+      }
+
+      const size = sizeOf(value);
+      if (target.length < size) {
+        throw new RangeError(`Need ${size} bytes, got ${target.length}`);
+      }
+
+      write(value, target, size);
+      return size;
+    },
+    decode: (encoded, ctx) => {
+      const [value, bytesRead] = read(encoded);
+      refSetValue(ctx, self, value);
+      return [value, bytesRead];
+    },
+    measure: (value, ctx) => {
+      refSetValue(ctx, self, value);
+      return sizeOf(value);
+    },
+    describe: () => ({ ...schema }),
+  };
+}
+
+/**
+ * Reads the byte at `index`, or throws the conventional "need more bytes"
+ * error when the input ends inside an integer.
+ */
+function byteAt(encoded: Uint8Array, index: number): number {
+  if (index >= encoded.length) {
+    throw new RangeError(`Need ${index + 1} bytes, got ${encoded.length}`);
+  }
+  return encoded[index];
+}
+
+function uleb32Size(value: number): number {
+  let size = 1;
+  for (let v = value >>> 7; v !== 0; v >>>= 7) size++;
+  return size;
+}
+
+function uleb32Write(value: number, target: Uint8Array, size: number): void {
+  let v = value >>> 0;
+  for (let i = 0; i < size - 1; i++) {
+    target[i] = (v & 0x7f) | 0x80;
+    v >>>= 7;
+  }
+  target[size - 1] = v;
+}
+
+function uleb32Read(encoded: Uint8Array): [number, number] {
+  let result = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = byteAt(encoded, i);
+    if (i === 4 && byte > 0x0f) {
+      throw new Error("varuint32: value exceeds 32 bits");
+    }
+    result |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) {
+      return [result >>> 0, i + 1];
+    }
+  }
+  // The fifth byte is at most 0x0f, so its continuation bit is never set.
+  throw new Error("varuint32: value exceeds 32 bits");
+}
+
+function uleb64Size(value: bigint): number {
+  let size = 1;
+  for (let v = BigInt.asUintN(64, value) >> 7n; v !== 0n; v >>= 7n) size++;
+  return size;
+}
+
+function uleb64Write(value: bigint, target: Uint8Array, size: number): void {
+  let v = BigInt.asUintN(64, value);
+  for (let i = 0; i < size - 1; i++) {
+    target[i] = Number(v & 0x7fn) | 0x80;
+    v >>= 7n;
+  }
+  target[size - 1] = Number(v);
+}
+
+function uleb64Read(encoded: Uint8Array): [bigint, number] {
+  let result = 0n;
+  for (let i = 0; i < 10; i++) {
+    const byte = byteAt(encoded, i);
+    if (i === 9 && byte > 0x01) {
+      throw new Error("varuint64: value exceeds 64 bits");
+    }
+    result |= BigInt(byte & 0x7f) << BigInt(7 * i);
+    if ((byte & 0x80) === 0) {
+      return [result, i + 1];
+    }
+  }
+  throw new Error("varuint64: value exceeds 64 bits");
+}
+
+function sleb32Size(value: number): number {
+  let v = value | 0;
+  let size = 1;
+  while (true) {
+    const byte = v & 0x7f;
+    v >>= 7;
+    if ((v === 0 && (byte & 0x40) === 0) || (v === -1 && (byte & 0x40) !== 0)) {
+      return size;
+    }
+    size++;
+  }
+}
+
+function sleb32Write(value: number, target: Uint8Array, size: number): void {
+  let v = value | 0;
+  for (let i = 0; i < size - 1; i++) {
+    target[i] = (v & 0x7f) | 0x80;
+    v >>= 7;
+  }
+  target[size - 1] = v & 0x7f;
+}
+
+function sleb32Read(encoded: Uint8Array): [number, number] {
+  let result = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = byteAt(encoded, i);
+    if (i === 4) {
+      // Bits 4-6 of the last group must repeat the sign bit (bit 3).
+      const high = byte & 0x78;
+      if ((byte & 0x80) !== 0 || (high !== 0 && high !== 0x78)) {
+        throw new Error("varint32: value exceeds 32 bits");
+      }
+      return [result | (byte << 28), 5];
+    }
+    result |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) {
+      const shift = 7 * (i + 1);
+      return [(byte & 0x40) !== 0 ? result | (-1 << shift) : result, i + 1];
+    }
+  }
+  throw new Error("varint32: value exceeds 32 bits");
+}
+
+function sleb64Size(value: bigint): number {
+  let v = BigInt.asIntN(64, value);
+  let size = 1;
+  while (true) {
+    const byte = v & 0x7fn;
+    v >>= 7n;
+    if (
+      (v === 0n && (byte & 0x40n) === 0n) ||
+      (v === -1n && (byte & 0x40n) !== 0n)
+    ) {
+      return size;
+    }
+    size++;
+  }
+}
+
+function sleb64Write(value: bigint, target: Uint8Array, size: number): void {
+  let v = BigInt.asIntN(64, value);
+  for (let i = 0; i < size - 1; i++) {
+    target[i] = Number(v & 0x7fn) | 0x80;
+    v >>= 7n;
+  }
+  target[size - 1] = Number(v & 0x7fn);
+}
+
+function sleb64Read(encoded: Uint8Array): [bigint, number] {
+  let result = 0n;
+  for (let i = 0; i < 10; i++) {
+    const byte = byteAt(encoded, i);
+    if (i === 9) {
+      // The tenth group carries bit 63; the rest must repeat it.
+      if (byte !== 0x00 && byte !== 0x7f) {
+        throw new Error("varint64: value exceeds 64 bits");
+      }
+      return [BigInt.asIntN(64, result | (BigInt(byte) << 63n)), 10];
+    }
+    result |= BigInt(byte & 0x7f) << BigInt(7 * i);
+    if ((byte & 0x80) === 0) {
+      const shift = BigInt(7 * (i + 1));
+      return [
+        (byte & 0x40) !== 0
+          ? BigInt.asIntN(64, result - (1n << shift))
+          : result,
+        i + 1,
+      ];
+    }
+  }
+  throw new Error("varint64: value exceeds 64 bits");
+}
+
+function quic32Size(value: number): number {
+  return value < 0x40 ? 1 : value < 0x4000 ? 2 : value < 0x40000000 ? 4 : 8;
+}
+
+function quic32Write(value: number, target: Uint8Array, size: number): void {
+  const view = new DataView(target.buffer, target.byteOffset, size);
+  switch (size) {
+    case 1:
+      view.setUint8(0, value);
+      break;
+    case 2:
+      view.setUint16(0, 0x4000 | value);
+      break;
+    case 4:
+      view.setUint32(0, (0x80000000 | value) >>> 0);
+      break;
+    default:
+      view.setUint32(0, 0xc0000000);
+      view.setUint32(4, value);
+  }
+}
+
+function quic32Read(encoded: Uint8Array): [number, number] {
+  const size = 1 << (byteAt(encoded, 0) >> 6);
+  byteAt(encoded, size - 1);
+
+  const view = new DataView(encoded.buffer, encoded.byteOffset, size);
+  switch (size) {
+    case 1:
+      return [view.getUint8(0), 1];
+    case 2:
+      return [view.getUint16(0) & 0x3fff, 2];
+    case 4:
+      return [view.getUint32(0) & 0x3fffffff, 4];
+    default:
+      if ((view.getUint32(0) & 0x3fffffff) !== 0) {
+        throw new Error("quicVarint32: value exceeds 32 bits");
+      }
+      return [view.getUint32(4), 8];
+  }
+}
+
+function quic62Size(value: bigint): number {
+  return value < 0x40n ? 1 : value < 0x4000n ? 2 : value < 0x40000000n ? 4 : 8;
+}
+
+function quic62Write(value: bigint, target: Uint8Array, size: number): void {
+  if (size === 8) {
+    const view = new DataView(target.buffer, target.byteOffset, 8);
+    view.setBigUint64(0, 0xc000000000000000n | value);
+    return;
+  }
+  quic32Write(Number(value), target, size);
+}
+
+function quic62Read(encoded: Uint8Array): [bigint, number] {
+  const size = 1 << (byteAt(encoded, 0) >> 6);
+  if (size !== 8) {
+    const [value, bytesRead] = quic32Read(encoded);
+    return [BigInt(value), bytesRead];
+  }
+  byteAt(encoded, 7);
+
+  const view = new DataView(encoded.buffer, encoded.byteOffset, 8);
+  return [view.getBigUint64(0) & 0x3fffffffffffffffn, 8];
+}
+
+/**
+ * Creates a coder for unsigned LEB128 integers in the 32-bit range.
+ *
+ * Each byte carries seven value bits, least significant group first, with the
+ * high bit set on every byte except the last. Values take 1 to 5 bytes. This
+ * is the WebAssembly `varuint32` and the Protobuf `uint32` wire format.
+ *
+ * Decoding rejects encodings that carry more than 32 bits of value.
+ *
+ * @returns A Coder<number> for unsigned 32-bit LEB128 integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { varuint32 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = varuint32();
+ * const buffer = new Uint8Array(5);
+ *
+ * const bytesWritten = coder.encode(624485, buffer);
+ * assertEquals(buffer.subarray(0, bytesWritten), new Uint8Array([0xe5, 0x8e, 0x26]));
+ *
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, 624485);
+ * assertEquals(bytesRead, 3);
+ * ```
+ */
+export function varuint32(): Coder<number> {
+  return varintCoder(
+    kKindVaruint32,
+    { type: "varint", encoding: "leb128", signed: false, bits: 32 },
+    [0, 0xffffffff],
+    uleb32Size,
+    uleb32Write,
+    uleb32Read,
+  );
+}
+
+/**
+ * Creates a coder for unsigned LEB128 integers in the 64-bit range.
+ *
+ * Same wire format as {@link varuint32}, but values take 1 to 10 bytes and
+ * decode as `bigint` so the full 64-bit range round-trips exactly. This is the
+ * WebAssembly `varuint64` and the Protobuf `uint64` wire format.
+ *
+ * @returns A Coder<bigint> for unsigned 64-bit LEB128 integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { varuint64 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = varuint64();
+ * const buffer = new Uint8Array(10);
+ *
+ * const bytesWritten = coder.encode(18446744073709551615n, buffer);
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ *
+ * assertEquals(decoded, 18446744073709551615n);
+ * assertEquals(bytesWritten, 10);
+ * assertEquals(bytesRead, 10);
+ * ```
+ */
+export function varuint64(): Coder<bigint> {
+  return varintCoder(
+    kKindVaruint64,
+    { type: "varint", encoding: "leb128", signed: false, bits: 64 },
+    [0n, 0xffffffffffffffffn],
+    uleb64Size,
+    uleb64Write,
+    uleb64Read,
+  );
+}
+
+/**
+ * Creates a coder for signed LEB128 integers in the 32-bit range.
+ *
+ * Values are stored in two's complement, seven bits per byte, least
+ * significant group first; the last group's bit 6 is the sign bit. Values
+ * take 1 to 5 bytes. This is the WebAssembly `varint32` format.
+ *
+ * @returns A Coder<number> for signed 32-bit LEB128 integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { varint32 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = varint32();
+ * const buffer = new Uint8Array(5);
+ *
+ * const bytesWritten = coder.encode(-123456, buffer);
+ * assertEquals(buffer.subarray(0, bytesWritten), new Uint8Array([0xc0, 0xbb, 0x78]));
+ *
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, -123456);
+ * assertEquals(bytesRead, 3);
+ * ```
+ */
+export function varint32(): Coder<number> {
+  return varintCoder(
+    kKindVarint32,
+    { type: "varint", encoding: "leb128", signed: true, bits: 32 },
+    [-0x80000000, 0x7fffffff],
+    sleb32Size,
+    sleb32Write,
+    sleb32Read,
+  );
+}
+
+/**
+ * Creates a coder for signed LEB128 integers in the 64-bit range.
+ *
+ * Same wire format as {@link varint32}, but values take 1 to 10 bytes and
+ * decode as `bigint`. This is the WebAssembly `varint64` format.
+ *
+ * @returns A Coder<bigint> for signed 64-bit LEB128 integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { varint64 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = varint64();
+ * const buffer = new Uint8Array(10);
+ *
+ * const bytesWritten = coder.encode(-9223372036854775808n, buffer);
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ *
+ * assertEquals(decoded, -9223372036854775808n);
+ * assertEquals(bytesWritten, 10);
+ * assertEquals(bytesRead, 10);
+ * ```
+ */
+export function varint64(): Coder<bigint> {
+  return varintCoder(
+    kKindVarint64,
+    { type: "varint", encoding: "leb128", signed: true, bits: 64 },
+    [-0x8000000000000000n, 0x7fffffffffffffffn],
+    sleb64Size,
+    sleb64Write,
+    sleb64Read,
+  );
+}
+
+/**
+ * Creates a coder for ZigZag-encoded signed integers in the 32-bit range.
+ *
+ * The value is mapped to an unsigned integer (0, -1, 1, -2, … become
+ * 0, 1, 2, 3, …) and then written as {@link varuint32}, so small magnitudes
+ * of either sign stay short. This is the Protobuf `sint32` wire format.
+ *
+ * @returns A Coder<number> for ZigZag-encoded 32-bit integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { zigzag32 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = zigzag32();
+ * const buffer = new Uint8Array(5);
+ *
+ * assertEquals(coder.encode(-1, buffer), 1);
+ * assertEquals(buffer[0], 0x01);
+ *
+ * coder.encode(-2147483648, buffer);
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, -2147483648);
+ * assertEquals(bytesRead, 5);
+ * ```
+ */
+export function zigzag32(): Coder<number> {
+  const toWire = (value: number) => ((value << 1) ^ (value >> 31)) >>> 0;
+  return varintCoder(
+    kKindZigzag32,
+    { type: "varint", encoding: "zigzag", signed: true, bits: 32 },
+    [-0x80000000, 0x7fffffff],
+    (value) => uleb32Size(toWire(value)),
+    (value, target, size) => uleb32Write(toWire(value), target, size),
+    (encoded) => {
+      const [wire, bytesRead] = uleb32Read(encoded);
+      return [(wire >>> 1) ^ -(wire & 1), bytesRead];
+    },
+  );
+}
+
+/**
+ * Creates a coder for ZigZag-encoded signed integers in the 64-bit range.
+ *
+ * Same mapping as {@link zigzag32}, written as {@link varuint64} and decoded
+ * as `bigint`. This is the Protobuf `sint64` wire format.
+ *
+ * @returns A Coder<bigint> for ZigZag-encoded 64-bit integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { zigzag64 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = zigzag64();
+ * const buffer = new Uint8Array(10);
+ *
+ * assertEquals(coder.encode(-64n, buffer), 1);
+ * assertEquals(buffer[0], 0x7f);
+ *
+ * coder.encode(9223372036854775807n, buffer);
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, 9223372036854775807n);
+ * assertEquals(bytesRead, 10);
+ * ```
+ */
+export function zigzag64(): Coder<bigint> {
+  const toWire = (value: bigint) =>
+    BigInt.asUintN(64, (value << 1n) ^ (value >> 63n));
+  return varintCoder(
+    kKindZigzag64,
+    { type: "varint", encoding: "zigzag", signed: true, bits: 64 },
+    [-0x8000000000000000n, 0x7fffffffffffffffn],
+    (value) => uleb64Size(toWire(value)),
+    (value, target, size) => uleb64Write(toWire(value), target, size),
+    (encoded) => {
+      const [wire, bytesRead] = uleb64Read(encoded);
+      return [(wire >> 1n) ^ -(wire & 1n), bytesRead];
+    },
+  );
+}
+
+/**
+ * Creates a coder for QUIC variable-length integers in the 32-bit range.
+ *
+ * The two most significant bits of the first byte give the encoded length
+ * (1, 2, 4 or 8 bytes); the remaining bits hold the value in network byte
+ * order (RFC 9000 §16). Encoding always picks the shortest form. Any form is
+ * accepted on decode, but values above 2^32 − 1 are rejected; use
+ * {@link quicVarint62} for the full range.
+ *
+ * @returns A Coder<number> for QUIC variable-length integers up to 32 bits
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { quicVarint32 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = quicVarint32();
+ * const buffer = new Uint8Array(8);
+ *
+ * // RFC 9000 Appendix A.1 sample
+ * const bytesWritten = coder.encode(494878333, buffer);
+ * assertEquals(buffer.subarray(0, bytesWritten), new Uint8Array([0x9d, 0x7f, 0x3e, 0x7d]));
+ *
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, 494878333);
+ * assertEquals(bytesRead, 4);
+ * ```
+ */
+export function quicVarint32(): Coder<number> {
+  return varintCoder(
+    kKindQuicVarint32,
+    { type: "varint", encoding: "quic", signed: false, bits: 32 },
+    [0, 0xffffffff],
+    quic32Size,
+    quic32Write,
+    quic32Read,
+  );
+}
+
+/**
+ * Creates a coder for QUIC variable-length integers over their full 62-bit
+ * range.
+ *
+ * Same wire format as {@link quicVarint32}, decoded as `bigint`. Values must
+ * be below 2^62.
+ *
+ * @returns A Coder<bigint> for QUIC variable-length integers
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { quicVarint62 } from "@hertzg/binstruct/numeric";
+ *
+ * const coder = quicVarint62();
+ * const buffer = new Uint8Array(8);
+ *
+ * // RFC 9000 Appendix A.1 sample
+ * const bytesWritten = coder.encode(151288809941952652n, buffer);
+ * assertEquals(
+ *   buffer.subarray(0, bytesWritten),
+ *   new Uint8Array([0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c]),
+ * );
+ *
+ * const [decoded, bytesRead] = coder.decode(buffer);
+ * assertEquals(decoded, 151288809941952652n);
+ * assertEquals(bytesRead, 8);
+ * ```
+ */
+export function quicVarint62(): Coder<bigint> {
+  return varintCoder(
+    kKindQuicVarint62,
+    { type: "varint", encoding: "quic", signed: false, bits: 62 },
+    [0n, 0x3fffffffffffffffn],
+    quic62Size,
+    quic62Write,
+    quic62Read,
+  );
+}
@@ -0,0 +1,258 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { arrayFL, arrayLP } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { BinstructDecodeError, BinstructEncodeError } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { align } from "../layout/mod.ts";
+import { u16be, u16le, u32be, u8 } from "../numeric/numeric.ts";
+import { computedRef, ref } from "../ref/ref.ts";
+import { flagsOf } from "../refine/refine.ts";
+import { describe } from "../schema/describe.ts";
+import { toJsonSchema } from "../schema/json-schema.ts";
+import { toKaitaiStruct } from "../schema/kaitai.ts";
+import { struct } from "../struct/struct.ts";
+import { traceDecode } from "../trace.ts";
+import { optional, optionalTagged } from "./optional.ts";
+
+// NTP-style record: one flags byte says which of the later fields follow
+const PRESENT = { ORIGIN: 0x01, RECEIVE: 0x02, TRANSMIT: 0x04 } as const;
+const record = struct({
+  present: flagsOf(u8(), PRESENT),
+  origin: optional(u32be(), ({ present }) => present.ORIGIN),
+  receive: optional(u32be(), ({ present }) => present.RECEIVE),
+  transmit: optional(u32be(), ({ present }) => present.TRANSMIT),
+});
+
+Deno.test("optional - a presence bitmap controls several fields", async (t) => {
+  // deno-fmt-ignore
+  const cases = [
+    [{ ORIGIN: false, RECEIVE: false, TRANSMIT: false }, [0x00]],
+    [{ ORIGIN: true, RECEIVE: false, TRANSMIT: false }, [0x01, 0, 0, 0, 1]],
+    [{ ORIGIN: false, RECEIVE: true, TRANSMIT: true }, [0x06, 0, 0, 0, 2, 0, 0, 0, 3]],
+    [{ ORIGIN: true, RECEIVE: true, TRANSMIT: true }, [0x07, 0, 0, 0, 1, 0, 0, 0, 2, 0, 0, 0, 3]],
+  ] as const;
+
+  for (const [present, bytes] of cases) {
+    await t.step(bytes.map((byte) => byte.toString(16)).join(" "), () => {
+      const value = {
+        present,
+        origin: present.ORIGIN ? 1 : undefined,
+        receive: present.RECEIVE ? 2 : undefined,
+        transmit: present.TRANSMIT ? 3 : undefined,
+      };
+
+      assertEquals(record.measure?.(value), bytes.length);
+      assertEquals(encode(record, value), new Uint8Array(bytes));
+      assertEquals(decode(record, new Uint8Array(bytes)), value);
+    });
+  }
+});
+
+Deno.test("optional - the decoded type includes undefined", () => {
+  const value: {
+    present: { ORIGIN: boolean; RECEIVE: boolean; TRANSMIT: boolean };
+    origin: number | undefined;
+    receive: number | undefined;
+    transmit: number | undefined;
+  } = decode(record, new Uint8Array([0x02, 0, 0, 0, 9]));
+
+  assertEquals(value.receive, 9);
+  assertEquals(value.origin, undefined);
+});
+
+Deno.test("optional - the value must match the condition", () => {
+  const present = { ORIGIN: true, RECEIVE: false, TRANSMIT: false };
+
+  const missing = assertThrows(
+    () =>
+      encode(record, {
+        present,
+        origin: undefined,
+        receive: undefined,
+        transmit: undefined,
+      }),
+    BinstructEncodeError,
+    "Invalid optional value: undefined. The field is present, so it needs a value.",
+  );
+  assertEquals(missing.path, ["origin"]);
+
+  const extra = assertThrows(
+    () =>
+      encode(record, {
+        present,
+        origin: 1,
+        receive: 2,
+        transmit: undefined,
+      }),
+    BinstructEncodeError,
+    "Invalid optional value: The field is absent, so it must be undefined.",
+  );
+  assertEquals(extra.path, ["receive"]);
+});
+
+Deno.test("optional - refs and computed refs as the condition", () => {
+  const version = u8();
+  const hasChecksum = u8();
+  const frame = struct({
+    version,
+    hasChecksum,
+    payload: u16be(),
+    checksum: optional(u8(), ref(hasChecksum)),
+    extra: optional(
+      u8(),
+      computedRef([ref(version)], (version) => version >= 2),
+    ),
+  });
+
+  assertEquals(decode(frame, new Uint8Array([1, 0, 0, 7])), {
+    version: 1,
+    hasChecksum: 0,
+    payload: 7,
+    checksum: undefined,
+    extra: undefined,
+  });
+  assertEquals(decode(frame, new Uint8Array([2, 1, 0, 7, 0xaa, 0xbb])), {
+    version: 2,
+    hasChecksum: 1,
+    payload: 7,
+    checksum: 0xaa,
+    extra: 0xbb,
+  });
+});
+
+Deno.test("optional - a bit flag in a bit struct", () => {
+  const header = struct({
+    bits: bitStruct({ extension: { type: "boolean" }, count: 7 }),
+    extension: optional(u16le(), ({ bits }) => bits.extension),
+  });
+
+  const value = { bits: { extension: true, count: 3 }, extension: 0x1234 };
+  const encoded = encode(header, value);
+
+  assertEquals(encoded, new Uint8Array([0x83, 0x34, 0x12]));
+  assertEquals(decode(header, encoded), value);
+});
+
+Deno.test("optional - predicates need an enclosing struct", () => {
+  const coder = optional(u8(), () => true);
+
+  assertThrows(
+    () => decode(coder, new Uint8Array([1])),
+    Error,
+    "Invalid optional field: Must be inside a struct, or use a ref.",
+  );
+});
+
+Deno.test("optional - absent fields leave no span in a trace", () => {
+  const { span } = traceDecode(record, new Uint8Array([0x04, 0, 0, 0, 3]));
+
+  assertEquals(
+    span.children.map(({ path, offset, length }) => [path, offset, length]),
+    [
+      [["present"], 0, 1],
+      [["origin"], 1, 0],
+      [["receive"], 1, 0],
+      [["transmit"], 1, 4],
+    ],
+  );
+});
+
+Deno.test("optionalTagged - a tag before the value", () => {
+  const coder = struct({
+    id: optionalTagged(u16be()),
+    name: optionalTagged(bytes(2), u16le()),
+  });
+
+  const encoded = encode(coder, {
+    id: undefined,
+    name: new Uint8Array([0x68, 0x69]),
+  });
+
+  assertEquals(encoded, new Uint8Array([0, 1, 0, 0x68, 0x69]));
+  assertEquals(decode(coder, encoded), {
+    id: undefined,
+    name: new Uint8Array([0x68, 0x69]),
+  });
+  assertEquals(
+    coder.measure?.({ id: 5, name: undefined }),
+    1 + 2 + 2,
+  );
+});
+
+Deno.test("optionalTagged - rejects tags other than 0 and 1", () => {
+  const error = assertThrows(
+    () =>
+      decode(arrayLP(optionalTagged(u8()), u8()), new Uint8Array([2, 0, 7])),
+    BinstructDecodeError,
+    "Invalid optional tag: 7. Must be 0 or 1.",
+  );
+  assertEquals(error.path, [1]);
+});
+
+Deno.test("optionalTagged - positional coders see the value's offset", () => {
+  // The tag sits at offset 1, so the value starts at 2 and pads to 4
+  const coder = struct({
+    first: u8(),
+    pads: optionalTagged(arrayFL(align(4), 1)),
+    data: u8(),
+  });
+  const value = { first: 9, pads: [undefined], data: 5 };
+
+  const encoded = encode(coder, value);
+
+  assertEquals(encoded, new Uint8Array([9, 1, 0, 0, 5]));
+  assertEquals(decode(coder, encoded), value);
+});
+
+Deno.test("optional - schema export", () => {
+  const hasChecksum = u8();
+  const coder = struct({
+    hasChecksum,
+    checksum: optional(u8(), ref(hasChecksum)),
+    extension: optional(u16be(), () => false),
+    id: optionalTagged(u8()),
+  });
+  const schema = describe(coder);
+
+  assertEquals(schema.type === "struct" && schema.fields[1].schema, {
+    type: "optional",
+    coderKind: "optional",
+    presence: { type: "ref", path: ["hasChecksum"] },
+    value: { type: "uint", coderKind: "u8", bits: 8, endian: "be" },
+  });
+
+  assertEquals(toJsonSchema(schema).required, ["hasChecksum"]);
+  assertEquals(
+    (toJsonSchema(schema).properties as Record<string, unknown>).id,
+    {
+      anyOf: [
+        { type: "integer", minimum: 0, maximum: 255 },
+        { type: "null" },
+      ],
+    },
+  );
+
+  assertEquals(
+    toKaitaiStruct(schema),
+    [
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: has_checksum",
+      "    type: u1",
+      "  - id: checksum",
+      "    type: u1",
+      '    if: "_root.has_checksum != 0"',
+      "  - id: extension",
+      "    type: u2be",
+      '    doc: "optional: present only when a condition holds"',
+      "  - id: id_tag",
+      "    type: u1",
+      "  - id: id",
+      "    type: u1",
+      '    if: "id_tag != 0"',
+      "",
+    ].join("\n"),
+  );
+});
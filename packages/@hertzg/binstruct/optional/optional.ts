@@ -0,0 +1,312 @@
+/**
+ * Optional fields: values that are only present in the encoded bytes under
+ * some condition, and decode to `undefined` when they are not.
+ *
+ * {@link optional} reads the condition from fields decoded before it, such as
+ * a flag bit or a presence bitmap in a header, or from a ref.
+ * {@link optionalTagged} stores the condition itself, as a tag byte right
+ * before the value.
+ *
+ * @example A presence bitmap controlling several fields
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decode, encode, flagsOf, struct, u16be, u32be, u8 } from "@hertzg/binstruct";
+ * import { optional } from "@hertzg/binstruct/optional";
+ *
+ * const PRESENT = { TIME: 0x01, PORT: 0x02 } as const;
+ *
+ * const record = struct({
+ *   present: flagsOf(u8(), PRESENT),
+ *   time: optional(u32be(), ({ present }) => present.TIME),
+ *   port: optional(u16be(), ({ present }) => present.PORT),
+ * });
+ *
+ * const encoded = encode(record, {
+ *   present: { TIME: false, PORT: true },
+ *   time: undefined,
+ *   port: 8080,
+ * });
+ *
+ * assertEquals(encoded, new Uint8Array([0x02, 0x1f, 0x90]));
+ * assertEquals(decode(record, encoded).port, 8080);
+ * assertEquals(decode(record, encoded).time, undefined);
+ * ```
+ *
+ * @module
+ */
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+  kCtxLayout,
+} from "../core.ts";
+import { layoutMoveTo, layoutOffset } from "../layout/frame.ts";
+import { u8 } from "../numeric/unsigned.ts";
+import { isRef, refSetValue, type RefValue } from "../ref/ref.ts";
+import type { PresenceSchema } from "../schema/describe.ts";
+
+/**
+ * Symbol identifier for optional field coders.
+ */
+export const kKindOptional = Symbol("optional");
+
+/**
+ * Symbol identifier for tagged optional field coders.
+ */
+export const kKindOptionalTagged = Symbol("optionalTagged");
+
+/**
+ * Decides whether an {@link optional} field is present: a ref whose value is
+ * truthy, or a predicate over the enclosing struct's value.
+ *
+ * While decoding, the struct's value only holds the fields before the
+ * optional one.
+ *
+ * @template S - The enclosing struct's value
+ */
+// deno-lint-ignore no-explicit-any
+export type OptionalCondition<S = Record<string, any>> =
+  | RefValue<unknown>
+  | ((value: S, ctx: Context) => unknown);
+
+/**
+ * Creates a Coder for a field that is only present when `when` holds, and
+ * takes no bytes otherwise.
+ *
+ * `when` is checked against the enclosing struct: a predicate gets the
+ * struct's value, which while decoding holds the fields decoded so far, and a
+ * ref is resolved like a length ref. Either way it can test a flag, a bit of a
+ * presence bitmap shared by several fields, or a version number.
+ *
+ * An absent field decodes to `undefined`, and must be `undefined` when
+ * encoding, so that the bytes and the value always agree; a present field must
+ * have a value.
+ *
+ * @template TDecoded - The type of the value when present
+ * @template S - The enclosing struct's value
+ * @param coder - The coder for the value
+ * @param when - Whether the field is present
+ * @returns A Coder for the value or `undefined`
+ * @throws {Error} If `when` is a predicate and the coder is not inside a struct
+ * @throws {Error} When encoding a value for an absent field, or `undefined` for a present one
+ *
+ * @example An extension present when a header bit is set
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { bitStruct, bytes, decode, encode, struct, u16be } from "@hertzg/binstruct";
+ * import { optional } from "@hertzg/binstruct/optional";
+ *
+ * const packet = struct({
+ *   header: bitStruct({ extension: { type: "boolean" }, reserved: 7 }),
+ *   extension: optional(bytes(2), ({ header }) => header.extension),
+ *   sequence: u16be(),
+ * });
+ *
+ * const plain = new Uint8Array([0x00, 0x00, 0x07]);
+ * assertEquals(decode(packet, plain), {
+ *   header: { extension: false, reserved: 0 },
+ *   extension: undefined,
+ *   sequence: 7,
+ * });
+ *
+ * const extended = encode(packet, {
+ *   header: { extension: true, reserved: 0 },
+ *   extension: new Uint8Array([0xbe, 0xde]),
+ *   sequence: 7,
+ * });
+ * assertEquals(extended, new Uint8Array([0x80, 0xbe, 0xde, 0x00, 0x07]));
+ *
+ * assertThrows(
+ *   () => encode(packet, { ...decode(packet, plain), extension: new Uint8Array(2) }),
+ *   Error,
+ *   "Invalid optional value",
+ * );
+ * ```
+ *
+ * @example A ref as the condition
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decode, ref, struct, u8 } from "@hertzg/binstruct";
+ * import { optional } from "@hertzg/binstruct/optional";
+ *
+ * const hasChecksum = u8();
+ * const frame = struct({
+ *   hasChecksum,
+ *   payload: u8(),
+ *   checksum: optional(u8(), ref(hasChecksum)),
+ * });
+ *
+ * assertEquals(decode(frame, new Uint8Array([1, 0x42, 0xbd])).checksum, 0xbd);
+ * assertEquals(decode(frame, new Uint8Array([0, 0x42])).checksum, undefined);
+ * ```
+ */
+export function optional<TDecoded>(
+  coder: Coder<TDecoded>,
+  when: RefValue<unknown>,
+): Coder<TDecoded | undefined>;
+// deno-lint-ignore no-explicit-any
+export function optional<TDecoded, S = Record<string, any>>(
+  coder: Coder<TDecoded>,
+  when: (value: NoInfer<S>, ctx: Context) => unknown,
+): Coder<TDecoded | undefined>;
+// deno-lint-ignore no-explicit-any
+export function optional<TDecoded, S = Record<string, any>>(
+  coder: Coder<TDecoded>,
+  when: OptionalCondition<S>,
+): Coder<TDecoded | undefined> {
+  const present = (ctx: Context): boolean => {
+    if (isRef<unknown>(when)) {
+      return Boolean(when(ctx));
+    }
+
+    const frame = ctx[kCtxLayout];
+    if (frame === undefined) {
+      throw new Error(
+        "Invalid optional field: Must be inside a struct, or use a ref.",
+      );
+    }
+    return Boolean(when(frame.value as S, ctx));
+  };
+
+  // The value must be given exactly when the field is present
+  const checkValue = (present: boolean, value: TDecoded | undefined) => {
+    if (present && value === undefined) {
+      throw new Error(
+        "Invalid optional value: undefined. The field is present, so it needs a value.",
+      );
+    }
+    if (!present && value !== undefined) {
+      throw new Error(
+        "Invalid optional value: The field is absent, so it must be undefined.",
+      );
+    }
+  };
+
+  let self: Coder<TDecoded | undefined>;
+  return self = {
+    [kCoderKind]: kKindOptional,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+
+      const isPresent = present(ctx);
+      checkValue(isPresent, decoded);
+      return isPresent ? coder.encode(decoded as TDecoded, target, ctx) : 0;
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const [value, bytesRead] = present(ctx)
+        ? coder.decode(encoded, ctx)
+        : [undefined, 0];
+
+      refSetValue(ctx, self, value);
+      return [value, bytesRead];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+
+      // Mismatches are left for encode to report, located at the field
+      return present(ctx) && decoded !== undefined
+        ? coder.measure?.(decoded, ctx)
+        : 0;
+    },
+    describe: (walker) => ({
+      type: "optional",
+      // A ref describes the same way as when it is used as a length
+      presence: isRef(when)
+        ? walker.length(when as RefValue<number>) as PresenceSchema
+        : { type: "condition" },
+      value: walker.child(coder),
+    }),
+  };
+}
+
+/**
+ * Creates a Coder for a value preceded by a tag saying whether it is
+ * present: 1 and the value, or 0 and nothing.
+ *
+ * This is the `Option<T>` of serialization formats such as Borsh and
+ * bincode, and of fields like "has extension" flags that sit right before
+ * the data they announce. `undefined` encodes as the 0 tag.
+ *
+ * @template TDecoded - The type of the value when present
+ * @param coder - The coder for the value
+ * @param tag - The coder for the tag, `u8()` by default
+ * @returns A Coder for the value or `undefined`
+ * @throws {Error} When decoding a tag other than 0 or 1
+ *
+ * @example
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { decode, encode, u32le } from "@hertzg/binstruct";
+ * import { optionalTagged } from "@hertzg/binstruct/optional";
+ *
+ * const maybeId = optionalTagged(u32le());
+ *
+ * assertEquals(encode(maybeId, 7), new Uint8Array([1, 7, 0, 0, 0]));
+ * assertEquals(encode(maybeId, undefined), new Uint8Array([0]));
+ * assertEquals(decode(maybeId, new Uint8Array([0])), undefined);
+ * assertThrows(() => decode(maybeId, new Uint8Array([2])), Error, "Invalid optional tag: 2");
+ * ```
+ */
+export function optionalTagged<TDecoded>(
+  coder: Coder<TDecoded>,
+  tag: Coder<number> = u8(),
+): Coder<TDecoded | undefined> {
+  let self: Coder<TDecoded | undefined>;
+  return self = {
+    [kCoderKind]: kKindOptionalTagged,
+    encode: (decoded, target, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+
+      const base = layoutOffset(ctx);
+      const tagLength = tag.encode(decoded === undefined ? 0 : 1, target, ctx);
+      if (decoded === undefined) {
+        return tagLength;
+      }
+
+      layoutMoveTo(ctx, base + tagLength);
+      return tagLength + coder.encode(decoded, target.subarray(tagLength), ctx);
+    },
+    decode: (encoded, context) => {
+      const ctx = context ?? createContext("decode");
+      const base = layoutOffset(ctx);
+      const [present, tagLength] = tag.decode(encoded, ctx);
+      if (present !== 0 && present !== 1) {
+        throw new Error(`Invalid optional tag: ${present}. Must be 0 or 1.`);
+      }
+
+      let value: TDecoded | undefined;
+      let bytesRead = 0;
+      if (present === 1) {
+        layoutMoveTo(ctx, base + tagLength);
+        [value, bytesRead] = coder.decode(encoded.subarray(tagLength), ctx);
+      }
+
+      refSetValue(ctx, self, value);
+      return [value, tagLength + bytesRead];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, decoded);
+
+      const base = layoutOffset(ctx);
+      const tagLength = tag.measure?.(decoded === undefined ? 0 : 1, ctx);
+      if (tagLength === undefined || decoded === undefined) {
+        return tagLength;
+      }
+
+      layoutMoveTo(ctx, base + tagLength);
+      const valueLength = coder.measure?.(decoded, ctx);
+      return valueLength === undefined ? undefined : tagLength + valueLength;
+    },
+    describe: (walker) => ({
+      type: "optional",
+      presence: { type: "tagged", tag: walker.child(tag) },
+      value: walker.child(coder),
+    }),
+  };
+}
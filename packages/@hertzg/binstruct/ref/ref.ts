@@ -72,6 +72,10 @@ import { kCtxRefs } from "../core.ts";
  * Symbol identifier for reference values.
  */
 export const kIsRefValue = Symbol("isRef");
+/**
+ * Symbol identifier for the coder a {@link ref} reads its value from.
+ */
+export const kRefTarget = Symbol("refTarget");
 
 /**
  * A weak map interface for storing references in the encoding/decoding context.
@@ -152,6 +156,9 @@ export type RefValue<TDecoded> = {
   (ctx: Context): TDecoded;
   /** Brand marker identifying the function as a reference value. */
   [kIsRefValue]: true;
+  /** The coder a plain {@link ref} reads from; absent on computed references. */
+  // deno-lint-ignore no-explicit-any
+  [kRefTarget]?: Coder<any>;
 };
 
 /**
@@ -276,6 +283,7 @@ export function ref<TDecoded>(
   };
 
   unref[kIsRefValue] = true;
+  unref[kRefTarget] = coder;
 
   return unref;
 }
@@ -0,0 +1,89 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { struct } from "../struct/struct.ts";
+import { u16be, u64be, u8 } from "../numeric/numeric.ts";
+import { string } from "../string/string.ts";
+import { decode, encode } from "../helpers.ts";
+import { enumOf } from "./enum.ts";
+
+const ARP_OPCODE = { REQUEST: 1, REPLY: 2 } as const;
+
+Deno.test("enumOf - round-trips names through their values", () => {
+  const coder = enumOf(u16be(), ARP_OPCODE);
+
+  const bytes = encode(coder, "REPLY");
+  const name: "REQUEST" | "REPLY" = decode(coder, bytes);
+
+  assertEquals([...bytes], [0, 2]);
+  assertEquals(name, "REPLY");
+  assertEquals(decode(coder, new Uint8Array([0, 1])), "REQUEST");
+});
+
+Deno.test("enumOf - rejects values and names missing from the table", () => {
+  const coder = enumOf(u8(), ARP_OPCODE);
+
+  assertThrows(
+    () => decode(coder, new Uint8Array([9])),
+    Error,
+    "Invalid enum value: 9. Must be one of 1, 2.",
+  );
+  assertThrows(
+    // @ts-expect-error: not a name of the table
+    () => encode(coder, "RARP"),
+    Error,
+    'Invalid enum name: "RARP". Must be one of REQUEST, REPLY.',
+  );
+});
+
+Deno.test("enumOf - unknown: raw keeps values missing from the table", () => {
+  const coder = enumOf(u8(), ARP_OPCODE, { unknown: "raw" });
+
+  const known: "REQUEST" | "REPLY" | number = decode(
+    coder,
+    new Uint8Array([1]),
+  );
+  const unknown = decode(coder, new Uint8Array([9]));
+
+  assertEquals(known, "REQUEST");
+  assertEquals(unknown, 9);
+  assertEquals([...encode(coder, unknown)], [9]);
+  assertEquals([...encode(coder, "REPLY")], [2]);
+});
+
+Deno.test("enumOf - aliases decode to the first name and encode losslessly", () => {
+  const coder = enumOf(u8(), { OK: 0, SUCCESS: 0, FAIL: 1 } as const);
+
+  assertEquals(decode(coder, new Uint8Array([0])), "OK");
+  assertEquals([...encode(coder, "SUCCESS")], [0]);
+  assertEquals([...encode(coder, "OK")], [0]);
+});
+
+Deno.test("enumOf - bigint and string tables", () => {
+  const big = enumOf(u64be(), { ZERO: 0n, MAX: 0xffffffffffffffffn } as const);
+  const tag = enumOf(string(4), { PNG: "\x89PNG", GIF: "GIF8" } as const);
+
+  assertEquals(decode(big, new Uint8Array(8).fill(0xff)), "MAX");
+  assertEquals([...encode(big, "ZERO")], [0, 0, 0, 0, 0, 0, 0, 0]);
+  assertEquals(decode(tag, encode(tag, "GIF")), "GIF");
+  assertThrows(
+    () => decode(tag, new TextEncoder().encode("JFIF")),
+    Error,
+    'Invalid enum value: "JFIF".',
+  );
+});
+
+Deno.test("enumOf - infers field types inside a struct", () => {
+  const header = struct({
+    operation: enumOf(u16be(), ARP_OPCODE),
+    hops: u8(),
+  });
+
+  const buffer = new Uint8Array(3);
+  header.encode({ operation: "REQUEST", hops: 3 }, buffer);
+  const decoded: { operation: "REQUEST" | "REPLY"; hops: number } = decode(
+    header,
+    buffer,
+  );
+
+  assertEquals([...buffer], [0, 1, 3]);
+  assertEquals(decoded, { operation: "REQUEST", hops: 3 });
+});
@@ -0,0 +1,139 @@
+/**
+ * Maps the integers (or strings) a coder reads to the names of a constant
+ * table, such as the `as const` tables protocol packages export for their
+ * opcode and type fields.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { enumOf, struct, u16be } from "@hertzg/binstruct";
+ *
+ * const ARP_OPCODE = { REQUEST: 1, REPLY: 2 } as const;
+ *
+ * const header = struct({ operation: enumOf(u16be(), ARP_OPCODE) });
+ * const buffer = new Uint8Array(2);
+ *
+ * header.encode({ operation: "REPLY" }, buffer);
+ *
+ * assertEquals([...buffer], [0, 2]);
+ * assertEquals(header.decode(buffer)[0], { operation: "REPLY" });
+ * ```
+ *
+ * @module
+ */
+
+import type { Coder } from "../core.ts";
+import { refine } from "./refine.ts";
+
+/**
+ * A constant table mapping names to the values a coder reads.
+ */
+export type EnumTable<TValue> = Readonly<Record<string, TValue>>;
+
+/**
+ * The names of an {@linkcode EnumTable}.
+ */
+export type EnumName<TTable> = keyof TTable & string;
+
+/**
+ * Options for {@linkcode enumOf}.
+ */
+export interface EnumOptions {
+  /**
+   * What decoding does with a value the table has no name for: `"error"`
+   * (the default) throws, `"raw"` returns the value itself, which encodes
+   * back unchanged.
+   */
+  readonly unknown?: "error" | "raw";
+}
+
+function show(value: unknown): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Creates a coder that decodes to the name of the value read by `coder`.
+ *
+ * Names are looked up in `table` when decoding and their values when
+ * encoding, so `enumOf(u8(), ARP_OPCODE)` reads `1` as `"REQUEST"` and
+ * writes `"REQUEST"` as `1`. The decoded type is the union of the table's
+ * keys, inferred from an `as const` table.
+ *
+ * When two names share a value, decoding returns the first. Every name still
+ * encodes to its value, so decoding and re-encoding gives back the same
+ * bytes.
+ *
+ * With `{ unknown: "raw" }`, a value missing from the table decodes to
+ * itself and the decoded type widens to include the coder's value type. For
+ * string-valued tables, a raw string that happens to equal a name encodes as
+ * that name's value.
+ *
+ * @param coder - The coder for the wire value
+ * @param table - The names and their values
+ * @param options - What to do with values missing from the table
+ * @returns A coder for the names
+ * @throws {Error} When decoding a value missing from the table, unless `unknown` is `"raw"`
+ * @throws {Error} When encoding a name missing from the table, unless `unknown` is `"raw"`
+ *
+ * @example Unknown values decode to themselves with `unknown: "raw"`
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { enumOf, u8 } from "@hertzg/binstruct";
+ *
+ * const NTP_MODE = { CLIENT: 3, SERVER: 4 } as const;
+ *
+ * const strict = enumOf(u8(), NTP_MODE);
+ * const lenient = enumOf(u8(), NTP_MODE, { unknown: "raw" });
+ *
+ * assertThrows(() => strict.decode(new Uint8Array([7])), Error, "Invalid enum value: 7");
+ * assertEquals(lenient.decode(new Uint8Array([4]))[0], "SERVER");
+ * assertEquals(lenient.decode(new Uint8Array([7]))[0], 7);
+ * ```
+ */
+export function enumOf<TValue, const TTable extends EnumTable<TValue>>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options?: EnumOptions & { readonly unknown?: "error" },
+): Coder<EnumName<TTable>>;
+export function enumOf<TValue, const TTable extends EnumTable<TValue>>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options: EnumOptions & { readonly unknown: "raw" },
+): Coder<EnumName<TTable> | TValue>;
+export function enumOf<TValue, const TTable extends EnumTable<TValue>>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options: EnumOptions = {},
+): Coder<EnumName<TTable> | TValue> {
+  const { unknown = "error" } = options;
+  const entries = Object.entries(table) as [EnumName<TTable>, TValue][];
+
+  // The first name for a value wins, as in the table's declaration order
+  const names = new Map<TValue, EnumName<TTable>>();
+  for (const [name, value] of entries) {
+    if (!names.has(value)) names.set(value, name);
+  }
+  const values = new Map<unknown, TValue>(entries);
+
+  return refine(coder, {
+    refine: (value: TValue): EnumName<TTable> | TValue => {
+      const name = names.get(value);
+      if (name !== undefined) return name;
+      if (unknown === "raw") return value;
+      throw new Error(
+        `Invalid enum value: ${show(value)}. Must be one of ${
+          [...names.keys()].map(show).join(", ")
+        }.`,
+      );
+    },
+    unrefine: (refined: EnumName<TTable> | TValue): TValue => {
+      if (values.has(refined)) return values.get(refined) as TValue;
+      if (unknown === "raw") return refined as TValue;
+      throw new Error(
+        `Invalid enum name: ${show(refined)}. Must be one of ${
+          [...values.keys()].join(", ")
+        }.`,
+      );
+    },
+  })();
+}
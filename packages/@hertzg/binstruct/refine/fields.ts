@@ -50,8 +50,10 @@
  * @module
  */
 
-import type { Coder } from "../core.ts";
+import { type Coder, kCoderKind } from "../core.ts";
 import { decode, encode } from "../helpers.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { beginSpan, endSpan } from "../trace.ts";
 import type { Refiner } from "./refine.ts";
 
 /**
@@ -120,22 +122,32 @@ export function refineFields<
     refine: (host, ctx) => {
       const out: Record<string, unknown> = { ...host };
       for (const field of fields) {
-        out[field] = decode(
-          coders[field],
-          host[field as keyof THost] as Uint8Array,
-          ctx,
-        );
+        const bytes = host[field as keyof THost] as Uint8Array;
+        const span = beginSpan(ctx, bytes, field, coders[field][kCoderKind]);
+        try {
+          out[field] = decode(coders[field], bytes, ctx);
+        } catch (e) {
+          throw wrapDecodeError(e, bytes, bytes, field, coders[field]);
+        }
+        endSpan(ctx, span, bytes.length);
       }
       return out as TRefined;
     },
     unrefine: (refined, ctx) => {
       const out: Record<string, unknown> = { ...refined };
       for (const field of fields) {
-        out[field] = encode(
-          coders[field],
-          (refined as Record<string, unknown>)[field],
-          ctx,
-        );
+        try {
+          out[field] = encode(
+            coders[field],
+            (refined as Record<string, unknown>)[field],
+            ctx,
+          );
+        } catch (e) {
+          // Each field is encoded into a buffer of its own, so the only offset
+          // that means anything to the host is the start of the field
+          const detached = new Uint8Array(0);
+          throw wrapEncodeError(e, detached, detached, field, coders[field]);
+        }
       }
       return out as THost;
     },
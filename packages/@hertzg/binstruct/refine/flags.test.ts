@@ -0,0 +1,87 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { u16be, u64be, u8 } from "../numeric/numeric.ts";
+import { decode, encode } from "../helpers.ts";
+import { flagsOf } from "./flags.ts";
+
+const TCP_FLAGS = { FIN: 0x01, SYN: 0x02, RST: 0x04, ACK: 0x10 } as const;
+
+Deno.test("flagsOf - round-trips named bits", () => {
+  const coder = flagsOf(u8(), TCP_FLAGS);
+
+  const flags: { FIN: boolean; SYN: boolean; RST: boolean; ACK: boolean } =
+    decode(coder, new Uint8Array([0x12]));
+
+  assertEquals(flags, { FIN: false, SYN: true, RST: false, ACK: true });
+  assertEquals([...encode(coder, flags)], [0x12]);
+  assertEquals(
+    [...encode(coder, { FIN: true, SYN: false, RST: true, ACK: false })],
+    [0x05],
+  );
+});
+
+Deno.test("flagsOf - unnamed bits throw without a rest key", () => {
+  const coder = flagsOf(u8(), TCP_FLAGS);
+
+  assertThrows(
+    () => decode(coder, new Uint8Array([0x41])),
+    Error,
+    "Invalid flags: 0x41. Bits 0x40 have no name.",
+  );
+});
+
+Deno.test("flagsOf - a rest key keeps unnamed bits", () => {
+  const coder = flagsOf(u16be(), { DF: 0x4000, MF: 0x2000 } as const, {
+    rest: "fragmentOffset",
+  });
+
+  const decoded: { DF: boolean; MF: boolean; fragmentOffset: number } = decode(
+    coder,
+    new Uint8Array([0x20, 0xb9]),
+  );
+
+  assertEquals(decoded, { DF: false, MF: true, fragmentOffset: 185 });
+  assertEquals([...encode(coder, decoded)], [0x20, 0xb9]);
+  assertThrows(
+    () => encode(coder, { DF: false, MF: false, fragmentOffset: 0x4001 }),
+    Error,
+    "Invalid rest bits: 0x4001. Must not include 0x4000, which are named.",
+  );
+});
+
+Deno.test("flagsOf - bigint masks for 64-bit coders", () => {
+  const coder = flagsOf(u64be(), { LOW: 1n, HIGH: 1n << 63n } as const, {
+    rest: "other",
+  });
+
+  const bytes = encode(coder, { LOW: true, HIGH: true, other: 0x100n });
+  const decoded: { LOW: boolean; HIGH: boolean; other: bigint } = decode(
+    coder,
+    bytes,
+  );
+
+  assertEquals([...bytes], [0x80, 0, 0, 0, 0, 0, 0x01, 0x01]);
+  assertEquals(decoded, { LOW: true, HIGH: true, other: 0x100n });
+});
+
+Deno.test("flagsOf - rejects invalid tables", () => {
+  assertThrows(
+    () => flagsOf(u8(), { BOTH: 0x06 }),
+    Error,
+    'Invalid flag "BOTH": 0x6. Must be a single bit.',
+  );
+  assertThrows(
+    () => flagsOf(u8(), { NONE: 0 }),
+    Error,
+    'Invalid flag "NONE": 0x0. Must be a single bit.',
+  );
+  assertThrows(
+    () => flagsOf(u8(), { A: 0x01, B: 0x01 }),
+    Error,
+    'Invalid flag "B": 0x1. Already named "A".',
+  );
+  assertThrows(
+    () => flagsOf(u8(), TCP_FLAGS, { rest: "SYN" }),
+    Error,
+    'Invalid rest: "SYN". Must not be a flag name.',
+  );
+});
@@ -0,0 +1,186 @@
+/**
+ * Maps a bitmask read by a coder to a record of named booleans, one per bit
+ * of a constant table.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { flagsOf, u8 } from "@hertzg/binstruct";
+ *
+ * const TCP_FLAGS = { FIN: 0x01, SYN: 0x02, RST: 0x04, ACK: 0x10 } as const;
+ *
+ * const flags = flagsOf(u8(), TCP_FLAGS);
+ * const [decoded] = flags.decode(new Uint8Array([0x12]));
+ *
+ * assertEquals(decoded, { FIN: false, SYN: true, RST: false, ACK: true });
+ * ```
+ *
+ * @module
+ */
+
+import type { Coder } from "../core.ts";
+import { refine } from "./refine.ts";
+
+/**
+ * A constant table mapping flag names to single-bit masks.
+ */
+export type FlagTable<TValue extends number | bigint> = Readonly<
+  Record<string, TValue>
+>;
+
+/**
+ * The decoded form of a {@linkcode FlagTable}: whether each flag is set.
+ */
+export type Flags<TTable> = { [K in keyof TTable & string]: boolean };
+
+/**
+ * Options for {@linkcode flagsOf}.
+ */
+export interface FlagsOptions<TRest extends string = string> {
+  /**
+   * A key to hold the bits the table has no name for. Without it, decoding a
+   * value with such bits set throws.
+   */
+  readonly rest?: TRest;
+}
+
+function hex(value: bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * Creates a coder that decodes a bitmask to a record of named booleans.
+ *
+ * Each name in `table` is one bit, and decodes to whether that bit is set.
+ * Encoding sets the bits of the names that are `true`. The record's keys are
+ * inferred from an `as const` table.
+ *
+ * Bits the table does not name would be lost on the way through, so they
+ * either make decoding throw or, with `{ rest: "key" }`, are kept under that
+ * key as a value of the coder's type and set again when encoding.
+ *
+ * The masks must have the coder's value type: numbers for coders of up to
+ * 32 bits, bigints for 64-bit ones.
+ *
+ * @param coder - The coder for the bitmask
+ * @param table - The flag names and their single-bit masks
+ * @param options - Where to keep bits the table has no name for
+ * @returns A coder for the flags
+ * @throws {Error} If a mask is not a single bit, or two names share a bit
+ * @throws {Error} If `rest` is one of the flag names
+ * @throws {Error} When decoding a value with unnamed bits set and no `rest` key
+ *
+ * @example Keep unnamed bits under a `rest` key
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { flagsOf, u16be } from "@hertzg/binstruct";
+ *
+ * const IPV4_FLAGS = { DF: 0x4000, MF: 0x2000 } as const;
+ *
+ * const field = flagsOf(u16be(), IPV4_FLAGS, { rest: "fragmentOffset" });
+ * const buffer = new Uint8Array(2);
+ *
+ * field.encode({ DF: true, MF: false, fragmentOffset: 185 }, buffer);
+ *
+ * assertEquals([...buffer], [0x40, 0xb9]);
+ * assertEquals(field.decode(buffer)[0], {
+ *   DF: true,
+ *   MF: false,
+ *   fragmentOffset: 185,
+ * });
+ * ```
+ */
+export function flagsOf<
+  TValue extends number | bigint,
+  const TTable extends FlagTable<TValue>,
+>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options?: FlagsOptions & { readonly rest?: undefined },
+): Coder<Flags<TTable>>;
+export function flagsOf<
+  TValue extends number | bigint,
+  const TTable extends FlagTable<TValue>,
+  const TRest extends string,
+>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options: FlagsOptions<TRest> & { readonly rest: TRest },
+): Coder<Flags<TTable> & { [K in TRest]: TValue }>;
+export function flagsOf<
+  TValue extends number | bigint,
+  const TTable extends FlagTable<TValue>,
+>(
+  coder: Coder<TValue>,
+  table: TTable,
+  options: FlagsOptions = {},
+): Coder<Flags<TTable>> {
+  const { rest } = options;
+
+  // Masks are checked and combined as bigints, whatever the coder reads
+  const flags: [string, bigint][] = [];
+  let named = 0n;
+  for (const [name, mask] of Object.entries(table)) {
+    const bit = BigInt(mask);
+    if (bit <= 0n || (bit & (bit - 1n)) !== 0n) {
+      throw new Error(
+        `Invalid flag "${name}": ${hex(bit)}. Must be a single bit.`,
+      );
+    }
+    const owner = flags.find(([, other]) => other === bit);
+    if (owner !== undefined) {
+      throw new Error(
+        `Invalid flag "${name}": ${hex(bit)}. Already named "${owner[0]}".`,
+      );
+    }
+    flags.push([name, bit]);
+    named |= bit;
+  }
+  if (rest !== undefined && Object.hasOwn(table, rest)) {
+    throw new Error(`Invalid rest: "${rest}". Must not be a flag name.`);
+  }
+
+  const big = Object.values(table).some((mask) => typeof mask === "bigint");
+  const toValue = (bits: bigint) => (big ? bits : Number(bits)) as TValue;
+
+  return refine(coder, {
+    refine: (value: TValue): Flags<TTable> => {
+      const bits = BigInt(value);
+      const unnamed = bits & ~named;
+      if (unnamed !== 0n && rest === undefined) {
+        throw new Error(
+          `Invalid flags: ${hex(bits)}. Bits ${hex(unnamed)} have no name.`,
+        );
+      }
+
+      const decoded: Record<string, boolean | TValue> = {};
+      for (const [name, bit] of flags) {
+        decoded[name] = (bits & bit) !== 0n;
+      }
+      if (rest !== undefined) {
+        decoded[rest] = toValue(unnamed);
+      }
+      return decoded as Flags<TTable>;
+    },
+    unrefine: (refined: Flags<TTable>): TValue => {
+      let bits = 0n;
+      for (const [name, bit] of flags) {
+        if (refined[name as keyof Flags<TTable>]) bits |= bit;
+      }
+      if (rest !== undefined) {
+        const extra = BigInt(
+          (refined as Record<string, unknown>)[rest] as TValue ?? 0,
+        );
+        if ((extra & named) !== 0n) {
+          throw new Error(
+            `Invalid rest bits: ${hex(extra)}. Must not include ${
+              hex(extra & named)
+            }, which are named.`,
+          );
+        }
+        bits |= extra;
+      }
+      return toValue(bits);
+    },
+  })();
+}
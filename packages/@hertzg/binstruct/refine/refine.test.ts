@@ -51,3 +51,12 @@ Deno.test("refine with args", () => {
   assertEquals(buffer[0], 0x7f);
   assertEquals(decoded, 0);
 });
+
+Deno.test("refine - measures through the unrefined value", () => {
+  const text = refine(u8(), {
+    refine: (decoded: number) => String.fromCharCode(decoded),
+    unrefine: (refined: string) => refined.charCodeAt(0),
+  });
+
+  assertEquals(text().measure?.("A"), 1);
+});
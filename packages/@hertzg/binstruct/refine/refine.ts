@@ -58,6 +58,8 @@
 
 export * from "./switch.ts";
 export * from "./fields.ts";
+export * from "./enum.ts";
+export * from "./flags.ts";
 
 import {
   type Coder,
@@ -66,6 +68,7 @@ import {
   kCoderKind,
 } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
 
 const kKindRefine = Symbol("refine");
 
@@ -180,20 +183,49 @@ export function refine<
       ) => {
         const ctx = context ?? createContext("encode");
         refSetValue(ctx, self, refined);
-        return coder.encode(
-          refiner.unrefine(refined, ctx, ...args),
-          buffer,
-          ctx,
-        );
+
+        let unrefined;
+        try {
+          unrefined = refiner.unrefine(refined, ctx, ...args);
+        } catch (e) {
+          throw wrapEncodeError(e, buffer, buffer, undefined, self);
+        }
+
+        try {
+          return coder.encode(unrefined, buffer, ctx);
+        } catch (e) {
+          throw wrapEncodeError(e, buffer, buffer, undefined, coder);
+        }
       },
       decode: (buffer: Uint8Array, context?: Context) => {
         const ctx = context ?? createContext("decode");
-        const [decoded, bytesRead] = coder.decode(buffer, ctx);
-        const refined = refiner.refine(decoded, ctx, ...args);
+
+        let decoded, bytesRead;
+        try {
+          [decoded, bytesRead] = coder.decode(buffer, ctx);
+        } catch (e) {
+          throw wrapDecodeError(e, buffer, buffer, undefined, coder);
+        }
+
+        let refined;
+        try {
+          refined = refiner.refine(decoded, ctx, ...args);
+        } catch (e) {
+          throw wrapDecodeError(e, buffer, buffer, undefined, self);
+        }
         refSetValue(ctx, self, refined);
 
         return [refined, bytesRead];
       },
+      measure: (refined: TRefined, context?: Context) => {
+        const ctx = context ?? createContext("encode");
+        refSetValue(ctx, self, refined);
+        return coder.measure?.(
+          refiner.unrefine(refined, ctx, ...args),
+          ctx,
+        );
+      },
+      describe: (walker) => ({ type: "refine", base: walker.child(coder) }),
     };
   };
 }
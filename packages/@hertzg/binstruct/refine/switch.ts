@@ -98,9 +98,50 @@ import {
 } from "../core.ts";
 import type { Refiner } from "./refine.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
 
 const kKindRefineSwitch = Symbol("refineSwitch");
 
+/**
+ * Key of the decode selector on coders made by {@link refineSwitch}.
+ *
+ * Tools that need to know which arm a base value selects read it, such as the
+ * value generators of `@hertzg/binstruct/testing` aiming for every arm.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext, kSwitchSelector, refineSwitch, u8 } from "@hertzg/binstruct";
+ *
+ * const coder = refineSwitch(
+ *   u8(),
+ *   {
+ *     small: { refine: (n: number) => n, unrefine: (n: number) => n },
+ *     large: { refine: (n: number) => n, unrefine: (n: number) => n },
+ *   },
+ *   {
+ *     refine: (n) => n < 128 ? "small" : "large",
+ *     unrefine: (n) => n < 128 ? "small" : "large",
+ *   },
+ * );
+ *
+ * assertEquals(coder[kSwitchSelector](200, createContext("decode")), "large");
+ * ```
+ */
+export const kSwitchSelector = Symbol("switchSelector");
+
+/**
+ * A coder made by {@link refineSwitch}, carrying the selector that picks the
+ * arm for a decoded base value under {@link kSwitchSelector}.
+ *
+ * @template TDecoded - The type of the refined value
+ */
+export type SwitchCoder<TDecoded> = Coder<TDecoded> & {
+  /** Returns the arm the base value selects, or null for none. */
+  // deno-lint-ignore no-explicit-any
+  readonly [kSwitchSelector]: (base: any, context: Context) => string | null;
+};
+
 /**
  * Extracts the union of all refined types from a record of refiners.
  *
@@ -333,7 +374,7 @@ export function refineSwitch<
       context: Context,
     ) => keyof TRefiners | null;
   },
-): Coder<RefinedUnion<TRefiners>> {
+): SwitchCoder<RefinedUnion<TRefiners>> {
   const refinerKeys = Object.keys(refiners);
 
   const selectRefiner = (
@@ -360,40 +401,78 @@ export function refineSwitch<
     return refiner;
   };
 
-  let self: Coder<RefinedUnion<TRefiners>>;
+  let self: SwitchCoder<RefinedUnion<TRefiners>>;
   return self = {
     [kCoderKind]: kKindRefineSwitch,
+    [kSwitchSelector]: (base, context) =>
+      selector.refine(base, context) as string | null,
     encode: (refined, buffer, context) => {
       const ctx = context ?? createContext("encode");
       refSetValue(ctx, self, refined);
 
-      // Select which refiner to use for encoding
-      const refiner = selectRefiner(
-        selector.unrefine(refined, ctx),
-        "unrefine",
-      );
+      let base: TBase;
+      try {
+        // Select which refiner to use for encoding
+        const refiner = selectRefiner(
+          selector.unrefine(refined, ctx),
+          "unrefine",
+        );
 
-      // Unrefine the value back to base type
-      // deno-lint-ignore no-explicit-any
-      const base = refiner.unrefine(refined as any, ctx);
+        // Unrefine the value back to base type
+        // deno-lint-ignore no-explicit-any
+        base = refiner.unrefine(refined as any, ctx);
+      } catch (e) {
+        throw wrapEncodeError(e, buffer, buffer, undefined, self);
+      }
 
       // Encode the base value
-      return baseCoder.encode(base, buffer, ctx);
+      try {
+        return baseCoder.encode(base, buffer, ctx);
+      } catch (e) {
+        throw wrapEncodeError(e, buffer, buffer, undefined, baseCoder);
+      }
     },
     decode: (buffer, context) => {
       const ctx = context ?? createContext("decode");
 
       // Decode the base value
-      const [base, bytesRead] = baseCoder.decode(buffer, ctx);
+      let base, bytesRead;
+      try {
+        [base, bytesRead] = baseCoder.decode(buffer, ctx);
+      } catch (e) {
+        throw wrapDecodeError(e, buffer, buffer, undefined, baseCoder);
+      }
 
-      // Select which refiner to use for decoding
-      const refiner = selectRefiner(selector.refine(base, ctx), "refine");
+      let refined;
+      try {
+        // Select which refiner to use for decoding
+        const refiner = selectRefiner(selector.refine(base, ctx), "refine");
 
-      // Refine the base value to the target type
-      const refined = refiner.refine(base, ctx);
+        // Refine the base value to the target type
+        refined = refiner.refine(base, ctx);
+      } catch (e) {
+        throw wrapDecodeError(e, buffer, buffer, undefined, self);
+      }
       refSetValue(ctx, self, refined);
 
       return [refined, bytesRead];
     },
+    measure: (refined, context) => {
+      const ctx = context ?? createContext("encode");
+      refSetValue(ctx, self, refined);
+
+      const refiner = selectRefiner(
+        selector.unrefine(refined, ctx),
+        "unrefine",
+      );
+
+      // deno-lint-ignore no-explicit-any
+      return baseCoder.measure?.(refiner.unrefine(refined as any, ctx), ctx);
+    },
+    describe: (walker) => ({
+      type: "switch",
+      base: walker.child(baseCoder),
+      arms: Object.keys(refiners),
+    }),
   };
 }
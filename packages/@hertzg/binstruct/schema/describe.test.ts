@@ -0,0 +1,317 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type Coder, kCoderKind } from "../core.ts";
+import { arrayFL, arrayLP, arrayWhile } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes, bytesLP } from "../bytes/bytes.ts";
+import { align, at, magic, padding } from "../layout/mod.ts";
+import { lazy } from "../lazy/lazy.ts";
+import {
+  f16le,
+  f64be,
+  quicVarint62,
+  s32le,
+  u16be,
+  u64le,
+  u8,
+  varint32,
+  varuint64,
+  zigzag32,
+} from "../numeric/numeric.ts";
+import { computedRef, ref } from "../ref/ref.ts";
+import { refine } from "../refine/refine.ts";
+import { refineSwitch } from "../refine/switch.ts";
+import { stringFL, stringLP, stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { describe, type Schema } from "./describe.ts";
+
+const lengthOf = (schema: Schema) => "length" in schema ? schema.length : null;
+
+const u8Schema: Schema = {
+  type: "uint",
+  coderKind: "u8",
+  bits: 8,
+  endian: "be",
+};
+
+Deno.test("describe - numeric coders", () => {
+  // deno-fmt-ignore
+  const cases: [Schema, Schema][] = [
+    [describe(u16be()),        { type: "uint",   coderKind: "u16be",        bits: 16, endian: "be" }],
+    [describe(s32le()),        { type: "int",    coderKind: "s32le",        bits: 32, endian: "le" }],
+    [describe(u64le()),        { type: "uint",   coderKind: "u64le",        bits: 64, endian: "le" }],
+    [describe(f16le()),        { type: "float",  coderKind: "f16le",        bits: 16, endian: "le" }],
+    [describe(f64be()),        { type: "float",  coderKind: "f64be",        bits: 64, endian: "be" }],
+    [describe(varuint64()),    { type: "varint", coderKind: "varuint64",    encoding: "leb128", signed: false, bits: 64 }],
+    [describe(varint32()),     { type: "varint", coderKind: "varint32",     encoding: "leb128", signed: true,  bits: 32 }],
+    [describe(zigzag32()),     { type: "varint", coderKind: "zigzag32",     encoding: "zigzag", signed: true,  bits: 32 }],
+    [describe(quicVarint62()), { type: "varint", coderKind: "quicVarint62", encoding: "quic",   signed: false, bits: 62 }],
+  ];
+
+  for (const [actual, expected] of cases) {
+    assertEquals(actual, expected);
+  }
+});
+
+Deno.test("describe - length strategies", async (t) => {
+  await t.step("strings", () => {
+    assertEquals(describe(stringLP(u8())), {
+      type: "string",
+      coderKind: "stringLP",
+      encoding: "utf-8",
+      length: { type: "prefixed", prefix: u8Schema },
+    });
+    assertEquals(describe(stringNT()), {
+      type: "string",
+      coderKind: "stringNT",
+      encoding: "utf-8",
+      length: { type: "terminated" },
+    });
+    assertEquals(describe(stringFL(4, "latin1")), {
+      type: "string",
+      coderKind: "stringFL",
+      encoding: "latin1",
+      length: { type: "fixed", value: 4 },
+    });
+    assertEquals(describe(stringFL()), {
+      type: "string",
+      coderKind: "stringFL",
+      encoding: "utf-8",
+      length: { type: "eos" },
+    });
+    assertEquals(describe(stringFL(8, "ISO-8859-1", { pad: " " })), {
+      type: "string",
+      coderKind: "stringFL",
+      encoding: "latin1",
+      length: { type: "fixed", value: 8 },
+      pad: " ",
+      trim: true,
+    });
+  });
+
+  await t.step("byte slices", () => {
+    assertEquals(lengthOf(describe(bytes(16))), { type: "fixed", value: 16 });
+    assertEquals(lengthOf(describe(bytes())), { type: "eos" });
+    assertEquals(describe(bytesLP(u8())), {
+      type: "bytes",
+      coderKind: "bytesLP",
+      length: { type: "prefixed", prefix: u8Schema },
+    });
+  });
+
+  await t.step("arrays", () => {
+    assertEquals(describe(arrayFL(u8(), 3)), {
+      type: "array",
+      coderKind: "arrayFL",
+      element: u8Schema,
+      length: { type: "fixed", value: 3 },
+    });
+    assertEquals(lengthOf(describe(arrayLP(u8(), u8()))), {
+      type: "prefixed",
+      prefix: u8Schema,
+    });
+    assertEquals(
+      lengthOf(describe(arrayWhile(u8(), ({ buffer }) => buffer.length > 0))),
+      { type: "condition" },
+    );
+  });
+
+  await t.step("refs to earlier fields", () => {
+    const count = u8();
+    const header = struct({ count, flags: u8() });
+    const schema = describe(struct({
+      header,
+      items: arrayFL(u16be(), ref(count)),
+      area: bytes(computedRef([ref(count)], (n) => n * 2)),
+      foreign: bytes(ref(u8())),
+    }));
+
+    assertEquals(
+      schema.type === "struct" &&
+        schema.fields.slice(1).map(({ schema }) => lengthOf(schema)),
+      [
+        { type: "ref", path: ["header", "count"] },
+        { type: "computed" },
+        { type: "ref", path: null },
+      ],
+    );
+  });
+});
+
+Deno.test("describe - containers", async (t) => {
+  await t.step("struct and bitStruct", () => {
+    assertEquals(
+      describe(struct({
+        id: u8(),
+        tci: bitStruct({ pcp: 3, dei: 1, vid: 12 }),
+      })),
+      {
+        type: "struct",
+        coderKind: "struct",
+        fields: [
+          { name: "id", schema: u8Schema },
+          {
+            name: "tci",
+            schema: {
+              type: "bits",
+              coderKind: "bitStruct",
+              bitOrder: "msb",
+              endian: "be",
+              fields: [
+                { name: "pcp", bits: 3, signed: false, value: "number" },
+                { name: "dei", bits: 1, signed: false, value: "number" },
+                { name: "vid", bits: 12, signed: false, value: "number" },
+              ],
+            },
+          },
+        ],
+      },
+    );
+  });
+
+  await t.step("refine and refineSwitch", () => {
+    const celsius = refine(u8(), {
+      refine: (value: number) => value - 40,
+      unrefine: (value: number) => value + 40,
+    });
+    const message = refineSwitch(
+      struct({ type: u8(), body: bytes(2) }),
+      {
+        ping: {
+          refine: () => ({ ping: true as const }),
+          unrefine: () => ({ type: 0, body: new Uint8Array(2) }),
+        },
+        temperature: {
+          refine: ({ body }) => ({ celsius: body[0] - 40 }),
+          unrefine: ({ celsius }) => ({
+            type: 1,
+            body: new Uint8Array([celsius + 40, 0]),
+          }),
+        },
+      },
+      {
+        refine: ({ type }) => type === 0 ? "ping" : "temperature",
+        unrefine: (value) => "ping" in value ? "ping" : "temperature",
+      },
+    );
+
+    assertEquals(describe(celsius()), {
+      type: "refine",
+      coderKind: "refine",
+      base: u8Schema,
+    });
+
+    const schema = describe(message);
+    assertEquals(schema.type, "switch");
+    assertEquals(schema.type === "switch" && schema.arms, [
+      "ping",
+      "temperature",
+    ]);
+    assertEquals(schema.type === "switch" && schema.base.type, "struct");
+  });
+
+  await t.step("layout coders", () => {
+    const offset = u8();
+    const schema = describe(struct({
+      signature: magic("BS"),
+      offset,
+      reserved: padding(2),
+      pad: align(4),
+      body: at(ref(offset), u16be()),
+    }));
+
+    assertEquals(
+      schema.type === "struct" && schema.fields.map(({ schema }) => schema),
+      [
+        { type: "magic", coderKind: "magic", bytes: [0x42, 0x53] },
+        u8Schema,
+        {
+          type: "padding",
+          coderKind: "padding",
+          length: { type: "fixed", value: 2 },
+        },
+        { type: "align", coderKind: "align", boundary: 4 },
+        {
+          type: "at",
+          coderKind: "at",
+          offset: { type: "ref", path: ["offset"] },
+          target: { type: "uint", coderKind: "u16be", bits: 16, endian: "be" },
+        },
+      ],
+    );
+  });
+
+  await t.step("lazy is described as what it resolves to", () => {
+    assertEquals(describe(lazy(() => u8())), u8Schema);
+  });
+
+  await t.step("coders without describe are opaque", () => {
+    const custom: Coder<number> = {
+      [kCoderKind]: Symbol("custom"),
+      encode: () => 0,
+      decode: () => [0, 0],
+    };
+
+    assertEquals(describe(struct({ value: custom })), {
+      type: "struct",
+      coderKind: "struct",
+      fields: [{
+        name: "value",
+        schema: { type: "opaque", coderKind: "custom" },
+      }],
+    });
+  });
+});
+
+Deno.test("describe - recursion", async (t) => {
+  await t.step("marks the repeated ancestor with an id", () => {
+    type Expr = { op: number; args: Expr[] };
+    const expr: Coder<Expr> = struct({
+      op: u8(),
+      args: arrayLP(lazy(() => expr), u8()),
+    });
+    const program = struct({ version: u8(), body: expr });
+
+    assertEquals(describe(program), {
+      type: "struct",
+      coderKind: "struct",
+      fields: [
+        { name: "version", schema: u8Schema },
+        {
+          name: "body",
+          schema: {
+            type: "struct",
+            coderKind: "struct",
+            id: "body",
+            fields: [
+              { name: "op", schema: u8Schema },
+              {
+                name: "args",
+                schema: {
+                  type: "array",
+                  coderKind: "arrayLP",
+                  element: {
+                    type: "recursive",
+                    coderKind: "struct",
+                    ref: "body",
+                  },
+                  length: { type: "prefixed", prefix: u8Schema },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  await t.step("refuses a lazy factory that never repeats a coder", () => {
+    type Node = { next: Node[] };
+    const node = (): Coder<Node> => struct({ next: arrayLP(lazy(node), u8()) });
+
+    assertThrows(
+      () => describe(node()),
+      Error,
+      "describe: Coder tree is deeper than 256 levels",
+    );
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Schema introspection: a coder tree described as plain data.
+ *
+ * {@link describe} walks a coder and returns a {@link Schema}: struct field
+ * names, numeric widths and byte order, the length strategy of every string,
+ * byte slice and array, `bitStruct` bit layouts and `refineSwitch` arms. The
+ * result is JSON-serializable, so it can be stored, diffed, or turned into
+ * other schema languages with {@link toJsonSchema} and
+ * {@link toKaitaiStruct}.
+ *
+ * Coders take part by implementing the optional `describe` method of
+ * {@link Coder}. Coders that do not are described as `opaque`.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { arrayLP, struct, u16le, u8 } from "@hertzg/binstruct";
+ * import { describe } from "@hertzg/binstruct/schema";
+ *
+ * const schema = describe(struct({ id: u8(), samples: arrayLP(u16le(), u8()) }));
+ *
+ * assertEquals(schema, {
+ *   type: "struct",
+ *   coderKind: "struct",
+ *   fields: [
+ *     { name: "id", schema: { type: "uint", coderKind: "u8", bits: 8, endian: "be" } },
+ *     {
+ *       name: "samples",
+ *       schema: {
+ *         type: "array",
+ *         coderKind: "arrayLP",
+ *         length: { type: "prefixed", prefix: { type: "uint", coderKind: "u8", bits: 8, endian: "be" } },
+ *         element: { type: "uint", coderKind: "u16le", bits: 16, endian: "le" },
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, kCoderKind } from "../core.ts";
+import { formatPath, type PathSegment } from "../errors.ts";
+import type { LengthOrRef } from "../length.ts";
+import { isRef, kRefTarget } from "../ref/ref.ts";
+
+/**
+ * How the length of a string, byte slice or array is determined.
+ *
+ * - `fixed`: a literal byte or element count
+ * - `prefixed`: a count encoded right before the data by `prefix`
+ * - `ref`: the value of an earlier field, at `path` (null when the field is
+ *   outside the described tree)
+ * - `computed`: calculated by a `computedRef` from other fields
+ * - `terminated`: the data ends at a zero byte (a zero code unit in UTF-16)
+ * - `condition`: an `arrayWhile` condition decides
+ * - `eos`: the data runs to the end of the input
+ */
+export type LengthSchema =
+  | { type: "fixed"; value: number }
+  | { type: "prefixed"; prefix: Schema }
+  | { type: "ref"; path: PathSegment[] | null }
+  | { type: "computed" }
+  | { type: "terminated" }
+  | { type: "condition" }
+  | { type: "eos" };
+
+/**
+ * What decides whether an optional value is present.
+ *
+ * - `ref`: the value of an earlier field is truthy, at `path` (null when the
+ *   field is outside the described tree)
+ * - `computed`: a `computedRef` from other fields is truthy
+ * - `condition`: a predicate over the enclosing struct decides
+ * - `tagged`: a tag of 0 or 1, encoded right before the value by `tag`
+ */
+export type PresenceSchema =
+  | Extract<LengthSchema, { type: "ref" | "computed" | "condition" }>
+  | { type: "tagged"; tag: Schema };
+
+/** A struct field: its name and the schema of its value. */
+export interface FieldSchema {
+  /** The field name. */
+  name: string;
+  /** The schema of the field's value. */
+  schema: Schema;
+}
+
+/** A `bitStruct` field: its name, width and what it decodes to. */
+export interface BitFieldSchema {
+  /** The field name. */
+  name: string;
+  /** The field width in bits. */
+  bits: number;
+  /** Whether the field is two's-complement signed. */
+  signed: boolean;
+  /** The type the field decodes to. */
+  value: "number" | "bigint" | "boolean";
+}
+
+/**
+ * Properties every schema node has.
+ */
+export interface SchemaBase {
+  /** Description of the coder's kind symbol, e.g. `u16le` or `arrayLP`. */
+  coderKind: string;
+  /** Set on nodes that a `recursive` node refers back to. */
+  id?: string;
+}
+
+/**
+ * The type-specific part of a schema node, as returned by a coder's
+ * `describe` method.
+ *
+ * `padding`, `align` and `magic` nodes have no value. An `at` node's `offset`
+ * is counted from the start of the enclosing struct and described like a
+ * length. `recursive` nodes appear where a coder (reached through `lazy`)
+ * contains itself; `ref` names the `id` of the enclosing node it repeats.
+ * `opaque` nodes stand for coders that cannot describe themselves.
+ */
+export type SchemaNode =
+  | { type: "uint" | "int" | "float"; bits: number; endian: "be" | "le" }
+  | {
+    type: "varint";
+    encoding: "leb128" | "zigzag" | "quic";
+    signed: boolean;
+    bits: number;
+  }
+  | { type: "bcd"; digits: number; endian: "be" | "le" }
+  | { type: "octal"; digits: number; terminator: string }
+  | {
+    type: "string";
+    encoding: string;
+    length: LengthSchema;
+    /** The character fixed-length fields are padded with, if any. */
+    pad?: string;
+    /** Whether trailing pad characters are dropped when decoding. */
+    trim?: boolean;
+  }
+  | { type: "bytes"; length: LengthSchema }
+  | { type: "array"; element: Schema; length: LengthSchema }
+  | { type: "struct"; fields: FieldSchema[] }
+  | {
+    type: "bits";
+    bitOrder: "msb" | "lsb";
+    endian: "be" | "le";
+    fields: BitFieldSchema[];
+  }
+  | { type: "optional"; presence: PresenceSchema; value: Schema }
+  | { type: "refine"; base: Schema }
+  | { type: "switch"; base: Schema; arms: string[] }
+  | { type: "padding"; length: LengthSchema }
+  | { type: "align"; boundary: number }
+  | { type: "magic"; bytes: number[] }
+  | { type: "at"; offset: LengthSchema; target: Schema }
+  | { type: "recursive"; ref: string }
+  | { type: "opaque" };
+
+/**
+ * A serializable description of a coder, as returned by {@link describe}.
+ */
+export type Schema = SchemaBase & SchemaNode;
+
+/**
+ * Passed to a coder's `describe` method to describe what it is built from.
+ */
+export interface SchemaWalker {
+  /**
+   * Describes a child coder.
+   *
+   * @param coder - The child coder
+   * @param field - The child's field name, when it is a struct field
+   * @returns The child's schema
+   */
+  // deno-lint-ignore no-explicit-any
+  child(coder: Coder<any>, field?: string): Schema;
+  /**
+   * Describes a literal or ref length.
+   *
+   * @param lengthOrRef - The length as given to the coder factory
+   * @returns The length strategy
+   */
+  length(lengthOrRef: LengthOrRef): LengthSchema;
+}
+
+const maxDepth = 256;
+
+/**
+ * Describes a coder tree as a serializable {@link Schema}.
+ *
+ * Refs used as lengths are resolved to the path of the field whose coder they
+ * reference, if that field was described earlier in the walk. Coders reached
+ * again while they are still being described (recursive structures built with
+ * `lazy`) become `recursive` nodes.
+ *
+ * @param coder - The coder to describe
+ * @returns The schema tree
+ * @throws {Error} If the tree is deeper than 256 levels, which happens when a
+ * `lazy` factory builds a new coder every time instead of returning one
+ *
+ * @example Lengths taken from other fields, and recursion
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { arrayLP, bytes, type Coder, lazy, ref, struct, u8 } from "@hertzg/binstruct";
+ * import { describe } from "@hertzg/binstruct/schema";
+ *
+ * const size = u8();
+ * const chunk = describe(struct({ size, data: bytes(ref(size)) }));
+ * assertEquals(chunk.type === "struct" && chunk.fields[1].schema, {
+ *   type: "bytes",
+ *   coderKind: "bytes",
+ *   length: { type: "ref", path: ["size"] },
+ * });
+ *
+ * type Tree = { children: Tree[] };
+ * const tree: Coder<Tree> = struct({ children: arrayLP(lazy(() => tree), u8()) });
+ * const schema = describe(tree);
+ * assertEquals(schema.id, "value");
+ * assertEquals(
+ *   schema.type === "struct" && schema.fields[0].schema.type === "array" &&
+ *     schema.fields[0].schema.element,
+ *   { type: "recursive", coderKind: "struct", ref: "value" },
+ * );
+ * ```
+ */
+// deno-lint-ignore no-explicit-any
+export function describe(coder: Coder<any>): Schema {
+  // deno-lint-ignore no-explicit-any
+  const paths = new Map<Coder<any>, PathSegment[]>();
+  // deno-lint-ignore no-explicit-any
+  const active = new Map<Coder<any>, PathSegment[]>();
+  // deno-lint-ignore no-explicit-any
+  const ids = new Map<Coder<any>, string>();
+  const usedIds = new Set<string>();
+
+  const length = (lengthOrRef: LengthOrRef): LengthSchema => {
+    if (!isRef<number>(lengthOrRef)) {
+      return { type: "fixed", value: lengthOrRef };
+    }
+
+    const target = lengthOrRef[kRefTarget];
+    if (target === undefined) {
+      return { type: "computed" };
+    }
+    return { type: "ref", path: paths.get(target) ?? null };
+  };
+
+  // deno-lint-ignore no-explicit-any
+  const walk = (coder: Coder<any>, path: PathSegment[]): Schema => {
+    const coderKind = coder[kCoderKind].description ?? "unknown";
+
+    const ancestor = active.get(coder);
+    if (ancestor !== undefined) {
+      let id = ids.get(coder);
+      if (id === undefined) {
+        id = formatPath(ancestor);
+        for (let n = 2; usedIds.has(id); n++) {
+          id = `${formatPath(ancestor)}#${n}`;
+        }
+        ids.set(coder, id);
+        usedIds.add(id);
+      }
+      return { type: "recursive", ref: id, coderKind };
+    }
+
+    if (coder.describe === undefined) {
+      return { type: "opaque", coderKind };
+    }
+    if (active.size >= maxDepth) {
+      throw new Error(
+        `describe: Coder tree is deeper than ${maxDepth} levels at ${
+          formatPath(path)
+        }; does a lazy factory build a new coder on every call?`,
+      );
+    }
+
+    if (!paths.has(coder)) {
+      paths.set(coder, path);
+    }
+
+    active.set(coder, path);
+    let node: SchemaNode;
+    try {
+      node = coder.describe({
+        child: (child, field) =>
+          walk(child, field === undefined ? path : [...path, field]),
+        length,
+      });
+    } finally {
+      active.delete(coder);
+    }
+
+    // A coder that describes itself as one of its children (lazy) passes on
+    // that child's coder kind
+    const id = ids.get(coder);
+    return id === undefined
+      ? { coderKind, ...node }
+      : { coderKind, ...node, id };
+  };
+
+  return walk(coder, []);
+}
@@ -0,0 +1,186 @@
+import { assertEquals } from "@std/assert";
+import type { Coder } from "../core.ts";
+import { arrayFL, arrayLP } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { at, magic, padding } from "../layout/mod.ts";
+import { lazy } from "../lazy/lazy.ts";
+import {
+  bcd,
+  f32le,
+  octal,
+  s16be,
+  s64be,
+  u48le,
+  u56be,
+  u8,
+  varint32,
+} from "../numeric/numeric.ts";
+import { refine } from "../refine/refine.ts";
+import { stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { describe, type Schema } from "./describe.ts";
+import { type JsonSchema, toJsonSchema } from "./json-schema.ts";
+
+const byte = { type: "integer", minimum: 0, maximum: 255 };
+
+Deno.test("toJsonSchema - scalars", () => {
+  // deno-fmt-ignore
+  const cases: [Schema, JsonSchema][] = [
+    [describe(s16be()),    { type: "integer", minimum: -32768, maximum: 32767 }],
+    [describe(varint32()), { type: "integer", minimum: -2147483648, maximum: 2147483647 }],
+    [describe(f32le()),    { type: "number" }],
+    [describe(u48le()),    { type: "integer", minimum: 0, maximum: 281474976710655 }],
+    [describe(bcd(2)),     { type: "integer", minimum: 0, maximum: 9999 }],
+    [describe(octal(8)),   { type: "integer", minimum: 0, maximum: 2097151 }],
+    [describe(stringNT()), { type: "string" }],
+    [describe(s64be()),    {
+      type: "object",
+      properties: { $bigint: { type: "string", pattern: "^-?[0-9]+$" } },
+      required: ["$bigint"],
+      additionalProperties: false,
+    }],
+    [describe(u56be()),    {
+      type: "object",
+      properties: { $bigint: { type: "string", pattern: "^[0-9]+$" } },
+      required: ["$bigint"],
+      additionalProperties: false,
+    }],
+  ];
+
+  for (const [schema, expected] of cases) {
+    assertEquals(toJsonSchema(schema), {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      ...expected,
+    });
+  }
+});
+
+Deno.test("toJsonSchema - containers", async (t) => {
+  await t.step("arrays carry fixed counts only", () => {
+    const { $schema: _, ...fixed } = toJsonSchema(describe(arrayFL(u8(), 2)));
+    const { $schema: __, ...prefixed } = toJsonSchema(
+      describe(arrayLP(u8(), u8())),
+    );
+
+    assertEquals(fixed, {
+      type: "array",
+      items: byte,
+      minItems: 2,
+      maxItems: 2,
+    });
+    assertEquals(prefixed, { type: "array", items: byte });
+  });
+
+  await t.step("bit structs bound each field by its width", () => {
+    const { $schema: _, ...schema } = toJsonSchema(
+      describe(bitStruct({ version: 4, ihl: 4 })),
+    );
+
+    assertEquals(schema, {
+      type: "object",
+      properties: {
+        version: { type: "integer", minimum: 0, maximum: 15 },
+        ihl: { type: "integer", minimum: 0, maximum: 15 },
+      },
+      required: ["version", "ihl"],
+      additionalProperties: false,
+    });
+  });
+
+  await t.step("typed bit fields keep their value types", () => {
+    const { $schema: _, ...schema } = toJsonSchema(
+      describe(bitStruct({
+        delta: { bits: 4, signed: true },
+        flag: { type: "boolean" },
+        id: { bits: 35, type: "bigint" },
+      })),
+    );
+
+    assertEquals(schema.properties, {
+      delta: { type: "integer", minimum: -8, maximum: 7 },
+      flag: { type: "boolean" },
+      id: {
+        type: "object",
+        properties: { $bigint: { type: "string", pattern: "^[0-9]+$" } },
+        required: ["$bigint"],
+        additionalProperties: false,
+      },
+    });
+  });
+
+  await t.step("byte slices without a fixed length are unbounded", () => {
+    const { $schema: _, ...schema } = toJsonSchema(describe(bytes()));
+
+    assertEquals(schema, {
+      type: "object",
+      properties: { $bytes: { type: "array", items: byte } },
+      required: ["$bytes"],
+      additionalProperties: false,
+    });
+  });
+
+  await t.step("layout fields have no value and are optional", () => {
+    const { $schema: _, ...schema } = toJsonSchema(
+      describe(struct({
+        signature: magic("BS"),
+        reserved: padding(2),
+        data: at(8, u8()),
+      })),
+    );
+
+    assertEquals(schema, {
+      type: "object",
+      properties: {
+        signature: { type: "null" },
+        reserved: { type: "null" },
+        data: byte,
+      },
+      required: ["data"],
+      additionalProperties: false,
+    });
+  });
+
+  await t.step("refined values accept anything", () => {
+    const flag = refine(u8(), {
+      refine: (value: number) => value !== 0,
+      unrefine: (value: boolean) => value ? 1 : 0,
+    });
+    const { $schema: _, ...schema } = toJsonSchema(describe(flag()));
+
+    assertEquals(schema, {
+      description: "Refined from u8; the refiner decides the shape",
+    });
+  });
+});
+
+Deno.test("toJsonSchema - recursion becomes a $ref", () => {
+  type Node = { value: number; children: Node[] };
+  const node: Coder<Node> = struct({
+    value: u8(),
+    children: arrayLP(lazy(() => node), u8()),
+  });
+  const schema = toJsonSchema(describe(struct({ "a/b": u8(), root: node })));
+
+  assertEquals(schema, {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {
+      "a/b": byte,
+      root: {
+        type: "object",
+        properties: {
+          value: byte,
+          children: {
+            type: "array",
+            items: { $ref: "#/properties/root" },
+          },
+        },
+        required: ["value", "children"],
+        additionalProperties: false,
+      },
+    },
+    required: ["a/b", "root"],
+    additionalProperties: false,
+  });
+});
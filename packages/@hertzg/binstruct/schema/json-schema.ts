@@ -0,0 +1,237 @@
+/**
+ * Export a {@link Schema} as a JSON Schema document.
+ *
+ * @module
+ */
+
+import type { LengthSchema, Schema } from "./describe.ts";
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+function integerRange(signed: boolean, bits: number): JsonSchema {
+  return signed
+    ? {
+      type: "integer",
+      minimum: -(2 ** (bits - 1)),
+      maximum: 2 ** (bits - 1) - 1,
+    }
+    : { type: "integer", minimum: 0, maximum: 2 ** bits - 1 };
+}
+
+function bigintString(signed: boolean): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      $bigint: { type: "string", pattern: signed ? "^-?[0-9]+$" : "^[0-9]+$" },
+    },
+    required: ["$bigint"],
+    additionalProperties: false,
+  };
+}
+
+function countLimits(length: LengthSchema): JsonSchema {
+  return length.type === "fixed"
+    ? { minItems: length.value, maxItems: length.value }
+    : {};
+}
+
+// Layout coders that decode to `undefined`, which JSON leaves out
+function hasNoValue(schema: Schema): boolean {
+  return schema.type === "padding" || schema.type === "align" ||
+    schema.type === "magic";
+}
+
+function pointerSegment(segment: string): string {
+  return encodeURIComponent(
+    segment.replaceAll("~", "~0").replaceAll("/", "~1"),
+  );
+}
+
+/**
+ * Converts a {@link Schema} into a JSON Schema (draft 2020-12) for the JSON
+ * form of decoded values, as read by `binstruct encode`.
+ *
+ * Values map the way the binstruct CLI serializes them:
+ *
+ * - integers up to 48 bits, BCD and octal numbers are `integer`s with their
+ *   range, floats `number`s
+ * - 56 and 64-bit integers, varints and `bigint` bit fields are
+ *   `{ "$bigint": "<decimal>" }`, and `boolean` bit fields `boolean`s
+ * - byte slices are `{ "$bytes": [<byte>, …] }`
+ * - structs and bit structs are objects with every field required, except
+ *   padding, alignment and magic bytes, which have no value and may be
+ *   omitted or `null`
+ * - optional fields may be omitted or `null` too, for when they are absent
+ *
+ * Values produced by `refine` or `refineSwitch` take whatever shape the
+ * refiner gives them, and coders that cannot describe themselves could hold
+ * anything, so both accept any value. Recursive coders become `$ref`s to the
+ * enclosing subschema.
+ *
+ * @param schema - A schema from {@link describe}
+ * @returns The JSON Schema document
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bytes, struct, u16be, u64le } from "@hertzg/binstruct";
+ * import { describe, toJsonSchema } from "@hertzg/binstruct/schema";
+ *
+ * const jsonSchema = toJsonSchema(
+ *   describe(struct({ port: u16be(), nonce: u64le(), key: bytes(4) })),
+ * );
+ *
+ * assertEquals(jsonSchema, {
+ *   $schema: "https://json-schema.org/draft/2020-12/schema",
+ *   type: "object",
+ *   properties: {
+ *     port: { type: "integer", minimum: 0, maximum: 65535 },
+ *     nonce: {
+ *       type: "object",
+ *       properties: { $bigint: { type: "string", pattern: "^[0-9]+$" } },
+ *       required: ["$bigint"],
+ *       additionalProperties: false,
+ *     },
+ *     key: {
+ *       type: "object",
+ *       properties: {
+ *         $bytes: {
+ *           type: "array",
+ *           items: { type: "integer", minimum: 0, maximum: 255 },
+ *           minItems: 4,
+ *           maxItems: 4,
+ *         },
+ *       },
+ *       required: ["$bytes"],
+ *       additionalProperties: false,
+ *     },
+ *   },
+ *   required: ["port", "nonce", "key"],
+ *   additionalProperties: false,
+ * });
+ * ```
+ */
+export function toJsonSchema(schema: Schema): JsonSchema {
+  const pointers = new Map<string, string>();
+
+  const convert = (schema: Schema, pointer: string): JsonSchema => {
+    if (schema.id !== undefined) {
+      pointers.set(schema.id, pointer);
+    }
+
+    switch (schema.type) {
+      case "uint":
+      case "int":
+        return schema.bits > 53
+          ? bigintString(schema.type === "int")
+          : integerRange(schema.type === "int", schema.bits);
+      case "float":
+        return { type: "number" };
+      case "bcd":
+        return {
+          type: "integer",
+          minimum: 0,
+          maximum: 10 ** schema.digits - 1,
+        };
+      case "octal":
+        return {
+          type: "integer",
+          minimum: 0,
+          maximum: Math.min(8 ** schema.digits - 1, Number.MAX_SAFE_INTEGER),
+        };
+      case "varint":
+        return schema.bits > 32
+          ? bigintString(schema.signed)
+          : integerRange(schema.signed, schema.bits);
+      case "string":
+        return { type: "string" };
+      case "bytes":
+        return {
+          type: "object",
+          properties: {
+            $bytes: {
+              type: "array",
+              items: integerRange(false, 8),
+              ...countLimits(schema.length),
+            },
+          },
+          required: ["$bytes"],
+          additionalProperties: false,
+        };
+      case "array":
+        return {
+          type: "array",
+          items: convert(schema.element, `${pointer}/items`),
+          ...countLimits(schema.length),
+        };
+      case "struct":
+        return {
+          type: "object",
+          properties: Object.fromEntries(
+            schema.fields.map(({ name, schema }) => [
+              name,
+              convert(schema, `${pointer}/properties/${pointerSegment(name)}`),
+            ]),
+          ),
+          required: schema.fields
+            .filter(({ schema }) =>
+              !hasNoValue(schema) && schema.type !== "optional"
+            )
+            .map(({ name }) => name),
+          additionalProperties: false,
+        };
+      case "bits":
+        return {
+          type: "object",
+          properties: Object.fromEntries(
+            schema.fields.map(({ name, bits, signed, value }) => [
+              name,
+              value === "boolean"
+                ? { type: "boolean" }
+                : value === "bigint"
+                ? bigintString(signed)
+                : integerRange(signed, bits),
+            ]),
+          ),
+          required: schema.fields.map(({ name }) => name),
+          additionalProperties: false,
+        };
+      case "optional":
+        return {
+          anyOf: [
+            convert(schema.value, `${pointer}/anyOf/0`),
+            { type: "null" },
+          ],
+        };
+      case "refine":
+        return {
+          description:
+            `Refined from ${schema.base.coderKind}; the refiner decides the shape`,
+        };
+      case "switch":
+        return {
+          description: `One of the refineSwitch arms ${schema.arms.join(", ")}`,
+        };
+      case "padding":
+      case "align":
+      case "magic":
+        return { type: "null" };
+      case "at":
+        return convert(schema.target, pointer);
+      case "recursive":
+        return { $ref: `#${pointers.get(schema.ref) ?? ""}` };
+      case "opaque":
+        return {
+          description: `Opaque ${schema.coderKind} coder`,
+        };
+    }
+  };
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    ...convert(schema, ""),
+  };
+}
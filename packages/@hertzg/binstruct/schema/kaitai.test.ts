@@ -0,0 +1,304 @@
+import { assertEquals } from "@std/assert";
+import type { Coder } from "../core.ts";
+import { arrayFL, arrayLP, arrayWhile } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { align, at, magic, padding } from "../layout/mod.ts";
+import { lazy } from "../lazy/lazy.ts";
+import {
+  bcd,
+  f16le,
+  octal,
+  s24be,
+  u24le,
+  u32le,
+  u8,
+  varuint32,
+  zigzag32,
+} from "../numeric/numeric.ts";
+import { computedRef, ref } from "../ref/ref.ts";
+import { stringFL, stringLP, stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { describe } from "./describe.ts";
+import { toKaitaiStruct } from "./kaitai.ts";
+
+const ksy = (...lines: string[]) => `${lines.join("\n")}\n`;
+
+Deno.test("toKaitaiStruct - non-struct roots become a value attribute", () => {
+  assertEquals(
+    toKaitaiStruct(describe(u32le())),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: value",
+      "    type: u4le",
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - lengths", () => {
+  const size = u8();
+  const coder = struct({
+    size,
+    label: stringNT(),
+    payload: bytes(ref(size)),
+    padding: bytes(computedRef([ref(size)], (n) => 4 - n % 4)),
+    tags: arrayWhile(u8(), ({ buffer }) => buffer.length > 0),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder), { id: "Packet" }),
+    ksy(
+      "meta:",
+      "  id: packet",
+      "seq:",
+      "  - id: size",
+      "    type: u1",
+      "  - id: label",
+      "    type: strz",
+      "    encoding: UTF-8",
+      "  - id: payload",
+      "    size: _root.size",
+      "  - id: padding",
+      "    size-eos: true",
+      '    doc: "length is computed from other fields"',
+      "  - id: tags",
+      "    type: u1",
+      "    repeat: eos",
+      '    doc: "arrayWhile: repeats while a condition holds"',
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - prefixed elements get an entry type", () => {
+  const coder = struct({ names: arrayFL(stringLP(u8()), 2) });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: names",
+      "    type: names_entry",
+      "    repeat: expr",
+      "    repeat-expr: 2",
+      "types:",
+      "  names_entry:",
+      "    seq:",
+      "      - id: value_len",
+      "        type: u1",
+      "      - id: value",
+      "        type: str",
+      "        encoding: UTF-8",
+      "        size: value_len",
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - coders without a Kaitai equivalent", () => {
+  const coder = struct({ half: f16le(), id: varuint32(), delta: zigzag32() });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "  imports:",
+      "    - /common/vlq_base128_le",
+      "seq:",
+      "  - id: half",
+      "    size: 2",
+      '    doc: "f16le: half-precision float"',
+      "  - id: id",
+      "    type: vlq_base128_le",
+      "  - id: delta",
+      "    type: zigzag32",
+      '    doc: "zigzag32: no Kaitai equivalent"',
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - odd widths and decimal numbers", () => {
+  const coder = struct({
+    sample: u24le(),
+    offset: s24be(),
+    date: bcd(4),
+    mode: octal(8),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: sample",
+      "    type: b24le",
+      "  - id: offset",
+      "    type: b24be",
+      '    doc: "s24be: two\'s-complement signed, read unsigned"',
+      "  - id: date",
+      "    size: 4",
+      '    doc: "bcd: packed BCD, be"',
+      "  - id: mode",
+      "    type: str",
+      "    encoding: ASCII",
+      "    size: 8",
+      '    doc: "octal: octal digits, read with to_i(8)"',
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - padded strings", () => {
+  const coder = struct({
+    oem: stringFL(8, "ascii", { pad: " " }),
+    name: stringFL(8, "utf-16le", { pad: "\0" }),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: oem",
+      "    type: str",
+      "    encoding: ASCII",
+      "    size: 8",
+      "    pad-right: 32",
+      "  - id: name",
+      "    type: str",
+      "    encoding: UTF-16LE",
+      "    size: 8",
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - layout coders", () => {
+  const nameOffset = u8();
+  const coder = struct({
+    signature: magic("BS"),
+    nameOffset,
+    reserved: padding(2),
+    pad: align(4),
+    name: at(ref(nameOffset), stringLP(u8())),
+    version: at(8, u8()),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: signature",
+      "    contents:",
+      "      - 66",
+      "      - 83",
+      "  - id: name_offset",
+      "    type: u1",
+      "  - id: reserved",
+      "    size: 2",
+      "  - id: pad",
+      '    size: "(4 - _io.pos % 4) % 4"',
+      '    doc: "align(4): binstruct counts from the enclosing struct"',
+      "instances:",
+      "  name:",
+      "    pos: _root.name_offset",
+      "    type: name_at",
+      "  version:",
+      "    type: u1",
+      "    pos: 8",
+      "types:",
+      "  name_at:",
+      "    seq:",
+      "      - id: value_len",
+      "        type: u1",
+      "      - id: value",
+      "        type: str",
+      "        encoding: UTF-8",
+      "        size: value_len",
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - recursion refers to the enclosing type", () => {
+  type Node = { children: Node[] };
+  const node: Coder<Node> = struct({
+    children: arrayLP(lazy(() => node), u8()),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(struct({ tree: node }))),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: tree",
+      "    type: tree",
+      "types:",
+      "  tree:",
+      "    seq:",
+      "      - id: children_count",
+      "        type: u1",
+      "      - id: children",
+      "        type: tree",
+      "        repeat: expr",
+      "        repeat-expr: children_count",
+    ),
+  );
+
+  assertEquals(
+    toKaitaiStruct(describe(node), { id: "tree" }),
+    ksy(
+      "meta:",
+      "  id: tree",
+      "seq:",
+      "  - id: children_count",
+      "    type: u1",
+      "  - id: children",
+      "    type: tree",
+      "    repeat: expr",
+      "    repeat-expr: children_count",
+    ),
+  );
+});
+
+Deno.test("toKaitaiStruct - bit structs carry their bit order", () => {
+  const coder = struct({
+    header: bitStruct({
+      final: { type: "boolean" },
+      type: 2,
+      shift: { bits: 5, signed: true },
+    }, { bitOrder: "lsb" }),
+    register: bitStruct({ mode: 4, count: 12 }, { endian: "le" }),
+  });
+
+  assertEquals(
+    toKaitaiStruct(describe(coder)),
+    ksy(
+      "meta:",
+      "  id: binstruct",
+      "seq:",
+      "  - id: header",
+      "    type: header",
+      "  - id: register",
+      "    size: 2",
+      '    doc: "bitStruct: msb-first le bits, read as bytes"',
+      "types:",
+      "  header:",
+      "    meta:",
+      "      bit-endian: le",
+      "    seq:",
+      "      - id: final",
+      "        type: b1",
+      "      - id: type",
+      "        type: b2",
+      "      - id: shift",
+      "        type: b5",
+      `        doc: "two's-complement signed, read unsigned"`,
+    ),
+  );
+});
@@ -0,0 +1,468 @@
+/**
+ * Export a {@link Schema} as a Kaitai Struct `.ksy` document.
+ *
+ * @module
+ */
+
+import type { LengthSchema, Schema } from "./describe.ts";
+
+/**
+ * Options for {@link toKaitaiStruct}.
+ */
+export interface KaitaiOptions {
+  /** The `meta.id` of the format, in lower snake case. Defaults to `binstruct`. */
+  id?: string;
+}
+
+type Attribute = Record<string, string | number | boolean | number[]>;
+type KaitaiType = {
+  meta?: Record<string, string>;
+  seq: Attribute[];
+  instances?: Record<string, Attribute>;
+};
+
+// Attributes placed by `at` carry a `pos` and belong in `instances`
+function kaitaiType(attributes: Attribute[]): KaitaiType {
+  const placed = attributes.filter((attribute) => "pos" in attribute);
+  const seq = attributes.filter((attribute) => !("pos" in attribute));
+  return placed.length === 0 ? { seq } : {
+    seq,
+    instances: Object.fromEntries(
+      placed.map(({ id, ...attribute }) => [id, attribute]),
+    ),
+  };
+}
+
+// Kaitai identifiers are lower snake case
+function snake(name: string): string {
+  const id = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9_]+/g, "_")
+    .toLowerCase()
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(id) ? id : `f_${id}`;
+}
+
+function numericType(schema: Schema & { type: "uint" | "int" | "float" }) {
+  const prefix = schema.type === "uint"
+    ? "u"
+    : schema.type === "int"
+    ? "s"
+    : "f";
+  const bytes = schema.bits / 8;
+  if (prefix !== "f" && ![1, 2, 4, 8].includes(bytes)) {
+    // Odd widths have no integer type; byte-aligned bits read the same
+    return `b${schema.bits}${schema.endian}`;
+  }
+  return bytes === 1 ? `${prefix}1` : `${prefix}${bytes}${schema.endian}`;
+}
+
+const plainScalar = /^[A-Za-z_/][A-Za-z0-9_./-]*$/;
+const reserved = /^(true|false|yes|no|on|off|null|~)$/i;
+
+function scalar(value: string | number | boolean): string {
+  if (typeof value !== "string") {
+    return String(value);
+  }
+  return plainScalar.test(value) && !reserved.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function yaml(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (typeof item !== "object" || item === null) {
+        return [`${indent}- ${scalar(item)}`];
+      }
+      const [first, ...rest] = yaml(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(
+    ([key, item]) =>
+      typeof item === "object" && item !== null
+        ? [`${indent}${key}:`, ...yaml(item, `${indent}  `)]
+        : [`${indent}${key}: ${scalar(item as string | number | boolean)}`],
+  );
+}
+
+/**
+ * Converts a {@link Schema} into a Kaitai Struct `.ksy` YAML document.
+ *
+ * Structs and bit structs become user types, length prefixes become their own
+ * `<field>_len` / `<field>_count` attributes, and lengths taken from other
+ * fields become `_root` expressions. Everything Kaitai cannot express
+ * natively is still emitted, with a `doc` saying so:
+ *
+ * - half-precision floats are read as two raw bytes, and packed BCD numbers
+ *   as raw bytes too
+ * - 24, 40, 48 and 56-bit integers are read as byte-aligned bit integers
+ *   (`b24be`), unsigned; ASCII octal numbers are read as strings
+ * - LEB128 varints use the `vlq_base128_le` type from the Kaitai format
+ *   library; ZigZag and QUIC varints and opaque coders reference a type named
+ *   after the coder kind, for you to supply
+ * - `arrayWhile` arrays repeat to the end of the stream
+ * - `at` values become instances with a `pos`, and `align` a size
+ *   expression; Kaitai counts both from the start of the stream, binstruct
+ *   from the start of the enclosing struct
+ * - `refine` and `refineSwitch` are described by their base layout
+ * - optional fields get an `if` when their condition is a tag or a ref to
+ *   another field; one decided by a predicate is always read
+ * - signed bit fields are read unsigned; bit structs that are LSB-first and
+ *   big-endian, or MSB-first and little-endian, have no Kaitai equivalent
+ *
+ * @param schema - A schema from {@link describe}
+ * @param options - The format id
+ * @returns The `.ksy` document
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { arrayLP, bitStruct, ref, stringFL, struct, u16be, u8 } from "@hertzg/binstruct";
+ * import { describe, toKaitaiStruct } from "@hertzg/binstruct/schema";
+ *
+ * const nameLength = u8();
+ * const coder = struct({
+ *   flags: bitStruct({ urgent: 1, reserved: 7 }),
+ *   nameLength,
+ *   name: stringFL(ref(nameLength)),
+ *   ports: arrayLP(u16be(), u8()),
+ * });
+ *
+ * assertEquals(
+ *   toKaitaiStruct(describe(coder), { id: "demo" }),
+ *   [
+ *     "meta:",
+ *     "  id: demo",
+ *     "seq:",
+ *     "  - id: flags",
+ *     "    type: flags",
+ *     "  - id: name_length",
+ *     "    type: u1",
+ *     "  - id: name",
+ *     "    type: str",
+ *     "    encoding: UTF-8",
+ *     "    size: _root.name_length",
+ *     "  - id: ports_count",
+ *     "    type: u1",
+ *     "  - id: ports",
+ *     "    type: u2be",
+ *     "    repeat: expr",
+ *     "    repeat-expr: ports_count",
+ *     "types:",
+ *     "  flags:",
+ *     "    seq:",
+ *     "      - id: urgent",
+ *     "        type: b1",
+ *     "      - id: reserved",
+ *     "        type: b7",
+ *     "",
+ *   ].join("\n"),
+ * );
+ * ```
+ */
+export function toKaitaiStruct(
+  schema: Schema,
+  options: KaitaiOptions = {},
+): string {
+  const rootId = snake(options.id ?? "binstruct");
+  const types: Record<string, KaitaiType> = {};
+  const typeNames = new Map<string, string>();
+  const imports = new Set<string>();
+
+  const typeName = (name: string): string => {
+    let candidate = snake(name);
+    for (let n = 2; candidate === rootId || candidate in types; n++) {
+      candidate = `${snake(name)}_${n}`;
+    }
+    types[candidate] = { seq: [] };
+    return candidate;
+  };
+
+  // A literal or an expression for a fixed or referenced length or offset
+  const expression = (length: LengthSchema): string | number | undefined => {
+    if (length.type === "fixed") {
+      return length.value;
+    }
+    if (length.type === "ref" && length.path !== null) {
+      return ["_root", ...length.path.map(String).map(snake)].join(".");
+    }
+    return undefined;
+  };
+
+  const sizeOf = (
+    id: string,
+    length: LengthSchema,
+    key: "size" | "repeat-expr",
+  ): Attribute[] => {
+    const repeat = key === "repeat-expr";
+    switch (length.type) {
+      case "fixed":
+        return [
+          repeat
+            ? { repeat: "expr", [key]: length.value }
+            : { [key]: length.value },
+        ];
+      case "prefixed": {
+        const counter = `${id}_${repeat ? "count" : "len"}`;
+        return [
+          ...attributes(counter, length.prefix),
+          repeat ? { repeat: "expr", [key]: counter } : { [key]: counter },
+        ];
+      }
+      case "ref": {
+        const expr = expression(length);
+        if (expr !== undefined) {
+          return [repeat ? { repeat: "expr", [key]: expr } : { [key]: expr }];
+        }
+        return [
+          repeat
+            ? {
+              repeat: "eos",
+              doc: "count comes from a ref outside this format",
+            }
+            : {
+              "size-eos": true,
+              doc: "length comes from a ref outside this format",
+            },
+        ];
+      }
+      case "computed":
+        return [
+          repeat
+            ? { repeat: "eos", doc: "count is computed from other fields" }
+            : { "size-eos": true, doc: "length is computed from other fields" },
+        ];
+      case "terminated":
+        return [{ terminator: 0 }];
+      case "condition":
+        return [{
+          repeat: "eos",
+          doc: "arrayWhile: repeats while a condition holds",
+        }];
+      case "eos":
+        return [repeat ? { repeat: "eos" } : { "size-eos": true }];
+    }
+  };
+
+  // The attributes a field takes in a seq: its own, preceded by any length
+  // prefix it needs
+  const attributes = (id: string, schema: Schema): Attribute[] => {
+    const own = (attribute: Attribute): Attribute[] => [{ id, ...attribute }];
+
+    switch (schema.type) {
+      case "uint":
+      case "int":
+      case "float":
+        return schema.type === "float" && schema.bits === 16
+          ? own({ size: 2, doc: `${schema.coderKind}: half-precision float` })
+          : own({
+            type: numericType(schema),
+            ...(schema.type === "int" && ![8, 16, 32, 64].includes(schema.bits)
+              ? {
+                doc:
+                  `${schema.coderKind}: two's-complement signed, read unsigned`,
+              }
+              : {}),
+          });
+      case "bcd":
+        return own({
+          size: schema.digits / 2,
+          doc: `${schema.coderKind}: packed BCD, ${schema.endian}`,
+        });
+      case "octal":
+        return own({
+          type: "str",
+          encoding: "ASCII",
+          size: schema.digits + schema.terminator.length,
+          doc: `${schema.coderKind}: octal digits, read with to_i(8)`,
+        });
+      case "varint":
+        if (schema.encoding === "leb128") {
+          imports.add("/common/vlq_base128_le");
+          return own({
+            type: "vlq_base128_le",
+            ...(schema.signed
+              ? { doc: `${schema.coderKind}: use value_signed` }
+              : {}),
+          });
+        }
+        return own({
+          type: snake(schema.coderKind),
+          doc: `${schema.coderKind}: no Kaitai equivalent`,
+        });
+      case "string": {
+        const encoding = schema.encoding.toUpperCase();
+        if (schema.length.type === "terminated") {
+          return own({ type: "strz", encoding });
+        }
+        const prefix = sizeOf(id, schema.length, "size");
+        const last = prefix.pop()!;
+        // Kaitai pads with a byte, so only pads of one byte carry over
+        const pad: Attribute = schema.trim && schema.pad !== undefined &&
+            schema.pad.charCodeAt(0) < 0x80 &&
+            !schema.encoding.startsWith("utf-16")
+          ? { "pad-right": schema.pad.charCodeAt(0) }
+          : {};
+        return [...prefix, { id, type: "str", encoding, ...last, ...pad }];
+      }
+      case "bytes": {
+        const prefix = sizeOf(id, schema.length, "size");
+        const last = prefix.pop()!;
+        return [...prefix, { id, ...last }];
+      }
+      case "array": {
+        const element = attributes(id, schema.element);
+        const prefix = sizeOf(id, schema.length, "repeat-expr");
+        const last = prefix.pop()!;
+        if (element.length === 1) {
+          return [...prefix, { ...element[0], ...last }];
+        }
+
+        // Elements with a length prefix of their own need a type to repeat
+        const name = typeName(`${id}_entry`);
+        types[name] = kaitaiType(attributes("value", schema.element));
+        return [...prefix, { id, type: name, ...last }];
+      }
+      case "struct": {
+        const name = schema.id === undefined
+          ? typeName(id)
+          : named(schema.id, id);
+        types[name] = kaitaiType(
+          schema.fields.flatMap((field) =>
+            attributes(snake(field.name), field.schema)
+          ),
+        );
+        return own({ type: name });
+      }
+      case "bits": {
+        // Kaitai's bits are MSB-first big-endian or, with a little-endian
+        // `bit-endian`, LSB-first little-endian; other layouts stay raw bytes
+        const { bitOrder, endian, fields } = schema;
+        if ((bitOrder === "lsb") !== (endian === "le")) {
+          return own({
+            size: fields.reduce((total, { bits }) => total + bits, 0) / 8,
+            doc: `bitStruct: ${bitOrder}-first ${endian} bits, read as bytes`,
+          });
+        }
+
+        const name = typeName(id);
+        types[name] = {
+          ...(endian === "le" ? { meta: { "bit-endian": "le" } } : {}),
+          seq: fields.map(({ name, bits, signed }) => ({
+            id: snake(name),
+            type: `b${bits}`,
+            ...(signed
+              ? { doc: "two's-complement signed, read unsigned" }
+              : {}),
+          })),
+        };
+        return own({ type: name });
+      }
+      case "optional": {
+        const { presence } = schema;
+        const tag = presence.type === "tagged"
+          ? attributes(`${id}_tag`, presence.tag)
+          : [];
+        const field = presence.type === "tagged"
+          ? `${id}_tag`
+          : presence.type === "ref"
+          ? expression(presence)
+          : undefined;
+
+        const value = attributes(id, schema.value);
+        const last = value[value.length - 1];
+        if (field === undefined) {
+          last.doc = "optional: present only when a condition holds";
+        } else {
+          last.if = `${field} != 0`;
+        }
+        return [...tag, ...value];
+      }
+      case "refine": {
+        const base = attributes(id, schema.base);
+        base[base.length - 1].doc = `refined from ${schema.base.coderKind}`;
+        return base;
+      }
+      case "switch": {
+        const base = attributes(id, schema.base);
+        base[base.length - 1].doc = `refineSwitch arms: ${
+          schema.arms.join(", ")
+        }`;
+        return base;
+      }
+      case "padding": {
+        const prefix = sizeOf(id, schema.length, "size");
+        const last = prefix.pop()!;
+        return [...prefix, { id, ...last }];
+      }
+      case "align": {
+        const n = schema.boundary;
+        return own({
+          size: `(${n} - _io.pos % ${n}) % ${n}`,
+          doc: `align(${n}): binstruct counts from the enclosing struct`,
+        });
+      }
+      case "magic":
+        return own({ contents: schema.bytes });
+      case "at": {
+        const pos = expression(schema.offset);
+        const target = attributes(id, schema.target);
+        if (pos === undefined) {
+          target[target.length - 1].doc =
+            "at: the offset cannot be expressed, read in place";
+          return target;
+        }
+
+        if (target.length === 1) {
+          return [{ ...target[0], pos }];
+        }
+
+        // A target with a length prefix of its own needs a type to place
+        const name = typeName(`${id}_at`);
+        types[name] = kaitaiType(attributes("value", schema.target));
+        return own({ pos, type: name });
+      }
+      case "recursive":
+        return own({ type: typeNames.get(schema.ref) ?? snake(schema.ref) });
+      case "opaque":
+        return own({
+          type: snake(schema.coderKind),
+          doc: `${schema.coderKind}: opaque coder`,
+        });
+    }
+  };
+
+  const named = (schemaId: string, id: string): string => {
+    const name = typeName(id);
+    typeNames.set(schemaId, name);
+    return name;
+  };
+
+  let root: KaitaiType;
+  if (schema.type === "struct") {
+    if (schema.id !== undefined) {
+      typeNames.set(schema.id, rootId);
+    }
+    root = kaitaiType(
+      schema.fields.flatMap((field) =>
+        attributes(snake(field.name), field.schema)
+      ),
+    );
+  } else {
+    root = kaitaiType(attributes("value", schema));
+  }
+
+  const document: Record<string, unknown> = {
+    meta: {
+      id: rootId,
+      ...(imports.size > 0 ? { imports: [...imports] } : {}),
+    },
+    ...root,
+    ...(Object.keys(types).length > 0 ? { types } : {}),
+  };
+
+  return `${yaml(document, "").join("\n")}\n`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Schema introspection and export.
+ *
+ * {@link describe} turns a coder tree into a serializable {@link Schema};
+ * {@link toJsonSchema} and {@link toKaitaiStruct} turn that into a JSON
+ * Schema for the JSON form of values, or a Kaitai Struct `.ksy` document for
+ * cross-checking layouts.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { struct, u32le, u8 } from "@hertzg/binstruct";
+ * import { describe, toJsonSchema, toKaitaiStruct } from "@hertzg/binstruct/schema";
+ *
+ * const schema = describe(struct({ version: u8(), length: u32le() }));
+ *
+ * assertEquals(toJsonSchema(schema).required, ["version", "length"]);
+ * assertEquals(
+ *   toKaitaiStruct(schema, { id: "header" }),
+ *   "meta:\n  id: header\nseq:\n  - id: version\n    type: u1\n  - id: length\n    type: u4le\n",
+ * );
+ * ```
+ *
+ * @module
+ */
+
+export * from "./describe.ts";
+export * from "./json-schema.ts";
+export * from "./kaitai.ts";
@@ -0,0 +1,137 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import type { Coder } from "./core.ts";
+import { BinstructDecodeError } from "./errors.ts";
+import { createDecodeStream, createEncodeStream } from "./stream.ts";
+import { encode } from "./helpers.ts";
+import { refine } from "./refine/refine.ts";
+import { stringLP } from "./string/string.ts";
+import { struct } from "./struct/struct.ts";
+import { u16le, u32be, u8 } from "./numeric/numeric.ts";
+import { bytes } from "./bytes/bytes.ts";
+import { varuint32 } from "./numeric/varint.ts";
+
+function decodeChunks<T>(
+  coder: Coder<T>,
+  chunks: Uint8Array[],
+): Promise<T[]> {
+  return Array.fromAsync(
+    ReadableStream.from(chunks).pipeThrough(createDecodeStream(coder)),
+  );
+}
+
+const record = struct({
+  id: u32be(),
+  name: stringLP(u8()),
+  payload: bytes(varuint32()),
+});
+
+const records = [
+  { id: 1, name: "first", payload: new Uint8Array([1, 2, 3]) },
+  { id: 2, name: "", payload: new Uint8Array(200).fill(7) },
+  { id: 3, name: "third", payload: new Uint8Array(0) },
+];
+
+const encodedRecords = new Uint8Array(
+  records.flatMap((r) => [...encode(record, r)]),
+);
+
+Deno.test("createDecodeStream - decodes values", async (t) => {
+  await t.step("from a single chunk", async () => {
+    assertEquals(await decodeChunks(record, [encodedRecords]), records);
+  });
+
+  await t.step("from one byte at a time", async () => {
+    const chunks = Array.from(encodedRecords, (b) => new Uint8Array([b]));
+
+    assertEquals(await decodeChunks(record, chunks), records);
+  });
+
+  await t.step("across uneven chunk boundaries", async () => {
+    const chunks = [
+      encodedRecords.subarray(0, 3),
+      encodedRecords.subarray(3, 50),
+      encodedRecords.subarray(50, 51),
+      encodedRecords.subarray(51),
+    ];
+
+    assertEquals(await decodeChunks(record, chunks), records);
+  });
+
+  await t.step("from an empty stream", async () => {
+    assertEquals(await decodeChunks(record, []), []);
+  });
+});
+
+Deno.test("createDecodeStream - emits values before the input ends", async () => {
+  const stream = createDecodeStream(u16le());
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  writer.write(new Uint8Array([1, 0, 2]));
+  assertEquals(await reader.read(), { value: 1, done: false });
+
+  writer.write(new Uint8Array([0]));
+  assertEquals(await reader.read(), { value: 2, done: false });
+
+  writer.close();
+  assertEquals(await reader.read(), { value: undefined, done: true });
+});
+
+Deno.test("createDecodeStream - errors on trailing incomplete data", async () => {
+  const chunks = [encodedRecords.subarray(0, encodedRecords.length - 1)];
+
+  const error = await assertRejects(
+    () => decodeChunks(record, chunks),
+    Error,
+    "createDecodeStream: Stream ended with 10 bytes of incomplete data",
+  );
+  assertInstanceOf(error.cause, BinstructDecodeError);
+  assertEquals(error.cause.path, ["payload"]);
+  assertInstanceOf(error.cause.cause, RangeError);
+});
+
+Deno.test("createDecodeStream - propagates real decode errors immediately", async () => {
+  const magic = refine(u8(), {
+    refine: (value: number) => {
+      if (value !== 0x42) {
+        throw new Error(`Bad magic: ${value}`);
+      }
+      return value;
+    },
+    unrefine: (value: number) => value,
+  });
+
+  const stream = createDecodeStream(magic());
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  writer.write(new Uint8Array([0x42, 0x13])).catch(() => {});
+  assertEquals(await reader.read(), { value: 0x42, done: false });
+  await assertRejects(() => reader.read(), Error, "Bad magic: 19");
+});
+
+Deno.test("createDecodeStream - rejects coders that consume no bytes", async () => {
+  await assertRejects(
+    () => decodeChunks(struct({}), [new Uint8Array([1])]),
+    Error,
+    "createDecodeStream: Coder consumed no bytes",
+  );
+});
+
+Deno.test("createEncodeStream - emits one chunk per value", async () => {
+  const chunks = await Array.fromAsync(
+    ReadableStream.from(records).pipeThrough(createEncodeStream(record)),
+  );
+
+  assertEquals(chunks, records.map((r) => encode(record, r)));
+});
+
+Deno.test("createEncodeStream - round-trips through createDecodeStream", async () => {
+  const decoded = await Array.fromAsync(
+    ReadableStream.from(records)
+      .pipeThrough(createEncodeStream(record))
+      .pipeThrough(createDecodeStream(record)),
+  );
+
+  assertEquals(decoded, records);
+});
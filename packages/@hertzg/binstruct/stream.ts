@@ -0,0 +1,167 @@
+/**
+ * Web Streams adapters for encoding and decoding sequences of values.
+ *
+ * {@link createDecodeStream} turns a stream of byte chunks into a stream of
+ * decoded values, emitting each value as soon as enough bytes have arrived.
+ * {@link createEncodeStream} is its counterpart, turning values back into
+ * byte chunks.
+ *
+ * ## Incomplete input
+ *
+ * Decoders signal truncated input by throwing a `RangeError` (`Need N bytes,
+ * got M`, or the `RangeError` a `DataView` throws when reading past its end),
+ * which containers pass on as the `cause` of a {@link BinstructDecodeError}.
+ * The decode stream treats either as "need more bytes" and waits for the next
+ * chunk. Any other error is a real decode error and errors the stream
+ * immediately.
+ *
+ * The coder must be self-delimiting: greedy coders such as `bytes()` without
+ * a length, or an `arrayWhile` whose condition looks at `buffer.length`,
+ * decode whatever happens to be buffered and cannot tell a chunk boundary
+ * from the end of a value.
+ *
+ * @example Round-trip through a pair of streams
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { struct, u16le, u8 } from "@hertzg/binstruct";
+ * import { createDecodeStream, createEncodeStream } from "@hertzg/binstruct/stream";
+ *
+ * const coder = struct({ id: u16le(), flag: u8() });
+ * const values = [{ id: 1, flag: 0 }, { id: 2, flag: 1 }];
+ *
+ * const decoded = await Array.fromAsync(
+ *   ReadableStream.from(values)
+ *     .pipeThrough(createEncodeStream(coder))
+ *     .pipeThrough(createDecodeStream(coder)),
+ * );
+ * assertEquals(decoded, values);
+ * ```
+ *
+ * @module
+ */
+
+import { type Coder, createContext } from "./core.ts";
+import { BinstructDecodeError } from "./errors.ts";
+import { encode } from "./helpers.ts";
+
+/**
+ * Creates a TransformStream that decodes a sequence of values from byte chunks.
+ *
+ * Chunks are buffered until the coder can decode a complete value, which is
+ * emitted right away; a single chunk may yield any number of values. Each
+ * value is decoded with a fresh decode context.
+ *
+ * When the writable side closes with bytes still buffered, the stream errors
+ * with the last "need more bytes" error as its cause.
+ *
+ * @template T - The type of the decoded values
+ * @param coder - A self-delimiting coder for one value of the sequence
+ * @returns A TransformStream from byte chunks to decoded values
+ *
+ * @example Values split across chunk boundaries
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { stringLP, u8 } from "@hertzg/binstruct";
+ * import { createDecodeStream } from "@hertzg/binstruct/stream";
+ *
+ * const chunks = [
+ *   new Uint8Array([2, 104]),
+ *   new Uint8Array([105, 3, 104, 101]),
+ *   new Uint8Array([121]),
+ * ];
+ *
+ * const decoded = await Array.fromAsync(
+ *   ReadableStream.from(chunks).pipeThrough(createDecodeStream(stringLP(u8()))),
+ * );
+ * assertEquals(decoded, ["hi", "hey"]);
+ * ```
+ */
+export function createDecodeStream<T>(
+  coder: Coder<T>,
+): TransformStream<Uint8Array, T> {
+  let pending: Uint8Array = new Uint8Array(0);
+  let shortRead: Error | undefined;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (pending.length === 0) {
+        pending = chunk;
+      } else {
+        const joined = new Uint8Array(pending.length + chunk.length);
+        joined.set(pending, 0);
+        joined.set(chunk, pending.length);
+        pending = joined;
+      }
+
+      let cursor = 0;
+      shortRead = undefined;
+      while (cursor < pending.length) {
+        let decoded: T, bytesRead: number;
+        try {
+          [decoded, bytesRead] = coder.decode(
+            pending.subarray(cursor),
+            createContext("decode"),
+          );
+        } catch (e) {
+          const reason = e instanceof BinstructDecodeError ? e.cause : e;
+          if (reason instanceof RangeError) {
+            shortRead = e as Error;
+            break;
+          }
+          throw e;
+        }
+
+        if (bytesRead === 0) {
+          throw new Error(
+            "createDecodeStream: Coder consumed no bytes, the stream would never advance",
+          );
+        }
+
+        controller.enqueue(decoded);
+        cursor += bytesRead;
+      }
+
+      pending = pending.subarray(cursor);
+    },
+    flush() {
+      if (pending.length > 0) {
+        throw new Error(
+          `createDecodeStream: Stream ended with ${pending.length} bytes of incomplete data`,
+          { cause: shortRead },
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Creates a TransformStream that encodes each value into its own byte chunk.
+ *
+ * Every value is encoded with {@link encode} and a fresh encode context, so
+ * measurable coders produce exact-size chunks.
+ *
+ * @template T - The type of the values to encode
+ * @param coder - The coder for one value of the sequence
+ * @returns A TransformStream from values to byte chunks
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { u16be } from "@hertzg/binstruct";
+ * import { createEncodeStream } from "@hertzg/binstruct/stream";
+ *
+ * const chunks = await Array.fromAsync(
+ *   ReadableStream.from([1, 0x0203]).pipeThrough(createEncodeStream(u16be())),
+ * );
+ * assertEquals(chunks, [new Uint8Array([0, 1]), new Uint8Array([2, 3])]);
+ * ```
+ */
+export function createEncodeStream<T>(
+  coder: Coder<T>,
+): TransformStream<T, Uint8Array> {
+  return new TransformStream({
+    transform(value, controller) {
+      controller.enqueue(encode(coder, value));
+    },
+  });
+}
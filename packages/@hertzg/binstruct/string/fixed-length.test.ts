@@ -1,4 +1,9 @@
-import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  assertEquals,
+  assertNotEquals,
+  assertThrows,
+} from "@std/assert";
+import { decode, encode } from "../helpers.ts";
 import { u16 } from "../numeric/numeric.ts";
 import { stringFL } from "./fixed-length.ts";
 import { ref } from "../ref/ref.ts";
@@ -72,3 +77,129 @@ Deno.test("string - fixed length - with ref length", () => {
   assertEquals(bytesWritten, 7); // 2 bytes for u16 length + 5 bytes for string
   assertEquals(bytesRead, 12); // 2 bytes for u16 length + 10 bytes for fixed length
 });
+
+Deno.test("string - fixed length - measure", async (t) => {
+  await t.step("counts only the written bytes", () => {
+    assertEquals(stringFL(10).measure?.("Hello"), 5);
+  });
+
+  await t.step("never splits a multi-byte character", () => {
+    const coder = stringFL(4);
+    const text = "ab€"; // "€" is 3 bytes in UTF-8
+
+    assertEquals(coder.measure?.(text), 2);
+    assertEquals(coder.encode(text, new Uint8Array(10)), 2);
+  });
+
+  await t.step("resolves ref lengths", () => {
+    const lengthCoder = u16();
+    const coder = struct({
+      length: lengthCoder,
+      text: stringFL(ref(lengthCoder)),
+    });
+
+    assertEquals(coder.measure?.({ length: 3, text: "Hello" }), 5);
+  });
+});
+
+Deno.test("string - fixed length - rejects invalid bytes", () => {
+  // The TypeError of the fatal TextDecoder, as thrown
+  assertThrows(
+    () => stringFL(2).decode(new Uint8Array([0xc3, 0x28])),
+    TypeError,
+  );
+});
+
+Deno.test("string - fixed length - pads and trims", async (t) => {
+  await t.step("space padded", () => {
+    const coder = stringFL(8, "ascii", { pad: " " });
+    const encoded = encode(coder, "MSDOS");
+
+    assertEquals(
+      encoded,
+      new Uint8Array([...ascii("MSDOS"), 0x20, 0x20, 0x20]),
+    );
+    assertEquals(decode(coder, encoded), "MSDOS");
+    assertEquals(coder.measure?.("MSDOS"), 8);
+  });
+
+  await t.step("NUL padded", () => {
+    const coder = stringFL(6, "latin1", { pad: "\0" });
+    const buffer = new Uint8Array(8).fill(0xff);
+
+    assertEquals(coder.encode("é", buffer), 6);
+    assertEquals(buffer, new Uint8Array([0xe9, 0, 0, 0, 0, 0, 0xff, 0xff]));
+    assertEquals(coder.decode(buffer), ["é", 6]);
+  });
+
+  await t.step("keeps the pad when trim is false", () => {
+    const coder = stringFL(4, "ascii", { pad: " ", trim: false });
+    assertEquals(decode(coder, encode(coder, "ab")), "ab  ");
+  });
+
+  await t.step("fails when the target is too short", () => {
+    assertThrows(
+      () => stringFL(4, "ascii", { pad: " " }).encode("a", new Uint8Array(2)),
+      RangeError,
+      "Need 4 bytes, got 2",
+    );
+  });
+
+  await t.step("pads must be a single character", () => {
+    assertThrows(
+      () => stringFL(4, "utf-8", { pad: "ab" }),
+      Error,
+      "Invalid pad",
+    );
+  });
+});
+
+Deno.test("string - fixed length - encodings", async (t) => {
+  await t.step("utf-16le with NUL padding", () => {
+    const coder = stringFL(8, "utf-16le", { pad: "\0" });
+    const encoded = encode(coder, "Ico");
+
+    assertEquals(encoded, new Uint8Array([0x49, 0, 0x63, 0, 0x6f, 0, 0, 0]));
+    assertEquals(decode(coder, encoded), "Ico");
+  });
+
+  await t.step("utf-16be", () => {
+    const coder = stringFL(4, "utf-16be");
+    assertEquals(encode(coder, "hi"), new Uint8Array([0, 0x68, 0, 0x69]));
+    assertEquals(decode(coder, new Uint8Array([0, 0x68, 0, 0x69])), "hi");
+  });
+
+  await t.step("windows-1252", () => {
+    const coder = stringFL(2, "windows-1252");
+    assertEquals(encode(coder, "€é"), new Uint8Array([0x80, 0xe9]));
+    assertEquals(decode(coder, new Uint8Array([0x80, 0xe9])), "€é");
+  });
+
+  await t.step("latin1 decodes 0x80-0x9F as C1 controls", () => {
+    // TextDecoder reads latin1 as windows-1252, which gave "€" before
+    const coder = stringFL(1, "latin1");
+    assertEquals(decode(coder, new Uint8Array([0x80])), "\u0080");
+    assertEquals(encode(coder, "\u0080"), new Uint8Array([0x80]));
+  });
+
+  await t.step("ascii rejects bytes 0x80-0xFF", () => {
+    // TextDecoder reads ascii as windows-1252, which gave "€" before
+    assertThrows(
+      () => decode(stringFL(1, "ascii"), new Uint8Array([0x80])),
+      TypeError,
+      "Invalid string: Must be valid ascii.",
+    );
+  });
+
+  await t.step("ascii rejects what it cannot encode", () => {
+    assertThrows(
+      () => encode(stringFL(4, "ascii"), "café"),
+      Error,
+      "Must be encodable as ascii.",
+    );
+  });
+});
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
@@ -6,24 +6,49 @@ import {
 } from "../core.ts";
 import { isValidLength, type LengthOrRef, lengthRefGet } from "../length.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { textCodec } from "./text.ts";
 
 /**
  * Symbol identifier for fixed-length string coders.
  */
 export const kKindStringFL = Symbol("stringFL");
 
+/**
+ * Options for {@link stringFL}, in addition to the `TextDecoder` options
+ * `fatal` (default `true`) and `ignoreBOM` (default `true`).
+ */
+export interface StringFLOptions extends TextDecoderOptions {
+  /**
+   * The character that fills the field after the string, such as `" "` or
+   * `"\0"`. Encoding then always writes the whole field. By default only the
+   * string's bytes are written.
+   */
+  readonly pad?: string;
+  /**
+   * Whether decoding removes `pad` characters from the end of the field.
+   * Defaults to `true` when `pad` is given. Strings ending in the pad
+   * character then lose it in a round trip.
+   */
+  readonly trim?: boolean;
+}
+
 /**
  * Creates a Coder for fixed-length strings.
  *
- * The string is encoded as UTF-8 bytes with a fixed byte length.
+ * The string is encoded in `encoding` with a fixed byte length.
  * The length can be a literal number or a reference that resolves during encoding/decoding.
  * If the encoded string is shorter than the specified length, only the written bytes
- * are counted. If longer, it will be truncated to fit.
+ * are counted, unless `options.pad` fills the rest of the field. If longer, it will be
+ * truncated to fit, without splitting a character.
+ *
+ * `encoding` is one of the `TextEncodingName`s for strings that are
+ * encoded and decoded. Other `TextDecoder` labels only decode.
  *
  * @param byteLength - Optional fixed byte length (can be a number or reference). If not provided, consumes all available bytes
- * @param decoderEncoding - Text encoding for decoding (default: "utf-8")
- * @param decoderOptions - Options for the TextDecoder
+ * @param encoding - Text encoding (default: "utf-8")
+ * @param options - Padding, trimming and options for the TextDecoder
  * @returns A Coder that can encode/decode fixed-length strings
+ * @throws {Error} If `options.pad` is not a single character in `encoding`
  *
  * @example Fixed-length strings with literal byte length
  * ```ts
@@ -89,25 +114,59 @@ export const kKindStringFL = Symbol("stringFL");
  * assertEquals(decoded.age, record.age);
  * assertEquals(bytesWritten, bytesRead);
  * ```
+ *
+ * @example Space and NUL padded fields
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decode, encode, stringFL, struct } from "@hertzg/binstruct";
+ *
+ * // A FAT boot sector's OEM name and a tar header's file name
+ * const header = struct({
+ *   oem: stringFL(8, "ascii", { pad: " " }),
+ *   name: stringFL(6, "utf-8", { pad: "\0" }),
+ * });
+ *
+ * const encoded = encode(header, { oem: "MSDOS5", name: "a.txt" });
+ * assertEquals(new TextDecoder().decode(encoded), "MSDOS5  a.txt\0");
+ * assertEquals(decode(header, encoded), { oem: "MSDOS5", name: "a.txt" });
+ * ```
+ *
+ * @example UTF-16 strings
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { decode, encode, stringFL } from "@hertzg/binstruct";
+ *
+ * const name = stringFL(8, "utf-16le", { pad: "\0" });
+ *
+ * const encoded = encode(name, "Ico");
+ * assertEquals(encoded, new Uint8Array([0x49, 0, 0x63, 0, 0x6f, 0, 0, 0]));
+ * assertEquals(decode(name, encoded), "Ico");
+ * ```
  */
 
 export function stringFL(
   byteLength?: LengthOrRef,
-  decoderEncoding: string = "utf-8",
-  decoderOptions: TextDecoderOptions = {},
+  encoding: string = "utf-8",
+  options: StringFLOptions = {},
 ): Coder<string> {
-  const decoderInit: TextDecoderOptions = {
+  const { pad, trim = pad !== undefined, ...decoderOptions } = options;
+  const codec = textCodec(encoding, {
     fatal: true,
     ignoreBOM: true,
     ...decoderOptions,
-  };
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder(decoderEncoding, decoderInit);
+  });
+
+  const padUnit = pad === undefined ? undefined : codec.encode(pad);
+  if (pad !== undefined && padUnit?.length !== codec.unit) {
+    throw new Error(
+      `Invalid pad: ${JSON.stringify(pad)}. Must be a single character.`,
+    );
+  }
 
-  const resolveLength = (ctx: Context, fallback: number): number => {
+  const resolveLength = (ctx: Context, fallback: () => number): number => {
     const len = byteLength == null
-      ? fallback
-      : lengthRefGet(ctx, byteLength) ?? fallback;
+      ? fallback()
+      : lengthRefGet(ctx, byteLength) ?? fallback();
 
     if (!isValidLength(len)) {
       throw new Error(
@@ -118,29 +177,81 @@ export function stringFL(
     return len;
   };
 
+  // Without a length the whole string is written, and nothing is padded
+  const fills = padUnit !== undefined && byteLength != null;
+
   let self: Coder<string>;
   return self = {
     [kCoderKind]: kKindStringFL,
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
-      const len = resolveLength(ctx, decoded.length);
+      const len = resolveLength(ctx, () => codec.encode(decoded).length);
 
       refSetValue(ctx, self, decoded);
 
-      const truncated = target.subarray(0, len);
-      const encoded = encoder.encodeInto(decoded, truncated);
-      return encoded.written;
+      const field = target.subarray(0, len);
+      const written = codec.encodeInto(decoded, field);
+      if (!fills) {
+        return written;
+      }
+
+      if (target.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${target.length}`);
+      }
+      for (let i = written; i < len; i++) {
+        field[i] = padUnit[(i - written) % padUnit.length];
+      }
+      return len;
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
-      const len = resolveLength(ctx, encoded.length);
+      const len = resolveLength(ctx, () => encoded.length);
+
+      if (encoded.length < len) {
+        throw new RangeError(`Need ${len} bytes, got ${encoded.length}`);
+      }
 
       const stringBytes = encoded.subarray(0, len);
-      const decoded = decoder.decode(stringBytes);
+      const decoded = codec.decode(
+        trim && padUnit !== undefined
+          ? trimEnd(stringBytes, padUnit)
+          : stringBytes,
+      );
 
       refSetValue(ctx, self, decoded);
 
       return [decoded, stringBytes.length];
     },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const len = resolveLength(ctx, () => codec.encode(decoded).length);
+
+      refSetValue(ctx, self, decoded);
+
+      // encodeInto never splits a character, so the truncation has to be
+      // replayed to know how many bytes actually fit
+      return fills ? len : codec.encodeInto(decoded, new Uint8Array(len));
+    },
+    describe: (walker) => ({
+      type: "string",
+      encoding: codec.encoding,
+      length: byteLength == null ? { type: "eos" } : walker.length(byteLength),
+      ...(pad === undefined ? {} : { pad, trim }),
+    }),
   };
 }
+
+// Strips whole pad characters from the end
+function trimEnd(bytes: Uint8Array, padUnit: Uint8Array): Uint8Array {
+  const unit = padUnit.length;
+  if (bytes.length % unit !== 0) {
+    return bytes;
+  }
+  let end = bytes.length;
+  while (
+    end >= unit && padUnit.every((byte, i) => bytes[end - unit + i] === byte)
+  ) {
+    end -= unit;
+  }
+  return bytes.subarray(0, end);
+}
@@ -1,4 +1,5 @@
 import { assertEquals } from "@std/assert";
+import { decode, encode } from "../helpers.ts";
 import { u16, u32, u8 } from "../numeric/numeric.ts";
 import { stringLP } from "./length-prefixed.ts";
 
@@ -40,3 +41,20 @@ Deno.test("string - length prefixed - u32", () => {
   assertEquals(bytesWritten, bytesRead);
   assertEquals(bytesWritten, testString.length + 4); // 4 for length
 });
+
+Deno.test("string - length prefixed - drops a leading byte order mark", () => {
+  const coder = stringLP(u8());
+  const encoded = encode(coder, "\ufeffhi");
+
+  assertEquals(encoded, new Uint8Array([5, 0xef, 0xbb, 0xbf, 0x68, 0x69]));
+  assertEquals(decode(coder, encoded), "hi");
+});
+
+Deno.test("string - length prefixed - prefixes count bytes", () => {
+  const coder = stringLP(u8(), "utf-16be");
+  const encoded = encode(coder, "hi");
+
+  assertEquals(encoded, new Uint8Array([4, 0, 0x68, 0, 0x69]));
+  assertEquals(decode(coder, encoded), "hi");
+  assertEquals(coder.measure?.("hi"), 5);
+});
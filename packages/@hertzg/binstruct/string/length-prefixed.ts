@@ -1,5 +1,6 @@
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { textCodec } from "./text.ts";
 
 /**
  * Symbol identifier for length-prefixed string coders.
@@ -10,9 +11,11 @@ export const kKindStringLP = Symbol("stringLP");
  * Creates a Coder for length-prefixed strings.
  *
  * The string is encoded with a length prefix followed by the string bytes.
- * The length is encoded using the provided lengthType coder.
+ * The length is encoded using the provided lengthType coder, and counts bytes
+ * (not characters) in every encoding.
  *
  * @param lengthType - The coder for the string length (typically u32 or u16)
+ * @param encoding - Text encoding, one of the `TextEncodingName`s (default: "utf-8")
  * @returns A Coder that can encode/decode length-prefixed strings
  *
  * @example
@@ -46,9 +49,11 @@ export const kKindStringLP = Symbol("stringLP");
  * ```
  */
 
-export function stringLP(lengthType: Coder<number>): Coder<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
+export function stringLP(
+  lengthType: Coder<number>,
+  encoding: string = "utf-8",
+): Coder<string> {
+  const codec = textCodec(encoding);
 
   let self: Coder<string>;
   return self = {
@@ -56,7 +61,7 @@ export function stringLP(lengthType: Coder<number>): Coder<string> {
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
       let cursor = 0;
-      const stringBytes = encoder.encode(decoded);
+      const stringBytes = codec.encode(decoded);
 
       refSetValue(ctx, self, decoded);
 
@@ -78,12 +83,32 @@ export function stringLP(lengthType: Coder<number>): Coder<string> {
       );
       cursor += bytesRead;
 
+      if (encoded.length < cursor + length) {
+        throw new RangeError(
+          `Need ${cursor + length} bytes, got ${encoded.length}`,
+        );
+      }
+
       const stringBytes = encoded.subarray(cursor, cursor + length);
-      const decoded = decoder.decode(stringBytes);
+      const decoded = codec.decode(stringBytes);
       refSetValue(ctx, self, decoded);
       cursor += length;
 
       return [decoded, cursor];
     },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      const stringBytes = codec.encode(decoded);
+
+      refSetValue(ctx, self, decoded);
+
+      const prefix = lengthType.measure?.(stringBytes.length, ctx);
+      return prefix === undefined ? undefined : prefix + stringBytes.length;
+    },
+    describe: (walker) => ({
+      type: "string",
+      encoding: codec.encoding,
+      length: { type: "prefixed", prefix: walker.child(lengthType) },
+    }),
   };
 }
@@ -1,4 +1,5 @@
-import { assertEquals, assertNotEquals } from "@std/assert";
+import { assertEquals, assertNotEquals, assertThrows } from "@std/assert";
+import { decode, encode } from "../helpers.ts";
 import { stringNT } from "./null-terminated.ts";
 
 Deno.test("string - null terminated - simple", () => {
@@ -42,3 +43,37 @@ Deno.test("string - null terminated - empty string", () => {
   assertEquals(bytesWritten, 1); // 0 + 1 for null
   assertEquals(bytesRead, 1); // 0 + 1 for null
 });
+
+Deno.test("string - null terminated - drops a leading byte order mark", () => {
+  const coder = stringNT();
+  const encoded = encode(coder, "\ufeffhi");
+
+  assertEquals(encoded, new Uint8Array([0xef, 0xbb, 0xbf, 0x68, 0x69, 0]));
+  assertEquals(decode(coder, encoded), "hi");
+});
+
+Deno.test("string - null terminated - encodings", async (t) => {
+  await t.step("utf-16le ends at a zero code unit", () => {
+    const coder = stringNT("utf-16le");
+    const encoded = encode(coder, "Āa");
+
+    // 0x00 0x01 0x61 0x00 hold zero bytes, but no zero code unit
+    assertEquals(encoded, new Uint8Array([0x00, 0x01, 0x61, 0x00, 0, 0]));
+    assertEquals(coder.decode(encoded), ["Āa", 6]);
+    assertEquals(coder.measure?.("Āa"), 6);
+  });
+
+  await t.step("latin1", () => {
+    const coder = stringNT("latin1");
+    assertEquals(encode(coder, "né"), new Uint8Array([0x6e, 0xe9, 0]));
+    assertEquals(decode(coder, new Uint8Array([0x6e, 0xe9, 0])), "né");
+  });
+
+  await t.step("fails when the target is too short", () => {
+    assertThrows(
+      () => stringNT().encode("abc", new Uint8Array(3)),
+      RangeError,
+      "Need 4 bytes, got 3",
+    );
+  });
+});
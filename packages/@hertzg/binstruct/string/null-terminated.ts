@@ -1,5 +1,6 @@
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { textCodec } from "./text.ts";
 
 /**
  * Symbol identifier for null-terminated string coders.
@@ -9,9 +10,10 @@ export const kKindStringNT = Symbol("stringNT");
 /**
  * Creates a Coder for null-terminated strings.
  *
- * The string is encoded as UTF-8 bytes followed by a null byte (0x00).
- * Decoding reads until a null byte is encountered.
+ * The string is encoded followed by a null character: one 0x00 byte, or two
+ * in UTF-16. Decoding reads until the first null character.
  *
+ * @param encoding - Text encoding, one of the `TextEncodingName`s (default: "utf-8")
  * @returns A Coder that can encode/decode null-terminated strings
  *
  * @example
@@ -47,9 +49,9 @@ export const kKindStringNT = Symbol("stringNT");
  * ```
  */
 
-export function stringNT(): Coder<string> {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
+export function stringNT(encoding: string = "utf-8"): Coder<string> {
+  const codec = textCodec(encoding);
+  const { unit } = codec;
 
   let self: Coder<string>;
   return self = {
@@ -57,22 +59,51 @@ export function stringNT(): Coder<string> {
     encode: (decoded, target, context) => {
       const ctx = context ?? createContext("encode");
       refSetValue(ctx, self, decoded);
-      const { written } = encoder.encodeInto(decoded, target);
-      target[written] = 0; // null terminator
-      return written + 1;
+      const stringBytes = codec.encode(decoded);
+      const length = stringBytes.length + unit;
+      if (target.length < length) {
+        throw new RangeError(`Need ${length} bytes, got ${target.length}`);
+      }
+      target.set(stringBytes);
+      target.fill(0, stringBytes.length, length); // null terminator
+      return length;
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
 
-      const cursor = encoded.indexOf(0x00);
+      const cursor = findTerminator(encoded, unit);
       if (cursor === -1) {
-        throw new Error("No null terminator found");
+        throw new RangeError("No null terminator found");
       }
 
       const stringBytes = encoded.subarray(0, cursor);
-      const decoded = decoder.decode(stringBytes);
+      const decoded = codec.decode(stringBytes);
+      refSetValue(ctx, self, decoded);
+      return [decoded, cursor + unit];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
       refSetValue(ctx, self, decoded);
-      return [decoded, cursor + 1];
+      return codec.encode(decoded).length + unit; // null terminator
     },
+    describe: () => ({
+      type: "string",
+      encoding: codec.encoding,
+      length: { type: "terminated" },
+    }),
   };
 }
+
+// The offset of the first null character, which in UTF-16 is a zero code
+// unit rather than any two zero bytes
+function findTerminator(encoded: Uint8Array, unit: number): number {
+  if (unit === 1) {
+    return encoded.indexOf(0x00);
+  }
+  for (let i = 0; i + 1 < encoded.length; i += 2) {
+    if (encoded[i] === 0 && encoded[i + 1] === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -1,5 +1,6 @@
 import { assertEquals } from "@std/assert";
 import { kCoderKind } from "../core.ts";
+import { encode } from "../helpers.ts";
 import { u16 } from "../numeric/numeric.ts";
 import { ref } from "../ref/ref.ts";
 import { kKindStringFL } from "./fixed-length.ts";
@@ -26,3 +27,13 @@ Deno.test("string(ref) creates fixed-length coder with reference", () => {
   const coder = string(ref(u16()));
   assertEquals(coder[kCoderKind], kKindStringFL);
 });
+
+Deno.test("string() passes the encoding to every variant", () => {
+  const terminated = string(undefined, "utf-16le");
+  const prefixed = string(u16(), "latin1");
+  const fixed = string(4, "ascii", { pad: " " });
+
+  assertEquals(encode(terminated, "a"), new Uint8Array([0x61, 0, 0, 0]));
+  assertEquals(encode(prefixed, "é"), new Uint8Array([0, 1, 0xe9]));
+  assertEquals(encode(fixed, "a"), new Uint8Array([0x61, 0x20, 0x20, 0x20]));
+});
@@ -6,7 +6,9 @@
  * - Null-terminated strings
  * - Fixed-length strings using a literal length or a {@link import("./ref.ts").RefValue}
  *
- * All coders follow the common {@link Coder} interface.
+ * All coders follow the common {@link Coder} interface, and encode and decode
+ * text in any {@link TextEncodingName}: UTF-8 (the default), UTF-16LE/BE,
+ * Latin-1, windows-1252 and ASCII.
  *
  * It's the user's responsibility to provide a buffer big enough to fit the whole data.
  *
@@ -40,7 +42,7 @@
  */
 import type { LengthOrRef } from "../length.ts";
 import { type Coder, isCoder } from "../core.ts";
-import { stringFL } from "./fixed-length.ts";
+import { stringFL, type StringFLOptions } from "./fixed-length.ts";
 import { stringLP } from "./length-prefixed.ts";
 import { stringNT } from "./null-terminated.ts";
 
@@ -53,8 +55,8 @@ import { stringNT } from "./null-terminated.ts";
  * - If a length value/reference is provided as the first argument, it creates a fixed-length string
  *
  * @param lengthOrLengthType - Optional length coder (for length-prefixed) or length value/reference (for fixed-length)
- * @param decoderEncoding - Text encoding for decoding (default: "utf-8", only used for fixed-length)
- * @param decoderOptions - Options for the TextDecoder (only used for fixed-length)
+ * @param encoding - Text encoding, one of the `TextEncodingName`s (default: "utf-8")
+ * @param options - Decoder, pad and trim options (only used for fixed-length)
  * @returns A Coder that can encode/decode strings
  *
  * @example
@@ -88,19 +90,20 @@ import { stringNT } from "./null-terminated.ts";
  */
 export function string(
   lengthOrLengthType?: Coder<number> | LengthOrRef | null,
-  decoderEncoding: string = "utf-8",
-  decoderOptions: TextDecoderOptions = {},
+  encoding: string = "utf-8",
+  options: StringFLOptions = {},
 ): Coder<string> {
   // If no arguments provided, create a null-terminated string
   if (lengthOrLengthType == null) {
-    return stringNT();
+    return stringNT(encoding);
   }
 
   return isCoder<number>(lengthOrLengthType)
-    ? stringLP(lengthOrLengthType)
-    : stringFL(lengthOrLengthType, decoderEncoding, decoderOptions);
+    ? stringLP(lengthOrLengthType, encoding)
+    : stringFL(lengthOrLengthType, encoding, options);
 }
 
 export * from "./fixed-length.ts";
 export * from "./length-prefixed.ts";
 export * from "./null-terminated.ts";
+export type { TextEncodingName } from "./text.ts";
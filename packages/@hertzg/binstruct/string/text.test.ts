@@ -0,0 +1,113 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { textCodec, textEncodingName } from "./text.ts";
+
+Deno.test("textEncodingName - resolves labels", () => {
+  assertEquals(textEncodingName("UTF-16LE"), "utf-16le");
+  assertEquals(textEncodingName("utf8"), "utf-8");
+  assertEquals(textEncodingName(" ISO-8859-1 "), "latin1");
+  assertEquals(textEncodingName("cp1252"), "windows-1252");
+  assertEquals(textEncodingName("us-ascii"), "ascii");
+  assertEquals(textEncodingName("shift_jis"), undefined);
+});
+
+Deno.test("textCodec - round-trips every encoding", async (t) => {
+  const cases = [
+    ["utf-8", "héllo €", [0x68, 0xc3, 0xa9, 0x6c, 0x6c, 0x6f, 0x20]],
+    ["utf-16le", "h€", [0x68, 0x00, 0xac, 0x20]],
+    ["utf-16be", "h€", [0x00, 0x68, 0x20, 0xac]],
+    ["latin1", "hé\u0080", [0x68, 0xe9, 0x80]],
+    ["windows-1252", "hé€", [0x68, 0xe9, 0x80]],
+    ["ascii", "hi~", [0x68, 0x69, 0x7e]],
+  ] as const;
+
+  for (const [encoding, text, prefix] of cases) {
+    await t.step(encoding, () => {
+      const codec = textCodec(encoding);
+      const encoded = codec.encode(text);
+
+      assertEquals([...encoded.subarray(0, prefix.length)], [...prefix]);
+      assertEquals(codec.decode(encoded), text);
+    });
+  }
+});
+
+Deno.test("textCodec - utf-16", async (t) => {
+  await t.step("keeps surrogate pairs whole", () => {
+    const codec = textCodec("utf-16le");
+    const target = new Uint8Array(4);
+
+    assertEquals(codec.encode("a😀").length, 6);
+    assertEquals(codec.encodeInto("a😀", target), 2);
+    assertEquals(codec.decode(codec.encode("a😀")), "a😀");
+  });
+
+  await t.step("keeps lone surrogates", () => {
+    const codec = textCodec("utf-16be");
+    assertEquals(codec.decode(codec.encode("a\ud800")), "a\ud800");
+  });
+
+  await t.step("strips a byte order mark unless ignoreBOM", () => {
+    const bom = new Uint8Array([0xff, 0xfe, 0x68, 0x00]);
+
+    assertEquals(textCodec("utf-16le").decode(bom), "h");
+    assertEquals(
+      textCodec("utf-16le", { ignoreBOM: true }).decode(bom),
+      "\ufeffh",
+    );
+  });
+
+  await t.step("rejects an odd byte when fatal", () => {
+    const odd = new Uint8Array([0x68, 0x00, 0x69]);
+
+    assertEquals(textCodec("utf-16le").decode(odd), "h\ufffd");
+    assertThrows(
+      () => textCodec("utf-16le", { fatal: true }).decode(odd),
+      TypeError,
+      "Invalid string: Must be valid utf-16le.",
+    );
+  });
+});
+
+Deno.test("textCodec - single-byte encodings", async (t) => {
+  await t.step("rejects characters they cannot encode", () => {
+    assertThrows(
+      () => textCodec("ascii").encode("café"),
+      Error,
+      'Invalid character: "é" (U+00E9). Must be encodable as ascii.',
+    );
+    assertThrows(
+      () => textCodec("latin1").encode("€"),
+      Error,
+      "Must be encodable as latin1.",
+    );
+  });
+
+  await t.step("encodeInto stops at the end of the target", () => {
+    const target = new Uint8Array(2);
+    assertEquals(textCodec("latin1").encodeInto("abc", target), 2);
+    assertEquals(target, new Uint8Array([0x61, 0x62]));
+  });
+
+  await t.step("ascii decodes high bytes as invalid", () => {
+    const high = new Uint8Array([0x68, 0xe9]);
+
+    assertEquals(textCodec("ascii").decode(high), "h\ufffd");
+    assertThrows(
+      () => textCodec("ascii", { fatal: true }).decode(high),
+      TypeError,
+      "Invalid string: Must be valid ascii.",
+    );
+  });
+});
+
+Deno.test("textCodec - other labels only decode", () => {
+  const codec = textCodec("shift_jis");
+
+  assertEquals(codec.decode(new Uint8Array([0x82, 0xa0])), "あ");
+  assertThrows(
+    () => codec.encode("あ"),
+    Error,
+    "Invalid encoding: shift_jis. Must be one of utf-8, utf-16le, utf-16be, latin1, windows-1252, ascii to encode.",
+  );
+  assertThrows(() => textCodec("nonsense"), RangeError);
+});
@@ -0,0 +1,277 @@
+/**
+ * Text encodings shared by the string coders.
+ *
+ * `TextEncoder` only writes UTF-8, and `TextDecoder` reads `latin1` and
+ * `ascii` as windows-1252, so every encoding a coder can write is
+ * implemented here in both directions.
+ *
+ * @module
+ */
+
+/**
+ * The text encodings string coders can encode as well as decode.
+ *
+ * - `utf-8`
+ * - `utf-16le` and `utf-16be`, code unit by code unit, so lone surrogates
+ *   (found in Windows names) survive a round trip
+ * - `latin1`: ISO-8859-1, one byte per character up to U+00FF
+ * - `windows-1252`: latin1 with printable characters in 0x80-0x9F
+ * - `ascii`: one byte per character up to U+007F
+ *
+ * Other `TextDecoder` labels decode, but cannot be encoded.
+ */
+export type TextEncodingName =
+  | "utf-8"
+  | "utf-16le"
+  | "utf-16be"
+  | "latin1"
+  | "windows-1252"
+  | "ascii";
+
+/**
+ * Encodes and decodes text in one encoding.
+ */
+export interface TextCodec {
+  /** The canonical name of the encoding, or the label it was created with. */
+  readonly encoding: string;
+  /** Bytes per code unit: the size of a terminator or pad character. */
+  readonly unit: 1 | 2;
+  /**
+   * Encodes a string.
+   *
+   * @throws {Error} If a character cannot be encoded, or the encoding can
+   * only be decoded
+   */
+  encode(text: string): Uint8Array;
+  /**
+   * Encodes as much of a string as fits in `target`, without splitting a
+   * character.
+   *
+   * @returns The number of bytes written
+   */
+  encodeInto(text: string, target: Uint8Array): number;
+  /**
+   * Decodes bytes.
+   *
+   * @throws {TypeError} If the bytes are not valid in the encoding and the
+   * codec is fatal
+   */
+  decode(bytes: Uint8Array): string;
+}
+
+// Labels for the encodings implemented here
+const aliases: Record<string, TextEncodingName> = {
+  "utf-8": "utf-8",
+  "utf8": "utf-8",
+  "unicode-1-1-utf-8": "utf-8",
+  "utf-16le": "utf-16le",
+  "utf-16": "utf-16le",
+  "utf-16be": "utf-16be",
+  "latin1": "latin1",
+  "latin-1": "latin1",
+  "iso-8859-1": "latin1",
+  "iso8859-1": "latin1",
+  "l1": "latin1",
+  "windows-1252": "windows-1252",
+  "cp1252": "windows-1252",
+  "x-cp1252": "windows-1252",
+  "ascii": "ascii",
+  "us-ascii": "ascii",
+};
+
+// windows-1252 characters for bytes 0x80-0x9F; the five bytes it leaves
+// undefined map to the C1 controls, as in TextDecoder
+const windows1252High = [
+  0x20ac,
+  0x0081,
+  0x201a,
+  0x0192,
+  0x201e,
+  0x2026,
+  0x2020,
+  0x2021,
+  0x02c6,
+  0x2030,
+  0x0160,
+  0x2039,
+  0x0152,
+  0x008d,
+  0x017d,
+  0x008f,
+  0x0090,
+  0x2018,
+  0x2019,
+  0x201c,
+  0x201d,
+  0x2022,
+  0x2013,
+  0x2014,
+  0x02dc,
+  0x2122,
+  0x0161,
+  0x203a,
+  0x0153,
+  0x009d,
+  0x017e,
+  0x0178,
+];
+const windows1252Bytes = new Map(
+  windows1252High.map((codePoint, i) => [codePoint, 0x80 + i]),
+);
+
+/**
+ * Returns the canonical name of an encoding label the string coders can
+ * encode, or undefined if the label is only decodable.
+ *
+ * @param label - An encoding label, e.g. `"UTF-16LE"` or `"iso-8859-1"`
+ * @returns The canonical name
+ */
+export function textEncodingName(label: string): TextEncodingName | undefined {
+  return aliases[label.trim().toLowerCase()];
+}
+
+/**
+ * Creates a codec for an encoding.
+ *
+ * @param label - The encoding label
+ * @param options - Decoder options. `fatal` makes invalid bytes throw rather
+ * than decode to U+FFFD; `ignoreBOM` keeps a leading byte order mark in the
+ * UTF encodings.
+ * @returns The codec
+ * @throws {RangeError} If the label is not a known encoding
+ */
+export function textCodec(
+  label: string,
+  options: TextDecoderOptions = {},
+): TextCodec {
+  const { fatal = false, ignoreBOM = false } = options;
+  const name = textEncodingName(label);
+
+  // A TypeError, as a fatal TextDecoder throws
+  const invalidBytes = (): string => {
+    if (fatal) {
+      throw new TypeError(`Invalid string: Must be valid ${name}.`);
+    }
+    return "\ufffd";
+  };
+
+  switch (name) {
+    case "utf-8": {
+      const encoder = new TextEncoder();
+      const decoder = new TextDecoder("utf-8", { fatal, ignoreBOM });
+      return {
+        encoding: name,
+        unit: 1,
+        encode: (text) => encoder.encode(text),
+        encodeInto: (text, target) => encoder.encodeInto(text, target).written,
+        decode: (bytes) => decoder.decode(bytes),
+      };
+    }
+    case "utf-16le":
+    case "utf-16be": {
+      const littleEndian = name === "utf-16le";
+      const encode = (text: string) => {
+        const bytes = new Uint8Array(text.length * 2);
+        const view = new DataView(bytes.buffer);
+        for (let i = 0; i < text.length; i++) {
+          view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+        }
+        return bytes;
+      };
+      return {
+        encoding: name,
+        unit: 2,
+        encode,
+        encodeInto: (text, target) => {
+          let units = Math.min(text.length, target.length >> 1);
+          // Keep surrogate pairs whole
+          const last = text.charCodeAt(units - 1);
+          if (units < text.length && last >= 0xd800 && last <= 0xdbff) {
+            units--;
+          }
+          target.set(encode(text.slice(0, units)));
+          return units * 2;
+        },
+        decode: (bytes) => {
+          const view = new DataView(bytes.buffer, bytes.byteOffset);
+          const chars = [];
+          for (let i = 0; i + 1 < bytes.length; i += 2) {
+            chars.push(String.fromCharCode(view.getUint16(i, littleEndian)));
+          }
+          if (!ignoreBOM && chars[0] === "\ufeff") {
+            chars.shift();
+          }
+          const text = chars.join("");
+          return bytes.length % 2 === 0 ? text : text + invalidBytes();
+        },
+      };
+    }
+    case "latin1":
+    case "windows-1252":
+    case "ascii": {
+      const byteOf = name === "ascii"
+        ? (code: number) => code < 0x80 ? code : undefined
+        : name === "latin1"
+        ? (code: number) => code < 0x100 ? code : undefined
+        : (code: number) =>
+          code < 0x80 || (code >= 0xa0 && code < 0x100)
+            ? code
+            : windows1252Bytes.get(code);
+      const charOf = (byte: number) =>
+        byte < 0x80 || name === "latin1"
+          ? String.fromCharCode(byte)
+          : name === "ascii"
+          ? invalidBytes()
+          : String.fromCharCode(
+            byte < 0xa0 ? windows1252High[byte - 0x80] : byte,
+          );
+
+      const encode = (text: string, limit = Infinity) => {
+        const bytes = [];
+        for (const char of text) {
+          if (bytes.length >= limit) {
+            break;
+          }
+          const byte = byteOf(char.codePointAt(0)!);
+          if (byte === undefined) {
+            throw new Error(
+              `Invalid character: ${JSON.stringify(char)} (U+${
+                char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")
+              }). Must be encodable as ${name}.`,
+            );
+          }
+          bytes.push(byte);
+        }
+        return Uint8Array.from(bytes);
+      };
+      return {
+        encoding: name,
+        unit: 1,
+        encode: (text) => encode(text),
+        encodeInto: (text, target) => {
+          const bytes = encode(text, target.length);
+          target.set(bytes);
+          return bytes.length;
+        },
+        decode: (bytes) => Array.from(bytes, charOf).join(""),
+      };
+    }
+  }
+
+  // Decodable only; the label is checked here rather than on first use
+  const decoder = new TextDecoder(label, { fatal, ignoreBOM });
+  const cannotEncode = (): never => {
+    throw new Error(
+      `Invalid encoding: ${label}. Must be one of ${
+        [...new Set(Object.values(aliases))].join(", ")
+      } to encode.`,
+    );
+  };
+  return {
+    encoding: label,
+    unit: 1,
+    encode: cannotEncode,
+    encodeInto: cannotEncode,
+    decode: (bytes) => decoder.decode(bytes),
+  };
+}
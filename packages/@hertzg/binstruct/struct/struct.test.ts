@@ -491,3 +491,26 @@ Deno.test("struct: complex nested structures", async (t) => {
     assertEquals(bytesWritten, bytesRead);
   });
 });
+
+Deno.test("struct: measure", async (t) => {
+  await t.step("sums the fields it would encode", () => {
+    const coder = struct({
+      id: u32be(),
+      name: stringLP(u8be()),
+      label: stringNT(),
+      tags: arrayLP(u16be(), u8be()),
+    });
+    const data = { id: 1, name: "héllo", label: "x", tags: [1, 2, 3] };
+
+    const measured = coder.measure?.(data);
+    assertEquals(measured, 4 + 1 + 6 + 2 + 1 + 6);
+    assertEquals(measured, coder.encode(data, new Uint8Array(100)));
+  });
+
+  await t.step("is undefined when a field cannot be measured", () => {
+    const { measure: _, ...unmeasured } = u8be();
+    const coder = struct({ id: u32be(), flag: unmeasured });
+
+    assertEquals(coder.measure?.({ id: 1, flag: 2 }), undefined);
+  });
+});
@@ -29,6 +29,10 @@
  */
 import { type Coder, createContext, kCoderKind } from "../core.ts";
 import { refSetValue } from "../ref/ref.ts";
+import { wrapDecodeError, wrapEncodeError } from "../errors.ts";
+import { beginSpan, endSpan } from "../trace.ts";
+import { closeFrame, openFrame } from "../layout/frame.ts";
+import { type ValueView, viewChild, viewContext, viewRaise } from "../view.ts";
 
 const kKindStruct = Symbol("struct");
 
@@ -47,7 +51,11 @@ export type StructDecoded<T extends Record<string, Coder<any>>> = {
  * Creates a Coder for structured data from an object of property names to coders.
  *
  * The struct is encoded by encoding each property in order, and decoded by
- * decoding each property in order and constructing an object.
+ * decoding each property in order and constructing an object. Values placed
+ * out of line with {@link import("../layout/at.ts").at} extend the struct's
+ * length to the end of the furthest one, and fields wrapped in
+ * {@link import("../computed/computed.ts").computed} are filled in or checked
+ * after the last field.
  *
  * @param schema - Object where keys are property names and values are coders
  * @returns A Coder that can encode/decode objects matching the schema
@@ -113,13 +121,36 @@ export function struct<T extends Record<string, Coder<any>>>(
 
       refSetValue(ctx, self, decoded);
 
-      for (const key of keys) {
-        const coder = schema[key];
-        const value = decoded[key];
+      const frame = openFrame(ctx, target, decoded);
+      try {
+        for (const key of keys) {
+          const coder = schema[key];
+          const value = decoded[key];
+          const view = target.subarray(cursor);
+          const start = cursor;
 
-        cursor += coder.encode(value, target.subarray(cursor), ctx);
+          frame.field = key as string;
+          frame.offset = cursor;
+          try {
+            cursor += coder.encode(value, view, ctx);
+          } catch (e) {
+            throw wrapEncodeError(e, target, view, key as string, coder);
+          }
+          frame.fields.set(key as string, [start, cursor]);
+        }
+
+        for (const { field, offset, run } of frame.deferred) {
+          try {
+            run();
+          } catch (e) {
+            const view = target.subarray(offset);
+            throw wrapEncodeError(e, target, view, field, schema[field]);
+          }
+        }
+      } finally {
+        closeFrame(ctx, frame);
       }
-      return cursor;
+      return Math.max(cursor, frame.end);
     },
     decode: (encoded, context) => {
       const ctx = context ?? createContext("decode");
@@ -128,18 +159,162 @@ export function struct<T extends Record<string, Coder<any>>>(
 
       refSetValue(ctx, self, result);
 
-      for (const key of keys) {
-        const coder = schema[key];
-        const [value, bytesRead] = coder.decode(
-          encoded.subarray(cursor),
-          ctx,
-        );
+      const frame = openFrame(ctx, encoded, result);
+      try {
+        for (const key of keys) {
+          const coder = schema[key];
+          const view = encoded.subarray(cursor);
+          const span = beginSpan(ctx, view, key as string, coder[kCoderKind]);
+
+          frame.field = key as string;
+          frame.offset = cursor;
+          let value, bytesRead;
+          try {
+            [value, bytesRead] = coder.decode(view, ctx);
+          } catch (e) {
+            throw wrapDecodeError(e, encoded, view, key as string, coder);
+          }
+          const { placed } = frame;
+          frame.placed = undefined;
+          if (placed === undefined) {
+            endSpan(ctx, span, bytesRead);
+          } else {
+            // An `at` field came from elsewhere in the struct
+            const [start, end] = placed;
+            endSpan(ctx, span, end - start, encoded.subarray(start));
+          }
+
+          frame.fields.set(key as string, [cursor, cursor + bytesRead]);
+          cursor += bytesRead;
+          result[key] = value;
+        }
 
-        cursor += bytesRead;
-        result[key] = value;
+        for (const { field, offset, run } of frame.deferred) {
+          try {
+            run();
+          } catch (e) {
+            const view = encoded.subarray(offset);
+            throw wrapDecodeError(e, encoded, view, field, schema[field]);
+          }
+        }
+      } finally {
+        closeFrame(ctx, frame);
       }
 
-      return [result, cursor];
+      return [result, Math.max(cursor, frame.end)];
+    },
+    measure: (decoded, context) => {
+      const ctx = context ?? createContext("encode");
+      let size = 0;
+
+      refSetValue(ctx, self, decoded);
+
+      const frame = openFrame(ctx, undefined, decoded);
+      try {
+        for (const key of keys) {
+          frame.field = key as string;
+          frame.offset = size;
+          const bytes = schema[key].measure?.(decoded[key], ctx);
+          if (bytes === undefined) {
+            return undefined;
+          }
+          size += bytes;
+        }
+      } finally {
+        closeFrame(ctx, frame);
+      }
+      return Math.max(size, frame.end);
+    },
+    describe: (walker) => ({
+      type: "struct",
+      fields: keys.map((key) => ({
+        name: key as string,
+        schema: walker.child(schema[key], key as string),
+      })),
+    }),
+    view: (encoded, context) => {
+      const ctx = viewContext(context);
+      const result = {} as StructDecoded<T>;
+      // The fields located so far, which is what the frame shows to them
+      const located: Record<string, unknown> = {};
+      const children: ValueView<unknown>[] = [];
+      let cursor = 0;
+      let end: number | undefined;
+
+      refSetValue(context, self, result);
+
+      // The view's context is its own, so the frame stays open for the
+      // fields read later
+      const frame = openFrame(ctx, encoded, located);
+
+      // A field starts where the one before it ends, so locating a field
+      // takes the length of every field before it
+      const settle = (index: number) => {
+        const key = keys[index] as string;
+        const start = cursor;
+        frame.field = key;
+        frame.offset = start;
+        cursor += children[index].byteLength();
+        frame.fields.set(key, [start, cursor]);
+      };
+
+      const locate = (index: number) => {
+        for (let i = children.length; i <= index; i++) {
+          if (i > 0) {
+            settle(i - 1);
+          }
+
+          const key = keys[i];
+          frame.field = key as string;
+          frame.offset = cursor;
+          const view = encoded.subarray(cursor);
+          const child = viewChild(
+            ctx,
+            schema[key],
+            encoded,
+            view,
+            key as string,
+          );
+          children.push(child);
+          located[key as string] = child.value;
+        }
+      };
+
+      for (const [index, key] of keys.entries()) {
+        Object.defineProperty(result, key, {
+          enumerable: true,
+          get: () => {
+            locate(index);
+            return located[key as string];
+          },
+        });
+      }
+
+      return {
+        value: result,
+        byteLength: () => {
+          if (end === undefined) {
+            locate(keys.length - 1);
+            if (keys.length > 0) {
+              settle(keys.length - 1);
+            }
+
+            for (const { field, offset, run } of frame.deferred) {
+              try {
+                run();
+              } catch (e) {
+                const view = encoded.subarray(offset);
+                viewRaise(
+                  ctx,
+                  wrapDecodeError(e, encoded, view, field, schema[field]),
+                );
+              }
+            }
+            end = Math.max(cursor, frame.end);
+          }
+          return end;
+        },
+      };
     },
   };
 }
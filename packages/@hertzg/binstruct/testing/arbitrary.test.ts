@@ -0,0 +1,239 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { arrayFL, arrayLP } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import { computed } from "../computed/computed.ts";
+import type { Coder } from "../core.ts";
+import { decode, encode } from "../helpers.ts";
+import { at } from "../layout/at.ts";
+import { bcd } from "../numeric/bcd.ts";
+import { f32le, s16le, u16le, u32le, u64le, u8 } from "../numeric/numeric.ts";
+import { octal } from "../numeric/octal.ts";
+import { optional, optionalTagged } from "../optional/optional.ts";
+import { ref } from "../ref/ref.ts";
+import { refineSwitch } from "../refine/switch.ts";
+import { stringFL, stringLP, stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { arbitrary, seededRandom } from "./arbitrary.ts";
+
+// Generates `count` values from a fixed seed
+function sample<T>(
+  coder: Coder<T>,
+  count = 200,
+  options?: Parameters<typeof arbitrary>[1],
+): T[] {
+  const values = arbitrary(coder, options);
+  const random = seededRandom(1);
+  return Array.from({ length: count }, () => values.generate(random));
+}
+
+Deno.test("arbitrary - reaches the edges of numeric ranges", async (t) => {
+  await t.step("integers", () => {
+    const u8s = sample(u8());
+    assert(u8s.every((value) => Number.isInteger(value) && value <= 0xff));
+    assert(u8s.includes(0) && u8s.includes(0xff));
+
+    const s16s = sample(s16le());
+    assert(s16s.includes(-0x8000) && s16s.includes(0x7fff));
+
+    const u64s = sample(u64le());
+    assert(u64s.every((value) => typeof value === "bigint"));
+    assert(u64s.includes(2n ** 64n - 1n));
+  });
+
+  await t.step("floats", () => {
+    const f32s = sample(f32le());
+    assert(f32s.some(Number.isNaN));
+    assert(f32s.some((value) => Object.is(value, -0)));
+    assert(f32s.includes(Infinity) && f32s.includes(-Infinity));
+    assert(f32s.includes(2 ** -149));
+    assert(f32s.every((value) => Object.is(Math.fround(value), value)));
+  });
+
+  await t.step("digits", () => {
+    const bcds = sample(bcd(2));
+    assert(bcds.every((value) => value >= 0 && value <= 9999));
+    assert(bcds.includes(9999));
+
+    const octals = sample(octal(4));
+    assert(octals.every((value) => value >= 0 && value <= 0o777));
+    assert(octals.includes(0o777));
+  });
+
+  await t.step("bit fields", () => {
+    const flags = sample(bitStruct({
+      version: 4,
+      offset: { bits: 5, signed: true },
+      wide: { bits: 40, type: "bigint" },
+      urgent: { type: "boolean" },
+      reserved: 6,
+    }));
+
+    assert(flags.every(({ version }) => version >= 0 && version <= 15));
+    assert(flags.some(({ version }) => version === 15));
+    assert(flags.some(({ offset }) => offset === -16));
+    assert(flags.some(({ offset }) => offset === 15));
+    assert(flags.some(({ wide }) => wide === 2n ** 40n - 1n));
+    assert(flags.some(({ urgent }) => urgent) && flags.some((f) => !f.urgent));
+  });
+});
+
+Deno.test("arbitrary - follows length strategies", async (t) => {
+  const utf8 = new TextEncoder();
+
+  await t.step("fixed lengths are met exactly", () => {
+    const strings = sample(stringFL(5));
+    assert(strings.every((value) => utf8.encode(value).length === 5));
+    assert(strings.some((value) => value.length < 5), "multi-byte characters");
+
+    assert(sample(arrayFL(u8(), 3)).every((value) => value.length === 3));
+  });
+
+  await t.step("ref lengths come from the field referred to", () => {
+    const length = u8();
+    const values = sample(struct({ length, data: bytes(ref(length)) }));
+    assert(values.every(({ length, data }) => data.length === length));
+  });
+
+  await t.step("prefixes bound the length", () => {
+    const strings = sample(stringLP(u8()));
+    assert(strings.every((value) => utf8.encode(value).length <= 0xff));
+    assert(strings.some((value) => utf8.encode(value).length === 0xff));
+  });
+
+  await t.step("strings start with a byte order mark if they keep it", () => {
+    assert(sample(stringFL()).some((value) => value.startsWith("\ufeff")));
+    for (const coder of [stringLP(u8()), stringNT()]) {
+      assert(sample(coder).every((value) => !value.startsWith("\ufeff")));
+    }
+  });
+
+  await t.step("terminated strings leave out the terminator", () => {
+    assert(sample(stringNT()).every((value) => !value.includes("\0")));
+  });
+
+  await t.step("strings use the characters of their encoding", () => {
+    const codes = (value: string) => Array.from(value, (c) => c.charCodeAt(0));
+
+    const latin1 = sample(stringLP(u8(), "latin1")).flatMap(codes);
+    assert(latin1.every((code) => code <= 0xff));
+    assert(latin1.some((code) => code >= 0x80));
+
+    const ascii = sample(stringNT("ascii")).flatMap(codes);
+    assert(ascii.every((code) => code >= 1 && code <= 0x7f));
+
+    const utf16 = sample(stringFL(6, "utf-16le"));
+    assert(utf16.every((value) => value.length === 3 || value.length === 2));
+    assert(utf16.some((value) => /[\ud800-\udbff]/.test(value)));
+  });
+
+  await t.step("padded strings are shorter and do not end in the pad", () => {
+    const strings = sample(stringFL(8, "ascii", { pad: " " }));
+    assert(strings.every((value) => value.length <= 8));
+    assert(strings.some((value) => value.length < 8));
+    assert(strings.every((value) => !value.endsWith(" ")));
+  });
+
+  await t.step("open lengths stay within maxLength", () => {
+    const slices = sample(bytes(), 200, { maxLength: 16 });
+    assert(slices.every((value) => value.length <= 16));
+    assert(slices.some((value) => value.length === 16));
+
+    const nested = sample(arrayLP(arrayLP(u8(), u16le()), u16le()));
+    const elements = nested.map((value) => value.flat().length + value.length);
+    assert(elements.every((count) => count <= 256 + 1));
+  });
+});
+
+Deno.test("arbitrary - values the coders accept", async (t) => {
+  await t.step("refineSwitch aims for every arm", () => {
+    type Shape = { kind: "circle"; r: number } | {
+      kind: "square";
+      side: number;
+    };
+    const shape = refineSwitch(
+      struct({ type: u8(), size: u8() }),
+      {
+        circle: {
+          refine: ({ size }): Shape => ({ kind: "circle", r: size }),
+          unrefine: (shape: Shape) => ({
+            type: 1,
+            size: shape.kind === "circle" ? shape.r : 0,
+          }),
+        },
+        square: {
+          refine: ({ size }): Shape => ({ kind: "square", side: size }),
+          unrefine: (shape: Shape) => ({
+            type: 2,
+            size: shape.kind === "square" ? shape.side : 0,
+          }),
+        },
+      },
+      {
+        refine: ({ type }) =>
+          type === 1 ? "circle" : type === 2 ? "square" : null,
+        unrefine: (shape: Shape) => shape.kind,
+      },
+    );
+
+    const kinds = new Set(sample(shape, 20).map((value) => value.kind));
+    assertEquals(kinds, new Set(["circle", "square"]));
+  });
+
+  await t.step("optional fields are present when their condition says", () => {
+    const record = struct({
+      flags: u8(),
+      extra: optional(u32le(), ({ flags }) => flags & 1),
+      tail: optionalTagged(u8()),
+    });
+    const values = sample(record);
+
+    assert(
+      values.every(({ flags, extra }) =>
+        (extra !== undefined) === !!(flags & 1)
+      ),
+    );
+    assert(values.some(({ tail }) => tail === undefined));
+    assert(values.some(({ tail }) => tail !== undefined));
+  });
+
+  await t.step("computed fields hold what encoding writes", () => {
+    const length = u8();
+    const chunk = struct({
+      length: computed(length, ({ value }) => value.data.length),
+      data: bytes(ref(length)),
+    });
+
+    for (const value of sample(chunk, 50)) {
+      assertEquals(decode(chunk, encode(chunk, value)), value);
+    }
+  });
+});
+
+Deno.test("arbitrary - overrides and unsupported coders", () => {
+  const name = stringNT();
+  const values = sample(
+    struct({ id: u8(), name }),
+    20,
+    { overrides: new Map([[name, (random) => `user${random.int(10)}`]]) },
+  );
+  assert(values.every(({ name }) => /^user\d$/.test(name)));
+
+  const opaque: Coder<number> = { ...u8() };
+  delete opaque.describe;
+  assertThrows(
+    () => arbitrary(struct({ opaque })),
+    Error,
+    "Cannot generate opaque (u8): it does not describe itself",
+  );
+  assertThrows(
+    () => arbitrary(struct({ value: at(4, u8()) })),
+    Error,
+    "Cannot generate value (at): at coders are not supported",
+  );
+  assertThrows(
+    () => arbitrary(u8(), { maxLength: -1 }),
+    Error,
+    "Invalid maxLength: -1",
+  );
+});
@@ -0,0 +1,812 @@
+import { kKindComputed } from "../computed/computed.ts";
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+  kCtxLayout,
+} from "../core.ts";
+import { formatPath, type PathSegment } from "../errors.ts";
+import { decode, encode } from "../helpers.ts";
+import { closeFrame, openFrame } from "../layout/frame.ts";
+import { isValidLength, type LengthOrRef, lengthRefGet } from "../length.ts";
+import { isRef, kRefTarget, refSetValue } from "../ref/ref.ts";
+import { kSwitchSelector, type SwitchCoder } from "../refine/switch.ts";
+import type { LengthSchema, SchemaNode } from "../schema/describe.ts";
+import {
+  textCodec,
+  type TextEncodingName,
+  textEncodingName,
+} from "../string/text.ts";
+import { Choices, Rejected, seededStream } from "./choices.ts";
+
+/**
+ * A source of random choices for value generators.
+ *
+ * Generators should make their simplest value when every choice is 0, and
+ * simpler values from smaller choices, which is what lets failing values
+ * shrink.
+ */
+export interface Random {
+  /**
+   * Returns an integer from 0 up to, but not including, `bound`.
+   *
+   * @param bound - An integer from 1 to 2^32
+   */
+  int(bound: number): number;
+}
+
+/**
+ * Generates a value from random choices.
+ *
+ * @template T - The type of the value
+ */
+export type Generator<T> = (random: Random) => T;
+
+/** Options for {@link arbitrary}. */
+export interface ArbitraryOptions {
+  /**
+   * The most bytes, characters or elements a string, byte slice or array
+   * gets when its coder leaves the count open, as with length prefixes and
+   * `arrayWhile`. Nested arrays get fewer, and the arrays of a value share
+   * this many elements between them. Defaults to 256.
+   */
+  readonly maxLength?: number;
+  /**
+   * Generators to use in place of the ones derived from the coders, keyed by
+   * coder. Coders that cannot describe themselves need one.
+   */
+  // deno-lint-ignore no-explicit-any
+  readonly overrides?: ReadonlyMap<Coder<any>, Generator<unknown>>;
+}
+
+/**
+ * Generates random values for a coder.
+ *
+ * @template T - The type of the values
+ */
+export interface Arbitrary<T> {
+  /**
+   * Generates a value from the choices `random` makes.
+   *
+   * @param random - The source of choices, e.g. from {@link seededRandom}
+   * @returns A value the coder can encode
+   */
+  generate(random: Random): T;
+}
+
+// deno-lint-ignore no-explicit-any
+type AnyCoder = Coder<any>;
+
+interface State {
+  readonly random: Random;
+  readonly ctx: Context;
+  readonly maxLength: number;
+  // Arrays and tagged optionals the value is inside, which shrinks the
+  // lengths left open so that recursive coders end
+  depth: number;
+  // Array elements left for the whole value, which keeps wide recursive
+  // values from growing with every level
+  elements: number;
+  // Paths of the `computed` fields generated, filled in at the end
+  computed: PathSegment[][];
+}
+
+type Gen = (state: State, path: PathSegment[]) => unknown;
+type LengthGen = (state: State, path: PathSegment[]) => number;
+
+// Refiners reject base values they do not recognise, and arms are aimed for
+// by drawing base values until one selects the arm
+const maxAttempts = 1000;
+
+// A computed length over this is rejected rather than generated
+const maxComputedLength = 1 << 20;
+
+/**
+ * Creates a {@link Random} drawing from a seeded stream, so a seed always
+ * makes the same choices.
+ *
+ * @param seed - Any 32-bit integer
+ * @returns The source of choices
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { seededRandom } from "@hertzg/binstruct/testing";
+ *
+ * const a = seededRandom(42);
+ * const b = seededRandom(42);
+ * assertEquals([a.int(10), a.int(1000)], [b.int(10), b.int(1000)]);
+ * ```
+ */
+export function seededRandom(seed: number): Random {
+  return new Choices(seededStream(seed));
+}
+
+/**
+ * Derives a generator of random values from a coder tree.
+ *
+ * The tree is walked through `describe`, and each kind of coder gets values
+ * that reach its edges:
+ *
+ * - Integers are small, at the ends of their range (the high bit set, the
+ *   most negative) or anywhere in it. Floats also take `-0`, infinities,
+ *   `NaN`, the largest finite value and the smallest subnormal.
+ * - `bitStruct` fields use their full widths, BCD and octal fields their
+ *   digit counts.
+ * - Strings, byte slices and arrays follow their length strategy. A fixed
+ *   length is met exactly, a ref length is read from the field it refers to,
+ *   which gets a small value for it. Lengths left open (prefixes, `arrayWhile`,
+ *   the end of the input) are short, the most the prefix holds, or anything
+ *   in between, up to `maxLength`. Strings mix one to four byte UTF-8
+ *   characters and byte order marks, which `stringLP` and `stringNT` strings
+ *   do not start with since they decode without them.
+ * - Optional values are present exactly when their condition says so, which
+ *   is read from the fields generated before them.
+ * - `refine` values come from decoding a generated base value, and
+ *   `refineSwitch` aims for each of its arms in turn.
+ * - `computed` fields get the values encoding writes for them.
+ *
+ * Coders that do not describe themselves, and `at`, need a generator in
+ * `overrides`.
+ *
+ * @template T - The type of the coder's values
+ * @param coder - The coder to generate values for
+ * @param options - Length limits and generators for particular coders
+ * @returns The value generator
+ * @throws {Error} If a coder in the tree needs a generator from `overrides`
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bytes, decode, encode, ref, struct, u8 } from "@hertzg/binstruct";
+ * import { arbitrary, seededRandom } from "@hertzg/binstruct/testing";
+ *
+ * const length = u8();
+ * const chunk = struct({ length, data: bytes(ref(length)) });
+ * const values = arbitrary(chunk);
+ *
+ * const random = seededRandom(1);
+ * for (let i = 0; i < 10; i++) {
+ *   const value = values.generate(random);
+ *   assertEquals(value.data.length, value.length);
+ *   assertEquals(decode(chunk, encode(chunk, value)), value);
+ * }
+ * ```
+ */
+export function arbitrary<T>(
+  coder: Coder<T>,
+  options: ArbitraryOptions = {},
+): Arbitrary<T> {
+  const { maxLength = 256, overrides = new Map() } = options;
+  if (!isValidLength(maxLength)) {
+    throw new Error(
+      `Invalid maxLength: ${maxLength}. Must be a non-negative integer.`,
+    );
+  }
+
+  const gens = new Map<AnyCoder, Gen>();
+  const nodes = new Map<AnyCoder, Gen>();
+  // Coders whose values are lengths, which are kept small
+  const lengthTargets = new Set<AnyCoder>();
+
+  const lengthOf = (
+    lengths: Map<object, LengthOrRef>,
+    children: Map<object, AnyCoder>,
+    schema: LengthSchema,
+    elements = false,
+  ): LengthGen => {
+    const raw = lengths.get(schema);
+    if (typeof raw === "number") {
+      return () => raw;
+    }
+    if (raw !== undefined) {
+      const target = isRef(raw) ? raw[kRefTarget] : undefined;
+      if (target !== undefined) {
+        lengthTargets.add(target);
+      }
+      return (state, path) => {
+        const length = lengthRefGet(state.ctx, raw);
+        if (length === undefined) {
+          throw new Error(
+            `Cannot generate ${
+              formatPath(path)
+            }: its length refers to a value generated after it or outside the coder. Pass a generator for it in overrides.`,
+          );
+        }
+        if (!isValidLength(length) || length > maxComputedLength) {
+          throw new Rejected(`Invalid length: ${length}`);
+        }
+        return length;
+      };
+    }
+
+    const max = schema.type === "prefixed"
+      ? maxValue(children.get(schema.prefix)!)
+      : Infinity;
+    return (state) =>
+      freeLength(state, elements ? Math.min(max, state.elements) : max);
+  };
+
+  const build = (current: AnyCoder, path: PathSegment[]): Gen => {
+    const existing = gens.get(current);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    // Recursive coders reach themselves while they are being built, so the
+    // node is looked up when generating
+    const gen: Gen = (state, path) => {
+      const value = nodes.get(current)!(state, path);
+      refSetValue(state.ctx, current, value);
+      return value;
+    };
+    gens.set(current, gen);
+
+    const override = overrides.get(current);
+    nodes.set(
+      current,
+      override !== undefined
+        ? (state) => override(state.random)
+        : buildNode(current, path),
+    );
+    return gen;
+  };
+
+  const buildNode = (current: AnyCoder, path: PathSegment[]): Gen => {
+    const { node, children, lengths } = inspect(current);
+    const kind = current[kCoderKind].description;
+
+    if (node !== undefined && children.has(node)) {
+      // `lazy` and `computed` describe themselves as the coder they wrap
+      const inner = build(children.get(node)!, path);
+      return current[kCoderKind] === kKindComputed
+        ? (state, path) => {
+          state.computed.push(path);
+          return inner(state, path);
+        }
+        : inner;
+    }
+
+    switch (node?.type) {
+      case "uint":
+      case "int":
+      case "varint": {
+        const signed = node.type === "int" ||
+          (node.type === "varint" && node.signed);
+        const bigint = node.bits > 48;
+        return (state) => {
+          const value = lengthTargets.has(current)
+            ? BigInt(freeLength(state, Number(maxOf(node.bits, signed))))
+            : drawInteger(state.random, node.bits, signed);
+          return bigint ? value : Number(value);
+        };
+      }
+      case "float":
+        return (state) => drawFloat(state.random, node.bits);
+      case "bcd":
+        return (state) => drawUpTo(state.random, 10 ** node.digits - 1);
+      case "octal": {
+        const max = Math.min(8 ** node.digits - 1, Number.MAX_SAFE_INTEGER);
+        return (state) => drawUpTo(state.random, max);
+      }
+      case "bits":
+        return (state) => {
+          const value: Record<string, unknown> = {};
+          for (const { name, bits, signed, value: type } of node.fields) {
+            if (type === "boolean") {
+              value[name] = state.random.int(2) === 1;
+            } else {
+              const field = drawInteger(state.random, bits, signed);
+              value[name] = type === "bigint" ? field : Number(field);
+            }
+          }
+          return value;
+        };
+      case "string": {
+        const length = lengthOf(lengths, children, node.length);
+        const charset = charsets[textEncodingName(node.encoding) ?? "ascii"];
+        const terminated = node.length.type === "terminated";
+        // Lengths the encoding decides on can be rounded to whole characters
+        const free = terminated || node.length.type === "prefixed" ||
+          node.length.type === "eos";
+        // Trimmed pad characters do not decode, so values cannot end in them
+        const pad = node.trim ? node.pad?.codePointAt(0) : undefined;
+        // `stringLP` and `stringNT` decode a leading byte order mark away
+        const bom = !terminated && node.length.type !== "prefixed";
+        const fills = pad !== undefined && !free;
+        return (state, path) => {
+          let byteLength = length(state, path);
+          if (byteLength % charset.unit !== 0) {
+            if (!free) {
+              throw new Rejected(
+                `Invalid length: ${byteLength}. Must be whole characters.`,
+              );
+            }
+            byteLength -= byteLength % charset.unit;
+          }
+          if (fills) {
+            byteLength = state.random.int(byteLength / charset.unit + 1) *
+              charset.unit;
+          }
+          return drawString(
+            state.random,
+            byteLength,
+            charset,
+            terminated,
+            bom,
+            pad,
+          );
+        };
+      }
+      case "bytes": {
+        const length = lengthOf(lengths, children, node.length);
+        return (state, path) => drawBytes(state.random, length(state, path));
+      }
+      case "array": {
+        const element = build(children.get(node.element)!, [...path, 0]);
+        const length = lengthOf(lengths, children, node.length, true);
+        return (state, path) => {
+          const count = length(state, path);
+          state.elements = Math.max(state.elements - count, 0);
+          const values = [];
+          state.depth++;
+          try {
+            for (let index = 0; index < count; index++) {
+              values.push(element(state, [...path, index]));
+            }
+          } finally {
+            state.depth--;
+          }
+          return values;
+        };
+      }
+      case "struct": {
+        const fields = node.fields.map(({ name, schema }) =>
+          [name, build(children.get(schema)!, [...path, name])] as const
+        );
+        return (state, path) => {
+          const value: Record<string, unknown> = {};
+          refSetValue(state.ctx, current, value);
+
+          // Optional fields look at the fields before them through the frame
+          const frame = openFrame(state.ctx, undefined, value);
+          try {
+            for (const [name, field] of fields) {
+              frame.field = name;
+              value[name] = field(state, [...path, name]);
+            }
+          } finally {
+            closeFrame(state.ctx, frame);
+          }
+          return value;
+        };
+      }
+      case "optional": {
+        const inner = build(children.get(node.value)!, path);
+        if (node.presence.type === "tagged") {
+          return (state, path) => {
+            if (budget(state) === 0 || state.random.int(2) === 0) {
+              return undefined;
+            }
+            state.depth++;
+            try {
+              return inner(state, path);
+            } finally {
+              state.depth--;
+            }
+          };
+        }
+        return (state, path) =>
+          isPresent(current, state.ctx) ? inner(state, path) : undefined;
+      }
+      case "refine":
+      case "switch": {
+        const baseCoder = children.get(node.base)!;
+        const base = build(baseCoder, path);
+        const select = (current as SwitchCoder<unknown>)[kSwitchSelector];
+        const arms = node.type === "switch" ? node.arms : [];
+        return (state, path) =>
+          refineBase(state, path, current, baseCoder, base, select, arms);
+      }
+      case "padding":
+      case "align":
+      case "magic":
+        return () => undefined;
+    }
+
+    throw new Error(
+      `Cannot generate ${formatPath(path)} (${kind}): ${
+        node === undefined || node.type === "opaque"
+          ? "it does not describe itself"
+          : `${node.type} coders are not supported`
+      }. Pass a generator for it in overrides.`,
+    );
+  };
+
+  const gen = build(coder, []);
+
+  return {
+    generate: (random) => {
+      const state: State = {
+        random,
+        ctx: createContext("decode"),
+        maxLength,
+        depth: 0,
+        elements: maxLength,
+        computed: [],
+      };
+      const value = gen(state, []) as T;
+      return state.computed.length === 0
+        ? value
+        : fillComputed(coder, value, state.computed);
+    },
+  };
+}
+
+// Describes a coder one level deep, mapping the schemas it puts in its node
+// back to the child coders and lengths they stand for
+function inspect(coder: AnyCoder): {
+  node?: SchemaNode;
+  children: Map<object, AnyCoder>;
+  lengths: Map<object, LengthOrRef>;
+} {
+  const children = new Map<object, AnyCoder>();
+  const lengths = new Map<object, LengthOrRef>();
+  const node = coder.describe?.({
+    child: (child) => {
+      const placeholder = { type: "opaque" as const, coderKind: "" };
+      children.set(placeholder, child);
+      return placeholder;
+    },
+    length: (lengthOrRef) => {
+      const placeholder = { type: "computed" as const };
+      lengths.set(placeholder, lengthOrRef);
+      return placeholder;
+    },
+  });
+  return { node, children, lengths };
+}
+
+// The most a length prefix holds
+function maxValue(prefix: AnyCoder): number {
+  const { node } = inspect(prefix);
+  return node?.type === "uint" || node?.type === "varint"
+    ? Number(maxOf(node.bits, false))
+    : Infinity;
+}
+
+function maxOf(bits: number, signed: boolean): bigint {
+  return (1n << BigInt(signed ? bits - 1 : bits)) - 1n;
+}
+
+// Lengths left open shrink with every array they are inside
+function budget(state: State): number {
+  return Math.floor(state.maxLength / 8 ** state.depth);
+}
+
+function freeLength(state: State, max: number): number {
+  const limit = Math.min(max, budget(state));
+  switch (state.random.int(4)) {
+    case 0:
+      return state.random.int(Math.min(limit, 3) + 1);
+    case 1:
+      return limit;
+    default:
+      return state.random.int(limit + 1);
+  }
+}
+
+// A uniformly drawn unsigned integer of `bits` bits
+function drawBits(random: Random, bits: number): bigint {
+  let value = 0n;
+  for (let left = bits; left > 0; left -= 32) {
+    const width = Math.min(left, 32);
+    value = (value << BigInt(width)) | BigInt(random.int(2 ** width));
+  }
+  return value;
+}
+
+// Small, at an edge of the range, or anywhere in it
+function drawInteger(random: Random, bits: number, signed: boolean): bigint {
+  const wrap = (value: bigint) =>
+    signed ? BigInt.asIntN(bits, value) : BigInt.asUintN(bits, value);
+
+  switch (random.int(4)) {
+    case 0: {
+      // 0, -1, 1, -2, 2, ... for signed integers
+      const small = BigInt(random.int(16));
+      return wrap(
+        !signed ? small : small % 2n === 1n ? -(small + 1n) / 2n : small / 2n,
+      );
+    }
+    case 1: {
+      const max = maxOf(bits, signed);
+      const edges = signed
+        ? [-max - 1n, max, -max, max - 1n]
+        : [max, max - 1n, (max >> 1n) + 1n, max >> 1n];
+      return wrap(edges[random.int(edges.length)]);
+    }
+    default:
+      return wrap(drawBits(random, bits));
+  }
+}
+
+function drawUpTo(random: Random, max: number): number {
+  switch (random.int(4)) {
+    case 0:
+      return Math.min(random.int(16), max);
+    case 1:
+      return max;
+    default:
+      return max < 2 ** 32
+        ? random.int(max + 1)
+        : Number(drawBits(random, 53) % BigInt(max + 1));
+  }
+}
+
+function floatFromBits(bits: number, pattern: bigint): number {
+  const view = new DataView(new ArrayBuffer(8));
+  switch (bits) {
+    case 16:
+      view.setUint16(0, Number(pattern));
+      return view.getFloat16(0);
+    case 32:
+      view.setUint32(0, Number(pattern));
+      return view.getFloat32(0);
+    default:
+      view.setBigUint64(0, pattern);
+      return view.getFloat64(0);
+  }
+}
+
+function drawFloat(random: Random, bits: number): number {
+  switch (random.int(4)) {
+    case 0: {
+      const small = random.int(16);
+      return small % 2 === 1 ? -(small + 1) / 2 : small / 2;
+    }
+    case 1: {
+      // The largest finite value has every exponent bit but the lowest set
+      const exponent = { 16: 5, 32: 8, 64: 11 }[bits] ?? 11;
+      const largest = floatFromBits(
+        bits,
+        ((1n << BigInt(bits - 1)) - 1n) ^ (1n << BigInt(bits - 1 - exponent)),
+      );
+      const specials = [
+        -0,
+        Infinity,
+        -Infinity,
+        NaN,
+        largest,
+        -largest,
+        floatFromBits(bits, 1n),
+        0.5,
+      ];
+      return specials[random.int(specials.length)];
+    }
+    default:
+      return floatFromBits(bits, drawBits(random, bits));
+  }
+}
+
+// Characters at the edges of the UTF-8 widths, and the byte order mark
+const edgeCharacters = [
+  0x7f,
+  0x80,
+  0x7ff,
+  0x800,
+  0xfeff,
+  0xfffd,
+  0xffff,
+  0x10000,
+  0x10ffff,
+];
+
+function utf8Width(codePoint: number): number {
+  return codePoint < 0x80
+    ? 1
+    : codePoint < 0x800
+    ? 2
+    : codePoint < 0x10000
+    ? 3
+    : 4;
+}
+
+// The characters of an encoding, and how many bytes each takes
+type Charset = {
+  unit: 1 | 2;
+  draw(random: Random, first: number): number;
+  width(codePoint: number): number;
+};
+
+const drawAscii = (random: Random, first: number) =>
+  first + random.int(0x80 - first);
+
+// Any character, from the edges of the UTF-8 widths more often
+const drawUnicode = (random: Random, first: number) => {
+  switch (random.int(6)) {
+    case 0:
+    case 1:
+      return drawAscii(random, first);
+    case 2:
+      return 0x80 + random.int(0x780);
+    case 3: {
+      // Skipping the surrogates, which are not characters
+      const codePoint = 0x800 + random.int(0xf000);
+      return codePoint + (codePoint >= 0xd800 ? 0x800 : 0);
+    }
+    case 4:
+      return 0x10000 + random.int(0x100000);
+    default:
+      return edgeCharacters[random.int(edgeCharacters.length)];
+  }
+};
+
+// Every character of windows-1252, in byte order
+const windows1252Characters = Array.from(
+  textCodec("windows-1252").decode(
+    Uint8Array.from({ length: 0x100 }, (_, byte) => byte),
+  ),
+  (char) => char.codePointAt(0)!,
+);
+
+const charsets: Record<TextEncodingName, Charset> = {
+  "utf-8": { unit: 1, draw: drawUnicode, width: utf8Width },
+  "utf-16le": { unit: 2, draw: drawUnicode, width: utf16Width },
+  "utf-16be": { unit: 2, draw: drawUnicode, width: utf16Width },
+  "latin1": {
+    unit: 1,
+    draw: (random, first) =>
+      random.int(2) === 0 ? drawAscii(random, first) : 0x80 + random.int(0x80),
+    width: () => 1,
+  },
+  "windows-1252": {
+    unit: 1,
+    draw: (random, first) =>
+      random.int(2) === 0
+        ? drawAscii(random, first)
+        : windows1252Characters[0x80 + random.int(0x80)],
+    width: () => 1,
+  },
+  "ascii": { unit: 1, draw: drawAscii, width: () => 1 },
+};
+
+function utf16Width(codePoint: number): number {
+  return codePoint < 0x10000 ? 2 : 4;
+}
+
+// A string of exactly `byteLength` bytes in the encoding of `charset`, not
+// ending in `pad`, and starting with a byte order mark only if `bom`
+function drawString(
+  random: Random,
+  byteLength: number,
+  charset: Charset,
+  terminated: boolean,
+  bom: boolean,
+  pad?: number,
+): string {
+  const first = terminated ? 1 : 0;
+  const codePoints: number[] = [];
+  for (let left = byteLength; left > 0;) {
+    let codePoint = charset.draw(random, first);
+    // Characters too wide for the bytes left become ASCII
+    if (charset.width(codePoint) > left) {
+      codePoint = first + codePoint % (0x80 - first);
+    }
+    codePoints.push(codePoint);
+    left -= charset.width(codePoint);
+  }
+  // U+FFFD takes as many bytes as the byte order mark
+  if (!bom && codePoints[0] === 0xfeff) {
+    codePoints[0] = 0xfffd;
+  }
+  // A space takes as many bytes as any pad character
+  if (pad !== undefined && codePoints.at(-1) === pad) {
+    codePoints[codePoints.length - 1] = pad === 0x20 ? 0x21 : 0x20;
+  }
+  return String.fromCodePoint(...codePoints);
+}
+
+function drawBytes(random: Random, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  switch (length === 0 ? 0 : random.int(3)) {
+    case 0:
+      break;
+    case 1:
+      bytes.fill(random.int(256));
+      break;
+    default:
+      for (let i = 0; i < length; i++) {
+        bytes[i] = random.int(256);
+      }
+  }
+  return bytes;
+}
+
+// Whether an optional field is present, found by encoding it as absent: that
+// throws exactly when its condition asks for a value
+function isPresent(coder: AnyCoder, ctx: Context): boolean {
+  try {
+    coder.encode(undefined, new Uint8Array(0), { ...ctx, direction: "encode" });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Generates a refined value by decoding a generated base value, aiming for
+// one of the arms when the coder is a `refineSwitch`
+function refineBase(
+  state: State,
+  path: PathSegment[],
+  coder: AnyCoder,
+  baseCoder: AnyCoder,
+  base: Gen,
+  select: ((base: unknown, ctx: Context) => string | null) | undefined,
+  arms: readonly string[],
+): unknown {
+  const arm = arms.length > 0 ? arms[state.random.int(arms.length)] : undefined;
+  // Computed fields of the base are filled in by encoding it
+  const computed = state.computed;
+  const ctx = { ...state.ctx, [kCtxLayout]: undefined };
+
+  try {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      state.computed = [];
+      const value = base(state, path);
+
+      // Any arm will do once the one aimed for seems out of reach
+      if (select !== undefined && arm !== undefined) {
+        let selected;
+        try {
+          selected = select(value, ctx);
+        } catch {
+          continue;
+        }
+        if (selected !== arm && attempt < maxAttempts / 2) {
+          continue;
+        }
+      }
+
+      try {
+        const encoded = encode(baseCoder, value, {
+          ...ctx,
+          direction: "encode",
+        });
+        return decode(coder, encoded, ctx);
+      } catch {
+        // The refiner rejected the base value
+      }
+    }
+  } finally {
+    state.computed = computed;
+  }
+
+  throw new Rejected(
+    `Cannot generate ${formatPath(path)}: no base value was refined`,
+  );
+}
+
+// Replaces the values of computed fields with the ones encoding writes
+function fillComputed<T>(coder: Coder<T>, value: T, paths: PathSegment[][]): T {
+  let decoded: T;
+  try {
+    decoded = decode(coder, encode(coder, value));
+  } catch {
+    // Left for the caller to run into
+    return value;
+  }
+
+  for (const path of paths) {
+    let target = value as Record<PathSegment, unknown>;
+    let source = decoded as Record<PathSegment, unknown>;
+    for (const segment of path.slice(0, -1)) {
+      target = target[segment] as Record<PathSegment, unknown>;
+      source = source[segment] as Record<PathSegment, unknown>;
+    }
+    const last = path[path.length - 1];
+    target[last] = source[last];
+  }
+  return value;
+}
@@ -0,0 +1,161 @@
+import type { Random } from "./arbitrary.ts";
+
+// Draws one generated value may make before it is given up on, which stops
+// recursive coders from generating without end
+const maxDraws = 100_000;
+
+/**
+ * Thrown by generators for a draw that cannot make a valid value, such as a
+ * computed length that is negative. The caller draws again.
+ */
+export class Rejected extends Error {
+  /**
+   * @param message - Why the draw was rejected
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "Rejected";
+  }
+}
+
+/**
+ * Creates a stream of 32-bit unsigned integers from a seed (mulberry32).
+ *
+ * @param seed - Any 32-bit integer
+ * @returns The next integer of the stream on every call
+ */
+export function seededStream(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+/**
+ * A {@link Random} that records the choices it makes, drawing them from a
+ * stream or replaying a recorded sequence.
+ *
+ * Replayed choices past the end of the sequence are 0, and generators make
+ * their simplest values from 0s, so shortening or lowering a sequence
+ * replays a simpler value. That is how failing values shrink: their choices
+ * are made smaller while the value keeps failing, and every value replayed
+ * is one the generators could have made.
+ */
+export class Choices implements Random {
+  /** The choices made so far. */
+  readonly drawn: number[] = [];
+  readonly #source: (() => number) | readonly number[];
+
+  /**
+   * @param source - A stream to draw from, or choices to replay
+   */
+  constructor(source: (() => number) | readonly number[]) {
+    this.#source = source;
+  }
+
+  int(bound: number): number {
+    if (!Number.isInteger(bound) || bound < 1 || bound > 2 ** 32) {
+      throw new Error(
+        `Invalid bound: ${bound}. Must be an integer 1-4294967296.`,
+      );
+    }
+    if (this.drawn.length >= maxDraws) {
+      throw new Rejected(`Gave up after ${maxDraws} draws`);
+    }
+
+    const source = this.#source;
+    const choice = typeof source === "function"
+      ? source()
+      : source[this.drawn.length] ?? 0;
+    const bounded = choice % bound;
+    this.drawn.push(bounded);
+    return bounded;
+  }
+}
+
+/**
+ * Shrinks the choices of a failing value to ones that still fail.
+ *
+ * Runs of choices are deleted, largest first, then single choices lowered,
+ * for as long as that finds smaller failing sequences or until `budget`
+ * replays are used.
+ *
+ * @param choices - The choices of the failing value
+ * @param replay - Replays choices, returning the choices drawn if the value
+ * still fails, or undefined if it passes or cannot be generated
+ * @param budget - The most replays to try
+ * @returns The smallest failing choices found, and how many shrinks led there
+ */
+export function shrinkChoices(
+  choices: readonly number[],
+  replay: (choices: readonly number[]) => readonly number[] | undefined,
+  budget: number,
+): { choices: readonly number[]; shrinks: number } {
+  let best = choices;
+  let shrinks = 0;
+  let tries = 0;
+
+  const attempt = (candidate: readonly number[]): boolean => {
+    if (tries >= budget) {
+      return false;
+    }
+    tries++;
+    const drawn = replay(candidate);
+    if (drawn === undefined || !smaller(drawn, best)) {
+      return false;
+    }
+    best = drawn;
+    shrinks++;
+    return true;
+  };
+
+  let improved = true;
+  while (improved && tries < budget) {
+    improved = false;
+
+    // Halves first, so that long sequences lose most of their choices in a
+    // few replays, then ever smaller runs at every position
+    for (
+      let size = 2 ** Math.floor(Math.log2(best.length));
+      size >= 1;
+      size >>= 1
+    ) {
+      const step = size > 8 ? size : 1;
+      for (let start = best.length - size; start >= 0; start -= step) {
+        const candidate = [
+          ...best.slice(0, start),
+          ...best.slice(start + size),
+        ];
+        improved = attempt(candidate) || improved;
+      }
+    }
+
+    for (let index = 0; index < best.length; index++) {
+      const value = best[index];
+      for (const lower of new Set([0, value >>> 1, value - 1])) {
+        if (lower < 0 || lower >= value) {
+          continue;
+        }
+        const candidate = best.with(index, lower);
+        if (attempt(candidate)) {
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return { choices: best, shrinks };
+}
+
+// Shorter sequences are smaller, then the first lower choice decides
+function smaller(a: readonly number[], b: readonly number[]): boolean {
+  if (a.length !== b.length) {
+    return a.length < b.length;
+  }
+  const index = a.findIndex((choice, i) => choice !== b[i]);
+  return index !== -1 && a[index] < b[index];
+}
@@ -0,0 +1,80 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { arrayLP } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import type { Coder } from "../core.ts";
+import { magic } from "../layout/magic.ts";
+import { u16be, u32le, u8 } from "../numeric/numeric.ts";
+import { ref } from "../ref/ref.ts";
+import { refine } from "../refine/refine.ts";
+import { stringFL, stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { assertDecodeFuzz, DecodeFuzzError } from "./fuzz.ts";
+
+Deno.test("assertDecodeFuzz - passes for coders that throw structured errors", () => {
+  const length = u8();
+  assertDecodeFuzz(
+    struct({
+      magic: magic("PK"),
+      flags: bitStruct({ version: 4, kind: 4 }),
+      length,
+      name: stringFL(ref(length)),
+      entries: arrayLP(struct({ id: u32le(), path: stringNT() }), u16be()),
+    }),
+    { runs: 300, seed: 1 },
+  );
+});
+
+Deno.test("assertDecodeFuzz - reports shrunk inputs", async (t) => {
+  await t.step("decoders that throw TypeError", () => {
+    // Reads past the end of the table for ids above 2
+    const names = ["zero", "one", "two"];
+    const name = refine(u8(), {
+      refine: (id) => names[id].toUpperCase(),
+      unrefine: (name: string) => names.indexOf(name.toLowerCase()),
+    })();
+
+    const error = assertThrows(
+      () => assertDecodeFuzz(struct({ tag: u8(), name }), { seed: 1 }),
+      DecodeFuzzError,
+    );
+    assertEquals(error.seed, 1);
+    assertEquals(error.input, new Uint8Array([0, 3]));
+    assertStringIncludes(error.message, "struct threw TypeError");
+    assertStringIncludes(error.message, "input: <00 03>");
+  });
+
+  await t.step("decoders that allocate what the input asks for", () => {
+    const items = refine(u32le(), {
+      refine: (count) => new Array(count - 1),
+      unrefine: (items: unknown[]) => items.length + 1,
+    })();
+
+    const error = assertThrows(
+      () =>
+        assertDecodeFuzz(items, {
+          runs: 1000,
+          seed: 1,
+          corpus: [new Uint8Array([1, 0, 0, 0])],
+        }),
+      DecodeFuzzError,
+      "refine threw RangeError: Invalid array length",
+    );
+    assertEquals(error.input, new Uint8Array([0, 0, 0, 0]));
+  });
+
+  await t.step("decoders that read past the input", () => {
+    const base = bytes(4);
+    const coder: Coder<Uint8Array> = {
+      ...base,
+      decode: (encoded, context) => [base.decode(encoded, context)[0], 5],
+    };
+
+    const error = assertThrows(
+      () => assertDecodeFuzz(coder, { seed: 1 }),
+      DecodeFuzzError,
+      "bytes read 5 bytes of 4",
+    );
+    assertEquals(error.input, new Uint8Array(4));
+  });
+});
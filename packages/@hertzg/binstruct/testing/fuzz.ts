@@ -0,0 +1,259 @@
+import { type Coder, kCoderKind } from "../core.ts";
+import { BinstructDecodeError } from "../errors.ts";
+import { encode } from "../helpers.ts";
+import { arbitrary, type ArbitraryOptions, type Random } from "./arbitrary.ts";
+import { Choices, seededStream, shrinkChoices } from "./choices.ts";
+import { formatBytes } from "./values.ts";
+
+/** Options for {@link assertDecodeFuzz}. */
+export interface DecodeFuzzOptions extends ArbitraryOptions {
+  /** How many buffers to decode. Defaults to 200. */
+  readonly runs?: number;
+  /**
+   * The seed of the random choices. Defaults to a random seed, which failures
+   * report so that they can be replayed.
+   */
+  readonly seed?: number;
+  /**
+   * Valid encodings to mutate, in addition to encodings of values generated
+   * with {@link arbitrary}.
+   */
+  readonly corpus?: readonly Uint8Array[];
+  /** The longest random buffer to decode. Defaults to 64. */
+  readonly maxBytes?: number;
+}
+
+// Encodings of generated values added to the corpus
+const generatedCorpus = 8;
+
+// Replays to spend shrinking a failing buffer
+const shrinkBudget = 2000;
+
+// Bytes that sit at the edges of fields
+const interestingBytes = [0x00, 0x01, 0x7f, 0x80, 0xff];
+
+// RangeErrors the engine throws for runaway recursion and allocations, as
+// opposed to the ones coders throw for truncated input (ADR 0012)
+const engineRangeError =
+  /Maximum call stack size exceeded|Invalid (typed )?array length|allocation failed/;
+
+// TypeErrors a fatal TextDecoder throws for bytes that are not valid text,
+// and string coders throw the same way, as opposed to the ones coders throw
+// misreading values
+const invalidText = /^Invalid string: |^The encoded data (is|was) not valid/;
+
+/**
+ * Thrown by {@link assertDecodeFuzz} for a buffer that decoding fails on
+ * other than by throwing a structured error, after shrinking it to a shorter
+ * or simpler buffer that still does.
+ */
+export class DecodeFuzzError extends Error {
+  /** The seed that generated the buffer. */
+  readonly seed: number;
+  /** The shrunk buffer. */
+  readonly input: Uint8Array;
+
+  /**
+   * @param seed - The seed that generated the buffer
+   * @param input - The buffer
+   * @param reason - How decoding it failed
+   * @param cause - The error decoding threw, if it threw
+   */
+  constructor(
+    seed: number,
+    input: Uint8Array,
+    reason: string,
+    cause?: unknown,
+  ) {
+    super(
+      `Decode fuzzing failed: ${reason}\n  input: <${
+        formatBytes(input)
+      }>\n  seed:  ${seed}`,
+      { cause },
+    );
+    this.name = "DecodeFuzzError";
+    this.seed = seed;
+    this.input = input;
+  }
+}
+
+/**
+ * Asserts that decoding random and mutated buffers either succeeds or throws
+ * a structured error.
+ *
+ * Buffers are random bytes, or valid encodings with bits flipped, bytes
+ * replaced, inserted or deleted, or the end cut off. The valid encodings
+ * come from `corpus` and from values {@link arbitrary} generates, when it
+ * supports the coder.
+ *
+ * Decoding a buffer passes if it returns a byte count within the buffer, or
+ * throws an `Error` (unwrapping {@link BinstructDecodeError}s) that is not a
+ * `TypeError`, a `ReferenceError`, or a `RangeError` for a stack overflow or
+ * an allocation too large. Those come from coders reading values that are not
+ * there, or trusting lengths they should check. The `TypeError` string coders
+ * throw for invalid text, as a fatal `TextDecoder` does, passes.
+ *
+ * A failing buffer is shrunk to a shorter one with smaller bytes that still
+ * fails, which is reported in hex with the seed that found it.
+ *
+ * @template T - The type of the coder's values
+ * @param coder - The coder to fuzz
+ * @param options - How many buffers to try, the seed, and the corpus
+ * @throws {DecodeFuzzError} If decoding a buffer fails unstructured
+ *
+ * @example
+ * ```ts
+ * import { arrayLP, stringNT, struct, u16le, u8 } from "@hertzg/binstruct";
+ * import { assertDecodeFuzz } from "@hertzg/binstruct/testing";
+ *
+ * assertDecodeFuzz(
+ *   struct({ version: u8(), names: arrayLP(stringNT(), u16le()) }),
+ *   { runs: 100, seed: 1 },
+ * );
+ * ```
+ */
+export function assertDecodeFuzz<T>(
+  coder: Coder<T>,
+  options: DecodeFuzzOptions = {},
+): void {
+  const {
+    runs = 200,
+    seed = Math.floor(Math.random() * 2 ** 32),
+    maxBytes = 64,
+  } = options;
+  if (!Number.isInteger(runs) || runs < 0) {
+    throw new Error(`Invalid runs: ${runs}. Must be a non-negative integer.`);
+  }
+
+  const stream = seededStream(seed);
+  const corpus = [
+    ...options.corpus ?? [],
+    ...generateCorpus(coder, options, stream),
+  ];
+
+  // The corpus itself first, then `runs` buffers made from it
+  const random = () => fuzzInput(new Choices(stream), corpus, maxBytes);
+  const inputs = [...corpus, ...Array.from({ length: runs }, random)];
+  for (const input of inputs) {
+    const failure = check(coder, input);
+    if (failure === undefined) {
+      continue;
+    }
+
+    const { choices } = shrinkChoices(
+      Array.from(input),
+      (candidate) => check(coder, Uint8Array.from(candidate)) && candidate,
+      shrinkBudget,
+    );
+    const shrunk = Uint8Array.from(choices);
+    const { reason, cause } = check(coder, shrunk)!;
+    throw new DecodeFuzzError(seed, shrunk, reason, cause);
+  }
+}
+
+function generateCorpus<T>(
+  coder: Coder<T>,
+  options: ArbitraryOptions,
+  stream: () => number,
+): Uint8Array[] {
+  let values;
+  try {
+    values = arbitrary(coder, options);
+  } catch {
+    // Coders that cannot be generated for are fuzzed from `corpus` and
+    // random bytes only
+    return [];
+  }
+
+  const corpus = [];
+  for (let i = 0; i < generatedCorpus; i++) {
+    try {
+      corpus.push(encode(coder, values.generate(new Choices(stream))));
+    } catch {
+      // Rejected values, and values whose encoding fails, which
+      // `assertRoundTrip` is for
+    }
+  }
+  return corpus;
+}
+
+function fuzzInput(
+  random: Random,
+  corpus: readonly Uint8Array[],
+  maxBytes: number,
+): Uint8Array {
+  if (corpus.length === 0 || random.int(4) === 0) {
+    return Uint8Array.from(
+      { length: random.int(maxBytes + 1) },
+      () => random.int(256),
+    );
+  }
+
+  const bytes = Array.from(corpus[random.int(corpus.length)]);
+  for (let mutations = 1 + random.int(4); mutations > 0; mutations--) {
+    const at = random.int(bytes.length + 1);
+    switch (random.int(5)) {
+      case 0:
+        if (at < bytes.length) {
+          bytes[at] ^= 1 << random.int(8);
+        }
+        break;
+      case 1:
+        if (at < bytes.length) {
+          bytes[at] = interestingBytes[random.int(interestingBytes.length)];
+        }
+        break;
+      case 2:
+        bytes.length = at;
+        break;
+      case 3:
+        bytes.splice(at, 0, random.int(256));
+        break;
+      default:
+        bytes.splice(at, 1);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function check<T>(
+  coder: Coder<T>,
+  input: Uint8Array,
+): { reason: string; cause?: unknown } | undefined {
+  let bytesRead: number;
+  try {
+    [, bytesRead] = coder.decode(input);
+  } catch (error) {
+    let root = error;
+    while (root instanceof BinstructDecodeError) {
+      root = root.cause;
+    }
+
+    if (
+      !(root instanceof Error) ||
+      (root instanceof TypeError && !invalidText.test(root.message)) ||
+      root instanceof ReferenceError ||
+      (root instanceof RangeError && engineRangeError.test(root.message))
+    ) {
+      const thrown = root instanceof Error
+        ? `${root.name}: ${root.message}`
+        : String(root);
+      return {
+        reason: `${coder[kCoderKind].description} threw ${thrown}`,
+        cause: error,
+      };
+    }
+    return undefined;
+  }
+
+  if (
+    !Number.isInteger(bytesRead) || bytesRead < 0 || bytesRead > input.length
+  ) {
+    return {
+      reason: `${
+        coder[kCoderKind].description
+      } read ${bytesRead} bytes of ${input.length}`,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+/**
+ * Property testing for coders.
+ *
+ * {@link arbitrary} derives a generator of random values from a coder tree.
+ * {@link assertRoundTrip} checks that the values it generates encode and
+ * decode back to themselves, shrinking failing values to simple ones.
+ * {@link assertDecodeFuzz} decodes random and mutated buffers and checks
+ * that decoding only ever throws structured errors.
+ *
+ * Runs are seeded, so a failure reported with its seed can be replayed.
+ *
+ * @example
+ * ```ts
+ * import { bitStruct, bytes, ref, stringLP, struct, u16be, u8 } from "@hertzg/binstruct";
+ * import { assertDecodeFuzz, assertRoundTrip } from "@hertzg/binstruct/testing";
+ *
+ * const length = u16be();
+ * const packet = struct({
+ *   flags: bitStruct({ version: 4, urgent: { type: "boolean" }, rest: 3 }),
+ *   name: stringLP(u8()),
+ *   length,
+ *   payload: bytes(ref(length)),
+ * });
+ *
+ * assertRoundTrip(packet, { runs: 50, seed: 1 });
+ * assertDecodeFuzz(packet, { runs: 50, seed: 1 });
+ * ```
+ *
+ * @module
+ */
+
+export * from "./arbitrary.ts";
+export * from "./round-trip.ts";
+export * from "./fuzz.ts";
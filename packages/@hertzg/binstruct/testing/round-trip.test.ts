@@ -0,0 +1,157 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { arrayLP, arrayWhile } from "../array/array.ts";
+import { bitStruct } from "../bits/bit-struct.ts";
+import { bytes } from "../bytes/bytes.ts";
+import type { Coder } from "../core.ts";
+import { lazy } from "../lazy/lazy.ts";
+import { align } from "../layout/align.ts";
+import { magic } from "../layout/magic.ts";
+import {
+  f16le,
+  f64be,
+  s64le,
+  u16le,
+  u24be,
+  u8,
+  varint64,
+} from "../numeric/numeric.ts";
+import { optionalTagged } from "../optional/optional.ts";
+import { ref } from "../ref/ref.ts";
+import { refine } from "../refine/refine.ts";
+import { stringFL, stringLP, stringNT } from "../string/string.ts";
+import { struct } from "../struct/struct.ts";
+import { assertRoundTrip, RoundTripError } from "./round-trip.ts";
+
+Deno.test("assertRoundTrip - passes for coders that round-trip", () => {
+  const length = u8();
+  type Node = { id: number; children: Node[] };
+  const node: Coder<Node> = lazy(() =>
+    struct({ id: u24be(), children: arrayLP(node, u8()) })
+  );
+
+  assertRoundTrip(
+    struct({
+      magic: magic("BS"),
+      flags: bitStruct({
+        version: 3,
+        big: { bits: 33, type: "bigint" },
+        reserved: 4,
+      }),
+      length,
+      name: stringFL(ref(length)),
+      label: stringLP(u16le()),
+      path: stringNT(),
+      pad: align(4),
+      ratio: f16le(),
+      scale: f64be(),
+      offset: s64le(),
+      counter: varint64(),
+      extra: optionalTagged(bytes(3)),
+      tree: node,
+      rest: arrayWhile(u8(), ({ buffer }) => buffer.length > 0),
+    }),
+    { runs: 50, seed: 1 },
+  );
+});
+
+Deno.test("assertRoundTrip - passes for every text encoding", () => {
+  for (const encoding of ["utf-16le", "utf-16be", "latin1", "windows-1252"]) {
+    assertRoundTrip(
+      struct({
+        name: stringFL(8, encoding, { pad: "\0" }),
+        label: stringFL(6, encoding, { pad: " " }),
+        note: stringLP(u8(), encoding),
+        path: stringNT(encoding),
+      }),
+      { runs: 50, seed: 1 },
+    );
+  }
+});
+
+Deno.test("assertRoundTrip - reports shrunk counterexamples", async (t) => {
+  await t.step("values that decode differently", () => {
+    // Drops the high bit of every byte after the first
+    const ascii = refine(bytes(u8()), {
+      refine: (data) => data,
+      unrefine: (data: Uint8Array) =>
+        data.map((byte, i) => i > 0 ? byte & 0x7f : byte),
+    })();
+    const coder = struct({ id: u8(), data: ascii });
+
+    const error = assertThrows(
+      () => assertRoundTrip(coder, { seed: 3 }),
+      RoundTripError,
+    );
+    assertEquals(error.seed, 3);
+    assertEquals(error.value, { id: 0, data: new Uint8Array([0x80, 0x80]) });
+    assertEquals(error.encoded, new Uint8Array([0, 2, 0x80, 0]));
+    assertEquals(error.decoded, { id: 0, data: new Uint8Array([0x80, 0]) });
+    assertStringIncludes(
+      error.message,
+      "Round trip failed: decoded a different value",
+    );
+    assertStringIncludes(
+      error.message,
+      `value:   { "id": 0, "data": <80 80> }`,
+    );
+    assertStringIncludes(error.message, "encoded: <00 02 80 00>");
+    assertStringIncludes(error.message, "seed:    3");
+  });
+
+  await t.step("encodings that measure differently", () => {
+    const coder: Coder<number> = { ...u16le(), measure: () => 1 };
+
+    const error = assertThrows(
+      () => assertRoundTrip(coder, { seed: 3 }),
+      RoundTripError,
+      "measured 1 bytes, encoded 2",
+    );
+    assertEquals(error.value, 0);
+  });
+
+  await t.step("decodes that leave bytes unread", () => {
+    const base = u16le();
+    const coder: Coder<number> = {
+      ...base,
+      decode: (encoded, context) => [base.decode(encoded, context)[0], 1],
+    };
+
+    assertThrows(
+      () => assertRoundTrip(coder, { seed: 3 }),
+      RoundTripError,
+      "decoding read 1 of 2 bytes",
+    );
+  });
+
+  await t.step("the same seed finds the same value", () => {
+    const coder = refine(u8(), {
+      refine: (byte) => byte,
+      unrefine: (byte: number) => byte === 0xff ? 0 : byte,
+    })();
+    const run = (seed: number) =>
+      assertThrows(() => assertRoundTrip(coder, { seed }), RoundTripError);
+
+    assertEquals(run(5).value, 0xff);
+    assertEquals(run(5).message, run(5).message);
+  });
+});
+
+Deno.test("assertRoundTrip - rejects what it cannot check", () => {
+  const never = refine(u8(), {
+    refine: (): number => {
+      throw new Error("Invalid byte");
+    },
+    unrefine: (value: number) => value,
+  })();
+
+  assertThrows(
+    () => assertRoundTrip(never, { runs: 1, seed: 1 }),
+    Error,
+    "Cannot generate values for refine: 100 values were rejected",
+  );
+  assertThrows(
+    () => assertRoundTrip(u8(), { runs: 1.5 }),
+    Error,
+    "Invalid runs: 1.5",
+  );
+});
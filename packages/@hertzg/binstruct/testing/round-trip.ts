@@ -0,0 +1,255 @@
+import { type Coder, kCoderKind } from "../core.ts";
+import { encode } from "../helpers.ts";
+import { arbitrary, type ArbitraryOptions } from "./arbitrary.ts";
+import { Choices, Rejected, seededStream, shrinkChoices } from "./choices.ts";
+import { formatBytes, formatValue, valuesEqual } from "./values.ts";
+
+/** Options for {@link assertRoundTrip}. */
+export interface RoundTripOptions extends ArbitraryOptions {
+  /** How many values to try. Defaults to 100. */
+  readonly runs?: number;
+  /**
+   * The seed of the random choices. Defaults to a random seed, which failures
+   * report so that they can be replayed.
+   */
+  readonly seed?: number;
+}
+
+// How a value failed to round-trip
+type Failure = {
+  kind: "encode" | "measure" | "decode" | "length" | "value";
+  reason: string;
+  encoded?: Uint8Array;
+  decoded?: unknown;
+  cause?: unknown;
+};
+
+// Generated values a run may reject, per run, before giving up
+const maxRejected = 100;
+
+// Replays to spend shrinking a failing value
+const shrinkBudget = 2000;
+
+/**
+ * Thrown by {@link assertRoundTrip} for a value that does not survive being
+ * encoded and decoded, after shrinking it to a simpler one that still fails.
+ */
+export class RoundTripError extends Error {
+  /** The seed that generated the value. */
+  readonly seed: number;
+  /** The shrunk value that fails. */
+  readonly value: unknown;
+  /** The bytes the value encoded to, if it did. */
+  readonly encoded?: Uint8Array;
+  /** The value the bytes decoded to, if they did. */
+  readonly decoded?: unknown;
+
+  /**
+   * @param seed - The seed that generated the value
+   * @param value - The value that fails
+   * @param failure - How it fails
+   * @param shrinks - How many times the value was shrunk
+   */
+  constructor(
+    seed: number,
+    value: unknown,
+    failure: Failure,
+    shrinks: number,
+  ) {
+    const lines = [
+      `Round trip failed: ${failure.reason}`,
+      `  value:   ${formatValue(value)}`,
+      ...(failure.encoded === undefined
+        ? []
+        : [`  encoded: <${formatBytes(failure.encoded)}>`]),
+      ...("decoded" in failure
+        ? [`  decoded: ${formatValue(failure.decoded)}`]
+        : []),
+      `  seed:    ${seed} (shrunk ${shrinks} times)`,
+    ];
+    super(lines.join("\n"), { cause: failure.cause });
+    this.name = "RoundTripError";
+    this.seed = seed;
+    this.value = value;
+    this.encoded = failure.encoded;
+    this.decoded = failure.decoded;
+  }
+}
+
+/**
+ * Asserts that values generated for a coder decode back to themselves.
+ *
+ * Values come from {@link arbitrary}. Each is encoded, checked against the
+ * coder's `measure`, and decoded, which must read every byte written and
+ * return an equal value. Numbers compare with `Object.is`, so a `NaN` must
+ * come back as `NaN` and `-0` as `-0`.
+ *
+ * A failing value is shrunk to a simpler one that fails the same way, which
+ * is reported with its bytes and the seed that found it. Passing `seed` runs
+ * the same values again.
+ *
+ * @template T - The type of the coder's values
+ * @param coder - The coder to check
+ * @param options - How many values to try, the seed, and generator options
+ * @throws {RoundTripError} If a value does not round-trip
+ * @throws {Error} If the coder tree cannot be generated for, or its values
+ * keep being rejected
+ *
+ * @example Checking a coder
+ * ```ts
+ * import { arrayLP, f32le, stringLP, struct, u16le, u8 } from "@hertzg/binstruct";
+ * import { assertRoundTrip } from "@hertzg/binstruct/testing";
+ *
+ * assertRoundTrip(
+ *   struct({ name: stringLP(u8()), samples: arrayLP(f32le(), u16le()) }),
+ *   { runs: 50, seed: 1 },
+ * );
+ * ```
+ *
+ * @example Finding a bug
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { refine, u8 } from "@hertzg/binstruct";
+ * import { assertRoundTrip, RoundTripError } from "@hertzg/binstruct/testing";
+ *
+ * // Off by one for negative values
+ * const signed = refine(u8(), {
+ *   refine: (byte) => byte > 127 ? byte - 256 : byte,
+ *   unrefine: (value: number) => value < 0 ? value + 255 : value,
+ * })();
+ *
+ * const error = assertThrows(
+ *   () => assertRoundTrip(signed, { seed: 7 }),
+ *   RoundTripError,
+ * );
+ * assertEquals([error.value, error.decoded], [-1, -2]);
+ * ```
+ */
+export function assertRoundTrip<T>(
+  coder: Coder<T>,
+  options: RoundTripOptions = {},
+): void {
+  const { runs = 100, seed = Math.floor(Math.random() * 2 ** 32) } = options;
+  if (!Number.isInteger(runs) || runs < 0) {
+    throw new Error(`Invalid runs: ${runs}. Must be a non-negative integer.`);
+  }
+
+  const values = arbitrary(coder, options);
+  const stream = seededStream(seed);
+  let rejected = 0;
+
+  for (let run = 0; run < runs;) {
+    const choices = new Choices(stream);
+    let value: T;
+    try {
+      value = values.generate(choices);
+    } catch (error) {
+      if (!(error instanceof Rejected)) {
+        throw error;
+      }
+      if (++rejected > maxRejected * runs) {
+        throw new Error(
+          `Cannot generate values for ${coder[kCoderKind].description}: ${
+            maxRejected * runs
+          } values were rejected. The last: ${error.message}`,
+        );
+      }
+      continue;
+    }
+    run++;
+
+    const failure = check(coder, value);
+    if (failure === undefined) {
+      continue;
+    }
+
+    // Shrinks only to values failing the same way, so a simpler value does
+    // not trade the failure for another one
+    const replay = (candidate: readonly number[]) => {
+      const choices = new Choices(candidate);
+      try {
+        const value = values.generate(choices);
+        return check(coder, value)?.kind === failure.kind
+          ? { drawn: choices.drawn, value }
+          : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+    const { choices: shrunk, shrinks } = shrinkChoices(
+      choices.drawn,
+      (candidate) => replay(candidate)?.drawn,
+      shrinkBudget,
+    );
+    const smallest = shrinks === 0 ? value : replay(shrunk)!.value;
+    throw new RoundTripError(seed, smallest, check(coder, smallest)!, shrinks);
+  }
+}
+
+function check<T>(coder: Coder<T>, value: T): Failure | undefined {
+  let encoded: Uint8Array;
+  try {
+    encoded = encode(coder, value);
+  } catch (cause) {
+    return {
+      kind: "encode",
+      reason: `encoding threw ${errorText(cause)}`,
+      cause,
+    };
+  }
+
+  let measured: number | undefined;
+  try {
+    measured = coder.measure?.(value);
+  } catch (cause) {
+    return {
+      kind: "measure",
+      reason: `measuring threw ${errorText(cause)}`,
+      encoded,
+      cause,
+    };
+  }
+  if (measured !== undefined && measured !== encoded.length) {
+    return {
+      kind: "measure",
+      reason: `measured ${measured} bytes, encoded ${encoded.length}`,
+      encoded,
+    };
+  }
+
+  let decoded: T;
+  let bytesRead: number;
+  try {
+    [decoded, bytesRead] = coder.decode(encoded);
+  } catch (cause) {
+    return {
+      kind: "decode",
+      reason: `decoding threw ${errorText(cause)}`,
+      encoded,
+      cause,
+    };
+  }
+  if (bytesRead !== encoded.length) {
+    return {
+      kind: "length",
+      reason: `decoding read ${bytesRead} of ${encoded.length} bytes`,
+      encoded,
+      decoded,
+    };
+  }
+  if (!valuesEqual(decoded, value)) {
+    return {
+      kind: "value",
+      reason: "decoded a different value",
+      encoded,
+      decoded,
+    };
+  }
+  return undefined;
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error
+    ? `${error.name}: ${error.message}`
+    : String(error);
+}
@@ -0,0 +1,78 @@
+/**
+ * Compares two decoded values.
+ *
+ * Numbers compare with `Object.is`, so `NaN` equals `NaN` and `0` differs
+ * from `-0`. Byte arrays compare by content, arrays by element and objects by
+ * their own enumerable keys.
+ *
+ * @param a - One value
+ * @param b - The other value
+ * @returns Whether the values are equal
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" || typeof b !== "object" || a === null || b === null
+  ) {
+    return false;
+  }
+
+  if (a instanceof Uint8Array || b instanceof Uint8Array) {
+    return a instanceof Uint8Array && b instanceof Uint8Array &&
+      a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length &&
+      a.every((element, i) => valuesEqual(element, b[i]));
+  }
+
+  const keys = Object.keys(a);
+  const record = b as Record<string, unknown>;
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) =>
+      Object.hasOwn(b, key) &&
+      valuesEqual((a as Record<string, unknown>)[key], record[key])
+    );
+}
+
+/**
+ * Formats a decoded value for an error message, e.g.
+ * `{ "id": 7n, "data": <01 ff> }`.
+ *
+ * @param value - The value
+ * @returns The value as text
+ */
+export function formatValue(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return `<${formatBytes(value)}>`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const fields = Object.entries(value).map(([key, field]) =>
+      `${JSON.stringify(key)}: ${formatValue(field)}`
+    );
+    return fields.length === 0 ? "{}" : `{ ${fields.join(", ")} }`;
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  return Object.is(value, -0) ? "-0" : String(value);
+}
+
+/**
+ * Formats bytes as space-separated hex pairs, e.g. `01 ff`.
+ *
+ * @param bytes - The bytes
+ * @returns The bytes as text
+ */
+export function formatBytes(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join(" ");
+}
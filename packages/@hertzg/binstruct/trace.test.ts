@@ -0,0 +1,244 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type Coder, createContext, kCtxTrace } from "./core.ts";
+import { BinstructDecodeError } from "./errors.ts";
+import { type Span, traceDecode } from "./trace.ts";
+import { arrayFL, arrayLP, arrayWhile } from "./array/array.ts";
+import { bitStruct } from "./bits/bit-struct.ts";
+import { bytes } from "./bytes/bytes.ts";
+import { at } from "./layout/at.ts";
+import { lazy } from "./lazy/lazy.ts";
+import { u16be, u8 } from "./numeric/numeric.ts";
+import { refine } from "./refine/refine.ts";
+import { refineFields } from "./refine/fields.ts";
+import { refineSwitch } from "./refine/switch.ts";
+import { stringLP } from "./string/string.ts";
+import { struct } from "./struct/struct.ts";
+
+type Flat = [string, number, number, string | undefined];
+
+// Flattens a span tree depth-first into [path, offset, length, kind] rows
+function flatten(span: Span): Flat[] {
+  return [
+    [span.path.join("/"), span.offset, span.length, span.coderKind.description],
+    ...span.children.flatMap(flatten),
+  ];
+}
+
+Deno.test("traceDecode - records spans for", async (t) => {
+  await t.step("struct fields", () => {
+    const coder = struct({
+      header: struct({ version: u8(), length: u16be() }),
+      name: stringLP(u8()),
+    });
+
+    const { value, bytesRead, span } = traceDecode(
+      coder,
+      new Uint8Array([1, 0, 3, 2, 104, 105]),
+    );
+
+    assertEquals(value, { header: { version: 1, length: 3 }, name: "hi" });
+    assertEquals(bytesRead, 6);
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",               0, 6, "struct"],
+      ["header",         0, 3, "struct"],
+      ["header/version", 0, 1, "u8"],
+      ["header/length",  1, 2, "u16be"],
+      ["name",           3, 3, "stringLP"],
+    ]);
+  });
+
+  await t.step("array elements", () => {
+    const coder = struct({
+      lp: arrayLP(u8(), u8()),
+      fl: arrayFL(u16be(), 2),
+      rest: arrayWhile(u8(), ({ buffer }) => buffer.length > 0),
+    });
+
+    const { span } = traceDecode(
+      coder,
+      new Uint8Array([2, 10, 11, 0, 1, 0, 2, 7, 8]),
+    );
+
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",       0, 9, "struct"],
+      ["lp",     0, 3, "arrayLP"],
+      ["lp/0",   1, 1, "u8"],
+      ["lp/1",   2, 1, "u8"],
+      ["fl",     3, 4, "arrayFL"],
+      ["fl/0",   3, 2, "u16be"],
+      ["fl/1",   5, 2, "u16be"],
+      ["rest",   7, 2, "arrayWhile"],
+      ["rest/0", 7, 1, "u8"],
+      ["rest/1", 8, 1, "u8"],
+    ]);
+  });
+
+  await t.step("bit fields, with bit offsets", () => {
+    const coder = struct({
+      tag: u8(),
+      tci: bitStruct({ pcp: 3, dei: 1, vid: 12 }),
+    });
+
+    const { span } = traceDecode(coder, new Uint8Array([9, 0xa0, 0x64]));
+    const [, tci] = span.children;
+
+    assertEquals([tci.offset, tci.length], [1, 2]);
+    // deno-fmt-ignore
+    assertEquals(
+      tci.children.map((s) => [s.path.join("/"), s.offset, s.length, s.bitOffset, s.bitLength]),
+      [
+        ["tci/pcp", 1, 1, 0, 3],
+        ["tci/dei", 1, 1, 3, 1],
+        ["tci/vid", 1, 2, 4, 12],
+      ],
+    );
+  });
+});
+
+Deno.test("traceDecode - threads through transforming coders", async (t) => {
+  await t.step("refine", () => {
+    const point = refine(struct({ x: u8(), y: u8() }), {
+      refine: ({ x, y }) => [x, y] as const,
+      unrefine: ([x, y]: readonly [number, number]) => ({ x, y }),
+    });
+    const coder = struct({ id: u8(), at: point() });
+
+    const { value, span } = traceDecode(coder, new Uint8Array([1, 2, 3]));
+
+    assertEquals(value, { id: 1, at: [2, 3] });
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",     0, 3, "struct"],
+      ["id",   0, 1, "u8"],
+      ["at",   1, 2, "refine"],
+      ["at/x", 1, 1, "u8"],
+      ["at/y", 2, 1, "u8"],
+    ]);
+  });
+
+  await t.step("refineSwitch", () => {
+    const message = refineSwitch(
+      struct({ type: u8(), body: bytes(2) }),
+      {
+        word: {
+          refine: ({ body }) => ({ word: (body[0] << 8) | body[1] }),
+          unrefine: ({ word }) => ({
+            type: 1,
+            body: new Uint8Array([word >> 8, word & 0xff]),
+          }),
+        },
+      },
+      {
+        refine: ({ type }) => type === 1 ? "word" : null,
+        unrefine: () => "word",
+      },
+    );
+
+    const { value, span } = traceDecode(message, new Uint8Array([1, 2, 3]));
+
+    assertEquals(value, { word: 0x0203 });
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",     0, 3, "refineSwitch"],
+      ["type", 0, 1, "u8"],
+      ["body", 1, 2, "bytes"],
+    ]);
+  });
+
+  await t.step("lazy", () => {
+    type Node = { value: number; children: Node[] };
+    const node: Coder<Node> = struct({
+      value: u8(),
+      children: arrayLP(lazy(() => node), u8()),
+    });
+
+    const { span } = traceDecode(node, new Uint8Array([1, 1, 2, 0]));
+
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",                    0, 4, "struct"],
+      ["value",               0, 1, "u8"],
+      ["children",            1, 3, "arrayLP"],
+      ["children/0",          2, 2, "lazy"],
+      ["children/0/value",    2, 1, "u8"],
+      ["children/0/children", 3, 1, "arrayLP"],
+    ]);
+  });
+
+  await t.step("refineFields, at absolute offsets", () => {
+    const frame = refine(
+      struct({ tag: u8(), payload: bytes(2) }),
+      refineFields({ payload: struct({ a: u8(), b: u8() }) }),
+    )();
+    const coder = struct({ version: u8(), frame });
+
+    const { span } = traceDecode(coder, new Uint8Array([1, 9, 7, 8]));
+
+    // deno-fmt-ignore
+    assertEquals(flatten(span), [
+      ["",                0, 4, "struct"],
+      ["version",         0, 1, "u8"],
+      ["frame",           1, 3, "refine"],
+      ["frame/tag",       1, 1, "u8"],
+      ["frame/payload",   2, 2, "bytes"],
+      ["frame/payload",   2, 2, "struct"],
+      ["frame/payload/a", 2, 1, "u8"],
+      ["frame/payload/b", 3, 1, "u8"],
+    ]);
+  });
+});
+
+Deno.test("traceDecode - places at fields at the bytes they read", () => {
+  const coder = struct({
+    a: u8(),
+    b: at(4, u16be()),
+    c: u8(),
+    d: at(1, struct({ x: u8() })),
+  });
+
+  const { value, span } = traceDecode(
+    coder,
+    new Uint8Array([1, 2, 3, 0, 0xab, 0xcd]),
+  );
+
+  assertEquals(value, { a: 1, b: 0xabcd, c: 2, d: { x: 2 } });
+  // deno-fmt-ignore
+  assertEquals(flatten(span), [
+    ["",    0, 6, "struct"],
+    ["a",   0, 1, "u8"],
+    ["b",   4, 2, "at"],
+    ["c",   1, 1, "u8"],
+    ["d",   1, 1, "at"],
+    ["d/x", 1, 1, "u8"],
+  ]);
+});
+
+Deno.test("traceDecode - offsets are relative to the traced view", () => {
+  const coder = struct({ a: u8(), b: u16be() });
+  const buffer = new Uint8Array([0xff, 0xff, 1, 0, 2]);
+
+  const { span } = traceDecode(coder, buffer.subarray(2));
+
+  // deno-fmt-ignore
+  assertEquals(flatten(span), [
+    ["",  0, 3, "struct"],
+    ["a", 0, 1, "u8"],
+    ["b", 1, 2, "u16be"],
+  ]);
+});
+
+Deno.test("traceDecode - records nothing once it returns", () => {
+  const coder = struct({ a: u8() });
+  const ctx = createContext("decode");
+
+  traceDecode(coder, new Uint8Array([1]), ctx);
+  assertEquals(ctx[kCtxTrace], undefined);
+
+  assertThrows(
+    () => traceDecode(coder, new Uint8Array(0), ctx),
+    BinstructDecodeError,
+  );
+  assertEquals(ctx[kCtxTrace], undefined);
+});
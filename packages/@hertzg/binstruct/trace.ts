@@ -0,0 +1,254 @@
+/**
+ * Decode tracing: which bytes produced which field.
+ *
+ * {@link traceDecode} decodes a value and records a tree of {@link Span}s
+ * alongside it, one per struct field, array element and bit field, each with
+ * its path, absolute byte offset, length and coder kind. The tree is what an
+ * annotated hexdump, a byte-level diff or a test failure message needs, without
+ * every format package re-deriving offsets.
+ *
+ * Tracing is opt-in through the decode context: containers call
+ * {@link beginSpan} / {@link endSpan} around each child, which do nothing
+ * unless the context carries a recorder under {@link kCtxTrace}.
+ *
+ * @example Annotating a packet
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { arrayLP, struct, u16be, u8 } from "@hertzg/binstruct";
+ * import { traceDecode } from "@hertzg/binstruct/trace";
+ *
+ * const coder = struct({
+ *   version: u8(),
+ *   ports: arrayLP(u16be(), u8()),
+ * });
+ *
+ * const { value, span } = traceDecode(coder, new Uint8Array([4, 2, 0, 80, 1, 187]));
+ * assertEquals(value, { version: 4, ports: [80, 443] });
+ *
+ * const [version, ports] = span.children;
+ * assertEquals([version.path, version.offset, version.length], [["version"], 0, 1]);
+ * assertEquals([ports.path, ports.offset, ports.length], [["ports"], 1, 5]);
+ * assertEquals(
+ *   ports.children.map(({ path, offset, length }) => [path, offset, length]),
+ *   [[["ports", 0], 2, 2], [["ports", 1], 4, 2]],
+ * );
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCoderKind,
+  kCtxTrace,
+} from "./core.ts";
+import type { PathSegment } from "./errors.ts";
+
+/**
+ * The bytes one field of a decoded value came from.
+ */
+export interface Span {
+  /** Path from the traced value to the field, outermost first. */
+  path: PathSegment[];
+  /** Byte offset of the field, relative to the traced buffer. */
+  offset: number;
+  /** Number of bytes the field occupies. */
+  length: number;
+  /** Kind symbol of the coder that decoded the field. */
+  coderKind: symbol;
+  /** For bit fields, the first bit within the byte at `offset` (0 is the MSB). */
+  bitOffset?: number;
+  /** For bit fields, the number of bits the field occupies. */
+  bitLength?: number;
+  /** Spans of the field's own fields or elements, in decode order. */
+  children: Span[];
+}
+
+/**
+ * Recording state of a traced decode, stored in the context under
+ * {@link kCtxTrace}.
+ */
+export interface TraceRecorder {
+  /** The buffer span offsets are relative to. */
+  readonly root: Uint8Array;
+  /** Spans still being decoded, outermost first. */
+  readonly open: Span[];
+}
+
+/**
+ * Result of {@link traceDecode}.
+ *
+ * @template T - The type of the decoded value
+ */
+export interface TracedDecode<T> {
+  /** The decoded value. */
+  value: T;
+  /** The number of bytes consumed. */
+  bytesRead: number;
+  /** The span of the whole value, with the empty path. */
+  span: Span;
+}
+
+function spanOffset(
+  { root }: TraceRecorder,
+  parent: Span,
+  view: Uint8Array,
+): number {
+  // Bytes that do not live in the traced buffer (a refiner's own allocation)
+  // can only be placed at their parent
+  return view.buffer === root.buffer
+    ? view.byteOffset - root.byteOffset
+    : parent.offset;
+}
+
+/**
+ * Opens a span for a child a container is about to decode.
+ *
+ * Returns `undefined`, and records nothing, unless the context is tracing.
+ * Spans opened by the child itself become children of this one until it is
+ * closed with {@link endSpan}.
+ *
+ * Coders that only transform their child's value (`refine`, `refineSwitch`,
+ * `lazy`) do not open spans; the child's fields appear directly under the
+ * span their container opened for them.
+ *
+ * @param ctx - The decode context
+ * @param view - The bytes handed to the child
+ * @param segment - The child's field name or element index
+ * @param coderKind - The child coder's kind symbol
+ * @returns The opened span, or undefined when not tracing
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { createContext, kCoderKind, u8 } from "@hertzg/binstruct";
+ * import { beginSpan, endSpan } from "@hertzg/binstruct/trace";
+ *
+ * const element = u8();
+ * const ctx = createContext("decode");
+ * const span = beginSpan(ctx, new Uint8Array(1), 0, element[kCoderKind]);
+ * endSpan(ctx, span, 1);
+ *
+ * // Not tracing, so nothing was recorded
+ * assertEquals(span, undefined);
+ * ```
+ */
+export function beginSpan(
+  ctx: Context,
+  view: Uint8Array,
+  segment: PathSegment,
+  coderKind: symbol,
+): Span | undefined {
+  const recorder = ctx[kCtxTrace];
+  if (recorder === undefined) {
+    return undefined;
+  }
+
+  const { open } = recorder;
+  const parent = open[open.length - 1];
+  const span: Span = {
+    path: [...parent.path, segment],
+    offset: spanOffset(recorder, parent, view),
+    length: 0,
+    coderKind,
+    children: [],
+  };
+
+  parent.children.push(span);
+  open.push(span);
+  return span;
+}
+
+/**
+ * Closes a span opened by {@link beginSpan} once the child has decoded.
+ *
+ * @param ctx - The decode context
+ * @param span - The span returned by {@link beginSpan}
+ * @param length - The number of bytes the child consumed
+ * @param view - The bytes the child decoded from, when they are not the ones
+ *   the span was opened at, as for an `at` field
+ */
+export function endSpan(
+  ctx: Context,
+  span: Span | undefined,
+  length: number,
+  view?: Uint8Array,
+): void {
+  const recorder = ctx[kCtxTrace];
+  if (span === undefined || recorder === undefined) {
+    return;
+  }
+
+  const index = recorder.open.lastIndexOf(span);
+  span.length = length;
+  if (view !== undefined && index > 0) {
+    span.offset = spanOffset(recorder, recorder.open[index - 1], view);
+  }
+
+  // Also closes anything a child opened and abandoned after catching its own
+  // children's errors
+  if (index > 0) {
+    recorder.open.length = index;
+  }
+}
+
+/**
+ * Decodes a value and records which bytes every field came from.
+ *
+ * @template T - The type of the decoded value
+ * @param coder - The coder to decode with
+ * @param encoded - The bytes to decode
+ * @param context - Optional decode context, e.g. one with refs already set
+ * @returns The decoded value, the bytes read and the span tree
+ *
+ * @example Bit fields and refined values
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { bitStruct, refine, struct, u8 } from "@hertzg/binstruct";
+ * import { traceDecode } from "@hertzg/binstruct/trace";
+ *
+ * const percent = refine(u8(), {
+ *   refine: (value: number) => value / 100,
+ *   unrefine: (value: number) => Math.round(value * 100),
+ * });
+ * const coder = struct({
+ *   flags: bitStruct({ urgent: 1, kind: 3, channel: 4 }),
+ *   level: percent(),
+ * });
+ *
+ * const { span } = traceDecode(coder, new Uint8Array([0b1_010_0011, 50]));
+ * const [flags, level] = span.children;
+ *
+ * assertEquals(
+ *   flags.children.map(({ path, bitOffset, bitLength }) => [path, bitOffset, bitLength]),
+ *   [[["flags", "urgent"], 0, 1], [["flags", "kind"], 1, 3], [["flags", "channel"], 4, 4]],
+ * );
+ * assertEquals([level.offset, level.length, level.coderKind.description], [1, 1, "refine"]);
+ * ```
+ */
+export function traceDecode<T>(
+  coder: Coder<T>,
+  encoded: Uint8Array,
+  context?: Context,
+): TracedDecode<T> {
+  const ctx = context ?? createContext("decode");
+  const span: Span = {
+    path: [],
+    offset: 0,
+    length: 0,
+    coderKind: coder[kCoderKind],
+    children: [],
+  };
+
+  const previous = ctx[kCtxTrace];
+  ctx[kCtxTrace] = { root: encoded, open: [span] };
+  try {
+    const [value, bytesRead] = coder.decode(encoded, ctx);
+    span.length = bytesRead;
+    return { value, bytesRead, span };
+  } finally {
+    ctx[kCtxTrace] = previous;
+  }
+}
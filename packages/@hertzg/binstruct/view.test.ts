@@ -0,0 +1,176 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { arrayFL, arrayLP, arrayWhile } from "./array/array.ts";
+import { bytes } from "./bytes/bytes.ts";
+import type { Coder } from "./core.ts";
+import { BinstructDecodeError } from "./errors.ts";
+import { decode } from "./helpers.ts";
+import { lazy } from "./lazy/lazy.ts";
+import { u16be, u16le, u8 } from "./numeric/numeric.ts";
+import { optional } from "./optional/optional.ts";
+import { ref } from "./ref/ref.ts";
+import { refine } from "./refine/refine.ts";
+import { struct } from "./struct/struct.ts";
+import { decodeView } from "./view.ts";
+
+// Records every decode of `coder` under `name`
+function spy<T>(reads: string[], name: string, coder: Coder<T>): Coder<T> {
+  return {
+    ...coder,
+    decode: (encoded, context) => {
+      reads.push(name);
+      return coder.decode(encoded, context);
+    },
+  };
+}
+
+function records(reads: string[]) {
+  const length = u8();
+  return struct({
+    id: spy(reads, "id", u16be()),
+    length,
+    data: bytes(ref(length)),
+  });
+}
+
+// Three records with ids 1-3 and 2, 1 and 0 bytes of data
+const RECORDS = [0, 1, 2, 9, 9, 0, 2, 1, 7, 0, 3, 0];
+
+Deno.test("decodeView - struct fields decode when first read", () => {
+  const reads: string[] = [];
+  const coder = struct({
+    a: spy(reads, "a", u8()),
+    b: spy(reads, "b", u16le()),
+    c: spy(reads, "c", u8()),
+  });
+
+  const view = decodeView(coder, new Uint8Array([1, 2, 0, 3]));
+  assertEquals(reads, []);
+
+  assertEquals(view.b, 2);
+  assertEquals(reads, ["a", "b"]);
+
+  assertEquals(view.a, 1);
+  assertEquals(view.b, 2);
+  assertEquals(reads, ["a", "b"]);
+
+  assertEquals(view.c, 3);
+  assertEquals(reads, ["a", "b", "c"]);
+});
+
+Deno.test("decodeView - arrays locate elements up to the one read", async (t) => {
+  await t.step("with a count", () => {
+    const reads: string[] = [];
+    const view = decodeView(
+      arrayLP(records(reads), u8()),
+      new Uint8Array([3, ...RECORDS]),
+    );
+
+    assertEquals(view.length, 3);
+    assertEquals(reads, []);
+
+    assertEquals(view[1].id, 2);
+    assertEquals(reads, ["id", "id"]);
+  });
+
+  await t.step("with a condition", () => {
+    const reads: string[] = [];
+    const view = decodeView(
+      arrayWhile(records(reads), ({ buffer }) => buffer.length >= 3),
+      new Uint8Array(RECORDS),
+    );
+
+    assertEquals(view[0].id, 1);
+    assertEquals(reads, ["id"]);
+
+    assertEquals(view.length, 3);
+    assertEquals(reads, ["id", "id", "id"]);
+  });
+
+  await t.step("nested in a struct", () => {
+    const reads: string[] = [];
+    const coder = struct({
+      count: u8(),
+      items: arrayFL(records(reads), 3),
+      trailer: u8(),
+    });
+    const view = decodeView(coder, new Uint8Array([3, ...RECORDS, 0xff]));
+
+    assertEquals(view.items[0].data, new Uint8Array([9, 9]));
+    assertEquals(reads, ["id"]);
+
+    assertEquals(view.trailer, 0xff);
+    assertEquals(reads, ["id", "id", "id"]);
+  });
+});
+
+Deno.test("decodeView - arrays behave like arrays", () => {
+  const view = decodeView(arrayFL(u8(), 4), new Uint8Array([1, 2, 3, 4]));
+
+  assert(Array.isArray(view));
+  assertEquals(view.map((value) => value * 2), [2, 4, 6, 8]);
+  assertEquals([...view], [1, 2, 3, 4]);
+  assertEquals(3 in view, true);
+  assertEquals(4 in view, false);
+  assertEquals(view[4], undefined);
+});
+
+Deno.test("decodeView - bytes are views of the buffer", () => {
+  const buffer = new Uint8Array([3, ...RECORDS]);
+  const view = decodeView(arrayLP(records([]), u8()), buffer);
+
+  const data = view[1].data;
+  assertEquals(data, new Uint8Array([7]));
+  assertEquals(data.buffer, buffer.buffer);
+  assertEquals(data.byteOffset, buffer.byteOffset + 9);
+});
+
+Deno.test("decodeView - reads the same values as decode", () => {
+  type Node = { value: number; children: Node[] };
+  const flags = u8();
+  const node: Coder<Node> = struct({
+    value: u8(),
+    children: arrayLP(lazy(() => node), u8()),
+  });
+  const coder = struct({
+    flags,
+    header: struct({ version: u8(), extra: optional(u8(), ref(flags)) }),
+    items: arrayLP(records([]), u8()),
+    tree: node,
+    label: refine(bytes(2), {
+      refine: (value: Uint8Array) => new TextDecoder().decode(value),
+      unrefine: (value: string) => new TextEncoder().encode(value),
+    })(),
+    rest: bytes(),
+  });
+  // deno-fmt-ignore
+  const buffer = new Uint8Array([
+    1, 2, 5, 3, ...RECORDS, 1, 2, 2, 0, 3, 0, 0x68, 0x69, 0xaa, 0xbb,
+  ]);
+
+  assertEquals(decodeView(coder, buffer), decode(coder, buffer));
+});
+
+Deno.test("decodeView - errors are located when the field is read", () => {
+  // The last record says it has 5 bytes of data but has 1
+  const coder = struct({ items: arrayLP(records([]), u8()), trailer: u8() });
+  const buffer = new Uint8Array([3, ...RECORDS.slice(0, -1), 5, 0xff]);
+
+  const view = decodeView(coder, buffer);
+  assertEquals(view.items[1].id, 2);
+  assertEquals(view.items[2].length, 5);
+
+  const error = assertThrows(
+    () => view.items[2].data,
+    BinstructDecodeError,
+    "Need 5 bytes, got 1",
+  );
+  const eager = assertThrows(
+    () => decode(coder, buffer),
+    BinstructDecodeError,
+  );
+  assertEquals(error.path, ["items", 2, "data"]);
+  assertEquals([error.path, error.offset], [eager.path, eager.offset]);
+
+  // Fields after it fail too, since finding them needs its length
+  assertThrows(() => view.trailer, BinstructDecodeError, "items[2].data");
+});
@@ -0,0 +1,243 @@
+/**
+ * View decoding: values whose fields decode when they are first read.
+ *
+ * {@link decodeView} returns the same shape {@link decode} does, but structs
+ * and arrays decode their contents on access instead of up front. Reading one
+ * field of a large capture decodes that field and what is needed to find it,
+ * and leaves the rest of the buffer untouched. Byte fields are subarrays of
+ * the buffer, as they are with {@link decode}, so nothing is copied.
+ *
+ * Containers take part through the optional `view` method of a coder, which
+ * returns a {@link ValueView}. Coders without one decode eagerly when they are
+ * reached, so refiners and other wrappers hand back plain values.
+ *
+ * @example Reading one record of many
+ * ```ts
+ * import { assertEquals } from "@std/assert";
+ * import { arrayLP, bytes, ref, struct, u16be, u8 } from "@hertzg/binstruct";
+ * import { decodeView } from "@hertzg/binstruct/view";
+ *
+ * const length = u8();
+ * const record = struct({ id: u16be(), length, data: bytes(ref(length)) });
+ * const file = arrayLP(record, u8());
+ *
+ * const buffer = new Uint8Array([3, 0, 1, 2, 9, 9, 0, 2, 1, 7, 0, 3, 0]);
+ * const records = decodeView(file, buffer);
+ *
+ * assertEquals(records.length, 3);
+ * assertEquals(records[1].id, 2);
+ * assertEquals(records[1].data, new Uint8Array([7]));
+ * assertEquals(records[1].data.buffer, buffer.buffer);
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type Coder,
+  type Context,
+  createContext,
+  kCtxRefs,
+  kCtxView,
+} from "./core.ts";
+import { type PathSegment, wrapDecodeError } from "./errors.ts";
+import type { RefsWeakMap } from "./ref/ref.ts";
+
+/**
+ * A value decoded by a coder's `view` method.
+ *
+ * @template TDecoded - The type of the value
+ */
+export interface ValueView<TDecoded> {
+  /** The value, whose fields or elements may decode when first read. */
+  readonly value: TDecoded;
+  /**
+   * Returns the number of bytes the value takes, locating its fields or
+   * elements as far as needed to know it.
+   */
+  readonly byteLength: () => number;
+}
+
+/**
+ * State of a view decode, stored in the context under {@link kCtxView}.
+ */
+export interface ViewScope {
+  /**
+   * Throws an error raised while decoding a field on access, located the way
+   * the containers around it would have located it during the view decode.
+   */
+  readonly raise: (error: unknown) => never;
+}
+
+// Errors that already went through every enclosing `raise`, so containers
+// rethrow them as they are instead of locating them a second time
+const raised = new WeakSet<object>();
+
+// Refs set inside a view stay in it, while refs set around it are still seen.
+// Fields decoded on access then resolve refs against their own siblings, even
+// after the siblings of other views were decoded with the same coders.
+class ScopedRefs extends WeakMap<Coder<unknown>, unknown> {
+  readonly #parent: RefsWeakMap | undefined;
+
+  constructor(parent: RefsWeakMap | undefined) {
+    super();
+    this.#parent = parent;
+  }
+
+  override get(coder: Coder<unknown>): unknown {
+    return super.has(coder) ? super.get(coder) : this.#parent?.get(coder);
+  }
+
+  override has(coder: Coder<unknown>): boolean {
+    return super.has(coder) || (this.#parent?.has(coder) ?? false);
+  }
+}
+
+/**
+ * Creates the context a container's view keeps for decoding its contents on
+ * access.
+ *
+ * The new context sees the refs, layout frame and view scope of `ctx` as they
+ * are, while the refs it sets stay its own.
+ *
+ * @param ctx - The context the view is created in
+ * @returns A context private to the view
+ */
+export function viewContext(ctx: Context): Context {
+  return { ...ctx, [kCtxRefs]: new ScopedRefs(ctx[kCtxRefs]) as RefsWeakMap };
+}
+
+/**
+ * Throws an error a view raised while decoding on access, located the way the
+ * containers around the view would have located it.
+ *
+ * Outside {@link decodeView} the error is thrown as it is.
+ *
+ * @param ctx - The view's context
+ * @param error - The error, located within the view
+ */
+export function viewRaise(ctx: Context, error: unknown): never {
+  const scope = ctx[kCtxView];
+  if (scope === undefined) {
+    throw error;
+  }
+  return scope.raise(error);
+}
+
+/**
+ * Decodes a container's child as a view, or eagerly if its coder has no
+ * `view` method.
+ *
+ * Errors, whether thrown now or when the child's own fields are read later,
+ * are located at `segment` within `encoded` and rethrown through the
+ * enclosing {@link ViewScope}.
+ *
+ * @template TDecoded - The type of the child's value
+ * @param ctx - The container's view context
+ * @param coder - The child's coder
+ * @param encoded - The container's bytes
+ * @param view - The bytes handed to the child
+ * @param segment - The child's field name or element index, if it has one
+ * @returns The child's value and a way to get its length
+ */
+export function viewChild<TDecoded>(
+  ctx: Context,
+  coder: Coder<TDecoded>,
+  encoded: Uint8Array,
+  view: Uint8Array,
+  segment: PathSegment | undefined,
+): ValueView<TDecoded> {
+  const scope = ctx[kCtxView];
+  const raise = (error: unknown): never => {
+    if (error instanceof Object && raised.has(error)) {
+      throw error;
+    }
+    const located = wrapDecodeError(error, encoded, view, segment, coder);
+    if (scope === undefined) {
+      throw located;
+    }
+    return scope.raise(located);
+  };
+
+  ctx[kCtxView] = { raise };
+  try {
+    if (coder.view !== undefined) {
+      return coder.view(view, ctx);
+    }
+    const [value, bytesRead] = coder.decode(view, ctx);
+    return { value, byteLength: () => bytesRead };
+  } catch (e) {
+    return raise(e);
+  } finally {
+    ctx[kCtxView] = scope;
+  }
+}
+
+/**
+ * Decodes a value as a view: structs and arrays decode their fields and
+ * elements when they are first read.
+ *
+ * Reading a field decodes the fields before it as far as needed to find where
+ * it starts, and reading an element does the same for the elements before it;
+ * nothing after it is touched. Values are decoded once and kept, so reading
+ * them again is free. Errors surface when the field that fails is read, as
+ * {@link BinstructDecodeError}s with the same path and offset {@link decode}
+ * would report.
+ *
+ * The view's arrays are proxies: indexing an element, and the length of
+ * arrays with a known count, only decode what they need, while iterating or
+ * comparing them reads every element. Byte fields are subarrays of `buffer`,
+ * so the buffer must not change while the view is in use.
+ *
+ * @template T - The type of the decoded value
+ * @param coder - The coder to decode with
+ * @param buffer - The bytes to decode
+ * @param context - Optional decode context, e.g. one with refs already set
+ * @returns The value, decoding its fields as they are read
+ *
+ * @example Fields decode on first access
+ * ```ts
+ * import { assertEquals, assertThrows } from "@std/assert";
+ * import { arrayWhile, BinstructDecodeError, struct, u16le, u8 } from "@hertzg/binstruct";
+ * import { decodeView } from "@hertzg/binstruct/view";
+ *
+ * const coder = struct({
+ *   version: u8(),
+ *   samples: arrayWhile(u16le(), ({ buffer }) => buffer.length >= 2),
+ *   crc: u16le(),
+ * });
+ *
+ * // The checksum is cut short, which only matters once it is read
+ * const view = decodeView(coder, new Uint8Array([1, 10, 0, 20, 0, 30]));
+ *
+ * assertEquals(view.version, 1);
+ * assertEquals(view.samples[1], 20);
+ * assertThrows(() => view.crc, BinstructDecodeError, "Failed to decode crc at byte offset 5");
+ * ```
+ */
+export function decodeView<T>(
+  coder: Coder<T>,
+  buffer: Uint8Array,
+  context?: Context,
+): T {
+  const ctx = context ?? createContext("decode");
+
+  const previous = ctx[kCtxView];
+  ctx[kCtxView] = {
+    raise: (error) => {
+      if (error instanceof Object) {
+        raised.add(error);
+      }
+      throw error;
+    },
+  };
+  try {
+    if (coder.view === undefined) {
+      const [value] = coder.decode(buffer, ctx);
+      return value;
+    }
+    return coder.view(buffer, ctx).value;
+  } finally {
+    ctx[kCtxView] = previous;
+  }
+}